@@ -0,0 +1,162 @@
+import {
+  buildAnthropicBody,
+  buildAnthropicHeaders,
+  buildGeminiBody,
+  generateStubResponse,
+  parseAnthropicResponse,
+  parseAnthropicStreamEvent,
+  parseGeminiResponse,
+  splitServerSentEvents,
+} from '../../src/services/aiGatewayEngine';
+import type { AIGatewayRequest, AIImageOutput, AIModelChoice, AIProviderName, AIUsage } from '../../src/types/aiGateway';
+
+/**
+ * Provider calls for the AI gateway (server-side only; keys never reach the browser)
+ * Each provider returns the full text and usage; when onDelta is given the provider's
+ * stream endpoint is used and text is forwarded as it arrives
+ */
+
+export interface ProviderResult {
+  text: string;
+  images: AIImageOutput[];
+  usage: AIUsage;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+export function getConfiguredProviders(): Record<AIProviderName, boolean> {
+  return {
+    anthropic: !!process.env.CLAUDE_API_KEY,
+    gemini: !!process.env.GEMINI_API_KEY,
+    stub: true,
+  };
+}
+
+// Read a fetch body as server-sent events, calling onPayload for each data payload
+async function readServerSentEvents(response: Response, onPayload: (payload: string) => void): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const { payloads, rest } = splitServerSentEvents(buffer);
+    buffer = rest;
+    payloads.forEach(onPayload);
+  }
+  const { payloads } = splitServerSentEvents(`${buffer}\n\n`);
+  payloads.forEach(onPayload);
+}
+
+async function callAnthropic(
+  request: AIGatewayRequest,
+  model: string,
+  maxTokens: number,
+  onDelta?: (text: string) => void
+): Promise<ProviderResult> {
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: buildAnthropicHeaders(process.env.CLAUDE_API_KEY || ''),
+    body: JSON.stringify(buildAnthropicBody({ ...request, stream: !!onDelta }, model, maxTokens)),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(`Anthropic API error: ${response.status} - ${errorText}`, response.status);
+  }
+
+  if (!onDelta) {
+    return parseAnthropicResponse(await response.json());
+  }
+
+  let text = '';
+  const usage: AIUsage = { inputTokens: 0, outputTokens: 0 };
+  await readServerSentEvents(response, payload => {
+    const event = parseAnthropicStreamEvent(payload);
+    if (event.text) {
+      text += event.text;
+      onDelta(event.text);
+    }
+    if (event.usage.inputTokens) usage.inputTokens = event.usage.inputTokens;
+    if (event.usage.outputTokens) usage.outputTokens = event.usage.outputTokens;
+  });
+  return { text, images: [], usage };
+}
+
+async function callGemini(
+  request: AIGatewayRequest,
+  model: string,
+  maxTokens: number,
+  onDelta?: (text: string) => void
+): Promise<ProviderResult> {
+  const apiKey = process.env.GEMINI_API_KEY || '';
+  const method = onDelta ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildGeminiBody(request, maxTokens)),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(`Gemini API error: ${response.status} - ${errorText}`, response.status);
+  }
+
+  if (!onDelta) {
+    return parseGeminiResponse(await response.json());
+  }
+
+  let text = '';
+  const images: AIImageOutput[] = [];
+  let usage: AIUsage = { inputTokens: 0, outputTokens: 0 };
+  await readServerSentEvents(response, payload => {
+    try {
+      const chunk = parseGeminiResponse(JSON.parse(payload));
+      if (chunk.text) {
+        text += chunk.text;
+        onDelta(chunk.text);
+      }
+      images.push(...chunk.images);
+      // usageMetadata is cumulative; the last chunk holds the totals
+      if (chunk.usage.inputTokens || chunk.usage.outputTokens) usage = chunk.usage;
+    } catch {
+      // ignore malformed chunk
+    }
+  });
+  return { text, images, usage };
+}
+
+async function callStub(request: AIGatewayRequest, onDelta?: (text: string) => void): Promise<ProviderResult> {
+  const response = generateStubResponse(request);
+  onDelta?.(response.text);
+  return { text: response.text, images: response.images, usage: response.usage };
+}
+
+export async function callProvider(
+  choice: AIModelChoice,
+  request: AIGatewayRequest,
+  maxTokens: number,
+  onDelta?: (text: string) => void
+): Promise<ProviderResult> {
+  switch (choice.provider) {
+    case 'anthropic':
+      return callAnthropic(request, choice.model, maxTokens, onDelta);
+    case 'gemini':
+      return callGemini(request, choice.model, maxTokens, onDelta);
+    case 'stub':
+      return callStub(request, onDelta);
+  }
+}
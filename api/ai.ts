@@ -0,0 +1,274 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  checkRateLimit,
+  estimateCostUsd,
+  getModelAttempts,
+  isAIFeature,
+  resolveFeatureRoute,
+  resolveMaxTokens,
+  resolveRequestHospital,
+  AI_FEATURE_ROUTES,
+  truncateForLog,
+} from '../src/services/aiGatewayEngine';
+import type {
+  AIFeature,
+  AIFeatureRoute,
+  AIGatewayLogEntry,
+  AIGatewayRequest,
+  AIGatewayResponse,
+  AIGatewayStatus,
+  AIStreamEvent,
+} from '../src/types/aiGateway';
+import { HOSPITALS } from '../src/config/hospitalConfig';
+import { hasCapability } from '../src/services/permissionEngine';
+import type { AppRole } from '../src/types/auth';
+import { callProvider, getConfiguredProviders } from './_lib/aiProviders';
+
+/**
+ * AI gateway: the only place provider keys are used
+ * GET  returns which providers are configured and the per-feature model routes
+ * POST runs a request for a feature (JSON response, or server-sent events when stream is set),
+ *      falling back to the feature's second model, and logs tokens and cost per hospital
+ *
+ * Env: CLAUDE_API_KEY, GEMINI_API_KEY, AI_PROVIDER=stub (answer everything offline),
+ *      AI_FEATURE_MODELS (JSON overrides per feature), AI_RATE_LIMIT_PER_MINUTE (default 20),
+ *      SUPABASE_SERVICE_ROLE_KEY (request log and the shared rate limit)
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY || '';
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// Per-instance fallback for local development without SUPABASE_SERVICE_ROLE_KEY;
+// deployed instances share the take_ai_rate_limit counter in the database
+const localRateLimitBuckets = new Map<string, number[]>();
+
+const isStubMode = () => process.env.AI_PROVIDER === 'stub';
+
+function getRouteOverrides(): Partial<Record<AIFeature, Partial<AIFeatureRoute>>> {
+  if (!process.env.AI_FEATURE_MODELS) return {};
+  try {
+    return JSON.parse(process.env.AI_FEATURE_MODELS);
+  } catch {
+    console.error('AI_FEATURE_MODELS is not valid JSON');
+    return {};
+  }
+}
+
+interface SignedInUser {
+  id: string;
+  hospitalId: string | null;
+  role: AppRole | null;
+  isActive: boolean;   // false for pending sign-ups and logins without an app user
+}
+
+// Supabase user behind the bearer token with the hospital, role and status of their
+// app user, or null when the caller is not signed in
+async function getSignedInUser(authorization: string | undefined): Promise<SignedInUser | null> {
+  if (!authorization?.startsWith('Bearer ') || !SUPABASE_URL) return null;
+  try {
+    const response = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+      headers: { 'apikey': SUPABASE_ANON_KEY, 'Authorization': authorization },
+    });
+    if (!response.ok) return null;
+    const user = await response.json();
+    if (!user?.id) return null;
+
+    const appUserResponse = await fetch(`${SUPABASE_URL}/rest/v1/app_users?id=eq.${user.id}&select=hospital_id,role,is_active`, {
+      headers: { 'apikey': SUPABASE_ANON_KEY, 'Authorization': authorization },
+    });
+    const appUsers = appUserResponse.ok ? await appUserResponse.json() : [];
+    const appUser = appUsers[0];
+    return {
+      id: user.id,
+      hospitalId: appUser?.hospital_id || null,
+      role: appUser?.role || null,
+      isActive: appUser?.is_active === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Milliseconds until the user may call again, 0 when the request is allowed
+async function takeRateLimit(userId: string | null, now: number, limit: number): Promise<number> {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (serviceKey && SUPABASE_URL && userId) {
+    try {
+      const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/take_ai_rate_limit`, {
+        method: 'POST',
+        headers: {
+          'apikey': serviceKey,
+          'Authorization': `Bearer ${serviceKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ p_user_id: userId, p_limit: limit, p_window_ms: RATE_LIMIT_WINDOW_MS }),
+      });
+      if (response.ok) return Number(await response.json()) || 0;
+      console.error('Error checking AI rate limit:', response.status, await response.text());
+    } catch (error) {
+      console.error('Error checking AI rate limit:', error);
+    }
+  }
+
+  const bucketKey = userId || 'anonymous';
+  const rateLimit = checkRateLimit(localRateLimitBuckets.get(bucketKey) || [], now, limit, RATE_LIMIT_WINDOW_MS);
+  localRateLimitBuckets.set(bucketKey, rateLimit.timestamps);
+  return rateLimit.allowed ? 0 : rateLimit.retryAfterMs;
+}
+
+// Best-effort request log; a failed insert never fails the AI call
+async function logRequest(entry: Omit<AIGatewayLogEntry, 'id' | 'created_at'>): Promise<void> {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceKey || !SUPABASE_URL) return;
+  try {
+    const response = await fetch(`${SUPABASE_URL}/rest/v1/ai_gateway_requests`, {
+      method: 'POST',
+      headers: {
+        'apikey': serviceKey,
+        'Authorization': `Bearer ${serviceKey}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'return=minimal',
+      },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) {
+      console.error('Error logging AI request:', response.status, await response.text());
+    }
+  } catch (error) {
+    console.error('Error logging AI request:', error);
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'GET') {
+    const providers = getConfiguredProviders();
+    const routes = Object.fromEntries(
+      Object.keys(AI_FEATURE_ROUTES).map(feature => [feature, resolveFeatureRoute(feature as AIFeature, getRouteOverrides(), isStubMode())])
+    ) as AIGatewayStatus['routes'];
+    const status: AIGatewayStatus = {
+      providers: { ...providers, anthropic: providers.anthropic && !isStubMode(), gemini: providers.gemini && !isStubMode() },
+      routes,
+    };
+    return res.status(200).json(status);
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const body = (req.body || {}) as Partial<AIGatewayRequest>;
+  if (!isAIFeature(body.feature)) {
+    return res.status(400).json({ error: 'Unknown AI feature' });
+  }
+  if (!body.prompt) {
+    return res.status(400).json({ error: 'Prompt is required' });
+  }
+  const request = body as AIGatewayRequest;
+
+  const user = await getSignedInUser(req.headers.authorization);
+  if (!user && !isStubMode()) {
+    return res.status(401).json({ error: 'Sign in to use AI features' });
+  }
+  if (user && !user.isActive) {
+    return res.status(403).json({ error: 'Your account is awaiting activation by the NABH coordinator' });
+  }
+  if (user && !hasCapability(user.role, 'edit_content')) {
+    return res.status(403).json({ error: 'Your role cannot use AI features' });
+  }
+  const userId = user?.id || null;
+
+  const hospital = resolveRequestHospital(request.hospitalId, user?.hospitalId || null, Object.keys(HOSPITALS));
+  if (!hospital.allowed) {
+    return res.status(403).json({ error: 'You cannot use AI features for this hospital' });
+  }
+
+  const startedAt = Date.now();
+  const route = resolveFeatureRoute(request.feature, getRouteOverrides(), isStubMode());
+  const maxTokens = resolveMaxTokens(request.maxTokens, route);
+  const baseLog = {
+    hospital_id: hospital.hospitalId,
+    user_id: userId,
+    feature: request.feature,
+    streamed: !!request.stream,
+    prompt_chars: request.prompt.length,
+    prompt_excerpt: truncateForLog(request.prompt),
+  };
+
+  const limit = Number(process.env.AI_RATE_LIMIT_PER_MINUTE) || 20;
+  const retryAfterMs = await takeRateLimit(userId, startedAt, limit);
+  if (retryAfterMs > 0) {
+    await logRequest({
+      ...baseLog, provider: route.provider, model: route.model, status: 'rate_limited',
+      input_tokens: 0, output_tokens: 0, cost_usd: 0, latency_ms: 0, response_chars: 0, response_excerpt: null,
+      error: 'Rate limit exceeded',
+    });
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    return res.status(429).json({ error: `Too many AI requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` });
+  }
+
+  const attempts = getModelAttempts(route, getConfiguredProviders());
+  if (attempts.length === 0) {
+    return res.status(503).json({ error: `No AI provider configured for ${request.feature}` });
+  }
+
+  const sendEvent = (event: AIStreamEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  if (request.stream) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+  }
+
+  let lastError = 'Unknown error';
+  for (const choice of attempts) {
+    let streamedText = false;
+    try {
+      const result = await callProvider(
+        choice,
+        request,
+        maxTokens,
+        request.stream
+          ? text => {
+              streamedText = true;
+              sendEvent({ type: 'delta', text });
+            }
+          : undefined
+      );
+      const response: AIGatewayResponse = {
+        ...result,
+        provider: choice.provider,
+        model: choice.model,
+        costUsd: estimateCostUsd(choice.model, result.usage),
+      };
+
+      await logRequest({
+        ...baseLog, provider: choice.provider, model: choice.model, status: 'success',
+        input_tokens: result.usage.inputTokens, output_tokens: result.usage.outputTokens, cost_usd: response.costUsd,
+        latency_ms: Date.now() - startedAt, response_chars: result.text.length,
+        response_excerpt: truncateForLog(result.text), error: null,
+      });
+
+      if (request.stream) {
+        sendEvent({ type: 'done', response });
+        return res.end();
+      }
+      return res.status(200).json(response);
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`AI gateway ${choice.provider}/${choice.model} failed:`, lastError);
+      await logRequest({
+        ...baseLog, provider: choice.provider, model: choice.model, status: 'error',
+        input_tokens: 0, output_tokens: 0, cost_usd: 0, latency_ms: Date.now() - startedAt,
+        response_chars: 0, response_excerpt: null, error: truncateForLog(lastError),
+      });
+      // Text already sent to the browser cannot be retried with another model
+      if (streamedText) break;
+    }
+  }
+
+  if (request.stream) {
+    sendEvent({ type: 'error', error: lastError });
+    return res.end();
+  }
+  return res.status(502).json({ error: lastError });
+}
@@ -0,0 +1,87 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { collectComplianceEvents } from '../src/services/complianceCalendarEngine';
+import { buildICSCalendar } from '../src/utils/icsExport';
+import { HOSPITALS } from '../src/config/hospitalConfig';
+
+/**
+ * Compliance calendar subscription feed (GET /api/compliance-calendar?token=...)
+ * Serves a hospital's compliance calendar as text/calendar so Google / Outlook / Apple calendars
+ * can subscribe to it and pick up new obligations. Calendar apps cannot sign in, so the token
+ * issued by calendar_feed_token() identifies the user and hospital; it stops working when the
+ * user is deactivated, moved to another hospital or resets the token.
+ *
+ * Env: SUPABASE_SERVICE_ROLE_KEY
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+
+interface FeedTokenRow {
+  hospital_id: string;
+  app_users: { is_active: boolean; hospital_id: string | null } | null;
+}
+
+async function supabaseRequest<T>(path: string): Promise<T> {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    headers: {
+      'apikey': serviceKey,
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`${path.split('?')[0]} ${response.status}: ${await response.text()}`);
+  }
+  return (await response.json()) as T;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY || !SUPABASE_URL) {
+    return res.status(500).json({ error: 'Supabase service role is not configured' });
+  }
+
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const [feed] = await supabaseRequest<FeedTokenRow[]>(
+      `calendar_feed_tokens?token=eq.${token}&select=hospital_id,app_users(is_active,hospital_id)`
+    );
+    if (!feed) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    const appUser = feed.app_users;
+    if (!appUser?.is_active || (appUser.hospital_id && appUser.hospital_id !== feed.hospital_id)) {
+      return res.status(403).json({ error: 'This calendar subscription is no longer active' });
+    }
+    const hospital = HOSPITALS[feed.hospital_id];
+    if (!hospital) {
+      return res.status(404).json({ error: 'Unknown hospital' });
+    }
+
+    // A partial feed would delete the missing events from subscribed calendars, so any
+    // failing source fails the request and calendar apps keep their last copy
+    const result = await collectComplianceEvents(
+      hospital.id,
+      <T>(table: string, query: string) => supabaseRequest<T[]>(`${table}?${query}`)
+    );
+    if (!result.success) {
+      console.error('Error loading compliance calendar feed:', result.errors);
+      return res.status(502).json({ error: 'Could not load the compliance calendar' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${hospital.id}-nabh-compliance.ics"`);
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    return res.status(200).send(buildICSCalendar(result.data, `${hospital.name} - NABH Compliance`));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error serving compliance calendar feed:', errorMessage);
+    return res.status(500).json({ error: errorMessage });
+  }
+}
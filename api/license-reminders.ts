@@ -0,0 +1,116 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  buildRenewalTask,
+  dbToLicense,
+  getDueReminder,
+  getLicensesDueForRenewal,
+} from '../src/services/licenseRenewalEngine';
+import type { LicenseDB } from '../src/types/license';
+import type { LicenseRenewal } from '../src/types/licenseRenewal';
+import type { AppNotificationInput } from '../src/types/notification';
+import { HOSPITALS, getNABHCoordinator } from '../src/config/hospitalConfig';
+
+/**
+ * Daily license renewal reminder run (Vercel cron, see vercel.json)
+ * Opens renewal tasks for licenses whose reminder window has started and sends the reminders /
+ * escalations due today to their recipients. Runs once on the server instead of in every browser;
+ * a rerun the same day is a no-op because tasks and notifications are upserted on their unique keys.
+ *
+ * Env: CRON_SECRET (sent by Vercel cron as the bearer token), SUPABASE_SERVICE_ROLE_KEY
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+
+async function supabaseRequest<T>(path: string, init: { method?: string; body?: unknown; prefer?: string } = {}): Promise<T> {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'apikey': serviceKey,
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+      ...(init.prefer ? { 'Prefer': init.prefer } : {}),
+    },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  });
+  if (!response.ok) {
+    throw new Error(`${path.split('?')[0]} ${response.status}: ${await response.text()}`);
+  }
+  return (response.status === 204 ? [] : await response.json()) as T;
+}
+
+async function runHospitalReminders(hospitalId: string, today: Date): Promise<{ opened: number; reminded: number }> {
+  const hospital = encodeURIComponent(hospitalId);
+  const [licenseRows, existing] = await Promise.all([
+    supabaseRequest<LicenseDB[]>(`licenses?is_active=eq.true&hospital_id=eq.${hospital}&order=expiry_date.asc`),
+    supabaseRequest<LicenseRenewal[]>(`license_renewals?hospital_id=eq.${hospital}`),
+  ]);
+
+  const due = getLicensesDueForRenewal(licenseRows.map(dbToLicense), existing, today);
+  const opened = due.length === 0 ? [] : await supabaseRequest<LicenseRenewal[]>(
+    'license_renewals?on_conflict=license_id,expiry_date',
+    { method: 'POST', body: due.map(buildRenewalTask), prefer: 'return=representation,resolution=ignore-duplicates' }
+  );
+
+  const coordinator = getNABHCoordinator().name;
+  const reminders = [...opened, ...existing]
+    .map(renewal => ({ renewal, reminder: getDueReminder(renewal, coordinator, today) }))
+    .filter(r => r.reminder !== null);
+  if (reminders.length === 0) return { opened: opened.length, reminded: 0 };
+
+  const sentOn = today.toISOString().split('T')[0];
+  const notifications: (AppNotificationInput & { sent_on: string })[] = reminders.map(({ renewal, reminder }) => ({
+    hospital_id: hospitalId,
+    source: 'license_renewal',
+    reference_id: renewal.id,
+    recipient: reminder!.recipient,
+    title: reminder!.title,
+    message: reminder!.message,
+    severity: reminder!.level === 2 ? 'error' : 'warning',
+    link: '/licenses',
+    sent_on: sentOn,
+  }));
+  await supabaseRequest('notifications?on_conflict=source,reference_id,recipient,sent_on', {
+    method: 'POST',
+    body: notifications,
+    prefer: 'return=minimal,resolution=ignore-duplicates',
+  });
+
+  const remindedAt = today.toISOString();
+  await Promise.all(reminders.map(({ renewal, reminder }) =>
+    supabaseRequest(`license_renewals?id=eq.${renewal.id}`, {
+      method: 'PATCH',
+      body: { last_reminded_at: remindedAt, last_escalation_level: reminder!.level },
+      prefer: 'return=minimal',
+    })
+  ));
+
+  return { opened: opened.length, reminded: reminders.length };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY || !SUPABASE_URL) {
+    return res.status(500).json({ error: 'Supabase service role is not configured' });
+  }
+
+  const today = new Date();
+  const results: Record<string, { opened: number; reminded: number } | { error: string }> = {};
+  for (const hospitalId of Object.keys(HOSPITALS)) {
+    try {
+      results[hospitalId] = await runHospitalReminders(hospitalId, today);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error running license reminders for ${hospitalId}:`, errorMessage);
+      results[hospitalId] = { error: errorMessage };
+    }
+  }
+
+  const failed = Object.values(results).some(result => 'error' in result);
+  return res.status(failed ? 500 : 200).json(results);
+}
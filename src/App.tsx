@@ -34,6 +34,8 @@ import HospitalManualsMasterPage from './components/HospitalManualsMasterPage';
 import LicensesMasterPage from './components/LicensesMasterPage';
 import MOUsMasterPage from './components/MOUsMasterPage';
 import SurveysPage from './components/SurveysPage';
+import SurveyAnalyticsPage from './components/SurveyAnalyticsPage';
+import PublicSurveyPage from './components/PublicSurveyPage';
 import CheatSheetsPage from './components/CheatSheetsPage';
 import SearchPage from './components/SearchPage';
 import EmergencyCodesPage from './components/EmergencyCodesPage';
@@ -47,6 +49,22 @@ import DocumentLevelsPage from './components/DocumentLevelsPage';
 import OldExtractedSOPsPage from './components/OldExtractedSOPsPage';
 import SOPDatabasePage from './components/SOPDatabasePage';
 import CustomSOPsPage from './components/CustomSOPsPage';
+import MockAssessmentPage from './components/MockAssessmentPage';
+import NonConformityPage from './components/NonConformityPage';
+import ComplianceCalendarPage from './components/ComplianceCalendarPage';
+import DocumentMasterListPage from './components/DocumentMasterListPage';
+import DocumentReviewPage from './components/DocumentReviewPage';
+import KPIDataCapturePage from './components/KPIDataCapturePage';
+import KPIScorecardPage from './components/KPIScorecardPage';
+import CommitteeCompliancePage from './components/CommitteeCompliancePage';
+import EquipmentMaintenancePage from './components/EquipmentMaintenancePage';
+import EquipmentBreakdownPage from './components/EquipmentBreakdownPage';
+import PublicEquipmentPage from './components/PublicEquipmentPage';
+import UserManagementPage from './components/UserManagementPage';
+import AuditLogPage from './components/AuditLogPage';
+import AIUsagePage from './components/AIUsagePage';
+import PromptLibraryPage from './components/PromptLibraryPage';
+import AuthGate from './components/AuthGate';
 import Footer from './components/Footer';
 import { useNABHStore } from './store/nabhStore';
 
@@ -269,6 +287,7 @@ function MainContent() {
   const isStationeryPage = location.pathname === '/stationery';
   const isCommitteesPage = location.pathname === '/committees';
   const isSurveysPage = location.pathname === '/surveys';
+  const isSurveyAnalyticsPage = location.pathname.startsWith('/surveys/');
   const isCheatSheetsPage = location.pathname === '/cheat-sheets';
   const isSearchPage = location.pathname === '/search';
   const isKPIsPage = location.pathname === '/kpis';
@@ -300,6 +319,20 @@ function MainContent() {
   const isCustomSOPsPage = location.pathname === '/custom-sops';
   const isDocumentLevelsPage = location.pathname === '/document-levels';
   const isOldExtractedSOPsPage = location.pathname === '/old-extracted-sops';
+  const isMockAssessmentPage = location.pathname === '/mock-assessment';
+  const isNCRegisterPage = location.pathname === '/nc-register';
+  const isComplianceCalendarPage = location.pathname === '/compliance-calendar';
+  const isDocumentMasterListPage = location.pathname === '/document-master-list';
+  const isDocumentReviewPage = location.pathname === '/document-reviews';
+  const isKPIDataCapturePage = location.pathname === '/kpi-capture';
+  const isKPIScorecardPage = location.pathname === '/kpi-scorecard';
+  const isCommitteeCompliancePage = location.pathname === '/committee-compliance';
+  const isEquipmentMaintenancePage = location.pathname === '/equipment-maintenance';
+  const isEquipmentBreakdownPage = location.pathname === '/equipment-breakdowns';
+  const isUsersPage = location.pathname === '/users';
+  const isAuditLogPage = location.pathname === '/audit-log';
+  const isAIUsagePage = location.pathname === '/ai-usage';
+  const isPromptLibraryPage = location.pathname === '/prompt-library';
   const isDashboardPage = location.pathname === '/dashboard';
   const isLandingPage = location.pathname === '/' && !selectedChapter;
 
@@ -323,6 +356,10 @@ function MainContent() {
     return <SurveysPage />;
   }
 
+  if (isSurveyAnalyticsPage) {
+    return <SurveyAnalyticsPage />;
+  }
+
   if (isCheatSheetsPage) {
     return <CheatSheetsPage />;
   }
@@ -447,6 +484,62 @@ function MainContent() {
     return <OldExtractedSOPsPage />;
   }
 
+  if (isMockAssessmentPage) {
+    return <MockAssessmentPage />;
+  }
+
+  if (isNCRegisterPage) {
+    return <NonConformityPage />;
+  }
+
+  if (isComplianceCalendarPage) {
+    return <ComplianceCalendarPage />;
+  }
+
+  if (isDocumentMasterListPage) {
+    return <DocumentMasterListPage />;
+  }
+
+  if (isDocumentReviewPage) {
+    return <DocumentReviewPage />;
+  }
+
+  if (isKPIDataCapturePage) {
+    return <KPIDataCapturePage />;
+  }
+
+  if (isKPIScorecardPage) {
+    return <KPIScorecardPage />;
+  }
+
+  if (isCommitteeCompliancePage) {
+    return <CommitteeCompliancePage />;
+  }
+
+  if (isEquipmentMaintenancePage) {
+    return <EquipmentMaintenancePage />;
+  }
+
+  if (isEquipmentBreakdownPage) {
+    return <EquipmentBreakdownPage />;
+  }
+
+  if (isUsersPage) {
+    return <UserManagementPage />;
+  }
+
+  if (isAuditLogPage) {
+    return <AuditLogPage />;
+  }
+
+  if (isAIUsagePage) {
+    return <AIUsagePage />;
+  }
+
+  if (isPromptLibraryPage) {
+    return <PromptLibraryPage />;
+  }
+
   if (isDashboardPage) {
     return <Dashboard />;
   }
@@ -480,7 +573,8 @@ function AppContent() {
   const isObjectiveDetailPage = location.pathname.startsWith('/objective/');
   const isKPIDetailPage = location.pathname.startsWith('/kpi/');
   const isDepartmentDetailPage = location.pathname.startsWith('/department/');
-  const isManagementPage = ['/stationery', '/committees', '/surveys', '/cheat-sheets', '/search', '/kpis', '/presentations', '/nabh-master', '/migration', '/patients', '/employees', '/consultants', '/doctors', '/departments', '/equipment', '/programs', '/clinical-audits', '/manuals', '/licenses', '/mous', '/evidence-prompt', '/sop-prompt', '/emergency-codes', '/signage-generator', '/image-generator', '/call-center', '/sops', '/recent-sops', '/sop-database', '/custom-sops', '/old-extracted-sops', '/dashboard'].includes(location.pathname) || isKPIDetailPage || isDepartmentDetailPage;
+  const isSurveyAnalyticsPage = location.pathname.startsWith('/surveys/');
+  const isManagementPage = ['/stationery', '/committees', '/committee-compliance', '/surveys', '/cheat-sheets', '/search', '/kpis', '/presentations', '/nabh-master', '/migration', '/patients', '/employees', '/consultants', '/doctors', '/departments', '/equipment', '/equipment-maintenance', '/equipment-breakdowns', '/programs', '/clinical-audits', '/manuals', '/licenses', '/mous', '/evidence-prompt', '/sop-prompt', '/emergency-codes', '/signage-generator', '/image-generator', '/call-center', '/sops', '/recent-sops', '/sop-database', '/custom-sops', '/old-extracted-sops', '/mock-assessment', '/nc-register', '/compliance-calendar', '/document-master-list', '/document-reviews', '/kpi-capture', '/kpi-scorecard', '/users', '/audit-log', '/ai-usage', '/prompt-library', '/dashboard'].includes(location.pathname) || isKPIDetailPage || isDepartmentDetailPage || isSurveyAnalyticsPage;
   const isLandingPage = location.pathname === '/' && !selectedChapter;
   const showSidebar = !isAIPage && !isLandingPage && !isObjectiveDetailPage || isManagementPage;
 
@@ -536,10 +630,13 @@ function App() {
         <Routes>
           <Route path="/evidence/:evidenceId" element={<SharedEvidencePage />} />
           <Route path="/sop/:sopId" element={<SharedSOPPage />} />
-          <Route path="/objective/:chapterId/:objectiveId" element={<AppContent />} />
-          <Route path="/kpi/:kpiId" element={<AppContent />} />
-          <Route path="/department/:code" element={<AppContent />} />
-          <Route path="/*" element={<AppContent />} />
+          <Route path="/survey/:surveyId" element={<PublicSurveyPage />} />
+          <Route path="/equipment-tag/:equipmentTag" element={<PublicEquipmentPage />} />
+          <Route path="/objective/:chapterId/:objectiveId" element={<AuthGate><AppContent /></AuthGate>} />
+          <Route path="/kpi/:kpiId" element={<AuthGate><AppContent /></AuthGate>} />
+          <Route path="/surveys/:surveyId" element={<AuthGate><AppContent /></AuthGate>} />
+          <Route path="/department/:code" element={<AuthGate><AppContent /></AuthGate>} />
+          <Route path="/*" element={<AuthGate><AppContent /></AuthGate>} />
         </Routes>
       </BrowserRouter>
     </ThemeProvider>
@@ -37,8 +37,9 @@ import DialogContent from '@mui/material/DialogContent';
 import DialogActions from '@mui/material/DialogActions';
 import { useNABHStore } from '../store/nabhStore';
 import { getHospitalInfo, getNABHCoordinator, NABH_ASSESSOR_PROMPT } from '../config/hospitalConfig';
-import { getClaudeApiKey, callGeminiAPI, getGeminiApiKey } from '../lib/supabase';
-import { generateDocumentNumber, getFormattedDate, getReviewDate } from '../utils/documentNumbering';
+import { generateAI, loadAIGatewayStatus } from '../services/aiGatewayClient';
+import { getChapterCode, getDraftDocumentNumber, getFormattedDate, getReviewDate } from '../utils/documentNumbering';
+import { allocateDocumentNumber, linkDocumentOwner } from '../services/documentRegistryStorage';
 import {
   generateInfographic,
   svgToDataUrl,
@@ -48,6 +49,7 @@ import {
 } from '../services/infographicGenerator';
 import { getRelevantData } from '../services/hopeHospitalDatabase';
 import { saveGeneratedEvidence, loadEvidenceById } from '../services/objectiveStorage';
+import type { AIFeature, AIGatewayStatus } from '../types/aiGateway';
 
 // Expandable TextField styles
 const expandableTextFieldSx = {
@@ -88,7 +90,7 @@ const nabhCoordinator = getNABHCoordinator();
 
 const defaultListPrompt = NABH_ASSESSOR_PROMPT;
 
-const getContentPrompt = (config: HospitalConfig, objectiveCode: string) => `You are an expert in NABH (National Accreditation Board for Hospitals and Healthcare Providers) accreditation documentation for ${config.name}.
+const getContentPrompt = (config: HospitalConfig, documentNumber: string) => `You are an expert in NABH (National Accreditation Board for Hospitals and Healthcare Providers) accreditation documentation for ${config.name}.
 
 Generate a complete HTML document for the selected evidence item in ENGLISH ONLY (internal document).
 
@@ -145,7 +147,7 @@ Use this HTML template structure:
   <div class="doc-title">[DOCUMENT TITLE]</div>
 
   <table class="info-table">
-    <tr><th>Document No</th><td>${generateDocumentNumber(objectiveCode)}</td><th>Version</th><td>1.0</td></tr>
+    <tr><th>Document No</th><td>${documentNumber}</td><th>Version</th><td>1.0</td></tr>
     <tr><th>Department</th><td>[Department]</td><th>Category</th><td>[Policy/SOP/Record]</td></tr>
     <tr><th>Effective Date</th><td>${getFormattedDate()}</td><th>Review Date</th><td>${getReviewDate()}</td></tr>
   </table>
@@ -419,6 +421,8 @@ interface GeneratedContent {
   evidenceItem: string;
   content: string;
   editableText: string;
+  draftNumber?: string; // placeholder number shown until the document is saved
+  registryId?: string; // document registry entry allocated when the document was saved
 }
 
 interface GeneratedImage {
@@ -623,67 +627,10 @@ function updateHTMLWithText(
 </html>`;
 }
 
-// Gemini API call for text generation using secure backend proxy
-async function callGeminiText(apiKey: string, prompt: string, userMessage: string): Promise<string> {
-  try {
-    const data = await callGeminiAPI(`${prompt}\n\n${userMessage}`, 0.7, 8192);
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  } catch (err: any) {
-    throw new Error(err.message || 'Failed to generate content');
-  }
-}
-
-// Claude API call for text generation
-async function callClaudeText(apiKey: string, prompt: string, userMessage: string): Promise<string> {
-  // Validate API key
-  if (!apiKey || apiKey.trim() === '') {
-    throw new Error('Claude API key is not configured. Please add VITE_CLAUDE_API_KEY to your .env file and restart the development server.');
-  }
-
-  try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-        'anthropic-dangerous-direct-browser-access': 'true',
-      },
-      body: JSON.stringify({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: `${prompt}\n\n${userMessage}`,
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error?.message || `API request failed with status ${response.status}`;
-
-      if (response.status === 401) {
-        throw new Error('Invalid API key. Please check your VITE_CLAUDE_API_KEY in the .env file.');
-      } else if (response.status === 403) {
-        throw new Error('API access forbidden. The API key may not have the required permissions or CORS may be blocking the request.');
-      } else if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    return data.content?.[0]?.text || '';
-  } catch (err) {
-    if (err instanceof TypeError && err.message.includes('fetch')) {
-      throw new Error('Network error: Unable to connect to Claude API. Please check your internet connection.');
-    }
-    throw err;
-  }
+// Text generation through the AI gateway, which falls back to the feature's second model
+async function callAIText(feature: AIFeature, prompt: string, userMessage: string): Promise<string> {
+  const { text } = await generateAI({ feature, prompt: `${prompt}\n\n${userMessage}`, temperature: 0.7 });
+  return text;
 }
 
 export default function AIEvidenceGenerator() {
@@ -726,9 +673,11 @@ export default function AIEvidenceGenerator() {
     });
   }
 
-  // API keys from environment variables
-  const claudeApiKey = getClaudeApiKey();
-  const geminiApiKey = getGeminiApiKey();
+  // Providers configured on the AI gateway
+  const [aiStatus, setAIStatus] = useState<AIGatewayStatus | null>(null);
+  const geminiConfigured = !!aiStatus?.providers.gemini;
+  const claudeConfigured = !!aiStatus?.providers.anthropic;
+  const stubConfigured = !!aiStatus && !geminiConfigured && !claudeConfigured;
   const [evidenceItems, setEvidenceItems] = useState<EvidenceItem[]>([]);
   const [generatedContents, setGeneratedContents] = useState<GeneratedContent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -766,6 +715,14 @@ export default function AIEvidenceGenerator() {
   const reviewedBy = { name: 'Gaurav Agrawal', designation: 'Hospital Administrator', date: fixedDate };
   const approvedBy = { name: 'Dr. Shiraz Khan', designation: 'Quality Coordinator', date: fixedDate };
 
+  useEffect(() => {
+    const fetchAIStatus = async () => {
+      const result = await loadAIGatewayStatus();
+      if (result.success && result.data) setAIStatus(result.data);
+    };
+    fetchAIStatus();
+  }, []);
+
   // Auto-populate from store if navigated from ObjectiveDetailPage
   useEffect(() => {
     if (selectedEvidenceForCreation && selectedEvidenceForCreation.length > 0) {
@@ -872,37 +829,11 @@ export default function AIEvidenceGenerator() {
     setGeneratedContents([]);
 
     try {
-      let generatedText: string;
-
-      // Try Gemini first, fallback to Claude
-      if (geminiApiKey) {
-        try {
-          generatedText = await callGeminiText(
-            geminiApiKey,
-            listPrompt,
-            `Objective Element Description:\n\n${description}`
-          );
-        } catch (geminiErr) {
-          console.warn('Gemini failed, trying Claude:', geminiErr);
-          if (claudeApiKey) {
-            generatedText = await callClaudeText(
-              claudeApiKey,
-              listPrompt,
-              `Objective Element Description:\n\n${description}`
-            );
-          } else {
-            throw geminiErr;
-          }
-        }
-      } else if (claudeApiKey) {
-        generatedText = await callClaudeText(
-          claudeApiKey,
-          listPrompt,
-          `Objective Element Description:\n\n${description}`
-        );
-      } else {
-        throw new Error('No API key configured. Please configure either Gemini or Claude API key.');
-      }
+      const generatedText = await callAIText(
+        'evidence-list',
+        listPrompt,
+        `Objective Element Description:\n\n${description}`
+      );
 
       const items = parseEvidenceList(generatedText);
       setEvidenceItems(items);
@@ -965,10 +896,13 @@ export default function AIEvidenceGenerator() {
         setContentProgress({ current: i + 1, total: selectedItems.length });
 
         try {
+          // Drafts carry a placeholder; the controlled number is allocated on save
+          const draftNumber = isTrainingEvidence(item.text) ? undefined : getDraftDocumentNumber(objectiveCode);
+
           // Use training-specific prompt for training-related evidence
-          const contentPrompt = isTrainingEvidence(item.text)
-            ? getTrainingPrompt(hospitalConfig)
-            : getContentPrompt(hospitalConfig, objectiveCode);
+          const contentPrompt = draftNumber
+            ? getContentPrompt(hospitalConfig, draftNumber)
+            : getTrainingPrompt(hospitalConfig);
 
           // Fetch real patient/staff data from nabh_patients table
           const relevantData = await getRelevantData(item.text);
@@ -1045,25 +979,7 @@ ${item.text}${dataContext}
 
 Generate complete, ready-to-use content/template for this evidence in ENGLISH ONLY (internal document) with the hospital header, footer, signature and stamp sections as specified. Make sure to fill in the objective-line with the NABH Objective value provided above.`;
 
-          let content: string;
-
-          // Try Gemini first, fallback to Claude
-          if (geminiApiKey) {
-            try {
-              content = await callGeminiText(geminiApiKey, contentPrompt, userMessage);
-            } catch (geminiErr) {
-              console.warn('Gemini failed for content generation, trying Claude:', geminiErr);
-              if (claudeApiKey) {
-                content = await callClaudeText(claudeApiKey, contentPrompt, userMessage);
-              } else {
-                throw geminiErr;
-              }
-            }
-          } else if (claudeApiKey) {
-            content = await callClaudeText(claudeApiKey, contentPrompt, userMessage);
-          } else {
-            throw new Error('No API key configured.');
-          }
+          const content = await callAIText('evidence-generation', contentPrompt, userMessage);
 
           // Extract editable text from the generated HTML content
           const editableText = extractTextFromHTML(content);
@@ -1072,6 +988,7 @@ Generate complete, ready-to-use content/template for this evidence in ENGLISH ON
             evidenceItem: item.text,
             content,
             editableText,
+            draftNumber,
           });
 
           setGeneratedContents([...contents]);
@@ -1719,8 +1636,40 @@ ${trimmed}
       const selectedObj = objectives.find(obj => obj.id === selectedObjective);
       const objectiveCode = selectedObj?.code || 'GENERAL';
 
+      // Allocate the controlled document number the first time this draft is saved
+      const generated = generatedContents[documentIndex];
+      let registryId = generated?.registryId;
+      let documentNumber: string | undefined;
+      if (generated?.draftNumber && !registryId) {
+        const allocation = await allocateDocumentNumber({
+          hospitalId: selectedHospital,
+          docType: 'DOC',
+          chapterCode: getChapterCode(objectiveCode),
+          title: evidenceTitle.substring(0, 200),
+          ownerType: 'evidence',
+          objectiveCode,
+        });
+        if (allocation.success && allocation.data) {
+          registryId = allocation.data.id;
+          documentNumber = allocation.data.document_number;
+        } else {
+          console.warn('Document number allocation failed, saving evidence as draft number:', allocation.error);
+        }
+      }
+      const numberedContent = documentNumber && generated?.draftNumber
+        ? content.split(generated.draftNumber).join(documentNumber)
+        : content;
+
+      // Keep the allocation on the draft so a failed save is retried with the same number
+      if (documentNumber) {
+        setGeneratedContents(prev => prev.map((gc, idx) => idx === documentIndex
+          ? { ...gc, content: numberedContent, editableText: extractTextFromHTML(numberedContent), registryId }
+          : gc
+        ));
+      }
+
       // Extract HTML and text content
-      const htmlContent = isHTMLContent(content) ? extractHTMLContent(content) : content;
+      const htmlContent = isHTMLContent(numberedContent) ? extractHTMLContent(numberedContent) : numberedContent;
       const textContent = extractTextFromHTML(htmlContent);
 
       // Save to database
@@ -1746,6 +1695,11 @@ ${trimmed}
         // Store the saved document ID
         setSavedDocuments(prev => ({ ...prev, [documentIndex]: result.id! }));
 
+        // Mark the allocated document number as owned by this evidence
+        if (registryId) {
+          await linkDocumentOwner(registryId, 'evidence', result.id);
+        }
+
         setSaveStatus('success');
         setSaveMessage('Document saved successfully!');
 
@@ -1822,7 +1776,7 @@ ${trimmed}
             color="success"
             variant="outlined"
           />
-          {geminiApiKey && (
+          {geminiConfigured && (
             <Chip
               icon={<Icon>check_circle</Icon>}
               label="Gemini"
@@ -1831,7 +1785,7 @@ ${trimmed}
               size="small"
             />
           )}
-          {claudeApiKey && (
+          {claudeConfigured && (
             <Chip
               icon={<Icon>check_circle</Icon>}
               label="Claude"
@@ -1840,11 +1794,11 @@ ${trimmed}
               size="small"
             />
           )}
-          {!geminiApiKey && !claudeApiKey && (
+          {stubConfigured && (
             <Chip
               icon={<Icon>warning</Icon>}
-              label="API Key Missing"
-              color="error"
+              label="Offline Stub"
+              color="warning"
               variant="outlined"
               size="small"
             />
@@ -1859,14 +1813,14 @@ ${trimmed}
         </Box>
 
         {/* API Key Warning */}
-        {!geminiApiKey && !claudeApiKey && (
-          <Alert severity="error" sx={{ mb: 2 }}>
+        {stubConfigured && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
             <Typography variant="body2">
-              <strong>No API keys configured.</strong> Add <code>VITE_GEMINI_API_KEY</code> or <code>VITE_CLAUDE_API_KEY</code> to your <code>.env</code> file.
+              <strong>No AI provider configured.</strong> Set <code>GEMINI_API_KEY</code> or <code>CLAUDE_API_KEY</code> on the server; responses come from the offline stub.
             </Typography>
           </Alert>
         )}
-        {geminiApiKey && !claudeApiKey && (
+        {geminiConfigured && !claudeConfigured && (
           <Alert severity="info" sx={{ mb: 2 }}>
             <Typography variant="body2">
               Using <strong>Gemini</strong> for content generation. Claude available as backup if configured.
@@ -0,0 +1,239 @@
+/**
+ * AI Usage Page
+ * Requests, tokens and estimated cost of AI calls per feature and per hospital
+ * Route: /ai-usage
+ * Every AI call goes through the server-side gateway (api/ai.ts), which logs one row per request
+ */
+
+import { useState, useEffect } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Grid from '@mui/material/Grid';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import CircularProgress from '@mui/material/CircularProgress';
+import { HOSPITALS } from '../config/hospitalConfig';
+import { loadAIUsage } from '../services/aiUsageStorage';
+import { loadAIGatewayStatus } from '../services/aiGatewayClient';
+import { summarizeAIUsage } from '../services/aiGatewayEngine';
+import type { AIGatewayLogEntry, AIGatewayStatus, AIUsageSummaryRow } from '../types/aiGateway';
+
+const RECENT_LIMIT = 50;
+
+const STATUS_COLORS: Record<AIGatewayLogEntry['status'], 'success' | 'error' | 'warning'> = {
+  success: 'success',
+  error: 'error',
+  rate_limited: 'warning',
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(4)}`;
+const formatNumber = (value: number) => value.toLocaleString('en-IN');
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+const getHospitalName = (hospitalId: string) => HOSPITALS[hospitalId]?.name || hospitalId;
+
+function SummaryTable({ title, rows, label }: { title: string; rows: AIUsageSummaryRow[]; label: (key: string) => string }) {
+  return (
+    <TableContainer component={Paper}>
+      <Typography variant="subtitle1" fontWeight={600} sx={{ px: 2, pt: 2 }}>{title}</Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            <TableCell align="right">Requests</TableCell>
+            <TableCell align="right">Errors</TableCell>
+            <TableCell align="right">Input Tokens</TableCell>
+            <TableCell align="right">Output Tokens</TableCell>
+            <TableCell align="right">Cost</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} align="center">
+                <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>No AI requests in this period</Typography>
+              </TableCell>
+            </TableRow>
+          )}
+          {rows.map(row => (
+            <TableRow key={row.key} hover>
+              <TableCell>{label(row.key)}</TableCell>
+              <TableCell align="right">{formatNumber(row.requests)}</TableCell>
+              <TableCell align="right">{row.errors || '-'}</TableCell>
+              <TableCell align="right">{formatNumber(row.inputTokens)}</TableCell>
+              <TableCell align="right">{formatNumber(row.outputTokens)}</TableCell>
+              <TableCell align="right">{formatUsd(row.costUsd)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
+
+export default function AIUsagePage() {
+  const [logs, setLogs] = useState<AIGatewayLogEntry[]>([]);
+  const [status, setStatus] = useState<AIGatewayStatus | null>(null);
+  const [hospitalId, setHospitalId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      const result = await loadAIGatewayStatus();
+      if (result.success && result.data) setStatus(result.data);
+    };
+    fetchStatus();
+  }, []);
+
+  useEffect(() => {
+    const fetchLogs = async () => {
+      const result = await loadAIUsage(hospitalId || undefined, from || undefined, to || undefined);
+      if (result.success) {
+        setLogs(result.data || []);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load AI usage');
+      }
+      setLoading(false);
+    };
+    fetchLogs();
+  }, [hospitalId, from, to]);
+
+  const byFeature = summarizeAIUsage(logs, 'feature');
+  const byHospital = summarizeAIUsage(logs, 'hospital_id');
+  const totals = byFeature.reduce(
+    (sum, row) => ({
+      requests: sum.requests + row.requests,
+      errors: sum.errors + row.errors,
+      tokens: sum.tokens + row.inputTokens + row.outputTokens,
+      costUsd: sum.costUsd + row.costUsd,
+    }),
+    { requests: 0, errors: 0, tokens: 0, costUsd: 0 }
+  );
+
+  const handleClearFilters = () => {
+    setHospitalId('');
+    setFrom('');
+    setTo('');
+  };
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            AI Usage
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Tokens and estimated cost of every AI request, by feature and hospital.
+          </Typography>
+        </Box>
+        {status && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Chip size="small" variant="outlined" label="Gemini" color={status.providers.gemini ? 'success' : 'default'} />
+            <Chip size="small" variant="outlined" label="Claude" color={status.providers.anthropic ? 'success' : 'default'} />
+            {!status.providers.gemini && !status.providers.anthropic && (
+              <Chip size="small" variant="outlined" label="Offline Stub" color="warning" />
+            )}
+          </Box>
+        )}
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {/* Filters */}
+      <Paper sx={{ p: 2, mb: 2, display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField select size="small" label="Hospital" value={hospitalId} onChange={(e) => setHospitalId(e.target.value)} sx={{ minWidth: 220 }}>
+          <MenuItem value="">All hospitals</MenuItem>
+          {Object.values(HOSPITALS).map(hospital => (
+            <MenuItem key={hospital.id} value={hospital.id}>{hospital.name}</MenuItem>
+          ))}
+        </TextField>
+        <TextField size="small" type="date" label="From" value={from} onChange={(e) => setFrom(e.target.value)} slotProps={{ inputLabel: { shrink: true } }} />
+        <TextField size="small" type="date" label="To" value={to} onChange={(e) => setTo(e.target.value)} slotProps={{ inputLabel: { shrink: true } }} />
+        <Button onClick={handleClearFilters}>Clear</Button>
+      </Paper>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '300px' }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          {/* Totals */}
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            {[
+              { label: 'Requests', value: formatNumber(totals.requests) },
+              { label: 'Failed / Rate Limited', value: formatNumber(totals.errors) },
+              { label: 'Tokens', value: formatNumber(totals.tokens) },
+              { label: 'Estimated Cost', value: formatUsd(totals.costUsd) },
+            ].map(card => (
+              <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+                <Paper sx={{ p: 2 }}>
+                  <Typography variant="caption" color="text.secondary">{card.label}</Typography>
+                  <Typography variant="h6" fontWeight={600}>{card.value}</Typography>
+                </Paper>
+              </Grid>
+            ))}
+          </Grid>
+
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <Grid size={{ xs: 12, md: 7 }}>
+              <SummaryTable title="By Feature" rows={byFeature} label={key => key} />
+            </Grid>
+            <Grid size={{ xs: 12, md: 5 }}>
+              <SummaryTable title="By Hospital" rows={byHospital} label={getHospitalName} />
+            </Grid>
+          </Grid>
+
+          {/* Recent requests */}
+          <TableContainer component={Paper}>
+            <Typography variant="subtitle1" fontWeight={600} sx={{ px: 2, pt: 2 }}>Recent Requests</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>When</TableCell>
+                  <TableCell>Feature</TableCell>
+                  <TableCell>Model</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Tokens (in / out)</TableCell>
+                  <TableCell align="right">Latency</TableCell>
+                  <TableCell align="right">Cost</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {logs.slice(0, RECENT_LIMIT).map(log => (
+                  <TableRow key={log.id} hover>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTimestamp(log.created_at)}</TableCell>
+                    <TableCell>{log.feature}{log.streamed ? ' (streamed)' : ''}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>{log.model}</TableCell>
+                    <TableCell>
+                      <Chip size="small" color={STATUS_COLORS[log.status]} label={log.status.replace('_', ' ')} title={log.error || undefined} />
+                    </TableCell>
+                    <TableCell align="right">{formatNumber(log.input_tokens)} / {formatNumber(log.output_tokens)}</TableCell>
+                    <TableCell align="right">{(log.latency_ms / 1000).toFixed(1)}s</TableCell>
+                    <TableCell align="right">{formatUsd(Number(log.cost_usd))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Audit Log Page
+ * Who created, changed or deleted which record and when, with before / after values
+ * Route: /audit-log
+ * Entries are written by database triggers and hash-chained; "Verify chain" recomputes
+ * the chain to show whether any entry was edited or removed
+ */
+
+import { Fragment, useState, useEffect } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import IconButton from '@mui/material/IconButton';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Collapse from '@mui/material/Collapse';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import CircularProgress from '@mui/material/CircularProgress';
+import { loadAuditLog, verifyAuditChain } from '../services/auditLogStorage';
+import { loadAppUsers } from '../services/authStorage';
+import { AUDITED_ENTITIES, AUDIT_ACTION_LABELS, getAuditFieldChanges, getEntityLabel } from '../services/auditLogEngine';
+import type { AuditAction, AuditChainVerification, AuditLogEntry, AuditLogFilters } from '../types/audit';
+import type { AppUser } from '../types/auth';
+
+const ACTION_COLORS: Record<AuditAction, 'success' | 'info' | 'error'> = {
+  INSERT: 'success',
+  UPDATE: 'info',
+  DELETE: 'error',
+};
+
+// Select value for writes made without signing in
+const ANONYMOUS = 'anonymous';
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [entityType, setEntityType] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      const result = await loadAppUsers();
+      setUsers(result.data || []);
+    };
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      const filters: AuditLogFilters = {
+        entityType: entityType || undefined,
+        entityId: entityId.trim() || undefined,
+        actorId: actor === ANONYMOUS ? null : actor || undefined,
+        from: from || undefined,
+        to: to || undefined,
+      };
+      const result = await loadAuditLog(filters);
+      if (result.success) {
+        setEntries(result.data || []);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load audit log');
+      }
+      setLoading(false);
+    };
+    fetchEntries();
+  }, [entityType, entityId, actor, from, to]);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    const result = await verifyAuditChain();
+    setVerifying(false);
+    if (result.success && result.data) {
+      setVerification(result.data);
+    } else {
+      setError(result.error || 'Failed to verify audit chain');
+    }
+  };
+
+  const handleClearFilters = () => {
+    setEntityType('');
+    setEntityId('');
+    setActor('');
+    setFrom('');
+    setTo('');
+  };
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Audit Log
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Every create, update and delete on patients, evidence, SOPs, KPIs, stationery and master records.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={verifying ? <CircularProgress size={16} /> : <Icon>verified</Icon>}
+          onClick={handleVerify}
+          disabled={verifying}
+        >
+          Verify Chain
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {verification && (
+        <Alert severity={verification.is_valid ? 'success' : 'error'} sx={{ mb: 2 }} onClose={() => setVerification(null)}>
+          {verification.is_valid
+            ? `Chain intact: ${verification.checked_count} entries verified.`
+            : `Chain broken at entry #${verification.first_invalid_id} after ${verification.checked_count} valid entries. The entry was edited or an earlier entry was removed.`}
+          {verification.head_hash && (
+            <Typography variant="caption" component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 0.5 }}>
+              Last valid hash: {verification.head_hash}
+            </Typography>
+          )}
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Paper sx={{ p: 2, mb: 2, display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <TextField select size="small" label="Entity" value={entityType} onChange={(e) => setEntityType(e.target.value)} sx={{ minWidth: 200 }}>
+          <MenuItem value="">All entities</MenuItem>
+          {Object.entries(AUDITED_ENTITIES).map(([table, label]) => (
+            <MenuItem key={table} value={table}>{label}</MenuItem>
+          ))}
+        </TextField>
+        <TextField size="small" label="Record ID" value={entityId} onChange={(e) => setEntityId(e.target.value)} sx={{ minWidth: 200 }} />
+        <TextField select size="small" label="User" value={actor} onChange={(e) => setActor(e.target.value)} sx={{ minWidth: 200 }}>
+          <MenuItem value="">All users</MenuItem>
+          <MenuItem value={ANONYMOUS}><em>Anonymous</em></MenuItem>
+          {users.map(user => <MenuItem key={user.id} value={user.id}>{user.name}</MenuItem>)}
+        </TextField>
+        <TextField size="small" type="date" label="From" value={from} onChange={(e) => setFrom(e.target.value)} slotProps={{ inputLabel: { shrink: true } }} />
+        <TextField size="small" type="date" label="To" value={to} onChange={(e) => setTo(e.target.value)} slotProps={{ inputLabel: { shrink: true } }} />
+        <Button onClick={handleClearFilters}>Clear</Button>
+      </Paper>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '300px' }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell width={40} />
+                <TableCell>When</TableCell>
+                <TableCell>User</TableCell>
+                <TableCell>Action</TableCell>
+                <TableCell>Entity</TableCell>
+                <TableCell>Record ID</TableCell>
+                <TableCell>Changed Fields</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>No audit entries match the filters</Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+              {entries.map(entry => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow hover sx={{ '& > td': { borderBottom: expanded ? 'none' : undefined } }}>
+                      <TableCell>
+                        <IconButton size="small" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                          <Icon>{expanded ? 'expand_less' : 'expand_more'}</Icon>
+                        </IconButton>
+                      </TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTimestamp(entry.occurred_at)}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2">{entry.actor_name}</Typography>
+                        {entry.actor_email && entry.actor_email !== entry.actor_name && (
+                          <Typography variant="caption" color="text.secondary">{entry.actor_email}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Chip size="small" color={ACTION_COLORS[entry.action]} label={AUDIT_ACTION_LABELS[entry.action]} />
+                      </TableCell>
+                      <TableCell>{getEntityLabel(entry.entity_type)}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>{entry.entity_id || '-'}</TableCell>
+                      <TableCell>{entry.action === 'UPDATE' ? entry.changed_fields.join(', ') : '-'}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={7} sx={{ py: 0 }}>
+                        <Collapse in={expanded} unmountOnExit>
+                          <Box sx={{ py: 2 }}>
+                            <Table size="small">
+                              <TableHead>
+                                <TableRow>
+                                  <TableCell width="20%">Field</TableCell>
+                                  <TableCell width="40%">Before</TableCell>
+                                  <TableCell width="40%">After</TableCell>
+                                </TableRow>
+                              </TableHead>
+                              <TableBody>
+                                {getAuditFieldChanges(entry).map(change => (
+                                  <TableRow key={change.field}>
+                                    <TableCell sx={{ fontWeight: 500 }}>{change.field}</TableCell>
+                                    <TableCell sx={{ color: 'error.main', wordBreak: 'break-word' }}>{change.before}</TableCell>
+                                    <TableCell sx={{ color: 'success.main', wordBreak: 'break-word' }}>{change.after}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                            <Typography variant="caption" color="text.secondary" component="div" sx={{ fontFamily: 'monospace', mt: 1, wordBreak: 'break-all' }}>
+                              #{entry.id} · hash {entry.hash} · previous {entry.prev_hash || 'none'}
+                            </Typography>
+                          </Box>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Auth Gate
+ * Route guard for the signed-in application: shows the login page, the pending-approval
+ * notice, or an access-denied message when the user's role cannot open the current route
+ */
+
+import { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import Icon from '@mui/material/Icon';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useAuthStore } from '../store/authStore';
+import { canAccessPath, ROLE_LABELS } from '../services/permissionEngine';
+import LoginPage from './LoginPage';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+function GateMessage({ icon, title, message, actions }: { icon: string; title: string; message: string; actions: React.ReactNode }) {
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: 'background.default', p: 2 }}>
+      <Paper sx={{ p: 4, maxWidth: 460, textAlign: 'center' }}>
+        <Icon color="primary" sx={{ fontSize: 48, mb: 1 }}>{icon}</Icon>
+        <Typography variant="h6" gutterBottom>{title}</Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>{message}</Typography>
+        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>{actions}</Box>
+      </Paper>
+    </Box>
+  );
+}
+
+export default function AuthGate({ children }: AuthGateProps) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user, status, initialize, refreshUser, signOut } = useAuthStore();
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  if (status === 'loading') {
+    return (
+      <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (status === 'signed_out' || !user) {
+    return <LoginPage />;
+  }
+
+  if (status === 'pending') {
+    return (
+      <GateMessage
+        icon="hourglass_top"
+        title="Waiting for approval"
+        message={`Your account (${user.email}) has been created. A NABH coordinator needs to activate it and confirm your role before you can use the application.`}
+        actions={
+          <>
+            <Button variant="contained" onClick={() => refreshUser()}>Check again</Button>
+            <Button onClick={() => signOut()}>Sign out</Button>
+          </>
+        }
+      />
+    );
+  }
+
+  if (!canAccessPath(user.role, location.pathname)) {
+    return (
+      <GateMessage
+        icon="lock"
+        title="Access denied"
+        message={`The ${ROLE_LABELS[user.role]} role cannot open this page. Ask a NABH coordinator if you need access.`}
+        actions={<Button variant="contained" onClick={() => navigate('/')}>Go to home</Button>}
+      />
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,413 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  TextField,
+  MenuItem,
+  IconButton,
+  Autocomplete,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  FactCheck as ChecklistIcon,
+  Casino as SampleIcon,
+} from '@mui/icons-material';
+import PatientSamplingDialog from './PatientSamplingDialog';
+import { loadAllPatients } from '../services/patientStorage';
+import {
+  createClinicalAuditSamples,
+  deleteClinicalAuditSample,
+  loadClinicalAuditSamples,
+  saveClinicalAuditCompliance,
+  updateClinicalAuditSample,
+} from '../services/clinicalAuditStorage';
+import {
+  CLINICAL_AUDIT_ANSWERS,
+  compareAuditResults,
+  computeAuditCompliance,
+  isSampleComplete,
+} from '../services/clinicalAuditEngine';
+import type { Patient } from '../types/patient';
+import type { PatientSample } from '../types/patientSample';
+import type {
+  ClinicalAudit,
+  ClinicalAuditAnswer,
+  ClinicalAuditResult,
+  ClinicalAuditSample,
+} from '../types/clinicalAudit';
+
+interface ClinicalAuditChecklistDialogProps {
+  open: boolean;
+  onClose: () => void;
+  audit: ClinicalAudit;
+  originalAudit: ClinicalAudit | null;
+  onComplianceSaved: (auditId: string, result: ClinicalAuditResult) => void;
+}
+
+const ANSWER_COLORS: Record<ClinicalAuditAnswer, string> = {
+  'Yes': 'success.main',
+  'No': 'error.main',
+  'NA': 'text.secondary',
+};
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${value}%`);
+
+export default function ClinicalAuditChecklistDialog({
+  open,
+  onClose,
+  audit,
+  originalAudit,
+  onComplianceSaved,
+}: ClinicalAuditChecklistDialogProps) {
+  const [samples, setSamples] = useState<ClinicalAuditSample[]>([]);
+  const [originalSamples, setOriginalSamples] = useState<ClinicalAuditSample[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [selectedPatients, setSelectedPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSamplingOpen, setIsSamplingOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const auditIds = originalAudit ? [audit.id, originalAudit.id] : [audit.id];
+      const [samplesResult, patientsResult] = await Promise.all([
+        loadClinicalAuditSamples(auditIds),
+        loadAllPatients(),
+      ]);
+      if (samplesResult.success && samplesResult.data) {
+        setSamples(samplesResult.data.filter(s => s.audit_id === audit.id));
+        setOriginalSamples(samplesResult.data.filter(s => s.audit_id !== audit.id));
+      } else {
+        setError(samplesResult.error || 'Failed to load samples');
+      }
+      if (patientsResult.success && patientsResult.data) {
+        setPatients(patientsResult.data);
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, [audit.id, originalAudit]);
+
+  const result = useMemo(() => computeAuditCompliance(audit.criteria, samples), [audit.criteria, samples]);
+  const changes = useMemo(
+    () => originalAudit ? compareAuditResults(computeAuditCompliance(originalAudit.criteria, originalSamples), result) : null,
+    [originalAudit, originalSamples, result]
+  );
+
+  const sampledVisitIds = new Set(samples.map(s => s.visit_id));
+  const availablePatients = patients.filter(p => !sampledVisitIds.has(p.visitId));
+
+  const addSamples = async (files: { visit_id: string; patient_name: string }[]) => {
+    setSaving(true);
+    const created = await createClinicalAuditSamples(files
+      .filter(f => !sampledVisitIds.has(f.visit_id))
+      .map(f => ({
+        audit_id: audit.id,
+        visit_id: f.visit_id,
+        patient_name: f.patient_name,
+        answers: {},
+        remarks: null,
+        reviewed_by: audit.auditor || null,
+        reviewed_date: null,
+      })));
+    setSaving(false);
+
+    if (created.success && created.data) {
+      setSamples(prev => [...prev, ...created.data!]);
+      return true;
+    }
+    setError(created.error || 'Failed to add samples');
+    return false;
+  };
+
+  const handleAddSamples = async () => {
+    if (await addSamples(selectedPatients.map(p => ({ visit_id: p.visitId, patient_name: p.patientName })))) {
+      setSelectedPatients([]);
+    }
+  };
+
+  // Files drawn by the sampling service go straight into the checklist
+  const handleSampleDrawn = (sample: PatientSample) => {
+    addSamples(sample.entries);
+  };
+
+  const handleAnswer = async (sample: ClinicalAuditSample, criterion: string, answer: ClinicalAuditAnswer | '') => {
+    const answers = { ...sample.answers };
+    if (answer) {
+      answers[criterion] = answer;
+    } else {
+      delete answers[criterion];
+    }
+    const reviewedDate = isSampleComplete(audit.criteria, { answers })
+      ? sample.reviewed_date || new Date().toISOString().split('T')[0]
+      : null;
+
+    setSamples(prev => prev.map(s => (s.id === sample.id ? { ...s, answers, reviewed_date: reviewedDate } : s)));
+    const updated = await updateClinicalAuditSample(sample.id, { answers, reviewed_date: reviewedDate });
+    if (!updated.success) {
+      setSamples(prev => prev.map(s => (s.id === sample.id ? sample : s)));
+      setError(updated.error || 'Failed to save answer');
+    }
+  };
+
+  const handleRemarks = async (sample: ClinicalAuditSample, remarks: string) => {
+    if ((sample.remarks || '') === remarks) return;
+    const updated = await updateClinicalAuditSample(sample.id, { remarks: remarks || null });
+    if (updated.success && updated.data) {
+      setSamples(prev => prev.map(s => (s.id === sample.id ? updated.data! : s)));
+    } else {
+      setError(updated.error || 'Failed to save remarks');
+    }
+  };
+
+  const handleDeleteSample = async (sample: ClinicalAuditSample) => {
+    const deleted = await deleteClinicalAuditSample(sample.id);
+    if (deleted.success) {
+      setSamples(prev => prev.filter(s => s.id !== sample.id));
+    } else {
+      setError(deleted.error || 'Failed to remove sample');
+    }
+  };
+
+  // Store the computed compliance on the audit when the checklist is closed
+  const handleClose = async () => {
+    if (samples.length > 0) {
+      setSaving(true);
+      const saved = await saveClinicalAuditCompliance(audit.id, result);
+      setSaving(false);
+      if (!saved.success) {
+        setError(saved.error || 'Failed to save compliance');
+        return;
+      }
+      onComplianceSaved(audit.id, result);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xl" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ChecklistIcon color="primary" />
+        Audit Checklist - {audit.title}
+      </DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}><CircularProgress /></Box>
+        ) : audit.criteria.length === 0 ? (
+          <Alert severity="info">Add audit criteria (Edit Audit) to build the checklist.</Alert>
+        ) : (
+          <>
+            {/* Summary */}
+            <Box display="flex" gap={1} flexWrap="wrap" alignItems="center" mb={2}>
+              <Chip color="primary" label={`Overall compliance: ${formatPercent(result.overall)}`} />
+              <Chip
+                variant="outlined"
+                label={`${result.samplesReviewed} of ${audit.totalSamples || result.samplesRecorded} samples reviewed`}
+              />
+              {originalAudit && (
+                <Chip variant="outlined" color="secondary" label={`Re-audit of: ${originalAudit.title}`} />
+              )}
+            </Box>
+
+            {/* Criteria legend */}
+            <Box mb={2}>
+              {audit.criteria.map((criterion, i) => (
+                <Typography key={criterion} variant="body2">
+                  <strong>C{i + 1}</strong> {criterion}
+                </Typography>
+              ))}
+            </Box>
+
+            {/* Add samples */}
+            <Box display="flex" gap={1} mb={2} alignItems="center">
+              <Autocomplete
+                multiple
+                size="small"
+                sx={{ flex: 1 }}
+                options={availablePatients}
+                value={selectedPatients}
+                onChange={(_, value) => setSelectedPatients(value)}
+                getOptionLabel={(p) => `${p.visitId} - ${p.patientName}`}
+                isOptionEqualToValue={(a, b) => a.visitId === b.visitId}
+                renderInput={(params) => <TextField {...params} label="Add patient files as samples" />}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<AddIcon />}
+                onClick={handleAddSamples}
+                disabled={selectedPatients.length === 0 || saving}
+              >
+                Add
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<SampleIcon />}
+                onClick={() => setIsSamplingOpen(true)}
+                disabled={saving}
+              >
+                Draw Random Sample
+              </Button>
+            </Box>
+
+            {/* Checklist per sample */}
+            {samples.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" mb={2}>No samples added yet.</Typography>
+            ) : (
+              <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Sample</TableCell>
+                      {audit.criteria.map((criterion, i) => (
+                        <Tooltip key={criterion} title={criterion}>
+                          <TableCell align="center">C{i + 1}</TableCell>
+                        </Tooltip>
+                      ))}
+                      <TableCell>Remarks</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {samples.map(sample => (
+                      <TableRow key={sample.id}>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight={500}>{sample.visit_id}</Typography>
+                          <Typography variant="caption" color="text.secondary">{sample.patient_name}</Typography>
+                        </TableCell>
+                        {audit.criteria.map(criterion => {
+                          const answer = sample.answers[criterion];
+                          return (
+                            <TableCell key={criterion} align="center">
+                              <TextField
+                                select
+                                size="small"
+                                variant="standard"
+                                value={answer || ''}
+                                onChange={(e) => handleAnswer(sample, criterion, e.target.value as ClinicalAuditAnswer | '')}
+                                sx={{ minWidth: 56, '& .MuiSelect-select': { color: answer ? ANSWER_COLORS[answer] : undefined } }}
+                              >
+                                <MenuItem value="">-</MenuItem>
+                                {CLINICAL_AUDIT_ANSWERS.map(a => (
+                                  <MenuItem key={a} value={a}>{a}</MenuItem>
+                                ))}
+                              </TextField>
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell sx={{ minWidth: 180 }}>
+                          <TextField
+                            size="small"
+                            variant="standard"
+                            fullWidth
+                            defaultValue={sample.remarks || ''}
+                            onBlur={(e) => handleRemarks(sample, e.target.value.trim())}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <IconButton size="small" color="error" onClick={() => handleDeleteSample(sample)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {/* Compliance per criterion */}
+            <Typography variant="subtitle1" fontWeight={600} gutterBottom>Compliance by Criterion</Typography>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Criterion</TableCell>
+                    <TableCell align="center">Yes</TableCell>
+                    <TableCell align="center">No</TableCell>
+                    <TableCell align="center">NA</TableCell>
+                    <TableCell align="center">Compliance</TableCell>
+                    {changes && <TableCell align="center">Original Audit</TableCell>}
+                    {changes && <TableCell align="center">Change</TableCell>}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.criteria.map((c, i) => {
+                    const change = changes?.[i];
+                    return (
+                      <TableRow key={c.criterion}>
+                        <TableCell>C{i + 1}. {c.criterion}</TableCell>
+                        <TableCell align="center">{c.yes}</TableCell>
+                        <TableCell align="center">{c.no}</TableCell>
+                        <TableCell align="center">{c.na}</TableCell>
+                        <TableCell align="center">
+                          <Typography
+                            variant="body2"
+                            fontWeight={600}
+                            color={c.compliance === null ? 'text.secondary' : c.compliance >= 90 ? 'success.main' : c.compliance >= 75 ? 'warning.main' : 'error.main'}
+                          >
+                            {formatPercent(c.compliance)}
+                          </Typography>
+                        </TableCell>
+                        {changes && <TableCell align="center">{formatPercent(change?.before ?? null)}</TableCell>}
+                        {changes && (
+                          <TableCell align="center">
+                            {change?.change === null || change?.change === undefined ? '-' : (
+                              <Typography
+                                variant="body2"
+                                fontWeight={600}
+                                color={change.change > 0 ? 'success.main' : change.change < 0 ? 'error.main' : 'text.secondary'}
+                              >
+                                {change.change > 0 ? '+' : ''}{change.change}%
+                              </Typography>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      {isSamplingOpen && (
+        <PatientSamplingDialog
+          open
+          onClose={() => setIsSamplingOpen(false)}
+          title={audit.title}
+          purpose="clinical_audit"
+          referenceId={audit.id}
+          drawnBy={audit.auditor}
+          defaultSize={Math.max(0, audit.totalSamples - samples.length) || undefined}
+          onSampleSaved={handleSampleDrawn}
+        />
+      )}
+      <DialogActions>
+        <Button variant="contained" onClick={handleClose} disabled={saving}>
+          {saving ? 'Saving...' : 'Done'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -31,35 +31,22 @@ import {
   Assignment as AuditIcon,
   TrendingUp as TrendingUpIcon,
   Schedule as ScheduleIcon,
+  ReportProblem as NCIcon,
+  FactCheck as ChecklistIcon,
+  Replay as ReAuditIcon,
 } from '@mui/icons-material';
 import { supabase } from '../lib/supabase';
-
-interface ClinicalAudit {
-  id: string;
-  title: string;
-  description: string;
-  category: 'Patient Safety' | 'Quality Indicators' | 'Infection Control' | 'Medication Safety' | 'Documentation' | 'Compliance' | 'Other';
-  auditType: 'Internal' | 'External' | 'Self Assessment' | 'Peer Review';
-  department: string;
-  auditor: string;
-  startDate: string;
-  completionDate?: string;
-  status: 'Planned' | 'In Progress' | 'Completed' | 'Overdue' | 'Cancelled';
-  frequency: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly' | 'One-time';
-  criteria: string[];
-  findings: string[];
-  recommendations: string[];
-  actionItems: string[];
-  compliance: number; // Percentage
-  samplesReviewed: number;
-  totalSamples: number;
-  nabhStandard?: string;
-  priority: 'High' | 'Medium' | 'Low';
-  followUpDate?: string;
-  createdAt: string;
-  lastUpdated: string;
-  documentsLink?: string; // Google Docs/Sheets link
-}
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import {
+  loadNonConformities,
+  createNonConformities,
+  buildNCsFromFindings,
+  tagObjectiveWithNC,
+} from '../services/nonConformityStorage';
+import { buildReAudit } from '../services/clinicalAuditEngine';
+import ClinicalAuditChecklistDialog from './ClinicalAuditChecklistDialog';
+import type { ClinicalAudit, ClinicalAuditResult } from '../types/clinicalAudit';
 
 // Database interface
 interface ClinicalAuditDB {
@@ -84,6 +71,7 @@ interface ClinicalAuditDB {
   nabh_standard: string | null;
   priority: string;
   follow_up_date: string | null;
+  re_audit_of: string | null;
   documents_link: string | null;
   hospital_id: string;
   is_active: boolean;
@@ -114,12 +102,15 @@ const dbToAudit = (db: ClinicalAuditDB): ClinicalAudit => ({
   nabhStandard: db.nabh_standard || undefined,
   priority: db.priority as ClinicalAudit['priority'],
   followUpDate: db.follow_up_date || undefined,
+  reAuditOf: db.re_audit_of || undefined,
   createdAt: db.created_at.split('T')[0],
   lastUpdated: db.updated_at.split('T')[0],
   documentsLink: db.documents_link || '',
 });
 
 export default function ClinicalAuditsMasterPage() {
+  const { chapters, selectedHospital, updateObjective } = useNABHStore();
+  const canEdit = useCapability('edit_content');
   const [audits, setAudits] = useState<ClinicalAudit[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -127,7 +118,8 @@ export default function ClinicalAuditsMasterPage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedAudit, setSelectedAudit] = useState<ClinicalAudit | null>(null);
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
-  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+  const [checklistAudit, setChecklistAudit] = useState<ClinicalAudit | null>(null);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' | 'info' });
 
   // Fetch audits from Supabase
   useEffect(() => {
@@ -199,6 +191,7 @@ export default function ClinicalAuditsMasterPage() {
         nabh_standard: auditForm.nabhStandard || null,
         priority: auditForm.priority || 'Medium',
         follow_up_date: auditForm.followUpDate || null,
+        re_audit_of: auditForm.reAuditOf || null,
         documents_link: auditForm.documentsLink || null,
         hospital_id: 'hope-hospital',
         is_active: true,
@@ -307,6 +300,97 @@ export default function ClinicalAuditsMasterPage() {
     }
   };
 
+  // Raise every audit finding not yet in the NC register as a Clinical Audit NC
+  const handleConvertFindingsToNCs = async (audit: ClinicalAudit) => {
+    setMenuAnchor(null);
+
+    if (audit.findings.length === 0) {
+      setSnackbar({ open: true, message: 'This audit has no findings to convert', severity: 'error' });
+      return;
+    }
+
+    // NCs are raised against an objective element, so the audit must name a known one
+    const standard = audit.nabhStandard?.trim().toLowerCase() || '';
+    const objective = chapters
+      .flatMap(chapter => chapter.objectives)
+      .find(o => o.code.toLowerCase() === standard);
+    if (!objective) {
+      setSnackbar({
+        open: true,
+        message: standard
+          ? `NABH standard ${audit.nabhStandard} is not an objective element. Edit the audit and enter one, e.g. PCC.1.a`
+          : 'Edit the audit and enter the NABH objective element before raising NCs',
+        severity: 'error',
+      });
+      return;
+    }
+
+    try {
+      const existingResult = await loadNonConformities(selectedHospital);
+      if (!existingResult.success) throw new Error(existingResult.error);
+      const existing = existingResult.data || [];
+
+      const alreadyRaised = existing
+        .filter(nc => nc.source_reference === audit.id)
+        .map(nc => nc.finding);
+      const pendingFindings = audit.findings.filter(finding => !alreadyRaised.includes(finding));
+
+      if (pendingFindings.length === 0) {
+        setSnackbar({ open: true, message: 'All findings are already in the NC register', severity: 'success' });
+        return;
+      }
+
+      const records = buildNCsFromFindings(pendingFindings, {
+        hospitalId: selectedHospital,
+        objectiveCode: objective.code,
+        source: 'Clinical Audit',
+        sourceReference: audit.id,
+        raisedBy: audit.auditor,
+      });
+
+      const createResult = await createNonConformities(records);
+      if (!createResult.success) throw new Error(createResult.error);
+
+      const tagResult = await tagObjectiveWithNC(chapters, objective.code, updateObjective);
+      setSnackbar({
+        open: true,
+        message: tagResult.success
+          ? `${records.length} NC(s) raised from audit findings and ${objective.code} tagged as Prev NC`
+          : `${records.length} NC(s) raised from audit findings (objective not tagged: ${tagResult.error})`,
+        severity: tagResult.success ? 'success' : 'info',
+      });
+    } catch (error) {
+      console.error('Error converting findings to NCs:', error);
+      setSnackbar({ open: true, message: 'Failed to raise NCs from findings', severity: 'error' });
+    }
+  };
+
+  const handleOpenChecklist = (audit: ClinicalAudit) => {
+    setChecklistAudit(audit);
+    setMenuAnchor(null);
+  };
+
+  const handleComplianceSaved = (auditId: string, result: ClinicalAuditResult) => {
+    setAudits(prev => prev.map(a => a.id === auditId
+      ? { ...a, compliance: Math.round(result.overall ?? 0), samplesReviewed: result.samplesReviewed }
+      : a));
+  };
+
+  // Re-audit with the same checklist, linked to this audit to close the loop
+  const handleCreateReAudit = (audit: ClinicalAudit) => {
+    setMenuAnchor(null);
+    const reAudit = buildReAudit(audit, new Date().toISOString().split('T')[0]);
+    setAuditForm(reAudit);
+    setCriteriaText(reAudit.criteria.join('\n'));
+    setFindingsText('');
+    setRecommendationsText('');
+    setActionItemsText('');
+    setIsAddDialogOpen(true);
+  };
+
+  const getOriginalAudit = (audit: ClinicalAudit) =>
+    audit.reAuditOf ? audits.find(a => a.id === audit.reAuditOf) || null : null;
+
   const resetForm = () => {
     setAuditForm({
       title: '',
@@ -392,13 +476,15 @@ export default function ClinicalAuditsMasterPage() {
             </Typography>
           </Box>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setIsAddDialogOpen(true)}
-        >
-          Add Clinical Audit
-        </Button>
+        {canEdit && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setIsAddDialogOpen(true)}
+          >
+            Add Clinical Audit
+          </Button>
+        )}
       </Box>
 
       {/* Stats */}
@@ -478,9 +564,11 @@ export default function ClinicalAuditsMasterPage() {
                       size="small" 
                       color={getStatusColor(audit.status) as any}
                     />
-                    <IconButton size="small" onClick={(e) => handleMenuOpen(e, audit)}>
-                      <MoreVertIcon />
-                    </IconButton>
+                    {canEdit && (
+                      <IconButton size="small" onClick={(e) => handleMenuOpen(e, audit)}>
+                        <MoreVertIcon />
+                      </IconButton>
+                    )}
                   </Box>
                 </Box>
 
@@ -503,6 +591,14 @@ export default function ClinicalAuditsMasterPage() {
                       NABH Standard: {audit.nabhStandard}
                     </Typography>
                   )}
+                  {getOriginalAudit(audit) && (
+                    <Typography variant="caption" color="secondary" display="block">
+                      <ReAuditIcon sx={{ fontSize: 14, mr: 0.5 }} />
+                      Re-audit of: {getOriginalAudit(audit)!.title}
+                      {audit.compliance > 0 && getOriginalAudit(audit)!.compliance > 0 &&
+                        ` (${getOriginalAudit(audit)!.compliance}% → ${audit.compliance}%)`}
+                    </Typography>
+                  )}
                 </Box>
 
                 {audit.compliance > 0 && (
@@ -617,6 +713,18 @@ export default function ClinicalAuditsMasterPage() {
           <EditIcon sx={{ mr: 1 }} />
           Edit Audit
         </MenuItem>
+        <MenuItem onClick={() => selectedAudit && handleOpenChecklist(selectedAudit)}>
+          <ChecklistIcon sx={{ mr: 1 }} />
+          Audit Checklist
+        </MenuItem>
+        <MenuItem onClick={() => selectedAudit && handleCreateReAudit(selectedAudit)}>
+          <ReAuditIcon sx={{ mr: 1 }} />
+          Create Re-audit
+        </MenuItem>
+        <MenuItem onClick={() => selectedAudit && handleConvertFindingsToNCs(selectedAudit)}>
+          <NCIcon sx={{ mr: 1 }} />
+          Convert Findings to NCs
+        </MenuItem>
         <MenuItem 
           onClick={() => selectedAudit && handleDeleteAudit(selectedAudit)}
           sx={{ color: 'error.main' }}
@@ -628,7 +736,7 @@ export default function ClinicalAuditsMasterPage() {
 
       {/* Add Audit Dialog */}
       <Dialog open={isAddDialogOpen} onClose={() => setIsAddDialogOpen(false)} maxWidth="lg" fullWidth>
-        <DialogTitle>Add New Clinical Audit</DialogTitle>
+        <DialogTitle>{auditForm.reAuditOf ? 'Add Re-audit' : 'Add New Clinical Audit'}</DialogTitle>
         <DialogContent>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
             <TextField
@@ -735,27 +843,13 @@ export default function ClinicalAuditsMasterPage() {
               </FormControl>
             </Box>
             <Box display="flex" gap={2}>
-              <TextField
-                label="Samples Reviewed"
-                type="number"
-                fullWidth
-                value={auditForm.samplesReviewed || ''}
-                onChange={(e) => setAuditForm({ ...auditForm, samplesReviewed: parseInt(e.target.value) || 0 })}
-              />
               <TextField
                 label="Total Samples"
                 type="number"
                 fullWidth
                 value={auditForm.totalSamples || ''}
                 onChange={(e) => setAuditForm({ ...auditForm, totalSamples: parseInt(e.target.value) || 0 })}
-              />
-              <TextField
-                label="Compliance %"
-                type="number"
-                fullWidth
-                value={auditForm.compliance || ''}
-                onChange={(e) => setAuditForm({ ...auditForm, compliance: parseInt(e.target.value) || 0 })}
-                inputProps={{ min: 0, max: 100 }}
+                helperText="Samples reviewed and compliance % are computed from the audit checklist"
               />
             </Box>
             <Box display="flex" gap={2}>
@@ -764,7 +858,8 @@ export default function ClinicalAuditsMasterPage() {
                 fullWidth
                 value={auditForm.nabhStandard || ''}
                 onChange={(e) => setAuditForm({ ...auditForm, nabhStandard: e.target.value })}
-                placeholder="e.g., PCC.1, HIC.2"
+                placeholder="e.g., PCC.1.a, HIC.2.b"
+                helperText="Objective element findings are raised against as NCs"
               />
               <FormControl fullWidth>
                 <InputLabel>Priority</InputLabel>
@@ -927,27 +1022,13 @@ export default function ClinicalAuditsMasterPage() {
               </FormControl>
             </Box>
             <Box display="flex" gap={2}>
-              <TextField
-                label="Samples Reviewed"
-                type="number"
-                fullWidth
-                value={auditForm.samplesReviewed || ''}
-                onChange={(e) => setAuditForm({ ...auditForm, samplesReviewed: parseInt(e.target.value) || 0 })}
-              />
               <TextField
                 label="Total Samples"
                 type="number"
                 fullWidth
                 value={auditForm.totalSamples || ''}
                 onChange={(e) => setAuditForm({ ...auditForm, totalSamples: parseInt(e.target.value) || 0 })}
-              />
-              <TextField
-                label="Compliance %"
-                type="number"
-                fullWidth
-                value={auditForm.compliance || ''}
-                onChange={(e) => setAuditForm({ ...auditForm, compliance: parseInt(e.target.value) || 0 })}
-                inputProps={{ min: 0, max: 100 }}
+                helperText="Samples reviewed and compliance % are computed from the audit checklist"
               />
             </Box>
             <Box display="flex" gap={2}>
@@ -956,7 +1037,8 @@ export default function ClinicalAuditsMasterPage() {
                 fullWidth
                 value={auditForm.nabhStandard || ''}
                 onChange={(e) => setAuditForm({ ...auditForm, nabhStandard: e.target.value })}
-                placeholder="e.g., PCC.1, HIC.2"
+                placeholder="e.g., PCC.1.a, HIC.2.b"
+                helperText="Objective element findings are raised against as NCs"
               />
               <FormControl fullWidth>
                 <InputLabel>Priority</InputLabel>
@@ -1010,6 +1092,17 @@ export default function ClinicalAuditsMasterPage() {
         </DialogActions>
       </Dialog>
 
+      {/* Audit Checklist Dialog */}
+      {checklistAudit && (
+        <ClinicalAuditChecklistDialog
+          open
+          onClose={() => setChecklistAudit(null)}
+          audit={checklistAudit}
+          originalAudit={getOriginalAudit(checklistAudit)}
+          onComplianceSaved={handleComplianceSaved}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onClose={() => setIsDeleteDialogOpen(false)}>
         <DialogTitle>Delete Clinical Audit</DialogTitle>
@@ -0,0 +1,228 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import { loadCommitteesWithMeetings } from '../services/committeeMeetingStorage';
+import {
+  COMMITTEE_COMPLIANCE_COLORS,
+  buildComplianceCertificateHTML,
+  buildMeetingCalendarHTML,
+  getCommitteeCompliance,
+} from '../services/committeeComplianceEngine';
+import type { Committee, CommitteeCompliance } from '../types/committee';
+
+const CURRENT_YEAR = new Date().getFullYear();
+const YEAR_OPTIONS = [CURRENT_YEAR, CURRENT_YEAR - 1, CURRENT_YEAR - 2];
+
+export default function CommitteeCompliancePage() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+
+  const [committees, setCommittees] = useState<Committee[]>([]);
+  const [year, setYear] = useState(CURRENT_YEAR);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const result = await loadCommitteesWithMeetings();
+      if (result.success) {
+        setCommittees(result.data || []);
+      } else {
+        setError('Failed to load committees');
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, []);
+
+  const compliances = useMemo(
+    () => committees
+      .filter(c => c.type === 'mandatory')
+      .map(c => getCommitteeCompliance(c, year)),
+    [committees, year]
+  );
+
+  const summary = useMemo(() => ({
+    compliant: compliances.filter(c => c.status === 'Compliant').length,
+    atRisk: compliances.filter(c => c.status === 'At Risk').length,
+    nonCompliant: compliances.filter(c => c.status === 'Non-Compliant').length,
+    missed: compliances.reduce((sum, c) => sum + c.missedPeriods.length, 0),
+  }), [compliances]);
+
+  const hospitalConfig = getHospitalInfo(selectedHospital);
+
+  const printHTML = (html: string) => {
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(html);
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const handlePrintCertificate = (compliance: CommitteeCompliance) => {
+    printHTML(buildComplianceCertificateHTML(compliance, hospitalConfig));
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Committee Compliance
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Meetings held by each mandatory committee against its required frequency. A meeting counts only if it met quorum (more than half of the members present).
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            select
+            size="small"
+            label="Year"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            sx={{ minWidth: 120 }}
+          >
+            {YEAR_OPTIONS.map(y => (
+              <MenuItem key={y} value={y}>{y}</MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant="outlined"
+            startIcon={<Icon>calendar_month</Icon>}
+            onClick={() => printHTML(buildMeetingCalendarHTML(compliances, year, hospitalConfig))}
+            disabled={compliances.length === 0}
+          >
+            Print Calendar
+          </Button>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>}
+
+      {!error && compliances.length === 0 && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/committees')}>Committees</Button>}
+        >
+          No mandatory committees set up yet.
+        </Alert>
+      )}
+
+      {/* Summary */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Compliant', value: summary.compliant, color: 'success.main', icon: 'verified' },
+          { label: 'At Risk', value: summary.atRisk, color: 'warning.main', icon: 'warning' },
+          { label: 'Non-Compliant', value: summary.nonCompliant, color: 'error.main', icon: 'error' },
+          { label: 'Missed Meetings', value: summary.missed, color: 'error.main', icon: 'event_busy' },
+        ].map(card => (
+          <Grid key={card.label} size={{ xs: 12, sm: 6, md: 3 }}>
+            <Paper sx={{ p: 2, borderTop: 4, borderColor: card.color }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Icon sx={{ color: card.color }}>{card.icon}</Icon>
+                <Typography variant="subtitle1" fontWeight={600}>{card.label}</Typography>
+              </Box>
+              <Typography variant="h4" fontWeight={700}>{card.value}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Per committee */}
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Committee</TableCell>
+                <TableCell>Frequency</TableCell>
+                <TableCell align="center">Held / Required ({year})</TableCell>
+                <TableCell align="center">This Quarter</TableCell>
+                <TableCell align="center">Without Quorum</TableCell>
+                <TableCell>Missed</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Certificate</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {compliances.map(c => (
+                <TableRow key={c.committee.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>{c.committee.name}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Chair: {c.committee.chairperson?.name || 'Not assigned'} · Minimum {c.committee.minMeetingsRequired}/year
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{c.committee.meetingFrequency}</TableCell>
+                  <TableCell align="center">
+                    <Tooltip title={`Quorum met in ${c.quorateThisYear} of ${c.requiredForYear} periods; ${c.requiredToDate} required to date`}>
+                      <span>{c.heldThisYear} / {c.requiredForYear}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell align="center">{c.heldThisQuarter} / {c.requiredThisQuarter}</TableCell>
+                  <TableCell align="center">
+                    {c.meetingsWithoutQuorum.length > 0
+                      ? <Chip size="small" color="warning" label={c.meetingsWithoutQuorum.length} />
+                      : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {c.missedPeriods.length > 0 ? (
+                      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                        {c.missedPeriods.map(p => (
+                          <Chip key={p.start} size="small" variant="outlined" color="error" label={p.label} />
+                        ))}
+                      </Box>
+                    ) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="small" color={COMMITTEE_COMPLIANCE_COLORS[c.status]} label={c.status} />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      startIcon={<Icon>workspace_premium</Icon>}
+                      onClick={() => handlePrintCertificate(c)}
+                    >
+                      Print
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+    </Box>
+  );
+}
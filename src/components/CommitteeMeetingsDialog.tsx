@@ -0,0 +1,568 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  TextField,
+  MenuItem,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  EventNote as EventNoteIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import {
+  createCommitteeActionItems,
+  createCommitteeMeeting,
+  loadCommitteeActionItems,
+  updateCommitteeActionItem,
+} from '../services/committeeMeetingStorage';
+import {
+  buildMeetingAgenda,
+  buildMinutesHTML,
+  getActionItemsForReview,
+  getCommitteeRoster,
+  getQuorum,
+  isActionItemOpen,
+  isActionItemOverdue,
+} from '../services/committeeMinutesEngine';
+import type {
+  Committee,
+  CommitteeActionItem,
+  CommitteeActionStatus,
+  Meeting,
+} from '../types/committee';
+
+interface CommitteeMeetingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  committee: Committee;
+  onMeetingSaved: (meeting: Meeting) => void;
+}
+
+interface NewActionItem {
+  description: string;
+  ownerId: string;
+  dueDate: string;
+}
+
+const ACTION_STATUSES: CommitteeActionStatus[] = ['Open', 'In Progress', 'Completed', 'Dropped'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyActionItem = (): NewActionItem => ({ description: '', ownerId: '', dueDate: '' });
+
+export default function CommitteeMeetingsDialog({ open, onClose, committee, onMeetingSaved }: CommitteeMeetingsDialogProps) {
+  const { selectedHospital } = useNABHStore();
+  const canEdit = useCapability('edit_content');
+  const [actionItems, setActionItems] = useState<CommitteeActionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  // Meeting already saved by an earlier attempt; a retry only saves its action points
+  const [savedMeeting, setSavedMeeting] = useState<Meeting | null>(null);
+
+  // Record meeting form
+  const [meetingDate, setMeetingDate] = useState(today());
+  const [attendees, setAttendees] = useState<string[]>([]);
+  const [agenda, setAgenda] = useState('');
+  const [discussion, setDiscussion] = useState('');
+  const [decisions, setDecisions] = useState('');
+  const [nextMeetingDate, setNextMeetingDate] = useState('');
+  const [reviews, setReviews] = useState<Record<string, { status: CommitteeActionStatus; remarks: string }>>({});
+  const [newActionItems, setNewActionItems] = useState<NewActionItem[]>([emptyActionItem()]);
+
+  const roster = useMemo(() => getCommitteeRoster(committee), [committee]);
+  const meetings = useMemo(
+    () => [...committee.meetings].sort((a, b) => b.date.localeCompare(a.date)),
+    [committee.meetings]
+  );
+  const openItems = actionItems.filter(isActionItemOpen);
+  const carriedForward = getActionItemsForReview(actionItems, committee.meetings, { id: savedMeeting?.id || '', date: meetingDate });
+  const quorum = getQuorum(committee, attendees);
+
+  useEffect(() => {
+    const fetchActionItems = async () => {
+      const result = await loadCommitteeActionItems(committee.id);
+      if (result.success && result.data) {
+        setActionItems(result.data);
+      } else {
+        setError(result.error || 'Failed to load action items');
+      }
+      setLoading(false);
+    };
+    fetchActionItems();
+  }, [committee.id]);
+
+  const meetingDateOf = (meetingId: string) => committee.meetings.find(m => m.id === meetingId)?.date;
+
+  const startRecording = () => {
+    const pending = getActionItemsForReview(actionItems, committee.meetings, { id: '', date: today() });
+    setMeetingDate(today());
+    setAttendees(roster.map(m => m.name));
+    setAgenda(buildMeetingAgenda(committee, pending));
+    setDiscussion('');
+    setDecisions('');
+    setNextMeetingDate('');
+    setReviews(Object.fromEntries(pending.map(a => [a.id, { status: a.status, remarks: a.remarks || '' }])));
+    setNewActionItems([emptyActionItem()]);
+    setSavedMeeting(null);
+    setError(null);
+    setIsRecording(true);
+  };
+
+  const handleStatusChange = async (item: CommitteeActionItem, status: CommitteeActionStatus) => {
+    const closing = status === 'Completed' || status === 'Dropped';
+    const result = await updateCommitteeActionItem(item.id, {
+      status,
+      closed_date: closing ? today() : null,
+      closed_meeting_id: null,
+    });
+    if (result.success && result.data) {
+      setActionItems(prev => prev.map(a => (a.id === item.id ? result.data! : a)));
+    } else {
+      setError(result.error || 'Failed to update action item');
+    }
+  };
+
+  const handleSaveMeeting = async () => {
+    if (attendees.length === 0) {
+      setError('Mark the members who attended');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+
+    const itemsToRaise = newActionItems.filter(a => a.description.trim());
+    let meeting = savedMeeting;
+    if (!meeting) {
+      const meetingResult = await createCommitteeMeeting(committee.id, {
+        date: meetingDate,
+        agenda,
+        minutes: discussion,
+        attendees,
+        decisions: decisions.split('\n').map(d => d.trim()).filter(Boolean),
+        actionItems: itemsToRaise.map(a => a.description.trim()),
+        nextMeetingDate: nextMeetingDate || undefined,
+      });
+
+      if (!meetingResult.success || !meetingResult.data) {
+        setSaving(false);
+        setError(meetingResult.error || 'Failed to save meeting');
+        return;
+      }
+      meeting = meetingResult.data;
+      setSavedMeeting(meeting);
+      onMeetingSaved(meeting);
+    }
+    const meetingId = meeting.id;
+
+    const created = await createCommitteeActionItems(itemsToRaise.map(a => {
+      const owner = roster.find(m => m.id === a.ownerId);
+      return {
+        committee_id: committee.id,
+        meeting_id: meetingId,
+        description: a.description.trim(),
+        owner_member_id: owner?.id || null,
+        owner_name: owner?.name || null,
+        owner_designation: owner?.designation || null,
+        due_date: a.dueDate || null,
+        status: 'Open',
+        remarks: null,
+        closed_meeting_id: null,
+        closed_date: null,
+      };
+    }));
+
+    // Record the review of carried-forward action points against this meeting
+    const reviewed = await Promise.all(
+      carriedForward
+        .filter(a => reviews[a.id] && (reviews[a.id].status !== a.status || reviews[a.id].remarks !== (a.remarks || '')))
+        .map(a => {
+          const { status, remarks } = reviews[a.id];
+          const closing = status === 'Completed' || status === 'Dropped';
+          return updateCommitteeActionItem(a.id, {
+            status,
+            remarks: remarks || null,
+            closed_meeting_id: closing ? meetingId : null,
+            closed_date: closing ? meetingDate : null,
+          });
+        })
+    );
+
+    const updated = reviewed.filter(r => r.success && r.data).map(r => r.data!);
+    setActionItems(prev => [
+      ...prev.map(a => updated.find(u => u.id === a.id) || a),
+      ...(created.data || []),
+    ]);
+    // Raised action points are saved; a retry must not create them again
+    if (created.success) setNewActionItems([emptyActionItem()]);
+    setSaving(false);
+
+    if (!created.success || reviewed.some(r => !r.success)) {
+      setError('Meeting saved, but some action points could not be updated. Save again to retry them.');
+    } else {
+      setIsRecording(false);
+    }
+  };
+
+  const handleDownloadMinutes = async (meeting: Meeting) => {
+    setDownloadingId(meeting.id);
+    try {
+      const html2pdf = (await import('html2pdf.js')).default;
+      const container = document.createElement('div');
+      container.innerHTML = buildMinutesHTML(committee, meeting, actionItems, getHospitalInfo(selectedHospital));
+      document.body.appendChild(container);
+
+      await html2pdf().set({
+        margin: [15, 10, 15, 10],
+        filename: `MOM-${committee.name.replace(/[/\\:*?"<>|]/g, '-')}-${meeting.date}.pdf`,
+        image: { type: 'jpeg', quality: 0.98 },
+        html2canvas: { scale: 2, useCORS: true },
+        jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
+      }).from(container).save();
+
+      document.body.removeChild(container);
+    } catch (err) {
+      console.error('Error generating minutes PDF:', err);
+      setError('Failed to generate minutes PDF');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const updateNewActionItem = (index: number, changes: Partial<NewActionItem>) => {
+    setNewActionItems(prev => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const renderHistory = () => (
+    <>
+      <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+        Open Action Points ({openItems.length})
+      </Typography>
+      {openItems.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          No open action points.
+        </Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Action Point</TableCell>
+                <TableCell>Owner</TableCell>
+                <TableCell>Raised</TableCell>
+                <TableCell>Due</TableCell>
+                <TableCell width={150}>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {openItems.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell>{item.owner_name || '-'}</TableCell>
+                  <TableCell>{meetingDateOf(item.meeting_id) || '-'}</TableCell>
+                  <TableCell>
+                    {item.due_date || '-'}
+                    {isActionItemOverdue(item) && <Chip label="Overdue" color="error" size="small" sx={{ ml: 1 }} />}
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      fullWidth
+                      value={item.status}
+                      disabled={!canEdit}
+                      onChange={(e) => handleStatusChange(item, e.target.value as CommitteeActionStatus)}
+                    >
+                      {ACTION_STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+                    </TextField>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+        Meetings ({meetings.length})
+      </Typography>
+      {meetings.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No meetings recorded yet.</Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Attendance</TableCell>
+                <TableCell>Action Points</TableCell>
+                <TableCell align="right">Minutes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {meetings.map(meeting => {
+                const meetingQuorum = getQuorum(committee, meeting.attendees);
+                const raised = actionItems.filter(a => a.meeting_id === meeting.id).length || meeting.actionItems.length;
+                return (
+                  <TableRow key={meeting.id}>
+                    <TableCell>{meeting.date}</TableCell>
+                    <TableCell>
+                      {meetingQuorum.present}/{meetingQuorum.members}
+                      <Chip
+                        size="small"
+                        label={meetingQuorum.met ? 'Quorum' : 'No quorum'}
+                        color={meetingQuorum.met ? 'success' : 'error'}
+                        variant="outlined"
+                        sx={{ ml: 1 }}
+                      />
+                    </TableCell>
+                    <TableCell>{raised}</TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        startIcon={downloadingId === meeting.id ? <CircularProgress size={14} /> : <PdfIcon />}
+                        onClick={() => handleDownloadMinutes(meeting)}
+                        disabled={downloadingId !== null}
+                      >
+                        PDF
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+
+  const renderRecordForm = () => (
+    <>
+      <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+        <TextField
+          type="date"
+          label="Meeting Date"
+          value={meetingDate}
+          onChange={(e) => setMeetingDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          size="small"
+        />
+        <TextField
+          type="date"
+          label="Next Meeting"
+          value={nextMeetingDate}
+          onChange={(e) => setNextMeetingDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          size="small"
+        />
+      </Box>
+
+      <Typography variant="subtitle2" gutterBottom>
+        Attendance
+        <Chip
+          size="small"
+          label={`${quorum.present}/${quorum.members} present, quorum ${quorum.required}`}
+          color={quorum.met ? 'success' : 'error'}
+          sx={{ ml: 1 }}
+        />
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', mb: 2 }}>
+        {roster.map(member => (
+          <FormControlLabel
+            key={member.id}
+            control={
+              <Checkbox
+                size="small"
+                checked={attendees.includes(member.name)}
+                onChange={(e) => setAttendees(prev => e.target.checked
+                  ? [...prev, member.name]
+                  : prev.filter(name => name !== member.name))}
+              />
+            }
+            label={`${member.name}${member.role ? ` (${member.role})` : ''}`}
+            sx={{ width: { xs: '100%', sm: '50%' }, mr: 0 }}
+          />
+        ))}
+      </Box>
+
+      <TextField
+        fullWidth
+        multiline
+        minRows={4}
+        label="Agenda"
+        value={agenda}
+        onChange={(e) => setAgenda(e.target.value)}
+        sx={{ mb: 2 }}
+      />
+
+      {carriedForward.length > 0 && (
+        <>
+          <Typography variant="subtitle2" gutterBottom>Review of Previous Action Points</Typography>
+          {carriedForward.map(item => (
+            <Paper key={item.id} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+              <Typography variant="body2">
+                {item.description}
+                <Typography component="span" variant="caption" color="text.secondary">
+                  {' '}· {item.owner_name || 'Unassigned'}{item.due_date ? ` · due ${item.due_date}` : ''}
+                </Typography>
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                <TextField
+                  select
+                  size="small"
+                  value={reviews[item.id]?.status || item.status}
+                  onChange={(e) => setReviews(prev => ({
+                    ...prev,
+                    [item.id]: { remarks: prev[item.id]?.remarks || '', status: e.target.value as CommitteeActionStatus },
+                  }))}
+                  sx={{ width: 160 }}
+                >
+                  {ACTION_STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+                </TextField>
+                <TextField
+                  size="small"
+                  fullWidth
+                  placeholder="Progress / remarks"
+                  value={reviews[item.id]?.remarks || ''}
+                  onChange={(e) => setReviews(prev => ({
+                    ...prev,
+                    [item.id]: { status: prev[item.id]?.status || item.status, remarks: e.target.value },
+                  }))}
+                />
+              </Box>
+            </Paper>
+          ))}
+        </>
+      )}
+
+      <TextField
+        fullWidth
+        multiline
+        minRows={4}
+        label="Discussion"
+        value={discussion}
+        onChange={(e) => setDiscussion(e.target.value)}
+        sx={{ my: 2 }}
+      />
+      <TextField
+        fullWidth
+        multiline
+        minRows={2}
+        label="Decisions"
+        helperText="One decision per line"
+        value={decisions}
+        onChange={(e) => setDecisions(e.target.value)}
+        sx={{ mb: 2 }}
+      />
+
+      <Typography variant="subtitle2" gutterBottom>New Action Points</Typography>
+      {newActionItems.map((item, index) => (
+        <Box key={index} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'center' }}>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder="Action point"
+            value={item.description}
+            onChange={(e) => updateNewActionItem(index, { description: e.target.value })}
+          />
+          <TextField
+            select
+            size="small"
+            label="Owner"
+            value={item.ownerId}
+            onChange={(e) => updateNewActionItem(index, { ownerId: e.target.value })}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value=""><em>Unassigned</em></MenuItem>
+            {roster.map(m => <MenuItem key={m.id} value={m.id}>{m.name}</MenuItem>)}
+          </TextField>
+          <TextField
+            type="date"
+            size="small"
+            label="Due"
+            value={item.dueDate}
+            onChange={(e) => updateNewActionItem(index, { dueDate: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            sx={{ minWidth: 150 }}
+          />
+          <IconButton
+            size="small"
+            onClick={() => setNewActionItems(prev => prev.filter((_, i) => i !== index))}
+            disabled={newActionItems.length === 1}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+      <Button size="small" startIcon={<AddIcon />} onClick={() => setNewActionItems(prev => [...prev, emptyActionItem()])}>
+        Add Action Point
+      </Button>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {isRecording ? 'Record Meeting' : 'Meetings & Action Points'}: {committee.name}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : isRecording ? renderRecordForm() : renderHistory()}
+      </DialogContent>
+      <DialogActions>
+        {isRecording ? (
+          <>
+            <Button onClick={() => setIsRecording(false)}>Back</Button>
+            <Button
+              variant="contained"
+              onClick={handleSaveMeeting}
+              disabled={saving}
+              startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              {savedMeeting ? 'Retry Action Points' : 'Save Meeting'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button onClick={onClose}>Close</Button>
+            {canEdit && (
+              <Button variant="contained" startIcon={<EventNoteIcon />} onClick={startRecording} disabled={loading}>
+                Record Meeting
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -38,54 +38,11 @@ import {
 } from '@mui/icons-material';
 // NABH_TEAM import removed - now fetching from Supabase nabh_team_members table
 import { supabase } from '../lib/supabase';
+import { useCapability } from '../store/authStore';
 import LinkMetadataDialog from './shared/LinkMetadataDialog';
+import CommitteeMeetingsDialog from './CommitteeMeetingsDialog';
 import type { LinkMetadata } from '../types/linkMetadata';
-
-// Enhanced interfaces
-interface CommitteeMember {
-  id: string;
-  name: string;
-  role: string;
-  designation: string;
-  masterType: 'doctors' | 'employees' | 'consultants' | 'nabh_team';
-  department?: string;
-  phone?: string;
-}
-
-interface Meeting {
-  id: string;
-  date: string;
-  agenda: string;
-  minutes: string;
-  attendees: string[];
-  decisions: string[];
-  actionItems: string[];
-  nextMeetingDate?: string;
-}
-
-interface Committee {
-  id: string;
-  name: string;
-  type: 'mandatory' | 'recommended' | 'custom';
-  description: string;
-  chairperson: CommitteeMember | null;
-  members: CommitteeMember[];
-  meetingFrequency: 'Weekly' | 'Bi-weekly' | 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
-  meetings: Meeting[];
-  objectives: string[];
-  createdAt: string;
-  nextMeetingDate?: string;
-  minMeetingsRequired: number;
-  documentsLink?: string; // Google Docs/Sheets link
-  linkMetadata?: {
-    title: string;
-    description: string;
-    keywords: string[];
-    category?: string;
-    type?: string;
-    priority?: 'high' | 'medium' | 'low';
-  };
-}
+import type { Committee, CommitteeMember, Meeting } from '../types/committee';
 
 // Master data sources - Doctors and Employees fetched from Supabase
 interface MasterPersonData {
@@ -227,6 +184,7 @@ const NABH_MANDATORY_COMMITTEES = [
 ];
 
 export default function CommitteesPageEnhanced() {
+  const canEdit = useCapability('edit_content');
   const [committees, setCommittees] = useState<Committee[]>([]);
   const [doctorsData, setDoctorsData] = useState<MasterPersonData[]>([]);
   const [employeesData, setEmployeesData] = useState<MasterPersonData[]>([]);
@@ -237,6 +195,7 @@ export default function CommitteesPageEnhanced() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isLinkDialogOpen, setIsLinkDialogOpen] = useState(false);
+  const [isMeetingsDialogOpen, setIsMeetingsDialogOpen] = useState(false);
   const [selectedCommittee, setSelectedCommittee] = useState<Committee | null>(null);
   // Removed menu anchor state as we now use direct buttons
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
@@ -937,13 +896,15 @@ export default function CommitteesPageEnhanced() {
             </Typography>
           </Box>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setIsAddDialogOpen(true)}
-        >
-          Add Committee
-        </Button>
+        {canEdit && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setIsAddDialogOpen(true)}
+          >
+            Add Committee
+          </Button>
+        )}
       </Box>
 
       {/* Stats */}
@@ -1030,18 +991,20 @@ export default function CommitteesPageEnhanced() {
                         'Not assigned'
                       }
                     </Typography>
-                    <Button
-                      size="small"
-                      variant="outlined"
-                      startIcon={<EditIcon />}
-                      onClick={() => {
-                        setSelectedCommittee(committee);
-                        setIsMemberDialogOpen(true);
-                      }}
-                      sx={{ ml: 1, py: 0.25, fontSize: '0.75rem' }}
-                    >
-                      {committee.chairperson ? 'Change' : 'Assign'}
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<EditIcon />}
+                        onClick={() => {
+                          setSelectedCommittee(committee);
+                          setIsMemberDialogOpen(true);
+                        }}
+                        sx={{ ml: 1, py: 0.25, fontSize: '0.75rem' }}
+                      >
+                        {committee.chairperson ? 'Change' : 'Assign'}
+                      </Button>
+                    )}
                   </Box>
                 </Box>
 
@@ -1096,17 +1059,19 @@ export default function CommitteesPageEnhanced() {
                         >
                           Open
                         </Button>
-                        <Button
-                          size="small"
-                          variant="outlined"
-                          startIcon={<EditIcon />}
-                          onClick={() => {
-                            setSelectedCommittee(committee);
-                            setIsLinkDialogOpen(true);
-                          }}
-                        >
-                          Edit
-                        </Button>
+                        {canEdit && (
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            startIcon={<EditIcon />}
+                            onClick={() => {
+                              setSelectedCommittee(committee);
+                              setIsLinkDialogOpen(true);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                        )}
                       </Box>
                       {committee.linkMetadata?.description && (
                         <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.875rem' }}>
@@ -1126,7 +1091,7 @@ export default function CommitteesPageEnhanced() {
                         </Box>
                       )}
                     </Box>
-                  ) : (
+                  ) : canEdit ? (
                     <Button
                       size="small"
                       variant="outlined"
@@ -1139,6 +1104,8 @@ export default function CommitteesPageEnhanced() {
                     >
                       Add Document Link with Metadata
                     </Button>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">Not linked</Typography>
                   )}
                 </Box>
 
@@ -1150,53 +1117,58 @@ export default function CommitteesPageEnhanced() {
               </CardContent>
 
               <CardActions>
-                <Button
-                  size="small"
-                  startIcon={<PersonIcon />}
-                  onClick={() => {
-                    setSelectedCommittee(committee);
-                    setIsMemberDialogOpen(true);
-                  }}
-                >
-                  Add Member
-                </Button>
+                {canEdit && (
+                  <Button
+                    size="small"
+                    startIcon={<PersonIcon />}
+                    onClick={() => {
+                      setSelectedCommittee(committee);
+                      setIsMemberDialogOpen(true);
+                    }}
+                  >
+                    Add Member
+                  </Button>
+                )}
                 <Button
                   size="small"
                   startIcon={<EventNoteIcon />}
                   onClick={() => {
                     setSelectedCommittee(committee);
-                    // setIsMeetingDialogOpen(true); // Temporarily disabled
-                  }}
-                  disabled
-                >
-                  Add Meeting
-                </Button>
-                <Button
-                  size="small"
-                  startIcon={<AutoAwesomeIcon />}
-                  onClick={() => {
-                    setSelectedCommittee(committee);
-                    setIsGenerateMinutesDialogOpen(true);
+                    setIsMeetingsDialogOpen(true);
                   }}
-                  variant="outlined"
                 >
-                  Generate Minutes
-                </Button>
-                <Button
-                  size="small"
-                  startIcon={<EditIcon />}
-                  onClick={() => handleEditCommittee(committee)}
-                >
-                  Edit
-                </Button>
-                <Button
-                  size="small"
-                  startIcon={<DeleteIcon />}
-                  onClick={() => handleDeleteCommittee(committee)}
-                  color="error"
-                >
-                  Delete
+                  Meetings
                 </Button>
+                {canEdit && (
+                  <>
+                    <Button
+                      size="small"
+                      startIcon={<AutoAwesomeIcon />}
+                      onClick={() => {
+                        setSelectedCommittee(committee);
+                        setIsGenerateMinutesDialogOpen(true);
+                      }}
+                      variant="outlined"
+                    >
+                      Generate Minutes
+                    </Button>
+                    <Button
+                      size="small"
+                      startIcon={<EditIcon />}
+                      onClick={() => handleEditCommittee(committee)}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="small"
+                      startIcon={<DeleteIcon />}
+                      onClick={() => handleDeleteCommittee(committee)}
+                      color="error"
+                    >
+                      Delete
+                    </Button>
+                  </>
+                )}
               </CardActions>
             </Card>
           </Box>
@@ -1402,7 +1374,7 @@ export default function CommitteesPageEnhanced() {
             <li>Next meeting dates</li>
           </ul>
           <Alert severity="info" sx={{ mt: 2 }}>
-            This will replace any existing meetings for this committee.
+            This will replace any existing meetings and their action points for this committee.
           </Alert>
         </DialogContent>
         <DialogActions>
@@ -1417,6 +1389,21 @@ export default function CommitteesPageEnhanced() {
         </DialogActions>
       </Dialog>
 
+      {/* Meetings & Action Points Dialog */}
+      {isMeetingsDialogOpen && selectedCommittee && (
+        <CommitteeMeetingsDialog
+          open={isMeetingsDialogOpen}
+          onClose={() => setIsMeetingsDialogOpen(false)}
+          committee={selectedCommittee}
+          onMeetingSaved={(meeting: Meeting) => {
+            const updatedCommittee = { ...selectedCommittee, meetings: [...selectedCommittee.meetings, meeting] };
+            setCommittees(prev => prev.map(c => (c.id === updatedCommittee.id ? updatedCommittee : c)));
+            setSelectedCommittee(updatedCommittee);
+            setSnackbar({ open: true, message: 'Meeting saved successfully', severity: 'success' });
+          }}
+        />
+      )}
+
       {/* Committee Actions - Now using direct buttons on cards */}
 
       {/* Edit Committee Dialog */}
@@ -0,0 +1,368 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import { useNABHStore } from '../store/nabhStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import {
+  loadComplianceEvents,
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+} from '../services/complianceCalendarService';
+import { getComplianceEventStatus, getDaysUntil } from '../services/complianceCalendarEngine';
+import { buildICSCalendar, downloadICSCalendar } from '../utils/icsExport';
+import type { ComplianceEvent, ComplianceEventStatus, ComplianceSource } from '../types/complianceCalendar';
+
+const SOURCES: { source: ComplianceSource; icon: string }[] = [
+  { source: 'License', icon: 'gavel' },
+  { source: 'MOU', icon: 'handshake' },
+  { source: 'Calibration', icon: 'tune' },
+  { source: 'Maintenance', icon: 'build' },
+  { source: 'Committee Meeting', icon: 'groups' },
+  { source: 'Manual Review', icon: 'menu_book' },
+  { source: 'SOP Review', icon: 'description' },
+  { source: 'Audit Follow-up', icon: 'fact_check' },
+];
+
+const STATUS_COLORS: Record<ComplianceEventStatus, 'error' | 'warning' | 'success'> = {
+  'Overdue': 'error',
+  'Due Soon': 'warning',
+  'Upcoming': 'success',
+};
+
+const HORIZONS = [
+  { value: 30, label: 'Next 30 days' },
+  { value: 90, label: 'Next 90 days' },
+  { value: 365, label: 'Next 12 months' },
+  { value: 0, label: 'All dates' },
+];
+
+const formatDays = (days: number): string => {
+  if (days === 0) return 'Today';
+  if (days < 0) return `${-days} day${days === -1 ? '' : 's'} overdue`;
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+export default function ComplianceCalendarPage() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+  const hospital = getHospitalInfo(selectedHospital);
+
+  const [events, setEvents] = useState<ComplianceEvent[]>([]);
+  const [loadErrors, setLoadErrors] = useState<Partial<Record<ComplianceSource, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [sourceFilter, setSourceFilter] = useState<ComplianceSource | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<ComplianceEventStatus | 'all'>('all');
+  const [horizon, setHorizon] = useState(90);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+  const [isSubscribeDialogOpen, setIsSubscribeDialogOpen] = useState(false);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [feedLoading, setFeedLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      const result = await loadComplianceEvents(selectedHospital);
+      setEvents(result.data);
+      setLoadErrors(result.errors);
+      setLoading(false);
+    };
+    fetchEvents();
+  }, [selectedHospital]);
+
+  const eventsWithStatus = useMemo(() => events.map(event => ({
+    ...event,
+    status: getComplianceEventStatus(event),
+    daysUntil: getDaysUntil(event.dueDate),
+  })), [events]);
+
+  const stats = useMemo(() => ({
+    overdue: eventsWithStatus.filter(e => e.status === 'Overdue').length,
+    dueSoon: eventsWithStatus.filter(e => e.status === 'Due Soon').length,
+    next30: eventsWithStatus.filter(e => e.daysUntil >= 0 && e.daysUntil <= 30).length,
+    total: eventsWithStatus.length,
+  }), [eventsWithStatus]);
+
+  // Overdue items always stay on the agenda regardless of the horizon
+  const filteredEvents = useMemo(() => eventsWithStatus.filter(e =>
+    (sourceFilter === 'all' || e.source === sourceFilter) &&
+    (statusFilter === 'all' || e.status === statusFilter) &&
+    (horizon === 0 || e.status === 'Overdue' || e.daysUntil <= horizon)
+  ), [eventsWithStatus, sourceFilter, statusFilter, horizon]);
+
+  const eventsByMonth = useMemo(() => {
+    const groups: { month: string; label: string; items: typeof filteredEvents }[] = [];
+    filteredEvents.forEach(event => {
+      const month = event.status === 'Overdue' ? 'overdue' : event.dueDate.slice(0, 7);
+      let group = groups.find(g => g.month === month);
+      if (!group) {
+        group = {
+          month,
+          label: month === 'overdue'
+            ? 'Overdue'
+            : new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' }),
+          items: [],
+        };
+        groups.push(group);
+      }
+      group.items.push(event);
+    });
+    return groups;
+  }, [filteredEvents]);
+
+  const handleExportICS = () => {
+    const exportable = sourceFilter === 'all' ? events : events.filter(e => e.source === sourceFilter);
+    if (exportable.length === 0) {
+      setSnackbar({ open: true, message: 'No dated obligations to export', severity: 'error' });
+      return;
+    }
+    const calendarName = `${hospital.name} - NABH Compliance${sourceFilter === 'all' ? '' : ` (${sourceFilter})`}`;
+    downloadICSCalendar(
+      buildICSCalendar(exportable, calendarName),
+      `${hospital.id}-nabh-compliance${sourceFilter === 'all' ? '' : `-${sourceFilter.toLowerCase().replace(/\s+/g, '-')}`}.ics`
+    );
+    setSnackbar({ open: true, message: `Exported ${exportable.length} events to iCalendar`, severity: 'success' });
+  };
+
+  const loadFeedUrl = async (reset: boolean) => {
+    setFeedLoading(true);
+    const result = await getCalendarFeedToken(selectedHospital, reset);
+    setFeedLoading(false);
+    if (result.success && result.data) {
+      setFeedUrl(getCalendarFeedUrl(result.data));
+      if (reset) {
+        setSnackbar({ open: true, message: 'Subscription link reset; calendars using the old link stop updating', severity: 'success' });
+      }
+    } else {
+      setFeedUrl('');
+      setSnackbar({ open: true, message: 'Could not get the subscription link: ' + result.error, severity: 'error' });
+    }
+  };
+
+  const handleOpenSubscribe = () => {
+    setIsSubscribeDialogOpen(true);
+    loadFeedUrl(false);
+  };
+
+  const handleCopyFeedUrl = () => {
+    navigator.clipboard.writeText(feedUrl);
+    setSnackbar({ open: true, message: 'Subscription link copied', severity: 'success' });
+  };
+
+  const failedSources = Object.keys(loadErrors) as ComplianceSource[];
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Compliance Calendar
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            License and MOU expiries, calibration and maintenance, committee meetings, document reviews and audit follow-ups for {hospital.name}
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" startIcon={<Icon>event_repeat</Icon>} onClick={handleOpenSubscribe}>
+            Subscribe
+          </Button>
+          <Button variant="contained" startIcon={<Icon>event</Icon>} onClick={handleExportICS}>
+            Export .ics
+          </Button>
+        </Box>
+      </Box>
+
+      {failedSources.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Could not load: {failedSources.join(', ')}. The calendar shows the remaining sources.
+        </Alert>
+      )}
+
+      {/* Stats */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Overdue', value: stats.overdue, color: 'error.main', status: 'Overdue' as const },
+          { label: 'Due Soon (in reminder window)', value: stats.dueSoon, color: 'warning.main', status: 'Due Soon' as const },
+          { label: 'Due in next 30 days', value: stats.next30, color: 'info.main', status: 'all' as const },
+          { label: 'Total dated obligations', value: stats.total, color: 'text.primary', status: 'all' as const },
+        ].map(card => (
+          <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+            <Paper sx={{ p: 2, textAlign: 'center', cursor: 'pointer' }} onClick={() => setStatusFilter(card.status)}>
+              <Typography variant="h4" fontWeight={700} color={card.color}>{card.value}</Typography>
+              <Typography variant="body2" color="text.secondary">{card.label}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Source chips */}
+      <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <Chip
+          label={`All (${events.length})`}
+          color={sourceFilter === 'all' ? 'primary' : 'default'}
+          onClick={() => setSourceFilter('all')}
+        />
+        {SOURCES.map(({ source, icon }) => (
+          <Chip
+            key={source}
+            icon={<Icon fontSize="small">{icon}</Icon>}
+            label={`${source} (${events.filter(e => e.source === source).length})`}
+            color={sourceFilter === source ? 'primary' : 'default'}
+            variant={sourceFilter === source ? 'filled' : 'outlined'}
+            onClick={() => setSourceFilter(source)}
+          />
+        ))}
+      </Box>
+
+      {/* Filters */}
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <TextField select size="small" label="Status" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as ComplianceEventStatus | 'all')} sx={{ minWidth: 180 }}>
+          <MenuItem value="all">All</MenuItem>
+          {(Object.keys(STATUS_COLORS) as ComplianceEventStatus[]).map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label="Horizon" value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} sx={{ minWidth: 180 }}>
+          {HORIZONS.map(h => <MenuItem key={h.value} value={h.value}>{h.label}</MenuItem>)}
+        </TextField>
+      </Box>
+
+      {/* Agenda */}
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Due Date</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell>Obligation</TableCell>
+                <TableCell>Responsible</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {eventsByMonth.map(group => [
+                <TableRow key={`group-${group.month}`}>
+                  <TableCell colSpan={5} sx={{ bgcolor: 'grey.100' }}>
+                    <Typography variant="subtitle2" fontWeight={600} color={group.month === 'overdue' ? 'error.main' : 'text.primary'}>
+                      {group.label} ({group.items.length})
+                    </Typography>
+                  </TableCell>
+                </TableRow>,
+                ...group.items.map(event => (
+                  <TableRow key={event.id} hover sx={{ cursor: 'pointer' }} onClick={() => navigate(event.path)}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {new Date(`${event.dueDate}T00:00:00`).toLocaleDateString('en-IN')}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        icon={<Icon fontSize="small">{SOURCES.find(s => s.source === event.source)?.icon}</Icon>}
+                        label={event.source}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{event.title}</Typography>
+                      {event.description && (
+                        <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'pre-line' }}>
+                          {event.description}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{event.owner || '-'}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <Chip size="small" label={event.status} color={STATUS_COLORS[event.status]} sx={{ mr: 1 }} />
+                      <Typography variant="caption" color="text.secondary">{formatDays(event.daysUntil)}</Typography>
+                    </TableCell>
+                  </TableRow>
+                )),
+              ])}
+              {filteredEvents.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+                      No obligations match the selected filters
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Dialog open={isSubscribeDialogOpen} onClose={() => setIsSubscribeDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Icon color="primary">event_repeat</Icon>
+            Subscribe to Compliance Calendar
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Add this link to Google Calendar (From URL), Outlook (Subscribe from web) or Apple Calendar
+            (New Calendar Subscription) to keep every obligation for {hospital.name} up to date.
+            The link is personal: it stops working if your account is deactivated or you reset it.
+          </Typography>
+          {feedLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <TextField
+              fullWidth
+              label="Subscription URL"
+              value={feedUrl}
+              slotProps={{ input: { readOnly: true } }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button color="warning" onClick={() => loadFeedUrl(true)} disabled={feedLoading}>Reset Link</Button>
+          <Button onClick={() => setIsSubscribeDialogOpen(false)}>Close</Button>
+          <Button variant="contained" startIcon={<Icon>content_copy</Icon>} onClick={handleCopyFeedUrl} disabled={feedLoading || !feedUrl}>
+            Copy Link
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
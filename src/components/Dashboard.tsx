@@ -5,8 +5,14 @@ import Typography from '@mui/material/Typography';
 import Icon from '@mui/material/Icon';
 import LinearProgress from '@mui/material/LinearProgress';
 import CircularProgress from '@mui/material/CircularProgress';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { getOverallStats } from '../data/nabhData';
 import { useNABHStore } from '../store/nabhStore';
+import { loadDocumentsDueForReview, REVIEW_DOCUMENT_TYPE_LABELS } from '../services/documentReviewStorage';
+import type { ReviewableDocument } from '../types/documentReview';
 
 interface StatCardProps {
   title: string;
@@ -67,6 +73,67 @@ function StatCard({ title, value, total, icon, color }: StatCardProps) {
   );
 }
 
+function DocumentsDueForReview() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+  const [documents, setDocuments] = useState<ReviewableDocument[] | null>(null);
+
+  useEffect(() => {
+    loadDocumentsDueForReview(selectedHospital).then(result => setDocuments(result.data));
+  }, [selectedHospital]);
+
+  const overdue = documents?.filter(d => d.dueStatus === 'Overdue').length || 0;
+  const dueSoon = documents?.filter(d => d.dueStatus === 'Due Soon').length || 0;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6" fontWeight={600}>
+          Documents Due for Review
+        </Typography>
+        <Button size="small" endIcon={<Icon>arrow_forward</Icon>} onClick={() => navigate('/document-reviews')}>
+          Review Scheduler
+        </Button>
+      </Box>
+      {documents === null ? (
+        <LinearProgress />
+      ) : documents.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No SOPs, manuals or documents are due for review in the next 30 days.
+        </Typography>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            <Chip size="small" color="error" label={`${overdue} overdue`} />
+            <Chip size="small" color="warning" label={`${dueSoon} due in 30 days`} />
+          </Box>
+          {documents.slice(0, 5).map(doc => (
+            <Box
+              key={`${doc.documentType}-${doc.documentId}`}
+              sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', py: 0.75, borderTop: 1, borderColor: 'divider' }}
+            >
+              <Box sx={{ minWidth: 0 }}>
+                <Typography variant="body2" noWrap>{doc.title}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {REVIEW_DOCUMENT_TYPE_LABELS[doc.documentType]} · {doc.openTask?.reviewer || 'No reviewer'}
+                </Typography>
+              </Box>
+              <Typography
+                variant="caption"
+                fontWeight={600}
+                color={doc.dueStatus === 'Overdue' ? 'error.main' : 'warning.main'}
+                sx={{ whiteSpace: 'nowrap', ml: 2 }}
+              >
+                {new Date(`${doc.reviewDate}T00:00:00`).toLocaleDateString('en-IN')}
+              </Typography>
+            </Box>
+          ))}
+        </>
+      )}
+    </Paper>
+  );
+}
+
 export default function Dashboard() {
   const { chapters, isLoadingFromSupabase } = useNABHStore();
   const stats = getOverallStats(chapters);
@@ -240,6 +307,9 @@ export default function Dashboard() {
             </Box>
           </Paper>
         </Grid>
+        <Grid size={{ xs: 12 }}>
+          <DocumentsDueForReview />
+        </Grid>
       </Grid>
     </Box>
   );
@@ -103,6 +103,7 @@ const INITIAL_FORM_DATA = {
   file_type: '',
   category: 'Procedure',
   effective_date: '',
+  review_date: '',
   version: '1.0',
   status: 'Active' as const,
   images: [] as string[],
@@ -197,6 +198,7 @@ export default function DocumentLevelsPage() {
       file_type: doc.file_type || '',
       category: doc.category || 'Procedure',
       effective_date: doc.effective_date || '',
+      review_date: doc.review_date || '',
       version: doc.version,
       status: doc.status,
       images: doc.images || [],
@@ -329,6 +331,7 @@ export default function DocumentLevelsPage() {
         file_type: formData.file_type,
         category: formData.category,
         effective_date: formData.effective_date,
+        review_date: formData.review_date || undefined,
         version: formData.version,
         status: formData.status,
         images: uploadedImageUrls,
@@ -379,6 +382,7 @@ export default function DocumentLevelsPage() {
         file_type: formData.file_type,
         category: formData.category,
         effective_date: formData.effective_date,
+        review_date: formData.review_date || undefined,
         version: formData.version,
         status: formData.status,
         images: uploadedImageUrls,
@@ -738,6 +742,15 @@ export default function DocumentLevelsPage() {
               InputLabelProps={{ shrink: true }}
               sx={{ width: 180 }}
             />
+            <TextField
+              label="Review Date"
+              type="date"
+              value={formData.review_date}
+              onChange={(e) => setFormData({ ...formData, review_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+              helperText="Blank = 1 year after effective"
+              sx={{ width: 180 }}
+            />
           </Box>
           <TextField
             label="Content"
@@ -904,6 +917,15 @@ export default function DocumentLevelsPage() {
               InputLabelProps={{ shrink: true }}
               sx={{ width: 180 }}
             />
+            <TextField
+              label="Review Date"
+              type="date"
+              value={formData.review_date}
+              onChange={(e) => setFormData({ ...formData, review_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+              helperText="Blank = 1 year after effective"
+              sx={{ width: 180 }}
+            />
           </Box>
           <TextField
             label="Content"
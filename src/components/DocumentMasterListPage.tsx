@@ -0,0 +1,640 @@
+import { useState, useEffect, useMemo } from 'react';
+import * as XLSX from 'xlsx';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Link from '@mui/material/Link';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Autocomplete from '@mui/material/Autocomplete';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import {
+  loadDocumentRegistry,
+  allocateDocumentNumber,
+  updateDocumentRegistryEntry,
+  withdrawDocumentNumber,
+  findSequenceGaps,
+  DOCUMENT_TYPE_LABELS,
+} from '../services/documentRegistryStorage';
+import {
+  getGeneratedSOPsByChapter,
+  updateGeneratedSOPDocumentNumber,
+  type GeneratedSOP,
+} from '../services/sopGeneratedStorage';
+import { stationeryStorage, type StationeryItem } from '../services/stationeryStorage';
+import { getChapterCode } from '../utils/documentNumbering';
+import type {
+  DocumentRegistryEntry,
+  DocumentRegistryStatus,
+  DocumentOwnerType,
+  DocumentType,
+} from '../types/documentRegistry';
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[];
+const REGISTRY_STATUSES: DocumentRegistryStatus[] = ['Reserved', 'Active', 'Superseded', 'Withdrawn'];
+
+const STATUS_COLORS: Record<DocumentRegistryStatus, 'default' | 'success' | 'warning' | 'error'> = {
+  'Reserved': 'warning',
+  'Active': 'success',
+  'Superseded': 'default',
+  'Withdrawn': 'error',
+};
+
+const OWNER_LABELS: Record<DocumentOwnerType, string> = {
+  generated_sop: 'Generated SOP',
+  sop_document: 'SOP Document',
+  evidence: 'Evidence',
+  stationery: 'Stationery',
+  manual: 'Manual',
+  other: 'Other',
+};
+
+// Stationery categories that are registers rather than forms
+const STATIONERY_DOC_TYPES: Record<string, DocumentType> = {
+  registers: 'REG',
+  sops: 'SOP',
+};
+
+interface RegisterForm {
+  ownerType: 'generated_sop' | 'stationery' | 'other';
+  ownerId: string;
+  docType: DocumentType;
+  chapterCode: string;
+  title: string;
+  objectiveCode: string;
+  version: string;
+  reviewDate: string;
+}
+
+const emptyRegisterForm: RegisterForm = {
+  ownerType: 'stationery',
+  ownerId: '',
+  docType: 'FRM',
+  chapterCode: 'GEN',
+  title: '',
+  objectiveCode: '',
+  version: '1.0',
+  reviewDate: '',
+};
+
+const getOwnerLink = (entry: DocumentRegistryEntry): string | null => {
+  if (!entry.owner_id) return null;
+  if (entry.owner_type === 'generated_sop') return `/sop/${entry.owner_id}`;
+  if (entry.owner_type === 'evidence') return `/evidence/${entry.owner_id}`;
+  if (entry.owner_type === 'stationery') return '/stationery';
+  if (entry.owner_type === 'manual') return '/manuals';
+  return null;
+};
+
+export default function DocumentMasterListPage() {
+  const { chapters, selectedHospital } = useNABHStore();
+  const hospital = getHospitalInfo(selectedHospital);
+
+  const [entries, setEntries] = useState<DocumentRegistryEntry[]>([]);
+  const [generatedSOPs, setGeneratedSOPs] = useState<GeneratedSOP[]>([]);
+  const [stationeryItems, setStationeryItems] = useState<StationeryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [chapterFilter, setChapterFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState<DocumentType | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<DocumentRegistryStatus | 'current'>('current');
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const [registerForm, setRegisterForm] = useState<RegisterForm>(emptyRegisterForm);
+  const [editingEntry, setEditingEntry] = useState<DocumentRegistryEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      const [registryResult, sopsResult] = await Promise.all([
+        loadDocumentRegistry(selectedHospital),
+        getGeneratedSOPsByChapter(),
+      ]);
+      if (registryResult.success && registryResult.data) {
+        setEntries(registryResult.data);
+      } else {
+        setSnackbar({ open: true, message: `Failed to load document registry: ${registryResult.error}`, severity: 'error' });
+      }
+      setGeneratedSOPs(sopsResult.data || []);
+      try {
+        setStationeryItems((await stationeryStorage.getAll(selectedHospital)) || []);
+      } catch (error) {
+        console.error('Error loading stationery:', error);
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, [selectedHospital]);
+
+  const registeredOwners = useMemo(
+    () => new Set(entries.filter(e => e.owner_id && e.status !== 'Withdrawn').map(e => `${e.owner_type}:${e.owner_id}`)),
+    [entries]
+  );
+  const unregisteredSOPs = generatedSOPs.filter(sop => !registeredOwners.has(`generated_sop:${sop.id}`));
+  const unregisteredStationery = stationeryItems.filter(item => !registeredOwners.has(`stationery:${item.id}`));
+
+  const sequenceGaps = useMemo(() => findSequenceGaps(entries), [entries]);
+  const today = new Date().toISOString().split('T')[0];
+
+  const filteredEntries = useMemo(() => entries.filter(entry => {
+    const search = searchTerm.toLowerCase();
+    return (chapterFilter === 'all' || entry.chapter_code === chapterFilter) &&
+      (typeFilter === 'all' || entry.doc_type === typeFilter) &&
+      (statusFilter === 'current' ? entry.status === 'Active' || entry.status === 'Reserved' : entry.status === statusFilter) &&
+      (!search || entry.document_number.toLowerCase().includes(search) || entry.title.toLowerCase().includes(search));
+  }), [entries, chapterFilter, typeFilter, statusFilter, searchTerm]);
+
+  const chapterCodes = useMemo(
+    () => Array.from(new Set([...chapters.map(c => c.code), ...entries.map(e => e.chapter_code), 'GEN'])).sort(),
+    [chapters, entries]
+  );
+
+  const handleOwnerSelect = (ownerType: RegisterForm['ownerType'], ownerId: string) => {
+    if (ownerType === 'generated_sop') {
+      const sop = generatedSOPs.find(s => s.id === ownerId);
+      if (sop) {
+        setRegisterForm({
+          ...registerForm,
+          ownerType,
+          ownerId,
+          docType: 'SOP',
+          chapterCode: sop.chapter_code || getChapterCode(sop.objective_code),
+          title: sop.objective_title,
+          objectiveCode: sop.objective_code,
+          version: sop.version || '1.0',
+          reviewDate: sop.review_date || '',
+        });
+        return;
+      }
+    }
+    if (ownerType === 'stationery') {
+      const item = stationeryItems.find(s => s.id === ownerId);
+      if (item) {
+        setRegisterForm({
+          ...registerForm,
+          ownerType,
+          ownerId,
+          docType: STATIONERY_DOC_TYPES[item.category] || 'FRM',
+          title: item.name,
+        });
+        return;
+      }
+    }
+    setRegisterForm({ ...registerForm, ownerType, ownerId });
+  };
+
+  const handleRegister = async () => {
+    if (!registerForm.title.trim() || !registerForm.chapterCode.trim()) {
+      setSnackbar({ open: true, message: 'Title and chapter are required', severity: 'error' });
+      return;
+    }
+    if (registerForm.ownerType !== 'other' && !registerForm.ownerId) {
+      setSnackbar({ open: true, message: 'Select the document that will carry this number', severity: 'error' });
+      return;
+    }
+
+    setSaving(true);
+    const result = await allocateDocumentNumber({
+      hospitalId: selectedHospital,
+      docType: registerForm.docType,
+      chapterCode: registerForm.chapterCode,
+      title: registerForm.title.trim(),
+      ownerType: registerForm.ownerType,
+      ownerId: registerForm.ownerId || undefined,
+      objectiveCode: registerForm.objectiveCode || undefined,
+      version: registerForm.version || '1.0',
+      reviewDate: registerForm.reviewDate || undefined,
+    });
+
+    if (result.success && result.data) {
+      const entry = result.data;
+      if (entry.owner_type === 'generated_sop' && entry.owner_id) {
+        await updateGeneratedSOPDocumentNumber(entry.owner_id, entry.document_number);
+      }
+      if (entry.owner_type === 'stationery' && entry.owner_id) {
+        // The registry trigger writes the number onto the stationery item
+        setStationeryItems(stationeryItems.map(item => (item.id === entry.owner_id ? { ...item, document_number: entry.document_number } : item)));
+      }
+      setEntries([...entries, entry]);
+      setRegisterOpen(false);
+      setRegisterForm(emptyRegisterForm);
+      setSnackbar({ open: true, message: `Allocated ${entry.document_number}`, severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: `Failed to allocate number: ${result.error}`, severity: 'error' });
+    }
+    setSaving(false);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingEntry) return;
+    setSaving(true);
+    const result = await updateDocumentRegistryEntry(editingEntry.id, {
+      title: editingEntry.title,
+      version: editingEntry.version,
+      effective_date: editingEntry.effective_date || null,
+      review_date: editingEntry.review_date || null,
+      status: editingEntry.status,
+      remarks: editingEntry.remarks,
+    });
+    if (result.success && result.data) {
+      setEntries(entries.map(e => (e.id === result.data!.id ? result.data! : e)));
+      setEditingEntry(null);
+      setSnackbar({ open: true, message: `${result.data.document_number} updated`, severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: 'Failed to update document', severity: 'error' });
+    }
+    setSaving(false);
+  };
+
+  const handleWithdraw = async (entry: DocumentRegistryEntry) => {
+    const reason = prompt(`Reason for withdrawing ${entry.document_number}?`);
+    if (!reason) return;
+
+    const result = await withdrawDocumentNumber(entry.id, reason);
+    if (result.success && result.data) {
+      setEntries(entries.map(e => (e.id === entry.id ? result.data! : e)));
+      setSnackbar({ open: true, message: `${entry.document_number} withdrawn`, severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: 'Failed to withdraw document', severity: 'error' });
+    }
+  };
+
+  const handleExport = () => {
+    const rows = filteredEntries.map(entry => ({
+      'Document No': entry.document_number,
+      'Title': entry.title,
+      'Type': DOCUMENT_TYPE_LABELS[entry.doc_type],
+      'Chapter': entry.chapter_code,
+      'Objective': entry.objective_code || '',
+      'Version': entry.version,
+      'Effective Date': entry.effective_date || '',
+      'Review Date': entry.review_date || '',
+      'Status': entry.status,
+      'Owner': OWNER_LABELS[entry.owner_type],
+      'Remarks': entry.remarks || '',
+    }));
+    const ws = XLSX.utils.json_to_sheet(rows);
+    ws['!cols'] = [{ wch: 16 }, { wch: 50 }, { wch: 26 }, { wch: 10 }, { wch: 12 }, { wch: 8 }, { wch: 14 }, { wch: 14 }, { wch: 12 }, { wch: 16 }, { wch: 30 }];
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Document Master List');
+    XLSX.writeFile(wb, `${hospital.id}_document_master_list.xlsx`);
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const ownerOptions = registerForm.ownerType === 'generated_sop'
+    ? unregisteredSOPs.map(sop => ({ id: sop.id, label: `${sop.objective_code} - ${sop.objective_title}` }))
+    : unregisteredStationery.map(item => ({ id: item.id, label: `${item.name} (${item.category})` }));
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Document Master List
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Controlled documents of {hospital.name} with sequential numbers per chapter and type
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" startIcon={<Icon>download</Icon>} onClick={handleExport} disabled={filteredEntries.length === 0}>
+            Export Excel
+          </Button>
+          <Button variant="contained" startIcon={<Icon>add</Icon>} onClick={() => setRegisterOpen(true)}>
+            Register Document
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Stats */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Active', value: entries.filter(e => e.status === 'Active').length, color: 'success.main' },
+          { label: 'Reserved (not yet saved)', value: entries.filter(e => e.status === 'Reserved').length, color: 'warning.main' },
+          { label: 'Review Overdue', value: entries.filter(e => e.status === 'Active' && e.review_date && e.review_date < today).length, color: 'error.main' },
+          { label: 'Unregistered SOPs & Stationery', value: unregisteredSOPs.length + unregisteredStationery.length, color: 'text.secondary' },
+        ].map(card => (
+          <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+            <Paper sx={{ p: 2, textAlign: 'center' }}>
+              <Typography variant="h4" fontWeight={700} color={card.color}>{card.value}</Typography>
+              <Typography variant="body2" color="text.secondary">{card.label}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      {entries.length > 0 && (
+        sequenceGaps.length === 0 ? (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Numbering is continuous: every allocated number is accounted for in the register.
+          </Alert>
+        ) : (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Missing numbers: {sequenceGaps.map(g => `${g.series} (${g.missing.join(', ')})`).join('; ')}
+          </Alert>
+        )
+      )}
+
+      {/* Filters */}
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          placeholder="Search number or title"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          sx={{ minWidth: 240 }}
+        />
+        <TextField select size="small" label="Chapter" value={chapterFilter} onChange={(e) => setChapterFilter(e.target.value)} sx={{ minWidth: 130 }}>
+          <MenuItem value="all">All Chapters</MenuItem>
+          {chapterCodes.map(code => <MenuItem key={code} value={code}>{code}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label="Type" value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as DocumentType | 'all')} sx={{ minWidth: 200 }}>
+          <MenuItem value="all">All Types</MenuItem>
+          {DOCUMENT_TYPES.map(type => <MenuItem key={type} value={type}>{type} - {DOCUMENT_TYPE_LABELS[type]}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label="Status" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as DocumentRegistryStatus | 'current')} sx={{ minWidth: 160 }}>
+          <MenuItem value="current">Current (Active & Reserved)</MenuItem>
+          {REGISTRY_STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+        </TextField>
+      </Box>
+
+      {/* Master list */}
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Document No.</TableCell>
+                <TableCell>Title</TableCell>
+                <TableCell>Owner</TableCell>
+                <TableCell>Version</TableCell>
+                <TableCell>Effective</TableCell>
+                <TableCell>Review Date</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredEntries.map(entry => {
+                const ownerLink = getOwnerLink(entry);
+                const reviewOverdue = entry.status === 'Active' && !!entry.review_date && entry.review_date < today;
+                return (
+                  <TableRow key={entry.id} hover>
+                    <TableCell sx={{ fontFamily: 'monospace', fontWeight: 600, whiteSpace: 'nowrap' }}>
+                      {entry.document_number}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{entry.title}</Typography>
+                      {entry.objective_code && (
+                        <Typography variant="caption" color="text.secondary">{entry.objective_code}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {ownerLink ? (
+                        <Link href={ownerLink} target={ownerLink.startsWith('/sop/') || ownerLink.startsWith('/evidence/') ? '_blank' : undefined} underline="hover">
+                          {OWNER_LABELS[entry.owner_type]}
+                        </Link>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">{OWNER_LABELS[entry.owner_type]}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.version}</TableCell>
+                    <TableCell>{entry.effective_date ? new Date(entry.effective_date).toLocaleDateString('en-IN') : '-'}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color={reviewOverdue ? 'error.main' : 'text.primary'} fontWeight={reviewOverdue ? 600 : 400}>
+                        {entry.review_date ? new Date(entry.review_date).toLocaleDateString('en-IN') : '-'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="small" label={entry.status} color={STATUS_COLORS[entry.status]} />
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => setEditingEntry({ ...entry })}>
+                          <Icon fontSize="small">edit</Icon>
+                        </IconButton>
+                      </Tooltip>
+                      {entry.status !== 'Withdrawn' && (
+                        <Tooltip title="Withdraw number">
+                          <IconButton size="small" color="error" onClick={() => handleWithdraw(entry)}>
+                            <Icon fontSize="small">block</Icon>
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {filteredEntries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+                      No controlled documents match the selected filters
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Register dialog */}
+      <Dialog open={registerOpen} onClose={() => setRegisterOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Register Controlled Document</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              select
+              label="Document Source"
+              value={registerForm.ownerType}
+              onChange={(e) => setRegisterForm({ ...emptyRegisterForm, ownerType: e.target.value as RegisterForm['ownerType'], docType: e.target.value === 'generated_sop' ? 'SOP' : 'FRM' })}
+              fullWidth
+            >
+              <MenuItem value="stationery">Stationery item ({unregisteredStationery.length} unregistered)</MenuItem>
+              <MenuItem value="generated_sop">Generated SOP ({unregisteredSOPs.length} unregistered)</MenuItem>
+              <MenuItem value="other">Other document (policy, manual, external)</MenuItem>
+            </TextField>
+            {registerForm.ownerType !== 'other' && (
+              <Autocomplete
+                options={ownerOptions}
+                value={ownerOptions.find(o => o.id === registerForm.ownerId) || null}
+                onChange={(_, option) => handleOwnerSelect(registerForm.ownerType, option?.id || '')}
+                renderInput={(params) => <TextField {...params} label="Document" />}
+              />
+            )}
+            <Grid container spacing={2}>
+              <Grid size={{ xs: 6 }}>
+                <TextField
+                  select
+                  label="Type"
+                  value={registerForm.docType}
+                  onChange={(e) => setRegisterForm({ ...registerForm, docType: e.target.value as DocumentType })}
+                  fullWidth
+                >
+                  {DOCUMENT_TYPES.map(type => <MenuItem key={type} value={type}>{type} - {DOCUMENT_TYPE_LABELS[type]}</MenuItem>)}
+                </TextField>
+              </Grid>
+              <Grid size={{ xs: 6 }}>
+                <TextField
+                  select
+                  label="Chapter"
+                  value={registerForm.chapterCode}
+                  onChange={(e) => setRegisterForm({ ...registerForm, chapterCode: e.target.value })}
+                  helperText="GEN for hospital-wide documents"
+                  fullWidth
+                >
+                  {chapterCodes.map(code => <MenuItem key={code} value={code}>{code}</MenuItem>)}
+                </TextField>
+              </Grid>
+            </Grid>
+            <TextField
+              label="Title"
+              value={registerForm.title}
+              onChange={(e) => setRegisterForm({ ...registerForm, title: e.target.value })}
+              fullWidth
+            />
+            <Grid container spacing={2}>
+              <Grid size={{ xs: 6 }}>
+                <TextField
+                  label="Version"
+                  value={registerForm.version}
+                  onChange={(e) => setRegisterForm({ ...registerForm, version: e.target.value })}
+                  fullWidth
+                />
+              </Grid>
+              <Grid size={{ xs: 6 }}>
+                <TextField
+                  label="Review Date"
+                  type="date"
+                  value={registerForm.reviewDate}
+                  onChange={(e) => setRegisterForm({ ...registerForm, reviewDate: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  fullWidth
+                />
+              </Grid>
+            </Grid>
+            <Alert severity="info">
+              The next number in the {registerForm.docType}-{registerForm.chapterCode} series is allocated when you register.
+            </Alert>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRegisterOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleRegister} disabled={saving}>
+            {saving ? 'Allocating...' : 'Allocate Number'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Edit dialog */}
+      <Dialog open={!!editingEntry} onClose={() => setEditingEntry(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Edit {editingEntry?.document_number}</DialogTitle>
+        <DialogContent>
+          {editingEntry && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <TextField
+                label="Title"
+                value={editingEntry.title}
+                onChange={(e) => setEditingEntry({ ...editingEntry, title: e.target.value })}
+                fullWidth
+              />
+              <Grid container spacing={2}>
+                <Grid size={{ xs: 4 }}>
+                  <TextField
+                    label="Version"
+                    value={editingEntry.version}
+                    onChange={(e) => setEditingEntry({ ...editingEntry, version: e.target.value })}
+                    fullWidth
+                  />
+                </Grid>
+                <Grid size={{ xs: 4 }}>
+                  <TextField
+                    label="Effective Date"
+                    type="date"
+                    value={editingEntry.effective_date || ''}
+                    onChange={(e) => setEditingEntry({ ...editingEntry, effective_date: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                    fullWidth
+                  />
+                </Grid>
+                <Grid size={{ xs: 4 }}>
+                  <TextField
+                    label="Review Date"
+                    type="date"
+                    value={editingEntry.review_date || ''}
+                    onChange={(e) => setEditingEntry({ ...editingEntry, review_date: e.target.value })}
+                    InputLabelProps={{ shrink: true }}
+                    fullWidth
+                  />
+                </Grid>
+              </Grid>
+              <TextField
+                select
+                label="Status"
+                value={editingEntry.status}
+                onChange={(e) => setEditingEntry({ ...editingEntry, status: e.target.value as DocumentRegistryStatus })}
+                fullWidth
+              >
+                {REGISTRY_STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+              </TextField>
+              <TextField
+                label="Remarks"
+                value={editingEntry.remarks || ''}
+                onChange={(e) => setEditingEntry({ ...editingEntry, remarks: e.target.value })}
+                multiline
+                rows={2}
+                fullWidth
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingEntry(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveEdit} disabled={saving}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
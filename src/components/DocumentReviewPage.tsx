@@ -0,0 +1,401 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { getHospitalInfo, ASSIGNEE_OPTIONS } from '../config/hospitalConfig';
+import {
+  loadDocumentsDueForReview,
+  loadReviewHistory,
+  assignReviewer,
+  openReviewRevision,
+  completeDocumentReview,
+  DEFAULT_REVIEW_WINDOW_DAYS,
+  REVIEW_DOCUMENT_TYPE_LABELS,
+} from '../services/documentReviewStorage';
+import type {
+  DocumentReviewTask,
+  ReviewableDocument,
+  ReviewDocumentType,
+  ReviewDueStatus,
+} from '../types/documentReview';
+
+const TYPE_ICONS: Record<ReviewDocumentType, string> = {
+  generated_sop: 'auto_awesome',
+  sop_document: 'description',
+  manual: 'menu_book',
+  document_level: 'layers',
+};
+
+const STATUS_COLORS: Record<ReviewDueStatus, 'error' | 'warning' | 'success'> = {
+  'Overdue': 'error',
+  'Due Soon': 'warning',
+  'Upcoming': 'success',
+};
+
+const WINDOWS = [7, 15, 30, 60, 90];
+
+const formatDays = (days: number): string => {
+  if (days === 0) return 'Today';
+  if (days < 0) return `${-days} day${days === -1 ? '' : 's'} overdue`;
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const documentKey = (doc: ReviewableDocument) => `${doc.documentType}-${doc.documentId}`;
+
+export default function DocumentReviewPage() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+  const hospital = getHospitalInfo(selectedHospital);
+
+  const [documents, setDocuments] = useState<ReviewableDocument[]>([]);
+  const [history, setHistory] = useState<DocumentReviewTask[]>([]);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [windowDays, setWindowDays] = useState(DEFAULT_REVIEW_WINDOW_DAYS);
+  const [typeFilter, setTypeFilter] = useState<ReviewDocumentType | 'all'>('all');
+  const [reviewerFilter, setReviewerFilter] = useState<string>('all');
+  const [tab, setTab] = useState(0);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      const [due, past] = await Promise.all([
+        loadDocumentsDueForReview(selectedHospital, windowDays),
+        loadReviewHistory(selectedHospital),
+      ]);
+      setDocuments(due.data);
+      setLoadErrors(Object.keys(due.errors).map(key => REVIEW_DOCUMENT_TYPE_LABELS[key as ReviewDocumentType] || 'Review tasks'));
+      setHistory(past.data || []);
+      setLoading(false);
+    };
+    fetchData();
+  }, [selectedHospital, windowDays]);
+
+  const stats = useMemo(() => ({
+    overdue: documents.filter(d => d.dueStatus === 'Overdue').length,
+    dueSoon: documents.filter(d => d.dueStatus === 'Due Soon').length,
+    unassigned: documents.filter(d => !d.openTask?.reviewer).length,
+    inRevision: documents.filter(d => d.openTask?.status === 'In Revision').length,
+  }), [documents]);
+
+  const filteredDocuments = useMemo(() => documents.filter(d =>
+    (typeFilter === 'all' || d.documentType === typeFilter) &&
+    (reviewerFilter === 'all' ||
+      (reviewerFilter === 'unassigned' ? !d.openTask?.reviewer : d.openTask?.reviewer === reviewerFilter))
+  ), [documents, typeFilter, reviewerFilter]);
+
+  const showSnackbar = (message: string, severity: 'success' | 'error') => {
+    setSnackbar({ open: true, message, severity });
+  };
+
+  const replaceTask = (doc: ReviewableDocument, task: DocumentReviewTask | undefined) => {
+    if (!task) return;
+    setDocuments(prev => prev.map(d => (documentKey(d) === documentKey(doc) ? { ...d, openTask: task } : d)));
+  };
+
+  const handleAssign = async (doc: ReviewableDocument, reviewer: string) => {
+    setBusyKey(documentKey(doc));
+    const result = await assignReviewer(selectedHospital, doc, reviewer);
+    setBusyKey(null);
+    if (result.success) {
+      replaceTask(doc, result.data);
+      showSnackbar(`${doc.title} assigned to ${reviewer}`, 'success');
+    } else {
+      showSnackbar(result.error || 'Failed to assign reviewer', 'error');
+    }
+  };
+
+  const handleComplete = async (doc: ReviewableDocument, outcome: 'No Change' | 'Revised') => {
+    const remarks = prompt(outcome === 'No Change'
+      ? 'Review remarks (document reviewed, no change required):'
+      : 'Summary of the revision issued:');
+    if (remarks === null) return;
+
+    setBusyKey(documentKey(doc));
+    const result = await completeDocumentReview(selectedHospital, doc, outcome, remarks);
+    setBusyKey(null);
+    if (result.success && result.data) {
+      setDocuments(prev => prev.filter(d => documentKey(d) !== documentKey(doc)));
+      setHistory(prev => [result.data!, ...prev]);
+      showSnackbar(`Review recorded. Next review ${new Date(`${result.data.next_review_date}T00:00:00`).toLocaleDateString('en-IN')}`, 'success');
+    } else {
+      showSnackbar(result.error || 'Failed to record review', 'error');
+    }
+  };
+
+  const handleOpenRevision = async (doc: ReviewableDocument) => {
+    setBusyKey(documentKey(doc));
+    const result = await openReviewRevision(selectedHospital, doc);
+    setBusyKey(null);
+    if (result.success) {
+      replaceTask(doc, result.data);
+      navigate(doc.path);
+    } else {
+      showSnackbar(result.error || 'Failed to open revision', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Document Review Scheduler
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            SOPs, manuals and document-level items whose periodic review is due at {hospital.name}
+          </Typography>
+        </Box>
+        <TextField select size="small" label="Due soon window" value={windowDays} onChange={(e) => setWindowDays(Number(e.target.value))} sx={{ minWidth: 180 }}>
+          {WINDOWS.map(days => <MenuItem key={days} value={days}>Next {days} days</MenuItem>)}
+        </TextField>
+      </Box>
+
+      {loadErrors.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Could not load: {loadErrors.join(', ')}. The list shows the remaining sources.
+        </Alert>
+      )}
+
+      {/* Stats */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Review overdue', value: stats.overdue, color: 'error.main' },
+          { label: `Due in ${windowDays} days`, value: stats.dueSoon, color: 'warning.main' },
+          { label: 'No reviewer assigned', value: stats.unassigned, color: 'info.main' },
+          { label: 'Revision in progress', value: stats.inRevision, color: 'text.primary' },
+        ].map(card => (
+          <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+            <Paper sx={{ p: 2, textAlign: 'center' }}>
+              <Typography variant="h4" fontWeight={700} color={card.color}>{card.value}</Typography>
+              <Typography variant="body2" color="text.secondary">{card.label}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab label={`Due for Review (${documents.length})`} />
+        <Tab label={`Review History (${history.length})`} />
+      </Tabs>
+
+      {tab === 0 && (
+        <>
+          {/* Filters */}
+          <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+            <Chip
+              label={`All (${documents.length})`}
+              color={typeFilter === 'all' ? 'primary' : 'default'}
+              onClick={() => setTypeFilter('all')}
+            />
+            {(Object.keys(REVIEW_DOCUMENT_TYPE_LABELS) as ReviewDocumentType[]).map(type => (
+              <Chip
+                key={type}
+                icon={<Icon fontSize="small">{TYPE_ICONS[type]}</Icon>}
+                label={`${REVIEW_DOCUMENT_TYPE_LABELS[type]} (${documents.filter(d => d.documentType === type).length})`}
+                color={typeFilter === type ? 'primary' : 'default'}
+                variant={typeFilter === type ? 'filled' : 'outlined'}
+                onClick={() => setTypeFilter(type)}
+              />
+            ))}
+            <TextField select size="small" label="Reviewer" value={reviewerFilter} onChange={(e) => setReviewerFilter(e.target.value)} sx={{ minWidth: 220, ml: 'auto' }}>
+              <MenuItem value="all">All reviewers</MenuItem>
+              <MenuItem value="unassigned">Unassigned</MenuItem>
+              {ASSIGNEE_OPTIONS.map(option => <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>)}
+            </TextField>
+          </Box>
+
+          <Paper>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Review Date</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Document</TableCell>
+                    <TableCell sx={{ minWidth: 200 }}>Reviewer</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {filteredDocuments.map(doc => {
+                    const busy = busyKey === documentKey(doc);
+                    const inRevision = doc.openTask?.status === 'In Revision';
+                    return (
+                      <TableRow key={documentKey(doc)} hover>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                          {new Date(`${doc.reviewDate}T00:00:00`).toLocaleDateString('en-IN')}
+                          {doc.reviewDateDerived && (
+                            <Tooltip title={`No review date recorded; ${doc.reviewPeriodMonths} months after the effective date`}>
+                              <Icon fontSize="small" sx={{ ml: 0.5, verticalAlign: 'middle', color: 'text.secondary' }}>info</Icon>
+                            </Tooltip>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            icon={<Icon fontSize="small">{TYPE_ICONS[doc.documentType]}</Icon>}
+                            label={REVIEW_DOCUMENT_TYPE_LABELS[doc.documentType]}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight={500}>{doc.title}</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {doc.reference}{doc.version ? ` · v${doc.version}` : ''}{doc.owner ? ` · ${doc.owner}` : ''}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            select
+                            size="small"
+                            fullWidth
+                            value={doc.openTask?.reviewer || ''}
+                            onChange={(e) => handleAssign(doc, e.target.value)}
+                            disabled={busy}
+                            slotProps={{ select: { displayEmpty: true } }}
+                          >
+                            <MenuItem value="" disabled><em>Assign reviewer</em></MenuItem>
+                            {ASSIGNEE_OPTIONS.map(option => <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>)}
+                          </TextField>
+                        </TableCell>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                          {inRevision ? (
+                            <Chip size="small" label="In Revision" color="info" sx={{ mr: 1 }} />
+                          ) : (
+                            <Chip size="small" label={doc.dueStatus} color={STATUS_COLORS[doc.dueStatus]} sx={{ mr: 1 }} />
+                          )}
+                          <Typography variant="caption" color="text.secondary">{formatDays(doc.daysUntilDue)}</Typography>
+                        </TableCell>
+                        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                          {busy ? (
+                            <CircularProgress size={20} />
+                          ) : inRevision ? (
+                            <>
+                              <Button size="small" onClick={() => navigate(doc.path)}>Open</Button>
+                              <Button size="small" variant="contained" onClick={() => handleComplete(doc, 'Revised')}>
+                                Revision Issued
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button size="small" color="success" startIcon={<Icon>check</Icon>} onClick={() => handleComplete(doc, 'No Change')}>
+                                Reviewed, No Change
+                              </Button>
+                              <Button size="small" startIcon={<Icon>edit_note</Icon>} onClick={() => handleOpenRevision(doc)}>
+                                New Revision
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {filteredDocuments.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+                          No documents due for review in the next {windowDays} days
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+
+      {tab === 1 && (
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Completed</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Document</TableCell>
+                  <TableCell>Reviewer</TableCell>
+                  <TableCell>Outcome</TableCell>
+                  <TableCell>Next Review</TableCell>
+                  <TableCell>Remarks</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {history.map(task => (
+                  <TableRow key={task.id}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {task.completed_at ? new Date(task.completed_at).toLocaleDateString('en-IN') : '-'}
+                    </TableCell>
+                    <TableCell>{REVIEW_DOCUMENT_TYPE_LABELS[task.document_type]}</TableCell>
+                    <TableCell>{task.document_title}</TableCell>
+                    <TableCell>{task.reviewer || '-'}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={task.outcome || '-'} color={task.outcome === 'Revised' ? 'info' : 'success'} />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {task.next_review_date ? new Date(`${task.next_review_date}T00:00:00`).toLocaleDateString('en-IN') : '-'}
+                    </TableCell>
+                    <TableCell>{task.remarks || '-'}</TableCell>
+                  </TableRow>
+                ))}
+                {history.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center">
+                      <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+                        No reviews recorded yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
@@ -0,0 +1,544 @@
+import { useState, useEffect, useMemo } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import IconButton from '@mui/material/IconButton';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Autocomplete from '@mui/material/Autocomplete';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import { equipmentMaster } from '../data/equipmentMaster';
+import {
+  createEquipmentBreakdown,
+  deleteEquipmentBreakdown,
+  loadEquipmentBreakdowns,
+  updateEquipmentBreakdown,
+} from '../services/equipmentBreakdownStorage';
+import {
+  buildDowntimeReport,
+  buildDowntimeReportHTML,
+  getBreakdownValidationError,
+  getCriticalWithoutBackup,
+  getMonthBreakdowns,
+  isEquipmentDown,
+} from '../services/equipmentBreakdownEngine';
+import type { EquipmentBreakdown, EquipmentBreakdownInput, EquipmentUptimeGroup } from '../types/equipmentBreakdown';
+
+interface BreakdownForm {
+  equipment_id: string;
+  reported_at: string;
+  reported_by: string;
+  fault_description: string;
+  vendor: string;
+  vendor_called_at: string;
+  restored_at: string;
+  action_taken: string;
+  repair_cost: string;
+}
+
+const emptyForm: BreakdownForm = {
+  equipment_id: '',
+  reported_at: '',
+  reported_by: '',
+  fault_description: '',
+  vendor: '',
+  vendor_called_at: '',
+  restored_at: '',
+  action_taken: '',
+  repair_cost: '',
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (value: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : '-';
+
+const formatCost = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const currentMonth = () => toLocalInput(new Date().toISOString()).slice(0, 7);
+
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, i) => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - i);
+  return {
+    value: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+    label: date.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' }),
+  };
+});
+
+const uptimeColor = (percent: number) => (percent >= 98 ? 'success.main' : percent >= 95 ? 'warning.main' : 'error.main');
+
+export default function EquipmentBreakdownPage() {
+  const { selectedHospital } = useNABHStore();
+  const canEdit = useCapability('edit_content');
+
+  const [breakdowns, setBreakdowns] = useState<EquipmentBreakdown[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState(0);
+  const [month, setMonth] = useState(currentMonth);
+
+  const [editing, setEditing] = useState<EquipmentBreakdown | null>(null);
+  const [form, setForm] = useState<BreakdownForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const result = await loadEquipmentBreakdowns(selectedHospital);
+      if (result.success) {
+        setBreakdowns(result.data || []);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load breakdowns');
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, [selectedHospital]);
+
+  const report = useMemo(() => buildDowntimeReport(equipmentMaster, breakdowns, month), [breakdowns, month]);
+  const monthBreakdowns = useMemo(() => getMonthBreakdowns(breakdowns, month), [breakdowns, month]);
+  const criticalWithoutBackup = useMemo(() => getCriticalWithoutBackup(equipmentMaster), []);
+  const openBreakdowns = breakdowns.filter(b => !b.restored_at);
+
+  const handleOpenForm = (breakdown?: EquipmentBreakdown) => {
+    setEditing(breakdown || null);
+    setForm(breakdown
+      ? {
+        equipment_id: breakdown.equipment_id,
+        reported_at: toLocalInput(breakdown.reported_at),
+        reported_by: breakdown.reported_by,
+        fault_description: breakdown.fault_description,
+        vendor: breakdown.vendor || '',
+        vendor_called_at: toLocalInput(breakdown.vendor_called_at),
+        restored_at: toLocalInput(breakdown.restored_at),
+        action_taken: breakdown.action_taken || '',
+        repair_cost: breakdown.repair_cost !== null ? String(breakdown.repair_cost) : '',
+      }
+      : { ...emptyForm, reported_at: toLocalInput(new Date().toISOString()) });
+  };
+
+  const formInput: EquipmentBreakdownInput | null = useMemo(() => {
+    if (!form) return null;
+    const equipment = equipmentMaster.find(eq => eq.id === form.equipment_id);
+    return {
+      hospital_id: selectedHospital,
+      equipment_id: form.equipment_id,
+      equipment_tag: equipment?.equipmentTag || '',
+      equipment_name: equipment?.name || '',
+      reported_at: fromLocalInput(form.reported_at) || '',
+      reported_by: form.reported_by.trim(),
+      fault_description: form.fault_description.trim(),
+      vendor: form.vendor.trim() || null,
+      vendor_called_at: fromLocalInput(form.vendor_called_at),
+      restored_at: fromLocalInput(form.restored_at),
+      action_taken: form.action_taken.trim() || null,
+      repair_cost: form.repair_cost ? Number(form.repair_cost) : null,
+    };
+  }, [form, selectedHospital]);
+
+  const formError = formInput ? getBreakdownValidationError(formInput) : null;
+
+  const handleSave = async () => {
+    if (!formInput || formError) return;
+    setSaving(true);
+    const result = editing
+      ? await updateEquipmentBreakdown(editing.id, formInput)
+      : await createEquipmentBreakdown(formInput);
+    setSaving(false);
+
+    if (result.success && result.data) {
+      const saved = result.data;
+      setBreakdowns(prev => [saved, ...prev.filter(b => b.id !== saved.id)].sort((a, b) => b.reported_at.localeCompare(a.reported_at)));
+      setForm(null);
+    } else {
+      setError(result.error || 'Failed to save breakdown');
+    }
+  };
+
+  const handleDelete = async (breakdown: EquipmentBreakdown) => {
+    if (!window.confirm(`Delete the breakdown of ${breakdown.equipment_tag} reported ${formatDateTime(breakdown.reported_at)}?`)) return;
+    const result = await deleteEquipmentBreakdown(breakdown.id);
+    if (result.success) {
+      setBreakdowns(prev => prev.filter(b => b.id !== breakdown.id));
+    } else {
+      setError(result.error || 'Failed to delete breakdown');
+    }
+  };
+
+  const handlePrintReport = () => {
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(buildDowntimeReportHTML(report, breakdowns, criticalWithoutBackup, getHospitalInfo(selectedHospital)));
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const renderGroupTable = (title: string, groups: EquipmentUptimeGroup[]) => (
+    <Paper sx={{ p: 2, height: '100%' }}>
+      <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>{title}</Typography>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{title.replace('By ', '')}</TableCell>
+              <TableCell align="right">Equipment</TableCell>
+              <TableCell align="right">Breakdowns</TableCell>
+              <TableCell align="right">Downtime (hrs)</TableCell>
+              <TableCell align="right">Uptime</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {groups.map(g => (
+              <TableRow key={g.key}>
+                <TableCell>{g.key}</TableCell>
+                <TableCell align="right">{g.equipmentCount}</TableCell>
+                <TableCell align="right">{g.breakdowns}</TableCell>
+                <TableCell align="right">{g.downtimeHours}</TableCell>
+                <TableCell align="right" sx={{ color: uptimeColor(g.uptimePercent), fontWeight: 600 }}>{g.uptimePercent}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Equipment Breakdowns & Uptime
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Breakdowns from report to restoration. Downtime counts the hours each equipment was out of service in the month.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            select
+            size="small"
+            label="Month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            sx={{ minWidth: 170 }}
+          >
+            {MONTH_OPTIONS.map(m => <MenuItem key={m.value} value={m.value}>{m.label}</MenuItem>)}
+          </TextField>
+          <Button variant="outlined" startIcon={<Icon>print</Icon>} onClick={handlePrintReport}>
+            Downtime Report
+          </Button>
+          {canEdit && (
+            <Button variant="contained" startIcon={<Icon>add</Icon>} onClick={() => handleOpenForm()}>
+              Log Breakdown
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {/* Summary */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Uptime', value: `${report.totals.uptimePercent}%`, color: uptimeColor(report.totals.uptimePercent), icon: 'speed' },
+          { label: 'Currently Down', value: openBreakdowns.length, color: 'error.main', icon: 'build' },
+          { label: 'Breakdowns', value: report.totals.breakdowns, color: 'warning.main', icon: 'report_problem' },
+          { label: 'Mean Repair Time', value: report.meanRepairHours !== null ? `${report.meanRepairHours} h` : '-', color: 'primary.main', icon: 'timer' },
+        ].map(card => (
+          <Grid key={card.label} size={{ xs: 12, sm: 6, md: 3 }}>
+            <Paper sx={{ p: 2, borderTop: 4, borderColor: card.color }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Icon sx={{ color: card.color }}>{card.icon}</Icon>
+                <Typography variant="subtitle1" fontWeight={600}>{card.label}</Typography>
+              </Box>
+              <Typography variant="h4" fontWeight={700}>{card.value}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Paper sx={{ mb: 3 }}>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+          <Tab label={`Breakdown Log (${monthBreakdowns.length})`} />
+          <Tab label="Uptime" />
+          <Tab label={`Critical Without Backup (${criticalWithoutBackup.length})`} />
+        </Tabs>
+
+        {/* Breakdown log */}
+        {tab === 0 && (monthBreakdowns.length === 0 ? (
+          <Alert severity="info" sx={{ m: 2 }}>No breakdowns in this month.</Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Equipment</TableCell>
+                  <TableCell>Fault</TableCell>
+                  <TableCell>Reported</TableCell>
+                  <TableCell>Vendor Called</TableCell>
+                  <TableCell>Restored</TableCell>
+                  <TableCell align="right">Cost</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {monthBreakdowns.map(b => (
+                  <TableRow key={b.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{b.equipment_name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{b.equipment_tag}</Typography>
+                    </TableCell>
+                    <TableCell sx={{ maxWidth: 260 }}>{b.fault_description}</TableCell>
+                    <TableCell>
+                      {formatDateTime(b.reported_at)}
+                      <Typography variant="caption" display="block" color="text.secondary">{b.reported_by}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      {formatDateTime(b.vendor_called_at)}
+                      {b.vendor && <Typography variant="caption" display="block" color="text.secondary">{b.vendor}</Typography>}
+                    </TableCell>
+                    <TableCell>
+                      {b.restored_at ? formatDateTime(b.restored_at) : <Chip size="small" color="error" label="Down" />}
+                    </TableCell>
+                    <TableCell align="right">{b.repair_cost ? formatCost(b.repair_cost) : '-'}</TableCell>
+                    <TableCell align="right">
+                      {canEdit && (
+                        <>
+                          <Tooltip title="Edit">
+                            <IconButton size="small" onClick={() => handleOpenForm(b)}><Icon fontSize="small">edit</Icon></IconButton>
+                          </Tooltip>
+                          <Tooltip title="Delete">
+                            <IconButton size="small" onClick={() => handleDelete(b)}><Icon fontSize="small">delete</Icon></IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        ))}
+
+        {/* Uptime */}
+        {tab === 1 && (
+          <Box sx={{ p: 2 }}>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid size={{ xs: 12, md: 6 }}>{renderGroupTable('By Department', report.departments)}</Grid>
+              <Grid size={{ xs: 12, md: 6 }}>{renderGroupTable('By Category', report.categories)}</Grid>
+            </Grid>
+            <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 1 }}>By Equipment</Typography>
+            <TableContainer sx={{ maxHeight: 480 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Equipment</TableCell>
+                    <TableCell>Department</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell align="right">Breakdowns</TableCell>
+                    <TableCell align="right">Downtime (hrs)</TableCell>
+                    <TableCell align="right">Uptime</TableCell>
+                    <TableCell align="right">Repair Cost</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.equipment.map(e => (
+                    <TableRow key={e.equipmentId} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={500}>
+                          {e.name} {e.critical && <Chip size="small" variant="outlined" label="Critical" sx={{ ml: 0.5 }} />}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">{e.equipmentTag}</Typography>
+                      </TableCell>
+                      <TableCell>{e.department}</TableCell>
+                      <TableCell>{e.category}</TableCell>
+                      <TableCell align="right">{e.breakdowns}</TableCell>
+                      <TableCell align="right">{e.downtimeHours}</TableCell>
+                      <TableCell align="right" sx={{ color: uptimeColor(e.uptimePercent), fontWeight: 600 }}>{e.uptimePercent}%</TableCell>
+                      <TableCell align="right">{formatCost(e.repairCost)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+
+        {/* Critical equipment without backup */}
+        {tab === 2 && (
+          <Box sx={{ p: 2 }}>
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Critical equipment with no backup: a breakdown of any of these stops the service. Plan a backup, a rental arrangement or a vendor response agreement.
+            </Alert>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Equipment</TableCell>
+                    <TableCell>Department / Location</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {criticalWithoutBackup.map(eq => (
+                    <TableRow key={eq.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={500}>{eq.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">{eq.equipmentTag}</Typography>
+                      </TableCell>
+                      <TableCell>{eq.department} - {eq.location}</TableCell>
+                      <TableCell>{eq.category}</TableCell>
+                      <TableCell>
+                        {isEquipmentDown(breakdowns, eq.id)
+                          ? <Chip size="small" color="error" label="Down" />
+                          : <Chip size="small" variant="outlined" label={eq.status} />}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+      </Paper>
+
+      {/* Breakdown dialog */}
+      <Dialog open={!!form} onClose={() => setForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Update Breakdown' : 'Log Breakdown'}</DialogTitle>
+        {form && (
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <Autocomplete
+                options={equipmentMaster.filter(eq => eq.status !== 'Decommissioned')}
+                value={equipmentMaster.find(eq => eq.id === form.equipment_id) || null}
+                onChange={(_, value) => setForm({ ...form, equipment_id: value?.id || '' })}
+                getOptionLabel={(eq) => `${eq.equipmentTag} - ${eq.name} (${eq.location})`}
+                disabled={!!editing}
+                renderInput={(params) => <TextField {...params} label="Equipment" required />}
+              />
+              <Box display="flex" gap={2}>
+                <TextField
+                  label="Reported at"
+                  type="datetime-local"
+                  fullWidth
+                  required
+                  value={form.reported_at}
+                  onChange={(e) => setForm({ ...form, reported_at: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="Reported by"
+                  fullWidth
+                  required
+                  value={form.reported_by}
+                  onChange={(e) => setForm({ ...form, reported_by: e.target.value })}
+                />
+              </Box>
+              <TextField
+                label="Fault"
+                multiline
+                rows={2}
+                required
+                value={form.fault_description}
+                onChange={(e) => setForm({ ...form, fault_description: e.target.value })}
+              />
+              <Box display="flex" gap={2}>
+                <TextField
+                  label="Vendor / service engineer"
+                  fullWidth
+                  value={form.vendor}
+                  onChange={(e) => setForm({ ...form, vendor: e.target.value })}
+                />
+                <TextField
+                  label="Vendor called at"
+                  type="datetime-local"
+                  fullWidth
+                  value={form.vendor_called_at}
+                  onChange={(e) => setForm({ ...form, vendor_called_at: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Box>
+              <Box display="flex" gap={2}>
+                <TextField
+                  label="Restored at"
+                  type="datetime-local"
+                  fullWidth
+                  value={form.restored_at}
+                  onChange={(e) => setForm({ ...form, restored_at: e.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  helperText="Leave empty while the equipment is down"
+                />
+                <TextField
+                  label="Repair cost (₹)"
+                  type="number"
+                  fullWidth
+                  value={form.repair_cost}
+                  onChange={(e) => setForm({ ...form, repair_cost: e.target.value })}
+                  inputProps={{ min: 0 }}
+                />
+              </Box>
+              <TextField
+                label="Action taken"
+                multiline
+                rows={2}
+                value={form.action_taken}
+                onChange={(e) => setForm({ ...form, action_taken: e.target.value })}
+              />
+              {formError && <Alert severity="warning">{formError}</Alert>}
+            </Box>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || !!formError}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
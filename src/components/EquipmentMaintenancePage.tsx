@@ -0,0 +1,605 @@
+import { useState, useEffect, useMemo } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Autocomplete from '@mui/material/Autocomplete';
+import Snackbar from '@mui/material/Snackbar';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import { equipmentMaster, type Equipment } from '../data/equipmentMaster';
+import {
+  closeEquipmentJobCard,
+  createEquipmentJobCards,
+  loadEquipmentJobCards,
+  loadEquipmentServiceSchedules,
+  saveEquipmentServiceSchedule,
+  updateEquipmentJobCard,
+} from '../services/equipmentServiceStorage';
+import {
+  JOB_CARD_LEAD_DAYS,
+  SERVICE_FREQUENCY_MONTHS,
+  buildJobCard,
+  buildServiceHistoryHTML,
+  getJobCardClosureError,
+  getNextDueDate,
+  getScheduleDefaults,
+  getSchedulesDueForJobCards,
+  getServiceHistory,
+  isJobCardOverdue,
+  isScheduleOverdue,
+} from '../services/equipmentServiceEngine';
+import type {
+  EquipmentJobCard,
+  EquipmentJobCardClosure,
+  EquipmentJobCardStatus,
+  EquipmentServiceFrequency,
+  EquipmentServiceSchedule,
+  EquipmentServiceScheduleInput,
+  EquipmentServiceType,
+} from '../types/equipmentService';
+
+const SERVICE_TYPES: EquipmentServiceType[] = ['Calibration', 'Preventive Maintenance'];
+const FREQUENCIES = Object.keys(SERVICE_FREQUENCY_MONTHS) as EquipmentServiceFrequency[];
+
+const STATUS_COLORS: Record<EquipmentJobCardStatus, 'warning' | 'success' | 'default'> = {
+  'Open': 'warning',
+  'Completed': 'success',
+  'Cancelled': 'default',
+};
+
+const formatDate = (date: string | null | undefined) =>
+  date ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '-';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const activeEquipment = equipmentMaster.filter(eq => eq.status !== 'Decommissioned');
+
+export default function EquipmentMaintenancePage() {
+  const { selectedHospital } = useNABHStore();
+  const canEdit = useCapability('edit_content');
+
+  const [schedules, setSchedules] = useState<EquipmentServiceSchedule[]>([]);
+  const [jobCards, setJobCards] = useState<EquipmentJobCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<EquipmentJobCardStatus | 'All'>('Open');
+  const [generating, setGenerating] = useState(false);
+  const [snackbar, setSnackbar] = useState<string | null>(null);
+
+  // Schedule dialog
+  const [scheduleForm, setScheduleForm] = useState<EquipmentServiceScheduleInput | null>(null);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+
+  // Closure dialog
+  const [closingCard, setClosingCard] = useState<EquipmentJobCard | null>(null);
+  const [closure, setClosure] = useState<EquipmentJobCardClosure>({ completed_date: '', performed_by: '', certificate_number: '', notes: '' });
+  const [closing, setClosing] = useState(false);
+
+  // Service history
+  const [historyTag, setHistoryTag] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const [scheduleResult, cardResult] = await Promise.all([
+        loadEquipmentServiceSchedules(selectedHospital),
+        loadEquipmentJobCards(selectedHospital),
+      ]);
+      if (scheduleResult.success && cardResult.success) {
+        setSchedules(scheduleResult.data || []);
+        setJobCards(cardResult.data || []);
+        setError(null);
+      } else {
+        setError(scheduleResult.error || cardResult.error || 'Failed to load equipment schedules');
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, [selectedHospital]);
+
+  const equipmentByTag = useMemo(() => new Map(equipmentMaster.map(eq => [eq.equipmentTag, eq])), []);
+  const dueSchedules = useMemo(() => getSchedulesDueForJobCards(schedules, jobCards), [schedules, jobCards]);
+
+  const summary = useMemo(() => ({
+    scheduled: new Set(schedules.map(s => s.equipment_tag)).size,
+    overdue: schedules.filter(s => isScheduleOverdue(s)).length,
+    open: jobCards.filter(c => c.status === 'Open').length,
+    completed: jobCards.filter(c => c.status === 'Completed').length,
+  }), [schedules, jobCards]);
+
+  const filteredCards = statusFilter === 'All' ? jobCards : jobCards.filter(c => c.status === statusFilter);
+  const historyEquipment = historyTag ? equipmentByTag.get(historyTag) : undefined;
+  const history = historyTag ? getServiceHistory(jobCards, historyTag) : [];
+
+  const findSchedule = (tag: string, type: EquipmentServiceType) =>
+    schedules.find(s => s.equipment_tag === tag && s.service_type === type);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    const cards = dueSchedules
+      .filter(s => equipmentByTag.has(s.equipment_tag))
+      .map(s => buildJobCard(s, equipmentByTag.get(s.equipment_tag)!));
+    const result = await createEquipmentJobCards(cards);
+    setGenerating(false);
+
+    if (result.success) {
+      const created = result.data || [];
+      setJobCards(prev => [...created, ...prev].sort((a, b) => b.due_date.localeCompare(a.due_date)));
+      setSnackbar(`${created.length} job card${created.length === 1 ? '' : 's'} raised`);
+    } else {
+      setError(result.error || 'Failed to raise job cards');
+    }
+  };
+
+  const handleOpenSchedule = (equipment: Equipment, serviceType: EquipmentServiceType) => {
+    const existing = findSchedule(equipment.equipmentTag, serviceType);
+    setScheduleForm({
+      hospital_id: selectedHospital,
+      equipment_id: equipment.id,
+      equipment_tag: equipment.equipmentTag,
+      service_type: serviceType,
+      ...(existing
+        ? { frequency: existing.frequency, last_done_date: existing.last_done_date, next_due_date: existing.next_due_date, vendor: existing.vendor }
+        : getScheduleDefaults(equipment, serviceType)),
+    });
+  };
+
+  const updateScheduleForm = (updates: Partial<EquipmentServiceScheduleInput>) => {
+    setScheduleForm(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, ...updates };
+      // Changing the last done date or frequency recomputes the next due date
+      if (('last_done_date' in updates || 'frequency' in updates) && next.last_done_date) {
+        next.next_due_date = getNextDueDate(next.last_done_date, next.frequency);
+      }
+      return next;
+    });
+  };
+
+  const handleSaveSchedule = async () => {
+    if (!scheduleForm) return;
+    setSavingSchedule(true);
+    const result = await saveEquipmentServiceSchedule({
+      ...scheduleForm,
+      last_done_date: scheduleForm.last_done_date || null,
+      next_due_date: scheduleForm.next_due_date || null,
+      vendor: scheduleForm.vendor?.trim() || null,
+    });
+    setSavingSchedule(false);
+
+    if (result.success && result.data) {
+      const saved = result.data;
+      setSchedules(prev => [...prev.filter(s => s.id !== saved.id), saved]);
+      setScheduleForm(null);
+      setSnackbar('Schedule saved');
+    } else {
+      setError(result.error || 'Failed to save schedule');
+    }
+  };
+
+  const handleOpenClose = (card: EquipmentJobCard) => {
+    setClosingCard(card);
+    setClosure({ completed_date: today(), performed_by: card.assigned_to || '', certificate_number: '', notes: '' });
+  };
+
+  const handleClose = async () => {
+    if (!closingCard) return;
+    const schedule = schedules.find(s => s.id === closingCard.schedule_id);
+    if (!schedule) {
+      setError('Schedule for this job card no longer exists');
+      return;
+    }
+
+    setClosing(true);
+    const result = await closeEquipmentJobCard(closingCard, schedule, closure);
+    setClosing(false);
+
+    if (result.success && result.data) {
+      const { card, schedule: rolled } = result.data;
+      setJobCards(prev => prev.map(c => (c.id === card.id ? card : c)));
+      setSchedules(prev => prev.map(s => (s.id === rolled.id ? rolled : s)));
+      setClosingCard(null);
+      setSnackbar(rolled.next_due_date ? `Job card closed. Next due ${formatDate(rolled.next_due_date)}` : 'Job card closed');
+    } else {
+      setError(result.error || 'Failed to close job card');
+    }
+  };
+
+  const handleCancelCard = async (card: EquipmentJobCard) => {
+    if (!window.confirm(`Cancel job card ${card.job_number}?`)) return;
+    const result = await updateEquipmentJobCard(card.id, { status: 'Cancelled' });
+    if (result.success && result.data) {
+      const updated = result.data;
+      setJobCards(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    } else {
+      setError(result.error || 'Failed to cancel job card');
+    }
+  };
+
+  const handlePrintHistory = () => {
+    if (!historyEquipment) return;
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(buildServiceHistoryHTML(historyEquipment, schedules, history, getHospitalInfo(selectedHospital)));
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const closureError = closingCard ? getJobCardClosureError(closingCard, closure) : null;
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Calibration & Preventive Maintenance
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Job cards are raised {JOB_CARD_LEAD_DAYS} days before a service is due. Closing a card with its certificate / report number rolls the schedule forward.
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button
+            variant="contained"
+            startIcon={generating ? <CircularProgress size={18} color="inherit" /> : <Icon>assignment_add</Icon>}
+            onClick={handleGenerate}
+            disabled={generating || dueSchedules.length === 0}
+          >
+            Raise Job Cards ({dueSchedules.length} due)
+          </Button>
+        )}
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {/* Summary */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {[
+          { label: 'Equipment Scheduled', value: summary.scheduled, color: 'primary.main', icon: 'precision_manufacturing' },
+          { label: 'Overdue Services', value: summary.overdue, color: 'error.main', icon: 'event_busy' },
+          { label: 'Open Job Cards', value: summary.open, color: 'warning.main', icon: 'pending_actions' },
+          { label: 'Services Completed', value: summary.completed, color: 'success.main', icon: 'task_alt' },
+        ].map(card => (
+          <Grid key={card.label} size={{ xs: 12, sm: 6, md: 3 }}>
+            <Paper sx={{ p: 2, borderTop: 4, borderColor: card.color }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Icon sx={{ color: card.color }}>{card.icon}</Icon>
+                <Typography variant="subtitle1" fontWeight={600}>{card.label}</Typography>
+              </Box>
+              <Typography variant="h4" fontWeight={700}>{card.value}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Paper>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+          <Tab label="Job Cards" />
+          <Tab label="Schedules" />
+          <Tab label="Service History" />
+        </Tabs>
+
+        {/* Job cards */}
+        {tab === 0 && (
+          <Box sx={{ p: 2 }}>
+            <TextField
+              select
+              size="small"
+              label="Status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as EquipmentJobCardStatus | 'All')}
+              sx={{ minWidth: 160, mb: 2 }}
+            >
+              {(['Open', 'Completed', 'Cancelled', 'All'] as const).map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+            </TextField>
+            {filteredCards.length === 0 ? (
+              <Alert severity="info">No job cards{statusFilter !== 'All' ? ` with status ${statusFilter}` : ''}.</Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Job Card</TableCell>
+                      <TableCell>Equipment</TableCell>
+                      <TableCell>Service</TableCell>
+                      <TableCell>Due</TableCell>
+                      <TableCell>Assigned To</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell align="right">Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {filteredCards.map(card => (
+                      <TableRow key={card.id} hover>
+                        <TableCell>{card.job_number}</TableCell>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight={500}>{card.equipment_name}</Typography>
+                          <Typography variant="caption" color="text.secondary">{card.equipment_tag}</Typography>
+                        </TableCell>
+                        <TableCell>{card.service_type}</TableCell>
+                        <TableCell sx={{ color: isJobCardOverdue(card) ? 'error.main' : undefined, fontWeight: isJobCardOverdue(card) ? 600 : undefined }}>
+                          {formatDate(card.due_date)}
+                        </TableCell>
+                        <TableCell>{card.assigned_to || '-'}</TableCell>
+                        <TableCell>
+                          <Chip size="small" color={STATUS_COLORS[card.status]} label={card.status} />
+                          {card.status === 'Completed' && (
+                            <Typography variant="caption" display="block" color="text.secondary">
+                              {formatDate(card.completed_date)}{card.certificate_number ? ` · ${card.certificate_number}` : ''}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          {canEdit && card.status === 'Open' && (
+                            <>
+                              <Button size="small" startIcon={<Icon>task_alt</Icon>} onClick={() => handleOpenClose(card)}>
+                                Close
+                              </Button>
+                              <Button size="small" color="inherit" onClick={() => handleCancelCard(card)}>
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Box>
+        )}
+
+        {/* Schedules */}
+        {tab === 1 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Equipment</TableCell>
+                  <TableCell>Location</TableCell>
+                  {SERVICE_TYPES.map(type => <TableCell key={type}>{type}</TableCell>)}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {activeEquipment.map(eq => (
+                  <TableRow key={eq.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{eq.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{eq.equipmentTag}</Typography>
+                    </TableCell>
+                    <TableCell>{eq.department} - {eq.location}</TableCell>
+                    {SERVICE_TYPES.map(type => {
+                      const schedule = findSchedule(eq.equipmentTag, type);
+                      return (
+                        <TableCell key={type}>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            {schedule ? (
+                              <Box>
+                                <Typography
+                                  variant="body2"
+                                  color={isScheduleOverdue(schedule) ? 'error.main' : undefined}
+                                  fontWeight={isScheduleOverdue(schedule) ? 600 : undefined}
+                                >
+                                  {schedule.next_due_date ? `Due ${formatDate(schedule.next_due_date)}` : 'As required'}
+                                </Typography>
+                                <Typography variant="caption" color="text.secondary">
+                                  {schedule.frequency}{schedule.vendor ? ` · ${schedule.vendor}` : ''}
+                                </Typography>
+                              </Box>
+                            ) : (
+                              <Typography variant="body2" color="text.secondary">Not scheduled</Typography>
+                            )}
+                            {canEdit && (
+                              <Button size="small" onClick={() => handleOpenSchedule(eq, type)}>
+                                {schedule ? 'Edit' : 'Set'}
+                              </Button>
+                            )}
+                          </Box>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Service history */}
+        {tab === 2 && (
+          <Box sx={{ p: 2 }}>
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+              <Autocomplete
+                options={equipmentMaster.map(eq => eq.equipmentTag)}
+                value={historyTag}
+                onChange={(_, value) => setHistoryTag(value)}
+                getOptionLabel={(tag) => `${tag} - ${equipmentByTag.get(tag)?.name || ''}`}
+                renderInput={(params) => <TextField {...params} size="small" label="Equipment tag" />}
+                sx={{ flex: 1, maxWidth: 520 }}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<Icon>print</Icon>}
+                onClick={handlePrintHistory}
+                disabled={!historyEquipment}
+              >
+                Print Service History
+              </Button>
+            </Box>
+            {historyTag && (history.length === 0 ? (
+              <Alert severity="info">No completed services recorded for {historyTag}.</Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Job Card</TableCell>
+                      <TableCell>Service</TableCell>
+                      <TableCell>Due</TableCell>
+                      <TableCell>Done</TableCell>
+                      <TableCell>Performed By</TableCell>
+                      <TableCell>Certificate / Report No.</TableCell>
+                      <TableCell>Notes</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {history.map(card => (
+                      <TableRow key={card.id}>
+                        <TableCell>{card.job_number}</TableCell>
+                        <TableCell>{card.service_type}</TableCell>
+                        <TableCell>{formatDate(card.due_date)}</TableCell>
+                        <TableCell>{formatDate(card.completed_date)}</TableCell>
+                        <TableCell>{card.performed_by || '-'}</TableCell>
+                        <TableCell>{card.certificate_number || '-'}</TableCell>
+                        <TableCell>{card.notes || ''}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            ))}
+          </Box>
+        )}
+      </Paper>
+
+      {/* Schedule dialog */}
+      <Dialog open={!!scheduleForm} onClose={() => setScheduleForm(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{scheduleForm?.service_type} Schedule - {scheduleForm?.equipment_tag}</DialogTitle>
+        {scheduleForm && (
+          <DialogContent>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <TextField
+                select
+                label="Frequency"
+                value={scheduleForm.frequency}
+                onChange={(e) => updateScheduleForm({ frequency: e.target.value as EquipmentServiceFrequency })}
+              >
+                {FREQUENCIES.map(f => <MenuItem key={f} value={f}>{f}</MenuItem>)}
+              </TextField>
+              <Box display="flex" gap={2}>
+                <TextField
+                  label="Last done"
+                  type="date"
+                  fullWidth
+                  value={scheduleForm.last_done_date || ''}
+                  onChange={(e) => updateScheduleForm({ last_done_date: e.target.value || null })}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="Next due"
+                  type="date"
+                  fullWidth
+                  value={scheduleForm.next_due_date || ''}
+                  onChange={(e) => updateScheduleForm({ next_due_date: e.target.value || null })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Box>
+              <TextField
+                label={scheduleForm.service_type === 'Calibration' ? 'Calibration agency' : 'Service engineer / vendor'}
+                value={scheduleForm.vendor || ''}
+                onChange={(e) => updateScheduleForm({ vendor: e.target.value })}
+              />
+            </Box>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setScheduleForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveSchedule} disabled={savingSchedule}>
+            {savingSchedule ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Closure dialog */}
+      <Dialog open={!!closingCard} onClose={() => setClosingCard(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Close Job Card {closingCard?.job_number}</DialogTitle>
+        {closingCard && (
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {closingCard.service_type} of {closingCard.equipment_name} ({closingCard.equipment_tag}), due {formatDate(closingCard.due_date)}
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Box display="flex" gap={2}>
+                <TextField
+                  label="Completed on"
+                  type="date"
+                  fullWidth
+                  required
+                  value={closure.completed_date}
+                  onChange={(e) => setClosure(prev => ({ ...prev, completed_date: e.target.value }))}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="Performed by"
+                  fullWidth
+                  required
+                  value={closure.performed_by}
+                  onChange={(e) => setClosure(prev => ({ ...prev, performed_by: e.target.value }))}
+                />
+              </Box>
+              <TextField
+                label={closingCard.service_type === 'Calibration' ? 'Calibration certificate number' : 'Service report number'}
+                required={closingCard.service_type === 'Calibration'}
+                value={closure.certificate_number}
+                onChange={(e) => setClosure(prev => ({ ...prev, certificate_number: e.target.value }))}
+              />
+              <TextField
+                label="Notes"
+                multiline
+                rows={3}
+                value={closure.notes}
+                onChange={(e) => setClosure(prev => ({ ...prev, notes: e.target.value }))}
+              />
+              {closureError && <Alert severity="warning">{closureError}</Alert>}
+            </Box>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setClosingCard(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleClose} disabled={closing || !!closureError}>
+            {closing ? 'Closing...' : 'Close Job Card'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={!!snackbar}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar(null)}
+        message={snackbar}
+      />
+    </Box>
+  );
+}
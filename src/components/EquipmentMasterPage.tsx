@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   Box,
   Typography,
@@ -42,7 +42,8 @@ import {
   LocationOn,
   Close,
   Edit,
-  Delete
+  Delete,
+  QrCode2
 } from '@mui/icons-material';
 import {
   equipmentMaster,
@@ -54,6 +55,14 @@ import {
   type EquipmentStatus,
   type EquipmentCompliance
 } from '../data/equipmentMaster';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import QRCode from 'qrcode';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import { loadEquipmentServiceSchedules } from '../services/equipmentServiceStorage';
+import { deriveEquipmentCompliance } from '../services/equipmentServiceEngine';
+import { buildQRLabelSheetHTML, getEquipmentPublicUrl, getEquipmentServiceSummary } from '../services/equipmentTagEngine';
+import type { EquipmentServiceSchedule } from '../types/equipmentService';
 
 /**
  * Equipment Master Page Component
@@ -77,6 +86,7 @@ const initialFormState = {
 };
 
 const EquipmentMasterPage: React.FC = () => {
+  const canEdit = useCapability('edit_content');
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<EquipmentCategory | 'All'>('All');
   const [statusFilter, setStatusFilter] = useState<EquipmentStatus | 'All'>('All');
@@ -86,6 +96,22 @@ const EquipmentMasterPage: React.FC = () => {
 
   // Local equipment list (can be modified)
   const [localEquipment, setLocalEquipment] = useState(equipmentMaster);
+  const { selectedHospital } = useNABHStore();
+  const [serviceSchedules, setServiceSchedules] = useState<EquipmentServiceSchedule[]>([]);
+  const [printingLabels, setPrintingLabels] = useState(false);
+
+  // Overdue calibration / PM schedules mark the equipment 'Calibration Due' / 'Maintenance Due'
+  useEffect(() => {
+    const applyServiceSchedules = async () => {
+      const result = await loadEquipmentServiceSchedules(selectedHospital);
+      if (result.success && result.data && result.data.length > 0) {
+        const schedules = result.data;
+        setServiceSchedules(schedules);
+        setLocalEquipment(prev => prev.map(eq => ({ ...eq, compliance: deriveEquipmentCompliance(eq, schedules) })));
+      }
+    };
+    applyServiceSchedules();
+  }, [selectedHospital]);
 
   // Add Equipment dialog state
   const [openAddDialog, setOpenAddDialog] = useState(false);
@@ -178,7 +204,7 @@ const EquipmentMasterPage: React.FC = () => {
     }
 
     return filtered;
-  }, [searchTerm, categoryFilter, statusFilter, complianceFilter, departmentFilter, showCriticalOnly]);
+  }, [localEquipment, searchTerm, categoryFilter, statusFilter, complianceFilter, departmentFilter, showCriticalOnly]);
 
   // Handle export to CSV
   const handleExport = () => {
@@ -198,6 +224,30 @@ const EquipmentMasterPage: React.FC = () => {
     document.body.removeChild(link);
   };
 
+  // Print QR labels for the equipment in the current filter; a scanned label opens the public equipment page
+  const handlePrintQRLabels = async () => {
+    // Open the window before generating the codes so the popup is not blocked
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    setPrintingLabels(true);
+    try {
+      const labels = await Promise.all(filteredEquipment.map(async equipment => ({
+        equipment,
+        qrDataUrl: await QRCode.toDataURL(getEquipmentPublicUrl(equipment.equipmentTag, window.location.origin), { margin: 1, width: 240 }),
+        nextCalibration: getEquipmentServiceSummary(equipment, serviceSchedules).nextCalibration,
+      })));
+      printWindow.document.write(buildQRLabelSheetHTML(labels, getHospitalInfo(selectedHospital)));
+      printWindow.document.close();
+      printWindow.print();
+    } catch (error) {
+      printWindow.close();
+      setSnackbar({ open: true, message: `Failed to generate QR labels: ${error instanceof Error ? error.message : 'Unknown error'}`, severity: 'error' });
+    } finally {
+      setPrintingLabels(false);
+    }
+  };
+
   // Get status display properties
   const getStatusDisplay = (status: string) => {
     switch (status) {
@@ -403,13 +453,24 @@ const EquipmentMasterPage: React.FC = () => {
               Export for Audit
             </Button>
             <Button
-              variant="contained"
-              startIcon={<Add />}
+              variant="outlined"
+              startIcon={printingLabels ? <CircularProgress size={18} /> : <QrCode2 />}
+              onClick={handlePrintQRLabels}
+              disabled={printingLabels || filteredEquipment.length === 0}
               size="large"
-              onClick={handleOpenAddDialog}
             >
-              Add Equipment
+              QR Labels ({filteredEquipment.length})
             </Button>
+            {canEdit && (
+              <Button
+                variant="contained"
+                startIcon={<Add />}
+                size="large"
+                onClick={handleOpenAddDialog}
+              >
+                Add Equipment
+              </Button>
+            )}
           </Box>
         </Box>
 
@@ -751,24 +812,28 @@ const EquipmentMasterPage: React.FC = () => {
                   </Box>
 
                   <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
-                    <Tooltip title="Edit Equipment">
-                      <IconButton
-                        size="small"
-                        color="primary"
-                        onClick={() => handleOpenEditDialog(equipment)}
-                      >
-                        <Edit fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="Delete Equipment">
-                      <IconButton
-                        size="small"
-                        color="error"
-                        onClick={() => handleDeleteEquipment(equipment.id)}
-                      >
-                        <Delete fontSize="small" />
-                      </IconButton>
-                    </Tooltip>
+                    {canEdit && (
+                      <>
+                        <Tooltip title="Edit Equipment">
+                          <IconButton
+                            size="small"
+                            color="primary"
+                            onClick={() => handleOpenEditDialog(equipment)}
+                          >
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete Equipment">
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleDeleteEquipment(equipment.id)}
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    )}
                     <Button size="small" color="primary" onClick={() => handleViewDetails(equipment)}>
                       View Details
                     </Button>
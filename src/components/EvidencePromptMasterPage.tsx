@@ -23,6 +23,7 @@ import {
   ContentCopy as CopyIcon,
   Assignment as AssignmentIcon,
 } from '@mui/icons-material';
+import { NABH_EVIDENCE_MASTER_PROMPT } from '../data/builtinPrompts';
 
 interface EvidencePrompt {
   id: string;
@@ -40,63 +41,7 @@ const defaultPrompts: EvidencePrompt[] = [
     id: 'nabh-evidence-master',
     title: 'NABH Evidence Generation Master',
     description: 'Comprehensive prompt for generating NABH Third Edition compliant evidence documents',
-    prompt: `You are an AI coding agent responsible for generating NABH Third Edition compliant evidence documents for Hope Hospital. Follow these mandatory requirements:
-
-📋 REGISTER & DOCUMENTATION REQUIREMENTS
-
-1. MINIMUM ROW REQUIREMENT
-- Every register evidence MUST contain at least 20 rows of data
-- No register should be shown with less than 20 entries
-- If showing patient registers, ensure 20+ patient entries
-- If showing equipment registers, ensure 20+ equipment entries
-
-2. PATIENT DATA REQUIREMENTS
-- Every patient mention MUST include correct unique patient ID
-- Format: "Patient ID: HH-2024-XXXX" or similar hospital format
-- Include admission date (DD/MM/YYYY format)
-- Include discharge date where applicable (DD/MM/YYYY format)
-- Patient names should be realistic Indian names
-- Age, gender, department details must be consistent
-
-3. MANDATORY STAFF NAMES
-- These names MUST appear in ALL documents:
-  - Sonali (Clinical Audit Coordinator)
-  - Gaurav (NABH Coordination Lead) 
-  - Shiraz (Quality Coordinator & SOP Admin)
-- Rotate their appearances across different roles/signatures
-- Include proper designations with names
-
-4. DATE REQUIREMENTS
-- Date of creation: Set to approximately 1 month prior to current date
-- Review dates: Staggered within the past month
-- Approval dates: Within past 30 days
-- Next review dates: Set 3-6 months from creation date
-- Use DD/MM/YYYY format consistently
-
-📊 FORM & EVIDENCE REQUIREMENTS
-
-5. FILLED FORMS MANDATE
-- NO blank forms allowed as evidence
-- Every field must be completed with realistic data
-- Signatures, dates, and approvals must be present
-- Cross-references between forms must be accurate
-
-6. MULTIPLE FORMS RULE
-- Minimum 5-6 filled forms per evidence category
-- Single form is NEVER sufficient evidence
-- Show variety in dates, departments, staff involved
-- Demonstrate ongoing compliance, not one-time activity
-
-🎯 DATA SOURCE REQUIREMENTS
-All evidence data MUST be sourced from these masters:
-- Consultant Master (Dr. Murali BK, Dr. Ruby Ammon, Dr. Shiraz, Dr. Sachin, etc.)
-- Department Master (Emergency, Orthopedics, Surgery, Internal Medicine, etc.)
-- Staff Master (Sonali, Gaurav, Shiraz, K J Shashank, Diksha, etc.)
-- Equipment Master (Crash carts, Ventilators, Monitoring equipment, etc.)
-- Services Master (Emergency, Surgical, Diagnostic, Laboratory services, etc.)
-
-🚨 CRITICAL SUCCESS FACTORS
-This evidence generation is for NABH AUDIT FEB 13-14, 2026. Every piece of evidence must be audit-ready, professional, demonstrating active compliance, and meeting all technical requirements.`,
+    prompt: NABH_EVIDENCE_MASTER_PROMPT,
     category: 'NABH Compliance',
     tags: ['NABH', 'Evidence Generation', 'Audit', 'Third Edition'],
     createdAt: '2026-02-03',
@@ -13,6 +13,8 @@ import MenuItem from '@mui/material/MenuItem';
 import { useState } from 'react';
 import { useNABHStore } from '../store/nabhStore';
 import { HOSPITALS, getHospitalInfo } from '../config/hospitalConfig';
+import NotificationCenter from './NotificationCenter';
+import UserMenu from './UserMenu';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -118,6 +120,8 @@ export default function Header({ onMenuClick }: HeaderProps) {
 
         <Box sx={{ flexGrow: 1 }} />
 
+        <NotificationCenter />
+
         {/* Mobile Search Icon */}
         <Tooltip title="Global Search">
           <IconButton
@@ -195,6 +199,8 @@ export default function Header({ onMenuClick }: HeaderProps) {
             SHCO 3rd Edition
           </Typography>
         </Box>
+
+        <UserMenu />
       </Toolbar>
     </AppBar>
   );
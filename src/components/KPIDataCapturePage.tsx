@@ -0,0 +1,566 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import CircularProgress from '@mui/material/CircularProgress';
+import LinearProgress from '@mui/material/LinearProgress';
+import * as XLSX from 'xlsx';
+import { useNABHStore } from '../store/nabhStore';
+import { useAuthStore } from '../store/authStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import { NABH_KPIS, getKPIById } from '../data/kpiData';
+import { departmentsMaster } from '../data/departmentsMaster';
+import {
+  buildKPIImportTemplateRows,
+  computeKPIValue,
+  getKPIFormulaTerms,
+  parseKPIImportRows,
+  validateKPIMeasurement,
+} from '../services/kpiMeasurementEngine';
+import {
+  loadKPIMeasurements,
+  loadKPIMeasurementAudit,
+  saveKPIMeasurements,
+} from '../services/kpiMeasurementStorage';
+import type {
+  KPIImportRow,
+  KPIMeasurement,
+  KPIMeasurementAuditEntry,
+  KPIMeasurementInput,
+} from '../types/kpiMeasurement';
+
+interface CaptureDraft {
+  numerator: string;
+  denominator: string;
+  department: string;
+  remarks: string;
+}
+
+const EMPTY_DRAFT: CaptureDraft = { numerator: '', denominator: '', department: '', remarks: '' };
+
+const AUDIT_ACTION_COLORS: Record<KPIMeasurementAuditEntry['action'], 'success' | 'info' | 'error'> = {
+  created: 'success',
+  updated: 'info',
+  deleted: 'error',
+};
+
+// Data for a month is normally captured in the following month
+const getPreviousMonth = (): string => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+const toDraft = (measurement: KPIMeasurement | undefined): CaptureDraft => measurement
+  ? {
+    numerator: String(measurement.numerator_value),
+    denominator: String(measurement.denominator_value),
+    department: measurement.department || '',
+    remarks: measurement.remarks || '',
+  }
+  : EMPTY_DRAFT;
+
+const loadCaptureData = async (hospitalId: string) => {
+  const [measurementResult, auditResult] = await Promise.all([
+    loadKPIMeasurements(hospitalId),
+    loadKPIMeasurementAudit(hospitalId),
+  ]);
+  return {
+    measurements: measurementResult.data || [],
+    auditTrail: auditResult.data || [],
+    error: measurementResult.success ? null : measurementResult.error || 'Failed to load KPI data',
+  };
+};
+
+export default function KPIDataCapturePage() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+  // Captured data is recorded under the signed-in user
+  const enteredBy = useAuthStore(state => state.user?.name) || '';
+  const hospital = getHospitalInfo(selectedHospital);
+
+  const [month, setMonth] = useState(getPreviousMonth());
+  const [measurements, setMeasurements] = useState<KPIMeasurement[]>([]);
+  const [auditTrail, setAuditTrail] = useState<KPIMeasurementAuditEntry[]>([]);
+  const [edits, setEdits] = useState<Record<string, CaptureDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [tab, setTab] = useState(0);
+  const [importRows, setImportRows] = useState<KPIImportRow[] | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyCaptureData = (data: Awaited<ReturnType<typeof loadCaptureData>>) => {
+    setMeasurements(data.measurements);
+    setAuditTrail(data.auditTrail);
+    setLoadError(data.error);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      applyCaptureData(await loadCaptureData(selectedHospital));
+      setEdits({});
+      setLoading(false);
+    };
+    fetchData();
+  }, [selectedHospital]);
+
+  const monthMeasurements = useMemo(() => {
+    const byKPI: Record<string, KPIMeasurement> = {};
+    measurements.filter(m => m.month === month).forEach(m => { byKPI[m.kpi_id] = m; });
+    return byKPI;
+  }, [measurements, month]);
+
+  // Unedited rows show what is stored for the month
+  const drafts = useMemo(() => Object.fromEntries(NABH_KPIS.map(kpi =>
+    [kpi.id, edits[kpi.id] || toDraft(monthMeasurements[kpi.id])]
+  )), [edits, monthMeasurements]);
+
+  const changedInputs = useMemo(() => NABH_KPIS.flatMap((kpi): KPIMeasurementInput[] => {
+    const draft = drafts[kpi.id];
+    if (!draft || (draft.numerator === '' && draft.denominator === '')) return [];
+    const stored = toDraft(monthMeasurements[kpi.id]);
+    if (JSON.stringify(stored) === JSON.stringify(draft)) return [];
+    return [{
+      kpiId: kpi.id,
+      month,
+      numerator: draft.numerator === '' ? NaN : Number(draft.numerator),
+      denominator: draft.denominator === '' ? NaN : Number(draft.denominator),
+      department: draft.department || undefined,
+      remarks: draft.remarks || undefined,
+    }];
+  }), [drafts, monthMeasurements, month]);
+
+  const inputErrors = useMemo(() => Object.fromEntries(changedInputs.map(input => [
+    input.kpiId,
+    validateKPIMeasurement(getKPIById(input.kpiId)!, input.month, input.numerator, input.denominator),
+  ])), [changedInputs]);
+
+  const capturedCount = Object.keys(monthMeasurements).length;
+  const hasInputErrors = Object.values(inputErrors).some(Boolean);
+
+  const updateDraft = (kpiId: string, field: keyof CaptureDraft, value: string) => {
+    setEdits(prev => ({ ...prev, [kpiId]: { ...drafts[kpiId], [field]: value } }));
+  };
+
+  const showSnackbar = (message: string, severity: 'success' | 'error') => {
+    setSnackbar({ open: true, message, severity });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveKPIMeasurements(selectedHospital, changedInputs, 'manual');
+    applyCaptureData(await loadCaptureData(selectedHospital));
+    setIsSaving(false);
+    if (result.success) {
+      showSnackbar(`Saved ${result.data.length} KPI value(s) for ${formatMonth(month)}`, 'success');
+    } else {
+      showSnackbar(result.errors.join('; '), 'error');
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const ws = XLSX.utils.json_to_sheet(buildKPIImportTemplateRows(month, measurements));
+    ws['!cols'] = [{ wch: 8 }, { wch: 32 }, { wch: 10 }, { wch: 12 }, { wch: 12 }, { wch: 24 }, { wch: 40 }];
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'KPI Data');
+    XLSX.writeFile(wb, `${hospital.id}_kpi_data_${month}.xlsx`);
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' });
+      // Template rows left blank are not entries
+      const filled = rows.filter(row => Object.entries(row).some(([key, cell]) =>
+        /numerator|denominator/i.test(key) && String(cell).trim() !== ''));
+      setImportFileName(file.name);
+      setImportRows(parseKPIImportRows(filled));
+    } catch (error) {
+      console.error('Error reading KPI import file:', error);
+      showSnackbar('Could not read the Excel file', 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importRows) return;
+    const inputs = importRows.flatMap(row => (row.input ? [row.input] : []));
+    setIsSaving(true);
+    const result = await saveKPIMeasurements(selectedHospital, inputs, 'excel');
+    applyCaptureData(await loadCaptureData(selectedHospital));
+    setIsSaving(false);
+    setImportRows(null);
+    if (result.success) {
+      showSnackbar(`Imported ${result.data.length} KPI value(s) from ${importFileName}`, 'success');
+    } else {
+      showSnackbar(`Imported ${result.data.length}; failed: ${result.errors.join('; ')}`, 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const validImportRows = importRows?.filter(row => row.input).length || 0;
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            KPI Data Capture
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Monthly numerators and denominators for the 16 NABH KPIs at {hospital.name}. Values are computed from each KPI formula.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button variant="outlined" startIcon={<Icon>download</Icon>} onClick={handleDownloadTemplate}>
+            Excel Template
+          </Button>
+          <Button variant="outlined" startIcon={<Icon>upload_file</Icon>} onClick={() => fileInputRef.current?.click()}>
+            Import Excel
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".xlsx,.xls,.csv" hidden onChange={handleFileSelect} />
+        </Box>
+      </Box>
+
+      {loadError && <Alert severity="error" sx={{ mb: 3 }}>{loadError}</Alert>}
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid size={{ xs: 12, md: 3 }}>
+          <TextField
+            fullWidth
+            type="month"
+            label="Month"
+            value={month}
+            onChange={(e) => {
+              setMonth(e.target.value);
+              setEdits({});
+            }}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, md: 5 }}>
+          <TextField
+            fullWidth
+            label="Entered by"
+            value={enteredBy}
+            helperText="Saved values and the audit trail record your login"
+            slotProps={{ input: { readOnly: true } }}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, md: 4 }}>
+          <Paper sx={{ p: 1.5 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography variant="body2" color="text.secondary">Captured for {formatMonth(month)}</Typography>
+              <Typography variant="body2" fontWeight={600}>{capturedCount}/{NABH_KPIS.length}</Typography>
+            </Box>
+            <LinearProgress variant="determinate" value={(capturedCount / NABH_KPIS.length) * 100} sx={{ height: 6, borderRadius: 3 }} />
+          </Paper>
+        </Grid>
+      </Grid>
+
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab label="Monthly Capture" />
+        <Tab label={`Audit Trail (${auditTrail.length})`} />
+      </Tabs>
+
+      {tab === 0 && (
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>KPI</TableCell>
+                  <TableCell sx={{ minWidth: 150 }}>Numerator</TableCell>
+                  <TableCell sx={{ minWidth: 150 }}>Denominator</TableCell>
+                  <TableCell align="right">Value</TableCell>
+                  <TableCell sx={{ minWidth: 180 }}>Department</TableCell>
+                  <TableCell sx={{ minWidth: 180 }}>Remarks</TableCell>
+                  <TableCell>Entered</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {NABH_KPIS.map(kpi => {
+                  const draft = drafts[kpi.id] || EMPTY_DRAFT;
+                  const terms = getKPIFormulaTerms(kpi);
+                  const value = draft.numerator !== '' && draft.denominator !== ''
+                    ? computeKPIValue(kpi, Number(draft.numerator), Number(draft.denominator))
+                    : null;
+                  const error = inputErrors[kpi.id];
+                  const stored = monthMeasurements[kpi.id];
+
+                  return (
+                    <TableRow key={kpi.id} hover>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Chip label={kpi.number} size="small" />
+                          <Box>
+                            <Typography
+                              variant="body2"
+                              fontWeight={500}
+                              sx={{ cursor: 'pointer', '&:hover': { textDecoration: 'underline' } }}
+                              onClick={() => navigate(`/kpi/${kpi.id}`)}
+                            >
+                              {kpi.shortName}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">{kpi.formula}</Typography>
+                          </Box>
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Tooltip title={terms.numerator}>
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={draft.numerator}
+                            onChange={(e) => updateDraft(kpi.id, 'numerator', e.target.value)}
+                            error={!!error}
+                            slotProps={{ htmlInput: { min: 0 } }}
+                          />
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell>
+                        <Tooltip title={terms.denominator}>
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={draft.denominator}
+                            onChange={(e) => updateDraft(kpi.id, 'denominator', e.target.value)}
+                            error={!!error}
+                            slotProps={{ htmlInput: { min: 0 } }}
+                          />
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        {error ? (
+                          <Typography variant="caption" color="error">{error}</Typography>
+                        ) : (
+                          <>
+                            <Typography variant="body2" fontWeight={600}>{value ?? '-'}</Typography>
+                            <Typography variant="caption" color="text.secondary">{kpi.unit}</Typography>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          select
+                          size="small"
+                          fullWidth
+                          value={draft.department}
+                          onChange={(e) => updateDraft(kpi.id, 'department', e.target.value)}
+                        >
+                          <MenuItem value=""><em>Not specified</em></MenuItem>
+                          {departmentsMaster.map(department => (
+                            <MenuItem key={department.id} value={department.name}>{department.name}</MenuItem>
+                          ))}
+                        </TextField>
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          fullWidth
+                          value={draft.remarks}
+                          onChange={(e) => updateDraft(kpi.id, 'remarks', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        {stored ? (
+                          <Tooltip title={`${stored.source === 'excel' ? 'Excel import' : 'Manual entry'} on ${new Date(stored.updated_at).toLocaleString('en-IN')}`}>
+                            <Chip size="small" color="success" variant="outlined" icon={<Icon fontSize="small">check</Icon>} label={stored.entered_by} />
+                          </Tooltip>
+                        ) : (
+                          <Typography variant="caption" color="text.secondary">Pending</Typography>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 2, p: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              {changedInputs.length} unsaved change(s)
+            </Typography>
+            <Button
+              variant="contained"
+              startIcon={isSaving ? <CircularProgress size={20} /> : <Icon>save</Icon>}
+              onClick={handleSave}
+              disabled={isSaving || changedInputs.length === 0 || hasInputErrors}
+            >
+              Save {formatMonth(month)}
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {tab === 1 && (
+        <Paper>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>When</TableCell>
+                  <TableCell>KPI</TableCell>
+                  <TableCell>Month</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Before (num / den = value)</TableCell>
+                  <TableCell>After (num / den = value)</TableCell>
+                  <TableCell>Source</TableCell>
+                  <TableCell>By</TableCell>
+                  <TableCell>Reason</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {auditTrail.map(entry => {
+                  const kpi = getKPIById(entry.kpi_id);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(entry.created_at).toLocaleString('en-IN')}</TableCell>
+                      <TableCell>{kpi ? `${kpi.number}. ${kpi.shortName}` : entry.kpi_id}</TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{entry.month}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={entry.action} color={AUDIT_ACTION_COLORS[entry.action]} />
+                      </TableCell>
+                      <TableCell>
+                        {entry.old_value === null ? '-' : `${entry.old_numerator} / ${entry.old_denominator} = ${entry.old_value}`}
+                      </TableCell>
+                      <TableCell>
+                        {entry.new_value === null ? '-' : `${entry.new_numerator} / ${entry.new_denominator} = ${entry.new_value}`}
+                      </TableCell>
+                      <TableCell>{entry.source === 'excel' ? 'Excel' : 'Manual'}</TableCell>
+                      <TableCell>{entry.changed_by}</TableCell>
+                      <TableCell>{entry.reason || '-'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                {auditTrail.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} align="center">
+                      <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+                        No KPI data has been entered yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      {/* Excel import preview */}
+      <Dialog open={importRows !== null} onClose={() => setImportRows(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Import KPI Data - {importFileName}</DialogTitle>
+        <DialogContent>
+          {importRows && importRows.length === 0 ? (
+            <Alert severity="warning">No rows with a numerator or denominator were found.</Alert>
+          ) : (
+            <>
+              <Alert severity={validImportRows === importRows?.length ? 'success' : 'warning'} sx={{ mb: 2 }}>
+                {validImportRows} of {importRows?.length} row(s) are valid. Rows with errors are skipped.
+                Existing months are updated and the change is recorded in the audit trail.
+              </Alert>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Row</TableCell>
+                      <TableCell>KPI</TableCell>
+                      <TableCell>Month</TableCell>
+                      <TableCell align="right">Numerator</TableCell>
+                      <TableCell align="right">Denominator</TableCell>
+                      <TableCell align="right">Value</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {importRows?.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        {row.input ? (
+                          <>
+                            <TableCell>{getKPIById(row.input.kpiId)?.shortName}</TableCell>
+                            <TableCell>{row.input.month}</TableCell>
+                            <TableCell align="right">{row.input.numerator}</TableCell>
+                            <TableCell align="right">{row.input.denominator}</TableCell>
+                            <TableCell align="right">{row.value}</TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={5}>
+                            <Typography variant="body2" color="error">{row.error}</Typography>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportRows(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={isSaving || validImportRows === 0}
+            startIcon={isSaving ? <CircularProgress size={20} /> : <Icon>upload</Icon>}
+          >
+            Import {validImportRows} Row(s)
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={6000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Box from '@mui/material/Box';
 import Paper from '@mui/material/Paper';
@@ -17,6 +17,7 @@ import TableContainer from '@mui/material/TableContainer';
 import TableHead from '@mui/material/TableHead';
 import TableRow from '@mui/material/TableRow';
 import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
 import Dialog from '@mui/material/Dialog';
 import DialogTitle from '@mui/material/DialogTitle';
 import DialogContent from '@mui/material/DialogContent';
@@ -37,10 +38,28 @@ import { NABH_KPIS, NABH_KPI_CATEGORIES, getKPIById, generateSampleKPIData } fro
 import type { KPIDefinition } from '../data/kpiData';
 import { getHospitalInfo } from '../config/hospitalConfig';
 import { useNABHStore } from '../store/nabhStore';
+import { useAuthStore, useCapability } from '../store/authStore';
 import { saveKPIGraph, loadKPIGraphHistory, restoreKPIGraph, deleteKPIGraph } from '../services/kpiStorage';
 import type { KPIGraphRecord } from '../services/kpiStorage';
 import { processKPIEditPrompt, getQuickPresets, getKPISamplePrompts } from '../services/kpiAIService';
 import type { QuickPreset } from '../services/kpiAIService';
+import { loadKPIMeasurements, saveKPIMeasurement, deleteKPIMeasurement } from '../services/kpiMeasurementStorage';
+import {
+  computeKPIValue,
+  getKPIFormulaTerms,
+  hasSimulatedKPIData,
+  isRealKPIEntry,
+  measurementsToKPIData,
+  validateKPIMeasurement,
+} from '../services/kpiMeasurementEngine';
+import { drawSimulatedWatermark } from '../services/kpiDataGenerator';
+import type { KPIMeasurement } from '../types/kpiMeasurement';
+import { computeSPC, getDefaultSPCChartType, SPC_CHART_LABELS } from '../services/spcEngine';
+import { drawSPCChart } from '../utils/spcChart';
+import type { SPCChartType } from '../types/spc';
+import PatientSamplingDialog from './PatientSamplingDialog';
+import { loadPatientSamples } from '../services/patientSampleStorage';
+import type { PatientSample } from '../types/patientSample';
 
 interface KPIDataEntry {
   month: string;
@@ -49,6 +68,7 @@ interface KPIDataEntry {
   numeratorValue?: number;
   denominatorValue?: number;
   remarks?: string;
+  isSimulated?: boolean;
 }
 
 interface TabPanelProps {
@@ -70,18 +90,20 @@ export default function KPIDetailPage() {
   const { kpiId } = useParams<{ kpiId: string }>();
   const navigate = useNavigate();
   const { selectedHospital } = useNABHStore();
+  const canEdit = useCapability('edit_content');
+  // Captured data is recorded under the signed-in user
+  const enteredBy = useAuthStore(state => state.user?.name) || '';
   const hospitalConfig = getHospitalInfo(selectedHospital);
   
   const [kpi, setKpi] = useState<KPIDefinition | null>(null);
   const [tabValue, setTabValue] = useState(0);
   const [kpiData, setKpiData] = useState<KPIDataEntry[]>([]);
   const [isAddEntryDialogOpen, setIsAddEntryDialogOpen] = useState(false);
-  const [newEntry, setNewEntry] = useState<KPIDataEntry>({
+  const [measurements, setMeasurements] = useState<KPIMeasurement[]>([]);
+  const [newEntry, setNewEntry] = useState({
     month: new Date().toISOString().slice(0, 7),
-    value: 0,
-    target: 0,
-    numeratorValue: 0,
-    denominatorValue: 0,
+    numerator: '',
+    denominator: '',
     remarks: ''
   });
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
@@ -96,13 +118,15 @@ export default function KPIDetailPage() {
   const [quickPresets, setQuickPresets] = useState<QuickPreset[]>([]);
   const [samplePrompts, setSamplePrompts] = useState<string[]>([]);
   const [lastAIModification, setLastAIModification] = useState<string | null>(null);
+  const [chartType, setChartType] = useState<'trend' | SPCChartType>('trend');
+  const [patientSamples, setPatientSamples] = useState<PatientSample[]>([]);
+  const [isSamplingOpen, setIsSamplingOpen] = useState(false);
 
   useEffect(() => {
     if (kpiId) {
       const foundKpi = getKPIById(kpiId);
       if (foundKpi) {
         setKpi(foundKpi);
-        setNewEntry(prev => ({ ...prev, target: foundKpi.suggestedTarget }));
 
         // Initialize quick presets and sample prompts
         setQuickPresets(getQuickPresets(foundKpi));
@@ -111,13 +135,33 @@ export default function KPIDetailPage() {
         // Load saved data or generate sample data
         const savedData = localStorage.getItem(`kpi_data_${kpiId}`);
         if (savedData) {
-          setKpiData(JSON.parse(savedData));
+          // Cached entries are only trusted as captured data once reloaded from Supabase
+          setKpiData((JSON.parse(savedData) as KPIDataEntry[]).map(entry => ({ ...entry, isSimulated: true })));
         } else {
           // Generate sample data for demonstration
           const sampleData = generateSampleKPIData(kpiId, 12);
           setKpiData(sampleData);
         }
 
+        // Captured numerators / denominators replace any simulated data
+        setMeasurements([]);
+        loadKPIMeasurements(selectedHospital, kpiId).then(result => {
+          if (result.success && result.data && result.data.length > 0) {
+            setMeasurements(result.data);
+            setKpiData(measurementsToKPIData(result.data));
+          }
+        });
+
+        // Patient file samples drawn for KPIs measured on a sample
+        setPatientSamples([]);
+        if (foundKpi.sampling) {
+          loadPatientSamples('kpi', kpiId).then(result => {
+            if (result.success && result.data) {
+              setPatientSamples(result.data);
+            }
+          });
+        }
+
         // Load graph history from Supabase
         loadKPIGraphHistory(kpiId).then(result => {
           if (result.success && result.data) {
@@ -126,7 +170,7 @@ export default function KPIDetailPage() {
         });
       }
     }
-  }, [kpiId]);
+  }, [kpiId, selectedHospital]);
 
   useEffect(() => {
     if (kpiId && kpiData.length > 0) {
@@ -134,6 +178,11 @@ export default function KPIDetailPage() {
     }
   }, [kpiData, kpiId]);
 
+  const spcResult = useMemo(
+    () => (kpi && chartType !== 'trend' ? computeSPC(kpi, kpiData, chartType) : null),
+    [kpi, kpiData, chartType]
+  );
+
   // Draw chart
   useEffect(() => {
     if (chartRef.current && kpiData.length > 0 && kpi && tabValue === 0) {
@@ -143,7 +192,7 @@ export default function KPIDetailPage() {
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [kpiData, kpi, tabValue]);
+  }, [kpiData, kpi, tabValue, spcResult]);
 
   const drawChart = (forceWidth?: number, forceHeight?: number) => {
     if (!chartRef.current || !kpi || kpiData.length === 0) return;
@@ -163,6 +212,15 @@ export default function KPIDetailPage() {
     canvas.width = width * dpr;
     canvas.height = height * dpr;
     ctx.scale(dpr, dpr);
+
+    if (spcResult && !spcResult.error) {
+      drawSPCChart(ctx, width, height, kpi, spcResult);
+      if (hasSimulatedKPIData(kpiData)) {
+        drawSimulatedWatermark(ctx, width, height);
+      }
+      return;
+    }
+
     const padding = { top: 40, right: 40, bottom: 60, left: 60 };
     const chartWidth = width - padding.left - padding.right;
     const chartHeight = height - padding.top - padding.bottom;
@@ -301,55 +359,63 @@ export default function KPIDetailPage() {
     ctx.rotate(-Math.PI / 2);
     ctx.fillText(kpi.unit, 0, 0);
     ctx.restore();
+
+    if (hasSimulatedKPIData(kpiData)) {
+      drawSimulatedWatermark(ctx, width, height);
+    }
   };
 
-  const handleAddEntry = () => {
+  const handleAddEntry = async () => {
     if (!kpi) return;
 
-    // Calculate value from numerator/denominator if provided
-    let calculatedValue = newEntry.value;
-    if (newEntry.numeratorValue && newEntry.denominatorValue && newEntry.denominatorValue > 0) {
-      if (kpi.unit === 'Percentage') {
-        calculatedValue = (newEntry.numeratorValue / newEntry.denominatorValue) * 100;
-      } else if (kpi.unit.includes('1000')) {
-        calculatedValue = (newEntry.numeratorValue / newEntry.denominatorValue) * 1000;
-      } else if (kpi.unit.includes('100')) {
-        calculatedValue = (newEntry.numeratorValue / newEntry.denominatorValue) * 100;
-      } else {
-        calculatedValue = newEntry.numeratorValue / newEntry.denominatorValue;
-      }
-      calculatedValue = Math.round(calculatedValue * 100) / 100;
-    }
-
-    const entry: KPIDataEntry = {
+    const result = await saveKPIMeasurement(selectedHospital, {
+      kpiId: kpi.id,
       month: newEntry.month,
-      value: calculatedValue,
-      target: newEntry.target || kpi.suggestedTarget,
-      numeratorValue: newEntry.numeratorValue,
-      denominatorValue: newEntry.denominatorValue,
-      remarks: newEntry.remarks
-    };
+      numerator: Number(newEntry.numerator),
+      denominator: Number(newEntry.denominator),
+      remarks: newEntry.remarks || undefined,
+    }, 'manual');
+
+    if (!result.success || !result.data) {
+      setSnackbar({ open: true, message: result.error || 'Failed to save data entry', severity: 'error' });
+      return;
+    }
 
-    setKpiData(prev => {
-      const filtered = prev.filter(d => d.month !== entry.month);
-      return [...filtered, entry].sort((a, b) => a.month.localeCompare(b.month));
-    });
+    const updated = [...measurements.filter(m => m.id !== result.data!.id), result.data];
+    setMeasurements(updated);
+    setKpiData(measurementsToKPIData(updated));
 
     setIsAddEntryDialogOpen(false);
     setNewEntry({
       month: new Date().toISOString().slice(0, 7),
-      value: 0,
-      target: kpi.suggestedTarget,
-      numeratorValue: 0,
-      denominatorValue: 0,
+      numerator: '',
+      denominator: '',
       remarks: ''
     });
-    setSnackbar({ open: true, message: 'Data entry added successfully', severity: 'success' });
+    setSnackbar({ open: true, message: 'Data entry saved', severity: 'success' });
   };
 
-  const handleDeleteEntry = (month: string) => {
-    setKpiData(prev => prev.filter(d => d.month !== month));
-    setSnackbar({ open: true, message: 'Entry deleted', severity: 'success' });
+  const handleDeleteEntry = async (entry: KPIDataEntry) => {
+    const measurement = isRealKPIEntry(entry) ? measurements.find(m => m.month === entry.month) : undefined;
+
+    if (!measurement) {
+      setKpiData(prev => prev.filter(d => d.month !== entry.month));
+      setSnackbar({ open: true, message: 'Entry deleted', severity: 'success' });
+      return;
+    }
+
+    const reason = prompt(`Reason for deleting the ${entry.month} data (kept in the audit trail):`);
+    if (!reason) return;
+
+    const result = await deleteKPIMeasurement(measurement, reason);
+    if (result.success) {
+      const updated = measurements.filter(m => m.id !== measurement.id);
+      setMeasurements(updated);
+      setKpiData(measurementsToKPIData(updated));
+      setSnackbar({ open: true, message: 'Entry deleted', severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: result.error || 'Failed to delete entry', severity: 'error' });
+    }
   };
 
   const getPerformanceStatus = (value: number, target: number) => {
@@ -386,6 +452,7 @@ export default function KPIDetailPage() {
   const generateReport = () => {
     if (!kpi) return;
 
+    const simulated = hasSimulatedKPIData(kpiData);
     const latest = getLatestEntry();
     const trend = calculateTrend();
     const status = latest ? getPerformanceStatus(latest.value, latest.target) : null;
@@ -412,9 +479,11 @@ export default function KPIDetailPage() {
           .formula-box { background: #f0f7ff; padding: 15px; border-radius: 8px; margin: 10px 0; }
           .footer { margin-top: 30px; text-align: center; font-size: 10px; color: #666; border-top: 1px solid #ddd; padding-top: 10px; }
           .stamp { border: 2px solid #1565C0; padding: 10px; text-align: center; width: 200px; margin: 20px auto; }
+          .simulated { border: 2px solid #D32F2F; color: #D32F2F; font-weight: bold; text-align: center; padding: 8px; margin-bottom: 20px; }
         </style>
       </head>
       <body>
+        ${simulated ? '<div class="simulated">SIMULATED DATA - NOT FOR USE AS NABH EVIDENCE</div>' : ''}
         <div class="header">
           <div class="hospital-name">${hospitalConfig.name}</div>
           <div style="font-size: 12px;">${hospitalConfig.address}</div>
@@ -461,6 +530,8 @@ export default function KPIDetailPage() {
           <table>
             <tr>
               <th>Month</th>
+              <th>Numerator</th>
+              <th>Denominator</th>
               <th>Value</th>
               <th>Target</th>
               <th>Status</th>
@@ -471,6 +542,8 @@ export default function KPIDetailPage() {
               return `
                 <tr>
                   <td>${new Date(d.month + '-01').toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</td>
+                  <td>${isRealKPIEntry(d) ? d.numeratorValue : '-'}</td>
+                  <td>${isRealKPIEntry(d) ? d.denominatorValue : '-'}</td>
                   <td>${d.value.toFixed(2)}</td>
                   <td>${d.target}</td>
                   <td class="status-${s.status}">${s.label}</td>
@@ -604,6 +677,7 @@ export default function KPIDetailPage() {
               <div class="hospital-name">${hospitalConfig.name}</div>
               <div style="font-size: 12px;">${hospitalConfig.address}</div>
               <div class="kpi-name">KPI ${kpi.number}: ${kpi.name}</div>
+              ${hasSimulatedKPIData(kpiData) ? '<div style="color: #D32F2F; font-weight: bold; margin-top: 8px;">SIMULATED DATA - NOT FOR USE AS NABH EVIDENCE</div>' : ''}
             </div>
 
             <div class="stats-row">
@@ -673,7 +747,8 @@ export default function KPIDetailPage() {
         dataUrl,
         kpiData,
         lastAIModification || undefined,
-        lastAIModification ? 'AI Modified' : undefined
+        lastAIModification ? 'AI Modified' : undefined,
+        spcResult && !spcResult.error ? { chartType: spcResult.chartType, signals: spcResult.signals } : undefined
       );
 
       if (result.success) {
@@ -704,7 +779,7 @@ export default function KPIDetailPage() {
       const result = await processKPIEditPrompt(aiPrompt, kpiData, kpi);
 
       if (result.success && result.modifiedData) {
-        setKpiData(result.modifiedData);
+        setKpiData(result.modifiedData.map(entry => ({ ...entry, isSimulated: true })));
         setLastAIModification(aiPrompt);
         setSnackbar({
           open: true,
@@ -736,7 +811,7 @@ export default function KPIDetailPage() {
       const result = await processKPIEditPrompt(preset.prompt, kpiData, kpi);
 
       if (result.success && result.modifiedData) {
-        setKpiData(result.modifiedData);
+        setKpiData(result.modifiedData.map(entry => ({ ...entry, isSimulated: true })));
         setLastAIModification(`Quick Preset: ${preset.label}`);
         setSnackbar({
           open: true,
@@ -818,6 +893,11 @@ export default function KPIDetailPage() {
   }
 
   const category = NABH_KPI_CATEGORIES.find(c => c.id === kpi.category);
+  const formulaTerms = getKPIFormulaTerms(kpi);
+  const newEntryError = newEntry.numerator === '' || newEntry.denominator === ''
+    ? 'Enter both the numerator and the denominator'
+    : validateKPIMeasurement(kpi, newEntry.month, Number(newEntry.numerator), Number(newEntry.denominator));
+  const newEntryValue = newEntryError ? null : computeKPIValue(kpi, Number(newEntry.numerator), Number(newEntry.denominator));
   const latest = getLatestEntry();
   const status = latest ? getPerformanceStatus(latest.value, latest.target) : null;
   const trend = calculateTrend();
@@ -853,26 +933,45 @@ export default function KPIDetailPage() {
               History ({graphHistory.length})
             </Button>
           </Tooltip>
-          <Button
-            variant="outlined"
-            startIcon={isSaving ? <CircularProgress size={20} /> : <Icon>cloud_upload</Icon>}
-            onClick={handleSaveGraph}
-            disabled={isSaving}
-          >
-            {isSaving ? 'Saving...' : 'Save Graph'}
-          </Button>
+          {canEdit && (
+            <Button
+              variant="outlined"
+              startIcon={isSaving ? <CircularProgress size={20} /> : <Icon>cloud_upload</Icon>}
+              onClick={handleSaveGraph}
+              disabled={isSaving}
+            >
+              {isSaving ? 'Saving...' : 'Save Graph'}
+            </Button>
+          )}
           <Button variant="outlined" startIcon={<Icon>print</Icon>} onClick={printChart}>
             Print
           </Button>
           <Button variant="outlined" startIcon={<Icon>download</Icon>} onClick={generateReport}>
             Report
           </Button>
-          <Button variant="contained" startIcon={<Icon>add</Icon>} onClick={() => setIsAddEntryDialogOpen(true)}>
-            Add Data
-          </Button>
+          {canEdit && (
+            <Button variant="contained" startIcon={<Icon>add</Icon>} onClick={() => setIsAddEntryDialogOpen(true)}>
+              Add Data
+            </Button>
+          )}
         </Box>
       </Box>
 
+      {hasSimulatedKPIData(kpiData) && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 3 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => navigate('/kpi-capture')}>
+              Capture Data
+            </Button>
+          }
+        >
+          <strong>Simulated data.</strong> This chart includes generated or AI-modified values and is watermarked; it is not evidence.
+          Enter the monthly numerator and denominator to replace it with captured data.
+        </Alert>
+      )}
+
       {/* Stats Cards */}
       <Grid container spacing={2} sx={{ mb: 3 }}>
         <Grid size={{ xs: 6, md: 3 }}>
@@ -951,6 +1050,42 @@ export default function KPIDetailPage() {
       {/* Tab Panels */}
       <TabPanel value={tabValue} index={0}>
         <Paper sx={{ p: 3, minHeight: 450 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+            <TextField
+              select
+              size="small"
+              label="Chart"
+              value={chartType}
+              onChange={(e) => setChartType(e.target.value as 'trend' | SPCChartType)}
+              sx={{ minWidth: 240 }}
+            >
+              <MenuItem value="trend">Trend vs Target</MenuItem>
+              {(Object.keys(SPC_CHART_LABELS) as SPCChartType[]).map(type => (
+                <MenuItem key={type} value={type}>
+                  {SPC_CHART_LABELS[type]}
+                  {type === getDefaultSPCChartType(kpi) ? ' (recommended)' : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+            {spcResult && !spcResult.error && (
+              <Chip
+                icon={<Icon>{spcResult.signals.length > 0 ? 'warning' : 'check_circle'}</Icon>}
+                label={spcResult.signals.length > 0
+                  ? `Out of control: ${spcResult.signals.length} signal${spcResult.signals.length === 1 ? '' : 's'}`
+                  : 'In statistical control'}
+                color={spcResult.signals.length > 0 ? 'error' : 'success'}
+                size="small"
+              />
+            )}
+          </Box>
+          {spcResult?.error && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {spcResult.error}. Showing the trend chart instead.
+            </Alert>
+          )}
+          {spcResult?.warning && (
+            <Alert severity="info" sx={{ mb: 2 }}>{spcResult.warning}</Alert>
+          )}
           <canvas
             ref={chartRef}
             id="kpi-chart-canvas"
@@ -962,6 +1097,30 @@ export default function KPIDetailPage() {
               backgroundColor: '#fafafa'
             }}
           />
+          {spcResult && !spcResult.error && (
+            <Box sx={{ mt: 2 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Special-cause signals
+              </Typography>
+              {spcResult.signals.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No points beyond the control limits, runs of 8 or trends of 6. Variation is common-cause.
+                </Typography>
+              ) : (
+                <List dense disablePadding>
+                  {spcResult.signals.map((signal, index) => (
+                    <ListItem key={`${signal.rule}-${signal.months[0]}`} disableGutters>
+                      <Chip label={index + 1} size="small" color="error" sx={{ mr: 1.5, minWidth: 32 }} />
+                      <ListItemText
+                        primary={signal.description}
+                        secondary={signal.rule === 'beyond_limits' ? 'Beyond control limits' : signal.rule === 'run' ? 'Run' : 'Trend'}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </Box>
+          )}
         </Paper>
 
         {/* AI Edit Panel */}
@@ -1039,14 +1198,22 @@ export default function KPIDetailPage() {
 
       <TabPanel value={tabValue} index={1}>
         <Paper>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', p: 2, gap: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              Changes to captured data are recorded in the audit trail under your login{enteredBy ? ` (${enteredBy})` : ''}.
+            </Typography>
+          </Box>
           <TableContainer>
             <Table>
               <TableHead>
                 <TableRow>
                   <TableCell>Month</TableCell>
+                  <TableCell align="right">Numerator</TableCell>
+                  <TableCell align="right">Denominator</TableCell>
                   <TableCell align="right">Value</TableCell>
                   <TableCell align="right">Target</TableCell>
                   <TableCell align="center">Status</TableCell>
+                  <TableCell align="center">Source</TableCell>
                   <TableCell>Remarks</TableCell>
                   <TableCell align="center">Actions</TableCell>
                 </TableRow>
@@ -1054,11 +1221,15 @@ export default function KPIDetailPage() {
               <TableBody>
                 {kpiData.slice().reverse().map((entry) => {
                   const s = getPerformanceStatus(entry.value, entry.target);
+                  const isReal = isRealKPIEntry(entry);
+                  const measurement = isReal ? measurements.find(m => m.month === entry.month) : undefined;
                   return (
                     <TableRow key={entry.month}>
                       <TableCell>
                         {new Date(entry.month + '-01').toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
                       </TableCell>
+                      <TableCell align="right">{isReal ? entry.numeratorValue : '-'}</TableCell>
+                      <TableCell align="right">{isReal ? entry.denominatorValue : '-'}</TableCell>
                       <TableCell align="right">
                         <Typography fontWeight={600}>{entry.value.toFixed(2)} {kpi.unit}</Typography>
                       </TableCell>
@@ -1066,13 +1237,24 @@ export default function KPIDetailPage() {
                       <TableCell align="center">
                         <Chip label={s.label} size="small" color={s.color as any} />
                       </TableCell>
+                      <TableCell align="center">
+                        {isReal ? (
+                          <Tooltip title={measurement ? `Entered by ${measurement.entered_by} (${measurement.source === 'excel' ? 'Excel import' : 'manual'})` : ''}>
+                            <Chip label="Captured" size="small" color="success" variant="outlined" />
+                          </Tooltip>
+                        ) : (
+                          <Chip label="Simulated" size="small" color="warning" variant="outlined" />
+                        )}
+                      </TableCell>
                       <TableCell>{entry.remarks || '-'}</TableCell>
                       <TableCell align="center">
-                        <Tooltip title="Delete">
-                          <IconButton size="small" color="error" onClick={() => handleDeleteEntry(entry.month)}>
-                            <Icon>delete</Icon>
-                          </IconButton>
-                        </Tooltip>
+                        {canEdit && (
+                          <Tooltip title="Delete">
+                            <IconButton size="small" color="error" onClick={() => handleDeleteEntry(entry)}>
+                              <Icon>delete</Icon>
+                            </IconButton>
+                          </Tooltip>
+                        )}
                       </TableCell>
                     </TableRow>
                   );
@@ -1115,6 +1297,33 @@ export default function KPIDetailPage() {
               </Grid>
             )}
           </Grid>
+
+          {kpi.sampling && (
+            <Box sx={{ mt: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="subtitle2">Patient File Samples</Typography>
+                {canEdit && (
+                  <Button size="small" variant="outlined" startIcon={<Icon>casino</Icon>} onClick={() => setIsSamplingOpen(true)}>
+                    Draw Sample
+                  </Button>
+                )}
+              </Box>
+              {patientSamples.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">No samples drawn yet.</Typography>
+              ) : (
+                patientSamples.slice(0, 3).map(sample => (
+                  <Box key={sample.id} sx={{ mb: 1 }}>
+                    <Typography variant="body2">
+                      <strong>{new Date(sample.created_at).toLocaleDateString()}</strong> - {sample.methodology}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {sample.entries.map(e => e.visit_id).join(', ')}
+                    </Typography>
+                  </Box>
+                ))
+              )}
+            </Box>
+          )}
         </Paper>
       </TabPanel>
 
@@ -1210,43 +1419,31 @@ export default function KPIDetailPage() {
               <TextField
                 fullWidth
                 type="number"
-                label={kpi.numerator}
-                value={newEntry.numeratorValue}
-                onChange={(e) => setNewEntry({ ...newEntry, numeratorValue: Number(e.target.value) })}
-                helperText="Numerator value"
+                label={formulaTerms.numerator}
+                value={newEntry.numerator}
+                onChange={(e) => setNewEntry({ ...newEntry, numerator: e.target.value })}
+                helperText={kpi.numerator}
+                required
               />
             </Grid>
             <Grid size={6}>
               <TextField
                 fullWidth
                 type="number"
-                label={kpi.denominator}
-                value={newEntry.denominatorValue}
-                onChange={(e) => setNewEntry({ ...newEntry, denominatorValue: Number(e.target.value) })}
-                helperText="Denominator value"
+                label={formulaTerms.denominator}
+                value={newEntry.denominator}
+                onChange={(e) => setNewEntry({ ...newEntry, denominator: e.target.value })}
+                helperText={kpi.denominator}
+                required
               />
             </Grid>
             <Grid size={12}>
-              <Divider>OR enter calculated value directly</Divider>
-            </Grid>
-            <Grid size={6}>
-              <TextField
-                fullWidth
-                type="number"
-                label={`Value (${kpi.unit})`}
-                value={newEntry.value}
-                onChange={(e) => setNewEntry({ ...newEntry, value: Number(e.target.value) })}
-              />
+              <Alert severity={newEntryError ? 'error' : 'info'} icon={<Icon>calculate</Icon>}>
+                {newEntryError || `${kpi.formula} = ${newEntryValue ?? '-'} ${kpi.unit} (target ${kpi.suggestedTarget})`}
+              </Alert>
             </Grid>
-            <Grid size={6}>
-              <TextField
-                fullWidth
-                type="number"
-                label="Target"
-                value={newEntry.target}
-                onChange={(e) => setNewEntry({ ...newEntry, target: Number(e.target.value) })}
-                helperText={`Default: ${kpi.suggestedTarget}`}
-              />
+            <Grid size={12}>
+              <TextField fullWidth label="Entered by" value={enteredBy} helperText="Your login" slotProps={{ input: { readOnly: true } }} />
             </Grid>
             <Grid size={12}>
               <TextField
@@ -1262,10 +1459,25 @@ export default function KPIDetailPage() {
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setIsAddEntryDialogOpen(false)}>Cancel</Button>
-          <Button variant="contained" onClick={handleAddEntry}>Add Entry</Button>
+          <Button variant="contained" onClick={handleAddEntry} disabled={!!newEntryError}>Save Entry</Button>
         </DialogActions>
       </Dialog>
 
+      {/* Patient file sampling */}
+      {isSamplingOpen && (
+        <PatientSamplingDialog
+          open
+          onClose={() => setIsSamplingOpen(false)}
+          title={kpi.shortName}
+          purpose="kpi"
+          referenceId={kpi.id}
+          onSampleSaved={(sample) => {
+            setPatientSamples(prev => [sample, ...prev]);
+            setSnackbar({ open: true, message: `${sample.sample_size} patient files sampled`, severity: 'success' });
+          }}
+        />
+      )}
+
       {/* Snackbar */}
       <Snackbar
         open={snackbar.open}
@@ -1338,6 +1550,9 @@ export default function KPIDetailPage() {
                           {graph.is_current && (
                             <Chip label="Current" size="small" color="primary" />
                           )}
+                          {graph.chart_type && (
+                            <Chip label={SPC_CHART_LABELS[graph.chart_type]} size="small" variant="outlined" />
+                          )}
                         </Box>
                       }
                       secondary={
@@ -1350,6 +1565,20 @@ export default function KPIDetailPage() {
                           <Typography variant="caption" color="text.secondary">
                             {graph.graph_data?.length || 0} data points
                           </Typography>
+                          {graph.spc_signals && graph.spc_signals.length > 0 && (
+                            <Box sx={{ mt: 0.5 }}>
+                              <Chip
+                                label={`Out of control (${graph.spc_signals.length} signal${graph.spc_signals.length === 1 ? '' : 's'})`}
+                                size="small"
+                                color="error"
+                              />
+                              {graph.spc_signals.map(signal => (
+                                <Typography key={`${signal.rule}-${signal.months[0]}`} variant="caption" component="div" color="error">
+                                  {signal.description}
+                                </Typography>
+                              ))}
+                            </Box>
+                          )}
                         </Box>
                       }
                     />
@@ -1359,7 +1588,7 @@ export default function KPIDetailPage() {
                           <IconButton
                             size="small"
                             onClick={() => handleRestoreGraph(graph)}
-                            disabled={graph.is_current}
+                            disabled={!canEdit || graph.is_current}
                           >
                             <Icon fontSize="small">restore</Icon>
                           </IconButton>
@@ -1369,6 +1598,7 @@ export default function KPIDetailPage() {
                             size="small"
                             color="error"
                             onClick={() => handleDeleteGraph(graph.id)}
+                            disabled={!canEdit}
                           >
                             <Icon fontSize="small">delete</Icon>
                           </IconButton>
@@ -0,0 +1,541 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import LinearProgress from '@mui/material/LinearProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import { ASSIGNEE_OPTIONS } from '../config/hospitalConfig';
+import { NABH_KPIS } from '../data/kpiData';
+import {
+  evaluateKPIBreaches,
+  saveKPIBreachActionPlan,
+  closeKPIBreach,
+} from '../services/kpiBreachStorage';
+import {
+  DEFAULT_BREACH_THRESHOLD,
+  KPI_PERFORMANCE_COLORS,
+  KPI_PERFORMANCE_LABELS,
+  buildKPIScorecard,
+  findMissedStreaks,
+  getBreachClosureError,
+} from '../services/kpiEvaluationEngine';
+import type { KPIBreach, KPIBreachStatus, KPIMonthEvaluation } from '../types/kpiEvaluation';
+
+const BREACH_STATUS_COLORS: Record<KPIBreachStatus, 'error' | 'warning' | 'success'> = {
+  'Open': 'error',
+  'Action Planned': 'warning',
+  'Closed': 'success',
+};
+
+const THRESHOLD_OPTIONS = [2, 3, 4, 6];
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+type BreachDialog = { mode: 'plan' | 'close'; breach: KPIBreach } | null;
+
+export default function KPIScorecardPage() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+  const canEdit = useCapability('edit_content');
+
+  const [threshold, setThreshold] = useState(DEFAULT_BREACH_THRESHOLD);
+  const [evaluations, setEvaluations] = useState<Record<string, KPIMonthEvaluation[]>>({});
+  const [breaches, setBreaches] = useState<KPIBreach[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<KPIBreachStatus | 'all' | 'active'>('active');
+  const [dialog, setDialog] = useState<BreachDialog>(null);
+  const [planForm, setPlanForm] = useState({ root_cause: '', action_plan: '', responsible_person: '', target_date: '' });
+  const [closeForm, setCloseForm] = useState({ closedBy: '', remarks: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' | 'info' });
+
+  useEffect(() => {
+    const runEvaluation = async () => {
+      setLoading(true);
+      const result = await evaluateKPIBreaches(selectedHospital, threshold);
+      if (result.success) {
+        setEvaluations(result.evaluations || {});
+        setBreaches(result.breaches || []);
+        if (result.raised) {
+          setSnackbar({ open: true, message: `${result.raised} new breach${result.raised === 1 ? '' : 'es'} raised`, severity: 'info' });
+        }
+      } else {
+        setSnackbar({ open: true, message: 'Failed to evaluate KPIs', severity: 'error' });
+      }
+      setLoading(false);
+    };
+    runEvaluation();
+  }, [selectedHospital, threshold, reloadKey]);
+
+  const scorecard = useMemo(() => buildKPIScorecard(evaluations, breaches), [evaluations, breaches]);
+
+  const kpiRows = useMemo(() => NABH_KPIS.map(kpi => {
+    const series = evaluations[kpi.id] || [];
+    const latest = series[series.length - 1];
+    const streaks = findMissedStreaks(series);
+    const lastStreak = streaks[streaks.length - 1];
+    const currentMisses = latest && !latest.metTarget && lastStreak ? lastStreak.length : 0;
+    return { kpi, latest, currentMisses };
+  }), [evaluations]);
+
+  const filteredBreaches = useMemo(() => breaches.filter(b =>
+    statusFilter === 'all' || (statusFilter === 'active' ? b.status !== 'Closed' : b.status === statusFilter)
+  ), [breaches, statusFilter]);
+
+  const hasData = Object.keys(evaluations).length > 0;
+
+  const openPlanDialog = (breach: KPIBreach) => {
+    setPlanForm({
+      root_cause: breach.root_cause || '',
+      action_plan: breach.action_plan || '',
+      responsible_person: breach.responsible_person || '',
+      target_date: breach.target_date || '',
+    });
+    setDialog({ mode: 'plan', breach });
+  };
+
+  const openCloseDialog = (breach: KPIBreach) => {
+    setCloseForm({ closedBy: '', remarks: '' });
+    setDialog({ mode: 'close', breach });
+  };
+
+  const replaceBreach = (updated: KPIBreach) => {
+    setBreaches(prev => prev.map(b => (b.id === updated.id ? updated : b)));
+  };
+
+  const handleSavePlan = async () => {
+    if (!dialog) return;
+    setIsSaving(true);
+    const result = await saveKPIBreachActionPlan(dialog.breach, {
+      root_cause: planForm.root_cause.trim(),
+      action_plan: planForm.action_plan.trim(),
+      responsible_person: planForm.responsible_person || null,
+      target_date: planForm.target_date || null,
+    });
+    setIsSaving(false);
+
+    if (result.success && result.data) {
+      replaceBreach(result.data);
+      setDialog(null);
+      setSnackbar({ open: true, message: 'Action plan saved', severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: result.error || 'Failed to save action plan', severity: 'error' });
+    }
+  };
+
+  const handleClose = async () => {
+    if (!dialog) return;
+    setIsSaving(true);
+    const result = await closeKPIBreach(dialog.breach, closeForm.closedBy, closeForm.remarks);
+    setIsSaving(false);
+
+    if (result.success && result.data) {
+      replaceBreach(result.data);
+      setDialog(null);
+      setSnackbar({ open: true, message: `Breach for KPI ${dialog.breach.kpi_number} closed`, severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: result.error || 'Failed to close breach', severity: 'error' });
+    }
+  };
+
+  if (loading && !hasData && breaches.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const closureBlocker = dialog?.mode === 'close' ? getBreachClosureError(dialog.breach, closeForm) : null;
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            KPI Scorecard
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Captured KPI data against hospital targets and benchmark ranges. A breach is raised when a KPI misses target for consecutive months.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            select
+            size="small"
+            label="Breach after"
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            sx={{ minWidth: 200 }}
+          >
+            {THRESHOLD_OPTIONS.map(n => (
+              <MenuItem key={n} value={n}>{n} consecutive misses</MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant="outlined"
+            startIcon={<Icon>refresh</Icon>}
+            onClick={() => setReloadKey(k => k + 1)}
+            disabled={loading}
+          >
+            Re-evaluate
+          </Button>
+        </Box>
+      </Box>
+
+      {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+      {!hasData && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={() => navigate('/kpi-capture')}>Capture Data</Button>}
+        >
+          No captured KPI data yet. Simulated data is not evaluated for breaches.
+        </Alert>
+      )}
+
+      {/* Category scorecard */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {scorecard.map(row => (
+          <Grid key={row.categoryId} size={{ xs: 12, sm: 6, md: 3 }}>
+            <Paper sx={{ p: 2, borderTop: 4, borderColor: row.color }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Icon sx={{ color: row.color }}>{row.icon}</Icon>
+                <Typography variant="subtitle1" fontWeight={600}>{row.label}</Typography>
+              </Box>
+              <Typography variant="h4" fontWeight={700}>
+                {row.onTargetCount}/{row.evaluatedCount}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                on target in latest month ({row.kpiCount} KPIs)
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap' }}>
+                <Chip
+                  size="small"
+                  label={`${row.openBreaches} open breach${row.openBreaches === 1 ? '' : 'es'}`}
+                  color={row.openBreaches > 0 ? 'error' : 'default'}
+                />
+                <Chip size="small" variant="outlined" label={`${row.closedBreaches} closed`} />
+                {row.worseThanBenchmarkCount > 0 && (
+                  <Chip size="small" color="warning" label={`${row.worseThanBenchmarkCount} worse than benchmark`} />
+                )}
+              </Box>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Latest month per KPI */}
+      <Paper sx={{ mb: 3 }}>
+        <Box sx={{ p: 2 }}>
+          <Typography variant="h6">Latest Performance</Typography>
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>#</TableCell>
+                <TableCell>KPI</TableCell>
+                <TableCell>Standard</TableCell>
+                <TableCell>Month</TableCell>
+                <TableCell align="right">Value</TableCell>
+                <TableCell align="right">Target</TableCell>
+                <TableCell>Benchmark</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="center">Consecutive Misses</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {kpiRows.map(({ kpi, latest, currentMisses }) => (
+                <TableRow key={kpi.id} hover sx={{ cursor: 'pointer' }} onClick={() => navigate(`/kpi/${kpi.id}`)}>
+                  <TableCell>{kpi.number}</TableCell>
+                  <TableCell>{kpi.shortName}</TableCell>
+                  <TableCell>{kpi.standard}</TableCell>
+                  <TableCell>{latest ? formatMonth(latest.month) : '—'}</TableCell>
+                  <TableCell align="right">{latest ? latest.value : '—'}</TableCell>
+                  <TableCell align="right">
+                    {latest ? `${kpi.targetDirection === 'lower' ? '≤' : '≥'} ${latest.target}` : '—'}
+                  </TableCell>
+                  <TableCell>{kpi.benchmarkRange.min} – {kpi.benchmarkRange.max}</TableCell>
+                  <TableCell>
+                    {latest ? (
+                      <Chip size="small" label={KPI_PERFORMANCE_LABELS[latest.status]} color={KPI_PERFORMANCE_COLORS[latest.status]} />
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">No captured data</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="center">
+                    {currentMisses > 0 ? (
+                      <Chip size="small" label={currentMisses} color={currentMisses >= threshold ? 'error' : 'warning'} />
+                    ) : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Breaches */}
+      <Paper>
+        <Box sx={{ p: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Typography variant="h6">Target Breaches</Typography>
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as KPIBreachStatus | 'all' | 'active')}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="active">Not closed</MenuItem>
+            <MenuItem value="all">All</MenuItem>
+            {(Object.keys(BREACH_STATUS_COLORS) as KPIBreachStatus[]).map(s => (
+              <MenuItem key={s} value={s}>{s}</MenuItem>
+            ))}
+          </TextField>
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>KPI</TableCell>
+                <TableCell>Standard</TableCell>
+                <TableCell>Missed Months</TableCell>
+                <TableCell>Action Plan</TableCell>
+                <TableCell>Responsible</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredBreaches.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                    No breaches
+                  </TableCell>
+                </TableRow>
+              ) : filteredBreaches.map(breach => (
+                <TableRow key={breach.id}>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>KPI {breach.kpi_number}</Typography>
+                    <Typography variant="caption" color="text.secondary">{breach.kpi_name}</Typography>
+                  </TableCell>
+                  <TableCell>{breach.standard}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2">
+                      {formatMonth(breach.start_month)} – {formatMonth(breach.end_month)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {breach.consecutive_months} consecutive months
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 280 }}>
+                    <Typography variant="body2" noWrap title={breach.action_plan || ''}>
+                      {breach.action_plan || '—'}
+                    </Typography>
+                    {breach.target_date && (
+                      <Typography variant="caption" color="text.secondary">
+                        Due {new Date(breach.target_date).toLocaleDateString('en-IN')}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{breach.responsible_person || '—'}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={breach.status} color={BREACH_STATUS_COLORS[breach.status]} />
+                    {breach.status === 'Closed' && breach.closed_date && (
+                      <Typography variant="caption" component="div" color="text.secondary">
+                        {new Date(breach.closed_date).toLocaleDateString('en-IN')} by {breach.closed_by}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    {canEdit && breach.status !== 'Closed' && (
+                      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                        <Button size="small" variant="outlined" onClick={() => openPlanDialog(breach)}>
+                          Action Plan
+                        </Button>
+                        <Tooltip title={breach.status === 'Open' ? 'Document an action plan first' : ''}>
+                          <span>
+                            <Button
+                              size="small"
+                              variant="contained"
+                              color="success"
+                              disabled={breach.status === 'Open'}
+                              onClick={() => openCloseDialog(breach)}
+                            >
+                              Close
+                            </Button>
+                          </span>
+                        </Tooltip>
+                      </Box>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Action plan / closure dialog */}
+      <Dialog open={dialog !== null} onClose={() => setDialog(null)} maxWidth="sm" fullWidth>
+        {dialog && (
+          <>
+            <DialogTitle>
+              {dialog.mode === 'plan' ? 'Action Plan' : 'Close Breach'} — KPI {dialog.breach.kpi_number} ({dialog.breach.standard})
+            </DialogTitle>
+            <DialogContent>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {dialog.breach.kpi_name}: target missed {dialog.breach.consecutive_months} months in a row
+                ({formatMonth(dialog.breach.start_month)} – {formatMonth(dialog.breach.end_month)}).
+              </Typography>
+              {dialog.mode === 'plan' ? (
+                <Grid container spacing={2}>
+                  <Grid size={{ xs: 12 }}>
+                    <TextField
+                      fullWidth
+                      multiline
+                      rows={2}
+                      label="Root Cause"
+                      value={planForm.root_cause}
+                      onChange={(e) => setPlanForm({ ...planForm, root_cause: e.target.value })}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12 }}>
+                    <TextField
+                      fullWidth
+                      multiline
+                      rows={3}
+                      label="Action Plan"
+                      value={planForm.action_plan}
+                      onChange={(e) => setPlanForm({ ...planForm, action_plan: e.target.value })}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, md: 7 }}>
+                    <TextField
+                      select
+                      fullWidth
+                      label="Responsible Person"
+                      value={planForm.responsible_person}
+                      onChange={(e) => setPlanForm({ ...planForm, responsible_person: e.target.value })}
+                    >
+                      {ASSIGNEE_OPTIONS.map(option => (
+                        <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                      ))}
+                    </TextField>
+                  </Grid>
+                  <Grid size={{ xs: 12, md: 5 }}>
+                    <TextField
+                      fullWidth
+                      type="date"
+                      label="Target Date"
+                      value={planForm.target_date}
+                      onChange={(e) => setPlanForm({ ...planForm, target_date: e.target.value })}
+                      slotProps={{ inputLabel: { shrink: true } }}
+                    />
+                  </Grid>
+                </Grid>
+              ) : (
+                <Grid container spacing={2}>
+                  <Grid size={{ xs: 12 }}>
+                    <Paper variant="outlined" sx={{ p: 1.5 }}>
+                      <Typography variant="caption" color="text.secondary">Action plan</Typography>
+                      <Typography variant="body2">{dialog.breach.action_plan}</Typography>
+                    </Paper>
+                  </Grid>
+                  <Grid size={{ xs: 12 }}>
+                    <TextField
+                      select
+                      fullWidth
+                      label="Closed By"
+                      value={closeForm.closedBy}
+                      onChange={(e) => setCloseForm({ ...closeForm, closedBy: e.target.value })}
+                    >
+                      {ASSIGNEE_OPTIONS.map(option => (
+                        <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                      ))}
+                    </TextField>
+                  </Grid>
+                  <Grid size={{ xs: 12 }}>
+                    <TextField
+                      fullWidth
+                      multiline
+                      rows={3}
+                      label="Closure Remarks"
+                      placeholder="Effectiveness of the action plan, e.g. KPI back on target since..."
+                      value={closeForm.remarks}
+                      onChange={(e) => setCloseForm({ ...closeForm, remarks: e.target.value })}
+                    />
+                  </Grid>
+                  {closureBlocker && (
+                    <Grid size={{ xs: 12 }}>
+                      <Alert severity="info">{closureBlocker}</Alert>
+                    </Grid>
+                  )}
+                </Grid>
+              )}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setDialog(null)}>Cancel</Button>
+              {dialog.mode === 'plan' ? (
+                <Button
+                  variant="contained"
+                  onClick={handleSavePlan}
+                  disabled={isSaving || !planForm.root_cause.trim() || !planForm.action_plan.trim()}
+                >
+                  Save Action Plan
+                </Button>
+              ) : (
+                <Button
+                  variant="contained"
+                  color="success"
+                  onClick={handleClose}
+                  disabled={isSaving || closureBlocker !== null}
+                >
+                  Close Breach
+                </Button>
+              )}
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
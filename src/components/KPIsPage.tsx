@@ -36,7 +36,9 @@ import { HOSPITAL_INFO, getHospitalInfo } from '../config/hospitalConfig';
 import { NABH_KPIS, NABH_KPI_CATEGORIES, generateSampleKPIData } from '../data/kpiData';
 import type { KPIDefinition } from '../data/kpiData';
 import { extractFromDocument, extractKPIData, generateImprovedDocument } from '../services/documentExtractor';
-import { generateAllKPIDataWithScenario } from '../services/kpiDataGenerator';
+import { generateAllKPIDataWithScenario, drawSimulatedWatermark } from '../services/kpiDataGenerator';
+import { loadKPIMeasurements } from '../services/kpiMeasurementStorage';
+import { hasSimulatedKPIData, measurementsToKPIData } from '../services/kpiMeasurementEngine';
 import { saveKPIGraph, loadAllKPIGraphs } from '../services/kpiStorage';
 import type { KPIGraphRecord } from '../services/kpiStorage';
 import { useNABHStore } from '../store/nabhStore';
@@ -46,6 +48,7 @@ interface KPIEntry {
   value: number;
   target: number;
   remarks?: string;
+  isSimulated?: boolean;
 }
 
 const UPLOAD_WORKFLOW_STEPS = ['Upload Document', 'Extract KPIs', 'Review & Edit', 'Generate Report'];
@@ -64,6 +67,7 @@ export default function KPIsPage() {
   const [generationProgress, setGenerationProgress] = useState(0);
   const [savedGraphs, setSavedGraphs] = useState<Record<string, KPIGraphRecord>>({});
   const [isLoadingGraphs, setIsLoadingGraphs] = useState(false);
+  const [capturedData, setCapturedData] = useState<Record<string, KPIEntry[]>>({});
 
   // Upload workflow states
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
@@ -83,6 +87,18 @@ export default function KPIsPage() {
     loadSavedGraphs();
   }, []);
 
+  // Captured numerators / denominators take precedence over simulated data
+  useEffect(() => {
+    loadKPIMeasurements(selectedHospital).then(result => {
+      const byKPI: Record<string, KPIEntry[]> = {};
+      NABH_KPIS.forEach(kpi => {
+        const entries = measurementsToKPIData((result.data || []).filter(m => m.kpi_id === kpi.id));
+        if (entries.length > 0) byKPI[kpi.id] = entries;
+      });
+      setCapturedData(byKPI);
+    });
+  }, [selectedHospital]);
+
   const loadSavedGraphs = async () => {
     setIsLoadingGraphs(true);
     try {
@@ -97,20 +113,21 @@ export default function KPIsPage() {
     }
   };
 
-  // Generate all dummy data and save graphs
+  // Generate simulated data for KPIs without captured data and save graphs
   const handleGenerateAllData = async () => {
     setIsGeneratingData(true);
     setGenerationProgress(0);
 
     try {
-      // Step 1: Generate data for all KPIs
-      setSnackbar({ open: true, message: 'Generating dummy data for all 16 KPIs...', severity: 'info' });
-      const allData = generateAllKPIDataWithScenario('improving');
+      // Step 1: Generate data for KPIs that have no captured data
+      setSnackbar({ open: true, message: 'Generating simulated data for KPIs without captured data...', severity: 'info' });
+      const allData: Record<string, KPIEntry[]> = generateAllKPIDataWithScenario('improving');
 
       // Save to localStorage
       Object.entries(allData).forEach(([kpiId, data]) => {
         localStorage.setItem(`kpi_data_${kpiId}`, JSON.stringify(data));
       });
+      Object.assign(allData, capturedData);
 
       setGenerationProgress(30);
 
@@ -139,8 +156,8 @@ export default function KPIsPage() {
             kpi.name,
             dataUrl,
             data,
-            'Auto-generated dummy data',
-            'Improving trend scenario'
+            hasSimulatedKPIData(data) ? 'Simulated data (generated)' : undefined,
+            hasSimulatedKPIData(data) ? 'Improving trend scenario' : undefined
           );
         }
 
@@ -150,7 +167,7 @@ export default function KPIsPage() {
       // Reload saved graphs
       await loadSavedGraphs();
 
-      setSnackbar({ open: true, message: 'All 16 KPIs generated and saved to Supabase!', severity: 'success' });
+      setSnackbar({ open: true, message: 'Graphs for all 16 KPIs saved to Supabase (simulated ones are watermarked)', severity: 'success' });
     } catch (error) {
       console.error('Error generating data:', error);
       setSnackbar({ open: true, message: 'Error generating data', severity: 'error' });
@@ -286,26 +303,35 @@ export default function KPIsPage() {
     ctx.rotate(-Math.PI / 2);
     ctx.fillText(kpi.unit, 0, 0);
     ctx.restore();
+
+    if (hasSimulatedKPIData(data)) {
+      drawSimulatedWatermark(ctx, width, height);
+    }
   };
 
   // KPIs that must always show zero (no incidents reported)
   const ZERO_VALUE_KPI_IDS = ['kpi-2', 'kpi-3', 'kpi-5', 'kpi-6', 'kpi-7', 'kpi-8', 'kpi-9', 'kpi-15', 'kpi-16'];
 
   // Get latest values for each KPI
-  const getLatestKPIValue = (kpiId: string): { value: number; target: number } | null => {
+  const getLatestKPIValue = (kpiId: string): { value: number; target: number; isSimulated?: boolean } | null => {
     const kpi = NABH_KPIS.find(k => k.id === kpiId);
     if (!kpi) return null;
 
+    const captured = capturedData[kpiId];
+    if (captured && captured.length > 0) {
+      return captured[captured.length - 1];
+    }
+
     // Force zero for KPIs that should always be zero
     if (ZERO_VALUE_KPI_IDS.includes(kpiId)) {
-      return { value: 0, target: kpi.suggestedTarget };
+      return { value: 0, target: kpi.suggestedTarget, isSimulated: true };
     }
 
     const savedData = localStorage.getItem(`kpi_data_${kpiId}`);
     if (savedData) {
       const data: KPIEntry[] = JSON.parse(savedData);
       if (data.length > 0) {
-        return data[data.length - 1];
+        return { ...data[data.length - 1], isSimulated: true };
       }
     }
     // Generate sample data if none exists
@@ -519,7 +545,7 @@ export default function KPIsPage() {
                       <td style="font-size: 10px;">${kpi.formula}</td>
                       <td>${kpi.unit}</td>
                       <td>${kpi.suggestedTarget}</td>
-                      <td>${latest ? latest.value.toFixed(2) : 'N/A'}</td>
+                      <td>${latest ? latest.value.toFixed(2) : 'N/A'}${latest?.isSimulated ? ' <em style="color: #D32F2F;">(simulated)</em>' : ''}</td>
                       <td class="status-${status.status === 'good' ? 'good' : status.status === 'warning' ? 'warning' : 'bad'}">${status.label}</td>
                     </tr>
                   `;
@@ -605,7 +631,14 @@ export default function KPIsPage() {
             disabled={isGeneratingData}
             color="secondary"
           >
-            {isGeneratingData ? `Generating (${generationProgress}%)` : 'Generate All Data'}
+            {isGeneratingData ? `Generating (${generationProgress}%)` : 'Generate Simulated Data'}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Icon>edit_note</Icon>}
+            onClick={() => navigate('/kpi-capture')}
+          >
+            Capture Data
           </Button>
           <Button
             variant="outlined"
@@ -724,11 +757,14 @@ export default function KPIsPage() {
                         <Typography variant="caption" color="text.secondary">
                           Target: {kpi.suggestedTarget}
                         </Typography>
-                        <Chip
-                          label={status.label}
-                          size="small"
-                          color={status.color as any}
-                        />
+                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                          {latest?.isSimulated && <Chip label="Simulated" size="small" color="warning" variant="outlined" />}
+                          <Chip
+                            label={status.label}
+                            size="small"
+                            color={status.color as any}
+                          />
+                        </Box>
                       </Box>
                       <LinearProgress
                         variant="determinate"
@@ -794,6 +830,7 @@ export default function KPIsPage() {
                         <Typography fontWeight={600} color={`${status.color}.main`}>
                           {latest ? latest.value.toFixed(2) : 'N/A'}
                         </Typography>
+                        {latest?.isSimulated && <Typography variant="caption" color="warning.main">Simulated</Typography>}
                       </TableCell>
                       <TableCell align="center">
                         <Chip label={status.label} size="small" color={status.color as any} />
@@ -825,7 +862,7 @@ export default function KPIsPage() {
               <Icon sx={{ fontSize: 64, color: 'text.secondary' }}>image_not_supported</Icon>
               <Typography variant="h6" sx={{ mt: 2 }}>No Saved Graphs Yet</Typography>
               <Typography color="text.secondary" sx={{ mb: 3 }}>
-                Click "Generate All Data" to create dummy data and save graphs for all 16 KPIs
+                Click "Generate Simulated Data" to save graphs for all 16 KPIs. KPIs without captured data get watermarked simulated data.
               </Typography>
               <Button
                 variant="contained"
@@ -834,7 +871,7 @@ export default function KPIsPage() {
                 disabled={isGeneratingData}
                 color="secondary"
               >
-                Generate All Data
+                Generate Simulated Data
               </Button>
             </Paper>
           ) : (
@@ -0,0 +1,308 @@
+/**
+ * License Renewal Dialog
+ * Works through a license renewal task: checklist steps, renewed certificate, cost and
+ * new validity, and the reminder / escalation intervals
+ */
+
+import { useState, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Checkbox,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  IconButton,
+  LinearProgress,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import {
+  CloudUpload as CloudUploadIcon,
+  PictureAsPdf as PdfIcon,
+  Close as CloseIcon,
+} from '@mui/icons-material';
+import { getNABHCoordinator } from '../config/hospitalConfig';
+import { getDaysToExpiry, getRenewalCompletionError, getRenewalProgress } from '../services/licenseRenewalEngine';
+import { completeLicenseRenewal, updateLicenseRenewal } from '../services/licenseRenewalStorage';
+import type { License } from '../types/license';
+import type { LicenseRenewal } from '../types/licenseRenewal';
+
+interface LicenseRenewalDialogProps {
+  renewal: LicenseRenewal;
+  onClose: () => void;
+  onSaved: (renewal: LicenseRenewal) => void;
+  onCompleted: (renewal: LicenseRenewal, license: License) => void;
+  uploadFile: (file: File) => Promise<string | null>;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+export default function LicenseRenewalDialog({ renewal, onClose, onSaved, onCompleted, uploadFile }: LicenseRenewalDialogProps) {
+  const [form, setForm] = useState<LicenseRenewal>(renewal);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isOpen = form.status === 'Open';
+  const progress = getRenewalProgress(form.steps);
+  const daysLeft = getDaysToExpiry(form.expiry_date);
+
+  const toggleStep = (index: number, done: boolean) => {
+    setForm({
+      ...form,
+      steps: form.steps.map((s, i) => (i === index
+        ? { ...s, done, done_date: done ? new Date().toISOString().split('T')[0] : null, done_by: done ? s.done_by : null }
+        : s)),
+    });
+  };
+
+  const setStepDoneBy = (index: number, doneBy: string) => {
+    setForm({ ...form, steps: form.steps.map((s, i) => (i === index ? { ...s, done_by: doneBy || null } : s)) });
+  };
+
+  // Upload a newly chosen certificate and persist the task
+  const save = async (): Promise<LicenseRenewal | null> => {
+    let certificateUrl = form.certificate_url;
+    if (certificateFile) {
+      certificateUrl = await uploadFile(certificateFile);
+      if (!certificateUrl) return null;
+    }
+
+    const result = await updateLicenseRenewal(form.id, {
+      steps: form.steps,
+      certificate_url: certificateUrl,
+      renewal_cost: form.renewal_cost,
+      new_license_number: form.new_license_number,
+      new_issue_date: form.new_issue_date,
+      new_expiry_date: form.new_expiry_date,
+      reminder_interval_days: form.reminder_interval_days,
+      escalation_days: form.escalation_days,
+      notes: form.notes,
+    });
+    if (!result.success || !result.data) {
+      setError('Failed to save the renewal');
+      return null;
+    }
+    setCertificateFile(null);
+    setForm(result.data);
+    onSaved(result.data);
+    return result.data;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const saved = await save();
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  const handleComplete = async () => {
+    const validationError = getRenewalCompletionError({
+      ...form,
+      certificate_url: certificateFile ? certificateFile.name : form.certificate_url,
+    });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const saved = await save();
+    const result = saved ? await completeLicenseRenewal(saved) : null;
+    setSaving(false);
+
+    if (result?.success && result.data) {
+      onCompleted(result.data.renewal, result.data.license);
+    } else if (result) {
+      setError(result.error || 'Failed to complete the renewal');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Renewal: {form.license_name}
+        <Typography variant="body2" color={daysLeft <= form.escalation_days ? 'error.main' : 'text.secondary'}>
+          Expiry {formatDate(form.expiry_date)} ({daysLeft < 0 ? `expired ${-daysLeft} days ago` : `${daysLeft} days left`})
+          {' · '}Responsible: {form.responsible_person || 'Not assigned'}
+          {form.status !== 'Open' && ` · ${form.status}`}
+        </Typography>
+      </DialogTitle>
+      <DialogContent>
+        <Box display="flex" flexDirection="column" gap={2} sx={{ pt: 1 }}>
+          {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+
+          {/* Checklist */}
+          <Box>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+              <Typography variant="subtitle2">Renewal Steps</Typography>
+              <Typography variant="caption" color="text.secondary">{progress.done}/{progress.total} done</Typography>
+            </Box>
+            <LinearProgress variant="determinate" value={progress.percent} sx={{ mb: 1 }} />
+            {form.steps.map((step, i) => (
+              <Box key={i} display="flex" alignItems="center" gap={1}>
+                <Checkbox checked={step.done} disabled={!isOpen} onChange={(e) => toggleStep(i, e.target.checked)} />
+                <Typography variant="body2" sx={{ flex: 1, textDecoration: step.done ? 'line-through' : 'none' }}>
+                  {step.step}
+                </Typography>
+                {step.done && (
+                  <>
+                    <Typography variant="caption" color="text.secondary">{step.done_date && formatDate(step.done_date)}</Typography>
+                    <TextField
+                      size="small"
+                      placeholder="Done by"
+                      value={step.done_by || ''}
+                      disabled={!isOpen}
+                      onChange={(e) => setStepDoneBy(i, e.target.value)}
+                      sx={{ width: 160 }}
+                    />
+                  </>
+                )}
+              </Box>
+            ))}
+          </Box>
+
+          <Divider />
+
+          {/* Renewed certificate */}
+          <Box>
+            <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+              Renewed Certificate
+            </Typography>
+            <input
+              type="file"
+              ref={fileInputRef}
+              accept=".pdf"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) setCertificateFile(file);
+              }}
+            />
+            {form.certificate_url && !certificateFile && (
+              <Box display="flex" alignItems="center" gap={1} sx={{ mb: 1, p: 1, bgcolor: 'success.50', borderRadius: 1, border: '1px solid', borderColor: 'success.200' }}>
+                <PdfIcon color="error" />
+                <Typography variant="body2" sx={{ flex: 1 }} color="success.main">
+                  Certificate uploaded
+                </Typography>
+                <Button size="small" href={form.certificate_url} target="_blank" rel="noopener noreferrer">
+                  View
+                </Button>
+              </Box>
+            )}
+            {isOpen && (!certificateFile ? (
+              <Button
+                variant="outlined"
+                startIcon={<CloudUploadIcon />}
+                onClick={() => fileInputRef.current?.click()}
+                sx={{ textTransform: 'none' }}
+              >
+                {form.certificate_url ? 'Replace Certificate' : 'Attach Certificate'}
+              </Button>
+            ) : (
+              <Box display="flex" alignItems="center" gap={1} sx={{ p: 1, bgcolor: 'grey.50', borderRadius: 1, border: '1px solid', borderColor: 'grey.300' }}>
+                <PdfIcon color="error" />
+                <Typography variant="body2" sx={{ flex: 1 }}>{certificateFile.name}</Typography>
+                <IconButton size="small" onClick={() => { setCertificateFile(null); if (fileInputRef.current) fileInputRef.current.value = ''; }}>
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Box>
+
+          {/* Cost and new validity */}
+          <Box display="flex" gap={2}>
+            <TextField
+              fullWidth
+              label="Renewal Cost (₹)"
+              type="number"
+              disabled={!isOpen}
+              value={form.renewal_cost ?? ''}
+              onChange={(e) => setForm({ ...form, renewal_cost: e.target.value === '' ? null : Number(e.target.value) })}
+            />
+            <TextField
+              fullWidth
+              label="New License Number"
+              disabled={!isOpen}
+              value={form.new_license_number || ''}
+              onChange={(e) => setForm({ ...form, new_license_number: e.target.value || null })}
+            />
+          </Box>
+          <Box display="flex" gap={2}>
+            <TextField
+              fullWidth
+              label="New Issue Date"
+              type="date"
+              disabled={!isOpen}
+              value={form.new_issue_date || ''}
+              onChange={(e) => setForm({ ...form, new_issue_date: e.target.value || null })}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              fullWidth
+              label="New Expiry Date"
+              type="date"
+              disabled={!isOpen}
+              value={form.new_expiry_date || ''}
+              onChange={(e) => setForm({ ...form, new_expiry_date: e.target.value || null })}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Box>
+
+          <Divider />
+
+          {/* Reminders */}
+          <Box display="flex" gap={2}>
+            <TextField
+              fullWidth
+              label="Remind every (days)"
+              type="number"
+              disabled={!isOpen}
+              value={form.reminder_interval_days}
+              onChange={(e) => setForm({ ...form, reminder_interval_days: Math.max(1, Number(e.target.value) || 1) })}
+              helperText={`Reminders go to ${form.responsible_person || 'the NABH coordinator'}`}
+            />
+            <TextField
+              fullWidth
+              label="Escalate within (days of expiry)"
+              type="number"
+              disabled={!isOpen}
+              value={form.escalation_days}
+              onChange={(e) => setForm({ ...form, escalation_days: Math.max(0, Number(e.target.value) || 0) })}
+              helperText={`Escalates to ${getNABHCoordinator().name}`}
+            />
+          </Box>
+          <TextField
+            fullWidth
+            multiline
+            rows={2}
+            label="Notes"
+            disabled={!isOpen}
+            value={form.notes || ''}
+            onChange={(e) => setForm({ ...form, notes: e.target.value || null })}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{isOpen ? 'Cancel' : 'Close'}</Button>
+        {isOpen && (
+          <>
+            <Button onClick={handleSave} disabled={saving}>Save</Button>
+            <Button variant="contained" color="success" onClick={handleComplete} disabled={saving}>
+              {saving ? <><CircularProgress size={20} sx={{ mr: 1 }} /> Saving...</> : 'Complete Renewal'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -37,83 +37,19 @@ import {
   CloudUpload as CloudUploadIcon,
   PictureAsPdf as PdfIcon,
   Close as CloseIcon,
+  Autorenew as RenewalIcon,
 } from '@mui/icons-material';
 import { supabase } from '../lib/supabase';
+import { useCapability } from '../store/authStore';
 import { HOSPITALS } from '../config/hospitalConfig';
-
-// Database interface
-interface LicenseDB {
-  id: string;
-  name: string;
-  category: string;
-  license_number: string | null;
-  issuing_authority: string | null;
-  issue_date: string | null;
-  expiry_date: string | null;
-  validity_period: string | null;
-  status: string;
-  description: string | null;
-  attached_document: string | null;
-  renewal_process: string | null;
-  responsible_person: string | null;
-  reminder_days: number;
-  last_renewal_date: string | null;
-  renewal_cost: string | null;
-  documents_link: string | null;
-  hospital_id: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface License {
-  id: string;
-  name: string;
-  category: 'Medical' | 'Fire Safety' | 'Environmental' | 'Building' | 'Business' | 'Equipment' | 'Professional' | 'Other';
-  licenseNumber: string;
-  issuingAuthority: string;
-  issueDate: string;
-  expiryDate: string;
-  validityPeriod: string; // e.g., "5 Years", "Annual", "Permanent"
-  status: 'Valid' | 'Expiring Soon' | 'Expired' | 'Under Renewal';
-  description: string;
-  attachedDocument?: string;
-  renewalProcess: string;
-  responsiblePerson: string;
-  reminderDays: number; // Days before expiry to send reminder
-  lastRenewalDate?: string;
-  renewalCost?: string;
-  documentsLink?: string; // Google Docs/Sheets link
-  hospitalId: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Helper function to convert DB record to License
-const dbToLicense = (db: LicenseDB): License => ({
-  id: db.id,
-  name: db.name,
-  category: db.category as License['category'],
-  licenseNumber: db.license_number || '',
-  issuingAuthority: db.issuing_authority || '',
-  issueDate: db.issue_date || '',
-  expiryDate: db.expiry_date || '',
-  validityPeriod: db.validity_period || '',
-  status: db.status as License['status'],
-  description: db.description || '',
-  attachedDocument: db.attached_document || undefined,
-  renewalProcess: db.renewal_process || '',
-  responsiblePerson: db.responsible_person || '',
-  reminderDays: db.reminder_days,
-  lastRenewalDate: db.last_renewal_date || undefined,
-  renewalCost: db.renewal_cost || undefined,
-  documentsLink: db.documents_link || undefined,
-  hospitalId: db.hospital_id || 'hope',
-  createdAt: db.created_at,
-  updatedAt: db.updated_at,
-});
+import { buildRenewalTask, dbToLicense, getRenewalOpenDate, getRenewalProgress } from '../services/licenseRenewalEngine';
+import { createLicenseRenewals, loadLicenseRenewals } from '../services/licenseRenewalStorage';
+import type { License, LicenseDB } from '../types/license';
+import type { LicenseRenewal } from '../types/licenseRenewal';
+import LicenseRenewalDialog from './LicenseRenewalDialog';
 
 export default function LicensesMasterPage() {
+  const canEdit = useCapability('edit_content');
   const [licenses, setLicenses] = useState<License[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -141,6 +77,21 @@ export default function LicensesMasterPage() {
 
     fetchLicenses();
   }, []);
+
+  // Renewal tasks of every hospital, as the page lists all hospitals' licenses
+  const [renewals, setRenewals] = useState<LicenseRenewal[]>([]);
+  const [activeRenewal, setActiveRenewal] = useState<LicenseRenewal | null>(null);
+
+  useEffect(() => {
+    const fetchRenewals = async () => {
+      const results = await Promise.all(Object.keys(HOSPITALS).map(id => loadLicenseRenewals(id)));
+      setRenewals(results.flatMap(r => r.data || []));
+    };
+    fetchRenewals();
+  }, []);
+
+  const getOpenRenewal = (license: License) =>
+    renewals.find(r => r.license_id === license.id && r.status === 'Open');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -416,6 +367,53 @@ export default function LicensesMasterPage() {
     setMenuAnchor(null);
   };
 
+  // Open the renewal task of a license, starting one ahead of its reminder window if needed
+  const handleOpenRenewal = async (license: License) => {
+    setMenuAnchor(null);
+    const existing = getOpenRenewal(license);
+    if (existing) {
+      setActiveRenewal(existing);
+      return;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const task = buildRenewalTask(license);
+    const result = await createLicenseRenewals([{ ...task, opened_on: task.opened_on > today ? today : task.opened_on }]);
+    if (result.success && result.data?.[0]) {
+      setRenewals([result.data[0], ...renewals]);
+      setActiveRenewal(result.data[0]);
+    } else {
+      setSnackbar({ open: true, message: 'Failed to start the renewal', severity: 'error' });
+    }
+  };
+
+  const renderRenewalChip = (license: License) => {
+    const renewal = getOpenRenewal(license);
+    if (!renewal) return null;
+    const progress = getRenewalProgress(renewal.steps);
+    return (
+      <Chip
+        icon={<RenewalIcon />}
+        label={`Renewal ${progress.done}/${progress.total} steps`}
+        size="small"
+        color={progress.done === progress.total ? 'success' : 'warning'}
+        onClick={canEdit ? () => handleOpenRenewal(license) : undefined}
+        sx={{ mb: 1, ml: 1 }}
+      />
+    );
+  };
+
+  const handleRenewalSaved = (renewal: LicenseRenewal) => {
+    setRenewals(prev => prev.map(r => r.id === renewal.id ? renewal : r));
+  };
+
+  const handleRenewalCompleted = (renewal: LicenseRenewal, license: License) => {
+    handleRenewalSaved(renewal);
+    setLicenses(prev => prev.map(l => l.id === license.id ? license : l));
+    setActiveRenewal(null);
+    setSnackbar({ open: true, message: `${license.name} renewed until ${new Date(license.expiryDate).toLocaleDateString()}`, severity: 'success' });
+  };
+
   // Calculate days until expiry
   const getDaysUntilExpiry = (expiryDate: string) => {
     if (expiryDate === 'Permanent') return Infinity;
@@ -463,13 +461,15 @@ export default function LicensesMasterPage() {
             </Typography>
           </Box>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setIsAddDialogOpen(true)}
-        >
-          Add License
-        </Button>
+        {canEdit && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setIsAddDialogOpen(true)}
+          >
+            Add License
+          </Button>
+        )}
       </Box>
 
       {/* Statistics Cards */}
@@ -581,12 +581,14 @@ export default function LicensesMasterPage() {
                       color={getStatusColor(license.status)}
                       size="small"
                     />
-                    <IconButton
-                      size="small"
-                      onClick={(e) => handleMenuOpen(e, license)}
-                    >
-                      <MoreVertIcon />
-                    </IconButton>
+                    {canEdit && (
+                      <IconButton
+                        size="small"
+                        onClick={(e) => handleMenuOpen(e, license)}
+                      >
+                        <MoreVertIcon />
+                      </IconButton>
+                    )}
                   </Box>
                 </Box>
 
@@ -597,6 +599,7 @@ export default function LicensesMasterPage() {
                   color="primary"
                   sx={{ mb: 1 }}
                 />
+                {renderRenewalChip(license)}
 
                 <Typography variant="body2" color="text.secondary" gutterBottom>
                   {license.description}
@@ -758,6 +761,13 @@ export default function LicensesMasterPage() {
           <EditIcon sx={{ mr: 1 }} />
           Edit License
         </MenuItem>
+        <MenuItem
+          onClick={() => selectedLicense && handleOpenRenewal(selectedLicense)}
+          disabled={!selectedLicense || !getRenewalOpenDate(selectedLicense)}
+        >
+          <RenewalIcon sx={{ mr: 1 }} />
+          Renewal Workflow
+        </MenuItem>
         <MenuItem 
           onClick={() => selectedLicense && handleDeleteLicense(selectedLicense)}
           sx={{ color: 'error.main' }}
@@ -1095,6 +1105,18 @@ export default function LicensesMasterPage() {
         </DialogActions>
       </Dialog>
 
+      {/* Renewal Workflow Dialog */}
+      {activeRenewal && (
+        <LicenseRenewalDialog
+          key={activeRenewal.id}
+          renewal={activeRenewal}
+          onClose={() => setActiveRenewal(null)}
+          onSaved={handleRenewalSaved}
+          onCompleted={handleRenewalCompleted}
+          uploadFile={uploadFileToStorage}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onClose={() => setIsDeleteDialogOpen(false)}>
         <DialogTitle>Delete License</DialogTitle>
@@ -0,0 +1,95 @@
+/**
+ * Login Page
+ * Email / password sign-in, and access requests that wait for a coordinator to activate them
+ */
+
+import { useState } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import Icon from '@mui/material/Icon';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useAuthStore } from '../store/authStore';
+
+export default function LoginPage() {
+  const signIn = useAuthStore(state => state.signIn);
+  const signUp = useAuthStore(state => state.signUp);
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setInfo(null);
+    if (!email.trim() || !password || (mode === 'signup' && !name.trim())) {
+      setError('Please fill in all fields');
+      return;
+    }
+    setSubmitting(true);
+    const result = mode === 'signin'
+      ? await signIn(email, password)
+      : await signUp(name, email, password);
+    setSubmitting(false);
+    if (!result.success) {
+      setError(result.error || 'Something went wrong');
+    } else if (mode === 'signup') {
+      setInfo('Request sent. If email confirmation is enabled, confirm your email, then sign in. A NABH coordinator must activate your account.');
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: 'background.default', p: 2 }}>
+      <Paper sx={{ p: 4, width: '100%', maxWidth: 420 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+          <Icon color="primary" sx={{ fontSize: 32 }}>verified_user</Icon>
+          <Box>
+            <Typography variant="h6">NABH Evidence Creator</Typography>
+            <Typography variant="caption" color="text.secondary">Sign in to continue</Typography>
+          </Box>
+        </Box>
+
+        <Tabs value={mode} onChange={(_, v) => { setMode(v); setError(null); setInfo(null); }} sx={{ mb: 2 }}>
+          <Tab value="signin" label="Sign in" />
+          <Tab value="signup" label="Request access" />
+        </Tabs>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {info && <Alert severity="success" sx={{ mb: 2 }}>{info}</Alert>}
+
+        <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {mode === 'signup' && (
+            <TextField
+              label="Full name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              helperText="Use the name on the NABH team list so your role is suggested"
+              fullWidth
+            />
+          )}
+          <TextField label="Email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" fullWidth />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+            fullWidth
+          />
+          <Button type="submit" variant="contained" disabled={submitting} startIcon={submitting ? <CircularProgress size={16} /> : undefined}>
+            {mode === 'signin' ? 'Sign in' : 'Request access'}
+          </Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,612 @@
+/**
+ * MOU Lifecycle Dialog
+ * Service obligations of one MOU, partner performance reviews scored against them,
+ * and the AI-drafted renewal letter and addendum
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Tabs,
+  Tab,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Switch,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  AutoAwesome as AIIcon,
+  Print as PrintIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import {
+  buildReviewScores,
+  formatObligationTerm,
+  getMOURenewalStage,
+  getNextReviewPeriod,
+  getReviewValidationError,
+  scoreReview,
+  summarizeReviews,
+} from '../services/mouLifecycleEngine';
+import {
+  createMOUObligation,
+  createMOURenewalDraft,
+  createMOUReview,
+  loadMOURenewalDrafts,
+  updateMOUObligation,
+  updateMOUStatus,
+} from '../services/mouLifecycleStorage';
+import { buildRenewalDraftHTML, draftMOURenewal } from '../services/mouRenewalDraftService';
+import type {
+  MOU,
+  MOUObligation,
+  MOUObligationInput,
+  MOURenewalDraft,
+  MOUReview,
+  MOUReviewInput,
+  MOUReviewRating,
+} from '../types/mou';
+
+interface MOULifecycleDialogProps {
+  mou: MOU;
+  obligations: MOUObligation[];
+  reviews: MOUReview[];
+  onClose: () => void;
+  onObligationSaved: (obligation: MOUObligation) => void;
+  onReviewSaved: (review: MOUReview) => void;
+  onStatusChange: (status: MOU['status']) => void;
+}
+
+const RATING_COLORS: Record<MOUReviewRating, 'success' | 'warning' | 'error'> = {
+  'Meets Terms': 'success',
+  'Partially Meets': 'warning',
+  'Does Not Meet': 'error',
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const emptyObligation = (mouId: string): MOUObligationInput => ({
+  mou_id: mouId,
+  description: '',
+  target: 0,
+  unit: 'hours',
+  direction: 'max',
+  review_frequency: 'Quarterly',
+  weight: 1,
+  is_active: true,
+});
+
+export default function MOULifecycleDialog({
+  mou,
+  obligations,
+  reviews,
+  onClose,
+  onObligationSaved,
+  onReviewSaved,
+  onStatusChange,
+}: MOULifecycleDialogProps) {
+  const { selectedHospital } = useNABHStore();
+  const hospital = getHospitalInfo(selectedHospital);
+  const canEdit = useCapability('edit_content');
+  const [tab, setTab] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Obligation form
+  const [obligationForm, setObligationForm] = useState<MOUObligationInput>(emptyObligation(mou.id));
+
+  // Review form
+  const nextPeriod = getNextReviewPeriod(mou, obligations, reviews);
+  const [reviewForm, setReviewForm] = useState<MOUReviewInput | null>(null);
+
+  // Renewal draft
+  const [drafts, setDrafts] = useState<MOURenewalDraft[]>([]);
+  const [letter, setLetter] = useState('');
+  const [addendum, setAddendum] = useState('');
+  const [drafting, setDrafting] = useState(false);
+
+  useEffect(() => {
+    const fetchDrafts = async () => {
+      const result = await loadMOURenewalDrafts(mou.id);
+      const saved = result.data || [];
+      setDrafts(saved);
+      if (saved[0]) {
+        setLetter(saved[0].letter);
+        setAddendum(saved[0].addendum);
+      }
+    };
+    fetchDrafts();
+  }, [mou.id]);
+
+  const summary = summarizeReviews(reviews);
+  const stage = getMOURenewalStage(mou);
+
+  const handleAddObligation = async () => {
+    if (!obligationForm.description.trim()) {
+      setError('Describe the service obligation');
+      return;
+    }
+    if (!(obligationForm.target >= 0)) {
+      setError('Enter a valid target');
+      return;
+    }
+
+    setSaving(true);
+    const result = await createMOUObligation({ ...obligationForm, description: obligationForm.description.trim() });
+    setSaving(false);
+    if (result.success && result.data) {
+      onObligationSaved(result.data);
+      setObligationForm(emptyObligation(mou.id));
+      setError(null);
+    } else {
+      setError('Failed to save the obligation');
+    }
+  };
+
+  const handleToggleObligation = async (obligation: MOUObligation) => {
+    const result = await updateMOUObligation(obligation.id, { is_active: !obligation.is_active });
+    if (result.success && result.data) {
+      onObligationSaved(result.data);
+    } else {
+      setError('Failed to update the obligation');
+    }
+  };
+
+  const handleStartReview = () => {
+    setReviewForm({
+      mou_id: mou.id,
+      period_start: nextPeriod?.period_start || '',
+      period_end: nextPeriod?.period_end || '',
+      review_date: new Date().toISOString().split('T')[0],
+      reviewed_by: mou.responsiblePerson,
+      scores: buildReviewScores(obligations),
+      overall_score: 0,
+      rating: 'Does Not Meet',
+      remarks: null,
+      action_required: null,
+    });
+  };
+
+  const setActual = (index: number, value: string) => {
+    if (!reviewForm) return;
+    const scores = reviewForm.scores.map((s, i) => (i === index ? { ...s, actual: value === '' ? null : Number(value) } : s));
+    setReviewForm({ ...reviewForm, ...scoreReview(scores) });
+  };
+
+  const setScoreComment = (index: number, value: string) => {
+    if (!reviewForm) return;
+    setReviewForm({ ...reviewForm, scores: reviewForm.scores.map((s, i) => (i === index ? { ...s, comments: value || null } : s)) });
+  };
+
+  const handleSaveReview = async () => {
+    if (!reviewForm) return;
+    const validationError = getReviewValidationError(reviewForm);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const result = await createMOUReview({ ...reviewForm, ...scoreReview(reviewForm.scores) });
+    setSaving(false);
+    if (result.success && result.data) {
+      onReviewSaved(result.data);
+      setReviewForm(null);
+      setError(null);
+    } else {
+      setError('Failed to save the review');
+    }
+  };
+
+  const handleDraft = async () => {
+    setDrafting(true);
+    setError(null);
+    const result = await draftMOURenewal(mou, obligations, reviews, hospital);
+    setDrafting(false);
+    if (result.success && result.data) {
+      setLetter(result.data.letter);
+      setAddendum(result.data.addendum);
+    } else {
+      setError(result.error || 'Failed to draft the renewal');
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    setSaving(true);
+    const result = await createMOURenewalDraft({ mou_id: mou.id, letter, addendum, created_by: mou.responsiblePerson || null });
+    setSaving(false);
+    if (result.success && result.data) {
+      setDrafts([result.data, ...drafts]);
+      setError(null);
+    } else {
+      setError('Failed to save the draft');
+    }
+  };
+
+  const handlePrintDraft = () => {
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(buildRenewalDraftHTML({ letter, addendum }, mou, hospital));
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const handleStartRenewal = async () => {
+    const result = await updateMOUStatus(mou.id, 'Under Renewal');
+    if (result.success) {
+      onStatusChange('Under Renewal');
+    } else {
+      setError('Failed to update the MOU status');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>
+        {mou.title}
+        <Box display="flex" gap={1} mt={0.5} flexWrap="wrap">
+          <Chip size="small" label={mou.partnerOrganization} variant="outlined" color="primary" />
+          <Chip size="small" label={stage} color={stage === 'Active' ? 'success' : stage === 'Expired' || stage === 'Lapsing' ? 'error' : 'warning'} />
+          {summary.latestRating && (
+            <Chip size="small" label={`Last review: ${summary.latestRating}`} color={RATING_COLORS[summary.latestRating]} variant="outlined" />
+          )}
+          {nextPeriod && (
+            <Chip
+              size="small"
+              variant="outlined"
+              color={nextPeriod.overdue ? 'error' : 'default'}
+              label={`Next review ${nextPeriod.overdue ? 'overdue since' : 'due'} ${formatDate(nextPeriod.period_end)}`}
+            />
+          )}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+          <Tab label={`Service Obligations (${obligations.length})`} />
+          <Tab label={`Performance Reviews (${reviews.length})`} />
+          <Tab label="Renewal Draft" />
+        </Tabs>
+
+        {error && <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>{error}</Alert>}
+
+        {tab === 0 && (
+          <Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Obligation</TableCell>
+                  <TableCell>Term</TableCell>
+                  <TableCell>Review</TableCell>
+                  <TableCell align="right">Weight</TableCell>
+                  <TableCell align="center">Active</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {obligations.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5}>
+                      <Typography variant="body2" color="text.secondary">
+                        No service obligations yet. Add measurable terms such as report turnaround, response time or pickup frequency.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {obligations.map(o => (
+                  <TableRow key={o.id} sx={{ opacity: o.is_active ? 1 : 0.5 }}>
+                    <TableCell>{o.description}</TableCell>
+                    <TableCell>{formatObligationTerm(o)}</TableCell>
+                    <TableCell>{o.review_frequency}</TableCell>
+                    <TableCell align="right">{o.weight}</TableCell>
+                    <TableCell align="center">
+                      <Switch size="small" checked={o.is_active} disabled={!canEdit} onChange={() => handleToggleObligation(o)} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {canEdit && (
+              <>
+                <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>Add Obligation</Typography>
+                <Box display="flex" gap={1} flexWrap="wrap" alignItems="center">
+                  <TextField
+                    size="small"
+                    label="Obligation"
+                    placeholder="e.g. Routine lab report turnaround"
+                    value={obligationForm.description}
+                    onChange={(e) => setObligationForm({ ...obligationForm, description: e.target.value })}
+                    sx={{ flex: 2, minWidth: 240 }}
+                  />
+                  <FormControl size="small" sx={{ minWidth: 110 }}>
+                    <InputLabel>Must be</InputLabel>
+                    <Select
+                      label="Must be"
+                      value={obligationForm.direction}
+                      onChange={(e) => setObligationForm({ ...obligationForm, direction: e.target.value as MOUObligationInput['direction'] })}
+                    >
+                      <MenuItem value="max">At most</MenuItem>
+                      <MenuItem value="min">At least</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Target"
+                    value={obligationForm.target}
+                    onChange={(e) => setObligationForm({ ...obligationForm, target: Number(e.target.value) })}
+                    sx={{ width: 100 }}
+                  />
+                  <FormControl size="small" sx={{ minWidth: 100 }}>
+                    <InputLabel>Unit</InputLabel>
+                    <Select
+                      label="Unit"
+                      value={obligationForm.unit}
+                      onChange={(e) => setObligationForm({ ...obligationForm, unit: e.target.value as MOUObligationInput['unit'] })}
+                    >
+                      <MenuItem value="minutes">minutes</MenuItem>
+                      <MenuItem value="hours">hours</MenuItem>
+                      <MenuItem value="days">days</MenuItem>
+                      <MenuItem value="%">%</MenuItem>
+                      <MenuItem value="count">count</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <FormControl size="small" sx={{ minWidth: 130 }}>
+                    <InputLabel>Review</InputLabel>
+                    <Select
+                      label="Review"
+                      value={obligationForm.review_frequency}
+                      onChange={(e) => setObligationForm({ ...obligationForm, review_frequency: e.target.value as MOUObligationInput['review_frequency'] })}
+                    >
+                      <MenuItem value="Monthly">Monthly</MenuItem>
+                      <MenuItem value="Quarterly">Quarterly</MenuItem>
+                      <MenuItem value="Half-yearly">Half-yearly</MenuItem>
+                      <MenuItem value="Yearly">Yearly</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Weight"
+                    value={obligationForm.weight}
+                    onChange={(e) => setObligationForm({ ...obligationForm, weight: Math.max(1, Number(e.target.value) || 1) })}
+                    sx={{ width: 80 }}
+                  />
+                  <Button variant="contained" startIcon={<AddIcon />} onClick={handleAddObligation} disabled={saving}>
+                    Add
+                  </Button>
+                </Box>
+              </>
+            )}
+          </Box>
+        )}
+
+        {tab === 1 && (
+          <Box>
+            {!reviewForm ? (
+              <>
+                <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                  <Typography variant="body2" color="text.secondary">
+                    {summary.count > 0
+                      ? `${summary.count} review${summary.count === 1 ? '' : 's'}, average score ${summary.averageScore}%`
+                      : 'No reviews recorded yet'}
+                  </Typography>
+                  {canEdit && (
+                    <Button
+                      variant="contained"
+                      startIcon={<AddIcon />}
+                      onClick={handleStartReview}
+                      disabled={!obligations.some(o => o.is_active)}
+                    >
+                      Record Review
+                    </Button>
+                  )}
+                </Box>
+                {summary.misses.length > 0 && (
+                  <Alert severity="warning" sx={{ mb: 2 }}>
+                    Repeatedly missed: {summary.misses.map(m => `${m.description} (${m.missed}/${m.measured})`).join(', ')}
+                  </Alert>
+                )}
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Period</TableCell>
+                      <TableCell>Reviewed By</TableCell>
+                      <TableCell>Obligations Met</TableCell>
+                      <TableCell align="right">Score</TableCell>
+                      <TableCell>Rating</TableCell>
+                      <TableCell>Action Required</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {reviews.map(r => (
+                      <TableRow key={r.id}>
+                        <TableCell>{formatDate(r.period_start)} - {formatDate(r.period_end)}</TableCell>
+                        <TableCell>{r.reviewed_by}</TableCell>
+                        <TableCell>
+                          {r.scores.filter(s => s.met).length}/{r.scores.filter(s => s.met !== null).length}
+                        </TableCell>
+                        <TableCell align="right">{r.overall_score}%</TableCell>
+                        <TableCell><Chip size="small" label={r.rating} color={RATING_COLORS[r.rating]} /></TableCell>
+                        <TableCell>{r.action_required || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            ) : (
+              <Box display="flex" flexDirection="column" gap={2}>
+                <Box display="flex" gap={2}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="date"
+                    label="Period Start"
+                    value={reviewForm.period_start}
+                    onChange={(e) => setReviewForm({ ...reviewForm, period_start: e.target.value })}
+                    slotProps={{ inputLabel: { shrink: true } }}
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="date"
+                    label="Period End"
+                    value={reviewForm.period_end}
+                    onChange={(e) => setReviewForm({ ...reviewForm, period_end: e.target.value })}
+                    slotProps={{ inputLabel: { shrink: true } }}
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Reviewed By"
+                    value={reviewForm.reviewed_by}
+                    onChange={(e) => setReviewForm({ ...reviewForm, reviewed_by: e.target.value })}
+                  />
+                </Box>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Obligation</TableCell>
+                      <TableCell>Term</TableCell>
+                      <TableCell>Actual</TableCell>
+                      <TableCell>Result</TableCell>
+                      <TableCell>Comments</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {reviewForm.scores.map((s, i) => (
+                      <TableRow key={s.obligation_id}>
+                        <TableCell>{s.description}</TableCell>
+                        <TableCell>{formatObligationTerm(s)}</TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            type="number"
+                            placeholder="Not measured"
+                            value={s.actual ?? ''}
+                            onChange={(e) => setActual(i, e.target.value)}
+                            sx={{ width: 130 }}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {s.met === null ? '-' : <Chip size="small" label={s.met ? 'Met' : 'Not met'} color={s.met ? 'success' : 'error'} />}
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            size="small"
+                            fullWidth
+                            value={s.comments || ''}
+                            onChange={(e) => setScoreComment(i, e.target.value)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Box display="flex" alignItems="center" gap={1}>
+                  <Typography variant="subtitle2">Score: {reviewForm.overall_score}%</Typography>
+                  <Chip size="small" label={reviewForm.rating} color={RATING_COLORS[reviewForm.rating]} />
+                </Box>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label="Remarks"
+                  value={reviewForm.remarks || ''}
+                  onChange={(e) => setReviewForm({ ...reviewForm, remarks: e.target.value || null })}
+                />
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={2}
+                  label="Action Required from Partner"
+                  value={reviewForm.action_required || ''}
+                  onChange={(e) => setReviewForm({ ...reviewForm, action_required: e.target.value || null })}
+                />
+                <Box display="flex" justifyContent="flex-end" gap={1}>
+                  <Button onClick={() => setReviewForm(null)}>Cancel</Button>
+                  <Button variant="contained" onClick={handleSaveReview} disabled={saving}>Save Review</Button>
+                </Box>
+              </Box>
+            )}
+          </Box>
+        )}
+
+        {tab === 2 && (
+          <Box display="flex" flexDirection="column" gap={2}>
+            {stage !== 'Renewal Due' && stage !== 'Under Renewal' && (
+              <Alert severity="info">
+                This MOU is {stage.toLowerCase()}. Renewal letters are usually drafted within 90 days of expiry.
+              </Alert>
+            )}
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+              {canEdit && (
+                <>
+                  <Button variant="contained" startIcon={drafting ? <CircularProgress size={18} color="inherit" /> : <AIIcon />} onClick={handleDraft} disabled={drafting}>
+                    {drafting ? 'Drafting...' : letter ? 'Redraft with AI' : 'Draft with AI'}
+                  </Button>
+                  <Button startIcon={<SaveIcon />} onClick={handleSaveDraft} disabled={!letter || !addendum || saving}>
+                    Save Draft
+                  </Button>
+                </>
+              )}
+              <Button startIcon={<PrintIcon />} onClick={handlePrintDraft} disabled={!letter || !addendum}>
+                Print
+              </Button>
+              {canEdit && mou.status !== 'Under Renewal' && (
+                <Button color="warning" onClick={handleStartRenewal} disabled={!letter}>
+                  Mark Under Renewal
+                </Button>
+              )}
+              {drafts.length > 0 && (
+                <Typography variant="caption" color="text.secondary">
+                  {drafts.length} saved draft{drafts.length === 1 ? '' : 's'}, latest {formatDate(drafts[0].created_at)}
+                </Typography>
+              )}
+            </Box>
+            <TextField
+              fullWidth
+              multiline
+              minRows={10}
+              label="Renewal Letter"
+              value={letter}
+              onChange={(e) => setLetter(e.target.value)}
+            />
+            <TextField
+              fullWidth
+              multiline
+              minRows={10}
+              label="Addendum"
+              value={addendum}
+              onChange={(e) => setAddendum(e.target.value)}
+            />
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
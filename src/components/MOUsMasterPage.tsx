@@ -33,36 +33,14 @@ import {
   Link as LinkIcon,
   Remove as RemoveIcon,
   OpenInNew as OpenIcon,
+  Assessment as LifecycleIcon,
 } from '@mui/icons-material';
 import { supabase } from '../lib/supabase';
-
-interface DocumentLink {
-  id: string;
-  url: string;
-  title: string;
-  type: 'Google Docs' | 'Google Sheets' | 'PDF' | 'Other';
-}
-
-interface MOU {
-  id: string;
-  title: string;
-  partnerOrganization: string;
-  category: 'Academic' | 'Corporate' | 'Government' | 'Healthcare' | 'Insurance' | 'Technology' | 'Research' | 'Other';
-  signedDate: string;
-  expiryDate: string;
-  validityPeriod: string;
-  status: 'Active' | 'Expired' | 'Under Renewal' | 'Terminated' | 'Draft';
-  purpose: string;
-  keyBenefits: string[];
-  responsiblePerson: string;
-  partnerContact: string;
-  documentLinks: DocumentLink[];
-  renewalRequired: boolean;
-  financialImplications?: string;
-  complianceRequirements: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { useCapability } from '../store/authStore';
+import { getNextReviewPeriod, getRenewalPipeline, MOU_RENEWAL_STAGES, summarizeReviews } from '../services/mouLifecycleEngine';
+import { loadMOUObligations, loadMOUReviews } from '../services/mouLifecycleStorage';
+import type { DocumentLink, MOU, MOUObligation, MOURenewalStage, MOUReview } from '../types/mou';
+import MOULifecycleDialog from './MOULifecycleDialog';
 
 // Comprehensive default MOUs for Hope Hospital
 const DEFAULT_MOUS: MOU[] = [
@@ -410,7 +388,17 @@ const DEFAULT_MOUS: MOU[] = [
   }
 ];
 
+const PIPELINE_COLORS: Record<MOURenewalStage, 'success' | 'warning' | 'error' | 'info' | 'default'> = {
+  'Renewal Due': 'warning',
+  'Lapsing': 'error',
+  'Under Renewal': 'info',
+  'Expired': 'error',
+  'Active': 'success',
+  'Terminated': 'default',
+};
+
 export default function MOUsMasterPage() {
+  const canEdit = useCapability('edit_content');
   const [mous, setMous] = useState<MOU[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -484,6 +472,39 @@ export default function MOUsMasterPage() {
     fetchMOUs();
   }, []);
 
+  // Service obligations, performance reviews and the renewal pipeline
+  const [obligations, setObligations] = useState<MOUObligation[]>([]);
+  const [reviews, setReviews] = useState<MOUReview[]>([]);
+  const [lifecycleMOU, setLifecycleMOU] = useState<MOU | null>(null);
+
+  useEffect(() => {
+    const fetchLifecycle = async () => {
+      const [obligationResult, reviewResult] = await Promise.all([loadMOUObligations(), loadMOUReviews()]);
+      setObligations(obligationResult.data || []);
+      setReviews(reviewResult.data || []);
+    };
+    fetchLifecycle();
+  }, []);
+
+  const handleObligationSaved = (obligation: MOUObligation) => {
+    setObligations(prev => prev.some(o => o.id === obligation.id)
+      ? prev.map(o => o.id === obligation.id ? obligation : o)
+      : [...prev, obligation]);
+  };
+
+  const handleReviewSaved = (review: MOUReview) => {
+    setReviews(prev => [review, ...prev].sort((a, b) => b.period_end.localeCompare(a.period_end)));
+  };
+
+  const handleLifecycleStatusChange = (status: MOU['status']) => {
+    if (!lifecycleMOU) return;
+    const updated = { ...lifecycleMOU, status };
+    setMous(prev => prev.map(m => m.id === updated.id ? updated : m));
+    setLifecycleMOU(updated);
+  };
+
+  const pipeline = getRenewalPipeline(mous);
+
   // Form state for new/edit MOU
   const [mouForm, setMouForm] = useState<Partial<MOU>>({
     title: '',
@@ -824,6 +845,28 @@ export default function MOUsMasterPage() {
     setMenuAnchor(null);
   };
 
+  const renderPerformanceChips = (mou: MOU) => {
+    const mouObligations = obligations.filter(o => o.mou_id === mou.id);
+    if (mouObligations.length === 0) return null;
+    const mouReviews = reviews.filter(r => r.mou_id === mou.id);
+    const summary = summarizeReviews(mouReviews);
+    const nextPeriod = getNextReviewPeriod(mou, mouObligations, mouReviews);
+    return (
+      <Box display="flex" gap={0.5} mt={1} flexWrap="wrap">
+        <Chip
+          size="small"
+          variant="outlined"
+          label={summary.latestRating ? `${summary.latestRating} (${mouReviews[0].overall_score}%)` : 'Not reviewed'}
+          color={summary.latestRating === 'Meets Terms' ? 'success' : summary.latestRating ? 'warning' : 'default'}
+          onClick={() => setLifecycleMOU(mou)}
+        />
+        {nextPeriod?.overdue && (
+          <Chip size="small" color="error" label="Review overdue" onClick={() => setLifecycleMOU(mou)} />
+        )}
+      </Box>
+    );
+  };
+
   // Get statistics
   const totalMOUs = mous.length;
   const activeMOUs = mous.filter(m => m.status === 'Active').length;
@@ -851,13 +894,15 @@ export default function MOUsMasterPage() {
             </Typography>
           </Box>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setIsAddDialogOpen(true)}
-        >
-          Add MOU
-        </Button>
+        {canEdit && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setIsAddDialogOpen(true)}
+          >
+            Add MOU
+          </Button>
+        )}
       </Box>
 
       {/* Statistics Cards */}
@@ -912,6 +957,42 @@ export default function MOUsMasterPage() {
         </Box>
       </Box>
 
+      {/* Renewal Pipeline */}
+      {!loading && mous.length > 0 && (
+        <Card sx={{ mb: 4 }}>
+          <CardContent>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Expiry & Renewal Pipeline
+            </Typography>
+            <Box display="flex" gap={2} flexWrap="wrap">
+              {MOU_RENEWAL_STAGES.filter(stage => stage !== 'Terminated').map(stage => (
+                <Box key={stage} flex="1" minWidth="180px">
+                  <Box display="flex" alignItems="center" gap={1} mb={1}>
+                    <Chip size="small" label={pipeline[stage].length} color={PIPELINE_COLORS[stage]} />
+                    <Typography variant="body2" fontWeight="medium">{stage}</Typography>
+                  </Box>
+                  {pipeline[stage].slice(0, 5).map(mou => (
+                    <Typography
+                      key={mou.id}
+                      variant="caption"
+                      display="block"
+                      noWrap
+                      sx={{ cursor: 'pointer', '&:hover': { textDecoration: 'underline' } }}
+                      onClick={() => setLifecycleMOU(mou)}
+                    >
+                      {mou.partnerOrganization}{mou.expiryDate ? ` - ${new Date(mou.expiryDate).toLocaleDateString()}` : ''}
+                    </Typography>
+                  ))}
+                  {pipeline[stage].length > 5 && (
+                    <Typography variant="caption" color="text.secondary">+{pipeline[stage].length - 5} more</Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          </CardContent>
+        </Card>
+      )}
+
       {/* MOUs Grid */}
       {loading ? (
         <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
@@ -945,12 +1026,14 @@ export default function MOUsMasterPage() {
                       variant="outlined"
                       size="small"
                     />
-                    <IconButton
-                      size="small"
-                      onClick={(e) => handleMenuOpen(e, mou)}
-                    >
-                      <MoreVertIcon />
-                    </IconButton>
+                    {canEdit && (
+                      <IconButton
+                        size="small"
+                        onClick={(e) => handleMenuOpen(e, mou)}
+                      >
+                        <MoreVertIcon />
+                      </IconButton>
+                    )}
                   </Box>
                 </Box>
 
@@ -970,6 +1053,7 @@ export default function MOUsMasterPage() {
                   <Typography variant="caption" display="block" color="text.secondary">
                     Responsible: {mou.responsiblePerson}
                   </Typography>
+                  {renderPerformanceChips(mou)}
                 </Box>
 
                 {mou.keyBenefits.length > 0 && (
@@ -1005,14 +1089,16 @@ export default function MOUsMasterPage() {
                     <Typography variant="subtitle2" fontWeight="medium">
                       Documents ({mou.documentLinks.length})
                     </Typography>
-                    <Button
-                      size="small"
-                      startIcon={<AddIcon />}
-                      onClick={() => addDocumentLink(mou.id)}
-                      sx={{ fontSize: '0.7rem' }}
-                    >
-                      Add More
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        size="small"
+                        startIcon={<AddIcon />}
+                        onClick={() => addDocumentLink(mou.id)}
+                        sx={{ fontSize: '0.7rem' }}
+                      >
+                        Add More
+                      </Button>
+                    )}
                   </Box>
                   
                   {mou.documentLinks.map((link) => (
@@ -1024,6 +1110,7 @@ export default function MOUsMasterPage() {
                           placeholder="Document title"
                           value={link.title}
                           onChange={(e) => updateDocumentLink(mou.id, link.id, 'title', e.target.value)}
+                          disabled={!canEdit}
                           variant="standard"
                           sx={{ 
                             flex: 1,
@@ -1034,6 +1121,7 @@ export default function MOUsMasterPage() {
                           <Select
                             value={link.type}
                             onChange={(e) => updateDocumentLink(mou.id, link.id, 'type', e.target.value)}
+                            disabled={!canEdit}
                             variant="standard"
                             sx={{ fontSize: '0.7rem' }}
                           >
@@ -1043,7 +1131,7 @@ export default function MOUsMasterPage() {
                             <MenuItem value="Other">Other</MenuItem>
                           </Select>
                         </FormControl>
-                        {mou.documentLinks.length > 1 && (
+                        {canEdit && mou.documentLinks.length > 1 && (
                           <IconButton
                             size="small"
                             onClick={() => removeDocumentLink(mou.id, link.id)}
@@ -1061,6 +1149,7 @@ export default function MOUsMasterPage() {
                           placeholder="Paste document link (PDF, Google Docs, Google Sheets)..."
                           value={link.url}
                           onChange={(e) => updateDocumentLink(mou.id, link.id, 'url', e.target.value)}
+                          disabled={!canEdit}
                           variant="outlined"
                           sx={{ 
                             '& .MuiOutlinedInput-root': {
@@ -1095,6 +1184,10 @@ export default function MOUsMasterPage() {
           <EditIcon sx={{ mr: 1 }} />
           Edit MOU
         </MenuItem>
+        <MenuItem onClick={() => { setLifecycleMOU(selectedMOU); handleMenuClose(); }}>
+          <LifecycleIcon sx={{ mr: 1 }} />
+          Obligations, Reviews & Renewal
+        </MenuItem>
         <MenuItem 
           onClick={() => selectedMOU && handleDeleteMOU(selectedMOU)}
           sx={{ color: 'error.main' }}
@@ -1317,6 +1410,19 @@ export default function MOUsMasterPage() {
         </DialogActions>
       </Dialog>
 
+      {lifecycleMOU && (
+        <MOULifecycleDialog
+          key={lifecycleMOU.id}
+          mou={lifecycleMOU}
+          obligations={obligations.filter(o => o.mou_id === lifecycleMOU.id)}
+          reviews={reviews.filter(r => r.mou_id === lifecycleMOU.id)}
+          onClose={() => setLifecycleMOU(null)}
+          onObligationSaved={handleObligationSaved}
+          onReviewSaved={handleReviewSaved}
+          onStatusChange={handleLifecycleStatusChange}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onClose={() => setIsDeleteDialogOpen(false)}>
         <DialogTitle>Delete MOU</DialogTitle>
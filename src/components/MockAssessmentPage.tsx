@@ -0,0 +1,538 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Switch from '@mui/material/Switch';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import LinearProgress from '@mui/material/LinearProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { ASSIGNEE_OPTIONS } from '../config/hospitalConfig';
+import { loadAllEvidenceSummaries } from '../services/objectiveStorage';
+import { runMockAssessment, NABH_PASS_RULES } from '../services/mockAssessmentEngine';
+import {
+  saveMockAssessmentRun,
+  loadMockAssessmentRuns,
+  deleteMockAssessmentRun,
+} from '../services/mockAssessmentStorage';
+import type { MockAssessmentResult, MockAssessmentRun, ElementScore } from '../types/mockAssessment';
+
+const SCORE_COLORS: Record<ElementScore, 'success' | 'warning' | 'error'> = {
+  10: 'success',
+  5: 'warning',
+  0: 'error',
+};
+
+const runToResult = (run: MockAssessmentRun): MockAssessmentResult => ({
+  summary: run.summary,
+  chapters: run.chapter_results,
+  elements: run.element_results,
+});
+
+export default function MockAssessmentPage() {
+  const navigate = useNavigate();
+  const { chapters, selectedHospital, isLoadingFromSupabase } = useNABHStore();
+
+  const [result, setResult] = useState<MockAssessmentResult | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<MockAssessmentRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  const [assessedBy, setAssessedBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [chapterFilter, setChapterFilter] = useState('all');
+  const [showGapsOnly, setShowGapsOnly] = useState(true);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' | 'info' });
+
+  // A hospital without runs must not keep showing the previous hospital's result, and a
+  // slow response for a hospital switched away from must not overwrite the current one
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRuns = async () => {
+      setIsLoadingRuns(true);
+      setRuns([]);
+      setResult(null);
+      setActiveRunId(null);
+      const runsResult = await loadMockAssessmentRuns(selectedHospital);
+      if (cancelled) return;
+      if (runsResult.success && runsResult.data) {
+        setRuns(runsResult.data);
+        if (runsResult.data.length > 0) {
+          setResult(runToResult(runsResult.data[0]));
+          setActiveRunId(runsResult.data[0].id);
+        }
+      }
+      setIsLoadingRuns(false);
+    };
+    fetchRuns();
+    return () => { cancelled = true; };
+  }, [selectedHospital]);
+
+  const handleRunAssessment = async () => {
+    if (chapters.length === 0) {
+      setSnackbar({ open: true, message: 'NABH chapters are not loaded yet', severity: 'error' });
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const evidenceResult = await loadAllEvidenceSummaries();
+      if (!evidenceResult.success) {
+        setSnackbar({ open: true, message: 'Could not load saved evidence, scoring from uploads only', severity: 'info' });
+      }
+
+      const assessment = runMockAssessment(chapters, evidenceResult.data || {});
+      setResult(assessment);
+
+      const saveResult = await saveMockAssessmentRun(selectedHospital, assessment, assessedBy, notes);
+      if (saveResult.success && saveResult.data) {
+        setRuns([saveResult.data, ...runs]);
+        setActiveRunId(saveResult.data.id);
+        setNotes('');
+        setSnackbar({ open: true, message: 'Mock assessment completed and saved', severity: 'success' });
+      } else {
+        setActiveRunId(null);
+        setSnackbar({ open: true, message: `Assessment scored but not saved: ${saveResult.error}`, severity: 'error' });
+      }
+    } catch (error) {
+      console.error('Error running mock assessment:', error);
+      setSnackbar({ open: true, message: 'Failed to run mock assessment', severity: 'error' });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleViewRun = (run: MockAssessmentRun) => {
+    setResult(runToResult(run));
+    setActiveRunId(run.id);
+    setChapterFilter('all');
+  };
+
+  const handleDeleteRun = async (run: MockAssessmentRun) => {
+    if (!confirm(`Delete the mock assessment run of ${new Date(run.created_at).toLocaleString()}?`)) return;
+
+    const deleteResult = await deleteMockAssessmentRun(run.id);
+    if (deleteResult.success) {
+      setRuns(runs.filter(r => r.id !== run.id));
+      if (activeRunId === run.id) {
+        setResult(null);
+        setActiveRunId(null);
+      }
+      setSnackbar({ open: true, message: 'Assessment run deleted', severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: 'Failed to delete assessment run', severity: 'error' });
+    }
+  };
+
+  const filteredElements = useMemo(() => {
+    if (!result) return [];
+    return result.elements.filter(e =>
+      (chapterFilter === 'all' || e.chapterCode === chapterFilter) &&
+      (!showGapsOnly || e.score < 10)
+    );
+  }, [result, chapterFilter, showGapsOnly]);
+
+  // Compare each run with the run before it
+  const getRunDelta = (index: number): number | null => {
+    const previous = runs[index + 1];
+    if (!previous) return null;
+    return runs[index].overall_percentage - previous.overall_percentage;
+  };
+
+  const openElement = (chapterCode: string, objectiveCode: string) => {
+    navigate(`/objective/${chapterCode.toLowerCase()}/${objectiveCode}`);
+  };
+
+  const raiseNC = (objectiveCode: string, findings: string[]) => {
+    const params = new URLSearchParams({
+      objective: objectiveCode,
+      source: 'Mock Survey',
+      finding: findings.join('; '),
+      ref: activeRunId || '',
+    });
+    navigate(`/nc-register?${params.toString()}`);
+  };
+
+  if (isLoadingFromSupabase) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Mock NABH Assessment
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Scores every objective element on the NABH 0/5/10 scale. Core elements must score {NABH_PASS_RULES.coreElementScore};
+            each chapter and the overall average must reach {NABH_PASS_RULES.minChapterAverage}/10.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <TextField
+            select
+            size="small"
+            label="Assessed By"
+            value={assessedBy}
+            onChange={(e) => setAssessedBy(e.target.value)}
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value="">Not specified</MenuItem>
+            {ASSIGNEE_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Run Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            sx={{ minWidth: 220 }}
+          />
+          <Button
+            variant="contained"
+            startIcon={isRunning ? <CircularProgress size={18} color="inherit" /> : <Icon>fact_check</Icon>}
+            onClick={handleRunAssessment}
+            disabled={isRunning}
+          >
+            {isRunning ? 'Assessing...' : 'Run Mock Assessment'}
+          </Button>
+        </Box>
+      </Box>
+
+      {!result ? (
+        <Paper sx={{ p: 6, textAlign: 'center' }}>
+          {isLoadingRuns ? (
+            <CircularProgress />
+          ) : (
+            <>
+              <Icon sx={{ fontSize: 48, color: 'text.secondary' }}>assignment_turned_in</Icon>
+              <Typography variant="h6" color="text.secondary" sx={{ mt: 1 }}>
+                No mock assessment has been run yet
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Click "Run Mock Assessment" to grade all {chapters.reduce((sum, c) => sum + c.objectives.length, 0)} objective elements.
+              </Typography>
+            </>
+          )}
+        </Paper>
+      ) : (
+        <>
+          {/* Summary */}
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Paper sx={{ p: 3, height: '100%', textAlign: 'center' }}>
+                <Typography variant="h3" fontWeight={700} color={result.summary.passed ? 'success.main' : 'error.main'}>
+                  {result.summary.passed ? 'PASS' : 'FAIL'}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">Predicted Outcome</Typography>
+              </Paper>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Paper sx={{ p: 3, height: '100%', textAlign: 'center' }}>
+                <Typography variant="h3" fontWeight={700}>
+                  {result.summary.averageScore.toFixed(1)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">Average Score (out of 10)</Typography>
+              </Paper>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Paper sx={{ p: 3, height: '100%', textAlign: 'center' }}>
+                <Typography variant="h3" fontWeight={700} color="primary.main">
+                  {result.summary.percentage}%
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {result.summary.totalScore} / {result.summary.maxScore} points
+                </Typography>
+              </Paper>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Paper sx={{ p: 3, height: '100%', textAlign: 'center' }}>
+                <Typography variant="h3" fontWeight={700} color={result.summary.coreFailures.length > 0 ? 'error.main' : 'success.main'}>
+                  {result.summary.coreFailures.length}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Core elements below 10 (of {result.summary.coreElements})
+                </Typography>
+              </Paper>
+            </Grid>
+          </Grid>
+
+          {result.summary.coreFailures.length > 0 && (
+            <Alert severity="error" sx={{ mb: 3 }}>
+              Core elements not fully compliant: {result.summary.coreFailures.join(', ')}
+            </Alert>
+          )}
+
+          {/* Chapter-wise results */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+              Chapter-wise Scores
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Chapter</TableCell>
+                    <TableCell align="center">Elements</TableCell>
+                    <TableCell align="center">Avg (0-10)</TableCell>
+                    <TableCell sx={{ minWidth: 160 }}>Score</TableCell>
+                    <TableCell align="center">10 / 5 / 0</TableCell>
+                    <TableCell align="center">Core Gaps</TableCell>
+                    <TableCell align="center">Result</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.chapters.map(chapter => (
+                    <TableRow
+                      key={chapter.chapterCode}
+                      hover
+                      selected={chapterFilter === chapter.chapterCode}
+                      onClick={() => setChapterFilter(chapterFilter === chapter.chapterCode ? 'all' : chapter.chapterCode)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>{chapter.chapterCode}</Typography>
+                        <Typography variant="caption" color="text.secondary">{chapter.chapterName}</Typography>
+                      </TableCell>
+                      <TableCell align="center">{chapter.elementCount}</TableCell>
+                      <TableCell align="center">{chapter.averageScore.toFixed(1)}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <LinearProgress
+                            variant="determinate"
+                            value={chapter.percentage}
+                            color={chapter.passed ? 'success' : 'error'}
+                            sx={{ flexGrow: 1, height: 6 }}
+                          />
+                          <Typography variant="caption">{chapter.percentage}%</Typography>
+                        </Box>
+                      </TableCell>
+                      <TableCell align="center">
+                        {chapter.fullyCompliant} / {chapter.partiallyCompliant} / {chapter.notCompliant}
+                      </TableCell>
+                      <TableCell align="center">
+                        {chapter.coreFailures.length > 0 ? (
+                          <Tooltip title={chapter.coreFailures.join(', ')}>
+                            <Chip label={`${chapter.coreFailures.length} of ${chapter.coreElements}`} size="small" color="error" />
+                          </Tooltip>
+                        ) : (
+                          <Typography variant="caption" color="text.secondary">{chapter.coreElements} core OK</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="center">
+                        <Chip label={chapter.passed ? 'Pass' : 'Fail'} size="small" color={chapter.passed ? 'success' : 'error'} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+
+          {/* Element drill-down */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+              <Typography variant="h6" fontWeight={600}>
+                Element Scores {chapterFilter !== 'all' && `- ${chapterFilter}`}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Chapter"
+                  value={chapterFilter}
+                  onChange={(e) => setChapterFilter(e.target.value)}
+                  sx={{ minWidth: 140 }}
+                >
+                  <MenuItem value="all">All Chapters</MenuItem>
+                  {result.chapters.map(c => (
+                    <MenuItem key={c.chapterCode} value={c.chapterCode}>{c.chapterCode}</MenuItem>
+                  ))}
+                </TextField>
+                <FormControlLabel
+                  control={<Switch checked={showGapsOnly} onChange={(e) => setShowGapsOnly(e.target.checked)} />}
+                  label="Gaps only"
+                />
+              </Box>
+            </Box>
+            <TableContainer sx={{ maxHeight: 520 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Code</TableCell>
+                    <TableCell>Element</TableCell>
+                    <TableCell align="center">Category</TableCell>
+                    <TableCell align="center">Score</TableCell>
+                    <TableCell>Assessor Findings</TableCell>
+                    <TableCell align="right">NC</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {filteredElements.map(element => (
+                    <TableRow
+                      key={element.objectiveCode}
+                      hover
+                      onClick={() => openElement(element.chapterCode, element.objectiveCode)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        <Typography variant="body2" fontWeight={600}>{element.objectiveCode}</Typography>
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 380 }}>
+                        <Typography variant="body2" noWrap title={element.title}>{element.title}</Typography>
+                      </TableCell>
+                      <TableCell align="center">
+                        <Chip
+                          label={element.category}
+                          size="small"
+                          color={element.isCore ? 'error' : 'default'}
+                          variant={element.isCore ? 'filled' : 'outlined'}
+                        />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Chip label={element.score} size="small" color={SCORE_COLORS[element.score]} />
+                      </TableCell>
+                      <TableCell>
+                        {element.findings.length === 0 ? (
+                          <Typography variant="caption" color="success.main">Fully compliant</Typography>
+                        ) : (
+                          element.findings.map((finding, index) => (
+                            <Typography key={index} variant="caption" display="block" color="text.secondary">
+                              • {finding}
+                            </Typography>
+                          ))
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        {element.score < 10 && (
+                          <Tooltip title="Raise NC from this finding">
+                            <IconButton
+                              size="small"
+                              color="warning"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                raiseNC(element.objectiveCode, element.findings);
+                              }}
+                            >
+                              <Icon fontSize="small">report_problem</Icon>
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {filteredElements.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                          No elements to show
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+
+      {/* Run history */}
+      {runs.length > 0 && (
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+            Assessment History
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Assessed By</TableCell>
+                  <TableCell align="center">Avg Score</TableCell>
+                  <TableCell align="center">Score %</TableCell>
+                  <TableCell align="center">Change</TableCell>
+                  <TableCell align="center">Core Gaps</TableCell>
+                  <TableCell align="center">Result</TableCell>
+                  <TableCell>Notes</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {runs.map((run, index) => {
+                  const delta = getRunDelta(index);
+                  return (
+                    <TableRow key={run.id} selected={run.id === activeRunId}>
+                      <TableCell>{new Date(run.created_at).toLocaleString('en-GB')}</TableCell>
+                      <TableCell>{run.assessed_by || '-'}</TableCell>
+                      <TableCell align="center">{Number(run.overall_score).toFixed(1)}</TableCell>
+                      <TableCell align="center">{run.overall_percentage}%</TableCell>
+                      <TableCell align="center">
+                        {delta === null ? '-' : (
+                          <Typography variant="body2" color={delta > 0 ? 'success.main' : delta < 0 ? 'error.main' : 'text.secondary'}>
+                            {delta > 0 ? `+${delta}` : delta}%
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="center">{run.summary.coreFailures.length}</TableCell>
+                      <TableCell align="center">
+                        <Chip label={run.passed ? 'Pass' : 'Fail'} size="small" color={run.passed ? 'success' : 'error'} />
+                      </TableCell>
+                      <TableCell>{run.notes || ''}</TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title="View this run">
+                          <IconButton size="small" onClick={() => handleViewRun(run)}>
+                            <Icon fontSize="small">visibility</Icon>
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete run">
+                          <IconButton size="small" color="error" onClick={() => handleDeleteRun(run)}>
+                            <Icon fontSize="small">delete</Icon>
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
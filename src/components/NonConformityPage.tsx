@@ -0,0 +1,502 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Autocomplete from '@mui/material/Autocomplete';
+import Divider from '@mui/material/Divider';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import LinearProgress from '@mui/material/LinearProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
+import { ASSIGNEE_OPTIONS } from '../config/hospitalConfig';
+import {
+  loadNonConformities,
+  createNonConformities,
+  updateNonConformity,
+  deleteNonConformity,
+  getNCAgeDays,
+  getNCAgeingBucket,
+  isNCOverdue,
+  tagObjectiveWithNC,
+} from '../services/nonConformityStorage';
+import type {
+  NonConformity,
+  NonConformityInput,
+  NCSource,
+  NCSeverity,
+  NCStatus,
+  NCAgeingBucket,
+} from '../types/nonConformity';
+
+const NC_SOURCES: NCSource[] = ['Mock Survey', 'Clinical Audit', 'External Assessor', 'Internal Audit', 'Other'];
+const NC_SEVERITIES: NCSeverity[] = ['Major', 'Minor', 'Observation'];
+const NC_STATUSES: NCStatus[] = ['Open', 'CAPA In Progress', 'Pending Verification', 'Closed'];
+const AGEING_BUCKETS: NCAgeingBucket[] = ['0-30 days', '31-60 days', '61-90 days', '90+ days'];
+
+const STATUS_COLORS: Record<NCStatus, 'error' | 'warning' | 'info' | 'success'> = {
+  'Open': 'error',
+  'CAPA In Progress': 'warning',
+  'Pending Verification': 'info',
+  'Closed': 'success',
+};
+
+const emptyForm = (): Partial<NonConformityInput> => ({
+  objective_code: '',
+  finding: '',
+  source: 'Internal Audit',
+  source_reference: '',
+  severity: 'Minor',
+  raised_by: '',
+  raised_date: new Date().toISOString().split('T')[0],
+  root_cause: '',
+  correction: '',
+  corrective_action: '',
+  preventive_action: '',
+  capa_owner: '',
+  due_date: '',
+  closure_evidence: '',
+  closure_date: '',
+  verified_by: '',
+  verified_date: '',
+  verification_remarks: '',
+  status: 'Open',
+});
+
+export default function NonConformityPage() {
+  const { chapters, selectedHospital, updateObjective } = useNABHStore();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const canEdit = useCapability('edit_content');
+
+  const [ncs, setNcs] = useState<NonConformity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingNC, setEditingNC] = useState<NonConformity | null>(null);
+  const [form, setForm] = useState<Partial<NonConformityInput>>(emptyForm());
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<NCStatus | 'all' | 'active'>('active');
+  const [sourceFilter, setSourceFilter] = useState<NCSource | 'all'>('all');
+  const [chapterFilter, setChapterFilter] = useState('all');
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' | 'info' });
+
+  const objectiveCodes = useMemo(
+    () => chapters.flatMap(c => c.objectives.map(o => o.code)),
+    [chapters]
+  );
+
+  useEffect(() => {
+    const fetchNCs = async () => {
+      setLoading(true);
+      const result = await loadNonConformities(selectedHospital);
+      if (result.success && result.data) {
+        setNcs(result.data);
+      } else {
+        setSnackbar({ open: true, message: 'Failed to load NC register', severity: 'error' });
+      }
+      setLoading(false);
+    };
+    fetchNCs();
+  }, [selectedHospital]);
+
+  // Open a prefilled dialog when arriving from another page (e.g. mock assessment)
+  useEffect(() => {
+    const objective = searchParams.get('objective');
+    if (!objective || !canEdit) return;
+
+    setEditingNC(null);
+    setForm({
+      ...emptyForm(),
+      objective_code: objective,
+      finding: searchParams.get('finding') || '',
+      source: (searchParams.get('source') as NCSource) || 'Internal Audit',
+      source_reference: searchParams.get('ref') || '',
+    });
+    setIsDialogOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, canEdit]);
+
+  const filteredNCs = useMemo(() => ncs.filter(nc =>
+    (statusFilter === 'all' || (statusFilter === 'active' ? nc.status !== 'Closed' : nc.status === statusFilter)) &&
+    (sourceFilter === 'all' || nc.source === sourceFilter) &&
+    (chapterFilter === 'all' || nc.chapter_code === chapterFilter)
+  ), [ncs, statusFilter, sourceFilter, chapterFilter]);
+
+  const openNCs = ncs.filter(nc => nc.status !== 'Closed');
+  const overdueCount = openNCs.filter(nc => isNCOverdue(nc)).length;
+  const ageingCounts = AGEING_BUCKETS.map(bucket => ({
+    bucket,
+    count: openNCs.filter(nc => getNCAgeingBucket(getNCAgeDays(nc)) === bucket).length,
+  }));
+
+  const handleOpenAdd = () => {
+    setEditingNC(null);
+    setForm(emptyForm());
+    setIsDialogOpen(true);
+  };
+
+  const handleOpenEdit = (nc: NonConformity) => {
+    setEditingNC(nc);
+    setForm({ ...nc });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.finding?.trim() || !form.objective_code?.trim()) {
+      setSnackbar({ open: true, message: 'Objective code and finding are required', severity: 'error' });
+      return;
+    }
+    if (form.status === 'Closed' && (!form.closure_evidence?.trim() || !form.verified_by)) {
+      setSnackbar({ open: true, message: 'Closure evidence and verification are required to close an NC', severity: 'error' });
+      return;
+    }
+
+    const objectiveCode = form.objective_code.trim();
+    const payload: Partial<NonConformityInput> = {
+      ...form,
+      objective_code: objectiveCode,
+      chapter_code: objectiveCode.split('.')[0].toUpperCase(),
+      source_reference: form.source_reference || null,
+      raised_by: form.raised_by || null,
+      root_cause: form.root_cause || null,
+      correction: form.correction || null,
+      corrective_action: form.corrective_action || null,
+      preventive_action: form.preventive_action || null,
+      capa_owner: form.capa_owner || null,
+      due_date: form.due_date || null,
+      closure_evidence: form.closure_evidence || null,
+      closure_date: form.status === 'Closed' ? (form.closure_date || new Date().toISOString().split('T')[0]) : (form.closure_date || null),
+      verified_by: form.verified_by || null,
+      verified_date: form.verified_date || null,
+      verification_remarks: form.verification_remarks || null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingNC) {
+        const result = await updateNonConformity(editingNC.id, payload);
+        if (!result.success || !result.data) throw new Error(result.error);
+        setNcs(ncs.map(nc => nc.id === editingNC.id ? result.data! : nc));
+        setSnackbar({ open: true, message: `${editingNC.nc_number} updated`, severity: 'success' });
+      } else {
+        const record = {
+          ...payload,
+          hospital_id: selectedHospital,
+        } as NonConformityInput;
+        const result = await createNonConformities([record]);
+        if (!result.success || !result.data) throw new Error(result.error);
+        setNcs([...result.data, ...ncs]);
+        const ncNumber = result.data[0]?.nc_number;
+
+        const tagResult = await tagObjectiveWithNC(chapters, objectiveCode, updateObjective);
+        setSnackbar({
+          open: true,
+          message: tagResult.success
+            ? `${ncNumber} raised and ${objectiveCode} tagged as Prev NC`
+            : `${ncNumber} raised (objective not tagged: ${tagResult.error})`,
+          severity: tagResult.success ? 'success' : 'info',
+        });
+      }
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving NC:', error);
+      setSnackbar({ open: true, message: 'Failed to save NC', severity: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (nc: NonConformity) => {
+    if (!confirm(`Delete ${nc.nc_number}? This cannot be undone.`)) return;
+
+    const result = await deleteNonConformity(nc.id);
+    if (result.success) {
+      setNcs(ncs.filter(n => n.id !== nc.id));
+      setSnackbar({ open: true, message: `${nc.nc_number} deleted`, severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: 'Failed to delete NC', severity: 'error' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Non-Conformity Register
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            NCs from mock surveys, clinical audits and assessors with corrective & preventive action tracking
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button variant="contained" startIcon={<Icon>add</Icon>} onClick={handleOpenAdd}>
+            Raise NC
+          </Button>
+        )}
+      </Box>
+
+      {/* Stats */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        {NC_STATUSES.map(status => (
+          <Grid key={status} size={{ xs: 6, md: 2.4 }}>
+            <Paper sx={{ p: 2, textAlign: 'center', cursor: 'pointer' }} onClick={() => setStatusFilter(status)}>
+              <Typography variant="h4" fontWeight={700} color={`${STATUS_COLORS[status]}.main`}>
+                {ncs.filter(nc => nc.status === status).length}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">{status}</Typography>
+            </Paper>
+          </Grid>
+        ))}
+        <Grid size={{ xs: 6, md: 2.4 }}>
+          <Paper sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h4" fontWeight={700} color="error.dark">{overdueCount}</Typography>
+            <Typography variant="body2" color="text.secondary">Overdue CAPA</Typography>
+          </Paper>
+        </Grid>
+      </Grid>
+
+      {/* Ageing view */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" fontWeight={600} sx={{ mb: 2 }}>
+          Open NC Ageing
+        </Typography>
+        <Grid container spacing={3}>
+          {ageingCounts.map(({ bucket, count }, index) => (
+            <Grid key={bucket} size={{ xs: 12, sm: 6, md: 3 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                <Typography variant="body2">{bucket}</Typography>
+                <Typography variant="body2" fontWeight={600}>{count}</Typography>
+              </Box>
+              <LinearProgress
+                variant="determinate"
+                value={openNCs.length > 0 ? (count / openNCs.length) * 100 : 0}
+                color={index === 0 ? 'success' : index === 1 ? 'info' : index === 2 ? 'warning' : 'error'}
+                sx={{ height: 8, borderRadius: 4 }}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      </Paper>
+
+      {/* Filters */}
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <TextField select size="small" label="Status" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as NCStatus | 'all' | 'active')} sx={{ minWidth: 200 }}>
+          <MenuItem value="active">All Open (not closed)</MenuItem>
+          <MenuItem value="all">All</MenuItem>
+          {NC_STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label="Source" value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value as NCSource | 'all')} sx={{ minWidth: 180 }}>
+          <MenuItem value="all">All Sources</MenuItem>
+          {NC_SOURCES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label="Chapter" value={chapterFilter} onChange={(e) => setChapterFilter(e.target.value)} sx={{ minWidth: 140 }}>
+          <MenuItem value="all">All Chapters</MenuItem>
+          {chapters.map(c => <MenuItem key={c.code} value={c.code}>{c.code}</MenuItem>)}
+        </TextField>
+      </Box>
+
+      {/* Register */}
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>NC No.</TableCell>
+                <TableCell>Objective</TableCell>
+                <TableCell>Finding</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell>Severity</TableCell>
+                <TableCell>CAPA Owner</TableCell>
+                <TableCell>Due</TableCell>
+                <TableCell align="center">Age</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredNCs.map(nc => {
+                const overdue = isNCOverdue(nc);
+                return (
+                  <TableRow key={nc.id} hover>
+                    <TableCell sx={{ whiteSpace: 'nowrap', fontWeight: 600 }}>{nc.nc_number}</TableCell>
+                    <TableCell>{nc.objective_code || '-'}</TableCell>
+                    <TableCell sx={{ maxWidth: 320 }}>
+                      <Typography variant="body2">{nc.finding}</Typography>
+                      {nc.root_cause && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          Root cause: {nc.root_cause}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{nc.source}</TableCell>
+                    <TableCell>
+                      <Chip label={nc.severity} size="small" color={nc.severity === 'Major' ? 'error' : nc.severity === 'Minor' ? 'warning' : 'default'} variant="outlined" />
+                    </TableCell>
+                    <TableCell>{nc.capa_owner || '-'}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {nc.due_date ? (
+                        <Typography variant="body2" color={overdue ? 'error.main' : 'text.primary'} fontWeight={overdue ? 600 : 400}>
+                          {new Date(nc.due_date).toLocaleDateString('en-GB')}
+                        </Typography>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell align="center">{getNCAgeDays(nc)}d</TableCell>
+                    <TableCell>
+                      <Chip label={nc.status} size="small" color={STATUS_COLORS[nc.status]} />
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {canEdit && (
+                        <>
+                          <Tooltip title="Edit / Update CAPA">
+                            <IconButton size="small" onClick={() => handleOpenEdit(nc)}>
+                              <Icon fontSize="small">edit</Icon>
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Delete">
+                            <IconButton size="small" color="error" onClick={() => handleDelete(nc)}>
+                              <Icon fontSize="small">delete</Icon>
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {filteredNCs.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} align="center">
+                    <Typography variant="body2" color="text.secondary" sx={{ py: 3 }}>
+                      No non-conformities match the current filters
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* Raise / Edit Dialog */}
+      <Dialog open={isDialogOpen} onClose={() => setIsDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editingNC ? `Update ${editingNC.nc_number}` : 'Raise Non-Conformity'}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <Autocomplete
+                freeSolo
+                options={objectiveCodes}
+                value={form.objective_code || ''}
+                onInputChange={(_, value) => setForm({ ...form, objective_code: value })}
+                renderInput={(params) => <TextField {...params} label="Objective Code" placeholder="e.g. COP.4.b" required />}
+                sx={{ flex: 1 }}
+              />
+              <TextField select label="Source" value={form.source || 'Internal Audit'} onChange={(e) => setForm({ ...form, source: e.target.value as NCSource })} sx={{ flex: 1 }}>
+                {NC_SOURCES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+              </TextField>
+              <TextField select label="Severity" value={form.severity || 'Minor'} onChange={(e) => setForm({ ...form, severity: e.target.value as NCSeverity })} sx={{ flex: 1 }}>
+                {NC_SEVERITIES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+              </TextField>
+            </Box>
+            <TextField
+              label="Finding"
+              required
+              multiline
+              rows={3}
+              value={form.finding || ''}
+              onChange={(e) => setForm({ ...form, finding: e.target.value })}
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField label="Source Reference" value={form.source_reference || ''} onChange={(e) => setForm({ ...form, source_reference: e.target.value })} sx={{ flex: 1 }} />
+              <TextField select label="Raised By" value={form.raised_by || ''} onChange={(e) => setForm({ ...form, raised_by: e.target.value })} sx={{ flex: 1 }}>
+                <MenuItem value="">Not specified</MenuItem>
+                {ASSIGNEE_OPTIONS.map(o => <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>)}
+              </TextField>
+              <TextField label="Raised Date" type="date" value={form.raised_date || ''} onChange={(e) => setForm({ ...form, raised_date: e.target.value })} InputLabelProps={{ shrink: true }} sx={{ flex: 1 }} />
+            </Box>
+
+            <Divider>CAPA</Divider>
+            <TextField label="Root Cause" multiline rows={2} value={form.root_cause || ''} onChange={(e) => setForm({ ...form, root_cause: e.target.value })} />
+            <TextField label="Correction (immediate)" multiline rows={2} value={form.correction || ''} onChange={(e) => setForm({ ...form, correction: e.target.value })} />
+            <TextField label="Corrective Action" multiline rows={2} value={form.corrective_action || ''} onChange={(e) => setForm({ ...form, corrective_action: e.target.value })} />
+            <TextField label="Preventive Action" multiline rows={2} value={form.preventive_action || ''} onChange={(e) => setForm({ ...form, preventive_action: e.target.value })} />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField select label="CAPA Owner" value={form.capa_owner || ''} onChange={(e) => setForm({ ...form, capa_owner: e.target.value })} sx={{ flex: 1 }}>
+                <MenuItem value="">Unassigned</MenuItem>
+                {ASSIGNEE_OPTIONS.map(o => <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>)}
+              </TextField>
+              <TextField label="Due Date" type="date" value={form.due_date || ''} onChange={(e) => setForm({ ...form, due_date: e.target.value })} InputLabelProps={{ shrink: true }} sx={{ flex: 1 }} />
+              <TextField select label="Status" value={form.status || 'Open'} onChange={(e) => setForm({ ...form, status: e.target.value as NCStatus })} sx={{ flex: 1 }}>
+                {NC_STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+              </TextField>
+            </Box>
+
+            <Divider>Closure & Verification</Divider>
+            <TextField
+              label="Closure Evidence"
+              placeholder="Link to evidence or description of records showing the CAPA is implemented"
+              multiline
+              rows={2}
+              value={form.closure_evidence || ''}
+              onChange={(e) => setForm({ ...form, closure_evidence: e.target.value })}
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField label="Closure Date" type="date" value={form.closure_date || ''} onChange={(e) => setForm({ ...form, closure_date: e.target.value })} InputLabelProps={{ shrink: true }} sx={{ flex: 1 }} />
+              <TextField select label="Verified By" value={form.verified_by || ''} onChange={(e) => setForm({ ...form, verified_by: e.target.value })} sx={{ flex: 1 }}>
+                <MenuItem value="">Not verified</MenuItem>
+                {ASSIGNEE_OPTIONS.map(o => <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>)}
+              </TextField>
+              <TextField label="Verified Date" type="date" value={form.verified_date || ''} onChange={(e) => setForm({ ...form, verified_date: e.target.value })} InputLabelProps={{ shrink: true }} sx={{ flex: 1 }} />
+            </Box>
+            <TextField label="Verification Remarks" multiline rows={2} value={form.verification_remarks || ''} onChange={(e) => setForm({ ...form, verification_remarks: e.target.value })} />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : editingNC ? 'Update NC' : 'Raise NC'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
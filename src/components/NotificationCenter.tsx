@@ -0,0 +1,133 @@
+/**
+ * Notification Centre
+ * Header bell listing the selected hospital's notifications addressed to the signed-in
+ * user's NABH team member. Reminders are sent by the daily server-side run (api/license-reminders.ts).
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import IconButton from '@mui/material/IconButton';
+import Icon from '@mui/material/Icon';
+import Badge from '@mui/material/Badge';
+import Tooltip from '@mui/material/Tooltip';
+import Popover from '@mui/material/Popover';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import ListItemText from '@mui/material/ListItemText';
+import Divider from '@mui/material/Divider';
+import { useNABHStore } from '../store/nabhStore';
+import { useAuthStore } from '../store/authStore';
+import { loadNotifications, markNotificationsRead } from '../services/notificationStorage';
+import type { AppNotification, NotificationSeverity } from '../types/notification';
+
+const SEVERITY_ICONS: Record<NotificationSeverity, { icon: string; color: string }> = {
+  info: { icon: 'info', color: 'info.main' },
+  warning: { icon: 'schedule', color: 'warning.main' },
+  error: { icon: 'priority_high', color: 'error.main' },
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function NotificationCenter() {
+  const navigate = useNavigate();
+  const { selectedHospital } = useNABHStore();
+  const recipient = useAuthStore((state) => state.user?.team_member_name || null);
+  const [loaded, setLoaded] = useState<AppNotification[]>([]);
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+  useEffect(() => {
+    if (!recipient) return;
+    let cancelled = false;
+    const fetchNotifications = async () => {
+      const result = await loadNotifications(selectedHospital, recipient);
+      if (!cancelled) setLoaded(result.data || []);
+    };
+    fetchNotifications();
+    return () => { cancelled = true; };
+  }, [selectedHospital, recipient]);
+
+  // Logins not linked to a team member have no notifications of their own
+  const notifications = recipient ? loaded : [];
+  const unread = notifications.filter(n => !n.read_at);
+
+  const markRead = async (ids: string[]) => {
+    if (!recipient) return;
+    const result = await markNotificationsRead(ids, recipient);
+    if (result.success) {
+      const readAt = new Date().toISOString();
+      setLoaded(prev => prev.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)));
+    }
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    setAnchorEl(null);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <>
+      <Tooltip title="Notifications">
+        <IconButton color="inherit" onClick={(e) => setAnchorEl(e.currentTarget)} sx={{ mr: 1 }}>
+          <Badge badgeContent={unread.length} color="error" max={99}>
+            <Icon>notifications</Icon>
+          </Badge>
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        slotProps={{ paper: { sx: { width: 380, maxHeight: 480 } } }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', px: 2, py: 1.5 }}>
+          <Typography variant="subtitle1" fontWeight={600}>Notifications</Typography>
+          <Button size="small" disabled={unread.length === 0} onClick={() => markRead(unread.map(n => n.id))}>
+            Mark all read
+          </Button>
+        </Box>
+        <Divider />
+        {notifications.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+            {recipient ? 'No notifications' : 'Link your login to a NABH team member to receive notifications'}
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {notifications.map(notification => (
+              <ListItemButton
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                sx={{ alignItems: 'flex-start', bgcolor: notification.read_at ? 'transparent' : 'action.hover' }}
+              >
+                <ListItemIcon sx={{ minWidth: 36, mt: 0.5 }}>
+                  <Icon sx={{ color: SEVERITY_ICONS[notification.severity].color }}>
+                    {SEVERITY_ICONS[notification.severity].icon}
+                  </Icon>
+                </ListItemIcon>
+                <ListItemText
+                  primary={notification.title}
+                  slotProps={{ primary: { fontWeight: notification.read_at ? 400 : 600 } }}
+                  secondary={
+                    <>
+                      {notification.message}
+                      <Typography component="span" variant="caption" display="block" color="text.secondary">
+                        {formatTime(notification.created_at)}
+                      </Typography>
+                    </>
+                  }
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </Popover>
+    </>
+  );
+}
@@ -41,9 +41,10 @@ import DialogTitle from '@mui/material/DialogTitle';
 import DialogContent from '@mui/material/DialogContent';
 import DialogActions from '@mui/material/DialogActions';
 import { useNABHStore } from '../store/nabhStore';
+import { useCapability } from '../store/authStore';
 import type { Status, Priority, ElementCategory, EvidenceFile, YouTubeVideo, TrainingMaterial, SOPDocument } from '../types/nabh';
 import { ASSIGNEE_OPTIONS, getHospitalInfo, getNABHCoordinator } from '../config/hospitalConfig';
-import { getClaudeApiKey, callGeminiAPI } from '../lib/supabase';
+import { generateAI, callGeminiAPI } from '../services/aiGatewayClient';
 import {
   saveObjectiveToSupabase,
   loadObjectiveFromSupabase,
@@ -116,6 +117,7 @@ export default function ObjectiveDetailPage() {
   // Helper: apply search highlighting to HTML content
   const applyHighlight = (html: string) => searchQuery ? highlightSearchTerms(html, searchQuery) : html;
   const { chapters, updateObjective, setSelectedChapter, isLoadingFromSupabase, loadDataFromSupabase, selectedHospital, setSelectedEvidenceForCreation } = useNABHStore();
+  const canDeleteEvidence = useCapability('delete_evidence');
   
   // Load data if not already loaded
   useEffect(() => {
@@ -877,7 +879,7 @@ Focus on:
 
 Prefer Indian healthcare context videos. Return ONLY valid JSON array.`;
 
-      const data = await callGeminiAPI(prompt, 0.7, 2048);
+      const data = await callGeminiAPI(prompt, 0.7, 2048, 'objective-assist');
       const rawContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
       
       // Parse JSON from response
@@ -1023,26 +1025,10 @@ Prefer Indian healthcare context videos. Return ONLY valid JSON array.`;
     setGeneratedSOPContent('');
 
     try {
-      const apiKey = await getClaudeApiKey();
-      if (!apiKey) {
-        throw new Error('API key not configured');
-      }
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-sonnet-20241022',
-          max_tokens: 4096,
-          messages: [
-            {
-              role: 'user',
-              content: `Generate a Standard Operating Procedure (SOP) document for NABH accreditation compliance.
+      const { text } = await generateAI({
+        feature: 'sop-generation',
+        maxTokens: 4096,
+        prompt: `Generate a Standard Operating Procedure (SOP) document for NABH accreditation compliance.
 
 Objective Code: ${objective.code}
 Objective Title: ${objective.description}
@@ -1059,17 +1045,8 @@ Generate a comprehensive SOP that includes:
 7. References
 
 Format it professionally with clear sections and bullet points.`,
-            },
-          ],
-        }),
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate SOP');
-      }
-
-      const data = await response.json();
-      const content = data.content[0]?.text || 'Failed to generate SOP';
+      const content = text || 'Failed to generate SOP';
       setGeneratedSOPContent(content);
     } catch (error) {
       console.error('Error generating SOP:', error);
@@ -1101,7 +1078,7 @@ Format your response as a numbered list (1-10) with each evidence item on a new
 
       // Use secure backend proxy
       console.log(`[Generate Evidence List] Using backend proxy`);
-      const data = await callGeminiAPI(prompt, 0.7, 2048);
+      const data = await callGeminiAPI(prompt, 0.7, 2048, 'evidence-list');
       console.log(`[Generate Evidence List] Success`);
 
       if (!data || !data.candidates) {
@@ -1160,7 +1137,7 @@ Start directly with the numbered list, no introduction or explanation.`;
 
       // Use secure backend proxy
       console.log('Using backend proxy');
-      const data = await callGeminiAPI(prompt, 0.7, 1024);
+      const data = await callGeminiAPI(prompt, 0.7, 1024, 'evidence-list');
       console.log('Success with backend proxy');
 
       if (!data || !data.candidates) {
@@ -1769,7 +1746,7 @@ DETAILED FORMATTING REQUIREMENTS:
 Generate complete HTML document with embedded CSS. Output ONLY the HTML, nothing else.`;
 
         // Call our secure backend proxy
-        const data = await callGeminiAPI(generationPrompt, 0.7, 8192);
+        const data = await callGeminiAPI(generationPrompt, 0.7, 8192, 'evidence-generation');
         let rawContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
         if (!rawContent) {
@@ -2479,9 +2456,6 @@ SPECIFIC INSTRUCTIONS FOR HOPE HOSPITAL EVIDENCE:
     setSnackbarMessage(`Starting generation of ${selectedItems.length} document(s)...`);
     setSnackbarOpen(true);
 
-    const claudeApiKey = getClaudeApiKey();
-    console.log('API keys:', { claude: !!claudeApiKey });
-
     let successCount = 0;
     let failCount = 0;
 
@@ -2507,41 +2481,17 @@ Generate complete, ready-to-use FILLED EVIDENCE with actual data from Hope Hospi
 
         let rawContent: string = '';
 
-        // Try Gemini first, fallback to Claude
+        // The gateway tries the feature's fallback model when the first one fails
         try {
-          console.log('Calling Gemini API via backend proxy...');
-          const data = await callGeminiAPI(`${contentPrompt}\n\n${userMessage}`, 0.7, 8192);
-          rawContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-          console.log('Gemini response received, content length:', rawContent.length);
-        } catch (geminiErr) {
-          console.error('Gemini exception:', geminiErr);
-        }
-
-        if (!rawContent && claudeApiKey) {
-          console.log('Trying Claude API...');
-          const response = await fetch('https://api.anthropic.com/v1/messages', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-api-key': claudeApiKey,
-              'anthropic-version': '2023-06-01',
-              'anthropic-dangerous-direct-browser-access': 'true',
-            },
-            body: JSON.stringify({
-              model: 'claude-3-5-sonnet-20241022',
-              max_tokens: 4096,
-              messages: [{ role: 'user', content: `${contentPrompt}\n\n${userMessage}` }],
-            }),
+          const { text } = await generateAI({
+            feature: 'evidence-generation',
+            prompt: `${contentPrompt}\n\n${userMessage}`,
+            temperature: 0.7,
+            maxTokens: 8192,
           });
-
-          if (response.ok) {
-            const data = await response.json();
-            rawContent = data.content?.[0]?.text || '';
-            console.log('Claude response received, content length:', rawContent.length);
-          } else {
-            const errorText = await response.text();
-            console.error('Claude API error:', response.status, errorText);
-          }
+          rawContent = text;
+        } catch (aiErr) {
+          console.error('AI gateway exception:', aiErr);
         }
 
         if (rawContent) {
@@ -2634,6 +2584,7 @@ Generate complete, ready-to-use FILLED EVIDENCE with actual data from Hope Hospi
 
   // Delete evidence
   const handleDeleteEvidence = async (evidenceId: string) => {
+    if (!canDeleteEvidence) return;
     const result = await deleteGeneratedEvidence(evidenceId);
     if (result.success) {
       setSavedEvidences(prev => prev.filter(ev => ev.id !== evidenceId));
@@ -2681,7 +2632,7 @@ USER REQUEST: ${customEvidencePrompt}
 
 Generate a complete, professional HTML document for the above requirement. Use ACTUAL data from Hope Hospital database provided in the system prompt (patient records, staff records, equipment records). Create FILLED formats with real entries, NOT blank templates. Make it look like authentic hospital documentation.`;
 
-      const data = await callGeminiAPI(prompt, 0.7, 8192);
+      const data = await callGeminiAPI(prompt, 0.7, 8192, 'evidence-generation');
       const rawContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
       if (rawContent) {
@@ -2793,7 +2744,7 @@ IMPORTANT:
 
 Generate complete HTML with embedded CSS styling. Do NOT use markdown code blocks.`;
 
-        const data = await callGeminiAPI(prompt, 0.7, 8192);
+        const data = await callGeminiAPI(prompt, 0.7, 8192, 'evidence-generation');
         const rawContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
         if (rawContent) {
@@ -2894,7 +2845,7 @@ Be thorough and extract every piece of text visible in the document. Maintain th
 
 [Note: Image processing via backend proxy - file type: ${mimeType}]`;
 
-      const data = await callGeminiAPI(prompt, 0.1, 4096);
+      const data = await callGeminiAPI(prompt, 0.1, 4096, 'document-extraction');
       const extractedText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
       setExtractedDocumentText(extractedText);
@@ -2949,7 +2900,7 @@ INSTRUCTIONS:
 
 Generate complete HTML with embedded CSS. Do NOT use markdown or code blocks. Start directly with <!DOCTYPE html>.`;
 
-      const data = await callGeminiAPI(prompt, 0.7, 8192);
+      const data = await callGeminiAPI(prompt, 0.7, 8192, 'evidence-generation');
       const rawContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
       if (rawContent) {
@@ -3011,43 +2962,18 @@ Generate complete HTML with embedded CSS. Do NOT use markdown or code blocks. St
     setIsGeneratingHindi(true);
 
     try {
-      const apiKey = await getClaudeApiKey();
-      if (!apiKey) {
-        throw new Error('API key not configured');
-      }
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-sonnet-20241022',
-          max_tokens: 1024,
-          messages: [
-            {
-              role: 'user',
-              content: `Translate and explain the following NABH accreditation standard interpretation into Hindi. The explanation should be detailed and accurate. You may use complex sentences if necessary, but the meaning must not be changed. This is for hospital staff training purposes.
+      const { text } = await generateAI({
+        feature: 'hindi-explanation',
+        maxTokens: 1024,
+        prompt: `Translate and explain the following NABH accreditation standard interpretation into Hindi. The explanation should be detailed and accurate. You may use complex sentences if necessary, but the meaning must not be changed. This is for hospital staff training purposes.
 
 Objective Code: ${objective.code}
 English Interpretation: ${interpretation}
 ${objective.isCore ? 'Note: This is a CORE element which is critical for patient safety.' : ''}
 
 Provide only the Hindi explanation, no English text. The explanation should be comprehensive and explain what the hospital needs to do to comply with this standard.`,
-            },
-          ],
-        }),
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate Hindi explanation');
-      }
-
-      const data = await response.json();
-      const hindiContent = data.content[0]?.text || '';
+      const hindiContent = text || '';
 
       if (hindiContent.trim()) {
         updateObjective(chapter.id, objective.id, { hindiExplanation: hindiContent.trim() });
@@ -4498,15 +4424,17 @@ Provide only the Hindi explanation, no English text. The explanation should be c
                           <Icon>visibility</Icon>
                         </IconButton>
                       </Tooltip>
-                      <Tooltip title="Delete">
-                        <IconButton
-                          size="small"
-                          color="error"
-                          onClick={() => handleRemoveFile(file.id)}
-                        >
-                          <Icon>delete</Icon>
-                        </IconButton>
-                      </Tooltip>
+                      {canDeleteEvidence && (
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleRemoveFile(file.id)}
+                          >
+                            <Icon>delete</Icon>
+                          </IconButton>
+                        </Tooltip>
+                      )}
                     </CardActions>
                   </Card>
                 </Grid>
@@ -4562,14 +4490,16 @@ Provide only the Hindi explanation, no English text. The explanation should be c
                                 <Icon>play_circle</Icon>
                               </IconButton>
                             </Tooltip>
-                            <Tooltip title="Remove Video">
-                              <IconButton
-                                size="small"
-                                onClick={() => video.id && handleRemoveVideo(video.id)}
-                              >
-                                <Icon>delete</Icon>
-                              </IconButton>
-                            </Tooltip>
+                            {canDeleteEvidence && (
+                              <Tooltip title="Remove Video">
+                                <IconButton
+                                  size="small"
+                                  onClick={() => video.id && handleRemoveVideo(video.id)}
+                                >
+                                  <Icon>delete</Icon>
+                                </IconButton>
+                              </Tooltip>
+                            )}
                           </CardActions>
                         </Card>
                       </Grid>
@@ -4796,15 +4726,17 @@ Provide only the Hindi explanation, no English text. The explanation should be c
                                 <Icon>visibility</Icon>
                               </IconButton>
                             </Tooltip>
-                            <Tooltip title="Delete">
-                              <IconButton
-                                size="small"
-                                color="error"
-                                onClick={() => handleRemoveTrainingMaterial(material.id)}
-                              >
-                                <Icon>delete</Icon>
-                              </IconButton>
-                            </Tooltip>
+                            {canDeleteEvidence && (
+                              <Tooltip title="Delete">
+                                <IconButton
+                                  size="small"
+                                  color="error"
+                                  onClick={() => handleRemoveTrainingMaterial(material.id)}
+                                >
+                                  <Icon>delete</Icon>
+                                </IconButton>
+                              </Tooltip>
+                            )}
                           </CardActions>
                         </Card>
                       </Grid>
@@ -4942,15 +4874,17 @@ Provide only the Hindi explanation, no English text. The explanation should be c
                                 <Icon>visibility</Icon>
                               </IconButton>
                             </Tooltip>
-                            <Tooltip title="Delete">
-                              <IconButton
-                                size="small"
-                                color="error"
-                                onClick={() => handleRemoveSOP(sop.id)}
-                              >
-                                <Icon>delete</Icon>
-                              </IconButton>
-                            </Tooltip>
+                            {canDeleteEvidence && (
+                              <Tooltip title="Delete">
+                                <IconButton
+                                  size="small"
+                                  color="error"
+                                  onClick={() => handleRemoveSOP(sop.id)}
+                                >
+                                  <Icon>delete</Icon>
+                                </IconButton>
+                              </Tooltip>
+                            )}
                           </CardActions>
                         </Card>
                       </Grid>
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+} from '@mui/material';
+import { Casino as ShuffleIcon } from '@mui/icons-material';
+import { loadAllPatients } from '../services/patientStorage';
+import { savePatientSample } from '../services/patientSampleStorage';
+import {
+  STRATIFY_BY_LABELS,
+  calculateSampleSize,
+  drawPatientSample,
+  filterPopulation,
+  generateSeed,
+} from '../services/patientSamplingEngine';
+import type { Patient, PatientStatus } from '../types/patient';
+import type {
+  PatientSample,
+  PatientSamplePurpose,
+  PatientSamplingMethod,
+  PatientSamplingOptions,
+  PatientStratifyBy,
+} from '../types/patientSample';
+
+interface PatientSamplingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  purpose: PatientSamplePurpose;
+  referenceId: string;
+  drawnBy?: string;
+  defaultSize?: number;
+  onSampleSaved: (sample: PatientSample) => void;
+}
+
+type SizeMode = 'count' | 'percentage' | 'calculated';
+
+const STATUSES: PatientStatus[] = ['Active', 'Discharged', 'Transferred'];
+
+export default function PatientSamplingDialog({
+  open,
+  onClose,
+  title,
+  purpose,
+  referenceId,
+  drawnBy,
+  defaultSize,
+  onSampleSaved,
+}: PatientSamplingDialogProps) {
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [method, setMethod] = useState<PatientSamplingMethod>('stratified');
+  const [stratifyBy, setStratifyBy] = useState<PatientStratifyBy>('month');
+  const [sizeMode, setSizeMode] = useState<SizeMode>(defaultSize ? 'count' : 'calculated');
+  const [sizeValue, setSizeValue] = useState(defaultSize || 10);
+  const [confidence, setConfidence] = useState<90 | 95 | 99>(95);
+  const [margin, setMargin] = useState(10);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [status, setStatus] = useState<PatientStatus | ''>('');
+  const [seed, setSeed] = useState(generateSeed);
+
+  useEffect(() => {
+    const fetchPatients = async () => {
+      const result = await loadAllPatients();
+      if (result.success && result.data) {
+        setPatients(result.data);
+      } else {
+        setError(result.error || 'Failed to load patients');
+      }
+      setLoading(false);
+    };
+    fetchPatients();
+  }, []);
+
+  const filters = { fromDate: fromDate || undefined, toDate: toDate || undefined, status: status || undefined };
+  const populationSize = filterPopulation(patients, { method, seed, ...filters }).length;
+  const calculatedSize = calculateSampleSize(populationSize, confidence, margin / 100);
+
+  const options: PatientSamplingOptions = {
+    method,
+    stratifyBy: method === 'stratified' ? stratifyBy : undefined,
+    seed: seed.trim(),
+    ...filters,
+    ...(sizeMode === 'percentage'
+      ? { percentage: sizeValue }
+      : { size: sizeMode === 'count' ? sizeValue : calculatedSize }),
+  };
+
+  const draw = drawPatientSample(patients, options);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await savePatientSample({
+      purpose,
+      reference_id: referenceId,
+      method,
+      stratify_by: options.stratifyBy || null,
+      seed: options.seed,
+      filters,
+      population_size: draw.populationSize,
+      sample_size: draw.sampleSize,
+      entries: draw.entries,
+      strata: draw.strata,
+      methodology: draw.methodology,
+      drawn_by: drawnBy || null,
+    });
+    setSaving(false);
+
+    if (result.success && result.data) {
+      onSampleSaved(result.data);
+      onClose();
+    } else {
+      setError(result.error || 'Failed to save sample');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Draw Patient File Sample - {title}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}><CircularProgress /></Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Box display="flex" gap={2}>
+              <TextField select fullWidth label="Method" value={method} onChange={(e) => setMethod(e.target.value as PatientSamplingMethod)}>
+                <MenuItem value="random">Simple random</MenuItem>
+                <MenuItem value="stratified">Stratified random</MenuItem>
+              </TextField>
+              <TextField
+                select
+                fullWidth
+                label="Stratify by"
+                value={stratifyBy}
+                disabled={method !== 'stratified'}
+                onChange={(e) => setStratifyBy(e.target.value as PatientStratifyBy)}
+              >
+                {(Object.keys(STRATIFY_BY_LABELS) as PatientStratifyBy[]).map(key => (
+                  <MenuItem key={key} value={key}>{STRATIFY_BY_LABELS[key]}</MenuItem>
+                ))}
+              </TextField>
+            </Box>
+
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Admitted from"
+                type="date"
+                fullWidth
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                label="Admitted to"
+                type="date"
+                fullWidth
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField select fullWidth label="Status" value={status} onChange={(e) => setStatus(e.target.value as PatientStatus | '')}>
+                <MenuItem value="">All</MenuItem>
+                {STATUSES.map(s => <MenuItem key={s} value={s}>{s}</MenuItem>)}
+              </TextField>
+            </Box>
+
+            <Box display="flex" gap={2}>
+              <TextField select fullWidth label="Sample size" value={sizeMode} onChange={(e) => setSizeMode(e.target.value as SizeMode)}>
+                <MenuItem value="calculated">Calculated (confidence / margin)</MenuItem>
+                <MenuItem value="count">Number of files</MenuItem>
+                <MenuItem value="percentage">Percentage of files</MenuItem>
+              </TextField>
+              {sizeMode === 'calculated' ? (
+                <>
+                  <TextField select fullWidth label="Confidence" value={confidence} onChange={(e) => setConfidence(Number(e.target.value) as 90 | 95 | 99)}>
+                    {[90, 95, 99].map(c => <MenuItem key={c} value={c}>{c}%</MenuItem>)}
+                  </TextField>
+                  <TextField select fullWidth label="Margin of error" value={margin} onChange={(e) => setMargin(Number(e.target.value))}>
+                    {[5, 10, 15].map(m => <MenuItem key={m} value={m}>±{m}%</MenuItem>)}
+                  </TextField>
+                </>
+              ) : (
+                <TextField
+                  fullWidth
+                  type="number"
+                  label={sizeMode === 'count' ? 'Files' : '% of files'}
+                  value={sizeValue}
+                  onChange={(e) => setSizeValue(Math.max(0, Number(e.target.value)))}
+                  inputProps={{ min: 0, max: sizeMode === 'percentage' ? 100 : undefined }}
+                />
+              )}
+            </Box>
+
+            <Box display="flex" gap={1} alignItems="center">
+              <TextField
+                label="Seed"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                helperText="Enter a recorded seed with the same filters to reproduce a sample"
+                sx={{ flex: 1 }}
+              />
+              <Tooltip title="New seed">
+                <IconButton onClick={() => setSeed(generateSeed())}><ShuffleIcon /></IconButton>
+              </Tooltip>
+            </Box>
+
+            <Alert severity={draw.sampleSize > 0 ? 'info' : 'warning'}>
+              {populationSize === 0 ? 'No patient files match the filters.' : draw.methodology}
+            </Alert>
+
+            {draw.strata.length > 0 && (
+              <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 240 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Stratum</TableCell>
+                      <TableCell align="right">Files</TableCell>
+                      <TableCell align="right">Sampled</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {draw.strata.map(s => (
+                      <TableRow key={s.stratum}>
+                        <TableCell>{s.stratum}</TableCell>
+                        <TableCell align="right">{s.population}</TableCell>
+                        <TableCell align="right">{s.sample}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {draw.entries.length > 0 && (
+              <Typography variant="body2" color="text.secondary">
+                {draw.entries.map(e => e.visit_id).join(', ')}
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={loading || saving || draw.sampleSize === 0 || !options.seed}
+        >
+          {saving ? 'Saving...' : `Use ${draw.sampleSize} Files`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
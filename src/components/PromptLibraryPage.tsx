@@ -0,0 +1,721 @@
+/**
+ * Prompt Library Page
+ * Versioned prompts with typed variables, A/B tests against saved sets of objective elements,
+ * and the version each production feature uses
+ * Route: /prompt-library
+ */
+
+import { useState, useEffect } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Grid from '@mui/material/Grid';
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemText from '@mui/material/ListItemText';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Autocomplete from '@mui/material/Autocomplete';
+import Checkbox from '@mui/material/Checkbox';
+import Rating from '@mui/material/Rating';
+import Snackbar from '@mui/material/Snackbar';
+import LinearProgress from '@mui/material/LinearProgress';
+import CircularProgress from '@mui/material/CircularProgress';
+import Icon from '@mui/material/Icon';
+import { useNABHStore } from '../store/nabhStore';
+import { useAuthStore, useCapability } from '../store/authStore';
+import {
+  PROMPT_VARIABLE_TYPES,
+  findUndeclaredVariables,
+  getNextVersionNumber,
+  getPinnedVersion,
+  mergePromptTemplates,
+  scorePromptVersions,
+  withBuiltinVersion,
+} from '../services/promptLibraryEngine';
+import {
+  deletePromptTestSet,
+  loadPromptTemplates,
+  loadPromptTestRuns,
+  loadPromptTestSets,
+  loadPromptVersions,
+  ratePromptTestRun,
+  savePromptTemplate,
+  savePromptTestSet,
+  savePromptVersion,
+} from '../services/promptLibraryStorage';
+import { importSOPPrompts, runPromptVersionTest } from '../services/promptLibraryService';
+import type {
+  PromptTemplate,
+  PromptTestRun,
+  PromptTestSet,
+  PromptUsage,
+  PromptVariable,
+  PromptVariableBinding,
+  PromptVersion,
+  PromptVersionScore,
+} from '../types/promptLibrary';
+
+const USAGE_LABELS: Record<PromptUsage, string> = {
+  'sop-from-content': 'SOP generation (generateSOPFromContent)',
+  'evidence-from-documents': 'Evidence from documents (generateEvidenceFromDocuments)',
+  'kpi-edit': 'KPI graph editing (processKPIEditPrompt)',
+};
+
+const BINDINGS: PromptVariableBinding[] = [
+  'objective.code',
+  'objective.title',
+  'objective.description',
+  'objective.interpretation',
+  'objective.evidencesList',
+  'chapter.code',
+  'chapter.name',
+];
+
+interface VersionDraft {
+  body: string;
+  notes: string;
+  temperature: number;
+  max_tokens: number;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Variables editor and A/B picks for a template: the pinned version against the latest one
+function getEditorDefaults(template: PromptTemplate, savedVersions: PromptVersion[]) {
+  const versions = withBuiltinVersion(template.id, savedVersions);
+  return {
+    variables: template.variables,
+    versionA: getPinnedVersion(template, versions)?.version ?? 1,
+    versionB: versions[versions.length - 1]?.version ?? 1,
+  };
+}
+
+const DEFAULT_TEMPLATE_ID = 'sop-from-content';
+
+function ScoreCard({ label, score }: { label: string; score: PromptVersionScore }) {
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Typography variant="caption" color="text.secondary">{label} · v{score.version}</Typography>
+      <Typography variant="h6" fontWeight={600}>
+        {score.averageRating !== null ? `${score.averageRating} / 5` : 'Not rated'}
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        {score.wins} wins · {score.rated}/{score.runs} rated · ${score.averageCostUsd.toFixed(4)} · {(score.averageLatencyMs / 1000).toFixed(1)}s avg
+      </Typography>
+    </Paper>
+  );
+}
+
+function RunOutput({ run, onRate }: { run?: PromptTestRun; onRate: (run: PromptTestRun, rating: number | null) => void }) {
+  if (!run) {
+    return <Typography variant="body2" color="text.secondary">Not run</Typography>;
+  }
+  return (
+    <Box>
+      {run.error ? (
+        <Alert severity="error" sx={{ mb: 1 }}>{run.error}</Alert>
+      ) : (
+        <Box
+          component="pre"
+          sx={{ m: 0, mb: 1, p: 1, maxHeight: 240, overflow: 'auto', bgcolor: 'grey.50', fontSize: '0.75rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+        >
+          {run.output}
+        </Box>
+      )}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Rating size="small" value={run.rating} onChange={(_e, value) => onRate(run, value)} />
+        <Typography variant="caption" color="text.secondary">
+          {run.model || '-'} · {run.input_tokens + run.output_tokens} tokens · {(run.latency_ms / 1000).toFixed(1)}s
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
+
+export default function PromptLibraryPage() {
+  const { chapters } = useNABHStore();
+  const user = useAuthStore(state => state.user);
+  const canPin = useCapability('approve_sops');
+
+  const [savedTemplates, setSavedTemplates] = useState<PromptTemplate[]>([]);
+  const [savedVersions, setSavedVersions] = useState<PromptVersion[]>([]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_TEMPLATE_ID);
+  const [tab, setTab] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' | 'info' });
+
+  // Versions
+  const [viewVersion, setViewVersion] = useState<PromptVersion | null>(null);
+  const [draft, setDraft] = useState<VersionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Variables
+  const [variablesDraft, setVariablesDraft] = useState<PromptVariable[]>([]);
+
+  // Test harness
+  const [testSets, setTestSets] = useState<PromptTestSet[]>([]);
+  const [testSetId, setTestSetId] = useState('');
+  const [testRuns, setTestRuns] = useState<PromptTestRun[]>([]);
+  const [versionA, setVersionA] = useState(1);
+  const [versionB, setVersionB] = useState(1);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [newSet, setNewSet] = useState<{ name: string; codes: string[] } | null>(null);
+
+  const templates = mergePromptTemplates(savedTemplates);
+  const template = templates.find(candidate => candidate.id === selectedId) ?? templates[0];
+  const versions = withBuiltinVersion(template.id, savedVersions);
+  const pinned = getPinnedVersion(template, versions);
+  const testSet = testSets.find(candidate => candidate.id === testSetId);
+  const objectiveOptions = chapters.flatMap(chapter => chapter.objectives.map(objective => ({ code: objective.code, title: objective.title })));
+
+  useEffect(() => {
+    const fetchLibrary = async () => {
+      const [templateResult, versionResult, testSetResult] = await Promise.all([
+        loadPromptTemplates(),
+        loadPromptVersions(),
+        loadPromptTestSets(),
+      ]);
+      if (templateResult.success && versionResult.success) {
+        setSavedTemplates(templateResult.data || []);
+        setSavedVersions(versionResult.data || []);
+        // First load opens the default template; reloads after an import keep the editors
+        if (reloadKey === 0) {
+          const loadedTemplates = mergePromptTemplates(templateResult.data || []);
+          const defaultTemplate = loadedTemplates.find(candidate => candidate.id === DEFAULT_TEMPLATE_ID) ?? loadedTemplates[0];
+          const defaults = getEditorDefaults(defaultTemplate, versionResult.data || []);
+          setVariablesDraft(defaults.variables);
+          setVersionA(defaults.versionA);
+          setVersionB(defaults.versionB);
+        }
+        setError(null);
+      } else {
+        setError(templateResult.error || versionResult.error || 'Failed to load the prompt library');
+      }
+      if (testSetResult.success) setTestSets(testSetResult.data || []);
+      setLoading(false);
+    };
+    fetchLibrary();
+  }, [reloadKey]);
+
+  const handleSelectTemplate = (candidate: PromptTemplate) => {
+    const defaults = getEditorDefaults(candidate, savedVersions);
+    setSelectedId(candidate.id);
+    setVariablesDraft(defaults.variables);
+    setVersionA(defaults.versionA);
+    setVersionB(defaults.versionB);
+  };
+
+  const handleTestSetChange = (id: string) => {
+    setTestSetId(id);
+    if (!id) setTestRuns([]);
+  };
+
+  useEffect(() => {
+    if (!testSetId) return;
+    const fetchRuns = async () => {
+      const result = await loadPromptTestRuns(template.id, testSetId);
+      if (result.success) setTestRuns(result.data || []);
+    };
+    fetchRuns();
+  }, [template.id, testSetId]);
+
+  const notify = (message: string, severity: 'success' | 'error' | 'info' = 'success') =>
+    setSnackbar({ open: true, message, severity });
+
+  const handleNewVersion = (from: PromptVersion) => {
+    setDraft({ body: from.body, notes: '', temperature: from.temperature, max_tokens: from.max_tokens });
+  };
+
+  const handleSaveVersion = async () => {
+    if (!draft || !draft.body.trim()) return;
+    setIsSaving(true);
+    const result = await savePromptVersion({
+      template_id: template.id,
+      version: getNextVersionNumber(versions),
+      body: draft.body,
+      notes: draft.notes,
+      temperature: draft.temperature,
+      max_tokens: draft.max_tokens,
+      created_by: user?.id ?? null,
+    });
+    setIsSaving(false);
+    if (result.success && result.data) {
+      setSavedVersions(prev => [...prev, result.data!]);
+      setVersionB(result.data.version);
+      setDraft(null);
+      notify(`Version ${result.data.version} saved. Pin it to use it in production.`);
+    } else {
+      notify(result.error || 'Failed to save version', 'error');
+    }
+  };
+
+  const handleSaveTemplate = async (changes: Partial<PromptTemplate>, message: string) => {
+    const result = await savePromptTemplate({ ...template, ...changes });
+    if (result.success && result.data) {
+      const saved = result.data;
+      setSavedTemplates(prev => [...prev.filter(candidate => candidate.id !== saved.id), saved]);
+      notify(message);
+    } else {
+      notify(result.error || 'Failed to save template', 'error');
+    }
+  };
+
+  const handlePin = (version: PromptVersion) =>
+    handleSaveTemplate({ pinned_version: version.version }, `Version ${version.version} is now used in production`);
+
+  const handleSaveVariables = () => {
+    const names = variablesDraft.map(variable => variable.name.trim());
+    if (names.some(name => !/^[A-Za-z]\w*$/.test(name)) || new Set(names).size !== names.length) {
+      notify('Variable names must be unique and start with a letter', 'error');
+      return;
+    }
+    handleSaveTemplate({ variables: variablesDraft }, 'Variables saved');
+  };
+
+  const updateVariable = (index: number, changes: Partial<PromptVariable>) =>
+    setVariablesDraft(prev => prev.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+
+  const handleImport = async () => {
+    const result = await importSOPPrompts(templates.map(candidate => candidate.id), user?.id ?? null);
+    if (result.success) {
+      notify(result.data?.length ? `Imported ${result.data.length} SOP prompts` : 'All SOP prompts are already in the library', 'info');
+      setReloadKey(key => key + 1);
+    } else {
+      notify(result.error || 'Failed to import SOP prompts', 'error');
+    }
+  };
+
+  const handleCreateTestSet = async () => {
+    if (!newSet || !newSet.name.trim() || newSet.codes.length === 0) return;
+    const result = await savePromptTestSet(newSet.name.trim(), newSet.codes);
+    if (result.success && result.data) {
+      setTestSets(prev => [...prev, result.data!].sort((a, b) => a.name.localeCompare(b.name)));
+      setTestSetId(result.data.id);
+      setNewSet(null);
+    } else {
+      notify(result.error || 'Failed to save test set', 'error');
+    }
+  };
+
+  const handleDeleteTestSet = async () => {
+    if (!testSet || !window.confirm(`Delete test set "${testSet.name}" and its stored outputs?`)) return;
+    const result = await deletePromptTestSet(testSet.id);
+    if (result.success) {
+      setTestSets(prev => prev.filter(candidate => candidate.id !== testSet.id));
+      handleTestSetChange('');
+    } else {
+      notify(result.error || 'Failed to delete test set', 'error');
+    }
+  };
+
+  const handleRunTest = async (versionNumbers: number[]) => {
+    if (!testSet) return;
+    for (const number of versionNumbers) {
+      const version = versions.find(candidate => candidate.version === number);
+      if (!version) continue;
+      setProgress({ done: 0, total: testSet.objective_codes.length });
+      const result = await runPromptVersionTest(template, version, testSet, chapters, (done, total) => setProgress({ done, total }));
+      setTestRuns(prev => [...(result.data || []), ...prev]);
+      if (!result.success) {
+        notify(result.error || 'Test run failed', 'error');
+        break;
+      }
+    }
+    setProgress(null);
+  };
+
+  const handleRate = async (run: PromptTestRun, rating: number | null) => {
+    const result = await ratePromptTestRun(run.id, rating);
+    if (result.success) {
+      setTestRuns(prev => prev.map(candidate => (candidate.id === run.id ? { ...candidate, rating } : candidate)));
+    } else {
+      notify(result.error || 'Failed to save rating', 'error');
+    }
+  };
+
+  // Runs are newest first, so the first match is the latest output of a version
+  const latestRun = (objectiveCode: string, version: number) =>
+    testRuns.find(run => run.objective_code === objectiveCode && run.version === version);
+  const abResult = scorePromptVersions(testRuns, versionA, versionB);
+  const undeclared = draft ? findUndeclaredVariables(draft.body, template.variables) : [];
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '300px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Prompt Library
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Versioned prompts for evidence, SOP and KPI generation. Test versions side by side before pinning one for production.
+          </Typography>
+        </Box>
+        <Button variant="outlined" startIcon={<Icon>download</Icon>} onClick={handleImport}>
+          Import SOP Prompts
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      <Grid container spacing={2}>
+        {/* Templates */}
+        <Grid size={{ xs: 12, md: 3 }}>
+          <Paper>
+            <List dense>
+              {templates.map(candidate => {
+                const candidatePinned = getPinnedVersion(candidate, withBuiltinVersion(candidate.id, savedVersions));
+                return (
+                  <ListItemButton key={candidate.id} selected={candidate.id === template.id} onClick={() => handleSelectTemplate(candidate)}>
+                    <ListItemText
+                      primary={candidate.name}
+                      secondary={`${candidate.category}${candidatePinned ? ` · v${candidatePinned.version}` : ''}`}
+                    />
+                    {candidate.usage && <Icon fontSize="small" color="primary" title="Used in production">bolt</Icon>}
+                  </ListItemButton>
+                );
+              })}
+            </List>
+          </Paper>
+        </Grid>
+
+        <Grid size={{ xs: 12, md: 9 }}>
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="h6" fontWeight={600}>{template.name}</Typography>
+              {template.is_builtin && <Chip size="small" label="Built-in" />}
+              <Chip size="small" variant="outlined" label={template.ai_feature} />
+              {pinned && <Chip size="small" color="success" label={`Production: v${pinned.version}`} />}
+            </Box>
+            <Typography variant="body2" color="text.secondary">{template.description}</Typography>
+            {template.usage && (
+              <Typography variant="caption" color="text.secondary">Used by {USAGE_LABELS[template.usage]}</Typography>
+            )}
+          </Paper>
+
+          <Tabs value={tab} onChange={(_e, value) => setTab(value)} sx={{ mb: 2 }}>
+            <Tab label={`Versions (${versions.length})`} />
+            <Tab label={`Variables (${template.variables.length})`} />
+            <Tab label="Test Harness" />
+          </Tabs>
+
+          {/* Versions */}
+          {tab === 0 && (
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Version</TableCell>
+                    <TableCell>Notes</TableCell>
+                    <TableCell align="right">Temperature</TableCell>
+                    <TableCell align="right">Max Tokens</TableCell>
+                    <TableCell>Created</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {[...versions].reverse().map(version => (
+                    <TableRow key={version.id} hover>
+                      <TableCell>
+                        v{version.version}
+                        {pinned?.version === version.version && <Chip size="small" color="success" label="Production" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell>{version.notes || '-'}</TableCell>
+                      <TableCell align="right">{version.temperature}</TableCell>
+                      <TableCell align="right">{version.max_tokens}</TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTimestamp(version.created_at)}</TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Button size="small" onClick={() => setViewVersion(version)}>View</Button>
+                        <Button size="small" onClick={() => handleNewVersion(version)}>Edit as New</Button>
+                        {canPin && pinned?.version !== version.version && (
+                          <Button size="small" color="success" onClick={() => handlePin(version)}>Pin</Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {/* Variables */}
+          {tab === 1 && (
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Write variables as {'{{name}}'} in the prompt. In the test harness a bound variable takes its value from each objective element; the rest use their sample.
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Label</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Required</TableCell>
+                    <TableCell>Test Value</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {variablesDraft.map((variable, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <TextField size="small" value={variable.name} disabled={!canPin} onChange={(e) => updateVariable(index, { name: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" value={variable.label} disabled={!canPin} onChange={(e) => updateVariable(index, { label: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <TextField select size="small" value={variable.type} disabled={!canPin} onChange={(e) => updateVariable(index, { type: e.target.value as PromptVariable['type'] })}>
+                          {PROMPT_VARIABLE_TYPES.map(type => <MenuItem key={type} value={type}>{type}</MenuItem>)}
+                        </TextField>
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox checked={variable.required} disabled={!canPin} onChange={(e) => updateVariable(index, { required: e.target.checked })} />
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 1 }}>
+                          <TextField
+                            select
+                            size="small"
+                            label="Binding"
+                            value={variable.binding || ''}
+                            disabled={!canPin}
+                            onChange={(e) => updateVariable(index, { binding: (e.target.value || undefined) as PromptVariableBinding | undefined })}
+                            sx={{ minWidth: 190 }}
+                          >
+                            <MenuItem value="">Sample value</MenuItem>
+                            {BINDINGS.map(binding => <MenuItem key={binding} value={binding}>{binding}</MenuItem>)}
+                          </TextField>
+                          {!variable.binding && (
+                            <TextField size="small" label="Sample" value={variable.sample || ''} disabled={!canPin} onChange={(e) => updateVariable(index, { sample: e.target.value })} />
+                          )}
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        {canPin && (
+                          <Button size="small" color="error" onClick={() => setVariablesDraft(prev => prev.filter((_v, i) => i !== index))}>Remove</Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {canPin ? (
+                <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+                  <Button onClick={() => setVariablesDraft(prev => [...prev, { name: `variable${prev.length + 1}`, label: 'New Variable', type: 'text', required: false }])}>
+                    Add Variable
+                  </Button>
+                  <Button variant="contained" onClick={handleSaveVariables}>Save Variables</Button>
+                </Box>
+              ) : (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+                  Only the NABH coordinator can change variables.
+                </Typography>
+              )}
+            </Paper>
+          )}
+
+          {/* Test harness */}
+          {tab === 2 && (
+            <Box>
+              <Paper sx={{ p: 2, mb: 2, display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+                <TextField select size="small" label="Test Set" value={testSetId} onChange={(e) => handleTestSetChange(e.target.value)} sx={{ minWidth: 220 }}>
+                  <MenuItem value="">Select a test set</MenuItem>
+                  {testSets.map(candidate => (
+                    <MenuItem key={candidate.id} value={candidate.id}>{candidate.name} ({candidate.objective_codes.length})</MenuItem>
+                  ))}
+                </TextField>
+                <Button onClick={() => setNewSet({ name: '', codes: [] })}>New Test Set</Button>
+                {testSet && <Button color="error" onClick={handleDeleteTestSet}>Delete Set</Button>}
+                <TextField select size="small" label="Version A" value={versionA} onChange={(e) => setVersionA(Number(e.target.value))}>
+                  {versions.map(version => <MenuItem key={version.id} value={version.version}>v{version.version}</MenuItem>)}
+                </TextField>
+                <TextField select size="small" label="Version B" value={versionB} onChange={(e) => setVersionB(Number(e.target.value))}>
+                  {versions.map(version => <MenuItem key={version.id} value={version.version}>v{version.version}</MenuItem>)}
+                </TextField>
+                <Button
+                  variant="contained"
+                  startIcon={<Icon>play_arrow</Icon>}
+                  disabled={!testSet || !!progress}
+                  onClick={() => handleRunTest(versionA === versionB ? [versionA] : [versionA, versionB])}
+                >
+                  Run A/B
+                </Button>
+              </Paper>
+
+              {progress && (
+                <Box sx={{ mb: 2 }}>
+                  <LinearProgress variant="determinate" value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                  <Typography variant="caption" color="text.secondary">{progress.done} / {progress.total} objective elements</Typography>
+                </Box>
+              )}
+
+              {testSet ? (
+                <>
+                  <Grid container spacing={2} sx={{ mb: 2 }}>
+                    <Grid size={{ xs: 12, md: 5 }}><ScoreCard label="Version A" score={abResult.a} /></Grid>
+                    <Grid size={{ xs: 12, md: 5 }}><ScoreCard label="Version B" score={abResult.b} /></Grid>
+                    <Grid size={{ xs: 12, md: 2 }}>
+                      <Paper variant="outlined" sx={{ p: 2 }}>
+                        <Typography variant="caption" color="text.secondary">Ties</Typography>
+                        <Typography variant="h6" fontWeight={600}>{abResult.ties}</Typography>
+                        <Typography variant="body2" color="text.secondary">of {abResult.compared} compared</Typography>
+                      </Paper>
+                    </Grid>
+                  </Grid>
+
+                  <TableContainer component={Paper}>
+                    <Table size="small" sx={{ tableLayout: 'fixed' }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell sx={{ width: 120 }}>Objective</TableCell>
+                          <TableCell>Version A (v{versionA})</TableCell>
+                          <TableCell>Version B (v{versionB})</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {testSet.objective_codes.map(code => (
+                          <TableRow key={code} sx={{ verticalAlign: 'top' }}>
+                            <TableCell>{code}</TableCell>
+                            <TableCell><RunOutput run={latestRun(code, versionA)} onRate={handleRate} /></TableCell>
+                            <TableCell><RunOutput run={latestRun(code, versionB)} onRate={handleRate} /></TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                </>
+              ) : (
+                <Alert severity="info">Choose or create a test set of objective elements to compare prompt versions.</Alert>
+              )}
+            </Box>
+          )}
+        </Grid>
+      </Grid>
+
+      {/* View version */}
+      <Dialog open={!!viewVersion} onClose={() => setViewVersion(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{template.name} · v{viewVersion?.version}</DialogTitle>
+        <DialogContent>
+          <Box component="pre" sx={{ m: 0, fontSize: '0.8rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {viewVersion?.body}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setViewVersion(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* New version */}
+      <Dialog open={!!draft} onClose={() => setDraft(null)} maxWidth="md" fullWidth>
+        <DialogTitle>New Version of {template.name}</DialogTitle>
+        <DialogContent>
+          {draft && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+              <TextField
+                label="Prompt"
+                multiline
+                minRows={14}
+                maxRows={24}
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                slotProps={{ input: { sx: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+              />
+              {undeclared.length > 0 && (
+                <Alert severity="warning">
+                  Not declared as variables, these will render empty: {undeclared.map(name => `{{${name}}}`).join(', ')}
+                </Alert>
+              )}
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TextField label="What changed" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} sx={{ flex: 1 }} />
+                <TextField
+                  label="Temperature"
+                  type="number"
+                  value={draft.temperature}
+                  onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                  slotProps={{ htmlInput: { min: 0, max: 2, step: 0.1 } }}
+                  sx={{ width: 130 }}
+                />
+                <TextField
+                  label="Max Tokens"
+                  type="number"
+                  value={draft.max_tokens}
+                  onChange={(e) => setDraft({ ...draft, max_tokens: Number(e.target.value) })}
+                  sx={{ width: 130 }}
+                />
+              </Box>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDraft(null)}>Cancel</Button>
+          <Button variant="contained" disabled={isSaving || !draft?.body.trim()} onClick={handleSaveVersion}>
+            Save as v{getNextVersionNumber(versions)}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* New test set */}
+      <Dialog open={!!newSet} onClose={() => setNewSet(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Test Set</DialogTitle>
+        <DialogContent>
+          {newSet && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+              <TextField label="Name" value={newSet.name} onChange={(e) => setNewSet({ ...newSet, name: e.target.value })} />
+              <Autocomplete
+                multiple
+                options={objectiveOptions}
+                getOptionLabel={(option) => `${option.code} ${option.title}`}
+                value={objectiveOptions.filter(option => newSet.codes.includes(option.code))}
+                onChange={(_e, value) => setNewSet({ ...newSet, codes: value.map(option => option.code) })}
+                renderInput={(params) => <TextField {...params} label="Objective Elements" />}
+              />
+              {objectiveOptions.length === 0 && (
+                <Alert severity="info">NABH chapters are not loaded yet</Alert>
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNewSet(null)}>Cancel</Button>
+          <Button variant="contained" disabled={!newSet?.name.trim() || !newSet?.codes.length} onClick={handleCreateTestSet}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar open={snackbar.open} autoHideDuration={4000} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * Public Equipment Page
+ * Read-only record of one equipment opened by scanning its QR label
+ * Route: /equipment-tag/:equipmentTag
+ * Shows status, last / next calibration and maintenance, and lets floor staff report a breakdown
+ */
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Icon from '@mui/material/Icon';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Chip from '@mui/material/Chip';
+import Divider from '@mui/material/Divider';
+import { DEFAULT_HOSPITAL_ID, getHospitalInfo } from '../config/hospitalConfig';
+import { equipmentMaster } from '../data/equipmentMaster';
+import { loadEquipmentServiceSchedulesForTag } from '../services/equipmentServiceStorage';
+import { createEquipmentBreakdown, loadOpenEquipmentBreakdowns } from '../services/equipmentBreakdownStorage';
+import { getBreakdownValidationError } from '../services/equipmentBreakdownEngine';
+import { deriveEquipmentCompliance } from '../services/equipmentServiceEngine';
+import { getEquipmentServiceSummary } from '../services/equipmentTagEngine';
+import type { EquipmentBreakdown, EquipmentBreakdownInput } from '../types/equipmentBreakdown';
+import type { EquipmentServiceSchedule } from '../types/equipmentService';
+
+const formatDate = (date: string | null) =>
+  date
+    ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+    : 'Not recorded';
+
+export default function PublicEquipmentPage() {
+  const { equipmentTag } = useParams<{ equipmentTag: string }>();
+  // The equipment master is the Hope Hospital inventory
+  const hospital = getHospitalInfo(DEFAULT_HOSPITAL_ID);
+  const equipment = equipmentMaster.find(eq => eq.equipmentTag === equipmentTag);
+
+  const [schedules, setSchedules] = useState<EquipmentServiceSchedule[]>([]);
+  const [openBreakdowns, setOpenBreakdowns] = useState<EquipmentBreakdown[]>([]);
+  const [isLoading, setIsLoading] = useState(!!equipment);
+
+  const [reporting, setReporting] = useState(false);
+  const [reportedBy, setReportedBy] = useState('');
+  const [fault, setFault] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [reported, setReported] = useState(false);
+
+  useEffect(() => {
+    if (!equipment) return;
+    const fetchData = async () => {
+      const [scheduleResult, breakdownResult] = await Promise.all([
+        loadEquipmentServiceSchedulesForTag(equipment.equipmentTag),
+        loadOpenEquipmentBreakdowns(equipment.id),
+      ]);
+      setSchedules(scheduleResult.data || []);
+      setOpenBreakdowns(breakdownResult.data || []);
+      setIsLoading(false);
+    };
+    fetchData();
+  }, [equipment]);
+
+  const handleReport = async () => {
+    if (!equipment) return;
+    const breakdown: EquipmentBreakdownInput = {
+      hospital_id: DEFAULT_HOSPITAL_ID,
+      equipment_id: equipment.id,
+      equipment_tag: equipment.equipmentTag,
+      equipment_name: equipment.name,
+      reported_at: new Date().toISOString(),
+      reported_by: reportedBy.trim(),
+      fault_description: fault.trim(),
+      vendor: null,
+      vendor_called_at: null,
+      restored_at: null,
+      action_taken: null,
+      repair_cost: null,
+    };
+    const validationError = getBreakdownValidationError(breakdown);
+    if (validationError) {
+      setReportError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await createEquipmentBreakdown(breakdown);
+    setSubmitting(false);
+
+    if (result.success && result.data) {
+      setOpenBreakdowns(prev => [result.data!, ...prev]);
+      setReported(true);
+      setReporting(false);
+    } else {
+      setReportError('Could not report the breakdown. Please inform the biomedical department.');
+    }
+  };
+
+  if (!equipment) {
+    return (
+      <Box
+        sx={{
+          minHeight: '100vh',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          bgcolor: 'background.default',
+          p: 3,
+          textAlign: 'center',
+        }}
+      >
+        <Icon sx={{ fontSize: 64, color: 'error.main', mb: 2 }}>error_outline</Icon>
+        <Typography variant="h5" fontWeight={600} gutterBottom>Equipment Not Found</Typography>
+        <Alert severity="error" sx={{ maxWidth: 400, mt: 2 }}>
+          No equipment is registered with tag {equipmentTag}.
+        </Alert>
+      </Box>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <Box
+        sx={{
+          minHeight: '100vh',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          bgcolor: 'background.default',
+        }}
+      >
+        <CircularProgress size={48} />
+        <Typography variant="body1" color="text.secondary" sx={{ mt: 2 }}>
+          Loading equipment...
+        </Typography>
+      </Box>
+    );
+  }
+
+  const summary = getEquipmentServiceSummary(equipment, schedules);
+  const compliance = deriveEquipmentCompliance(equipment, schedules);
+  const isDown = openBreakdowns.length > 0;
+
+  const rows: { label: string; value: string; overdue?: boolean }[] = [
+    { label: 'Last calibration', value: formatDate(summary.lastCalibration) },
+    { label: 'Next calibration due', value: formatDate(summary.nextCalibration), overdue: summary.calibrationOverdue },
+    { label: 'Calibrated by', value: summary.calibratedBy || 'Not recorded' },
+    { label: 'Last maintenance', value: formatDate(summary.lastMaintenance) },
+    { label: 'Next maintenance due', value: formatDate(summary.nextMaintenance), overdue: summary.maintenanceOverdue },
+  ];
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', py: 4, px: 2 }}>
+      <Box sx={{ maxWidth: 560, mx: 'auto' }}>
+        <Paper sx={{ p: 3, mb: 2, borderTop: 6, borderColor: isDown ? 'error.main' : 'primary.main' }}>
+          <Typography variant="overline" color="primary">{hospital.name}</Typography>
+          <Typography variant="h5" fontWeight={600}>{equipment.name}</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>{equipment.equipmentTag}</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            {[equipment.manufacturer, equipment.model].filter(Boolean).join(' ')} · {equipment.department} - {equipment.location}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+            {isDown
+              ? <Chip color="error" icon={<Icon>build</Icon>} label="Out of service - breakdown reported" />
+              : <Chip color={equipment.status === 'Operational' ? 'success' : 'warning'} label={equipment.status} />}
+            <Chip variant="outlined" color={compliance === 'Compliant' ? 'success' : 'warning'} label={compliance} />
+            {equipment.criticalEquipment && <Chip variant="outlined" label="Critical equipment" />}
+          </Box>
+        </Paper>
+
+        <Paper sx={{ p: 3, mb: 2 }}>
+          <Typography variant="subtitle1" fontWeight={600} gutterBottom>Calibration & Maintenance</Typography>
+          {rows.map((row, i) => (
+            <Box key={row.label}>
+              {i > 0 && <Divider />}
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', py: 1 }}>
+                <Typography variant="body2" color="text.secondary">{row.label}</Typography>
+                <Typography variant="body2" fontWeight={500} color={row.overdue ? 'error.main' : undefined}>
+                  {row.value}{row.overdue ? ' (overdue)' : ''}
+                </Typography>
+              </Box>
+            </Box>
+          ))}
+        </Paper>
+
+        <Paper sx={{ p: 3 }}>
+          {reported && (
+            <Alert severity="success" sx={{ mb: 2 }}>
+              Breakdown reported. The biomedical department has been notified through the breakdown log.
+            </Alert>
+          )}
+          {reporting ? (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Typography variant="subtitle1" fontWeight={600}>Report a Breakdown</Typography>
+              {reportError && <Alert severity="error" onClose={() => setReportError(null)}>{reportError}</Alert>}
+              <TextField
+                label="Your name and designation"
+                required
+                value={reportedBy}
+                onChange={(e) => setReportedBy(e.target.value)}
+              />
+              <TextField
+                label="What is wrong?"
+                required
+                multiline
+                rows={3}
+                value={fault}
+                onChange={(e) => setFault(e.target.value)}
+              />
+              <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                <Button onClick={() => setReporting(false)}>Cancel</Button>
+                <Button variant="contained" color="error" onClick={handleReport} disabled={submitting}>
+                  {submitting ? 'Reporting...' : 'Report Breakdown'}
+                </Button>
+              </Box>
+            </Box>
+          ) : (
+            <Button
+              fullWidth
+              variant="contained"
+              color="error"
+              size="large"
+              startIcon={<Icon>report_problem</Icon>}
+              onClick={() => { setReporting(true); setReported(false); }}
+            >
+              Report a Breakdown
+            </Button>
+          )}
+        </Paper>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Icon from '@mui/material/Icon';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Rating from '@mui/material/Rating';
+import Radio from '@mui/material/Radio';
+import RadioGroup from '@mui/material/RadioGroup';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Divider from '@mui/material/Divider';
+import { getHospitalInfo } from '../config/hospitalConfig';
+import { departmentsMaster } from '../data/departmentsMaster';
+import { loadSurveyWithQuestions, submitSurveyResponse, getSurveyClosedReason } from '../services/surveyStorage';
+import { validateSurveyAnswers, SCALE_MAX } from '../services/surveyAnalyticsEngine';
+import { SURVEY_LANGUAGES, localizeQuestion, localizeSurveyText } from '../services/surveyTranslationService';
+import type { Survey, SurveyAnswer, SurveyLanguage, SurveyQuestion, SurveyRespondentType } from '../types/survey';
+
+const RESPONDENT_TYPES: SurveyRespondentType[] = ['patient', 'visitor', 'staff', 'consultant'];
+
+// Fixed text of the public form; question text comes from the survey's own translations
+const FORM_TEXT: Record<SurveyLanguage, {
+  respondentTypes: Record<SurveyRespondentType, string>;
+  iAmA: string;
+  department: string;
+  preferNotToSay: string;
+  anonymous: string;
+  scaleHint: string;
+  yes: string;
+  no: string;
+  yourAnswer: string;
+  submit: string;
+  required: string;
+  answerHighlighted: string;
+  thankYou: string;
+  recorded: string;
+}> = {
+  en: {
+    respondentTypes: { patient: 'Patient', visitor: 'Family member / Visitor', staff: 'Staff', consultant: 'Visiting Consultant' },
+    iAmA: 'I am a',
+    department: 'Department / Ward',
+    preferNotToSay: 'Prefer not to say',
+    anonymous: 'This survey is anonymous. Your name is not recorded. Questions marked * are required.',
+    scaleHint: `1 = lowest, ${SCALE_MAX} = highest`,
+    yes: 'Yes',
+    no: 'No',
+    yourAnswer: 'Your answer',
+    submit: 'Submit',
+    required: 'This question is required',
+    answerHighlighted: 'Please answer the highlighted questions',
+    thankYou: 'Thank you for your feedback',
+    recorded: 'Your response has been recorded anonymously. We use this feedback to improve the quality of care.',
+  },
+  hi: {
+    respondentTypes: { patient: 'मरीज़', visitor: 'परिजन / आगंतुक', staff: 'कर्मचारी', consultant: 'विज़िटिंग कंसल्टेंट' },
+    iAmA: 'मैं हूँ',
+    department: 'विभाग / वार्ड',
+    preferNotToSay: 'नहीं बताना चाहते',
+    anonymous: 'यह सर्वे गुमनाम है। आपका नाम दर्ज नहीं किया जाता। * वाले प्रश्नों का उत्तर देना ज़रूरी है।',
+    scaleHint: `1 = सबसे कम, ${SCALE_MAX} = सबसे अधिक`,
+    yes: 'हाँ',
+    no: 'नहीं',
+    yourAnswer: 'आपका उत्तर',
+    submit: 'जमा करें',
+    required: 'कृपया इस प्रश्न का उत्तर दें',
+    answerHighlighted: 'कृपया चिह्नित प्रश्नों के उत्तर दें',
+    thankYou: 'आपकी प्रतिक्रिया के लिए धन्यवाद',
+    recorded: 'आपका उत्तर गुमनाम रूप से दर्ज कर लिया गया है। हम इस प्रतिक्रिया से सेवा की गुणवत्ता सुधारते हैं।',
+  },
+  mr: {
+    respondentTypes: { patient: 'रुग्ण', visitor: 'नातेवाईक / अभ्यागत', staff: 'कर्मचारी', consultant: 'व्हिजिटिंग कन्सल्टंट' },
+    iAmA: 'मी आहे',
+    department: 'विभाग / वॉर्ड',
+    preferNotToSay: 'सांगू इच्छित नाही',
+    anonymous: 'हे सर्वेक्षण निनावी आहे. तुमचे नाव नोंदवले जात नाही. * असलेल्या प्रश्नांची उत्तरे देणे आवश्यक आहे.',
+    scaleHint: `1 = सर्वात कमी, ${SCALE_MAX} = सर्वात जास्त`,
+    yes: 'होय',
+    no: 'नाही',
+    yourAnswer: 'तुमचे उत्तर',
+    submit: 'सादर करा',
+    required: 'कृपया या प्रश्नाचे उत्तर द्या',
+    answerHighlighted: 'कृपया चिन्हांकित प्रश्नांची उत्तरे द्या',
+    thankYou: 'तुमच्या अभिप्रायाबद्दल धन्यवाद',
+    recorded: 'तुमचे उत्तर निनावीपणे नोंदवले गेले आहे. आम्ही या अभिप्रायाचा उपयोग सेवेचा दर्जा सुधारण्यासाठी करतो.',
+  },
+};
+
+export default function PublicSurveyPage() {
+  const { surveyId } = useParams<{ surveyId: string }>();
+  const hospital = getHospitalInfo();
+  const [survey, setSurvey] = useState<Survey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, SurveyAnswer>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [respondentType, setRespondentType] = useState<SurveyRespondentType>('patient');
+  const [department, setDepartment] = useState('');
+  const [language, setLanguage] = useState<SurveyLanguage>('en');
+  const [startedAt, setStartedAt] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  useEffect(() => {
+    const loadSurvey = async () => {
+      if (!surveyId) {
+        setError('No survey ID provided');
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const result = await loadSurveyWithQuestions(surveyId);
+      if (result.success && result.data) {
+        setSurvey(result.data);
+        setRespondentType(result.data.type === 'staff_satisfaction' ? 'staff' : 'patient');
+        setStartedAt(Date.now());
+      } else {
+        setError(result.error || 'Survey not found');
+      }
+      setIsLoading(false);
+    };
+
+    loadSurvey();
+  }, [surveyId]);
+
+  const setAnswer = (questionId: string, value: SurveyAnswer | null) => {
+    setAnswers(prev => {
+      const next = { ...prev };
+      if (value === null || value === '') delete next[questionId];
+      else next[questionId] = value;
+      return next;
+    });
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!survey) return;
+    const validation = validateSurveyAnswers(survey.questions, answers);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      setSubmitError(FORM_TEXT[language].answerHighlighted);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    const result = await submitSurveyResponse(survey, {
+      respondent_type: respondentType,
+      department: department || null,
+      language,
+      responses: answers,
+      completion_time: Math.max(1, Math.round((Date.now() - startedAt) / 60000)),
+    });
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setIsSubmitted(true);
+    } else {
+      setSubmitError(result.error || 'Could not submit your response. Please try again.');
+    }
+  };
+
+  const text = FORM_TEXT[language];
+
+  const renderQuestionInput = (question: SurveyQuestion) => {
+    const value = answers[question.id];
+
+    switch (question.type) {
+      case 'rating':
+        return (
+          <Rating
+            size="large"
+            value={typeof value === 'number' ? value : null}
+            onChange={(_, v) => setAnswer(question.id, v)}
+          />
+        );
+      case 'scale':
+        return (
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={typeof value === 'number' ? value : null}
+            onChange={(_, v) => setAnswer(question.id, v)}
+            sx={{ flexWrap: 'wrap' }}
+          >
+            {Array.from({ length: SCALE_MAX }, (_, i) => i + 1).map(n => (
+              <ToggleButton key={n} value={n} sx={{ minWidth: 40 }}>{n}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        );
+      case 'yes_no':
+        return (
+          <RadioGroup row value={value ?? ''} onChange={(e) => setAnswer(question.id, e.target.value)}>
+            <FormControlLabel value="yes" control={<Radio />} label={text.yes} />
+            <FormControlLabel value="no" control={<Radio />} label={text.no} />
+          </RadioGroup>
+        );
+      case 'multiple_choice':
+        return (
+          <RadioGroup value={value ?? ''} onChange={(e) => setAnswer(question.id, e.target.value)}>
+            {localizeQuestion(question, language).options.map(option => (
+              <FormControlLabel key={option.value} value={option.value} control={<Radio />} label={option.label} />
+            ))}
+          </RadioGroup>
+        );
+      default:
+        return (
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            placeholder={text.yourAnswer}
+            value={value ?? ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box
+        sx={{
+          minHeight: '100vh',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          bgcolor: 'background.default',
+        }}
+      >
+        <CircularProgress size={48} />
+        <Typography variant="body1" color="text.secondary" sx={{ mt: 2 }}>
+          Loading survey...
+        </Typography>
+      </Box>
+    );
+  }
+
+  const closedReason = survey ? getSurveyClosedReason(survey) : null;
+
+  if (error || !survey || closedReason || isSubmitted) {
+    return (
+      <Box
+        sx={{
+          minHeight: '100vh',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          bgcolor: 'background.default',
+          p: 3,
+          textAlign: 'center',
+        }}
+      >
+        <Icon sx={{ fontSize: 64, color: isSubmitted ? 'success.main' : 'error.main', mb: 2 }}>
+          {isSubmitted ? 'check_circle' : 'error_outline'}
+        </Icon>
+        <Typography variant="h5" fontWeight={600} gutterBottom>
+          {isSubmitted ? text.thankYou : survey ? localizeSurveyText(survey, language).title : 'Survey Not Found'}
+        </Typography>
+        {isSubmitted ? (
+          <Typography color="text.secondary" sx={{ maxWidth: 420 }}>
+            {text.recorded}
+          </Typography>
+        ) : (
+          <Alert severity={survey ? 'info' : 'error'} sx={{ maxWidth: 400, mt: 2 }}>
+            {closedReason || error || 'The requested survey could not be found.'}
+          </Alert>
+        )}
+      </Box>
+    );
+  }
+
+  const surveyText = localizeSurveyText(survey, language);
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', py: 4, px: 2 }}>
+      <Box sx={{ maxWidth: 720, mx: 'auto' }}>
+        <Paper sx={{ p: 3, mb: 2, borderTop: 6, borderColor: 'primary.main' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, flexWrap: 'wrap' }}>
+            <Typography variant="overline" color="primary">{hospital.name}</Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={language}
+              onChange={(_, v: SurveyLanguage | null) => v && setLanguage(v)}
+            >
+              {SURVEY_LANGUAGES.map(l => (
+                <ToggleButton key={l.code} value={l.code} sx={{ px: 1.5, textTransform: 'none' }}>
+                  {l.nativeLabel}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+          <Typography variant="h5" fontWeight={600}>{surveyText.title}</Typography>
+          {surveyText.description && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>{surveyText.description}</Typography>
+          )}
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2 }}>
+            <Icon sx={{ fontSize: 14, verticalAlign: 'middle', mr: 0.5 }}>lock</Icon>
+            {text.anonymous}
+          </Typography>
+        </Paper>
+
+        <Paper sx={{ p: 3, mb: 2 }}>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <TextField
+              select
+              size="small"
+              label={text.iAmA}
+              value={respondentType}
+              onChange={(e) => setRespondentType(e.target.value as SurveyRespondentType)}
+              sx={{ minWidth: 220 }}
+            >
+              {RESPONDENT_TYPES.map(t => (
+                <MenuItem key={t} value={t}>{text.respondentTypes[t]}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label={text.department}
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+              sx={{ minWidth: 260, flexGrow: 1 }}
+            >
+              <MenuItem value=""><em>{text.preferNotToSay}</em></MenuItem>
+              {departmentsMaster.map(d => (
+                <MenuItem key={d.id} value={d.name}>{d.name}</MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        </Paper>
+
+        {survey.questions.map((question, index) => (
+          <Paper
+            key={question.id}
+            sx={{ p: 3, mb: 2, borderLeft: 4, borderColor: errors[question.id] ? 'error.main' : 'transparent' }}
+          >
+            <Typography variant="subtitle1" fontWeight={500} gutterBottom>
+              {index + 1}. {localizeQuestion(question, language).question}
+              {question.required && <span style={{ color: '#D32F2F' }}> *</span>}
+            </Typography>
+            {question.type === 'scale' && (
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+                {text.scaleHint}
+              </Typography>
+            )}
+            {renderQuestionInput(question)}
+            {errors[question.id] && (
+              <Typography variant="caption" color="error" component="div" sx={{ mt: 1 }}>
+                {answers[question.id] === undefined ? text.required : errors[question.id]}
+              </Typography>
+            )}
+          </Paper>
+        ))}
+
+        <Divider sx={{ my: 2 }} />
+        {submitError && <Alert severity="error" sx={{ mb: 2 }}>{submitError}</Alert>}
+        <Button
+          variant="contained"
+          size="large"
+          fullWidth
+          startIcon={isSubmitting ? <CircularProgress size={20} color="inherit" /> : <Icon>send</Icon>}
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+        >
+          {text.submit}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useEffectEvent } from 'react';
 import {
   Box,
   Typography,
@@ -25,6 +25,7 @@ import {
   Edit as EditIcon,
   Chat as ChatIcon,
   Storage as StorageIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 import { loadSOPsByChapter } from '../services/sopStorage';
 import { extractTextFromPDFUrl, generateSOPFromContent, filterRelevantContent } from '../services/documentExtractor';
@@ -32,12 +33,21 @@ import { loadObjectiveEditsByChapter } from '../services/objectiveStorage';
 import { loadAllSOPPrompts } from '../services/sopPromptStorage';
 import { supabase } from '../lib/supabase';
 import SOPImprovementChat from './SOPImprovementChat';
-import { uploadAndSaveSOP, getGeneratedSOPsByChapter, type GeneratedSOP } from '../services/sopGeneratedStorage';
-import { callGeminiAPI } from '../lib/supabase';
-import { useNavigate } from 'react-router-dom';
+import SOPRevisionHistory from './SOPRevisionHistory';
+import SOPApprovalPanel from './SOPApprovalPanel';
+import { uploadAndSaveSOP, uploadSOPPdf, updateGeneratedSOPPdf, getGeneratedSOPsByChapter, type GeneratedSOP } from '../services/sopGeneratedStorage';
+import { loadSOPRevisions, saveSOPRevision, appendAmendmentRecord, getAmendmentRecordRows, type SOPRevision } from '../services/sopRevisionStorage';
+import { loadApprovalEvents } from '../services/sopApprovalStorage';
+import { getApprovalSignatures, insertApprovalBlock, isApprovedForRelease } from '../services/sopApprovalEngine';
+import type { SOPApprovalStage } from '../types/sopApproval';
+import { callGeminiAPI } from '../services/aiGatewayClient';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useNABHStore } from '../store/nabhStore';
 
 export default function RecentSOPsPage() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { selectedHospital } = useNABHStore();
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
     open: false,
     message: '',
@@ -51,6 +61,9 @@ export default function RecentSOPsPage() {
   const [isCustomChapter, setIsCustomChapter] = useState(false);
   const [objectives, setObjectives] = useState<any[]>([]);
   const [selectedObjective, setSelectedObjective] = useState<string>('');
+  // Deep link from the document review scheduler (?chapter=AAC&objective=AAC.1)
+  const [pendingChapter, setPendingChapter] = useState<string>(searchParams.get('chapter') || '');
+  const [pendingObjective, setPendingObjective] = useState<string>(searchParams.get('objective') || '');
 
   // F1 - Old SOP extracted text (1st & 2nd Edition)
   const [oldSOPText, setOldSOPText] = useState<string>('');
@@ -90,6 +103,7 @@ export default function RecentSOPsPage() {
   // Existing SOP from database
   const [existingSOP, setExistingSOP] = useState<GeneratedSOP | null>(null);
   const [checkingExistingSOP, setCheckingExistingSOP] = useState(false);
+  const [showRevisionHistory, setShowRevisionHistory] = useState(false);
 
   // F7: Modify SOP with AI
   const [modifyPrompt, setModifyPrompt] = useState<string>('');
@@ -221,6 +235,27 @@ export default function RecentSOPsPage() {
     }
   };
 
+  // Deep link: select the chapter once chapters load, then the objective once its objectives load
+  useEffect(() => {
+    if (!pendingChapter || dbChapters.length === 0) return;
+    setPendingChapter('');
+    const chapter = dbChapters.find(ch => ch.name?.startsWith(pendingChapter));
+    if (chapter) {
+      setSelectedChapterId(chapter.id);
+      setSelectedChapterCode(pendingChapter);
+    }
+  }, [dbChapters, pendingChapter]);
+
+  const selectDeepLinkedObjective = useEffectEvent((objectiveCode: string) => {
+    handleObjectiveChange(objectiveCode);
+  });
+
+  useEffect(() => {
+    if (!pendingObjective || objectives.length === 0) return;
+    setPendingObjective('');
+    selectDeepLinkedObjective(pendingObjective);
+  }, [objectives, pendingObjective]);
+
   // Auto-populate F3 and F4 when objective is selected
   const handleObjectiveChange = async (objectiveCode: string) => {
     setSelectedObjective(objectiveCode);
@@ -430,6 +465,103 @@ export default function RecentSOPsPage() {
     showSnackbar(`${label} copied!`, 'success');
   };
 
+  // Render SOP HTML to a PDF blob for upload
+  const renderSOPPdfBlob = async (html: string): Promise<Blob | undefined> => {
+    try {
+      const html2pdf = (await import('html2pdf.js')).default;
+      const container = document.createElement('div');
+      container.innerHTML = html;
+      document.body.appendChild(container);
+
+      const pdfBlob = await html2pdf().set({
+        margin: [15, 10, 15, 10],  // 15mm top/bottom, 10mm left/right
+        image: { type: 'jpeg', quality: 0.98 },
+        html2canvas: { scale: 2, useCORS: true },
+        jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
+      }).from(container).outputPdf('blob');
+
+      document.body.removeChild(container);
+      return pdfBlob;
+    } catch (pdfError) {
+      console.warn('PDF generation failed, saving without PDF:', pdfError);
+      return undefined;
+    }
+  };
+
+  // Save a revision of the existing SOP; the uploaded PDF already lists it in the amendment record
+  const saveExistingSOPRevision = async (sop: GeneratedSOP, content: string, changeReason: string): Promise<SOPRevision | null> => {
+    const { data: userData } = await supabase.auth.getUser();
+    const author = userData?.user?.email || 'System';
+
+    const history = await loadSOPRevisions(sop.id);
+    const amendmentRows = getAmendmentRecordRows(sop, history.data || [], { changeReason, author });
+    const pdfBlob = await renderSOPPdfBlob(appendAmendmentRecord(content, amendmentRows));
+
+    let pdfUrl: string | undefined;
+    let pdfFilePath: string | undefined;
+    if (pdfBlob) {
+      const upload = await uploadSOPPdf(pdfBlob, sop.chapter_code, sop.objective_code);
+      if (upload.success) {
+        pdfUrl = upload.url;
+        pdfFilePath = upload.path;
+      } else {
+        console.warn('PDF upload failed, saving revision without PDF:', upload.error);
+      }
+    }
+
+    const result = await saveSOPRevision(sop, { content, changeReason, author, pdfUrl, pdfFilePath });
+    if (!result.success || !result.data) {
+      showSnackbar(result.error || 'Failed to save SOP revision', 'error');
+      return null;
+    }
+
+    const revision = result.data;
+    setExistingSOP({
+      ...sop,
+      sop_html_content: revision.sop_html_content,
+      version: revision.version,
+      approval_stage: 'Draft',
+      pdf_url: revision.pdf_url || sop.pdf_url,
+      pdf_file_path: revision.pdf_file_path || sop.pdf_file_path,
+    });
+    setCurrentVersion(revision.version);
+    return revision;
+  };
+
+  // Put the current sign-offs into the SOP header
+  const withApprovalBlock = async (sop: GeneratedSOP, html: string): Promise<string> => {
+    const stage = sop.approval_stage || 'Draft';
+    if (stage === 'Draft') return html;
+    const events = await loadApprovalEvents('generated_sop', sop.id);
+    return insertApprovalBlock(html, getApprovalSignatures(events.data || [], stage));
+  };
+
+  // Approved and issued SOPs get a fresh PDF carrying the signatures
+  const handleApprovalStageChange = async (stage: SOPApprovalStage) => {
+    if (!existingSOP) return;
+    const updatedSOP: GeneratedSOP = {
+      ...existingSOP,
+      approval_stage: stage,
+      ...(stage === 'Issued' ? { status: 'Active' as const, effective_date: new Date().toISOString().split('T')[0] } : {}),
+    };
+    setExistingSOP(updatedSOP);
+    showSnackbar(`SOP is now ${stage}`, 'success');
+
+    if (!isApprovedForRelease(stage)) return;
+    const history = await loadSOPRevisions(updatedSOP.id);
+    const signed = await withApprovalBlock(updatedSOP, updatedSOP.sop_html_content);
+    const pdfBlob = await renderSOPPdfBlob(appendAmendmentRecord(signed, getAmendmentRecordRows(updatedSOP, history.data || [])));
+    if (!pdfBlob) return;
+
+    const upload = await uploadSOPPdf(pdfBlob, updatedSOP.chapter_code, updatedSOP.objective_code);
+    if (upload.success && upload.url && upload.path) {
+      const result = await updateGeneratedSOPPdf(updatedSOP.id, upload.url, upload.path);
+      if (result.success) {
+        setExistingSOP({ ...updatedSOP, pdf_url: upload.url, pdf_file_path: upload.path });
+      }
+    }
+  };
+
   // Save to database with PDF upload to bucket
   const handleSaveToDB = async () => {
     if (!finalSOP || !selectedChapterId || !selectedObjective) {
@@ -437,27 +569,39 @@ export default function RecentSOPsPage() {
       return;
     }
 
+    // Existing SOPs are never overwritten: each save becomes a new revision
+    if (existingSOP) {
+      if (finalSOP === existingSOP.sop_html_content) {
+        showSnackbar('No changes since the current revision', 'error');
+        return;
+      }
+      const changeReason = prompt('Reason for change (recorded in the amendment record):');
+      if (!changeReason || !changeReason.trim()) return;
+
+      setIsSaving(true);
+      try {
+        const revision = await saveExistingSOPRevision(existingSOP, finalSOP, changeReason);
+        if (revision) {
+          showSnackbar(`Revision ${revision.revision_number} saved (v${revision.version})`, 'success');
+        }
+      } catch (error) {
+        console.error('Error saving SOP revision:', error);
+        showSnackbar('Error saving SOP revision', 'error');
+      } finally {
+        setIsSaving(false);
+      }
+      return;
+    }
+
     setIsSaving(true);
     try {
       // Step 1: Generate PDF Blob
-      let pdfBlob: Blob | undefined;
-      try {
-        const html2pdf = (await import('html2pdf.js')).default;
-        const container = document.createElement('div');
-        container.innerHTML = finalSOP;
-        document.body.appendChild(container);
-
-        pdfBlob = await html2pdf().set({
-          margin: [15, 10, 15, 10],  // 15mm top/bottom, 10mm left/right
-          image: { type: 'jpeg', quality: 0.98 },
-          html2canvas: { scale: 2, useCORS: true },
-          jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
-        }).from(container).outputPdf('blob');
-
-        document.body.removeChild(container);
-      } catch (pdfError) {
-        console.warn('PDF generation failed, saving without PDF:', pdfError);
-      }
+      const { data: userData } = await supabase.auth.getUser();
+      const amendmentRows = getAmendmentRecordRows(null, [], {
+        changeReason: '',
+        author: userData?.user?.email || 'System',
+      });
+      const pdfBlob = await renderSOPPdfBlob(appendAmendmentRecord(finalSOP, amendmentRows));
 
       // Step 2: Upload PDF + Save to nabh_generated_sops table
       const result = await uploadAndSaveSOP({
@@ -469,10 +613,14 @@ export default function RecentSOPsPage() {
         f3_title: objectiveTitle,
         f4_interpretation: interpretation,
         sop_html_content: finalSOP,
+        hospital_id: selectedHospital,
       }, pdfBlob);
 
       if (result.success) {
-        showSnackbar(`SOP saved successfully!${result.pdfUrl ? ' PDF uploaded.' : ''}`, 'success');
+        if (result.data) {
+          setExistingSOP(result.data);
+        }
+        showSnackbar(`SOP ${result.data?.document_number || ''} saved successfully!${result.pdfUrl ? ' PDF uploaded.' : ''}`, 'success');
       } else {
         throw new Error(result.error || 'Failed to save SOP');
       }
@@ -497,9 +645,16 @@ export default function RecentSOPsPage() {
     try {
       const html2pdf = (await import('html2pdf.js')).default;
 
+      // Approval block and amendment record from the saved SOP (document control)
+      const history = existingSOP ? await loadSOPRevisions(existingSOP.id) : null;
+      const amendmentRows = getAmendmentRecordRows(existingSOP, history?.data || []);
+      const signed = existingSOP && finalSOP === existingSOP.sop_html_content
+        ? await withApprovalBlock(existingSOP, finalSOP)
+        : finalSOP;
+
       // Create container with the generated HTML
       const container = document.createElement('div');
-      container.innerHTML = finalSOP;
+      container.innerHTML = appendAmendmentRecord(signed, amendmentRows);
       document.body.appendChild(container);
 
       await html2pdf().set({
@@ -520,8 +675,19 @@ export default function RecentSOPsPage() {
   };
 
   // SOP Improvement Chat Handlers
-  const handleSOPUpdate = (updatedSOP: string) => {
-    // Create new version
+  const handleSOPUpdate = async (updatedSOP: string, changeReason: string) => {
+    setFinalSOP(updatedSOP);
+
+    // Saved SOPs: every chat improvement is recorded as a revision
+    if (existingSOP) {
+      const revision = await saveExistingSOPRevision(existingSOP, updatedSOP, changeReason);
+      if (revision) {
+        showSnackbar(`SOP updated to version ${revision.version} (revision ${revision.revision_number})`, 'success');
+      }
+      return;
+    }
+
+    // Not saved yet: keep a draft version until the first save
     const newVersionNumber = (parseFloat(currentVersion) + 0.1).toFixed(1);
     const newVersion = {
       id: Date.now().toString(),
@@ -532,11 +698,19 @@ export default function RecentSOPsPage() {
     
     setSOPVersions(prev => [...prev, newVersion]);
     setCurrentVersion(newVersionNumber);
-    setFinalSOP(updatedSOP);
 
     showSnackbar(`SOP updated to version ${newVersionNumber}!`, 'success');
   };
 
+  const handleRevisionRestored = (revision: SOPRevision) => {
+    setFinalSOP(revision.sop_html_content);
+    setCurrentVersion(revision.version);
+    if (existingSOP) {
+      setExistingSOP({ ...existingSOP, sop_html_content: revision.sop_html_content, version: revision.version, approval_stage: 'Draft' });
+    }
+    showSnackbar(`${revision.change_reason} as v${revision.version}`, 'success');
+  };
+
   const handleFeedbackSave = async (feedback: any) => {
     try {
       // Save feedback to database for future improvements
@@ -1120,7 +1294,7 @@ TASK: Modify the SOP according to the user's request above.
 
 OUTPUT: Return ONLY the modified HTML content, no explanations or markdown.`;
 
-                    const response = await callGeminiAPI(aiPrompt, 0.7, 8192);
+                    const response = await callGeminiAPI(aiPrompt, 0.7, 8192, 'sop-improvement');
                     let modifiedContent = response?.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
                     if (modifiedContent) {
@@ -1200,6 +1374,15 @@ Examples:
                       Open PDF
                     </Button>
                   )}
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<HistoryIcon />}
+                    onClick={() => setShowRevisionHistory(true)}
+                    sx={{ fontSize: '0.7rem', py: 0.5, height: 24 }}
+                  >
+                    History
+                  </Button>
                 </>
               )}
             </Box>
@@ -1279,6 +1462,17 @@ Examples:
               )}
             </Box>
           </Box>
+          {existingSOP && (
+            <Box sx={{ p: 1.5, borderBottom: '1px solid #ccc' }}>
+              <SOPApprovalPanel
+                key={existingSOP.id}
+                documentType="generated_sop"
+                documentId={existingSOP.id}
+                stage={existingSOP.approval_stage || 'Draft'}
+                onStageChange={handleApprovalStageChange}
+              />
+            </Box>
+          )}
           {/* Rendered SOP Document Preview */}
           <Box sx={{ bgcolor: '#fff', minHeight: '500px', maxWidth: '100%', overflow: 'hidden' }}>
             {finalSOP ? (
@@ -1389,11 +1583,12 @@ Examples:
                   🤖 SOP Improvement Assistant
                 </Typography>
                 <Box display="flex" alignItems="center" gap={1}>
-                  {sopVersions.length > 1 && (
-                    <Button 
-                      size="small" 
-                      variant="outlined" 
-                      onClick={() => {/* Add version comparison logic */}}
+                  {existingSOP && (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<HistoryIcon />}
+                      onClick={() => setShowRevisionHistory(true)}
                     >
                       Compare Versions
                     </Button>
@@ -1423,6 +1618,13 @@ Examples:
         </Box>
       )}
 
+      <SOPRevisionHistory
+        open={showRevisionHistory}
+        onClose={() => setShowRevisionHistory(false)}
+        sop={existingSOP}
+        onRestored={handleRevisionRestored}
+      />
+
       <Snackbar open={snackbar.open} autoHideDuration={3000} onClose={() => setSnackbar({ ...snackbar, open: false })}>
         <Alert severity={snackbar.severity} variant="filled">{snackbar.message}</Alert>
       </Snackbar>
@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Stepper,
+  Step,
+  StepLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import {
+  HowToReg as SignIcon,
+  Undo as RejectIcon,
+} from '@mui/icons-material';
+import { getTeamMember } from '../config/hospitalConfig';
+import type { SOPApprovalStage, SOPApprovalAction, SOPApprovalEvent, SOPApprovalDocumentType } from '../types/sopApproval';
+import {
+  APPROVAL_ACTION_LABELS,
+  canRejectStage,
+  getApprovalSignatures,
+  getNextApprovalAction,
+  validateApprovalTransition,
+} from '../services/sopApprovalEngine';
+import { loadApprovalEvents, recordApprovalAction } from '../services/sopApprovalStorage';
+import { canSignApprovalAction } from '../services/permissionEngine';
+import { useAuthStore } from '../store/authStore';
+
+interface SOPApprovalPanelProps {
+  documentType: SOPApprovalDocumentType;
+  documentId: string;
+  stage: SOPApprovalStage;
+  onStageChange: (stage: SOPApprovalStage) => void;
+}
+
+const SIGN_OFF_STEPS: Exclude<SOPApprovalAction, 'Rejected'>[] = ['Prepared', 'Reviewed', 'Approved', 'Issued'];
+
+export default function SOPApprovalPanel({ documentType, documentId, stage, onStageChange }: SOPApprovalPanelProps) {
+  const user = useAuthStore(state => state.user);
+  const [events, setEvents] = useState<SOPApprovalEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogAction, setDialogAction] = useState<SOPApprovalAction | null>(null);
+  const [comments, setComments] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      const result = await loadApprovalEvents(documentType, documentId);
+      if (result.success && result.data) {
+        setEvents(result.data);
+      }
+      setLoading(false);
+    };
+    fetchEvents();
+  }, [documentType, documentId]);
+
+  const signatures = getApprovalSignatures(events, stage);
+  const nextAction = getNextApprovalAction(stage);
+  const lastEvent = events[events.length - 1];
+  const activeStep = stage === 'Draft' ? 0 : SIGN_OFF_STEPS.indexOf(stage) + 1;
+  // Signatures are always given as the team member linked to this login
+  const signer = user?.team_member_name ? getTeamMember(user.team_member_name) : undefined;
+
+  const openDialog = (action: SOPApprovalAction) => {
+    setDialogAction(action);
+    setComments('');
+    setError(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!dialogAction) return;
+    if (!canSignApprovalAction(user?.role, dialogAction)) {
+      setError('Your role is not allowed to sign this step');
+      return;
+    }
+    if (!signer) {
+      setError('Your login is not linked to a team member; ask the NABH coordinator to link it before signing');
+      return;
+    }
+    const validationError = validateApprovalTransition(stage, dialogAction, signer, comments, signatures);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const result = await recordApprovalAction({
+      documentType,
+      documentId,
+      stage,
+      action: dialogAction,
+      member: signer,
+      comments,
+    });
+    setSaving(false);
+
+    if (result.success && result.data) {
+      setEvents(prev => [...prev, result.data!.event]);
+      setDialogAction(null);
+      onStageChange(result.data.stage);
+    } else {
+      setError(result.error || 'Failed to record sign-off');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="subtitle2" fontWeight="bold">Approval Workflow</Typography>
+          <Chip
+            label={stage}
+            size="small"
+            color={stage === 'Issued' ? 'success' : stage === 'Approved' ? 'primary' : stage === 'Draft' ? 'default' : 'warning'}
+          />
+          {loading && <CircularProgress size={14} />}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {canRejectStage(stage) && canSignApprovalAction(user?.role, 'Rejected') && (
+            <Button size="small" color="error" startIcon={<RejectIcon />} onClick={() => openDialog('Rejected')}>
+              Reject
+            </Button>
+          )}
+          {nextAction && canSignApprovalAction(user?.role, nextAction) && (
+            <Button size="small" variant="contained" startIcon={<SignIcon />} onClick={() => openDialog(nextAction)}>
+              Sign as {nextAction}
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 1 }}>
+        {SIGN_OFF_STEPS.map(step => {
+          const signature = signatures[step];
+          return (
+            <Step key={step} completed={!!signature}>
+              <StepLabel
+                optional={signature && (
+                  <Typography variant="caption" color="text.secondary">
+                    {signature.member_name} · {new Date(signature.created_at).toLocaleDateString('en-IN')}
+                  </Typography>
+                )}
+              >
+                {step}
+              </StepLabel>
+            </Step>
+          );
+        })}
+      </Stepper>
+
+      {stage === 'Draft' && lastEvent?.action === 'Rejected' && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          Rejected by {lastEvent.member_name} on {new Date(lastEvent.created_at).toLocaleDateString('en-IN')}: {lastEvent.comments}
+        </Alert>
+      )}
+
+      {events.length > 0 && (
+        <List dense disablePadding sx={{ maxHeight: 160, overflow: 'auto' }}>
+          {[...events].reverse().map(event => (
+            <ListItem key={event.id} disableGutters>
+              <ListItemText
+                primary={`${APPROVAL_ACTION_LABELS[event.action]} ${event.member_name} (${event.member_role})`}
+                secondary={`${new Date(event.created_at).toLocaleString('en-IN')}${event.comments ? ` — ${event.comments}` : ''}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Dialog open={!!dialogAction} onClose={() => setDialogAction(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{dialogAction === 'Rejected' ? 'Reject SOP' : `Sign as ${dialogAction}`}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            {error && <Alert severity="error">{error}</Alert>}
+            {signer ? (
+              <TextField
+                label="Signing As"
+                size="small"
+                fullWidth
+                value={`${signer.name} - ${signer.role}`}
+                helperText={signer.designation}
+                InputProps={{ readOnly: true }}
+              />
+            ) : (
+              <Alert severity="warning">
+                Your login is not linked to a team member. Ask the NABH coordinator to link it before signing.
+              </Alert>
+            )}
+            <TextField
+              label={dialogAction === 'Rejected' ? 'Rejection Comments' : 'Comments (optional)'}
+              required={dialogAction === 'Rejected'}
+              multiline
+              minRows={3}
+              fullWidth
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogAction(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color={dialogAction === 'Rejected' ? 'error' : 'primary'}
+            onClick={handleConfirm}
+            disabled={saving || !signer}
+          >
+            {saving ? <CircularProgress size={20} /> : dialogAction === 'Rejected' ? 'Reject' : 'Sign'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
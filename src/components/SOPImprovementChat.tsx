@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { callGeminiAPI } from '../lib/supabase';
+import { callGeminiAPI } from '../services/aiGatewayClient';
 import {
   Box,
   Paper,
@@ -45,7 +45,7 @@ interface SOPImprovementChatProps {
   sopTitle: string;
   objectiveCode: string;
   chapterCode: string;
-  onSOPUpdate: (updatedSOP: string) => void;
+  onSOPUpdate: (updatedSOP: string, changeReason: string) => void;
   onFeedbackSave: (feedback: any) => void;
 }
 
@@ -233,7 +233,13 @@ const SOPImprovementChat: React.FC<SOPImprovementChatProps> = ({
     // Call AI service to generate improved SOP based on feedback
     try {
       const improvedSOP = await generateImprovedSOP();
-      onSOPUpdate(improvedSOP);
+      // The reviewer's chat feedback is the change reason for the revision
+      const changeReason = messages
+        .filter(message => message.type === 'user')
+        .map(message => message.content.trim())
+        .filter(Boolean)
+        .join('\n') || 'Improved via SOP Improvement Assistant';
+      onSOPUpdate(improvedSOP, changeReason);
       
       const successMessage: Message = {
         id: `bot-${Date.now()}`,
@@ -283,7 +289,7 @@ IMPROVEMENT INSTRUCTIONS:
 Generate the complete improved HTML SOP document. Return ONLY the HTML content, no explanations.`;
 
     try {
-      const data = await callGeminiAPI(improvementPrompt, 0.7, 16384);
+      const data = await callGeminiAPI(improvementPrompt, 0.7, 16384, 'sop-improvement');
       let improvedSOP = data.candidates?.[0]?.content?.parts?.[0]?.text || sopContent;
       
       // Clean up any markdown artifacts
@@ -0,0 +1,230 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
+} from '@mui/material';
+import {
+  History as HistoryIcon,
+  Restore as RestoreIcon,
+} from '@mui/icons-material';
+import type { GeneratedSOP } from '../services/sopGeneratedStorage';
+import { loadSOPRevisions, restoreSOPRevision, type SOPRevision } from '../services/sopRevisionStorage';
+import { diffHtml, type DiffRowType } from '../utils/htmlDiff';
+
+interface SOPRevisionHistoryProps {
+  open: boolean;
+  onClose: () => void;
+  sop: GeneratedSOP | null;
+  onRestored: (revision: SOPRevision) => void;
+}
+
+const ROW_COLORS: Record<DiffRowType, { left: string; right: string }> = {
+  equal: { left: 'transparent', right: 'transparent' },
+  added: { left: '#f5f5f5', right: '#e8f5e9' },
+  removed: { left: '#ffebee', right: '#f5f5f5' },
+  changed: { left: '#fff8e1', right: '#fff8e1' },
+};
+
+export default function SOPRevisionHistory({ open, onClose, sop, onRestored }: SOPRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<SOPRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  useEffect(() => {
+    if (!open || !sop) return;
+    const fetchRevisions = async () => {
+      setLoading(true);
+      setError(null);
+      const result = await loadSOPRevisions(sop.id);
+      if (result.success && result.data) {
+        setRevisions(result.data);
+        // Default comparison: previous revision against the latest
+        setToId(result.data[0]?.id || '');
+        setFromId(result.data[1]?.id || result.data[0]?.id || '');
+      } else {
+        setError(result.error || 'Failed to load revisions');
+      }
+      setLoading(false);
+    };
+    fetchRevisions();
+  }, [open, sop]);
+
+  const fromRevision = revisions.find(r => r.id === fromId);
+  const toRevision = revisions.find(r => r.id === toId);
+
+  const diffRows = useMemo(() => {
+    if (!fromRevision || !toRevision) return [];
+    return diffHtml(fromRevision.sop_html_content, toRevision.sop_html_content);
+  }, [fromRevision, toRevision]);
+
+  const visibleRows = changesOnly ? diffRows.filter(row => row.type !== 'equal') : diffRows;
+  const changeCount = diffRows.filter(row => row.type !== 'equal').length;
+
+  const handleRestore = async (revision: SOPRevision) => {
+    if (!sop) return;
+    if (!confirm(`Restore revision ${revision.revision_number} (v${revision.version})? It will be saved as a new revision.`)) return;
+
+    setRestoring(true);
+    const result = await restoreSOPRevision(sop, revision);
+    setRestoring(false);
+    if (result.success && result.data) {
+      onRestored(result.data);
+      onClose();
+    } else {
+      setError(result.error || 'Failed to restore revision');
+    }
+  };
+
+  const revisionLabel = (revision: SOPRevision) =>
+    `Rev ${revision.revision_number} · v${revision.version} · ${new Date(revision.created_at).toLocaleDateString('en-IN')}`;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <HistoryIcon color="primary" />
+        Revision History
+        {sop?.document_number && <Chip label={sop.document_number} size="small" variant="outlined" />}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : revisions.length === 0 ? (
+          <Alert severity="info">
+            No revisions recorded yet. The current content becomes revision 1 the next time this SOP is saved.
+          </Alert>
+        ) : (
+          <>
+            <TableContainer component={Paper} variant="outlined" sx={{ mb: 3, maxHeight: 240 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Rev.</TableCell>
+                    <TableCell>Version</TableCell>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Change Reason</TableCell>
+                    <TableCell>Author</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {revisions.map((revision, index) => (
+                    <TableRow key={revision.id} hover>
+                      <TableCell>{revision.revision_number}</TableCell>
+                      <TableCell>
+                        v{revision.version}
+                        {index === 0 && <Chip label="Current" size="small" color="success" sx={{ ml: 1, height: 20 }} />}
+                      </TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(revision.created_at).toLocaleString('en-IN')}</TableCell>
+                      <TableCell sx={{ maxWidth: 400, whiteSpace: 'pre-wrap' }}>{revision.change_reason}</TableCell>
+                      <TableCell>{revision.author || '-'}</TableCell>
+                      <TableCell align="right">
+                        {index > 0 && (
+                          <Button
+                            size="small"
+                            startIcon={<RestoreIcon />}
+                            onClick={() => handleRestore(revision)}
+                            disabled={restoring}
+                          >
+                            Restore
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2, flexWrap: 'wrap' }}>
+              <FormControl size="small" sx={{ minWidth: 260 }}>
+                <InputLabel>Compare</InputLabel>
+                <Select value={fromId} label="Compare" onChange={(e) => setFromId(e.target.value)}>
+                  {revisions.map(revision => (
+                    <MenuItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Typography variant="body2" color="text.secondary">with</Typography>
+              <FormControl size="small" sx={{ minWidth: 260 }}>
+                <InputLabel>Against</InputLabel>
+                <Select value={toId} label="Against" onChange={(e) => setToId(e.target.value)}>
+                  {revisions.map(revision => (
+                    <MenuItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControlLabel
+                control={<Switch checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} size="small" />}
+                label="Changes only"
+              />
+              <Chip label={`${changeCount} change${changeCount === 1 ? '' : 's'}`} size="small" color={changeCount > 0 ? 'warning' : 'default'} />
+            </Box>
+
+            <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 480 }}>
+              <Table size="small" stickyHeader sx={{ tableLayout: 'fixed' }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{fromRevision ? revisionLabel(fromRevision) : '-'}</TableCell>
+                    <TableCell>{toRevision ? revisionLabel(toRevision) : '-'}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={2} align="center">
+                        <Typography variant="body2" color="text.secondary">No differences</Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleRows.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell sx={{ bgcolor: ROW_COLORS[row.type].left, verticalAlign: 'top', fontSize: '0.8rem' }}>
+                          {row.left}
+                        </TableCell>
+                        <TableCell sx={{ bgcolor: ROW_COLORS[row.type].right, verticalAlign: 'top', fontSize: '0.8rem' }}>
+                          {row.right}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -56,6 +56,9 @@ import {
   fetchGoogleDocAsHTML,
   extractChapterFromFilename,
 } from '../services/googleDriveExtractor';
+import { isApprovedForRelease } from '../services/sopApprovalEngine';
+import type { SOPApprovalStage } from '../types/sopApproval';
+import SOPApprovalPanel from './SOPApprovalPanel';
 
 const NABH_CHAPTERS = [
   { code: 'AAC', name: 'Access, Assessment and Continuity of Care' },
@@ -125,7 +128,7 @@ export default function SOPsPage() {
     chapter_name: 'Access, Assessment and Continuity of Care',
     description: '',
     version: '1.0',
-    status: 'Active',
+    status: 'Draft',
     category: 'Procedure',
     is_public: false,
     extracted_content: '',
@@ -210,7 +213,7 @@ export default function SOPsPage() {
       chapter_name: 'Access, Assessment and Continuity of Care',
       description: '',
       version: '1.0',
-      status: 'Active',
+      status: 'Draft',
       category: 'Procedure',
       is_public: false,
       extracted_content: '',
@@ -346,8 +349,11 @@ export default function SOPsPage() {
         }
       }
 
+      // Changed content has to go through sign-off again
+      const contentChanged = formData.extracted_content !== selectedSOP.extracted_content;
       const updateData = {
         ...formData,
+        ...(contentChanged ? { approval_stage: 'Draft' as const, status: 'Under Review' as const } : {}),
         pdf_urls: pdfUrls,
         pdf_filenames: pdfFilenames,
         pdf_url: pdfUrls[0] || undefined,
@@ -415,12 +421,28 @@ export default function SOPsPage() {
   };
 
   const handleShare = (sop: SOPDocument) => {
+    if (!isApprovedForRelease(sop.approval_stage)) {
+      showSnackbar('Only approved SOPs can be shared. Complete the approval workflow first.', 'error');
+      handleCloseMenu();
+      return;
+    }
     const url = `${window.location.origin}/sop/${sop.id}`;
     navigator.clipboard.writeText(url);
     showSnackbar('Shareable URL copied to clipboard!', 'success');
     handleCloseMenu();
   };
 
+  const handleApprovalStageChange = (sop: SOPDocument, stage: SOPApprovalStage) => {
+    const updated: SOPDocument = {
+      ...sop,
+      approval_stage: stage,
+      ...(stage === 'Issued' ? { status: 'Active' as const, effective_date: new Date().toISOString().split('T')[0] } : {}),
+    };
+    setSOPs(prev => prev.map(s => (s.id === sop.id ? updated : s)));
+    setSelectedSOP(updated);
+    showSnackbar(`SOP is now ${stage}`, 'success');
+  };
+
   const handleOpenMenu = (event: React.MouseEvent<HTMLElement>, sop: SOPDocument) => {
     setAnchorEl(event.currentTarget);
     setMenuSOP(sop);
@@ -587,6 +609,12 @@ export default function SOPsPage() {
                   )}
                   <Box display="flex" gap={1} mt={2} flexWrap="wrap">
                     <Chip label={sop.status} size="small" color={sop.status === 'Active' ? 'success' : 'default'} />
+                    <Chip
+                      label={sop.approval_stage || 'Draft'}
+                      size="small"
+                      variant="outlined"
+                      color={isApprovedForRelease(sop.approval_stage) ? 'success' : 'warning'}
+                    />
                     {sop.category && <Chip label={sop.category} size="small" variant="outlined" />}
                     {sop.version && <Chip label={`v${sop.version}`} size="small" variant="outlined" />}
                   </Box>
@@ -712,7 +740,9 @@ export default function SOPsPage() {
                     label="Status"
                   >
                     <MenuItem value="Draft">Draft</MenuItem>
-                    <MenuItem value="Active">Active</MenuItem>
+                    <MenuItem value="Active" disabled={!isApprovedForRelease(formData.approval_stage)}>
+                      Active{!isApprovedForRelease(formData.approval_stage) ? ' (requires approval)' : ''}
+                    </MenuItem>
                     <MenuItem value="Under Review">Under Review</MenuItem>
                     <MenuItem value="Archived">Archived</MenuItem>
                   </Select>
@@ -883,6 +913,15 @@ export default function SOPsPage() {
                 <Chip label={selectedSOP.status} size="small" />
                 {selectedSOP.version && <Chip label={`v${selectedSOP.version}`} size="small" />}
               </Box>
+              <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+                <SOPApprovalPanel
+                  key={selectedSOP.id}
+                  documentType="sop_document"
+                  documentId={selectedSOP.id}
+                  stage={selectedSOP.approval_stage || 'Draft'}
+                  onStageChange={(stage) => handleApprovalStageChange(selectedSOP, stage)}
+                />
+              </Paper>
               {selectedSOP.description && (
                 <Typography variant="body1" paragraph>
                   {selectedSOP.description}
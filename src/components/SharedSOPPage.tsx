@@ -4,6 +4,7 @@
  * Route: /sop/:sopId
  * Loads from nabh_sop_documents first, then falls back to nabh_generated_sops
  * Detects template/placeholder content and tries to find real generated version
+ * Only SOPs approved through the sign-off workflow are shown
  */
 
 import { useState, useEffect, useRef, useMemo } from 'react';
@@ -28,6 +29,9 @@ import {
 import { loadSOPById } from '../services/sopStorage';
 import { getGeneratedSOPById, getGeneratedSOPByObjectiveCode } from '../services/sopGeneratedStorage';
 import { highlightSearchTerms } from '../utils/highlightHtml';
+import { loadApprovalEvents } from '../services/sopApprovalStorage';
+import { getApprovalSignatures, insertApprovalBlock, isApprovedForRelease } from '../services/sopApprovalEngine';
+import type { SOPApprovalStage, SOPApprovalDocumentType } from '../types/sopApproval';
 
 // Unified SOP data for display
 interface SOPDisplayData {
@@ -93,6 +97,19 @@ const extractObjectiveCodeFromTitle = (title: string): string | null => {
   return match ? match[1] : null;
 };
 
+// Prefix the approval block with the current sign-offs
+const withApprovalBlock = async (
+  documentType: SOPApprovalDocumentType,
+  documentId: string,
+  stage: SOPApprovalStage,
+  html: string
+): Promise<string> => {
+  const events = await loadApprovalEvents(documentType, documentId);
+  return insertApprovalBlock(html, getApprovalSignatures(events.data || [], stage));
+};
+
+const NOT_APPROVED_MESSAGE = 'This SOP has not been approved for release yet. Only approved SOPs can be shared.';
+
 export default function SharedSOPPage() {
   const { sopId } = useParams<{ sopId: string }>();
   const navigate = useNavigate();
@@ -134,11 +151,12 @@ export default function SharedSOPPage() {
         if (objectiveCode) {
           const genResult = await getGeneratedSOPByObjectiveCode(objectiveCode);
           console.log('[SharedSOPPage] Generated SOP lookup result:', genResult.success, genResult.error, genResult.data?.id);
-          if (genResult.success && genResult.data && genResult.data.sop_html_content && !isTemplateContent(genResult.data.sop_html_content)) {
+          if (genResult.success && genResult.data && genResult.data.sop_html_content && !isTemplateContent(genResult.data.sop_html_content)
+            && isApprovedForRelease(genResult.data.approval_stage)) {
             // Found a real generated SOP - use it instead
             setSOPData({
               title: formatTitle(sop.title),
-              htmlContent: genResult.data.sop_html_content,
+              htmlContent: await withApprovalBlock('generated_sop', genResult.data.id, genResult.data.approval_stage!, genResult.data.sop_html_content),
               pdfUrl: genResult.data.pdf_url || sop.pdf_url,
               version: genResult.data.version || sop.version,
               source: 'generated',
@@ -164,9 +182,14 @@ export default function SharedSOPPage() {
       }
 
       // Real content from nabh_sop_documents
+      if (!isApprovedForRelease(sop.approval_stage)) {
+        setError(NOT_APPROVED_MESSAGE);
+        setLoading(false);
+        return;
+      }
       setSOPData({
         title: formatTitle(sop.title),
-        htmlContent: sop.extracted_content,
+        htmlContent: await withApprovalBlock('sop_document', sop.id, sop.approval_stage!, sop.extracted_content),
         pdfUrl: sop.pdf_url,
         version: sop.version,
         source: 'uploaded',
@@ -180,9 +203,14 @@ export default function SharedSOPPage() {
     const generatedResult = await getGeneratedSOPById(id);
     if (generatedResult.success && generatedResult.data) {
       const sop = generatedResult.data;
+      if (!isApprovedForRelease(sop.approval_stage)) {
+        setError(NOT_APPROVED_MESSAGE);
+        setLoading(false);
+        return;
+      }
       setSOPData({
         title: sop.objective_title || `SOP - ${formatCode(sop.objective_code)}`,
-        htmlContent: sop.sop_html_content,
+        htmlContent: await withApprovalBlock('generated_sop', sop.id, sop.approval_stage!, sop.sop_html_content),
         pdfUrl: sop.pdf_url,
         version: sop.version,
         source: 'generated',
@@ -19,6 +19,8 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useNABHStore } from '../store/nabhStore';
 import { getChapterStats } from '../data/nabhData';
 import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../store/authStore';
+import { canAccessPath } from '../services/permissionEngine';
 
 const DOCUMENT_LEVELS = [
   { id: 'level-1', label: 'Level 1: Mission & Vision', icon: 'flag', path: '/document-levels?level=1', color: '#1565C0' },
@@ -61,30 +63,44 @@ const DOCUMENT_LEVELS = [
 const MANAGEMENT_SECTIONS = [
   { id: 'stationery', label: 'Stationery', icon: 'inventory_2', path: '/stationery', description: 'Hospital forms & documents' },
   { id: 'committees', label: 'Committees', icon: 'groups', path: '/committees', description: 'Manage hospital committees' },
+  { id: 'committee-compliance', label: 'Committee Compliance', icon: 'fact_check', path: '/committee-compliance', description: 'Mandatory committee meetings held vs required, quorum, yearly calendar and compliance certificates' },
   { id: 'departments', label: 'Departments', icon: 'apartment', path: '/departments', description: 'Hospital departments master' },
   { id: 'equipment', label: 'Equipment', icon: 'medical_services', path: '/equipment', description: 'Medical equipment inventory' },
+  { id: 'equipment-maintenance', label: 'Calibration & PM', icon: 'build_circle', path: '/equipment-maintenance', description: 'Calibration and preventive maintenance schedules, job cards and equipment service history' },
+  { id: 'equipment-breakdowns', label: 'Breakdowns & Uptime', icon: 'build', path: '/equipment-breakdowns', description: 'Equipment breakdown log, downtime and uptime by equipment, department and category, monthly downtime report' },
   { id: 'sops', label: 'SOPs', icon: 'description', path: '/sops', description: 'Standard Operating Procedures linked to NABH chapters with shareable URLs' },
   { id: 'signage-generator', label: 'Signage Generator', icon: 'signpost', path: '/signage-generator', description: 'Generate professional hospital signages, posters & infographics with AI' },
   { id: 'image-generator', label: '🎨 AI Image Generator', icon: 'photo_camera', path: '/image-generator', description: 'Generate NABH evidence photos, training materials & facility visuals using Gemini 3 Pro' },
   { id: 'call-center', label: '📞 Call Center', icon: 'phone', path: '/call-center', description: 'Voice calling system for NABH team coordination & audit reminders via Twilio' },
   { id: 'emergency-codes', label: 'Emergency Codes', icon: 'emergency', path: '/emergency-codes', description: 'Code Blue, Code Red & Code Pink protocols and documentation' },
   { id: 'manuals', label: 'Hospital Manuals', icon: 'menu_book', path: '/manuals', description: 'Manage hospital policies, procedures & operational manuals' },
+  { id: 'document-master-list', label: 'Document Master List', icon: 'format_list_numbered', path: '/document-master-list', description: 'Controlled documents with sequential numbers per chapter and type, versions and review dates' },
+  { id: 'compliance-calendar', label: 'Compliance Calendar', icon: 'event', path: '/compliance-calendar', description: 'Expiries, calibrations, meetings, reviews and audit follow-ups in one calendar with .ics export' },
+  { id: 'document-reviews', label: 'Document Reviews', icon: 'rate_review', path: '/document-reviews', description: 'SOPs, manuals and document-level items due for periodic review, with reviewer assignment' },
   { id: 'licenses', label: 'Licenses & Statutory', icon: 'gavel', path: '/licenses', description: 'Track hospital licenses, certificates & statutory requirements with expiry monitoring' },
   { id: 'mous', label: 'MOUs & Partnerships', icon: 'handshake', path: '/mous', description: 'Manage Memoranda of Understanding and strategic partnerships with multiple document support' },
   { id: 'programs', label: 'Hospital Programs', icon: 'local_hospital', path: '/programs', description: 'Manage hospital programs and initiatives' },
   { id: 'clinical-audits', label: 'Clinical Audits', icon: 'fact_check', path: '/clinical-audits', description: 'Manage clinical audits and quality assessments' },
+  { id: 'mock-assessment', label: 'Mock Assessment', icon: 'grading', path: '/mock-assessment', description: 'Score every objective element on the NABH 0/5/10 scale and track assessment readiness over time' },
+  { id: 'nc-register', label: 'NC Register', icon: 'report_problem', path: '/nc-register', description: 'Non-conformities with root cause, CAPA owner, due dates, closure evidence and ageing' },
   { id: 'surveys', label: 'Surveys', icon: 'poll', path: '/surveys', description: 'Manage patient & staff satisfaction surveys and quality assessments' },
   { id: 'evidence-prompt', label: 'Evidence Prompt Master', icon: 'assignment', path: '/evidence-prompt', description: 'NABH evidence generation prompts & templates' },
   { id: 'sop-prompt', label: 'SOP Prompt Master', icon: 'description', path: '/sop-prompt', description: 'SOP generation prompts & templates' },
   { id: 'cheat-sheets', label: 'Chapter Cheat Sheets', icon: 'quiz', path: '/cheat-sheets', description: 'Quick reference sheets for each NABH chapter with Google Docs links' },
   { id: 'search', label: 'Global Search', icon: 'search', path: '/search', description: 'Search across all evidences, objectives, committees, and masters by keywords' },
   { id: 'kpis', label: 'KPIs', icon: 'analytics', path: '/kpis', description: 'Quality indicators' },
+  { id: 'kpi-capture', label: 'KPI Data Capture', icon: 'edit_note', path: '/kpi-capture', description: 'Monthly numerators and denominators with Excel import and audit trail' },
+  { id: 'kpi-scorecard', label: 'KPI Scorecard', icon: 'scoreboard', path: '/kpi-scorecard', description: 'Targets, benchmarks and breaches with action plans by KPI category' },
   { id: 'presentations', label: 'Slide Decks', icon: 'slideshow', path: '/presentations', description: 'Auditor presentations' },
   { id: 'patients', label: 'Patients', icon: 'personal_injury', path: '/patients', description: 'Manage patient records' },
   { id: 'employees', label: 'Employees', icon: 'badge', path: '/employees', description: 'Manage hospital staff' },
   { id: 'consultants', label: 'Visiting Consultants', icon: 'medical_information', path: '/consultants', description: 'Manage visiting doctors' },
   { id: 'doctors', label: 'Resident Doctors', icon: 'medication_liquid', path: '/doctors', description: 'Manage RMOs and full-time doctors' },
   { id: 'nabh-master', label: 'NABH Master', icon: 'edit_note', path: '/nabh-master', description: 'Manage chapters, standards & elements' },
+  { id: 'users', label: 'Users & Roles', icon: 'manage_accounts', path: '/users', description: 'Activate sign-ups, assign roles and link logins to NABH team members and employees' },
+  { id: 'audit-log', label: 'Audit Log', icon: 'history_edu', path: '/audit-log', description: 'Who created, changed or deleted each record and when, with before / after values and a tamper-evident hash chain' },
+  { id: 'ai-usage', label: 'AI Usage', icon: 'data_usage', path: '/ai-usage', description: 'Tokens and estimated cost of AI requests per feature and hospital, with provider status' },
+  { id: 'prompt-library', label: 'Prompt Library', icon: 'library_books', path: '/prompt-library', description: 'Versioned prompts with typed variables, A/B tests on objective elements and the version each feature uses' },
   { id: 'migration', label: 'Data Migration', icon: 'upload_file', path: '/migration', description: 'Import NABH standards data' },
   { id: 'old-extracted-sops', label: "Old Extracted SOP's", icon: 'history', path: '/old-extracted-sops', description: 'View extracted SOP data from nabh_chapter_data table' },
 ];
@@ -114,6 +130,7 @@ export default function Sidebar({ mobileOpen, onClose }: SidebarProps) {
   const { chapters, selectedChapter, setSelectedChapter } = useNABHStore();
   const navigate = useNavigate();
   const location = useLocation();
+  const role = useAuthStore(state => state.user?.role);
   const [expandedLevel, setExpandedLevel] = useState<string | null>('level-2');
   const [deptExpanded, setDeptExpanded] = useState(false);
 
@@ -356,7 +373,7 @@ export default function Sidebar({ mobileOpen, onClose }: SidebarProps) {
         </Typography>
       </Box>
       <List dense>
-        {MANAGEMENT_SECTIONS.map((section) => (
+        {MANAGEMENT_SECTIONS.filter(section => canAccessPath(role, section.path)).map((section) => (
           <ListItem key={section.id} disablePadding>
             <ListItemButton
               selected={location.pathname === section.path}
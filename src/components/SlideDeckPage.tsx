@@ -25,7 +25,7 @@ import StepLabel from '@mui/material/StepLabel';
 import LinearProgress from '@mui/material/LinearProgress';
 import Tabs from '@mui/material/Tabs';
 import Tab from '@mui/material/Tab';
-import { callGeminiAPI } from '../lib/supabase';
+import { callGeminiAPI } from '../services/aiGatewayClient';
 import { getHospitalInfo } from '../config/hospitalConfig';
 import { extractFromDocument, generateImprovedDocument } from '../services/documentExtractor';
 import { useNABHStore } from '../store/nabhStore';
@@ -142,7 +142,7 @@ Format as clean text with bullet points using - symbol.
 Do not include any HTML tags.`;
 
     try {
-      const data = await callGeminiAPI(prompt, 0.7, 1024);
+      const data = await callGeminiAPI(prompt, 0.7, 1024, 'slide-deck');
       return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
     } catch (error) {
       console.error('Error generating slide content:', error);
@@ -915,10 +915,11 @@ export default function StationeryPage() {
           <h1>Hospital Stationery - Form List</h1>
           <p>Total Forms: ${itemsToPrint.length}</p>
           <table>
-            <tr><th class="sr">Sr No</th><th>Form Name</th><th>Category</th><th>Status</th></tr>
+            <tr><th class="sr">Sr No</th><th>Doc No</th><th>Form Name</th><th>Category</th><th>Status</th></tr>
             ${itemsToPrint.map((item, idx) => `
               <tr>
                 <td>${idx + 1}</td>
+                <td>${item.document_number || '-'}</td>
                 <td>${item.name}</td>
                 <td>${item.category}</td>
                 <td>${item.status}</td>
@@ -1053,6 +1054,9 @@ export default function StationeryPage() {
                       color={getStatusColor(item.status)}
                       icon={<Icon sx={{ fontSize: 16 }}>{getStatusIcon(item.status)}</Icon>}
                     />
+                    {item.document_number && (
+                      <Chip label={item.document_number} size="small" variant="outlined" />
+                    )}
                   </Box>
                   <Typography variant="h6" fontWeight={600} gutterBottom noWrap>
                     {item.name}
@@ -0,0 +1,395 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Icon from '@mui/material/Icon';
+import Grid from '@mui/material/Grid';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Autocomplete from '@mui/material/Autocomplete';
+import TextField from '@mui/material/TextField';
+import Snackbar from '@mui/material/Snackbar';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import LinearProgress from '@mui/material/LinearProgress';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNABHStore } from '../store/nabhStore';
+import { getHospitalInfo, getNABHCoordinator } from '../config/hospitalConfig';
+import { loadSurveyWithQuestions, loadSurveyResponses } from '../services/surveyStorage';
+import {
+  buildSurveyAnalytics,
+  buildSurveyEvidenceHTML,
+  SURVEY_EVIDENCE_OBJECTIVES,
+} from '../services/surveyAnalyticsEngine';
+import { saveGeneratedEvidence } from '../services/objectiveStorage';
+import type { Survey, SurveyResponse } from '../types/survey';
+
+const EVIDENCE_CHAPTERS = ['PRE', 'CQI', 'PSQ'];
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+const indexColor = (index: number | null) =>
+  index === null ? 'text.secondary' : index >= 80 ? 'success.main' : index >= 60 ? 'warning.main' : 'error.main';
+
+export default function SurveyAnalyticsPage() {
+  const { surveyId } = useParams<{ surveyId: string }>();
+  const navigate = useNavigate();
+  const { chapters, selectedHospital } = useNABHStore();
+
+  const [survey, setSurvey] = useState<Survey | null>(null);
+  const [responses, setResponses] = useState<SurveyResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportCodes, setExportCodes] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!surveyId) return;
+      setLoading(true);
+      const [surveyResult, responsesResult] = await Promise.all([
+        loadSurveyWithQuestions(surveyId),
+        loadSurveyResponses(surveyId),
+      ]);
+      if (surveyResult.success && surveyResult.data) {
+        setSurvey(surveyResult.data);
+      } else {
+        setSnackbar({ open: true, message: surveyResult.error || 'Failed to load survey', severity: 'error' });
+      }
+      if (responsesResult.success && responsesResult.data) {
+        setResponses(responsesResult.data);
+      }
+      setLoading(false);
+    };
+    fetchData();
+  }, [surveyId]);
+
+  const analytics = useMemo(
+    () => (survey ? buildSurveyAnalytics(survey.questions, responses) : null),
+    [survey, responses]
+  );
+
+  const objectiveCodes = useMemo(
+    () => chapters
+      .filter(c => EVIDENCE_CHAPTERS.includes(c.code))
+      .flatMap(c => c.objectives.map(o => o.code)),
+    [chapters]
+  );
+
+  const hospitalConfig = useMemo(() => {
+    const hospital = getHospitalInfo(selectedHospital);
+    const coordinator = getNABHCoordinator();
+    return {
+      name: hospital.name,
+      address: hospital.address,
+      phone: hospital.phone,
+      email: hospital.email,
+      website: hospital.website,
+      qualityCoordinator: coordinator.name,
+      qualityCoordinatorDesignation: coordinator.designation,
+    };
+  }, [selectedHospital]);
+
+  const openExport = () => {
+    if (!survey) return;
+    const suggested = SURVEY_EVIDENCE_OBJECTIVES[survey.type];
+    setExportCodes(objectiveCodes.length > 0 ? suggested.filter(code => objectiveCodes.includes(code)) : suggested);
+    setIsExportOpen(true);
+  };
+
+  const handlePrint = () => {
+    if (!survey || !analytics) return;
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(buildSurveyEvidenceHTML(survey, analytics, hospitalConfig));
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const handleExport = async () => {
+    if (!survey || !analytics || exportCodes.length === 0) return;
+    setIsExporting(true);
+
+    const html = buildSurveyEvidenceHTML(survey, analytics, hospitalConfig);
+    const title = `${survey.title} - Results`;
+    const summary = `${survey.title}: ${analytics.totalResponses} anonymous responses, satisfaction index ${analytics.satisfactionIndex ?? 'N/A'}%`;
+    const failed: string[] = [];
+
+    for (const code of exportCodes) {
+      const result = await saveGeneratedEvidence({
+        objective_code: code,
+        evidence_title: title,
+        prompt: `Survey results exported from survey ${survey.id}`,
+        generated_content: summary,
+        html_content: html,
+        evidence_type: 'document',
+        hospital_config: hospitalConfig,
+      });
+      if (!result.success) failed.push(code);
+    }
+
+    setIsExporting(false);
+    if (failed.length === 0) {
+      setIsExportOpen(false);
+      setSnackbar({ open: true, message: `Survey results saved as evidence for ${exportCodes.join(', ')}`, severity: 'success' });
+    } else {
+      setSnackbar({ open: true, message: `Failed to save evidence for ${failed.join(', ')}`, severity: 'error' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!survey || !analytics) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 8 }}>
+        <Typography variant="h6" color="text.secondary">Survey not found</Typography>
+        <Button sx={{ mt: 2 }} onClick={() => navigate('/surveys')}>Back to Surveys</Button>
+      </Box>
+    );
+  }
+
+  const latestResponse = responses[0];
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+          <IconButton onClick={() => navigate('/surveys')}>
+            <Icon>arrow_back</Icon>
+          </IconButton>
+          <Box>
+            <Typography variant="h5" fontWeight={600}>
+              {survey.title}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Response analytics · {survey.targetAudience}
+            </Typography>
+          </Box>
+          <Chip label={survey.status} size="small" sx={{ ml: 1, mt: 0.5, textTransform: 'capitalize' }} />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="outlined" startIcon={<Icon>print</Icon>} onClick={handlePrint} disabled={analytics.totalResponses === 0}>
+            Print Report
+          </Button>
+          <Button variant="contained" startIcon={<Icon>verified</Icon>} onClick={openExport} disabled={analytics.totalResponses === 0}>
+            Save as Evidence
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Stats */}
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid size={{ xs: 6, md: 3 }}>
+          <Paper sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h4" fontWeight={700} color="primary">{analytics.totalResponses}</Typography>
+            <Typography variant="body2" color="text.secondary">Responses</Typography>
+          </Paper>
+        </Grid>
+        <Grid size={{ xs: 6, md: 3 }}>
+          <Paper sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h4" fontWeight={700} sx={{ color: indexColor(analytics.satisfactionIndex) }}>
+              {analytics.satisfactionIndex !== null ? `${analytics.satisfactionIndex}%` : '—'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">Satisfaction Index</Typography>
+          </Paper>
+        </Grid>
+        <Grid size={{ xs: 6, md: 3 }}>
+          <Paper sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h4" fontWeight={700}>{analytics.departments.length}</Typography>
+            <Typography variant="body2" color="text.secondary">Departments</Typography>
+          </Paper>
+        </Grid>
+        <Grid size={{ xs: 6, md: 3 }}>
+          <Paper sx={{ p: 2, textAlign: 'center' }}>
+            <Typography variant="h6" fontWeight={600} sx={{ lineHeight: '42px' }}>
+              {latestResponse ? new Date(latestResponse.submitted_at).toLocaleDateString('en-IN') : '—'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">Latest Response</Typography>
+          </Paper>
+        </Grid>
+      </Grid>
+
+      {analytics.totalResponses === 0 ? (
+        <Alert severity="info">
+          No responses yet. Share the survey link from the Surveys page once the survey is active.
+        </Alert>
+      ) : (
+        <Grid container spacing={3}>
+          {/* Per-question distributions */}
+          <Grid size={{ xs: 12, md: 7 }}>
+            {analytics.questions.map((q, index) => (
+              <Paper key={q.questionId} sx={{ p: 2, mb: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+                  <Typography variant="subtitle2">
+                    {index + 1}. {q.question}
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+                    {q.score !== null && (
+                      <Chip size="small" label={`${q.score}%`} sx={{ color: indexColor(q.score), fontWeight: 600 }} variant="outlined" />
+                    )}
+                    <Chip size="small" label={`${q.answered} answered`} />
+                  </Box>
+                </Box>
+                <Typography variant="caption" color="text.secondary">
+                  {q.category}{q.average !== null ? ` · Average ${q.average}` : ''}
+                </Typography>
+                {q.distribution.map(d => (
+                  <Box key={d.label} sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+                    <Typography variant="caption" sx={{ width: 120, flexShrink: 0 }} noWrap title={d.label}>
+                      {q.type === 'rating' ? `${d.label} ★` : d.label}
+                    </Typography>
+                    <LinearProgress variant="determinate" value={d.percentage} sx={{ flexGrow: 1 }} />
+                    <Typography variant="caption" sx={{ width: 80, textAlign: 'right' }}>
+                      {d.count} ({d.percentage}%)
+                    </Typography>
+                  </Box>
+                ))}
+                {q.comments.length > 0 && (
+                  <Box sx={{ mt: 1, maxHeight: 160, overflow: 'auto' }}>
+                    {q.comments.map((comment, i) => (
+                      <Typography key={i} variant="body2" sx={{ py: 0.5, borderBottom: '1px solid', borderColor: 'divider' }}>
+                        “{comment}”
+                      </Typography>
+                    ))}
+                  </Box>
+                )}
+              </Paper>
+            ))}
+          </Grid>
+
+          {/* Breakdowns */}
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Paper sx={{ mb: 2 }}>
+              <Box sx={{ p: 2 }}>
+                <Typography variant="h6">Month-over-Month</Typography>
+              </Box>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Month</TableCell>
+                      <TableCell align="right">Responses</TableCell>
+                      <TableCell align="right">Index</TableCell>
+                      <TableCell align="right">Change</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics.monthlyTrend.map((m, i) => {
+                      const previous = analytics.monthlyTrend[i - 1]?.satisfactionIndex;
+                      const change = previous != null && m.satisfactionIndex !== null
+                        ? Math.round((m.satisfactionIndex - previous) * 10) / 10
+                        : null;
+                      return (
+                        <TableRow key={m.label}>
+                          <TableCell>{formatMonth(m.label)}</TableCell>
+                          <TableCell align="right">{m.responses}</TableCell>
+                          <TableCell align="right" sx={{ color: indexColor(m.satisfactionIndex), fontWeight: 600 }}>
+                            {m.satisfactionIndex !== null ? `${m.satisfactionIndex}%` : '—'}
+                          </TableCell>
+                          <TableCell align="right" sx={{ color: change === null ? 'text.secondary' : change >= 0 ? 'success.main' : 'error.main' }}>
+                            {change === null ? '—' : `${change > 0 ? '+' : ''}${change}`}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+
+            <Paper>
+              <Box sx={{ p: 2 }}>
+                <Typography variant="h6">By Department</Typography>
+              </Box>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Department</TableCell>
+                      <TableCell align="right">Responses</TableCell>
+                      <TableCell align="right">Index</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics.departments.map(d => (
+                      <TableRow key={d.label}>
+                        <TableCell>{d.label}</TableCell>
+                        <TableCell align="right">{d.responses}</TableCell>
+                        <TableCell align="right" sx={{ color: indexColor(d.satisfactionIndex), fontWeight: 600 }}>
+                          {d.satisfactionIndex !== null ? `${d.satisfactionIndex}%` : '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          </Grid>
+        </Grid>
+      )}
+
+      {/* Save as evidence */}
+      <Dialog open={isExportOpen} onClose={() => setIsExportOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Save Survey Results as Evidence</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            The results report ({analytics.totalResponses} responses) is saved against each selected objective element and
+            appears with its other evidence.
+          </Typography>
+          <Autocomplete
+            multiple
+            freeSolo
+            options={objectiveCodes}
+            value={exportCodes}
+            onChange={(_, value) => setExportCodes(value)}
+            renderInput={(params) => (
+              <TextField {...params} label="Objective elements" placeholder="e.g. PRE.6.a" />
+            )}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsExportOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleExport}
+            disabled={isExporting || exportCodes.length === 0}
+            startIcon={isExporting ? <CircularProgress size={16} color="inherit" /> : <Icon>save</Icon>}
+          >
+            Save Evidence
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={4000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+      >
+        <Alert severity={snackbar.severity} onClose={() => setSnackbar({ ...snackbar, open: false })}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Tabs,
+  Tab,
+  TextField,
+  Paper,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Translate as TranslateIcon,
+  AutoAwesome as AutoAwesomeIcon,
+} from '@mui/icons-material';
+import { saveSurveyTranslations } from '../services/surveyStorage';
+import {
+  SURVEY_LANGUAGES,
+  countUntranslatedQuestions,
+  translateSurvey,
+} from '../services/surveyTranslationService';
+import type { Survey, SurveyTranslationLanguage } from '../types/survey';
+
+interface SurveyTranslationsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  survey: Survey;
+  onSaved: (survey: Survey) => void;
+}
+
+const TRANSLATION_LANGUAGES = SURVEY_LANGUAGES.filter(
+  (l): l is typeof l & { code: SurveyTranslationLanguage } => l.code !== 'en'
+);
+
+export default function SurveyTranslationsDialog({ open, onClose, survey, onSaved }: SurveyTranslationsDialogProps) {
+  // Edited copy of the survey; mounted per opening so it starts from the saved translations
+  const [draft, setDraft] = useState<Survey>(survey);
+  const [language, setLanguage] = useState<SurveyTranslationLanguage>('hi');
+  const [translating, setTranslating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const surveyText = draft.translations?.[language] || { title: '', description: '' };
+
+  const setSurveyText = (field: 'title' | 'description', value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      translations: { ...prev.translations, [language]: { ...surveyText, [field]: value } },
+    }));
+  };
+
+  const setQuestionText = (questionId: string, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      questions: prev.questions.map(q => q.id !== questionId ? q : {
+        ...q,
+        translations: { ...q.translations, [language]: { ...q.translations?.[language], question: value } },
+      }),
+    }));
+  };
+
+  const setOptionText = (questionId: string, index: number, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      questions: prev.questions.map(q => {
+        if (q.id !== questionId) return q;
+        const current = q.translations?.[language];
+        const options = (q.options || []).map((_, i) => (i === index ? value : current?.options?.[i] || ''));
+        return {
+          ...q,
+          translations: { ...q.translations, [language]: { question: current?.question || '', options } },
+        };
+      }),
+    }));
+  };
+
+  const handleTranslateAll = async () => {
+    setTranslating(true);
+    setError(null);
+    const result = await translateSurvey(draft, language);
+    setTranslating(false);
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Translation failed');
+      return;
+    }
+    const { survey: text, questions } = result.data;
+    setDraft(prev => ({
+      ...prev,
+      translations: {
+        ...prev.translations,
+        [language]: {
+          title: text.title || prev.translations?.[language]?.title || '',
+          description: text.description || prev.translations?.[language]?.description || '',
+        },
+      },
+      questions: prev.questions.map(q => questions[q.id]
+        ? {
+          ...q,
+          translations: {
+            ...q.translations,
+            [language]: {
+              question: questions[q.id].question,
+              options: questions[q.id].options || q.translations?.[language]?.options,
+            },
+          },
+        }
+        : q),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await saveSurveyTranslations(draft);
+    setSaving(false);
+
+    if (result.success) {
+      onSaved(draft);
+    } else {
+      setError(result.error || 'Failed to save translations');
+    }
+  };
+
+  const untranslated = countUntranslatedQuestions(draft.questions, language);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <TranslateIcon color="primary" />
+        Translations: {draft.title}
+      </DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+          <Tabs value={language} onChange={(_, value) => setLanguage(value)}>
+            {TRANSLATION_LANGUAGES.map(l => (
+              <Tab key={l.code} value={l.code} label={`${l.label} (${l.nativeLabel})`} />
+            ))}
+          </Tabs>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Chip
+              size="small"
+              color={untranslated === 0 ? 'success' : 'warning'}
+              label={untranslated === 0 ? 'All questions translated' : `${untranslated} untranslated`}
+            />
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={translating ? <CircularProgress size={16} /> : <AutoAwesomeIcon />}
+              onClick={handleTranslateAll}
+              disabled={translating || draft.questions.length === 0}
+            >
+              Translate All Questions
+            </Button>
+          </Box>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Responses are stored against the English question and options, so results from every language are analysed together.
+          Review AI translations before saving.
+        </Alert>
+
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Typography variant="caption" color="text.secondary">{draft.title}</Typography>
+          <TextField
+            fullWidth
+            size="small"
+            label="Title"
+            value={surveyText.title}
+            onChange={(e) => setSurveyText('title', e.target.value)}
+            sx={{ mt: 1 }}
+          />
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2 }}>{draft.description}</Typography>
+          <TextField
+            fullWidth
+            size="small"
+            multiline
+            minRows={2}
+            label="Description"
+            value={surveyText.description}
+            onChange={(e) => setSurveyText('description', e.target.value)}
+            sx={{ mt: 1 }}
+          />
+        </Paper>
+
+        {draft.questions.map((question, index) => {
+          const translation = question.translations?.[language];
+          return (
+            <Paper key={question.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+              <Typography variant="body2" fontWeight={500}>
+                {index + 1}. {question.question}
+              </Typography>
+              <TextField
+                fullWidth
+                size="small"
+                label="Question"
+                value={translation?.question || ''}
+                onChange={(e) => setQuestionText(question.id, e.target.value)}
+                sx={{ mt: 1 }}
+              />
+              {(question.options || []).map((option, optionIndex) => (
+                <Box key={option} sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1, ml: 2 }}>
+                  <Typography variant="caption" color="text.secondary" sx={{ width: 180, flexShrink: 0 }}>
+                    {option}
+                  </Typography>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    value={translation?.options?.[optionIndex] || ''}
+                    onChange={(e) => setOptionText(question.id, optionIndex, e.target.value)}
+                  />
+                </Box>
+              ))}
+            </Paper>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={saving || translating}
+          startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          Save Translations
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
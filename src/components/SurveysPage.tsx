@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -36,7 +37,6 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Visibility as ViewIcon,
-  Download as DownloadIcon,
   ExpandMore as ExpandMoreIcon,
   Assignment as AssignmentIcon,
   Send as SendIcon,
@@ -46,46 +46,14 @@ import {
   WhatsApp as WhatsAppIcon,
   Email as EmailIcon,
   Link as LinkIcon,
+  BarChart as BarChartIcon,
+  Translate as TranslateIcon,
 } from '@mui/icons-material';
 import { supabase } from '../lib/supabase';
-
-// Survey Interfaces
-interface SurveyQuestion {
-  id: string;
-  question: string;
-  type: 'rating' | 'multiple_choice' | 'text' | 'yes_no' | 'scale';
-  options?: string[];
-  required: boolean;
-  category?: string;
-}
-
-interface Survey {
-  id: string;
-  title: string;
-  description: string;
-  type: 'patient_satisfaction' | 'staff_satisfaction' | 'feedback' | 'quality_assessment' | 'custom';
-  status: 'draft' | 'active' | 'completed';
-  questions: SurveyQuestion[];
-  targetAudience: string;
-  startDate: string;
-  endDate: string;
-  responseCount: number;
-  createdBy: string;
-  createdAt: string;
-  nabhRelevant: boolean;
-  frequency: 'one_time' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
-}
-
-// SurveyResponse interface - for future use
-// interface SurveyResponse {
-//   id: string;
-//   surveyId: string;
-//   respondentId: string;
-//   respondentType: 'patient' | 'staff' | 'visitor' | 'consultant';
-//   responses: Record<string, any>;
-//   submittedAt: string;
-//   completionTime: number; // in minutes
-// }
+import { useCapability } from '../store/authStore';
+import { surveyFromRows, type SurveyQuestionRow, type SurveyRow } from '../services/surveyStorage';
+import SurveyTranslationsDialog from './SurveyTranslationsDialog';
+import type { Survey } from '../types/survey';
 
 // Survey Templates
 const SURVEY_TEMPLATES = [
@@ -347,6 +315,8 @@ function TabPanel(props: TabPanelProps) {
 }
 
 export default function SurveysPage() {
+  const navigate = useNavigate();
+  const canEdit = useCapability('edit_content');
   const [surveys, setSurveys] = useState<Survey[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedSurvey, setSelectedSurvey] = useState<Survey | null>(null);
@@ -355,6 +325,7 @@ export default function SurveysPage() {
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isTranslationsDialogOpen, setIsTranslationsDialogOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState('');
   const [snackbar, setSnackbar] = useState({ open: false, message: '', severity: 'success' as 'success' | 'error' });
 
@@ -398,31 +369,10 @@ export default function SurveysPage() {
       if (questionsError) throw questionsError;
 
       // Map database data to component format
-      const formattedSurveys: Survey[] = (surveysData || []).map(survey => ({
-        id: survey.id,
-        title: survey.title,
-        description: survey.description || '',
-        type: survey.survey_type as Survey['type'],
-        status: survey.status as Survey['status'],
-        questions: (questionsData || [])
-          .filter(q => q.survey_id === survey.id)
-          .map(q => ({
-            id: q.id,
-            question: q.question,
-            type: q.question_type as SurveyQuestion['type'],
-            options: q.options || [],
-            required: q.required,
-            category: q.category || '',
-          })),
-        targetAudience: survey.target_audience || '',
-        startDate: survey.start_date || '',
-        endDate: survey.end_date || '',
-        responseCount: survey.response_count || 0,
-        createdBy: survey.created_by || '',
-        createdAt: survey.created_at,
-        nabhRelevant: survey.nabh_relevant || false,
-        frequency: survey.frequency as Survey['frequency'],
-      }));
+      const questionRows = (questionsData || []) as SurveyQuestionRow[];
+      const formattedSurveys: Survey[] = ((surveysData || []) as SurveyRow[]).map(survey =>
+        surveyFromRows(survey, questionRows.filter(q => q.survey_id === survey.id))
+      );
 
       setSurveys(formattedSurveys);
     } catch (error) {
@@ -656,13 +606,15 @@ Dr. Shiraz (Quality Coordinator)`;
             </Typography>
           </Box>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => setIsAddDialogOpen(true)}
-        >
-          Create Survey
-        </Button>
+        {canEdit && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setIsAddDialogOpen(true)}
+          >
+            Create Survey
+          </Button>
+        )}
       </Box>
 
       {/* Stats Cards */}
@@ -872,27 +824,48 @@ Dr. Shiraz (Quality Coordinator)`;
                     >
                       <ViewIcon />
                     </IconButton>
-                    <IconButton size="small">
-                      <EditIcon />
-                    </IconButton>
+                    {canEdit && (
+                      <IconButton size="small">
+                        <EditIcon />
+                      </IconButton>
+                    )}
                     <IconButton
                       size="small"
                       onClick={() => handleShareSurvey(survey)}
                     >
                       <ShareIcon />
                     </IconButton>
-                    <IconButton 
+                    {canEdit && (
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setSelectedSurvey(survey);
+                          setIsTranslationsDialogOpen(true);
+                        }}
+                      >
+                        <TranslateIcon />
+                      </IconButton>
+                    )}
+                    <IconButton
                       size="small"
-                      onClick={() => {
-                        setSelectedSurvey(survey);
-                        setIsDeleteDialogOpen(true);
-                      }}
+                      onClick={() => navigate(`/surveys/${survey.id}`)}
                     >
-                      <DeleteIcon />
+                      <BarChartIcon />
                     </IconButton>
+                    {canEdit && (
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setSelectedSurvey(survey);
+                          setIsDeleteDialogOpen(true);
+                        }}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    )}
                   </Box>
                   <Box>
-                    {survey.status === 'draft' && (
+                    {canEdit && survey.status === 'draft' && (
                       <Button
                         size="small"
                         variant="contained"
@@ -916,9 +889,10 @@ Dr. Shiraz (Quality Coordinator)`;
                         <Button
                           size="small"
                           variant="outlined"
-                          startIcon={<DownloadIcon />}
+                          startIcon={<BarChartIcon />}
+                          onClick={() => navigate(`/surveys/${survey.id}`)}
                         >
-                          Download
+                          Results
                         </Button>
                       </>
                     )}
@@ -973,6 +947,14 @@ Dr. Shiraz (Quality Coordinator)`;
                   >
                     Copy Link
                   </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<BarChartIcon />}
+                    onClick={() => navigate(`/surveys/${survey.id}`)}
+                  >
+                    Results
+                  </Button>
                 </CardActions>
               </Card>
             </Grid>
@@ -1030,6 +1012,14 @@ Dr. Shiraz (Quality Coordinator)`;
                       Copy Link
                     </Button>
                   )}
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<BarChartIcon />}
+                    onClick={() => navigate(`/surveys/${survey.id}`)}
+                  >
+                    Results
+                  </Button>
                 </CardActions>
               </Card>
             </Grid>
@@ -1082,6 +1072,7 @@ Dr. Shiraz (Quality Coordinator)`;
                   <Button
                     size="small"
                     variant="outlined"
+                    disabled={!canEdit}
                     onClick={() => {
                       setSelectedTemplate(template.title);
                       setNewSurvey({ 
@@ -1273,6 +1264,21 @@ Dr. Shiraz (Quality Coordinator)`;
         </DialogActions>
       </Dialog>
 
+      {/* Translations Dialog */}
+      {isTranslationsDialogOpen && selectedSurvey && (
+        <SurveyTranslationsDialog
+          open={isTranslationsDialogOpen}
+          onClose={() => setIsTranslationsDialogOpen(false)}
+          survey={selectedSurvey}
+          onSaved={(updated) => {
+            setSurveys(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+            setSelectedSurvey(updated);
+            setIsTranslationsDialogOpen(false);
+            setSnackbar({ open: true, message: 'Translations saved successfully', severity: 'success' });
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onClose={() => setIsDeleteDialogOpen(false)}>
         <DialogTitle>Delete Survey</DialogTitle>
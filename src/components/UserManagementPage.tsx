@@ -0,0 +1,226 @@
+/**
+ * User Management Page
+ * Activate access requests, assign application roles and link each login to the NABH team
+ * member it signs SOPs as and to its employees master record
+ * Route: /users (coordinators only)
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Switch from '@mui/material/Switch';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import { HOSPITALS, NABH_TEAM, getTeamMember } from '../config/hospitalConfig';
+import { loadAppUsers, loadEmployeeOptions, updateAppUser } from '../services/authStorage';
+import { APP_ROLES, ROLE_CAPABILITIES, ROLE_LABELS, getSuggestedRole } from '../services/permissionEngine';
+import { useAuthStore } from '../store/authStore';
+import type { AppUser, AppUserUpdate, EmployeeOption } from '../types/auth';
+
+export default function UserManagementPage() {
+  const currentUser = useAuthStore(state => state.user);
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [employees, setEmployees] = useState<EmployeeOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const [usersResult, employeesResult] = await Promise.all([loadAppUsers(), loadEmployeeOptions()]);
+      if (usersResult.success) {
+        setUsers(usersResult.data || []);
+        setError(null);
+      } else {
+        setError(usersResult.error || 'Failed to load users');
+      }
+      setEmployees(employeesResult.data || []);
+      setLoading(false);
+    };
+    fetchData();
+  }, []);
+
+  const pendingCount = useMemo(() => users.filter(u => !u.is_active).length, [users]);
+
+  const handleUpdate = async (user: AppUser, updates: AppUserUpdate) => {
+    setSavingId(user.id);
+    const result = await updateAppUser(user.id, updates);
+    setSavingId(null);
+    if (result.success && result.data) {
+      setUsers(prev => prev.map(u => (u.id === user.id ? result.data! : u)));
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to update user');
+    }
+  };
+
+  const handleTeamMemberChange = (user: AppUser, name: string) => {
+    const member = getTeamMember(name);
+    handleUpdate(user, { team_member_name: name || null, department: member?.department || user.department });
+  };
+
+  const handleEmployeeChange = (user: AppUser, employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    handleUpdate(user, { employee_id: employeeId || null, department: employee?.department || user.department });
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, flexWrap: 'wrap', gap: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>
+            Users & Roles
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            New sign-ups stay pending until activated here. The linked team member is the name used when signing SOPs.
+          </Typography>
+        </Box>
+        {pendingCount > 0 && <Chip color="warning" label={`${pendingCount} pending approval`} />}
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {/* Role capabilities */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="subtitle2" gutterBottom>Role capabilities</Typography>
+        {APP_ROLES.map(role => (
+          <Box key={role} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 0.5 }}>
+            <Typography variant="body2" sx={{ minWidth: 170, fontWeight: 500 }}>{ROLE_LABELS[role]}</Typography>
+            {ROLE_CAPABILITIES[role].map(cap => (
+              <Chip key={cap} size="small" variant="outlined" label={cap.replace(/_/g, ' ')} />
+            ))}
+          </Box>
+        ))}
+      </Paper>
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>User</TableCell>
+              <TableCell>Role</TableCell>
+              <TableCell>NABH Team Member</TableCell>
+              <TableCell>Employee</TableCell>
+              <TableCell>Department</TableCell>
+              <TableCell>Hospital</TableCell>
+              <TableCell align="center">Active</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {users.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>No users yet</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {users.map(user => {
+              const isSelf = user.id === currentUser?.id;
+              const disabled = savingId === user.id;
+              const member = user.team_member_name ? getTeamMember(user.team_member_name) : undefined;
+              const suggestedRole = member ? getSuggestedRole(member) : null;
+              return (
+                <TableRow key={user.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>{user.name}</Typography>
+                    <Typography variant="caption" color="text.secondary">{user.email}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={isSelf ? 'You cannot change your own role' : ''}>
+                      <TextField
+                        select
+                        size="small"
+                        value={user.role}
+                        disabled={disabled || isSelf}
+                        onChange={(e) => handleUpdate(user, { role: e.target.value as AppUser['role'] })}
+                        helperText={suggestedRole && suggestedRole !== user.role ? `Suggested: ${ROLE_LABELS[suggestedRole]}` : undefined}
+                        sx={{ minWidth: 180 }}
+                      >
+                        {APP_ROLES.map(role => <MenuItem key={role} value={role}>{ROLE_LABELS[role]}</MenuItem>)}
+                      </TextField>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={user.team_member_name || ''}
+                      disabled={disabled}
+                      onChange={(e) => handleTeamMemberChange(user, e.target.value)}
+                      sx={{ minWidth: 200 }}
+                    >
+                      <MenuItem value=""><em>Not linked</em></MenuItem>
+                      {NABH_TEAM.map(member => (
+                        <MenuItem key={member.name} value={member.name}>{member.name} - {member.role}</MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={user.employee_id || ''}
+                      disabled={disabled}
+                      onChange={(e) => handleEmployeeChange(user, e.target.value)}
+                      sx={{ minWidth: 200 }}
+                    >
+                      <MenuItem value=""><em>Not linked</em></MenuItem>
+                      {employees.map(employee => (
+                        <MenuItem key={employee.id} value={employee.id}>
+                          {employee.name}{employee.designation ? ` (${employee.designation})` : ''}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>{user.department || '-'}</TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={user.hospital_id || ''}
+                      disabled={disabled}
+                      onChange={(e) => handleUpdate(user, { hospital_id: e.target.value || null })}
+                      sx={{ minWidth: 160 }}
+                    >
+                      <MenuItem value=""><em>All hospitals</em></MenuItem>
+                      {Object.values(HOSPITALS).map(hospital => (
+                        <MenuItem key={hospital.id} value={hospital.id}>{hospital.name}</MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell align="center">
+                    <Switch
+                      checked={user.is_active}
+                      disabled={disabled || isSelf}
+                      onChange={(e) => handleUpdate(user, { is_active: e.target.checked })}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * User Menu
+ * Header avatar showing the signed-in user, their role and linked team member, with sign out
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import IconButton from '@mui/material/IconButton';
+import Avatar from '@mui/material/Avatar';
+import Tooltip from '@mui/material/Tooltip';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Divider from '@mui/material/Divider';
+import Icon from '@mui/material/Icon';
+import { useAuthStore, useCapability } from '../store/authStore';
+import { ROLE_LABELS } from '../services/permissionEngine';
+
+export default function UserMenu() {
+  const navigate = useNavigate();
+  const user = useAuthStore(state => state.user);
+  const signOut = useAuthStore(state => state.signOut);
+  const canManageUsers = useCapability('manage_users');
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+  if (!user) return null;
+
+  const handleUsers = () => {
+    setAnchorEl(null);
+    navigate('/users');
+  };
+
+  const handleSignOut = async () => {
+    setAnchorEl(null);
+    await signOut();
+    navigate('/');
+  };
+
+  return (
+    <>
+      <Tooltip title={`${user.name} (${ROLE_LABELS[user.role]})`}>
+        <IconButton color="inherit" onClick={(e) => setAnchorEl(e.currentTarget)} sx={{ ml: 0.5 }}>
+          <Avatar sx={{ width: 32, height: 32, fontSize: 14, bgcolor: 'rgba(255,255,255,0.25)' }}>
+            {user.name.charAt(0).toUpperCase()}
+          </Avatar>
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ px: 2, py: 1, minWidth: 220 }}>
+          <Typography variant="subtitle2">{user.name}</Typography>
+          <Typography variant="caption" color="text.secondary" display="block">{user.email}</Typography>
+          <Typography variant="caption" color="primary" display="block">
+            {ROLE_LABELS[user.role]}{user.team_member_name ? ` · signs as ${user.team_member_name}` : ''}
+          </Typography>
+        </Box>
+        <Divider />
+        {canManageUsers && (
+          <MenuItem onClick={handleUsers}>
+            <Icon sx={{ mr: 1, fontSize: 20 }}>manage_accounts</Icon>
+            Users & Roles
+          </MenuItem>
+        )}
+        <MenuItem onClick={handleSignOut}>
+          <Icon sx={{ mr: 1, fontSize: 20 }}>logout</Icon>
+          Sign out
+        </MenuItem>
+      </Menu>
+    </>
+  );
+}
@@ -24,6 +24,7 @@ import StepLabel from '@mui/material/StepLabel';
 import * as XLSX from 'xlsx';
 import type { Patient, PatientImportRow } from '../../types/patient';
 import { bulkImportPatients, deleteAllPatients } from '../../services/patientStorage';
+import { useCapability } from '../../store/authStore';
 
 interface ImportPatientsModalProps {
   open: boolean;
@@ -38,6 +39,7 @@ export default function ImportPatientsModal({
   onClose,
   onImportComplete,
 }: ImportPatientsModalProps) {
+  const canReplaceAll = useCapability('delete_records');
   const [activeStep, setActiveStep] = useState(0);
   const [parsedData, setParsedData] = useState<Patient[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -379,9 +381,16 @@ export default function ImportPatientsModal({
     setActiveStep(2);
 
     try {
-      // Delete existing data first
+      // Replace existing data only when the role may delete records; otherwise append
       setImportProgress(10);
-      await deleteAllPatients();
+      if (canReplaceAll) {
+        const deleteResult = await deleteAllPatients();
+        if (!deleteResult.success) {
+          setError(deleteResult.error || 'Failed to delete existing patients');
+          setActiveStep(1);
+          return;
+        }
+      }
 
       // Import new data
       setImportProgress(20);
@@ -561,9 +570,13 @@ export default function ImportPatientsModal({
               </Typography>
             )}
 
-            <Alert severity="warning" sx={{ mt: 2 }}>
+            <Alert severity={canReplaceAll ? 'warning' : 'info'} sx={{ mt: 2 }}>
               <Typography variant="body2">
-                <strong>Warning:</strong> Importing will replace all existing patient records.
+                {canReplaceAll ? (
+                  <><strong>Warning:</strong> Importing will replace all existing patient records.</>
+                ) : (
+                  <>Records will be added to the existing patients. Only a NABH coordinator can replace all patient records.</>
+                )}
               </Typography>
             </Alert>
           </Box>
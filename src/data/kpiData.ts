@@ -421,11 +421,11 @@ const ZERO_VALUE_KPI_IDS = ['kpi-2', 'kpi-3', 'kpi-5', 'kpi-6', 'kpi-7', 'kpi-8'
 
 // Generate sample data for demonstration purposes only
 // Note: This is for demo/testing - replace with actual hospital data in production
-export const generateSampleKPIData = (kpiId: string, months: number = 12): { month: string; value: number; target: number }[] => {
+export const generateSampleKPIData = (kpiId: string, months: number = 12): { month: string; value: number; target: number; isSimulated: true }[] => {
   const kpi = getKPIById(kpiId);
   if (!kpi) return [];
 
-  const data: { month: string; value: number; target: number }[] = [];
+  const data: { month: string; value: number; target: number; isSimulated: true }[] = [];
   const now = new Date();
 
   // Force zero for specified KPIs
@@ -456,7 +456,8 @@ export const generateSampleKPIData = (kpiId: string, months: number = 12): { mon
     data.push({
       month: monthStr,
       value,
-      target: kpi.suggestedTarget
+      target: kpi.suggestedTarget,
+      isSimulated: true
     });
   }
 
@@ -0,0 +1,35 @@
+/**
+ * AI Gateway Client Tests
+ * Tests for answering AI calls offline through the pluggable stub provider
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { callGeminiAPI, generateAI, setAIStubResponder } from '../aiGatewayClient';
+import type { AIGatewayRequest } from '../../types/aiGateway';
+
+afterEach(() => {
+  setAIStubResponder(null);
+});
+
+describe('generateAI with the stub provider', () => {
+  it('should answer with the responder text and stream it to onDelta', async () => {
+    const requests: AIGatewayRequest[] = [];
+    setAIStubResponder(request => {
+      requests.push(request);
+      return request.feature === 'kpi-assistant' ? '{"kpis":[]}' : undefined;
+    });
+
+    const deltas: string[] = [];
+    const response = await generateAI({ feature: 'kpi-assistant', prompt: 'List KPIs' }, text => deltas.push(text));
+
+    expect(response).toMatchObject({ text: '{"kpis":[]}', provider: 'stub', costUsd: 0 });
+    expect(deltas).toEqual(['{"kpis":[]}']);
+    expect(requests[0]).toMatchObject({ stream: true, hospitalId: 'hope' });
+  });
+
+  it('should fall back to the echo answer when the responder returns nothing', async () => {
+    setAIStubResponder(() => undefined);
+    const data = await callGeminiAPI('Translate this survey', 0.2, 8192, 'survey-translation');
+    expect(data.candidates[0].content.parts[0].text).toBe('[stub:survey-translation] Translate this survey');
+  });
+});
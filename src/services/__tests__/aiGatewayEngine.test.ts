@@ -0,0 +1,165 @@
+/**
+ * AI Gateway Engine Tests
+ * Tests for per-feature routing, provider mapping, stream parsing, the stub provider,
+ * rate limiting and usage accounting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AI_FEATURE_ROUTES,
+  STUB_MODEL,
+  buildAnthropicBody,
+  buildGeminiBody,
+  checkRateLimit,
+  estimateCostUsd,
+  generateStubResponse,
+  getModelAttempts,
+  isAIFeature,
+  parseAnthropicStreamEvent,
+  parseGeminiResponse,
+  resolveFeatureRoute,
+  resolveMaxTokens,
+  resolveRequestHospital,
+  splitServerSentEvents,
+  summarizeAIUsage,
+  toGeminiShape,
+} from '../aiGatewayEngine';
+import type { AIGatewayLogEntry } from '../../types/aiGateway';
+
+describe('resolveFeatureRoute', () => {
+  it('should apply server overrides for a feature', () => {
+    const route = resolveFeatureRoute('infographic', { infographic: { provider: 'gemini', model: 'gemini-2.0-flash' } });
+    expect(route.provider).toBe('gemini');
+    expect(route.maxTokens).toBe(AI_FEATURE_ROUTES.infographic.maxTokens);
+  });
+
+  it('should send every feature to the stub when forced', () => {
+    expect(resolveFeatureRoute('sop-generation', {}, true)).toMatchObject({ provider: 'stub', model: STUB_MODEL });
+  });
+
+  it('should recognise known features only', () => {
+    expect(isAIFeature('signage-image')).toBe(true);
+    expect(isAIFeature('unknown')).toBe(false);
+  });
+});
+
+describe('getModelAttempts', () => {
+  it('should try the fallback and skip providers without keys', () => {
+    const route = AI_FEATURE_ROUTES['evidence-generation'];
+    expect(getModelAttempts(route, { anthropic: true, gemini: true, stub: true })).toHaveLength(2);
+    expect(getModelAttempts(route, { anthropic: true, gemini: false, stub: true })).toEqual([route.fallback]);
+  });
+});
+
+describe('estimateCostUsd', () => {
+  it('should price tokens per million and ignore unknown models', () => {
+    expect(estimateCostUsd('claude-3-5-sonnet-20241022', { inputTokens: 1000, outputTokens: 1000 })).toBe(0.018);
+    expect(estimateCostUsd('unknown', { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('should refuse requests over the limit inside the window', () => {
+    const first = checkRateLimit([1000, 2000], 3000, 2, 60_000);
+    expect(first.allowed).toBe(false);
+    expect(first.retryAfterMs).toBe(58_000);
+    const later = checkRateLimit([1000, 2000], 61_500, 2, 60_000);
+    expect(later.allowed).toBe(true);
+    expect(later.timestamps).toEqual([2000, 61_500]);
+  });
+});
+
+describe('resolveMaxTokens', () => {
+  it('should cap the requested budget at the feature route', () => {
+    const route = AI_FEATURE_ROUTES['sop-generation'];
+    expect(resolveMaxTokens(undefined, route)).toBe(route.maxTokens);
+    expect(resolveMaxTokens(100, route)).toBe(100);
+    expect(resolveMaxTokens(route.maxTokens * 10, route)).toBe(route.maxTokens);
+    expect(resolveMaxTokens(-5, route)).toBe(route.maxTokens);
+  });
+});
+
+describe('resolveRequestHospital', () => {
+  it('should keep users bound to a hospital on that hospital', () => {
+    expect(resolveRequestHospital('ayushman', 'hope', ['hope', 'ayushman'])).toEqual({ allowed: false, hospitalId: 'hope' });
+    expect(resolveRequestHospital(undefined, 'hope', ['hope', 'ayushman'])).toEqual({ allowed: true, hospitalId: 'hope' });
+  });
+
+  it('should accept only known hospitals from users without one', () => {
+    expect(resolveRequestHospital('ayushman', null, ['hope', 'ayushman'])).toEqual({ allowed: true, hospitalId: 'ayushman' });
+    expect(resolveRequestHospital('made-up', null, ['hope', 'ayushman'])).toEqual({ allowed: true, hospitalId: null });
+  });
+});
+
+describe('provider mapping', () => {
+  it('should send images before the prompt to Anthropic', () => {
+    const body = buildAnthropicBody(
+      { feature: 'document-vision', prompt: 'Read this', images: [{ mime_type: 'image/png', data: 'abc' }] },
+      'claude-3-5-sonnet-20241022',
+      1024
+    );
+    expect(body.max_tokens).toBe(1024);
+    expect(body.messages[0].content).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'abc' } },
+      { type: 'text', text: 'Read this' },
+    ]);
+  });
+
+  it('should request image output from Gemini for image features', () => {
+    const body = buildGeminiBody({ feature: 'signage-image', prompt: 'Fire exit sign', outputImages: true }, 8192);
+    expect(body.generationConfig).toEqual({ responseModalities: ['IMAGE', 'TEXT'] });
+  });
+
+  it('should read text, images and usage from a Gemini response', () => {
+    const parsed = parseGeminiResponse({
+      candidates: [{ content: { parts: [{ text: 'Hello ' }, { text: 'world' }, { inlineData: { mimeType: 'image/png', data: 'xyz' } }] } }],
+      usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 7 },
+    });
+    expect(parsed).toEqual({
+      text: 'Hello world',
+      images: [{ mimeType: 'image/png', data: 'xyz' }],
+      usage: { inputTokens: 5, outputTokens: 7 },
+    });
+  });
+});
+
+describe('streams', () => {
+  it('should split complete events and keep the unfinished rest', () => {
+    const { payloads, rest } = splitServerSentEvents('event: x\ndata: {"a":1}\n\ndata: [DONE]\n\ndata: {"b"');
+    expect(payloads).toEqual(['{"a":1}']);
+    expect(rest).toBe('data: {"b"');
+  });
+
+  it('should read text deltas and token counts from Anthropic events', () => {
+    expect(parseAnthropicStreamEvent('{"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}').text).toBe('Hi');
+    expect(parseAnthropicStreamEvent('{"type":"message_delta","usage":{"output_tokens":12}}').usage).toEqual({ outputTokens: 12 });
+    expect(parseAnthropicStreamEvent('not json')).toEqual({ text: '', usage: {} });
+  });
+});
+
+describe('generateStubResponse', () => {
+  it('should answer offline in the Gemini shape callers expect', () => {
+    const response = generateStubResponse({ feature: 'kpi-assistant', prompt: 'Summarise KPIs' });
+    expect(response.provider).toBe('stub');
+    expect(toGeminiShape(response).candidates[0].content.parts[0].text).toBe('[stub:kpi-assistant] Summarise KPIs');
+  });
+
+  it('should return an image for image features', () => {
+    const response = generateStubResponse({ feature: 'signage-image', prompt: 'Sign', outputImages: true }, 'done');
+    expect(response.text).toBe('done');
+    expect(response.images[0].mimeType).toBe('image/png');
+  });
+});
+
+describe('summarizeAIUsage', () => {
+  it('should total tokens, errors and cost per feature', () => {
+    const logs: Pick<AIGatewayLogEntry, 'feature' | 'hospital_id' | 'status' | 'input_tokens' | 'output_tokens' | 'cost_usd'>[] = [
+      { feature: 'sop-generation', hospital_id: 'hope', status: 'success', input_tokens: 100, output_tokens: 200, cost_usd: 0.01 },
+      { feature: 'sop-generation', hospital_id: 'ayushman', status: 'error', input_tokens: 0, output_tokens: 0, cost_usd: 0 },
+      { feature: 'kpi-assistant', hospital_id: 'hope', status: 'success', input_tokens: 10, output_tokens: 20, cost_usd: 0.0001 },
+    ];
+    const byFeature = summarizeAIUsage(logs, 'feature');
+    expect(byFeature[0]).toEqual({ key: 'sop-generation', requests: 2, errors: 1, inputTokens: 100, outputTokens: 200, costUsd: 0.01 });
+    expect(summarizeAIUsage(logs, 'hospital_id').map(row => row.key)).toEqual(['hope', 'ayushman']);
+  });
+});
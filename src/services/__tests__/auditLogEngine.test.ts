@@ -0,0 +1,83 @@
+/**
+ * Audit Log Engine Tests
+ * Tests for before / after diffs, entry descriptions and the viewer's date bounds
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeAuditEntry,
+  formatAuditValue,
+  getAuditDateBounds,
+  getAuditFieldChanges,
+  getEntityLabel,
+} from '../auditLogEngine';
+import type { AuditLogEntry } from '../../types/audit';
+
+const baseEntry: AuditLogEntry = {
+  id: 42,
+  occurred_at: '2026-10-19T10:00:00Z',
+  actor_id: 'user-1',
+  actor_name: 'Dr. Shiraz Sheikh',
+  actor_email: 'shiraz@example.com',
+  entity_type: 'nabh_patients',
+  entity_id: 'p-1',
+  action: 'UPDATE',
+  changed_fields: ['diagnosis', 'updated_at'],
+  before_values: { diagnosis: 'Fever', updated_at: '2026-10-18T00:00:00Z' },
+  after_values: { diagnosis: 'Dengue', updated_at: '2026-10-19T10:00:00Z' },
+  prev_hash: 'abc',
+  hash: 'def',
+};
+
+describe('getAuditFieldChanges', () => {
+  it('should list changed fields of an update without timestamps', () => {
+    expect(getAuditFieldChanges(baseEntry)).toEqual([{ field: 'diagnosis', before: 'Fever', after: 'Dengue' }]);
+  });
+
+  it('should show every column of a deleted row as before values', () => {
+    const entry: AuditLogEntry = {
+      ...baseEntry,
+      action: 'DELETE',
+      changed_fields: [],
+      before_values: { name: 'Ramesh', age: 54, created_at: '2026-01-01' },
+      after_values: null,
+    };
+    expect(getAuditFieldChanges(entry)).toEqual([
+      { field: 'age', before: '54', after: '—' },
+      { field: 'name', before: 'Ramesh', after: '—' },
+    ]);
+  });
+});
+
+describe('formatAuditValue', () => {
+  it('should show empty values as a dash and cut long documents', () => {
+    expect(formatAuditValue(null)).toBe('—');
+    expect(formatAuditValue('')).toBe('—');
+    const formatted = formatAuditValue('x'.repeat(500));
+    expect(formatted).toContain('(500 characters)');
+    expect(formatted.length).toBeLessThan(350);
+  });
+
+  it('should stringify objects', () => {
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}');
+  });
+});
+
+describe('describeAuditEntry', () => {
+  it('should name the action, entity and changed fields', () => {
+    expect(describeAuditEntry(baseEntry)).toBe('Updated Patient (diagnosis, updated_at)');
+    expect(getEntityLabel('unknown_table')).toBe('unknown_table');
+  });
+});
+
+describe('getAuditDateBounds', () => {
+  it('should make the to date inclusive', () => {
+    const bounds = getAuditDateBounds('2026-10-01', '2026-10-19');
+    expect(new Date(bounds.gte!).getTime()).toBe(new Date('2026-10-01T00:00:00').getTime());
+    expect(new Date(bounds.lt!).getTime()).toBe(new Date('2026-10-20T00:00:00').getTime());
+  });
+
+  it('should leave missing bounds open', () => {
+    expect(getAuditDateBounds()).toEqual({});
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Clinical Audit Engine Tests
+ * Tests for checklist compliance, re-audit comparison and audit cycles
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildReAudit,
+  compareAuditResults,
+  computeAuditCompliance,
+  getAuditCycle,
+  getNonCompliantCriteria,
+} from '../clinicalAuditEngine';
+import type { ClinicalAudit, ClinicalAuditAnswer } from '../../types/clinicalAudit';
+
+const CRITERIA = ['Consent signed', 'Nursing notes timed', 'Discharge summary signed'];
+
+const sample = (...answers: (ClinicalAuditAnswer | undefined)[]) => ({
+  answers: Object.fromEntries(
+    CRITERIA.map((c, i) => [c, answers[i]]).filter(([, a]) => a)
+  ) as Record<string, ClinicalAuditAnswer>,
+});
+
+describe('computeAuditCompliance', () => {
+  it('should compute compliance per criterion and overall, excluding NA', () => {
+    const result = computeAuditCompliance(CRITERIA, [
+      sample('Yes', 'Yes', 'NA'),
+      sample('Yes', 'No', 'Yes'),
+      sample('No', 'No', undefined),
+      sample('Yes', 'Yes', 'Yes'),
+    ]);
+
+    expect(result.criteria.map(c => c.compliance)).toEqual([75, 50, 100]);
+    expect(result.criteria[2]).toMatchObject({ yes: 2, no: 0, na: 1 });
+    expect(result.overall).toBe(70);
+    expect(result.samplesReviewed).toBe(3);
+    expect(result.samplesRecorded).toBe(4);
+  });
+
+  it('should return null compliance when nothing is applicable', () => {
+    const result = computeAuditCompliance(CRITERIA, [sample('NA', 'NA', 'NA')]);
+    expect(result.overall).toBeNull();
+    expect(result.criteria[0].compliance).toBeNull();
+  });
+});
+
+describe('getNonCompliantCriteria', () => {
+  it('should list criteria below target, worst first', () => {
+    const result = computeAuditCompliance(CRITERIA, [sample('Yes', 'No', 'Yes'), sample('No', 'No', 'Yes')]);
+    expect(getNonCompliantCriteria(result)).toEqual(['Nursing notes timed', 'Consent signed']);
+  });
+});
+
+describe('compareAuditResults', () => {
+  it('should show the change per criterion from the original audit', () => {
+    const original = computeAuditCompliance(CRITERIA, [sample('Yes', 'No', 'Yes'), sample('No', 'No', 'Yes')]);
+    const reAudit = computeAuditCompliance(CRITERIA, [sample('Yes', 'Yes', 'Yes'), sample('Yes', 'No', 'NA')]);
+
+    expect(compareAuditResults(original, reAudit)).toEqual([
+      { criterion: 'Consent signed', before: 50, after: 100, change: 50 },
+      { criterion: 'Nursing notes timed', before: 0, after: 50, change: 50 },
+      { criterion: 'Discharge summary signed', before: 100, after: 100, change: 0 },
+    ]);
+  });
+});
+
+describe('audit cycles', () => {
+  const audit = (id: string, startDate: string, reAuditOf?: string) => ({ id, startDate, reAuditOf });
+
+  it('should start from the original audit and list re-audits in date order', () => {
+    const audits = [
+      audit('a1', '2026-01-10'),
+      audit('a3', '2026-07-10', 'a2'),
+      audit('a2', '2026-04-10', 'a1'),
+      audit('b1', '2026-02-01'),
+    ];
+    expect(getAuditCycle(audits, audits[1]).map(a => a.id)).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('should copy the checklist into a re-audit linked to the original', () => {
+    const original = {
+      id: 'a1',
+      title: 'Re-audit: Consent audit',
+      criteria: CRITERIA,
+      compliance: 60,
+      samplesReviewed: 30,
+      totalSamples: 30,
+    } as ClinicalAudit;
+    const reAudit = buildReAudit(original, '2026-10-19');
+
+    expect(reAudit.title).toBe('Re-audit: Consent audit');
+    expect(reAudit.reAuditOf).toBe('a1');
+    expect(reAudit.criteria).toEqual(CRITERIA);
+    expect(reAudit.compliance).toBe(0);
+    expect(reAudit.status).toBe('Planned');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Committee Compliance Engine Tests
+ * Tests for meeting periods, quorum-based compliance, calendar and certificate
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildComplianceCertificateHTML,
+  buildMeetingCalendarHTML,
+  getCommitteeCompliance,
+  getFrequencyPeriods,
+} from '../committeeComplianceEngine';
+import { HOSPITALS } from '../../config/hospitalConfig';
+import type { Committee, CommitteeMember, Meeting } from '../../types/committee';
+
+const member = (id: string, name: string): CommitteeMember => ({
+  id,
+  name,
+  role: 'Member',
+  designation: 'Staff',
+  masterType: 'employees',
+});
+
+const meeting = (id: string, date: string, attendees: string[]): Meeting => ({
+  id,
+  date,
+  agenda: '',
+  minutes: '',
+  attendees,
+  decisions: [],
+  actionItems: [],
+});
+
+const chair = { ...member('c1', 'Dr. Shiraz'), role: 'Chairperson' };
+const quorate = ['Dr. Shiraz', 'Jagruti', 'Diksha'];
+
+const committee = (changes: Partial<Committee>): Committee => ({
+  id: 'pt',
+  name: 'Pharmacy & Therapeutics Committee',
+  type: 'mandatory',
+  description: '',
+  chairperson: chair,
+  members: [chair, member('m1', 'Jagruti'), member('m2', 'Diksha'), member('m3', 'Sonali')],
+  meetingFrequency: 'Quarterly',
+  meetings: [],
+  objectives: [],
+  createdAt: '2026-01-01',
+  minMeetingsRequired: 4,
+  ...changes,
+});
+
+const today = new Date('2026-10-19T00:00:00Z');
+
+describe('getFrequencyPeriods', () => {
+  it('should split the year into slots of the meeting frequency', () => {
+    expect(getFrequencyPeriods('Monthly', 2026)).toHaveLength(12);
+    expect(getFrequencyPeriods('Quarterly', 2026)[1]).toEqual({ label: 'Q2 (Apr-Jun)', start: '2026-04-01', end: '2026-06-30' });
+    const weeks = getFrequencyPeriods('Weekly', 2026);
+    expect(weeks).toHaveLength(52);
+    expect(weeks[51].end).toBe('2026-12-31');
+    expect(getFrequencyPeriods('Bi-weekly', 2026)).toHaveLength(26);
+  });
+});
+
+describe('getCommitteeCompliance', () => {
+  it('should be compliant when every elapsed period had a quorate meeting', () => {
+    const result = getCommitteeCompliance(committee({
+      meetings: [
+        meeting('q1', '2026-02-10', quorate),
+        meeting('q2', '2026-05-12', quorate),
+        meeting('q3', '2026-08-11', quorate),
+      ],
+    }), 2026, today);
+
+    expect(result.requiredForYear).toBe(4);
+    expect(result.requiredToDate).toBe(3);
+    expect(result.heldThisYear).toBe(3);
+    expect(result.requiredThisQuarter).toBe(1);
+    expect(result.heldThisQuarter).toBe(0);
+    expect(result.status).toBe('Compliant');
+  });
+
+  it('should count an inquorate meeting as held but flag its period as missed', () => {
+    const result = getCommitteeCompliance(committee({
+      minMeetingsRequired: 2,
+      meetings: [
+        meeting('q1', '2026-02-10', quorate),
+        meeting('q2', '2026-05-12', ['Jagruti']),
+        meeting('q3', '2026-08-11', quorate),
+      ],
+    }), 2026, today);
+
+    expect(result.heldThisYear).toBe(3);
+    expect(result.quorateThisYear).toBe(2);
+    expect(result.meetingsWithoutQuorum.map(m => m.id)).toEqual(['q2']);
+    expect(result.missedPeriods.map(p => p.label)).toEqual(['Q2 (Apr-Jun)']);
+    expect(result.status).toBe('At Risk');
+  });
+
+  it('should count a period with several quorate meetings once', () => {
+    const result = getCommitteeCompliance(committee({
+      minMeetingsRequired: 3,
+      meetings: [
+        meeting('q1a', '2026-01-12', quorate),
+        meeting('q1b', '2026-03-09', quorate),
+        meeting('q3', '2026-08-11', quorate),
+      ],
+    }), 2026, today);
+
+    expect(result.heldThisYear).toBe(3);
+    expect(result.quorateThisYear).toBe(2);
+    expect(result.missedPeriods.map(p => p.label)).toEqual(['Q2 (Apr-Jun)']);
+    expect(result.status).toBe('Non-Compliant');
+  });
+
+  it('should be non-compliant below the pro-rated minimum meetings', () => {
+    const result = getCommitteeCompliance(committee({
+      meetingFrequency: 'Monthly',
+      minMeetingsRequired: 6,
+      meetings: [meeting('m1', '2026-01-15', quorate), meeting('m2', '2026-03-15', quorate)],
+    }), 2026, today);
+
+    expect(result.requiredToDate).toBe(9);
+    expect(result.missedPeriods).toHaveLength(7);
+    expect(result.status).toBe('Non-Compliant');
+  });
+});
+
+describe('buildMeetingCalendarHTML', () => {
+  it('should mark quorum per meeting and the missed periods', () => {
+    const result = getCommitteeCompliance(committee({
+      meetings: [meeting('q1', '2026-02-10', quorate), meeting('q2', '2026-05-12', ['Jagruti'])],
+    }), 2026, today);
+    const html = buildMeetingCalendarHTML([result], 2026, HOSPITALS.hope);
+
+    expect(html).toContain('COMMITTEE MEETING CALENDAR');
+    expect(html).toContain('10 &#10003;');
+    expect(html).toContain('12 &#10007;');
+    expect(html).toContain('Missed');
+    expect(html).toContain('Due');
+  });
+});
+
+describe('buildComplianceCertificateHTML', () => {
+  it('should certify compliance and list meetings with quorum', () => {
+    const result = getCommitteeCompliance(committee({
+      meetings: [meeting('q1', '2026-02-10', quorate)],
+      meetingFrequency: 'Yearly',
+      minMeetingsRequired: 1,
+    }), 2026, today);
+    const html = buildComplianceCertificateHTML(result, HOSPITALS.hope, today);
+
+    expect(html).toContain('Hope Hospital');
+    expect(html).toContain('has complied with its mandated meeting frequency and quorum');
+    expect(html).toContain('<strong>1 / 1</strong> required periods of 2026');
+    expect(html).toContain('3 / 4');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Committee Minutes Engine Tests
+ * Tests for quorum, carry-forward of action points and minutes of meeting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildMeetingAgenda,
+  buildMinutesHTML,
+  getActionItemsForReview,
+  getQuorum,
+  isActionItemOverdue,
+} from '../committeeMinutesEngine';
+import { HOSPITALS } from '../../config/hospitalConfig';
+import type { Committee, CommitteeActionItem, CommitteeMember, Meeting } from '../../types/committee';
+
+const member = (id: string, name: string): CommitteeMember => ({
+  id,
+  name,
+  role: 'Member',
+  designation: 'Staff',
+  masterType: 'employees',
+});
+
+const meeting = (id: string, date: string, attendees: string[]): Meeting => ({
+  id,
+  date,
+  agenda: '',
+  minutes: '',
+  attendees,
+  decisions: [],
+  actionItems: [],
+});
+
+const chair = { ...member('c1', 'Dr. Shiraz'), role: 'Chairperson' };
+
+const committee: Committee = {
+  id: 'qc',
+  name: 'Hospital Quality Committee',
+  type: 'mandatory',
+  description: '',
+  chairperson: chair,
+  members: [chair, member('m1', 'Jagruti'), member('m2', 'Diksha'), member('m3', 'Sonali')],
+  meetingFrequency: 'Monthly',
+  meetings: [
+    meeting('mt1', '2026-08-05', ['Dr. Shiraz', 'Jagruti', 'Diksha']),
+    meeting('mt2', '2026-09-05', ['Jagruti']),
+  ],
+  objectives: ['Monitor quality indicators'],
+  createdAt: '2026-01-01',
+  minMeetingsRequired: 6,
+};
+
+const action = (id: string, changes: Partial<CommitteeActionItem>): CommitteeActionItem => ({
+  id,
+  committee_id: 'qc',
+  meeting_id: 'mt1',
+  description: `Action ${id}`,
+  owner_member_id: 'm1',
+  owner_name: 'Jagruti',
+  owner_designation: 'Staff',
+  due_date: '2026-08-31',
+  status: 'Open',
+  remarks: null,
+  closed_meeting_id: null,
+  closed_date: null,
+  created_at: '2026-08-05',
+  updated_at: '2026-08-05',
+  ...changes,
+});
+
+describe('getQuorum', () => {
+  it('should require more than half of the members, counting the chairperson once', () => {
+    expect(getQuorum(committee, ['Dr. Shiraz', 'Jagruti', 'Diksha'])).toEqual({
+      members: 4,
+      present: 3,
+      required: 3,
+      met: true,
+      chairpersonPresent: true,
+    });
+    expect(getQuorum(committee, ['Jagruti', 'Visitor']).met).toBe(false);
+  });
+});
+
+describe('getActionItemsForReview', () => {
+  const items = [
+    action('a1', {}),
+    action('a2', { status: 'Completed', closed_meeting_id: 'mt2', closed_date: '2026-09-05' }),
+    action('a3', { status: 'Completed', closed_date: '2026-08-20' }),
+    action('a4', { meeting_id: 'mt2' }),
+  ];
+
+  it('should carry forward open items and items closed at the meeting', () => {
+    expect(getActionItemsForReview(items, committee.meetings, committee.meetings[1]).map(a => a.id)).toEqual(['a1', 'a2']);
+    expect(getActionItemsForReview(items, committee.meetings, { id: '', date: '2026-10-05' }).map(a => a.id)).toEqual(['a1', 'a4']);
+  });
+});
+
+describe('buildMeetingAgenda', () => {
+  it('should open with the review of previous action points', () => {
+    const agenda = buildMeetingAgenda(committee, [action('a1', {})]);
+    expect(agenda).toContain('2. Review of previous action points:\n   - Action a1 (Jagruti)');
+    expect(agenda).toContain('3. Review: Monitor quality indicators');
+  });
+});
+
+describe('isActionItemOverdue', () => {
+  it('should only flag open items past their due date', () => {
+    const today = new Date('2026-09-10T00:00:00Z');
+    expect(isActionItemOverdue(action('a1', {}), today)).toBe(true);
+    expect(isActionItemOverdue(action('a2', { status: 'Completed' }), today)).toBe(false);
+  });
+});
+
+describe('buildMinutesHTML', () => {
+  it('should show attendance against quorum and the status of reviewed items at that meeting', () => {
+    const items = [action('a1', { status: 'Completed', closed_meeting_id: 'mt3', closed_date: '2026-10-05' })];
+    const html = buildMinutesHTML(committee, committee.meetings[1], items, HOSPITALS.hope);
+
+    expect(html).toContain('Hope Hospital');
+    expect(html).toContain('Meeting No.:</strong> 2');
+    expect(html).toContain('Quorum not met');
+    expect(html).toContain('<td>Open</td>');
+  });
+});
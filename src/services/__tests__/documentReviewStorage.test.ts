@@ -0,0 +1,37 @@
+/**
+ * Document Review Scheduler Tests
+ * Tests for review date derivation and due status
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addReviewPeriod, getReviewDueStatus, resolveReviewDate } from '../documentReviewStorage';
+
+const today = new Date('2026-10-19T12:00:00Z');
+
+describe('addReviewPeriod', () => {
+  it('should add months and clamp to the end of shorter months', () => {
+    expect(addReviewPeriod('2026-10-19', 12)).toBe('2027-10-19');
+    expect(addReviewPeriod('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addReviewPeriod('2026-11-15T08:30:00Z', 3)).toBe('2027-02-15');
+  });
+});
+
+describe('resolveReviewDate', () => {
+  it('should prefer the stored review date', () => {
+    expect(resolveReviewDate('2027-03-01', '2026-01-01', 12)).toEqual({ date: '2027-03-01', derived: false });
+  });
+
+  it('should derive one review period after the effective date', () => {
+    expect(resolveReviewDate(null, '2025-11-01', 12)).toEqual({ date: '2026-11-01', derived: true });
+    expect(resolveReviewDate('', 'not a date', 12)).toBeNull();
+  });
+});
+
+describe('getReviewDueStatus', () => {
+  it('should classify against the configurable window', () => {
+    expect(getReviewDueStatus('2026-10-18', 30, today)).toBe('Overdue');
+    expect(getReviewDueStatus('2026-10-19', 30, today)).toBe('Due Soon');
+    expect(getReviewDueStatus('2026-11-18', 30, today)).toBe('Due Soon');
+    expect(getReviewDueStatus('2026-11-18', 15, today)).toBe('Upcoming');
+  });
+});
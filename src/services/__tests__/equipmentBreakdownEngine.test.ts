@@ -0,0 +1,110 @@
+/**
+ * Equipment Breakdown Engine Tests
+ * Tests for downtime within a month, uptime roll-ups and the critical-without-backup list
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDowntimeReport,
+  getBreakdownValidationError,
+  getCriticalWithoutBackup,
+  getDowntimeHours,
+  getMonthPeriod,
+} from '../equipmentBreakdownEngine';
+import type { Equipment } from '../../data/equipmentMaster';
+import type { EquipmentBreakdown } from '../../types/equipmentBreakdown';
+
+const equipment = (overrides: Partial<Equipment>): Equipment => ({
+  id: 'eq_001',
+  name: 'Ventilator',
+  category: 'Critical Care',
+  manufacturer: 'Mindray',
+  equipmentTag: 'HOP-BME-ICU-CCE-VEN-01',
+  department: 'ICU',
+  location: 'ICU - Bay 1',
+  quantity: 1,
+  status: 'Operational',
+  compliance: 'Compliant',
+  biomedicalClearance: true,
+  criticalEquipment: true,
+  backupAvailable: true,
+  createdAt: '2026-02-03T04:40:00.000Z',
+  updatedAt: '2026-02-03T04:40:00.000Z',
+  ...overrides,
+});
+
+const breakdown = (overrides: Partial<EquipmentBreakdown>): EquipmentBreakdown => ({
+  id: 'b1',
+  hospital_id: 'hope',
+  equipment_id: 'eq_001',
+  equipment_tag: 'HOP-BME-ICU-CCE-VEN-01',
+  equipment_name: 'Ventilator',
+  reported_at: new Date(2026, 8, 10, 8).toISOString(),
+  reported_by: 'ICU Nurse',
+  fault_description: 'Flow sensor error',
+  vendor: 'Mindray Service',
+  vendor_called_at: new Date(2026, 8, 10, 10).toISOString(),
+  restored_at: new Date(2026, 8, 11, 8).toISOString(),
+  action_taken: 'Flow sensor replaced',
+  repair_cost: 12000,
+  created_at: '2026-09-10T08:00:00Z',
+  updated_at: '2026-09-11T08:00:00Z',
+  ...overrides,
+});
+
+const NOW = new Date(2026, 9, 19, 12);
+
+describe('getDowntimeHours', () => {
+  it('should count only the hours inside the period and run open breakdowns to the period end', () => {
+    const { start, end } = getMonthPeriod('2026-09', NOW);
+    expect(getDowntimeHours(breakdown({}), start, end)).toBe(24);
+    expect(getDowntimeHours(breakdown({ reported_at: new Date(2026, 8, 30, 12).toISOString(), restored_at: null }), start, end)).toBe(12);
+    expect(getDowntimeHours(breakdown({ reported_at: new Date(2026, 7, 31, 12).toISOString() }), start, end)).toBe(248);
+  });
+
+  it('should cap the current month at now', () => {
+    const { start, end } = getMonthPeriod('2026-10', NOW);
+    expect((end.getTime() - start.getTime()) / 3600000).toBe(18 * 24 + 12);
+  });
+});
+
+describe('buildDowntimeReport', () => {
+  it('should roll uptime up by equipment, department and category', () => {
+    const fleet = [
+      equipment({}),
+      equipment({ id: 'eq_002', equipmentTag: 'HOP-BME-ICU-CCE-VEN-02' }),
+      equipment({ id: 'eq_003', equipmentTag: 'HOP-BME-OT-MON-01', department: 'OT', category: 'Monitoring' }),
+      equipment({ id: 'eq_004', equipmentTag: 'OLD', status: 'Decommissioned' }),
+    ];
+    const report = buildDowntimeReport(fleet, [breakdown({}), breakdown({ id: 'b2', equipment_id: 'eq_003', vendor_called_at: null, restored_at: new Date(2026, 8, 10, 20).toISOString(), repair_cost: null })], '2026-09', NOW);
+
+    expect(report.periodHours).toBe(720);
+    expect(report.equipment).toHaveLength(3);
+    expect(report.equipment[0]).toMatchObject({ equipmentId: 'eq_001', breakdowns: 1, downtimeHours: 24, uptimePercent: 96.7, repairCost: 12000 });
+    expect(report.departments.map(d => [d.key, d.uptimePercent])).toEqual([['ICU', 98.3], ['OT', 98.3]]);
+    expect(report.categories.find(c => c.key === 'Critical Care')).toMatchObject({ equipmentCount: 2, downtimeHours: 24, uptimePercent: 98.3 });
+    expect(report.totals).toMatchObject({ breakdowns: 2, downtimeHours: 36, repairCost: 12000 });
+    expect(report.meanResponseHours).toBe(2);
+    expect(report.meanRepairHours).toBe(18);
+  });
+});
+
+describe('getCriticalWithoutBackup', () => {
+  it('should list in-service critical equipment that has no backup', () => {
+    const fleet = [
+      equipment({ id: 'a', backupAvailable: false }),
+      equipment({ id: 'b' }),
+      equipment({ id: 'c', backupAvailable: false, criticalEquipment: false }),
+      equipment({ id: 'd', backupAvailable: false, status: 'Decommissioned' }),
+    ];
+    expect(getCriticalWithoutBackup(fleet).map(eq => eq.id)).toEqual(['a']);
+  });
+});
+
+describe('getBreakdownValidationError', () => {
+  it('should reject restoration before the report time', () => {
+    expect(getBreakdownValidationError(breakdown({}))).toBeNull();
+    expect(getBreakdownValidationError(breakdown({ restored_at: new Date(2026, 8, 9).toISOString() })))
+      .toBe('Restored time cannot be before the breakdown was reported');
+  });
+});
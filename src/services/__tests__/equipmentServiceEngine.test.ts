@@ -0,0 +1,120 @@
+/**
+ * Equipment Service Engine Tests
+ * Tests for due dates, job card generation and closure, and derived equipment compliance
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildJobCard,
+  deriveEquipmentCompliance,
+  getJobCardClosureError,
+  getNextDueDate,
+  getSchedulesDueForJobCards,
+  getServiceHistory,
+  rollScheduleForward,
+} from '../equipmentServiceEngine';
+import type { EquipmentJobCard, EquipmentServiceSchedule } from '../../types/equipmentService';
+
+const TODAY = new Date('2026-10-19T12:00:00');
+
+const schedule = (overrides: Partial<EquipmentServiceSchedule>): EquipmentServiceSchedule => ({
+  id: 's1',
+  hospital_id: 'hope',
+  equipment_id: 'eq_001',
+  equipment_tag: 'HOP-BME-ICU-CCE-VEN-01',
+  service_type: 'Calibration',
+  frequency: 'Yearly',
+  last_done_date: '2025-10-25',
+  next_due_date: '2026-10-25',
+  vendor: 'Calibration Labs',
+  created_at: '2025-10-25T00:00:00Z',
+  updated_at: '2025-10-25T00:00:00Z',
+  ...overrides,
+});
+
+const card = (overrides: Partial<EquipmentJobCard>): EquipmentJobCard => ({
+  ...buildJobCard(schedule({}), { name: 'Ventilator' }),
+  id: 'c1',
+  created_at: '2026-10-10T00:00:00Z',
+  updated_at: '2026-10-10T00:00:00Z',
+  ...overrides,
+});
+
+describe('getNextDueDate', () => {
+  it('should add the frequency and clamp to the end of the month', () => {
+    expect(getNextDueDate('2026-01-31', 'Monthly')).toBe('2026-02-28');
+    expect(getNextDueDate('2026-08-31', 'Half-Yearly')).toBe('2027-02-28');
+    expect(getNextDueDate('2026-10-19', 'Quarterly')).toBe('2027-01-19');
+    expect(getNextDueDate('2026-10-19', 'As Required')).toBeNull();
+  });
+});
+
+describe('getSchedulesDueForJobCards', () => {
+  it('should pick schedules due within the lead time that have no open job card', () => {
+    const schedules = [
+      schedule({ id: 'due-soon', next_due_date: '2026-10-25' }),
+      schedule({ id: 'overdue', next_due_date: '2026-09-01' }),
+      schedule({ id: 'later', next_due_date: '2026-12-01' }),
+      schedule({ id: 'has-card', next_due_date: '2026-10-20' }),
+      schedule({ id: 'as-required', frequency: 'As Required', next_due_date: null }),
+    ];
+    const cards = [{ schedule_id: 'has-card', status: 'Open' as const }, { schedule_id: 'overdue', status: 'Completed' as const }];
+
+    expect(getSchedulesDueForJobCards(schedules, cards, TODAY).map(s => s.id)).toEqual(['due-soon', 'overdue']);
+  });
+
+  it('should number job cards by service, due date and tag', () => {
+    expect(buildJobCard(schedule({ service_type: 'Preventive Maintenance' }), { name: 'Ventilator' })).toMatchObject({
+      job_number: 'JC-PM-20261025-HOP-BME-ICU-CCE-VEN-01',
+      due_date: '2026-10-25',
+      status: 'Open',
+      assigned_to: 'Calibration Labs',
+    });
+  });
+});
+
+describe('job card closure', () => {
+  const closure = { completed_date: '2026-10-18', performed_by: 'Biomedical Engineer', certificate_number: 'CAL/2026/118', notes: '' };
+
+  it('should require a certificate number for calibration and reject future dates', () => {
+    expect(getJobCardClosureError(card({}), closure, TODAY)).toBeNull();
+    expect(getJobCardClosureError(card({}), { ...closure, certificate_number: ' ' }, TODAY)).toBe('Calibration certificate number is required');
+    expect(getJobCardClosureError(card({ service_type: 'Preventive Maintenance' }), { ...closure, certificate_number: '' }, TODAY)).toBeNull();
+    expect(getJobCardClosureError(card({}), { ...closure, completed_date: '2026-10-20' }, TODAY)).toBe('Completion date cannot be in the future');
+    expect(getJobCardClosureError(card({ status: 'Completed' }), closure, TODAY)).toBe('Only open job cards can be closed');
+  });
+
+  it('should roll the schedule forward from the completion date', () => {
+    expect(rollScheduleForward(schedule({}), '2026-10-18')).toEqual({ last_done_date: '2026-10-18', next_due_date: '2027-10-18' });
+  });
+
+  it('should list completed services of a tag latest first', () => {
+    const cards = [
+      card({ id: 'a', status: 'Completed', completed_date: '2025-10-20' }),
+      card({ id: 'b', status: 'Completed', completed_date: '2026-10-18' }),
+      card({ id: 'c', status: 'Cancelled' }),
+      card({ id: 'd', status: 'Completed', completed_date: '2026-10-01', equipment_tag: 'OTHER' }),
+    ];
+    expect(getServiceHistory(cards, 'HOP-BME-ICU-CCE-VEN-01').map(c => c.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('deriveEquipmentCompliance', () => {
+  const equipment = { equipmentTag: 'HOP-BME-ICU-CCE-VEN-01', compliance: 'Compliant' as const };
+
+  it('should flag overdue calibration before overdue maintenance', () => {
+    const pm = schedule({ service_type: 'Preventive Maintenance', next_due_date: '2026-10-01' });
+    const calibration = schedule({ next_due_date: '2026-10-18' });
+
+    expect(deriveEquipmentCompliance(equipment, [pm], TODAY)).toBe('Maintenance Due');
+    expect(deriveEquipmentCompliance(equipment, [pm, calibration], TODAY)).toBe('Calibration Due');
+  });
+
+  it('should clear a due flag once the schedule is current and keep other statuses', () => {
+    const current = schedule({ next_due_date: '2027-10-18' });
+
+    expect(deriveEquipmentCompliance({ ...equipment, compliance: 'Calibration Due' }, [current], TODAY)).toBe('Compliant');
+    expect(deriveEquipmentCompliance({ ...equipment, compliance: 'Non-Compliant' }, [current], TODAY)).toBe('Non-Compliant');
+    expect(deriveEquipmentCompliance({ ...equipment, compliance: 'Calibration Due' }, [], TODAY)).toBe('Calibration Due');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Equipment Tag Engine Tests
+ * Tests for the public equipment link, service summary and QR label sheet
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildQRLabelSheetHTML,
+  getEquipmentPublicUrl,
+  getEquipmentServiceSummary,
+} from '../equipmentTagEngine';
+import { HOSPITALS } from '../../config/hospitalConfig';
+import type { Equipment } from '../../data/equipmentMaster';
+import type { EquipmentServiceSchedule } from '../../types/equipmentService';
+
+const TODAY = new Date('2026-10-19T12:00:00');
+
+const equipment: Equipment = {
+  id: 'eq_001',
+  name: 'Ventilator <ICU>',
+  category: 'Critical Care',
+  manufacturer: 'Mindray',
+  equipmentTag: 'HOP-BME-ICU-CCE-VEN-01',
+  department: 'ICU',
+  location: 'ICU - Bay 1',
+  quantity: 1,
+  status: 'Operational',
+  compliance: 'Compliant',
+  biomedicalClearance: true,
+  criticalEquipment: true,
+  backupAvailable: true,
+  calibration: {
+    lastCalibrationDate: '2025-09-01',
+    nextCalibrationDue: '2026-09-01',
+    calibratedBy: 'Master Data Labs',
+    frequency: 'Yearly',
+  },
+  maintenance: {
+    lastMaintenanceDate: '2026-08-01',
+    nextMaintenanceDue: '2026-11-01',
+    maintenanceType: 'Preventive',
+    performedBy: 'Mindray Service',
+  },
+  createdAt: '2026-02-03T04:40:00.000Z',
+  updatedAt: '2026-02-03T04:40:00.000Z',
+};
+
+const calibrationSchedule: EquipmentServiceSchedule = {
+  id: 's1',
+  hospital_id: 'hope',
+  equipment_id: 'eq_001',
+  equipment_tag: 'HOP-BME-ICU-CCE-VEN-01',
+  service_type: 'Calibration',
+  frequency: 'Yearly',
+  last_done_date: '2026-10-10',
+  next_due_date: '2027-10-10',
+  vendor: 'Calibration Labs',
+  created_at: '2026-10-10T00:00:00Z',
+  updated_at: '2026-10-10T00:00:00Z',
+};
+
+describe('getEquipmentPublicUrl', () => {
+  it('should encode the tag into the public route', () => {
+    expect(getEquipmentPublicUrl('HOP/BME 01', 'https://nabh.example')).toBe('https://nabh.example/equipment-tag/HOP%2FBME%2001');
+  });
+});
+
+describe('getEquipmentServiceSummary', () => {
+  it('should fall back to the equipment master dates and flag overdue calibration', () => {
+    expect(getEquipmentServiceSummary(equipment, [], TODAY)).toEqual({
+      lastCalibration: '2025-09-01',
+      nextCalibration: '2026-09-01',
+      calibratedBy: 'Master Data Labs',
+      lastMaintenance: '2026-08-01',
+      nextMaintenance: '2026-11-01',
+      calibrationOverdue: true,
+      maintenanceOverdue: false,
+    });
+  });
+
+  it('should prefer the calibration schedule over the equipment master', () => {
+    expect(getEquipmentServiceSummary(equipment, [calibrationSchedule], TODAY)).toMatchObject({
+      lastCalibration: '2026-10-10',
+      nextCalibration: '2027-10-10',
+      calibratedBy: 'Calibration Labs',
+      calibrationOverdue: false,
+      nextMaintenance: '2026-11-01',
+    });
+  });
+});
+
+describe('buildQRLabelSheetHTML', () => {
+  it('should print one escaped label per equipment', () => {
+    const html = buildQRLabelSheetHTML(
+      [{ equipment, qrDataUrl: 'data:image/png;base64,AAA', nextCalibration: '2027-10-10' }],
+      HOSPITALS.hope
+    );
+
+    expect(html.match(/class="label"/g)).toHaveLength(1);
+    expect(html).toContain('HOP-BME-ICU-CCE-VEN-01');
+    expect(html).toContain('Ventilator &lt;ICU&gt;');
+    expect(html).toContain('data:image/png;base64,AAA');
+    expect(html).toContain(HOSPITALS.hope.name);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * KPI Evaluation Engine Tests
+ * Tests for target / benchmark classification, breach planning and closure rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildKPIScorecard,
+  evaluateKPIMonth,
+  evaluateKPISeries,
+  findMissedStreaks,
+  getBreachClosureError,
+  planKPIBreaches,
+} from '../kpiEvaluationEngine';
+import { getKPIById } from '../../data/kpiData';
+import type { KPIBreach } from '../../types/kpiEvaluation';
+
+const cauti = getKPIById('kpi-6')!;        // lower is better, target 3, benchmark 0–5
+const handHygiene = getKPIById('kpi-10')!; // higher is better, target 85, benchmark 70–100
+
+const monthly = (values: number[], start = 1) => values.map((value, i) => ({
+  month: `2026-${String(start + i).padStart(2, '0')}`,
+  value,
+  target: 3,
+}));
+
+const breach = (overrides: Partial<KPIBreach>): KPIBreach => ({
+  id: 'b1',
+  hospital_id: 'hope',
+  kpi_id: cauti.id,
+  kpi_number: cauti.number,
+  kpi_name: cauti.name,
+  standard: cauti.standard,
+  category: cauti.category,
+  start_month: '2026-01',
+  end_month: '2026-03',
+  missed_months: ['2026-01', '2026-02', '2026-03'],
+  consecutive_months: 3,
+  root_cause: null,
+  action_plan: null,
+  responsible_person: null,
+  target_date: null,
+  closure_remarks: null,
+  closed_by: null,
+  closed_date: null,
+  status: 'Open',
+  created_at: '',
+  updated_at: '',
+  ...overrides,
+});
+
+describe('evaluateKPIMonth', () => {
+  it('should classify against target and benchmark in the KPI direction', () => {
+    expect(evaluateKPIMonth(cauti, { month: '2026-01', value: 2, target: 3 }).status).toBe('on_target');
+    expect(evaluateKPIMonth(cauti, { month: '2026-01', value: 4, target: 3 }).status).toBe('missed_target');
+    expect(evaluateKPIMonth(cauti, { month: '2026-01', value: 6, target: 3 }).status).toBe('worse_than_benchmark');
+    expect(evaluateKPIMonth(handHygiene, { month: '2026-01', value: 65, target: 85 }).status).toBe('worse_than_benchmark');
+    expect(evaluateKPIMonth(handHygiene, { month: '2026-01', value: 90, target: 85 }).metTarget).toBe(true);
+  });
+});
+
+describe('findMissedStreaks', () => {
+  it('should only join calendar-consecutive misses', () => {
+    const evaluations = evaluateKPISeries(cauti, [
+      ...monthly([4, 4, 2, 4, 4]),
+      { month: '2026-07', value: 4, target: 3 },
+    ]);
+    expect(findMissedStreaks(evaluations)).toEqual([
+      ['2026-01', '2026-02'],
+      ['2026-04', '2026-05'],
+      ['2026-07'],
+    ]);
+  });
+});
+
+describe('planKPIBreaches', () => {
+  it('should raise a breach after the threshold of consecutive misses', () => {
+    const evaluations = evaluateKPISeries(cauti, monthly([2, 4, 4, 4]));
+    const plan = planKPIBreaches('hope', cauti, evaluations, [], 3);
+
+    expect(plan.extend).toEqual([]);
+    expect(plan.create).toHaveLength(1);
+    expect(plan.create[0]).toMatchObject({ standard: 'PSQ2b', start_month: '2026-02', end_month: '2026-04', status: 'Open' });
+    expect(planKPIBreaches('hope', cauti, evaluations, [], 4).create).toEqual([]);
+  });
+
+  it('should extend an open breach and not reopen a closed one', () => {
+    const evaluations = evaluateKPISeries(cauti, monthly([4, 4, 4, 4, 4]));
+
+    const extended = planKPIBreaches('hope', cauti, evaluations, [breach({})], 3);
+    expect(extended.create).toEqual([]);
+    expect(extended.extend[0]).toMatchObject({ id: 'b1', end_month: '2026-05', consecutive_months: 5 });
+
+    const afterClosure = planKPIBreaches('hope', cauti, evaluations, [breach({ status: 'Closed' })], 3);
+    expect(afterClosure).toEqual({ create: [], extend: [] });
+  });
+});
+
+describe('getBreachClosureError', () => {
+  it('should require a documented action plan before closure', () => {
+    const closure = { closedBy: 'Dr. Shiraz', remarks: 'Back on target for two months' };
+    expect(getBreachClosureError(breach({}), closure)).toContain('action plan');
+    expect(getBreachClosureError(breach({
+      root_cause: 'Catheters left in place',
+      action_plan: 'Daily catheter necessity review',
+      responsible_person: 'Dr. Shiraz',
+      target_date: '2026-06-30',
+    }), closure)).toBeNull();
+  });
+});
+
+describe('buildKPIScorecard', () => {
+  it('should group latest results and breaches by category', () => {
+    const evaluations = { [cauti.id]: evaluateKPISeries(cauti, monthly([4, 2])) };
+    const row = buildKPIScorecard(evaluations, [breach({})]).find(r => r.categoryId === cauti.category)!;
+
+    expect(row).toMatchObject({ evaluatedCount: 1, onTargetCount: 1, openBreaches: 1, closedBreaches: 0 });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * KPI Measurement Engine Tests
+ * Tests for formula computation, validation and Excel import parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeKPIValue,
+  getKPIFormulaTerms,
+  hasSimulatedKPIData,
+  parseKPIImportRows,
+  validateKPIMeasurement,
+} from '../kpiMeasurementEngine';
+import { getKPIById } from '../../data/kpiData';
+
+const today = new Date('2026-10-19T12:00:00');
+const initialAssessment = getKPIById('kpi-1')!;
+const medicationErrors = getKPIById('kpi-2')!;
+const cauti = getKPIById('kpi-6')!;
+const patientSatisfaction = getKPIById('kpi-14')!;
+
+describe('getKPIFormulaTerms', () => {
+  it('should read the multiplier and terms from the formula', () => {
+    expect(getKPIFormulaTerms(cauti)).toEqual({
+      numerator: 'Number of CAUTI',
+      denominator: 'Number of urinary catheter days',
+      multiplier: 1000,
+    });
+    expect(getKPIFormulaTerms(initialAssessment).multiplier).toBe(1);
+    expect(getKPIFormulaTerms(patientSatisfaction).denominator).toBe('Maximum possible score');
+  });
+});
+
+describe('computeKPIValue', () => {
+  it('should apply the formula', () => {
+    expect(computeKPIValue(cauti, 2, 450)).toBe(4.44);
+    expect(computeKPIValue(medicationErrors, 3, 1200)).toBe(0.25);
+    expect(computeKPIValue(initialAssessment, 2790, 93)).toBe(30);
+    expect(computeKPIValue(cauti, 1, 0)).toBeNull();
+  });
+});
+
+describe('validateKPIMeasurement', () => {
+  it('should reject incomplete, impossible and future entries', () => {
+    expect(validateKPIMeasurement(cauti, '2026-09', 2, 450, today)).toBeNull();
+    expect(validateKPIMeasurement(cauti, '2026-09', 2, 0, today)).toContain('greater than zero');
+    expect(validateKPIMeasurement(cauti, '2026-09', NaN, 450, today)).toBe('Number of CAUTI is required');
+    expect(validateKPIMeasurement(medicationErrors, '2026-09', 12, 10, today)).toContain('cannot exceed');
+    expect(validateKPIMeasurement(cauti, '2026-11', 2, 450, today)).toContain('not in the future');
+  });
+});
+
+describe('parseKPIImportRows', () => {
+  it('should parse template rows and report errors per row', () => {
+    const rows = parseKPIImportRows([
+      { 'KPI No': 6, 'Month': '2026-09', 'Numerator': 2, 'Denominator': '450', 'Department': 'ICU' },
+      { 'KPI No': 'KPI 2', 'Month': new Date(2026, 8, 1), 'Numerator': 0, 'Denominator': 1200 },
+      { 'KPI No': 6, 'Month': '2026-9', 'Numerator': 3, 'Denominator': 450 },
+      { 'KPI No': 99, 'Month': '2026-09', 'Numerator': 1, 'Denominator': 1 },
+      { 'KPI No': 10, 'Month': '2026-09', 'Numerator': '', 'Denominator': 200 },
+    ], today);
+
+    expect(rows[0]).toMatchObject({ rowNumber: 2, value: 4.44, error: null });
+    expect(rows[0].input).toMatchObject({ kpiId: 'kpi-6', month: '2026-09', department: 'ICU' });
+    expect(rows[1].input).toMatchObject({ kpiId: 'kpi-2', month: '2026-09', numerator: 0 });
+    expect(rows[2].error).toContain('already given in row 2');
+    expect(rows[3].error).toBe('Unknown KPI');
+    expect(rows[4].error).toContain('is required');
+  });
+});
+
+describe('hasSimulatedKPIData', () => {
+  it('should treat entries without the captured flag as simulated', () => {
+    expect(hasSimulatedKPIData([{ isSimulated: false }])).toBe(false);
+    expect(hasSimulatedKPIData([{ isSimulated: false }, {}])).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * License Renewal Engine Tests
+ * Tests for renewal task opening, checklist parsing, escalating reminders and completion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRenewalTask,
+  getDueReminder,
+  getLicenseUpdatesOnRenewal,
+  getLicensesDueForRenewal,
+  getRenewalCompletionError,
+  parseRenewalSteps,
+} from '../licenseRenewalEngine';
+import type { License } from '../../types/license';
+import type { LicenseRenewal } from '../../types/licenseRenewal';
+
+const TODAY = new Date('2026-10-19T12:00:00Z');
+
+const license: License = {
+  id: 'lic_1',
+  name: 'Fire NOC',
+  category: 'Fire Safety',
+  licenseNumber: 'FIRE/2025/101',
+  issuingAuthority: 'Fire Department',
+  issueDate: '2025-12-01',
+  expiryDate: '2026-12-01',
+  validityPeriod: 'Annual',
+  status: 'Expiring Soon',
+  description: 'Fire safety NOC',
+  renewalProcess: '1. Fire audit\n2. Submit application; 3) Pay fee',
+  responsiblePerson: 'Facility Manager',
+  reminderDays: 60,
+  hospitalId: 'hope',
+  createdAt: '2025-12-01T00:00:00Z',
+  updatedAt: '2025-12-01T00:00:00Z',
+};
+
+const renewal = (overrides: Partial<LicenseRenewal> = {}): LicenseRenewal => ({
+  ...buildRenewalTask(license),
+  id: 'ren_1',
+  created_at: '2026-10-02T00:00:00Z',
+  updated_at: '2026-10-02T00:00:00Z',
+  ...overrides,
+});
+
+describe('parseRenewalSteps', () => {
+  it('should split the renewal process into steps without numbering', () => {
+    expect(parseRenewalSteps(license.renewalProcess)).toEqual(['Fire audit', 'Submit application', 'Pay fee']);
+  });
+
+  it('should fall back to default steps when no process is written down', () => {
+    expect(parseRenewalSteps('  ').length).toBeGreaterThan(0);
+  });
+});
+
+describe('getLicensesDueForRenewal', () => {
+  it('should open a task once the reminder window starts', () => {
+    expect(getLicensesDueForRenewal([license], [], TODAY)).toEqual([license]);
+    expect(getLicensesDueForRenewal([license], [], new Date('2026-10-01T12:00:00Z'))).toEqual([]);
+  });
+
+  it('should skip permanent licenses and licenses with a task for the same expiry', () => {
+    const permanent = { ...license, id: 'lic_2', expiryDate: 'Permanent' };
+    const existing = { license_id: 'lic_1', expiry_date: '2026-12-01', status: 'Open' as const };
+    expect(getLicensesDueForRenewal([license, permanent], [existing], TODAY)).toEqual([]);
+  });
+
+  it('should build the task from the license', () => {
+    expect(buildRenewalTask(license)).toMatchObject({
+      license_id: 'lic_1',
+      expiry_date: '2026-12-01',
+      opened_on: '2026-10-02',
+      responsible_person: 'Facility Manager',
+      status: 'Open',
+    });
+  });
+});
+
+describe('getDueReminder', () => {
+  it('should remind the responsible person and repeat at the interval', () => {
+    expect(getDueReminder(renewal(), 'NABH Coordinator', TODAY)).toMatchObject({ level: 1, recipient: 'Facility Manager' });
+    expect(getDueReminder(renewal({ last_reminded_at: '2026-10-15T00:00:00Z', last_escalation_level: 1 }), 'NABH Coordinator', TODAY)).toBeNull();
+    expect(getDueReminder(renewal({ last_reminded_at: '2026-10-12T00:00:00Z', last_escalation_level: 1 }), 'NABH Coordinator', TODAY)).not.toBeNull();
+  });
+
+  it('should escalate to the NABH coordinator within the escalation days', () => {
+    const nearExpiry = new Date('2026-11-20T12:00:00Z');
+    const reminded = renewal({ last_reminded_at: '2026-11-18T00:00:00Z', last_escalation_level: 1 });
+    expect(getDueReminder(reminded, 'NABH Coordinator', nearExpiry)).toMatchObject({ level: 2, recipient: 'NABH Coordinator' });
+    expect(getDueReminder({ ...reminded, last_escalation_level: 2 }, 'NABH Coordinator', nearExpiry)).toBeNull();
+  });
+
+  it('should not remind once the renewal is closed', () => {
+    expect(getDueReminder(renewal({ status: 'Completed' }), 'NABH Coordinator', TODAY)).toBeNull();
+  });
+});
+
+describe('renewal completion', () => {
+  const done = renewal({
+    steps: renewal().steps.map(s => ({ ...s, done: true, done_date: '2026-10-18', done_by: 'Facility Manager' })),
+    certificate_url: 'https://example.com/noc.pdf',
+    renewal_cost: 25000,
+    new_expiry_date: '2027-12-01',
+  });
+
+  it('should require every step, the certificate and a later expiry date', () => {
+    expect(getRenewalCompletionError(renewal())).toBe('3 renewal steps are not done');
+    expect(getRenewalCompletionError({ ...done, certificate_url: null })).toBe('Attach the renewed certificate');
+    expect(getRenewalCompletionError({ ...done, new_expiry_date: '2026-11-01' })).toBe('New expiry date must be after the current expiry date');
+    expect(getRenewalCompletionError(done)).toBeNull();
+  });
+
+  it('should carry the new validity, certificate and cost over to the license', () => {
+    expect(getLicenseUpdatesOnRenewal(done, '2026-10-19')).toEqual({
+      expiry_date: '2027-12-01',
+      issue_date: '2026-10-19',
+      last_renewal_date: '2026-10-19',
+      attached_document: 'https://example.com/noc.pdf',
+      status: 'Valid',
+      renewal_cost: '₹25,000',
+    });
+  });
+});
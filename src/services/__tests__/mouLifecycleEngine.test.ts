@@ -0,0 +1,145 @@
+/**
+ * MOU Lifecycle Engine Tests
+ * Tests for review scoring, next review period and the expiry / renewal pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildReviewScores,
+  getMOURenewalStage,
+  getNextReviewPeriod,
+  getRenewalPipeline,
+  getReviewValidationError,
+  scoreReview,
+  summarizeReviews,
+} from '../mouLifecycleEngine';
+import type { MOU, MOUObligation, MOUReview } from '../../types/mou';
+
+const TODAY = new Date('2026-10-19T12:00:00Z');
+
+const mou: MOU = {
+  id: 'mou_1',
+  title: 'Outsourced Laboratory Services',
+  partnerOrganization: 'City Diagnostics',
+  category: 'Healthcare',
+  signedDate: '2026-01-01',
+  expiryDate: '2026-12-31',
+  validityPeriod: '1 Year',
+  status: 'Active',
+  purpose: 'Specialised tests not done in-house',
+  keyBenefits: [],
+  responsiblePerson: 'Lab In-charge',
+  partnerContact: 'Branch Manager',
+  documentLinks: [],
+  renewalRequired: true,
+  complianceRequirements: 'NABL accreditation',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+const obligation = (overrides: Partial<MOUObligation>): MOUObligation => ({
+  id: 'ob_1',
+  mou_id: 'mou_1',
+  description: 'Report turnaround',
+  target: 24,
+  unit: 'hours',
+  direction: 'max',
+  review_frequency: 'Quarterly',
+  weight: 1,
+  is_active: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const obligations = [
+  obligation({}),
+  obligation({ id: 'ob_2', description: 'Sample pickups done', target: 95, unit: '%', direction: 'min', weight: 3 }),
+  obligation({ id: 'ob_3', description: 'Retired term', is_active: false }),
+];
+
+const review = (overrides: Partial<MOUReview>): MOUReview => ({
+  id: 'rev_1',
+  mou_id: 'mou_1',
+  period_start: '2026-01-01',
+  period_end: '2026-03-31',
+  review_date: '2026-04-05',
+  reviewed_by: 'Lab In-charge',
+  scores: [],
+  overall_score: 100,
+  rating: 'Meets Terms',
+  remarks: null,
+  action_required: null,
+  created_at: '2026-04-05T00:00:00Z',
+  ...overrides,
+});
+
+describe('scoreReview', () => {
+  it('should score active obligations by weight and ignore unmeasured ones', () => {
+    const scores = buildReviewScores(obligations);
+    expect(scores.map(s => s.obligation_id)).toEqual(['ob_1', 'ob_2']);
+
+    const result = scoreReview([{ ...scores[0], actual: 30 }, { ...scores[1], actual: 97 }]);
+    expect(result.scores.map(s => s.met)).toEqual([false, true]);
+    expect(result.overall_score).toBe(75);
+    expect(result.rating).toBe('Partially Meets');
+
+    expect(scoreReview([{ ...scores[0], actual: 20 }, scores[1]])).toMatchObject({ overall_score: 100, rating: 'Meets Terms' });
+  });
+
+  it('should require a reviewer and at least one measurement', () => {
+    const base = { period_start: '2026-01-01', period_end: '2026-03-31', reviewed_by: 'Lab In-charge', scores: buildReviewScores(obligations) };
+    expect(getReviewValidationError(base)).toBe('Enter the actual performance for at least one obligation');
+    expect(getReviewValidationError({ ...base, reviewed_by: ' ' })).toBe('Enter who reviewed the partner');
+    expect(getReviewValidationError({ ...base, scores: [{ ...base.scores[0], actual: 12 }] })).toBeNull();
+  });
+});
+
+describe('getNextReviewPeriod', () => {
+  it('should start from the signing date and continue after the last review', () => {
+    expect(getNextReviewPeriod(mou, obligations, [], TODAY)).toEqual({ period_start: '2026-01-01', period_end: '2026-03-31', overdue: true });
+    expect(getNextReviewPeriod(mou, obligations, [review({ period_end: '2026-09-30' })], TODAY)).toEqual({
+      period_start: '2026-10-01',
+      period_end: '2026-12-31',
+      overdue: false,
+    });
+  });
+
+  it('should use the shortest frequency and need active obligations', () => {
+    const monthly = [...obligations, obligation({ id: 'ob_4', review_frequency: 'Monthly' })];
+    expect(getNextReviewPeriod(mou, monthly, [], TODAY)?.period_end).toBe('2026-01-31');
+    expect(getNextReviewPeriod(mou, [obligations[2]], [], TODAY)).toBeNull();
+  });
+});
+
+describe('renewal pipeline', () => {
+  it('should place MOUs by expiry, renewal requirement and status', () => {
+    expect(getMOURenewalStage(mou, TODAY)).toBe('Renewal Due');
+    expect(getMOURenewalStage({ ...mou, renewalRequired: false }, TODAY)).toBe('Lapsing');
+    expect(getMOURenewalStage({ ...mou, expiryDate: '2027-06-30' }, TODAY)).toBe('Active');
+    expect(getMOURenewalStage({ ...mou, expiryDate: '2026-10-01' }, TODAY)).toBe('Expired');
+    expect(getMOURenewalStage({ ...mou, status: 'Under Renewal' }, TODAY)).toBe('Under Renewal');
+  });
+
+  it('should group MOUs with the soonest expiry first', () => {
+    const later = { ...mou, id: 'mou_2', expiryDate: '2026-11-30' };
+    const pipeline = getRenewalPipeline([mou, later], TODAY);
+    expect(pipeline['Renewal Due'].map(m => m.id)).toEqual(['mou_2', 'mou_1']);
+    expect(pipeline['Active']).toEqual([]);
+  });
+});
+
+describe('summarizeReviews', () => {
+  it('should average scores and count repeated misses', () => {
+    const [turnaround, pickups] = buildReviewScores(obligations);
+    const summary = summarizeReviews([
+      review({ overall_score: 75, rating: 'Partially Meets', scores: [{ ...turnaround, actual: 30, met: false }, { ...pickups, actual: 97, met: true }] }),
+      review({ id: 'rev_2', period_end: '2026-06-30', overall_score: 25, rating: 'Does Not Meet', scores: [{ ...turnaround, actual: 20, met: true }, { ...pickups, actual: 80, met: false }] }),
+    ]);
+    expect(summary).toMatchObject({ count: 2, averageScore: 50, latestRating: 'Does Not Meet' });
+    expect(summary.misses).toEqual([
+      { description: 'Report turnaround', missed: 1, measured: 2 },
+      { description: 'Sample pickups done', missed: 1, measured: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * MOU Renewal Draft Service Tests
+ * Tests for the drafting prompt and parsing of the AI letter and addendum
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRenewalDraftHTML, buildRenewalDraftPrompt, parseRenewalDraftResponse } from '../mouRenewalDraftService';
+import { HOSPITALS } from '../../config/hospitalConfig';
+import type { MOU, MOUObligation, MOUReview } from '../../types/mou';
+
+const mou: MOU = {
+  id: 'mou_1',
+  title: 'Biomedical Waste Collection',
+  partnerOrganization: 'Green Waste Services <Nagpur>',
+  category: 'Healthcare',
+  signedDate: '2025-11-01',
+  expiryDate: '2026-10-31',
+  validityPeriod: '1 Year',
+  status: 'Active',
+  purpose: 'Daily collection of biomedical waste',
+  keyBenefits: ['Regulatory compliance'],
+  responsiblePerson: 'Infection Control Nurse',
+  partnerContact: 'Operations Head',
+  documentLinks: [],
+  renewalRequired: true,
+  complianceRequirements: 'BMW Rules 2016',
+  createdAt: '2025-11-01T00:00:00Z',
+  updatedAt: '2025-11-01T00:00:00Z',
+};
+
+const pickup: MOUObligation = {
+  id: 'ob_1',
+  mou_id: 'mou_1',
+  description: 'Daily pickups completed',
+  target: 100,
+  unit: '%',
+  direction: 'min',
+  review_frequency: 'Monthly',
+  weight: 1,
+  is_active: true,
+  created_at: '2025-11-01T00:00:00Z',
+  updated_at: '2025-11-01T00:00:00Z',
+};
+
+const review: MOUReview = {
+  id: 'rev_1',
+  mou_id: 'mou_1',
+  period_start: '2026-09-01',
+  period_end: '2026-09-30',
+  review_date: '2026-10-02',
+  reviewed_by: 'Infection Control Nurse',
+  scores: [{ obligation_id: 'ob_1', description: 'Daily pickups completed', target: 100, unit: '%', direction: 'min', weight: 1, actual: 90, met: false, comments: '3 days missed' }],
+  overall_score: 0,
+  rating: 'Does Not Meet',
+  remarks: 'Pickups missed on Sundays',
+  action_required: 'Add Sunday pickup',
+  created_at: '2026-10-02T00:00:00Z',
+};
+
+describe('buildRenewalDraftPrompt', () => {
+  it('should include the obligation terms and review outcomes', () => {
+    const prompt = buildRenewalDraftPrompt(mou, [pickup], [review], HOSPITALS.hope);
+    expect(prompt).toContain('Daily pickups completed: ≥ 100%');
+    expect(prompt).toContain('missed in 1 of 1 reviews');
+    expect(prompt).toContain('Add Sunday pickup');
+    expect(prompt).toContain(HOSPITALS.hope.name);
+  });
+});
+
+describe('parseRenewalDraftResponse', () => {
+  it('should read the letter and addendum from fenced JSON', () => {
+    const content = '```json\n{"letter": " Dear Sir ", "addendum": "1. Term"}\n```';
+    expect(parseRenewalDraftResponse(content)).toEqual({ success: true, data: { letter: 'Dear Sir', addendum: '1. Term' } });
+  });
+
+  it('should reject a response without an addendum', () => {
+    expect(parseRenewalDraftResponse('{"letter": "Dear Sir"}').success).toBe(false);
+  });
+});
+
+describe('buildRenewalDraftHTML', () => {
+  it('should escape the draft and print the addendum on its own page', () => {
+    const html = buildRenewalDraftHTML({ letter: 'To <Partner>', addendum: 'Clause 1' }, mou, HOSPITALS.hope);
+    expect(html).toContain('To &lt;Partner&gt;');
+    expect(html).toContain('ADDENDUM TO BIOMEDICAL WASTE COLLECTION');
+    expect(html).toContain('page-break');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Patient Sampling Engine Tests
+ * Tests for sample size, reproducible random draws and stratified allocation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  allocateProportionally,
+  calculateSampleSize,
+  drawPatientSample,
+  filterPopulation,
+} from '../patientSamplingEngine';
+import type { Patient } from '../../types/patient';
+
+const patients: Patient[] = Array.from({ length: 60 }, (_, i) => ({
+  visitId: `IP${String(i + 1).padStart(3, '0')}`,
+  patientName: `Patient ${i + 1}`,
+  // 30 in July, 20 in August, 10 in September
+  admissionDate: i < 30 ? '2026-07-10' : i < 50 ? '2026-08-10' : '2026-09-10',
+  diagnosis: i % 3 === 0 ? 'Pneumonia' : 'Fracture',
+  status: i % 4 === 0 ? 'Active' : 'Discharged',
+}));
+
+describe('calculateSampleSize', () => {
+  it('should apply the finite population correction', () => {
+    expect(calculateSampleSize(100000)).toBe(383);
+    expect(calculateSampleSize(500)).toBe(218);
+    expect(calculateSampleSize(60, 95, 0.1)).toBe(38);
+    expect(calculateSampleSize(0)).toBe(0);
+  });
+});
+
+describe('filterPopulation', () => {
+  it('should filter by admission date range and status', () => {
+    const population = filterPopulation(patients, {
+      method: 'random',
+      seed: 'x',
+      fromDate: '2026-08-01',
+      toDate: '2026-09-30',
+      status: 'Discharged',
+    });
+    expect(population).toHaveLength(23);
+    expect(population.every(p => p.status === 'Discharged' && p.admissionDate! >= '2026-08-01')).toBe(true);
+  });
+});
+
+describe('drawPatientSample', () => {
+  it('should draw the same files for the same seed regardless of input order', () => {
+    const a = drawPatientSample(patients, { method: 'random', seed: 'nabh-2026', size: 10 });
+    const b = drawPatientSample([...patients].reverse(), { method: 'random', seed: 'nabh-2026', size: 10 });
+    const c = drawPatientSample(patients, { method: 'random', seed: 'other', size: 10 });
+
+    expect(a.entries).toHaveLength(10);
+    expect(new Set(a.entries.map(e => e.visit_id)).size).toBe(10);
+    expect(b.entries).toEqual(a.entries);
+    expect(c.entries).not.toEqual(a.entries);
+  });
+
+  it('should allocate a stratified sample in proportion to each stratum', () => {
+    const draw = drawPatientSample(patients, { method: 'stratified', stratifyBy: 'month', seed: 's1', percentage: 20 });
+
+    expect(draw.populationSize).toBe(60);
+    expect(draw.sampleSize).toBe(12);
+    expect(draw.strata).toEqual([
+      { stratum: '2026-07', population: 30, sample: 6 },
+      { stratum: '2026-08', population: 20, sample: 4 },
+      { stratum: '2026-09', population: 10, sample: 2 },
+    ]);
+    expect(draw.entries.filter(e => e.stratum === '2026-09')).toHaveLength(2);
+    expect(draw.methodology).toBe(
+      'Stratified random sample by admission month (proportional allocation across 3 strata): 12 of 60 patient files (20%); seed "s1"'
+    );
+  });
+
+  it('should never sample more files than the population', () => {
+    expect(drawPatientSample(patients, { method: 'random', seed: 's', size: 500 }).sampleSize).toBe(60);
+  });
+});
+
+describe('allocateProportionally', () => {
+  it('should hand out remainders by largest fraction', () => {
+    expect(allocateProportionally([5, 3, 2], 5)).toEqual([3, 1, 1]);
+    expect(allocateProportionally([1, 1, 1], 2)).toEqual([1, 1, 0]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Permission Engine Tests
+ * Tests for role capabilities, route guards, SOP sign-off rights and suggested roles
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canAccessPath,
+  canSignApprovalAction,
+  getPathCapability,
+  getSuggestedRole,
+  hasCapability,
+} from '../permissionEngine';
+import { getTeamMember, NABH_TEAM } from '../../config/hospitalConfig';
+
+describe('hasCapability', () => {
+  it('should only let coordinators delete evidence and records', () => {
+    expect(hasCapability('nabh_coordinator', 'delete_evidence')).toBe(true);
+    expect(hasCapability('quality_manager', 'delete_evidence')).toBe(false);
+    expect(hasCapability('department_head', 'delete_records')).toBe(false);
+  });
+
+  it('should keep assessors read-only', () => {
+    expect(hasCapability('assessor', 'view')).toBe(true);
+    expect(hasCapability('assessor', 'edit_content')).toBe(false);
+  });
+
+  it('should grant nothing without a role', () => {
+    expect(hasCapability(null, 'view')).toBe(false);
+    expect(hasCapability(undefined, 'view')).toBe(false);
+  });
+});
+
+describe('canAccessPath', () => {
+  it('should restrict user management to coordinators', () => {
+    expect(getPathCapability('/users')).toBe('manage_users');
+    expect(canAccessPath('nabh_coordinator', '/users')).toBe(true);
+    expect(canAccessPath('quality_manager', '/users')).toBe(false);
+  });
+
+  it('should keep assessors out of generators but allow viewing pages', () => {
+    expect(canAccessPath('assessor', '/ai-generator')).toBe(false);
+    expect(canAccessPath('assessor', '/objective/AAC/AAC.1.a')).toBe(true);
+    expect(canAccessPath('assessor', '/licenses')).toBe(true);
+  });
+
+  it('should match on whole path segments only', () => {
+    expect(getPathCapability('/users-guide')).toBe('view');
+    expect(getPathCapability('/users/abc')).toBe('manage_users');
+  });
+});
+
+describe('canSignApprovalAction', () => {
+  it('should let reviewers prepare and review but not approve or issue', () => {
+    expect(canSignApprovalAction('quality_manager', 'Reviewed')).toBe(true);
+    expect(canSignApprovalAction('quality_manager', 'Approved')).toBe(false);
+    expect(canSignApprovalAction('nabh_coordinator', 'Issued')).toBe(true);
+  });
+
+  it('should not let staff sign at all', () => {
+    expect(canSignApprovalAction('staff', 'Prepared')).toBe(false);
+    expect(canSignApprovalAction('staff', 'Rejected')).toBe(false);
+  });
+});
+
+describe('getSuggestedRole', () => {
+  it('should suggest coordinator for the quality coordinator on the NABH team', () => {
+    const coordinator = NABH_TEAM.find(member => member.role === 'Quality Coordinator');
+    expect(getSuggestedRole(coordinator)).toBe('nabh_coordinator');
+  });
+
+  it('should suggest staff for unknown names', () => {
+    expect(getSuggestedRole(getTeamMember('Someone Not On The Team'))).toBe('staff');
+  });
+
+  it('should map department staff and other team roles', () => {
+    expect(getSuggestedRole({ role: 'Department Staff' })).toBe('staff');
+    expect(getSuggestedRole({ role: 'Deputy Quality Manager' })).toBe('quality_manager');
+    expect(getSuggestedRole({ role: 'HR Head' })).toBe('department_head');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Prompt Library Engine Tests
+ * Tests for variable rendering and validation, built-in templates, pinned versions,
+ * objective test values and A/B scoring of test runs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BUILTIN_PROMPT_TEMPLATES, BUILTIN_PROMPT_VERSIONS } from '../../data/builtinPrompts';
+import {
+  buildObjectiveTestValues,
+  extractTemplateVariables,
+  findUndeclaredVariables,
+  getNextVersionNumber,
+  getPinnedVersion,
+  mergePromptTemplates,
+  renderPromptTemplate,
+  scorePromptVersions,
+  validatePromptValues,
+  withBuiltinVersion,
+} from '../promptLibraryEngine';
+import type { ObjectiveElement } from '../../types/nabh';
+import type { PromptTemplate, PromptTestRun, PromptVariable, PromptVersion } from '../../types/promptLibrary';
+
+const variables: PromptVariable[] = [
+  { name: 'code', label: 'Code', type: 'text', required: true },
+  { name: 'items', label: 'Items', type: 'list', required: false },
+  { name: 'data', label: 'Data', type: 'json', required: false },
+  { name: 'count', label: 'Count', type: 'number', required: false },
+];
+
+const version = (template_id: string, number: number): PromptVersion => ({
+  id: `${template_id}-${number}`,
+  template_id,
+  version: number,
+  body: `v${number}`,
+  notes: '',
+  temperature: 0.7,
+  max_tokens: 1024,
+  created_by: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+});
+
+const run = (objective_code: string, number: number, rating: number | null, created_at = '2026-10-01T00:00:00.000Z'): PromptTestRun => ({
+  id: `${objective_code}-${number}-${created_at}`,
+  template_id: 'sop-from-content',
+  version: number,
+  test_set_id: 'set-1',
+  objective_code,
+  rendered_prompt: '',
+  output: '',
+  error: null,
+  provider: 'stub',
+  model: 'stub',
+  input_tokens: 10,
+  output_tokens: 20,
+  cost_usd: 0.01,
+  latency_ms: 1000,
+  rating,
+  created_at,
+});
+
+describe('renderPromptTemplate', () => {
+  it('should format values by variable type', () => {
+    const body = 'Code {{code}}\n{{ items }}\n{{data}}\nCount {{count}}';
+    expect(renderPromptTemplate(body, variables, { code: 'AAC.1', items: ['a', 'b'], data: { x: 1 }, count: 3 }))
+      .toBe('Code AAC.1\na\nb\n{\n  "x": 1\n}\nCount 3');
+  });
+
+  it('should render missing values empty and not re-scan inserted values', () => {
+    expect(renderPromptTemplate('{{code}}|{{missing}}', variables, { code: '{{missing}}' })).toBe('{{missing}}|');
+  });
+});
+
+describe('validatePromptValues', () => {
+  it('should report required, number and json problems', () => {
+    expect(validatePromptValues(variables, { code: ' ', count: 'abc', data: '{bad' })).toEqual([
+      'Code is required',
+      'Data must be valid JSON',
+      'Count must be a number',
+    ]);
+    expect(validatePromptValues(variables, { code: 'AAC.1' })).toEqual([]);
+  });
+});
+
+describe('built-in prompts', () => {
+  it('should declare every variable used in a built-in body', () => {
+    for (const template of BUILTIN_PROMPT_TEMPLATES) {
+      const builtin = BUILTIN_PROMPT_VERSIONS.find(candidate => candidate.template_id === template.id);
+      expect(builtin).toBeDefined();
+      expect(findUndeclaredVariables(builtin!.body, template.variables)).toEqual([]);
+    }
+  });
+
+  it('should list variables in order of first use', () => {
+    expect(extractTemplateVariables('{{b}} {{a}} {{b}}')).toEqual(['b', 'a']);
+  });
+});
+
+describe('versions', () => {
+  const builtin = BUILTIN_PROMPT_TEMPLATES.find(template => template.id === 'kpi-edit')!;
+
+  it('should overlay saved rows on built-ins and keep custom templates', () => {
+    const custom: PromptTemplate = { ...builtin, id: 'custom', name: 'Custom', usage: null, is_builtin: false };
+    const merged = mergePromptTemplates([{ ...builtin, pinned_version: 3, is_builtin: false }, custom]);
+    expect(merged.find(template => template.id === 'kpi-edit')).toMatchObject({ pinned_version: 3, is_builtin: true });
+    expect(merged[merged.length - 1].id).toBe('custom');
+  });
+
+  it('should use the built-in version until another version is pinned', () => {
+    const versions = withBuiltinVersion('kpi-edit', [version('kpi-edit', 2)]);
+    expect(versions.map(candidate => candidate.version)).toEqual([1, 2]);
+    expect(getPinnedVersion(builtin, versions)?.version).toBe(1);
+    expect(getPinnedVersion({ ...builtin, pinned_version: 2 }, versions)?.version).toBe(2);
+    expect(getNextVersionNumber(versions)).toBe(3);
+  });
+
+  it('should use the latest version of an unpinned custom template', () => {
+    const custom: PromptTemplate = { ...builtin, id: 'custom', is_builtin: false };
+    const versions = withBuiltinVersion('custom', [version('custom', 2), version('custom', 1)]);
+    expect(getPinnedVersion(custom, versions)?.version).toBe(2);
+    expect(getPinnedVersion(custom, [])).toBeNull();
+  });
+});
+
+describe('buildObjectiveTestValues', () => {
+  it('should take bound variables from the objective and the rest from samples', () => {
+    const objective = {
+      code: 'AAC.1.a',
+      title: 'Registration',
+      description: 'The organisation defines its services',
+      interpretation: 'AI interpretation',
+      interpretations2: 'Edited interpretation',
+      evidencesList: '1. Scope of services',
+    } as ObjectiveElement;
+    const values = buildObjectiveTestValues(
+      [
+        { name: 'code', label: 'Code', type: 'text', required: true, binding: 'objective.code' },
+        { name: 'interpretation', label: 'Interpretation', type: 'multiline', required: true, binding: 'objective.interpretation' },
+        { name: 'chapter', label: 'Chapter', type: 'text', required: true, binding: 'chapter.name' },
+        { name: 'request', label: 'Request', type: 'text', required: false, sample: 'Sample' },
+        { name: 'empty', label: 'Empty', type: 'text', required: false },
+      ],
+      objective,
+      { code: 'AAC', name: 'Access, Assessment and Continuity of Care' }
+    );
+    expect(values).toEqual({
+      code: 'AAC.1.a',
+      interpretation: 'Edited interpretation',
+      chapter: 'Access, Assessment and Continuity of Care',
+      request: 'Sample',
+      empty: '',
+    });
+  });
+});
+
+describe('scorePromptVersions', () => {
+  it('should compare the latest rated run of each version per objective', () => {
+    const runs = [
+      run('AAC.1', 1, 2, '2026-10-01T00:00:00.000Z'),
+      run('AAC.1', 1, 5, '2026-10-02T00:00:00.000Z'),
+      run('AAC.1', 2, 4),
+      run('AAC.2', 1, 3),
+      run('AAC.2', 2, 3),
+      run('AAC.3', 1, 1),
+      run('AAC.3', 2, 5),
+      run('AAC.4', 2, null),
+    ];
+    const result = scorePromptVersions(runs, 1, 2);
+    expect(result.compared).toBe(3);
+    expect(result.ties).toBe(1);
+    expect(result.a).toMatchObject({ version: 1, runs: 3, rated: 3, wins: 1, averageRating: 3 });
+    expect(result.b).toMatchObject({ version: 2, runs: 4, rated: 3, wins: 1, averageRating: 4 });
+  });
+});
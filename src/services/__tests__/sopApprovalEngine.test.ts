@@ -0,0 +1,94 @@
+/**
+ * SOP Approval Engine Tests
+ * Tests for sign-off order, segregation of duties and the approval block
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getApprovalSignatures,
+  insertApprovalBlock,
+  isApprovedForRelease,
+  validateApprovalTransition,
+} from '../sopApprovalEngine';
+import { NABH_TEAM } from '../../config/hospitalConfig';
+import type { SOPApprovalAction, SOPApprovalEvent } from '../../types/sopApproval';
+
+const [preparer, reviewer, approver] = NABH_TEAM;
+
+const makeEvent = (action: SOPApprovalAction, memberName: string, createdAt: string): SOPApprovalEvent => ({
+  id: `${action}-${createdAt}`,
+  document_type: 'generated_sop',
+  document_id: 'sop-1',
+  action,
+  from_stage: 'Draft',
+  to_stage: action === 'Rejected' ? 'Draft' : action,
+  member_name: memberName,
+  member_role: 'Role',
+  member_designation: 'Designation',
+  comments: action === 'Rejected' ? 'Add hand hygiene steps' : null,
+  created_at: createdAt,
+});
+
+describe('validateApprovalTransition', () => {
+  it('should only allow the next sign-off in order', () => {
+    expect(validateApprovalTransition('Draft', 'Prepared', preparer, '', {})).toBeNull();
+    expect(validateApprovalTransition('Draft', 'Approved', approver, '', {})).toContain('next step is "Prepared"');
+    expect(validateApprovalTransition('Issued', 'Issued', approver, '', {})).toBe('This SOP is already issued');
+  });
+
+  it('should keep preparer, reviewer and approver separate', () => {
+    const prepared = { Prepared: makeEvent('Prepared', preparer.name, '2026-10-01T10:00:00Z') };
+    expect(validateApprovalTransition('Prepared', 'Reviewed', preparer, '', prepared)).toBe('The reviewer must be different from the preparer');
+    expect(validateApprovalTransition('Prepared', 'Reviewed', reviewer, '', prepared)).toBeNull();
+
+    const reviewed = { ...prepared, Reviewed: makeEvent('Reviewed', reviewer.name, '2026-10-02T10:00:00Z') };
+    expect(validateApprovalTransition('Reviewed', 'Approved', reviewer, '', reviewed)).toContain('approver must be different');
+    expect(validateApprovalTransition('Reviewed', 'Approved', approver, '', reviewed)).toBeNull();
+  });
+
+  it('should require comments to reject', () => {
+    expect(validateApprovalTransition('Reviewed', 'Rejected', approver, '  ', {})).toBe('Rejection comments are required');
+    expect(validateApprovalTransition('Reviewed', 'Rejected', approver, 'Missing scope', {})).toBeNull();
+    expect(validateApprovalTransition('Draft', 'Rejected', approver, 'Missing scope', {})).toContain('cannot be rejected');
+  });
+});
+
+describe('getApprovalSignatures', () => {
+  it('should start a fresh cycle after a rejection', () => {
+    const events = [
+      makeEvent('Prepared', preparer.name, '2026-10-01T10:00:00Z'),
+      makeEvent('Reviewed', reviewer.name, '2026-10-02T10:00:00Z'),
+      makeEvent('Rejected', approver.name, '2026-10-03T10:00:00Z'),
+      makeEvent('Prepared', preparer.name, '2026-10-04T10:00:00Z'),
+    ];
+
+    const signatures = getApprovalSignatures(events, 'Prepared');
+    expect(signatures.Prepared?.created_at).toBe('2026-10-04T10:00:00Z');
+    expect(signatures.Reviewed).toBeUndefined();
+    expect(getApprovalSignatures(events, 'Draft')).toEqual({});
+  });
+});
+
+describe('insertApprovalBlock', () => {
+  it('should place the signatures right after the body tag', () => {
+    const signatures = { Prepared: makeEvent('Prepared', preparer.name, '2026-10-01T10:00:00Z') };
+    const html = insertApprovalBlock('<html><body class="sop"><h1>SOP</h1></body></html>', signatures);
+
+    expect(html.indexOf('approval-block')).toBeGreaterThan(html.indexOf('<body class="sop">'));
+    expect(html.indexOf('approval-block')).toBeLessThan(html.indexOf('<h1>'));
+    expect(html).toContain(preparer.name);
+  });
+
+  it('should leave unsigned documents unchanged', () => {
+    expect(insertApprovalBlock('<p>SOP</p>', {})).toBe('<p>SOP</p>');
+  });
+});
+
+describe('isApprovedForRelease', () => {
+  it('should release only approved and issued SOPs', () => {
+    expect(isApprovedForRelease('Approved')).toBe(true);
+    expect(isApprovedForRelease('Issued')).toBe(true);
+    expect(isApprovedForRelease('Reviewed')).toBe(false);
+    expect(isApprovedForRelease(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * SPC Engine Tests
+ * Tests for control limits and special-cause signal detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeSPC, detectRuns, detectTrends, getDefaultSPCChartType } from '../spcEngine';
+import { getKPIById } from '../../data/kpiData';
+import type { KPIDataEntry } from '../kpiStorage';
+
+const initialAssessment = getKPIById('kpi-1')!;
+const medicationErrors = getKPIById('kpi-2')!;
+const cauti = getKPIById('kpi-6')!;
+
+const months = (count: number) =>
+  Array.from({ length: count }, (_, i) => `${2025 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`);
+
+const series = (values: number[]): KPIDataEntry[] =>
+  months(values.length).map((month, i) => ({ month, value: values[i], target: 0 }));
+
+describe('getDefaultSPCChartType', () => {
+  it('should pick the chart from the KPI unit', () => {
+    expect(getDefaultSPCChartType(medicationErrors)).toBe('p');
+    expect(getDefaultSPCChartType(cauti)).toBe('u');
+    expect(getDefaultSPCChartType(initialAssessment)).toBe('xmr');
+  });
+});
+
+describe('computeSPC', () => {
+  it('should compute p-chart limits from numerators and denominators', () => {
+    const data = months(12).map((month, i) => ({
+      month,
+      value: 0,
+      target: 0,
+      numeratorValue: i === 11 ? 30 : 10,
+      denominatorValue: 1000,
+    }));
+    const result = computeSPC(medicationErrors, data, 'p');
+
+    expect(result.error).toBeNull();
+    expect(result.centerLine).toBe(1.167);
+    expect(result.points[0].lcl).toBe(0.148);
+    expect(result.points[11]).toMatchObject({ value: 3, isSignal: true });
+    expect(result.signals[0]).toMatchObject({ rule: 'beyond_limits', months: ['2025-12'], direction: 'up' });
+  });
+
+  it('should compute u-chart limits scaled by the formula multiplier', () => {
+    const data = months(12).map(month => ({ month, value: 0, target: 0, numeratorValue: 4, denominatorValue: 1000 }));
+    const result = computeSPC(cauti, data, 'u');
+
+    expect(result.centerLine).toBe(4);
+    expect(result.points[0].ucl).toBe(10);
+    expect(result.points[0].lcl).toBe(0);
+    expect(result.signals).toEqual([]);
+  });
+
+  it('should refuse p and u charts without numerators and denominators', () => {
+    expect(computeSPC(cauti, series([1, 2, 3]), 'u').error).toContain('numerator and denominator');
+  });
+
+  it('should compute XmR limits from the average moving range', () => {
+    const result = computeSPC(initialAssessment, series([20, 22, 20, 22, 20, 22, 20, 22, 20, 22, 20, 22]), 'xmr');
+
+    expect(result.centerLine).toBe(21);
+    expect(result.points[0].ucl).toBe(26.32);
+    expect(result.points[0].lcl).toBe(15.68);
+    expect(result.warning).toBeNull();
+  });
+
+  it('should warn that limits from fewer than 12 months are provisional', () => {
+    expect(computeSPC(initialAssessment, series([20, 22, 21]), 'xmr').warning).toContain('provisional');
+    expect(computeSPC(initialAssessment, series([20, 22, 21]), 'run').warning).toBeNull();
+  });
+});
+
+describe('detectRuns', () => {
+  it('should report a run of 8 on one side once, ignoring points on the centre line', () => {
+    const points = [5, 6, 6, 10, 6, 7, 6, 6, 7, 6, 3].map((value, i) => ({ month: months(11)[i], value, centerLine: 10 }));
+    const signals = detectRuns(points);
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]).toMatchObject({ rule: 'run', direction: 'down' });
+    expect(signals[0].months).toHaveLength(10);
+  });
+
+  it('should not report shorter runs', () => {
+    const points = [5, 6, 6, 6, 6, 6, 6, 12].map((value, i) => ({ month: months(8)[i], value, centerLine: 10 }));
+    expect(detectRuns(points)).toEqual([]);
+  });
+});
+
+describe('detectTrends', () => {
+  it('should report 6 or more consecutive increases or decreases', () => {
+    const points = [1, 2, 3, 4, 5, 6, 7, 5, 4, 3, 2, 1].map((value, i) => ({ month: months(12)[i], value }));
+    const signals = detectTrends(points);
+
+    expect(signals.map(s => [s.direction, s.months.length])).toEqual([['up', 7], ['down', 6]]);
+  });
+
+  it('should break a trend on equal values', () => {
+    const points = [1, 2, 3, 3, 4, 5, 6].map((value, i) => ({ month: months(7)[i], value }));
+    expect(detectTrends(points)).toEqual([]);
+  });
+});
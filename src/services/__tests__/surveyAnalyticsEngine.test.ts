@@ -0,0 +1,87 @@
+/**
+ * Survey Analytics Engine Tests
+ * Tests for answer validation, satisfaction index and response breakdowns
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSurveyAnalytics,
+  buildSurveyEvidenceHTML,
+  computeSatisfactionIndex,
+  validateSurveyAnswers,
+} from '../surveyAnalyticsEngine';
+import type { SurveyQuestion, SurveyResponse } from '../../types/survey';
+
+const questions: SurveyQuestion[] = [
+  { id: 'q1', question: 'Overall care', type: 'rating', required: true, category: 'Care' },
+  { id: 'q2', question: 'Likely to recommend', type: 'scale', required: true },
+  { id: 'q3', question: 'Were you informed of charges?', type: 'yes_no', required: false },
+  { id: 'q4', question: 'Ward', type: 'multiple_choice', options: ['General', 'Private'], required: false },
+  { id: 'q5', question: 'Suggestions', type: 'text', required: false },
+];
+
+const response = (answers: SurveyResponse['responses'], submittedAt: string, department: string | null = null): SurveyResponse => ({
+  id: submittedAt,
+  survey_id: 's1',
+  respondent_id: null,
+  respondent_type: 'patient',
+  department,
+  language: 'en',
+  responses: answers,
+  submitted_at: submittedAt,
+  completion_time: 3,
+});
+
+const responses = [
+  response({ q1: 5, q2: 10, q3: 'yes', q4: 'General', q5: 'Clean <b>wards</b>' }, '2026-09-10T10:00:00Z', 'ICU'),
+  response({ q1: 3, q2: 6, q3: 'no' }, '2026-09-20T10:00:00Z', 'ICU'),
+  response({ q1: 4, q2: 8 }, '2026-10-02T10:00:00Z'),
+];
+
+describe('validateSurveyAnswers', () => {
+  it('should flag missing required and out-of-range answers', () => {
+    expect(validateSurveyAnswers(questions, { q1: 5, q2: 7 })).toEqual({});
+    expect(validateSurveyAnswers(questions, { q2: 11, q3: 'maybe', q4: 'ICU' })).toEqual({
+      q1: 'This question is required',
+      q2: 'Choose a value from 1 to 10',
+      q3: 'Answer yes or no',
+      q4: 'Choose one of the options',
+    });
+  });
+});
+
+describe('computeSatisfactionIndex', () => {
+  it('should divide total score by maximum possible score', () => {
+    // (5 + 3 + 4) / 15 and (10 + 6 + 8) / 30 → 36 / 45
+    expect(computeSatisfactionIndex(questions, responses)).toBe(80);
+    expect(computeSatisfactionIndex(questions, [])).toBeNull();
+  });
+});
+
+describe('buildSurveyAnalytics', () => {
+  it('should build distributions, department and monthly breakdowns', () => {
+    const analytics = buildSurveyAnalytics(questions, responses);
+
+    expect(analytics.totalResponses).toBe(3);
+    expect(analytics.questions[0]).toMatchObject({ answered: 3, average: 4, score: 80 });
+    expect(analytics.questions[2].distribution).toEqual([
+      { label: 'Yes', count: 1, percentage: 50 },
+      { label: 'No', count: 1, percentage: 50 },
+    ]);
+    expect(analytics.questions[4].comments).toEqual(['Clean <b>wards</b>']);
+    expect(analytics.departments.map(d => [d.label, d.responses])).toEqual([['ICU', 2], ['Not specified', 1]]);
+    expect(analytics.monthlyTrend.map(m => [m.label, m.satisfactionIndex])).toEqual([['2026-09', 80], ['2026-10', 80]]);
+  });
+});
+
+describe('buildSurveyEvidenceHTML', () => {
+  it('should escape respondent comments', () => {
+    const html = buildSurveyEvidenceHTML(
+      { title: 'Patient Satisfaction', description: '', targetAudience: 'Inpatients', type: 'patient_satisfaction' },
+      buildSurveyAnalytics(questions, responses),
+      { name: 'Hope Hospital', address: 'Nagpur', qualityCoordinator: 'Dr. Shiraz', qualityCoordinatorDesignation: 'Quality Coordinator' }
+    );
+    expect(html).toContain('Clean &lt;b&gt;wards&lt;/b&gt;');
+    expect(html).toContain('80%');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Survey Translation Service Tests
+ * Tests for question localization and parsing of AI translations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countUntranslatedQuestions,
+  localizeQuestion,
+  localizeSurveyText,
+  parseTranslationResponse,
+} from '../surveyTranslationService';
+import type { SurveyQuestion } from '../../types/survey';
+
+const questions: SurveyQuestion[] = [
+  {
+    id: 'q1',
+    question: 'Which ward were you admitted to?',
+    type: 'multiple_choice',
+    options: ['General', 'Private'],
+    required: true,
+    translations: { hi: { question: 'आप किस वार्ड में भर्ती थे?', options: ['जनरल', ''] } },
+  },
+  { id: 'q2', question: 'Overall care', type: 'rating', required: true },
+];
+
+describe('localizeQuestion', () => {
+  it('should keep English option values and fall back to English labels', () => {
+    expect(localizeQuestion(questions[0], 'hi')).toEqual({
+      question: 'आप किस वार्ड में भर्ती थे?',
+      options: [
+        { value: 'General', label: 'जनरल' },
+        { value: 'Private', label: 'Private' },
+      ],
+    });
+    expect(localizeQuestion(questions[0], 'mr').question).toBe('Which ward were you admitted to?');
+  });
+});
+
+describe('localizeSurveyText', () => {
+  it('should fall back to English for a missing description', () => {
+    const survey = { title: 'Feedback', description: 'Tell us', translations: { mr: { title: 'अभिप्राय', description: '' } } };
+    expect(localizeSurveyText(survey, 'mr')).toEqual({ title: 'अभिप्राय', description: 'Tell us' });
+  });
+});
+
+describe('countUntranslatedQuestions', () => {
+  it('should count questions with a missing question or option translation', () => {
+    expect(countUntranslatedQuestions(questions, 'hi')).toBe(2);
+    expect(countUntranslatedQuestions(questions, 'mr')).toBe(2);
+  });
+});
+
+describe('parseTranslationResponse', () => {
+  it('should match translations by id and drop misaligned options', () => {
+    const content = '```json\n' + JSON.stringify({
+      title: 'अभिप्राय',
+      description: '',
+      questions: [
+        { id: 'q1', question: 'आपका वार्ड?', options: ['जनरल'] },
+        { id: 'q2', question: 'कुल देखभाल' },
+        { id: 'unknown', question: 'x' },
+      ],
+    }) + '\n```';
+
+    const result = parseTranslationResponse(content, questions);
+    expect(result.success).toBe(true);
+    expect(result.data?.survey.title).toBe('अभिप्राय');
+    expect(result.data?.questions).toEqual({
+      q1: { question: 'आपका वार्ड?', options: undefined },
+      q2: { question: 'कुल देखभाल', options: undefined },
+    });
+  });
+
+  it('should fail on text that is not JSON', () => {
+    expect(parseTranslationResponse('Sorry, I cannot help', questions).success).toBe(false);
+  });
+});
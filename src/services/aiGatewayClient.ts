@@ -0,0 +1,132 @@
+// AI Gateway Client
+// Browser side of the AI gateway: every AI call goes through /api/ai so provider keys stay on the server
+
+import { getAuthToken } from '../lib/supabase';
+import { useNABHStore } from '../store/nabhStore';
+import { generateStubResponse, splitServerSentEvents, toGeminiShape } from './aiGatewayEngine';
+import type {
+  AIFeature,
+  AIGatewayRequest,
+  AIGatewayResponse,
+  AIGatewayStatus,
+  AIImageInput,
+  AIStreamEvent,
+} from '../types/aiGateway';
+
+const AI_GATEWAY_URL = '/api/ai';
+
+type AIStubResponder = (request: AIGatewayRequest) => string | undefined;
+
+let stubResponder: AIStubResponder | null = null;
+
+/**
+ * Answer every AI call offline. Tests pass a responder to control the text per request;
+ * VITE_AI_PROVIDER=stub does the same for local runs without keys.
+ */
+export function setAIStubResponder(responder: AIStubResponder | null): void {
+  stubResponder = responder;
+}
+
+const isLocalStub = () => !!stubResponder || import.meta.env.VITE_AI_PROVIDER === 'stub';
+
+async function readStream(response: Response, onDelta: (text: string) => void): Promise<AIGatewayResponse> {
+  if (!response.body) throw new Error('AI gateway returned an empty stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const { payloads, rest } = splitServerSentEvents(buffer);
+    buffer = rest;
+    for (const payload of payloads) {
+      const event = JSON.parse(payload) as AIStreamEvent;
+      if (event.type === 'delta') onDelta(event.text);
+      if (event.type === 'error') throw new Error(event.error);
+      if (event.type === 'done') return event.response;
+    }
+  }
+  throw new Error('AI gateway stream ended without a response');
+}
+
+/**
+ * Run a request through the gateway. With onDelta the response is streamed and text is
+ * passed on as it arrives; the full response is returned either way. Throws on failure.
+ */
+export async function generateAI(
+  request: AIGatewayRequest,
+  onDelta?: (text: string) => void
+): Promise<AIGatewayResponse> {
+  const body: AIGatewayRequest = {
+    ...request,
+    stream: !!onDelta,
+    hospitalId: request.hospitalId ?? useNABHStore.getState().selectedHospital,
+  };
+
+  if (isLocalStub()) {
+    const response = generateStubResponse(body, stubResponder?.(body));
+    onDelta?.(response.text);
+    return response;
+  }
+
+  const response = await fetch(AI_GATEWAY_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${await getAuthToken()}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `AI gateway error: ${response.status}`);
+  }
+
+  return onDelta ? readStream(response, onDelta) : response.json();
+}
+
+/**
+ * Which providers the server has keys for, and the model used per feature
+ */
+export async function loadAIGatewayStatus(): Promise<{ success: boolean; data?: AIGatewayStatus; error?: string }> {
+  if (isLocalStub()) {
+    return { success: true, data: { providers: { anthropic: false, gemini: false, stub: true }, routes: {} as AIGatewayStatus['routes'] } };
+  }
+  try {
+    const response = await fetch(AI_GATEWAY_URL);
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading AI gateway status:', response.status, errorText);
+      return { success: false, error: errorText };
+    }
+    return { success: true, data: await response.json() };
+  } catch (error) {
+    console.error('Error loading AI gateway status:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+// Text generation in the Gemini response shape (data.candidates[0].content.parts[0].text)
+export const callGeminiAPI = async (
+  prompt: string,
+  temperature = 0.7,
+  maxOutputTokens = 8192,
+  feature: AIFeature = 'general'
+) => {
+  const response = await generateAI({ feature, prompt, temperature, maxTokens: maxOutputTokens });
+  return toGeminiShape(response);
+};
+
+// Text generation from an image, in the Gemini response shape
+export const callGeminiVisionAPI = async (
+  prompt: string,
+  imageData: AIImageInput,
+  temperature = 0.7,
+  maxOutputTokens = 8192,
+  feature: AIFeature = 'document-vision'
+) => {
+  const response = await generateAI({ feature, prompt, images: [imageData], temperature, maxTokens: maxOutputTokens });
+  return toGeminiShape(response);
+};
@@ -0,0 +1,327 @@
+// AI Gateway Engine
+// Provider-neutral logic shared by the server gateway (api/ai.ts) and the browser client:
+// per-feature model routes, request / response mapping for Anthropic and Gemini, stream
+// parsing, the offline stub provider, rate limiting and cost accounting.
+// Must stay free of fetch, env access and browser APIs so both sides can import it.
+
+import type {
+  AIFeature,
+  AIFeatureRoute,
+  AIGatewayLogEntry,
+  AIGatewayRequest,
+  AIGatewayResponse,
+  AIImageOutput,
+  AIModelChoice,
+  AIProviderName,
+  AIUsage,
+  AIUsageSummaryRow,
+  GeminiShapedResponse,
+} from '../types/aiGateway';
+
+const CLAUDE_SONNET = 'claude-3-5-sonnet-20241022';
+const GEMINI_FLASH = 'gemini-2.0-flash';
+
+export const STUB_MODEL = 'stub-echo';
+
+export const AI_FEATURE_ROUTES: Record<AIFeature, AIFeatureRoute> = {
+  'general': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 8192 },
+  'evidence-generation': { provider: 'gemini', model: GEMINI_FLASH, fallback: { provider: 'anthropic', model: CLAUDE_SONNET }, maxTokens: 8192 },
+  'evidence-list': { provider: 'gemini', model: GEMINI_FLASH, fallback: { provider: 'anthropic', model: CLAUDE_SONNET }, maxTokens: 4096 },
+  'objective-assist': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 8192 },
+  'hindi-explanation': { provider: 'anthropic', model: CLAUDE_SONNET, maxTokens: 1024 },
+  'sop-generation': { provider: 'anthropic', model: CLAUDE_SONNET, fallback: { provider: 'gemini', model: GEMINI_FLASH }, maxTokens: 8192 },
+  'sop-improvement': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 16384 },
+  'training-documents': { provider: 'anthropic', model: CLAUDE_SONNET, fallback: { provider: 'gemini', model: GEMINI_FLASH }, maxTokens: 8192 },
+  'infographic': { provider: 'gemini', model: GEMINI_FLASH, fallback: { provider: 'anthropic', model: CLAUDE_SONNET }, maxTokens: 4096 },
+  'slide-deck': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 1024 },
+  'kpi-assistant': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 4096 },
+  'survey-translation': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 8192 },
+  'mou-renewal-draft': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 8192 },
+  'document-extraction': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 16384 },
+  'document-vision': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 32768 },
+  'signage-svg': { provider: 'gemini', model: GEMINI_FLASH, maxTokens: 4096 },
+  'signage-image': { provider: 'gemini', model: 'gemini-3-pro-image-preview', fallback: { provider: 'gemini', model: 'gemini-2.5-flash-image' }, maxTokens: 8192 },
+};
+
+// USD per million input / output tokens
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [CLAUDE_SONNET]: { input: 3, output: 15 },
+  [GEMINI_FLASH]: { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+  [STUB_MODEL]: { input: 0, output: 0 },
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// 1x1 transparent PNG returned by the stub for image features
+const STUB_IMAGE = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export function isAIFeature(value: unknown): value is AIFeature {
+  return typeof value === 'string' && value in AI_FEATURE_ROUTES;
+}
+
+/**
+ * Route for a feature after server overrides (AI_FEATURE_MODELS). With the stub provider
+ * forced, every feature is answered offline.
+ */
+export function resolveFeatureRoute(
+  feature: AIFeature,
+  overrides: Partial<Record<AIFeature, Partial<AIFeatureRoute>>> = {},
+  forceStub = false
+): AIFeatureRoute {
+  const route = { ...AI_FEATURE_ROUTES[feature], ...overrides[feature] };
+  if (forceStub) return { provider: 'stub', model: STUB_MODEL, maxTokens: route.maxTokens };
+  return route;
+}
+
+/**
+ * Model choices to try in order, skipping providers without a configured key
+ */
+export function getModelAttempts(route: AIFeatureRoute, configured: Record<AIProviderName, boolean>): AIModelChoice[] {
+  const attempts: AIModelChoice[] = [{ provider: route.provider, model: route.model }];
+  if (route.fallback) attempts.push(route.fallback);
+  return attempts.filter(choice => configured[choice.provider]);
+}
+
+export function estimateCostUsd(model: string, usage: AIUsage): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  const cost = (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Sliding-window rate limit: keeps the request timestamps inside the window and allows
+ * the request when fewer than `limit` remain
+ */
+export function checkRateLimit(
+  timestamps: number[],
+  now: number,
+  limit: number,
+  windowMs: number
+): { allowed: boolean; timestamps: number[]; retryAfterMs: number } {
+  const recent = timestamps.filter(t => now - t < windowMs);
+  if (recent.length >= limit) {
+    return { allowed: false, timestamps: recent, retryAfterMs: windowMs - (now - recent[0]) };
+  }
+  return { allowed: true, timestamps: [...recent, now], retryAfterMs: 0 };
+}
+
+/**
+ * Output token budget: callers may ask for less than the feature's route allows, never more
+ */
+export function resolveMaxTokens(requested: number | undefined, route: AIFeatureRoute): number {
+  if (!requested || !Number.isFinite(requested) || requested <= 0) return route.maxTokens;
+  return Math.min(Math.floor(requested), route.maxTokens);
+}
+
+/**
+ * Hospital a request is accounted to. A user bound to a hospital can only use that one;
+ * a user without one (NULL = every hospital) may name any known hospital.
+ */
+export function resolveRequestHospital(
+  requested: string | undefined,
+  userHospitalId: string | null,
+  knownHospitalIds: string[]
+): { allowed: boolean; hospitalId: string | null } {
+  if (userHospitalId) {
+    return { allowed: !requested || requested === userHospitalId, hospitalId: userHospitalId };
+  }
+  return { allowed: true, hospitalId: requested && knownHospitalIds.includes(requested) ? requested : null };
+}
+
+// ============================================
+// Anthropic
+// ============================================
+
+export function buildAnthropicHeaders(apiKey: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+}
+
+export function buildAnthropicBody(request: AIGatewayRequest, model: string, maxTokens: number) {
+  const content = request.images?.length
+    ? [
+        ...request.images.map(image => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mime_type, data: image.data },
+        })),
+        { type: 'text', text: request.prompt },
+      ]
+    : request.prompt;
+
+  return {
+    model,
+    max_tokens: maxTokens,
+    messages: [{ role: 'user', content }],
+    ...(request.system ? { system: request.system } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.stream ? { stream: true } : {}),
+  };
+}
+
+export function parseAnthropicResponse(data: {
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}): { text: string; images: AIImageOutput[]; usage: AIUsage } {
+  return {
+    text: (data.content || []).filter(block => block.type === 'text').map(block => block.text || '').join(''),
+    images: [],
+    usage: { inputTokens: data.usage?.input_tokens || 0, outputTokens: data.usage?.output_tokens || 0 },
+  };
+}
+
+/**
+ * One event of an Anthropic message stream: text deltas and the token counts reported
+ * in message_start / message_delta
+ */
+export function parseAnthropicStreamEvent(payload: string): { text: string; usage: Partial<AIUsage> } {
+  try {
+    const event = JSON.parse(payload);
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return { text: event.delta.text || '', usage: {} };
+    }
+    if (event.type === 'message_start') {
+      return { text: '', usage: { inputTokens: event.message?.usage?.input_tokens || 0 } };
+    }
+    if (event.type === 'message_delta') {
+      return { text: '', usage: { outputTokens: event.usage?.output_tokens || 0 } };
+    }
+  } catch {
+    // keep-alive or malformed event
+  }
+  return { text: '', usage: {} };
+}
+
+// ============================================
+// Gemini
+// ============================================
+
+export function buildGeminiBody(request: AIGatewayRequest, maxTokens: number) {
+  return {
+    contents: [{
+      parts: [
+        { text: request.prompt },
+        ...(request.images || []).map(image => ({ inline_data: image })),
+      ],
+    }],
+    ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+    generationConfig: request.outputImages
+      ? { responseModalities: ['IMAGE', 'TEXT'] }
+      : {
+          maxOutputTokens: maxTokens,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        },
+  };
+}
+
+export function parseGeminiResponse(data: {
+  candidates?: { content?: { parts?: { text?: string; inlineData?: { mimeType: string; data: string } }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}): { text: string; images: AIImageOutput[]; usage: AIUsage } {
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  return {
+    text: parts.map(part => part.text || '').join(''),
+    images: parts
+      .filter(part => part.inlineData?.mimeType?.startsWith('image/'))
+      .map(part => ({ mimeType: part.inlineData!.mimeType, data: part.inlineData!.data })),
+    usage: {
+      inputTokens: data.usageMetadata?.promptTokenCount || 0,
+      outputTokens: data.usageMetadata?.candidatesTokenCount || 0,
+    },
+  };
+}
+
+/**
+ * Gemini-shaped body for callers written against generateContent
+ * (data.candidates[0].content.parts[0].text)
+ */
+export function toGeminiShape(response: AIGatewayResponse): GeminiShapedResponse {
+  return {
+    candidates: [{
+      content: {
+        parts: [
+          { text: response.text },
+          ...response.images.map(image => ({ inlineData: image })),
+        ],
+      },
+    }],
+    usageMetadata: { promptTokenCount: response.usage.inputTokens, candidatesTokenCount: response.usage.outputTokens },
+    modelVersion: response.model,
+  };
+}
+
+// ============================================
+// Streams
+// ============================================
+
+/**
+ * Split buffered server-sent events into complete data payloads and the unfinished rest
+ */
+export function splitServerSentEvents(buffer: string): { payloads: string[]; rest: string } {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() || '';
+  const payloads = blocks
+    .map(block => block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n'))
+    .filter(payload => payload && payload !== '[DONE]');
+  return { payloads, rest };
+}
+
+// ============================================
+// Stub provider
+// ============================================
+
+/**
+ * Deterministic offline answer. Tests can pass their own text for a request; otherwise
+ * the stub echoes the feature and the start of the prompt.
+ */
+export function generateStubResponse(request: AIGatewayRequest, text?: string): AIGatewayResponse {
+  const output = text ?? `[stub:${request.feature}] ${request.prompt.slice(0, 200)}`;
+  return {
+    text: output,
+    images: request.outputImages ? [{ mimeType: 'image/png', data: STUB_IMAGE }] : [],
+    provider: 'stub',
+    model: STUB_MODEL,
+    usage: { inputTokens: Math.ceil(request.prompt.length / 4), outputTokens: Math.ceil(output.length / 4) },
+    costUsd: 0,
+  };
+}
+
+// ============================================
+// Accounting
+// ============================================
+
+export function truncateForLog(text: string, maxLength = 2000): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * Requests, errors, tokens and cost grouped by feature or hospital, most expensive first
+ */
+export function summarizeAIUsage(
+  logs: Pick<AIGatewayLogEntry, 'feature' | 'hospital_id' | 'status' | 'input_tokens' | 'output_tokens' | 'cost_usd'>[],
+  groupBy: 'feature' | 'hospital_id'
+): AIUsageSummaryRow[] {
+  const rows = new Map<string, AIUsageSummaryRow>();
+  for (const log of logs) {
+    const key = log[groupBy] || 'unassigned';
+    const row = rows.get(key) || { key, requests: 0, errors: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    row.requests += 1;
+    if (log.status !== 'success') row.errors += 1;
+    row.inputTokens += log.input_tokens;
+    row.outputTokens += log.output_tokens;
+    row.costUsd += Number(log.cost_usd);
+    rows.set(key, row);
+  }
+  return [...rows.values()]
+    .map(row => ({ ...row, costUsd: Math.round(row.costUsd * 10000) / 10000 }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests);
+}
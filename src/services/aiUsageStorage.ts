@@ -0,0 +1,55 @@
+// AI Usage Storage Service for Supabase
+// Reads the ai_gateway_requests log written by the AI gateway
+
+import { getAuthToken } from '../lib/supabase';
+import type { AIGatewayLogEntry } from '../types/aiGateway';
+import { getAuditDateBounds } from './auditLogEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const DEFAULT_LIMIT = 5000;
+
+// ai_gateway_requests is only readable by coordinators
+const headers = async (): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+});
+
+/**
+ * Load gateway requests, newest first; an empty hospitalId loads every hospital
+ */
+export async function loadAIUsage(
+  hospitalId?: string,
+  from?: string,
+  to?: string
+): Promise<{ success: boolean; data?: AIGatewayLogEntry[]; error?: string }> {
+  try {
+    const params = new URLSearchParams();
+    params.append('order', 'created_at.desc');
+    params.append('limit', String(DEFAULT_LIMIT));
+    if (hospitalId) params.append('hospital_id', `eq.${hospitalId}`);
+    const bounds = getAuditDateBounds(from, to);
+    if (bounds.gte) params.append('created_at', `gte.${bounds.gte}`);
+    if (bounds.lt) params.append('created_at', `lt.${bounds.lt}`);
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/ai_gateway_requests?${params.toString()}`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading AI usage:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as AIGatewayLogEntry[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading AI usage:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
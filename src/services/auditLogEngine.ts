@@ -0,0 +1,118 @@
+// Audit Log Engine
+// Labels for audited tables, before / after diffs and the query bounds for the
+// audit log viewer filters
+
+import type { AuditAction, AuditFieldChange, AuditLogEntry } from '../types/audit';
+
+// Tables carrying the audit trigger (see 20261019_create_audit_log.sql and the register migrations)
+export const AUDITED_ENTITIES: Record<string, string> = {
+  nabh_chapters: 'NABH Chapter',
+  nabh_standards: 'NABH Standard',
+  nabh_objective_elements: 'Objective Element',
+  nabh_objective_edits: 'Objective Edit',
+  nabh_ai_generated_evidence: 'Generated Evidence',
+  nabh_patients: 'Patient',
+  nabh_generated_sops: 'Generated SOP',
+  nabh_sop_documents: 'SOP Document',
+  nabh_sop_approval_events: 'SOP Sign-off',
+  nabh_sop_revisions: 'SOP Revision',
+  nabh_kpi_graphs: 'KPI Graph',
+  nabh_kpi_measurements: 'KPI Measurement',
+  nabh_kpi_breaches: 'KPI Breach',
+  nabh_non_conformities: 'Non-Conformity',
+  nabh_document_registry: 'Document Registry Entry',
+  nabh_document_reviews: 'Document Review',
+  nabh_mock_assessments: 'Mock Assessment',
+  stationery: 'Stationery',
+  stationery_items: 'Stationery Item',
+  nabh_team_members: 'Employee',
+  visiting_consultants: 'Visiting Consultant',
+  departments: 'Department',
+  committees: 'Committee',
+  committee_members: 'Committee Member',
+  committee_meetings: 'Committee Meeting',
+  committee_action_items: 'Committee Action Point',
+  surveys: 'Survey',
+  survey_questions: 'Survey Question',
+  licenses: 'License',
+  license_renewals: 'License Renewal',
+  mous: 'MOU',
+  mou_documents: 'MOU Document',
+  mou_obligations: 'MOU Obligation',
+  mou_reviews: 'MOU Review',
+  mou_renewal_drafts: 'MOU Renewal Draft',
+  equipment_service_schedules: 'Equipment Service Schedule',
+  equipment_job_cards: 'Equipment Job Card',
+  equipment_breakdowns: 'Equipment Breakdown',
+  hospital_programs: 'Hospital Program',
+  clinical_audits: 'Clinical Audit',
+  clinical_audit_samples: 'Clinical Audit Sample',
+  patient_samples: 'Patient Sample',
+  hospital_manuals: 'Hospital Manual',
+  app_users: 'User',
+  prompt_templates: 'Prompt Template',
+  prompt_versions: 'Prompt Version',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+// Long documents (generated HTML, SOP text) are cut in the diff view
+const MAX_VALUE_LENGTH = 300;
+
+// Columns that say nothing about what the user changed
+const IGNORED_FIELDS = ['created_at', 'updated_at'];
+
+export function getEntityLabel(entityType: string): string {
+  return AUDITED_ENTITIES[entityType] || entityType;
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}… (${text.length} characters)` : text;
+}
+
+/**
+ * Field-level changes of an entry: the changed columns of an update, every column
+ * of a created or deleted row
+ */
+export function getAuditFieldChanges(entry: AuditLogEntry): AuditFieldChange[] {
+  const before = entry.before_values || {};
+  const after = entry.after_values || {};
+  const fields = entry.action === 'UPDATE'
+    ? entry.changed_fields
+    : Object.keys(entry.action === 'INSERT' ? after : before).sort();
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .map(field => ({
+      field,
+      before: entry.action === 'INSERT' ? '—' : formatAuditValue(before[field]),
+      after: entry.action === 'DELETE' ? '—' : formatAuditValue(after[field]),
+    }));
+}
+
+export function describeAuditEntry(entry: AuditLogEntry): string {
+  const label = getEntityLabel(entry.entity_type);
+  const fields = entry.action === 'UPDATE' ? ` (${entry.changed_fields.join(', ')})` : '';
+  return `${AUDIT_ACTION_LABELS[entry.action]} ${label}${fields}`;
+}
+
+/**
+ * Timestamp bounds for a from / to date filter; the "to" date is inclusive so the
+ * upper bound is the start of the following day
+ */
+export function getAuditDateBounds(from?: string, to?: string): { gte?: string; lt?: string } {
+  const bounds: { gte?: string; lt?: string } = {};
+  if (from) bounds.gte = new Date(`${from}T00:00:00`).toISOString();
+  if (to) {
+    const end = new Date(`${to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    bounds.lt = end.toISOString();
+  }
+  return bounds;
+}
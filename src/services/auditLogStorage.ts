@@ -0,0 +1,81 @@
+// Audit Log Storage Service for Supabase
+// Reads the trigger-written audit_log and runs the hash chain verification
+
+import { getAuthToken } from '../lib/supabase';
+import type { AuditChainVerification, AuditLogEntry, AuditLogFilters } from '../types/audit';
+import { getAuditDateBounds } from './auditLogEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const DEFAULT_LIMIT = 500;
+
+// audit_log is only readable by signed-in users
+const headers = async (): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+});
+
+/**
+ * Load audit entries, newest first
+ */
+export async function loadAuditLog(
+  filters: AuditLogFilters = {}
+): Promise<{ success: boolean; data?: AuditLogEntry[]; error?: string }> {
+  try {
+    const params = new URLSearchParams();
+    params.append('order', 'id.desc');
+    params.append('limit', String(filters.limit || DEFAULT_LIMIT));
+    if (filters.entityType) params.append('entity_type', `eq.${filters.entityType}`);
+    if (filters.entityId) params.append('entity_id', `eq.${filters.entityId}`);
+    if (filters.actorId === null) params.append('actor_id', 'is.null');
+    else if (filters.actorId) params.append('actor_id', `eq.${filters.actorId}`);
+    const bounds = getAuditDateBounds(filters.from, filters.to);
+    if (bounds.gte) params.append('occurred_at', `gte.${bounds.gte}`);
+    if (bounds.lt) params.append('occurred_at', `lt.${bounds.lt}`);
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/audit_log?${params.toString()}`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading audit log:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as AuditLogEntry[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading audit log:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Recompute the whole hash chain on the server
+ */
+export async function verifyAuditChain(): Promise<{ success: boolean; data?: AuditChainVerification; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/verify_audit_chain`,
+      { method: 'POST', headers: await headers(), body: '{}' }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error verifying audit chain:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as AuditChainVerification };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error verifying audit chain:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,187 @@
+// Auth Storage Service for Supabase
+// Sign-in through Supabase Auth and the app_users table holding each login's role
+
+import { supabase, getAuthToken } from '../lib/supabase';
+import type { AppUser, AppUserUpdate, EmployeeOption } from '../types/auth';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// app_users rows are only visible / writable with the user's own token
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Sign in with email and password
+ */
+export async function signIn(email: string, password: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) {
+    console.error('Error signing in:', error.message);
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
+
+/**
+ * Create a login. The account stays pending until a coordinator activates it.
+ */
+export async function signUp(name: string, email: string, password: string): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase.auth.signUp({
+    email: email.trim(),
+    password,
+    options: { data: { name: name.trim() } },
+  });
+  if (error) {
+    console.error('Error signing up:', error.message);
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) console.error('Error signing out:', error.message);
+}
+
+/**
+ * Load the app user of the current session, creating the row on first sign-in. New rows
+ * get the default staff role; a coordinator assigns roles and team member links.
+ * Returns null data when signed out.
+ */
+export async function loadCurrentAppUser(): Promise<{ success: boolean; data?: AppUser | null; error?: string }> {
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    const authUser = userData.user;
+    if (!authUser) return { success: true, data: null };
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/app_users?id=eq.${authUser.id}`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading app user:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const rows = await response.json();
+    if (rows.length > 0) return { success: true, data: rows[0] as AppUser };
+
+    const name = (authUser.user_metadata?.name as string | undefined) || authUser.email || 'User';
+    const createResponse = await fetch(
+      `${SUPABASE_URL}/rest/v1/app_users`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({
+          id: authUser.id,
+          email: authUser.email,
+          name,
+        }),
+      }
+    );
+
+    if (!createResponse.ok) {
+      const errorText = await createResponse.text();
+      console.error('Error creating app user:', createResponse.status, errorText);
+      return { success: false, error: `${createResponse.status}: ${errorText}` };
+    }
+
+    const created = await createResponse.json();
+    return { success: true, data: created[0] as AppUser };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading app user:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load every login (user management)
+ */
+export async function loadAppUsers(): Promise<{ success: boolean; data?: AppUser[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/app_users?order=is_active.asc,name.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading app users:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as AppUser[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading app users:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Change a login's role, team member / employee link or activation. Only coordinators
+ * pass the row level security check.
+ */
+export async function updateAppUser(
+  id: string,
+  updates: AppUserUpdate
+): Promise<{ success: boolean; data?: AppUser; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/app_users?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating app user:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    if (data.length === 0) return { success: false, error: 'Not allowed to update this user' };
+    return { success: true, data: data[0] as AppUser };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating app user:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Active employees from the employees master, for linking a login to an employee
+ */
+export async function loadEmployeeOptions(): Promise<{ success: boolean; data?: EmployeeOption[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_team_members?is_active=eq.true&select=id,name,designation,department,role&order=name.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading employees:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EmployeeOption[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading employees:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
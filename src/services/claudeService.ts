@@ -1,7 +1,8 @@
+import { generateAI } from './aiGatewayClient';
 import type { InfographicConfig } from './infographicGenerator';
 
 /**
- * Generate SVG infographic using Claude API via backend proxy
+ * Generate SVG infographic through the AI gateway
  * This keeps the API key secure on the server side
  */
 export const generateClaudeInfographic = async (config: InfographicConfig): Promise<string> => {
@@ -36,31 +37,7 @@ export const generateClaudeInfographic = async (config: InfographicConfig): Prom
   `;
 
   try {
-    // Use backend proxy in production, fallback to direct API in development if proxy fails
-    const backendUrl = import.meta.env.VITE_SITE_URL
-      ? `${import.meta.env.VITE_SITE_URL}/api/generate-infographic`
-      : '/api/generate-infographic';
-
-    const response = await fetch(backendUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        prompt,
-        model: 'claude-3-5-sonnet-20241022',
-        maxTokens: 4096,
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Claude API error: ${error.error || response.statusText}`);
-    }
-
-    const data = await response.json();
-    const text = data.content[0].text;
+    const { text } = await generateAI({ feature: 'infographic', prompt, temperature: 0.7, maxTokens: 4096 });
 
     // Extract SVG
     const svgStart = text.indexOf('<svg');
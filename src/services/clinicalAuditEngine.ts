@@ -0,0 +1,128 @@
+// Clinical Audit Engine
+// Compliance per criterion and overall from sample checklists, and re-audit comparison
+
+import type {
+  ClinicalAudit,
+  ClinicalAuditAnswer,
+  ClinicalAuditCriterionChange,
+  ClinicalAuditResult,
+  ClinicalAuditSample,
+} from '../types/clinicalAudit';
+
+export const CLINICAL_AUDIT_ANSWERS: ClinicalAuditAnswer[] = ['Yes', 'No', 'NA'];
+
+const percent = (yes: number, applicable: number) =>
+  applicable > 0 ? Math.round((yes / applicable) * 1000) / 10 : null;
+
+/**
+ * A sample is reviewed once every criterion has an answer
+ */
+export const isSampleComplete = (criteria: string[], sample: Pick<ClinicalAuditSample, 'answers'>): boolean =>
+  criteria.length > 0 && criteria.every(c => !!sample.answers[c]);
+
+/**
+ * Compliance = Yes / (Yes + No), per criterion and pooled over all criteria.
+ * NA answers are excluded; unanswered criteria are not counted.
+ */
+export function computeAuditCompliance(
+  criteria: string[],
+  samples: Pick<ClinicalAuditSample, 'answers'>[]
+): ClinicalAuditResult {
+  let totalYes = 0;
+  let totalApplicable = 0;
+
+  const results = criteria.map(criterion => {
+    const answers = samples.map(s => s.answers[criterion]);
+    const yes = answers.filter(a => a === 'Yes').length;
+    const no = answers.filter(a => a === 'No').length;
+    const na = answers.filter(a => a === 'NA').length;
+    totalYes += yes;
+    totalApplicable += yes + no;
+    return { criterion, yes, no, na, compliance: percent(yes, yes + no) };
+  });
+
+  return {
+    criteria: results,
+    overall: percent(totalYes, totalApplicable),
+    samplesReviewed: samples.filter(s => isSampleComplete(criteria, s)).length,
+    samplesRecorded: samples.length,
+  };
+}
+
+/**
+ * Criteria that failed in the audit (compliance below target), worst first
+ */
+export function getNonCompliantCriteria(result: ClinicalAuditResult, target = 100): string[] {
+  return result.criteria
+    .filter(c => c.compliance !== null && c.compliance < target)
+    .sort((a, b) => (a.compliance ?? 0) - (b.compliance ?? 0))
+    .map(c => c.criterion);
+}
+
+/**
+ * Per-criterion change from the original audit to the re-audit
+ */
+export function compareAuditResults(
+  original: ClinicalAuditResult,
+  reAudit: ClinicalAuditResult
+): ClinicalAuditCriterionChange[] {
+  return reAudit.criteria.map(after => {
+    const before = original.criteria.find(c => c.criterion === after.criterion)?.compliance ?? null;
+    return {
+      criterion: after.criterion,
+      before,
+      after: after.compliance,
+      change: before !== null && after.compliance !== null ? Math.round((after.compliance - before) * 10) / 10 : null,
+    };
+  });
+}
+
+/**
+ * The audit cycle an audit belongs to: the original audit followed by its
+ * re-audits (and their re-audits) in date order
+ */
+export function getAuditCycle<T extends Pick<ClinicalAudit, 'id' | 'reAuditOf' | 'startDate'>>(audits: T[], audit: T): T[] {
+  const byId = new Map(audits.map(a => [a.id, a]));
+  let root = audit;
+  const seen = new Set<string>([root.id]);
+  while (root.reAuditOf && byId.has(root.reAuditOf) && !seen.has(root.reAuditOf)) {
+    root = byId.get(root.reAuditOf)!;
+    seen.add(root.id);
+  }
+
+  const cycle = [root];
+  for (let i = 0; i < cycle.length; i++) {
+    audits
+      .filter(a => a.reAuditOf === cycle[i].id && !cycle.includes(a))
+      .forEach(a => cycle.push(a));
+  }
+  return [root, ...cycle.slice(1).sort((a, b) => a.startDate.localeCompare(b.startDate))];
+}
+
+/**
+ * New audit for the next cycle: same checklist, linked to the audit it follows up
+ */
+export function buildReAudit(audit: ClinicalAudit, startDate: string): Omit<ClinicalAudit, 'id' | 'createdAt' | 'lastUpdated'> {
+  return {
+    title: `Re-audit: ${audit.title.replace(/^Re-audit: /, '')}`,
+    description: audit.description,
+    category: audit.category,
+    auditType: audit.auditType,
+    department: audit.department,
+    auditor: audit.auditor,
+    startDate,
+    status: 'Planned',
+    frequency: audit.frequency,
+    criteria: [...audit.criteria],
+    findings: [],
+    recommendations: [],
+    actionItems: [],
+    compliance: 0,
+    samplesReviewed: 0,
+    totalSamples: audit.totalSamples,
+    nabhStandard: audit.nabhStandard,
+    priority: audit.priority,
+    reAuditOf: audit.id,
+    documentsLink: '',
+  };
+}
@@ -0,0 +1,168 @@
+// Clinical Audit Storage Service for Supabase
+// Sample-level checklists of clinical audits and the compliance computed from them
+
+import { getAuthToken } from '../lib/supabase';
+import type { ClinicalAuditResult, ClinicalAuditSample, ClinicalAuditSampleInput } from '../types/clinicalAudit';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Load the samples recorded for one or more audits (oldest first)
+ */
+export async function loadClinicalAuditSamples(
+  auditIds: string[]
+): Promise<{ success: boolean; data?: ClinicalAuditSample[]; error?: string }> {
+  if (auditIds.length === 0) return { success: true, data: [] };
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/clinical_audit_samples?audit_id=in.(${auditIds.map(encodeURIComponent).join(',')})&order=created_at.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading clinical audit samples:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as ClinicalAuditSample[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading clinical audit samples:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create samples picked for an audit. A file already in the audit is left as is.
+ */
+export async function createClinicalAuditSamples(
+  samples: ClinicalAuditSampleInput[]
+): Promise<{ success: boolean; data?: ClinicalAuditSample[]; error?: string }> {
+  if (samples.length === 0) return { success: true, data: [] };
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/clinical_audit_samples?on_conflict=audit_id,visit_id`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation,resolution=ignore-duplicates'),
+        body: JSON.stringify(samples),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating clinical audit samples:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as ClinicalAuditSample[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating clinical audit samples:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save the checklist answers and remarks of a sample
+ */
+export async function updateClinicalAuditSample(
+  id: string,
+  updates: Partial<ClinicalAuditSampleInput>
+): Promise<{ success: boolean; data?: ClinicalAuditSample; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/clinical_audit_samples?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating clinical audit sample:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as ClinicalAuditSample };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating clinical audit sample:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Remove a sample from an audit
+ */
+export async function deleteClinicalAuditSample(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/clinical_audit_samples?id=eq.${id}`,
+      { method: 'DELETE', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error deleting clinical audit sample:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error deleting clinical audit sample:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Store the computed compliance and reviewed sample count on the audit
+ */
+export async function saveClinicalAuditCompliance(
+  auditId: string,
+  result: ClinicalAuditResult
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/clinical_audits?id=eq.${auditId}`,
+      {
+        method: 'PATCH',
+        headers: await headers(),
+        body: JSON.stringify({
+          compliance: Math.round(result.overall ?? 0),
+          samples_reviewed: result.samplesReviewed,
+          updated_at: new Date().toISOString(),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving clinical audit compliance:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving clinical audit compliance:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
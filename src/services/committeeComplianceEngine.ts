@@ -0,0 +1,289 @@
+// Committee Compliance Engine
+// Meetings held vs required by frequency, quorum per meeting, missed meetings,
+// yearly meeting calendar and per-committee compliance certificate
+
+import type { HospitalInfo } from '../config/hospitalConfig';
+import type {
+  Committee,
+  CommitteeCompliance,
+  CommitteeComplianceStatus,
+  CommitteeMeetingFrequency,
+  CommitteeMeetingPeriod,
+  Meeting,
+} from '../types/committee';
+import { getQuorum } from './committeeMinutesEngine';
+
+export const COMMITTEE_COMPLIANCE_COLORS: Record<CommitteeComplianceStatus, 'success' | 'warning' | 'error'> = {
+  'Compliant': 'success',
+  'At Risk': 'warning',
+  'Non-Compliant': 'error',
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toISODate(d);
+};
+
+const monthEnd = (year: number, month: number) => toISODate(new Date(Date.UTC(year, month + 1, 0)));
+
+const monthStart = (year: number, month: number) => `${year}-${String(month + 1).padStart(2, '0')}-01`;
+
+/**
+ * Fixed-length blocks from 1 January; the remainder days join the last block
+ * so a year has 52 weeks or 26 fortnights
+ */
+function dayBlocks(year: number, days: number, label: string): Omit<CommitteeMeetingPeriod, 'meetings' | 'quorate' | 'elapsed' | 'missed'>[] {
+  const count = Math.floor(365 / days);
+  return Array.from({ length: count }, (_, i) => ({
+    label: `${label} ${i + 1}`,
+    start: addDays(`${year}-01-01`, i * days),
+    end: i === count - 1 ? `${year}-12-31` : addDays(`${year}-01-01`, (i + 1) * days - 1),
+  }));
+}
+
+function monthBlocks(year: number, months: number, label: (i: number) => string) {
+  return Array.from({ length: 12 / months }, (_, i) => ({
+    label: label(i),
+    start: monthStart(year, i * months),
+    end: monthEnd(year, (i + 1) * months - 1),
+  }));
+}
+
+/**
+ * Meeting slots of a frequency within a calendar year
+ */
+export function getFrequencyPeriods(frequency: CommitteeMeetingFrequency, year: number) {
+  switch (frequency) {
+    case 'Weekly':
+      return dayBlocks(year, 7, 'Week');
+    case 'Bi-weekly':
+      return dayBlocks(year, 14, 'Fortnight');
+    case 'Quarterly':
+      return monthBlocks(year, 3, i => `Q${i + 1} (${MONTHS[i * 3]}-${MONTHS[i * 3 + 2]})`);
+    case 'Half-yearly':
+      return monthBlocks(year, 6, i => `H${i + 1} (${MONTHS[i * 6]}-${MONTHS[i * 6 + 5]})`);
+    case 'Yearly':
+      return monthBlocks(year, 12, () => String(year));
+    case 'Monthly':
+    default:
+      return monthBlocks(year, 1, i => MONTHS[i]);
+  }
+}
+
+export const isMeetingQuorate = (committee: Pick<Committee, 'chairperson' | 'members'>, meeting: Pick<Meeting, 'attendees'>) =>
+  getQuorum(committee, meeting.attendees).met;
+
+/**
+ * Compliance of a committee for a year, as of today. A period counts as held
+ * only if one of its meetings met quorum; the current period is not missed yet.
+ * Falling below the committee's minimum meetings (pro-rated to date) is
+ * non-compliant, a missed period or an inquorate meeting puts it at risk.
+ */
+export function getCommitteeCompliance(
+  committee: Committee,
+  year: number,
+  today: Date = new Date()
+): CommitteeCompliance {
+  const todayISO = toISODate(today);
+  const yearMeetings = committee.meetings
+    .filter(m => m.date.startsWith(`${year}-`))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const periods: CommitteeMeetingPeriod[] = getFrequencyPeriods(committee.meetingFrequency, year).map(period => {
+    const meetings = yearMeetings.filter(m => m.date.split('T')[0] >= period.start && m.date.split('T')[0] <= period.end);
+    const quorate = meetings.some(m => isMeetingQuorate(committee, m));
+    const elapsed = period.end < todayISO;
+    return { ...period, meetings, quorate, elapsed, missed: elapsed && !quorate };
+  });
+
+  const elapsedPeriods = periods.filter(p => p.elapsed);
+  // Periods held with quorum; a second quorate meeting in a period does not make up for another
+  const quorateThisYear = periods.filter(p => p.quorate).length;
+
+  // Current quarter for the current year; Q4 for a past year, Q1 for a future one
+  const currentYear = Number(todayISO.slice(0, 4));
+  const quarter = year === currentYear ? Math.floor((Number(todayISO.slice(5, 7)) - 1) / 3) : year < currentYear ? 3 : 0;
+  const quarterStart = monthStart(year, quarter * 3);
+  const quarterEnd = monthEnd(year, quarter * 3 + 2);
+
+  const minimumToDate = periods.length > 0
+    ? Math.ceil((committee.minMeetingsRequired * elapsedPeriods.length) / periods.length)
+    : 0;
+  const missedPeriods = periods.filter(p => p.missed);
+  const meetingsWithoutQuorum = yearMeetings.filter(m => m.date.split('T')[0] <= todayISO && !isMeetingQuorate(committee, m));
+
+  const status: CommitteeComplianceStatus = quorateThisYear < minimumToDate
+    ? 'Non-Compliant'
+    : missedPeriods.length > 0 || meetingsWithoutQuorum.length > 0
+      ? 'At Risk'
+      : 'Compliant';
+
+  return {
+    committee,
+    year,
+    periods,
+    requiredForYear: periods.length,
+    requiredToDate: elapsedPeriods.length,
+    heldThisYear: yearMeetings.filter(m => m.date.split('T')[0] <= todayISO).length,
+    quorateThisYear,
+    requiredThisQuarter: periods.filter(p => p.start >= quarterStart && p.start <= quarterEnd).length,
+    heldThisQuarter: yearMeetings.filter(m => m.date.split('T')[0] >= quarterStart && m.date.split('T')[0] <= quarterEnd).length,
+    meetingsWithoutQuorum,
+    missedPeriods,
+    status,
+  };
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: string | null | undefined) =>
+  date
+    ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+    : '-';
+
+const letterhead = (hospital: HospitalInfo, title: string, subtitle: string) => `
+  <div class="header">
+    <img src="${escapeHtml(hospital.logo)}" alt="" style="height: 50px; margin-bottom: 4px;" />
+    <div class="hospital-name">${escapeHtml(hospital.name)}</div>
+    <div class="contact">${escapeHtml(hospital.address)} | ${escapeHtml(hospital.phone)} | ${escapeHtml(hospital.email)}</div>
+    <div class="doc-title">${escapeHtml(title)}</div>
+    <div>${escapeHtml(subtitle)}</div>
+  </div>`;
+
+const BASE_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', serif; line-height: 1.5; font-size: 12px; color: #222; padding: 20px; }
+    .header { text-align: center; border-bottom: 2px solid #1565C0; padding-bottom: 10px; margin-bottom: 15px; }
+    .hospital-name { font-size: 22px; font-weight: bold; color: #1565C0; }
+    .contact { font-size: 11px; color: #555; }
+    .doc-title { font-size: 16px; font-weight: bold; margin-top: 8px; letter-spacing: 1px; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .met { color: #2E7D32; font-weight: bold; }
+    .not-met { color: #C62828; font-weight: bold; }
+    .due { color: #EF6C00; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 50px; }
+    .signatures div { text-align: center; width: 30%; border-top: 1px solid #333; padding-top: 4px; }`;
+
+/**
+ * Yearly meeting calendar: one row per committee, meetings held in each month
+ * (✓ quorum met, ✗ quorum not met) and the month a missed or pending slot ended
+ */
+export function buildMeetingCalendarHTML(compliances: CommitteeCompliance[], year: number, hospital: HospitalInfo): string {
+  const cell = (compliance: CommitteeCompliance, month: number) => {
+    const start = monthStart(year, month);
+    const end = monthEnd(year, month);
+    const held = compliance.periods
+      .flatMap(p => p.meetings)
+      .filter(m => m.date.split('T')[0] >= start && m.date.split('T')[0] <= end)
+      .map(m => isMeetingQuorate(compliance.committee, m)
+        ? `<span class="met">${m.date.slice(8, 10)} &#10003;</span>`
+        : `<span class="not-met">${m.date.slice(8, 10)} &#10007;</span>`);
+    const closing = compliance.periods.filter(p => !p.quorate && p.end >= start && p.end <= end);
+    const flags = closing.map(p => p.missed ? '<span class="not-met">Missed</span>' : '<span class="due">Due</span>');
+    return [...held, ...flags].join('<br/>');
+  };
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Committee Meeting Calendar ${year}</title>
+  <style>${BASE_STYLES}
+    td.month { text-align: center; width: 6%; }
+  </style>
+</head>
+<body>
+  ${letterhead(hospital, 'COMMITTEE MEETING CALENDAR', `January - December ${year}`)}
+  <table>
+    <tr><th>Committee</th><th>Frequency</th>${MONTHS.map(m => `<th style="text-align:center">${m}</th>`).join('')}<th>Held / Required</th></tr>
+    ${compliances.map(c => `
+    <tr>
+      <td>${escapeHtml(c.committee.name)}</td>
+      <td>${escapeHtml(c.committee.meetingFrequency)}</td>
+      ${MONTHS.map((_, i) => `<td class="month">${cell(c, i)}</td>`).join('')}
+      <td style="text-align:center">${c.quorateThisYear} / ${c.requiredForYear}</td>
+    </tr>`).join('')}
+  </table>
+  <p style="margin-top:8px; font-size:11px">Day of meeting shown: &#10003; quorum met, &#10007; quorum not met. "Missed" marks a period that ended without a quorate meeting.</p>
+</body>
+</html>`;
+}
+
+/**
+ * Per-committee compliance certificate for the year, listing each meeting
+ * with its attendance against quorum and any missed periods
+ */
+export function buildComplianceCertificateHTML(
+  compliance: CommitteeCompliance,
+  hospital: HospitalInfo,
+  issuedOn: Date = new Date()
+): string {
+  const { committee, year } = compliance;
+  const compliant = compliance.status === 'Compliant';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(committee.name)} - Compliance Certificate ${year}</title>
+  <style>${BASE_STYLES}
+    .statement { font-size: 13px; margin: 15px 0; text-align: justify; }
+    .section-title { font-size: 13px; font-weight: bold; background: #f5f5f5; padding: 5px 8px; margin: 12px 0 6px; }
+  </style>
+</head>
+<body>
+  ${letterhead(hospital, 'COMMITTEE MEETING COMPLIANCE CERTIFICATE', `${committee.name} - ${year}`)}
+
+  <p class="statement">
+    This is to certify that the <strong>${escapeHtml(committee.name)}</strong>, constituted with
+    ${escapeHtml(committee.chairperson?.name || 'its chairperson')} as Chairperson and required to meet
+    <strong>${escapeHtml(committee.meetingFrequency.toLowerCase())}</strong>, held a meeting with quorum in
+    <strong>${compliance.quorateThisYear} / ${compliance.requiredForYear}</strong> required periods of ${year}
+    (${compliance.requiredToDate} due to date; ${compliance.heldThisYear} meeting${compliance.heldThisYear === 1 ? '' : 's'} held in all), and
+    <span class="${compliant ? 'met' : 'not-met'}">${compliant
+      ? 'has complied with its mandated meeting frequency and quorum'
+      : `is ${escapeHtml(compliance.status.toLowerCase())} with its mandated meeting frequency and quorum`}</span>.
+  </p>
+
+  <div class="section-title">Meetings held</div>
+  ${compliance.heldThisYear > 0 ? `
+  <table>
+    <tr><th style="width:30px">#</th><th>Date</th><th>Present / Members</th><th>Quorum</th><th>Chairperson</th></tr>
+    ${compliance.periods.flatMap(p => p.meetings).filter(m => m.date.split('T')[0] <= toISODate(issuedOn)).map((m, i) => {
+      const quorum = getQuorum(committee, m.attendees);
+      return `
+    <tr>
+      <td style="text-align:center">${i + 1}</td>
+      <td>${formatDate(m.date)}</td>
+      <td>${quorum.present} / ${quorum.members}</td>
+      <td class="${quorum.met ? 'met' : 'not-met'}">${quorum.met ? 'Met' : `Not met (${quorum.required} required)`}</td>
+      <td>${quorum.chairpersonPresent ? 'Present' : 'Absent'}</td>
+    </tr>`;
+    }).join('')}
+  </table>` : '<p>No meetings held.</p>'}
+
+  <div class="section-title">Missed meetings</div>
+  ${compliance.missedPeriods.length > 0
+    ? `<p class="not-met">${compliance.missedPeriods.map(p => escapeHtml(p.label)).join(', ')}</p>`
+    : '<p>None.</p>'}
+
+  <p style="margin-top:15px">Issued on ${formatDate(toISODate(issuedOn))}</p>
+
+  <div class="signatures">
+    <div>Member Secretary</div>
+    <div>${escapeHtml(committee.chairperson?.name || 'Chairperson')}<br/>Chairperson</div>
+    <div>Quality Coordinator</div>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,282 @@
+// Committee Meeting Storage Service for Supabase
+// Loads committees with their meetings; records held meetings and the action items carried forward between them
+
+import { getAuthToken } from '../lib/supabase';
+import type {
+  Committee,
+  CommitteeActionItem,
+  CommitteeActionItemInput,
+  CommitteeMember,
+  Meeting,
+} from '../types/committee';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+async function fetchRows<T>(path: string): Promise<T[]> {
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': SUPABASE_ANON_KEY,
+      'Authorization': `Bearer ${await getAuthToken()}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+interface CommitteeRow {
+  id: string;
+  name: string;
+  type: Committee['type'];
+  description: string | null;
+  meeting_frequency: Committee['meetingFrequency'];
+  objectives: string[] | null;
+  min_meetings_required: number;
+  created_at: string;
+  chairperson_id: string | null;
+  chairperson_name: string | null;
+  chairperson_designation: string | null;
+  chairperson_master_type: string | null;
+}
+
+interface CommitteeMemberRow {
+  committee_id: string;
+  member_id: string;
+  name: string;
+  designation: string | null;
+  role_in_committee: string;
+  master_type: string;
+  department: string | null;
+  phone: string | null;
+}
+
+interface CommitteeMeetingRow {
+  id: string;
+  committee_id: string;
+  meeting_date: string;
+  agenda: string | null;
+  minutes: string | null;
+  attendees: string[] | null;
+  decisions: string[] | null;
+  action_items: string[] | null;
+  next_meeting_date: string | null;
+}
+
+/**
+ * Load active committees with their members and meetings (meetings oldest first)
+ */
+export async function loadCommitteesWithMeetings(): Promise<{ success: boolean; data?: Committee[]; error?: string }> {
+  try {
+    const [committees, members, meetings] = await Promise.all([
+      fetchRows<CommitteeRow>('committees?is_active=eq.true&order=created_at.asc'),
+      fetchRows<CommitteeMemberRow>('committee_members?is_active=eq.true'),
+      fetchRows<CommitteeMeetingRow>('committee_meetings?order=meeting_date.asc'),
+    ]);
+
+    const data: Committee[] = committees.map(c => ({
+      id: c.id,
+      name: c.name,
+      type: c.type,
+      description: c.description || '',
+      meetingFrequency: c.meeting_frequency,
+      objectives: c.objectives || [],
+      minMeetingsRequired: c.min_meetings_required,
+      createdAt: c.created_at,
+      chairperson: c.chairperson_id ? {
+        id: c.chairperson_id,
+        name: c.chairperson_name || '',
+        designation: c.chairperson_designation || '',
+        role: 'Chairperson',
+        masterType: (c.chairperson_master_type || 'employees') as CommitteeMember['masterType'],
+      } : null,
+      members: members
+        .filter(m => m.committee_id === c.id)
+        .map(m => ({
+          id: m.member_id,
+          name: m.name,
+          designation: m.designation || '',
+          role: m.role_in_committee,
+          masterType: m.master_type as CommitteeMember['masterType'],
+          department: m.department || '',
+          phone: m.phone || '',
+        })),
+      meetings: meetings
+        .filter(m => m.committee_id === c.id)
+        .map(m => ({
+          id: m.id,
+          date: m.meeting_date,
+          agenda: m.agenda || '',
+          minutes: m.minutes || '',
+          attendees: m.attendees || [],
+          decisions: m.decisions || [],
+          actionItems: m.action_items || [],
+          nextMeetingDate: m.next_meeting_date || undefined,
+        })),
+    }));
+
+    return { success: true, data };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading committees:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save a meeting that was held. Tracked action items are saved separately.
+ */
+export async function createCommitteeMeeting(
+  committeeId: string,
+  meeting: Omit<Meeting, 'id'>
+): Promise<{ success: boolean; data?: Meeting; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/committee_meetings`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify({
+          committee_id: committeeId,
+          meeting_date: meeting.date,
+          agenda: meeting.agenda,
+          minutes: meeting.minutes,
+          attendees: meeting.attendees,
+          decisions: meeting.decisions,
+          action_items: meeting.actionItems,
+          next_meeting_date: meeting.nextMeetingDate || null,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving committee meeting:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const [row] = await response.json();
+    return { success: true, data: { ...meeting, id: row.id } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving committee meeting:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load all action items of a committee (oldest first)
+ */
+export async function loadCommitteeActionItems(
+  committeeId: string
+): Promise<{ success: boolean; data?: CommitteeActionItem[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/committee_action_items?committee_id=eq.${encodeURIComponent(committeeId)}&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading committee action items:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as CommitteeActionItem[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading committee action items:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create the action items raised in a meeting
+ */
+export async function createCommitteeActionItems(
+  items: CommitteeActionItemInput[]
+): Promise<{ success: boolean; data?: CommitteeActionItem[]; error?: string }> {
+  if (items.length === 0) return { success: true, data: [] };
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/committee_action_items`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(items),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating committee action items:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as CommitteeActionItem[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating committee action items:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update an action item (status, remarks, closure, owner or due date)
+ */
+export async function updateCommitteeActionItem(
+  id: string,
+  updates: Partial<CommitteeActionItemInput>
+): Promise<{ success: boolean; data?: CommitteeActionItem; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/committee_action_items?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating committee action item:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as CommitteeActionItem };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating committee action item:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
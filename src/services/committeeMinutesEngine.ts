@@ -0,0 +1,244 @@
+// Committee Minutes Engine
+// Quorum, carry-forward of open action points and NABH-format minutes of meeting
+
+import type { HospitalInfo } from '../config/hospitalConfig';
+import type {
+  Committee,
+  CommitteeActionItem,
+  CommitteeMember,
+  CommitteeQuorum,
+  Meeting,
+} from '../types/committee';
+
+export const REVIEW_OF_PREVIOUS_ACTION_POINTS = 'Review of previous action points';
+
+export const isActionItemOpen = (item: Pick<CommitteeActionItem, 'status'>): boolean =>
+  item.status === 'Open' || item.status === 'In Progress';
+
+export function isActionItemOverdue(
+  item: Pick<CommitteeActionItem, 'status' | 'due_date'>,
+  today: Date = new Date()
+): boolean {
+  if (!isActionItemOpen(item) || !item.due_date) return false;
+  return item.due_date < today.toISOString().split('T')[0];
+}
+
+/**
+ * Chairperson and members, without duplicates (the chairperson is often also a member)
+ */
+export function getCommitteeRoster(committee: Pick<Committee, 'chairperson' | 'members'>): CommitteeMember[] {
+  const roster = committee.chairperson ? [committee.chairperson] : [];
+  committee.members.forEach(m => {
+    if (!roster.some(r => r.name === m.name)) roster.push(m);
+  });
+  return roster;
+}
+
+/**
+ * Quorum: more than half of the committee present
+ */
+export function getQuorum(committee: Pick<Committee, 'chairperson' | 'members'>, attendees: string[]): CommitteeQuorum {
+  const roster = getCommitteeRoster(committee);
+  const present = roster.filter(m => attendees.includes(m.name)).length;
+  const required = roster.length > 0 ? Math.floor(roster.length / 2) + 1 : 0;
+  return {
+    members: roster.length,
+    present,
+    required,
+    met: roster.length > 0 && present >= required,
+    chairpersonPresent: !!committee.chairperson && attendees.includes(committee.chairperson.name),
+  };
+}
+
+/**
+ * Action points reviewed at a meeting: raised at an earlier meeting and either
+ * still open, or closed at (or after) this meeting
+ */
+export function getActionItemsForReview(
+  items: CommitteeActionItem[],
+  meetings: Pick<Meeting, 'id' | 'date'>[],
+  meeting: Pick<Meeting, 'id' | 'date'>
+): CommitteeActionItem[] {
+  const raisedOn = new Map(meetings.map(m => [m.id, m.date]));
+  return items.filter(item => {
+    const raisedDate = raisedOn.get(item.meeting_id);
+    if (!raisedDate || item.meeting_id === meeting.id || raisedDate > meeting.date) return false;
+    if (isActionItemOpen(item)) return true;
+    return item.closed_meeting_id === meeting.id || (!!item.closed_date && item.closed_date >= meeting.date);
+  });
+}
+
+/**
+ * Agenda for the next meeting, opening with the open action points carried forward
+ */
+export function buildMeetingAgenda(
+  committee: Pick<Committee, 'name' | 'objectives'>,
+  carriedForward: Pick<CommitteeActionItem, 'description' | 'owner_name'>[]
+): string {
+  const lines = [
+    'Confirmation of minutes of the previous meeting',
+    carriedForward.length > 0
+      ? `${REVIEW_OF_PREVIOUS_ACTION_POINTS}:\n${carriedForward.map(a => `   - ${a.description}${a.owner_name ? ` (${a.owner_name})` : ''}`).join('\n')}`
+      : `${REVIEW_OF_PREVIOUS_ACTION_POINTS}: none pending`,
+    ...committee.objectives.map(o => `Review: ${o}`),
+    'Any other business',
+  ];
+  return lines.map((line, i) => `${i + 1}. ${line}`).join('\n');
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: string | null | undefined) =>
+  date
+    ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+    : '-';
+
+const multiline = (text: string) => escapeHtml(text).replace(/\n/g, '<br/>');
+
+/**
+ * NABH-format minutes of meeting: attendance vs quorum, agenda, review of
+ * previous action points, discussion, decisions and new action points
+ */
+export function buildMinutesHTML(
+  committee: Committee,
+  meeting: Meeting,
+  actionItems: CommitteeActionItem[],
+  hospital: HospitalInfo
+): string {
+  const meetingNumber = [...committee.meetings]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .findIndex(m => m.id === meeting.id) + 1;
+  const roster = getCommitteeRoster(committee);
+  const quorum = getQuorum(committee, meeting.attendees);
+  const reviewed = getActionItemsForReview(actionItems, committee.meetings, meeting);
+  const raised = actionItems.filter(a => a.meeting_id === meeting.id);
+  const invitees = meeting.attendees.filter(name => !roster.some(m => m.name === name));
+
+  // Status as it stood at this meeting; items closed at a later meeting were still open here
+  const statusAt = (a: CommitteeActionItem) =>
+    isActionItemOpen(a) || a.closed_meeting_id === meeting.id || (!!a.closed_date && a.closed_date <= meeting.date)
+      ? a.status
+      : 'Open';
+
+  const actionRows = (items: CommitteeActionItem[], reviewing: boolean) => items
+    .map((a, i) => `
+      <tr>
+        <td style="text-align:center">${i + 1}</td>
+        <td>${escapeHtml(a.description)}</td>
+        <td>${escapeHtml(a.owner_name || '-')}</td>
+        <td>${formatDate(a.due_date)}</td>
+        ${reviewing ? `<td>${escapeHtml(statusAt(a))}</td><td>${escapeHtml(a.remarks || '')}</td>` : ''}
+      </tr>`)
+    .join('');
+
+  // Meetings recorded before tracked action items keep their free-text action points
+  const legacyRows = raised.length === 0
+    ? meeting.actionItems.map((a, i) => `<tr><td style="text-align:center">${i + 1}</td><td colspan="3">${escapeHtml(a)}</td></tr>`).join('')
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(committee.name)} - Minutes of Meeting ${formatDate(meeting.date)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', serif; line-height: 1.5; font-size: 12px; color: #222; }
+    .header { text-align: center; border-bottom: 2px solid #1565C0; padding-bottom: 10px; margin-bottom: 15px; }
+    .hospital-name { font-size: 22px; font-weight: bold; color: #1565C0; }
+    .contact { font-size: 11px; color: #555; }
+    .doc-title { font-size: 16px; font-weight: bold; margin-top: 8px; letter-spacing: 1px; }
+    .section { margin-bottom: 14px; page-break-inside: avoid; }
+    .section-title { font-size: 13px; font-weight: bold; background: #f5f5f5; padding: 5px 8px; margin-bottom: 6px; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .meta td { border: none; padding: 2px 6px; }
+    .quorum-met { color: #2E7D32; font-weight: bold; }
+    .quorum-not-met { color: #C62828; font-weight: bold; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 40px; }
+    .signatures div { text-align: center; width: 45%; border-top: 1px solid #333; padding-top: 4px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="${escapeHtml(hospital.logo)}" alt="" style="height: 50px; margin-bottom: 4px;" />
+    <div class="hospital-name">${escapeHtml(hospital.name)}</div>
+    <div class="contact">${escapeHtml(hospital.address)} | ${escapeHtml(hospital.phone)} | ${escapeHtml(hospital.email)}</div>
+    <div class="doc-title">MINUTES OF MEETING</div>
+    <div>${escapeHtml(committee.name)}</div>
+  </div>
+
+  <table class="meta section">
+    <tr><td><strong>Meeting No.:</strong> ${meetingNumber > 0 ? meetingNumber : '-'}</td><td><strong>Date:</strong> ${formatDate(meeting.date)}</td></tr>
+    <tr><td><strong>Chairperson:</strong> ${escapeHtml(committee.chairperson?.name || '-')}</td><td><strong>Frequency:</strong> ${escapeHtml(committee.meetingFrequency)}</td></tr>
+  </table>
+
+  <div class="section">
+    <div class="section-title">1. Attendance</div>
+    <table>
+      <tr><th style="width:30px">#</th><th>Name</th><th>Designation</th><th>Role</th><th style="width:70px">Attendance</th></tr>
+      ${roster.map((m, i) => `
+      <tr>
+        <td style="text-align:center">${i + 1}</td>
+        <td>${escapeHtml(m.name)}</td>
+        <td>${escapeHtml(m.designation)}</td>
+        <td>${escapeHtml(m.role)}</td>
+        <td>${meeting.attendees.includes(m.name) ? 'Present' : 'Absent'}</td>
+      </tr>`).join('')}
+    </table>
+    ${invitees.length > 0 ? `<p style="margin-top:4px"><strong>Invitees:</strong> ${invitees.map(escapeHtml).join(', ')}</p>` : ''}
+    <p style="margin-top:4px">
+      Present ${quorum.present} of ${quorum.members} members (quorum ${quorum.required}):
+      <span class="${quorum.met ? 'quorum-met' : 'quorum-not-met'}">${quorum.met ? 'Quorum met' : 'Quorum not met'}</span>
+    </p>
+  </div>
+
+  <div class="section">
+    <div class="section-title">2. Agenda</div>
+    <p>${multiline(meeting.agenda || '-')}</p>
+  </div>
+
+  <div class="section">
+    <div class="section-title">3. ${REVIEW_OF_PREVIOUS_ACTION_POINTS}</div>
+    ${reviewed.length > 0 ? `
+    <table>
+      <tr><th style="width:30px">#</th><th>Action Point</th><th>Responsibility</th><th>Due Date</th><th>Status</th><th>Remarks</th></tr>
+      ${actionRows(reviewed, true)}
+    </table>` : '<p>No action points pending from previous meetings.</p>'}
+  </div>
+
+  <div class="section">
+    <div class="section-title">4. Discussion</div>
+    <p>${multiline(meeting.minutes || '-')}</p>
+  </div>
+
+  <div class="section">
+    <div class="section-title">5. Decisions</div>
+    ${meeting.decisions.length > 0
+      ? `<ol style="margin-left:20px">${meeting.decisions.map(d => `<li>${escapeHtml(d)}</li>`).join('')}</ol>`
+      : '<p>No decisions recorded.</p>'}
+  </div>
+
+  <div class="section">
+    <div class="section-title">6. Action Points</div>
+    ${raised.length > 0 || legacyRows ? `
+    <table>
+      <tr><th style="width:30px">#</th><th>Action Point</th><th>Responsibility</th><th>Target Date</th></tr>
+      ${raised.length > 0 ? actionRows(raised, false) : legacyRows}
+    </table>` : '<p>No new action points.</p>'}
+  </div>
+
+  ${meeting.nextMeetingDate ? `<p class="section"><strong>Next meeting:</strong> ${formatDate(meeting.nextMeetingDate)}</p>` : ''}
+
+  <div class="signatures">
+    <div>Member Secretary</div>
+    <div>${escapeHtml(committee.chairperson?.name || 'Chairperson')}<br/>Chairperson</div>
+  </div>
+</body>
+</html>`;
+}
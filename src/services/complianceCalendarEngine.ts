@@ -0,0 +1,342 @@
+// Compliance Calendar Engine
+// Aggregates every dated obligation (license expiries, MOU expiries, equipment
+// calibration/maintenance, committee meetings, manual/SOP reviews and clinical
+// audit follow-ups) into a single list of calendar events per hospital. Rows are
+// read through the caller's fetcher: the browser service or the calendar feed endpoint.
+
+import type { ComplianceEvent, ComplianceEventStatus, ComplianceSource } from '../types/complianceCalendar';
+import { equipmentMaster } from '../data/equipmentMaster';
+import { DEFAULT_HOSPITAL_ID } from '../config/hospitalConfig';
+
+// Default "due soon" window for sources that have no reminder setting of their own
+export const DEFAULT_REMINDER_DAYS = 30;
+
+const MEETING_FREQUENCY_DAYS: Record<string, number> = {
+  'Weekly': 7,
+  'Bi-weekly': 14,
+  'Monthly': 30,
+  'Quarterly': 90,
+  'Half-yearly': 180,
+  'Yearly': 365,
+};
+
+const isISODate = (value: string | null | undefined): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISODate(date);
+};
+
+// Clinical audits were historically saved with 'hope-hospital' as the Hope id
+const hospitalFilter = (hospitalId: string): string =>
+  hospitalId === 'hope'
+    ? 'hospital_id=in.(hope,hope-hospital)'
+    : `hospital_id=eq.${encodeURIComponent(hospitalId)}`;
+
+// Reads rows of a table with a PostgREST query string
+export type ComplianceRowFetcher = <T>(table: string, query: string) => Promise<T[]>;
+
+// ============================================
+// Source loaders
+// ============================================
+
+async function loadLicenseEvents(fetchRows: ComplianceRowFetcher, hospitalId: string): Promise<ComplianceEvent[]> {
+  const rows = await fetchRows<{
+    id: string;
+    name: string;
+    license_number: string | null;
+    issuing_authority: string | null;
+    expiry_date: string | null;
+    reminder_days: number | null;
+    responsible_person: string | null;
+  }>('licenses', `select=id,name,license_number,issuing_authority,expiry_date,reminder_days,responsible_person&is_active=eq.true&${hospitalFilter(hospitalId)}`);
+
+  return rows
+    .filter(row => isISODate(row.expiry_date))
+    .map(row => ({
+      id: `license-${row.id}`,
+      source: 'License' as const,
+      title: `${row.name} expires`,
+      description: [row.license_number && `License No: ${row.license_number}`, row.issuing_authority && `Issued by: ${row.issuing_authority}`]
+        .filter(Boolean)
+        .join('\n'),
+      dueDate: row.expiry_date!.slice(0, 10),
+      reminderDays: row.reminder_days ?? DEFAULT_REMINDER_DAYS,
+      owner: row.responsible_person || undefined,
+      path: '/licenses',
+    }));
+}
+
+async function loadMOUEvents(fetchRows: ComplianceRowFetcher, hospitalId: string): Promise<ComplianceEvent[]> {
+  const rows = await fetchRows<{
+    id: string;
+    title: string;
+    partner_organization: string;
+    expiry_date: string | null;
+    status: string;
+    responsible_person: string | null;
+  }>('mous', `select=id,title,partner_organization,expiry_date,status,responsible_person&status=neq.Terminated&${hospitalFilter(hospitalId)}`);
+
+  return rows
+    .filter(row => isISODate(row.expiry_date))
+    .map(row => ({
+      id: `mou-${row.id}`,
+      source: 'MOU' as const,
+      title: `MOU with ${row.partner_organization} expires`,
+      description: row.title,
+      dueDate: row.expiry_date!.slice(0, 10),
+      reminderDays: 60,
+      owner: row.responsible_person || undefined,
+      path: '/mous',
+    }));
+}
+
+// Equipment master is the Hope Hospital inventory. A calibration / PM schedule
+// (Equipment Maintenance) takes precedence over the dates in the equipment master.
+async function loadEquipmentEvents(fetchRows: ComplianceRowFetcher, hospitalId: string): Promise<ComplianceEvent[]> {
+  if (hospitalId !== DEFAULT_HOSPITAL_ID) return [];
+
+  const schedules = await fetchRows<{
+    equipment_tag: string;
+    service_type: 'Calibration' | 'Preventive Maintenance';
+    next_due_date: string | null;
+    vendor: string | null;
+  }>('equipment_service_schedules', `select=equipment_tag,service_type,next_due_date,vendor&hospital_id=eq.${encodeURIComponent(hospitalId)}`);
+  const scheduled = new Map(schedules.map(s => [`${s.service_type}|${s.equipment_tag}`, s]));
+
+  const events: ComplianceEvent[] = [];
+  equipmentMaster
+    .filter(eq => eq.status !== 'Decommissioned')
+    .forEach(eq => {
+      const calibration = scheduled.get(`Calibration|${eq.equipmentTag}`);
+      const calibrationDue = calibration ? calibration.next_due_date : eq.calibration?.nextCalibrationDue;
+      const calibratedBy = calibration ? calibration.vendor : eq.calibration?.calibratedBy;
+      if (isISODate(calibrationDue)) {
+        events.push({
+          id: `calibration-${eq.id}`,
+          source: 'Calibration',
+          title: `Calibrate ${eq.name} (${eq.equipmentTag})`,
+          description: `${eq.department} - ${eq.location}${calibratedBy ? `\nCalibrated by: ${calibratedBy}` : ''}`,
+          dueDate: calibrationDue.slice(0, 10),
+          reminderDays: 15,
+          owner: calibratedBy || undefined,
+          path: calibration ? '/equipment-maintenance' : '/equipment',
+        });
+      }
+
+      const maintenance = scheduled.get(`Preventive Maintenance|${eq.equipmentTag}`);
+      const maintenanceDue = maintenance ? maintenance.next_due_date : eq.maintenance?.nextMaintenanceDue;
+      const performedBy = maintenance ? maintenance.vendor : eq.maintenance?.performedBy;
+      if (isISODate(maintenanceDue)) {
+        events.push({
+          id: `maintenance-${eq.id}`,
+          source: 'Maintenance',
+          title: `${maintenance ? 'Preventive' : eq.maintenance!.maintenanceType} maintenance of ${eq.name} (${eq.equipmentTag})`,
+          description: `${eq.department} - ${eq.location}`,
+          dueDate: maintenanceDue.slice(0, 10),
+          reminderDays: 15,
+          owner: performedBy || undefined,
+          path: maintenance ? '/equipment-maintenance' : '/equipment',
+        });
+      }
+    });
+  return events;
+}
+
+async function loadCommitteeEvents(fetchRows: ComplianceRowFetcher, hospitalId: string, today: Date): Promise<ComplianceEvent[]> {
+  const committees = await fetchRows<{
+    id: string;
+    name: string;
+    meeting_frequency: string;
+    chairperson_name: string | null;
+  }>('committees', `select=id,name,meeting_frequency,chairperson_name&is_active=eq.true&${hospitalFilter(hospitalId)}`);
+
+  if (committees.length === 0) return [];
+
+  const meetings = await fetchRows<{
+    committee_id: string;
+    meeting_date: string;
+    next_meeting_date: string | null;
+  }>('committee_meetings', `select=committee_id,meeting_date,next_meeting_date&committee_id=in.(${committees.map(c => c.id).join(',')})&order=meeting_date.desc`);
+
+  return committees.map(committee => {
+    // Meetings are sorted newest first
+    const lastMeeting = meetings.find(m => m.committee_id === committee.id);
+    return {
+      id: `committee-${committee.id}`,
+      source: 'Committee Meeting' as const,
+      title: `${committee.name} meeting`,
+      description: `${committee.meeting_frequency} meeting${lastMeeting ? `\nLast held: ${lastMeeting.meeting_date}` : '\nNo meeting recorded yet'}`,
+      dueDate: getNextMeetingDate(lastMeeting, committee.meeting_frequency, today),
+      reminderDays: 7,
+      owner: committee.chairperson_name || undefined,
+      path: '/committees',
+    };
+  });
+}
+
+async function loadManualEvents(fetchRows: ComplianceRowFetcher, hospitalId: string): Promise<ComplianceEvent[]> {
+  const rows = await fetchRows<{
+    id: string;
+    title: string;
+    version: string;
+    next_review_date: string | null;
+    author: string | null;
+    status: string;
+  }>('hospital_manuals', `select=id,title,version,next_review_date,author,status&is_active=eq.true&status=neq.Archived&${hospitalFilter(hospitalId)}`);
+
+  return rows
+    .filter(row => isISODate(row.next_review_date))
+    .map(row => ({
+      id: `manual-${row.id}`,
+      source: 'Manual Review' as const,
+      title: `Review ${row.title}`,
+      description: `Version ${row.version}`,
+      dueDate: row.next_review_date!.slice(0, 10),
+      reminderDays: DEFAULT_REMINDER_DAYS,
+      owner: row.author || undefined,
+      path: '/manuals',
+    }));
+}
+
+// SOP tables are shared by both hospitals
+async function loadSOPEvents(fetchRows: ComplianceRowFetcher): Promise<ComplianceEvent[]> {
+  const [generated, documents] = await Promise.all([
+    fetchRows<{ id: string; objective_code: string; objective_title: string; document_number: string | null; review_date: string | null; created_by: string | null }>(
+      'nabh_generated_sops',
+      'select=id,objective_code,objective_title,document_number,review_date,created_by&status=neq.Archived'
+    ),
+    fetchRows<{ id: string; chapter_code: string; title: string; review_date: string | null; author: string | null }>(
+      'nabh_sop_documents',
+      'select=id,chapter_code,title,review_date,author&status=neq.Archived'
+    ),
+  ]);
+
+  return [
+    ...generated
+      .filter(row => isISODate(row.review_date))
+      .map(row => ({
+        id: `generated-sop-${row.id}`,
+        source: 'SOP Review' as const,
+        title: `Review SOP ${row.document_number || row.objective_code}`,
+        description: `${row.objective_code} - ${row.objective_title}`,
+        dueDate: row.review_date!.slice(0, 10),
+        reminderDays: DEFAULT_REMINDER_DAYS,
+        owner: row.created_by || undefined,
+        path: '/recent-sops',
+      })),
+    ...documents
+      .filter(row => isISODate(row.review_date))
+      .map(row => ({
+        id: `sop-document-${row.id}`,
+        source: 'SOP Review' as const,
+        title: `Review SOP: ${row.title}`,
+        description: `Chapter ${row.chapter_code}`,
+        dueDate: row.review_date!.slice(0, 10),
+        reminderDays: DEFAULT_REMINDER_DAYS,
+        owner: row.author || undefined,
+        path: '/sop-database',
+      })),
+  ];
+}
+
+async function loadAuditFollowUpEvents(fetchRows: ComplianceRowFetcher, hospitalId: string): Promise<ComplianceEvent[]> {
+  const rows = await fetchRows<{
+    id: string;
+    title: string;
+    department: string | null;
+    auditor: string | null;
+    follow_up_date: string | null;
+    nabh_standard: string | null;
+  }>('clinical_audits', `select=id,title,department,auditor,follow_up_date,nabh_standard&is_active=eq.true&status=neq.Cancelled&${hospitalFilter(hospitalId)}`);
+
+  return rows
+    .filter(row => isISODate(row.follow_up_date))
+    .map(row => ({
+      id: `audit-${row.id}`,
+      source: 'Audit Follow-up' as const,
+      title: `Follow-up: ${row.title}`,
+      description: [row.department && `Department: ${row.department}`, row.nabh_standard && `NABH Standard: ${row.nabh_standard}`]
+        .filter(Boolean)
+        .join('\n'),
+      dueDate: row.follow_up_date!.slice(0, 10),
+      reminderDays: 7,
+      owner: row.auditor || undefined,
+      path: '/clinical-audits',
+    }));
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Collect all compliance events for a hospital, sorted by due date.
+ * A failing source does not block the others; its error is reported per source.
+ */
+export async function collectComplianceEvents(
+  hospitalId: string,
+  fetchRows: ComplianceRowFetcher,
+  today: Date = new Date()
+): Promise<{ success: boolean; data: ComplianceEvent[]; errors: Partial<Record<ComplianceSource, string>> }> {
+  const loaders: [ComplianceSource[], () => Promise<ComplianceEvent[]>][] = [
+    [['License'], () => loadLicenseEvents(fetchRows, hospitalId)],
+    [['MOU'], () => loadMOUEvents(fetchRows, hospitalId)],
+    [['Calibration', 'Maintenance'], () => loadEquipmentEvents(fetchRows, hospitalId)],
+    [['Committee Meeting'], () => loadCommitteeEvents(fetchRows, hospitalId, today)],
+    [['Manual Review'], () => loadManualEvents(fetchRows, hospitalId)],
+    [['SOP Review'], () => loadSOPEvents(fetchRows)],
+    [['Audit Follow-up'], () => loadAuditFollowUpEvents(fetchRows, hospitalId)],
+  ];
+
+  const results = await Promise.allSettled(loaders.map(([, load]) => load()));
+  const data: ComplianceEvent[] = [];
+  const errors: Partial<Record<ComplianceSource, string>> = {};
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      data.push(...result.value);
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+      console.error('Error loading compliance events:', message);
+      loaders[index][0].forEach(source => { errors[source] = message; });
+    }
+  });
+
+  data.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.title.localeCompare(b.title));
+  return { success: Object.keys(errors).length === 0, data, errors };
+}
+
+/**
+ * Next committee meeting: the date set in the last minutes, otherwise the
+ * last meeting plus the meeting frequency. Committees that never met are due today.
+ */
+export function getNextMeetingDate(
+  lastMeeting: { meeting_date: string; next_meeting_date: string | null } | undefined,
+  meetingFrequency: string,
+  today: Date = new Date()
+): string {
+  if (!lastMeeting) return toISODate(today);
+  if (isISODate(lastMeeting.next_meeting_date)) return lastMeeting.next_meeting_date.slice(0, 10);
+  return addDays(lastMeeting.meeting_date, MEETING_FREQUENCY_DAYS[meetingFrequency] ?? 30);
+}
+
+export function getComplianceEventStatus(
+  event: Pick<ComplianceEvent, 'dueDate' | 'reminderDays'>,
+  today: Date = new Date()
+): ComplianceEventStatus {
+  const todayISO = toISODate(today);
+  if (event.dueDate < todayISO) return 'Overdue';
+  if (addDays(event.dueDate, -event.reminderDays) <= todayISO) return 'Due Soon';
+  return 'Upcoming';
+}
+
+export function getDaysUntil(dueDate: string, today: Date = new Date()): number {
+  const due = new Date(`${dueDate}T00:00:00Z`).getTime();
+  const start = new Date(`${toISODate(today)}T00:00:00Z`).getTime();
+  return Math.round((due - start) / (1000 * 60 * 60 * 24));
+}
@@ -0,0 +1,81 @@
+// Compliance Calendar Service
+// Loads the compliance calendar events of a hospital from Supabase
+
+import { getAuthToken } from '../lib/supabase';
+import type { ComplianceEvent, ComplianceSource } from '../types/complianceCalendar';
+import { collectComplianceEvents } from './complianceCalendarEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+async function fetchRows<T>(table: string, query: string): Promise<T[]> {
+  const response = await fetch(
+    `${SUPABASE_URL}/rest/v1/${table}?${query}`,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${table} ${response.status}: ${errorText}`);
+  }
+
+  return (await response.json()) as T[];
+}
+
+/**
+ * Load all compliance events for a hospital, sorted by due date.
+ * A failing source does not block the others; its error is reported per source.
+ */
+export async function loadComplianceEvents(
+  hospitalId: string,
+  today: Date = new Date()
+): Promise<{ success: boolean; data: ComplianceEvent[]; errors: Partial<Record<ComplianceSource, string>> }> {
+  return collectComplianceEvents(hospitalId, fetchRows, today);
+}
+
+/**
+ * Secret token of the signed-in user's calendar subscription for a hospital.
+ * Issued on first use; reset replaces it so calendars subscribed with the old URL stop updating.
+ */
+export async function getCalendarFeedToken(
+  hospitalId: string,
+  reset = false
+): Promise<{ success: boolean; data?: string; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/calendar_feed_token`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({ p_hospital_id: hospitalId, p_reset: reset }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error getting calendar feed token:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true, data: (await response.json()) as string };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error getting calendar feed token:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// URL calendar apps subscribe to; the feed endpoint is served from the app's own origin
+export const getCalendarFeedUrl = (token: string): string =>
+  `${window.location.origin}/api/compliance-calendar?token=${encodeURIComponent(token)}`;
@@ -4,9 +4,11 @@
  */
 
 import * as XLSX from 'xlsx';
-import { callGeminiAPI, callGeminiVisionAPI, getGeminiApiKey } from '../lib/supabase';
+import { getAuthToken } from '../lib/supabase';
+import { callGeminiAPI, callGeminiVisionAPI } from './aiGatewayClient';
 import { getRelevantData } from './hopeHospitalDatabase';
-import { generateDocumentNumber, getFormattedDate, getReviewDate } from '../utils/documentNumbering';
+import { resolvePrompt } from './promptLibraryService';
+import { getDraftDocumentNumber, getFormattedDate, getReviewDate } from '../utils/documentNumbering';
 import type {
   UploadedDocument,
   DocumentExtractedData,
@@ -511,11 +513,6 @@ export const extractDocumentContent = async (doc: UploadedDocument): Promise<Doc
 export const generateEvidenceFromDocuments = async (
   request: DocumentEvidenceRequest
 ): Promise<DocumentEvidenceResult> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return { success: false, error: 'Gemini API key not configured' };
-  }
-
   try {
     // Fetch real patient/staff data
     const relevantData = await getRelevantData(request.evidenceItemText);
@@ -572,113 +569,25 @@ export const generateEvidenceFromDocuments = async (
       });
     }
 
-    const { hospitalConfig, objectiveCode, objectiveTitle, evidenceItemText } = request;
-
-    const prompt = `You are an expert in NABH (National Accreditation Board for Hospitals and Healthcare Providers) accreditation documentation for ${hospitalConfig.name}.
-
-Generate a complete HTML document for the evidence item based on the UPLOADED DOCUMENTS DATA provided below.
-
-EVIDENCE TO GENERATE:
-${evidenceItemText}
-
-OBJECTIVE: ${objectiveCode} - ${objectiveTitle}
-
-UPLOADED DOCUMENTS DATA:
-${documentContext}
-
-REAL DATABASE DATA (use these names for staff and patients):
-${dataContext}
-
-IMPORTANT INSTRUCTIONS:
-1. Use the data from the uploaded documents to fill in the evidence document
-2. Use ONLY the real staff and patient names provided above
-3. Generate a professional NABH-compliant document
-4. The document must be print-ready with proper formatting
-5. Include signatures from: Sonali Kakde (Clinical Audit Coordinator), Gaurav Agrawal (Hospital Administrator), Dr. Shiraz Khan (NABH Coordinator)
-
-Use this HTML template structure:
-
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <title>[Document Title] - ${hospitalConfig.name}</title>
-  <style>
-    html { height: 100%; overflow-y: auto; }
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; font-size: 12px; line-height: 1.6; color: #333; padding: 2px 20px 20px; max-width: 800px; margin: 0 auto; -webkit-print-color-adjust: exact !important; print-color-adjust: exact !important; }
-    .header { text-align: center; border-bottom: 3px solid #1565C0; padding-bottom: 2px; margin-bottom: 5px; }
-    .logo-area { width: 350px; height: 80px; margin: 0 auto 8px; display: flex; align-items: center; justify-content: center; }
-    .logo-area img { max-width: 100%; max-height: 100%; object-fit: contain; }
-    .hospital-name { font-size: 24px; font-weight: bold; color: #1565C0; margin: 10px 0 5px; }
-    .hospital-address { font-size: 11px; color: #666; }
-    .doc-title { background: #1565C0; color: white; padding: 12px; font-size: 16px; font-weight: bold; text-align: center; margin: 20px 0; border-radius: 5px; }
-    .info-table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
-    .info-table th, .info-table td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-    .info-table th { background: #f5f5f5; font-weight: 600; width: 25%; }
-    .auth-table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-    .auth-table th { background: #1565C0; color: white; padding: 10px; text-align: center; }
-    .auth-table td { border: 1px solid #ddd; padding: 10px; text-align: center; vertical-align: top; min-height: 80px; }
-    .section { margin: 20px 0; }
-    .section-title { background: #e3f2fd; padding: 8px 12px; font-weight: bold; color: #1565C0; border-left: 4px solid #1565C0; margin-bottom: 10px; }
-    .section-content { padding: 10px 15px; }
-    .data-table { width: 100%; border-collapse: collapse; margin: 10px 0; }
-    .data-table th { background: #1565C0; color: white; padding: 10px; text-align: left; }
-    .data-table td { border: 1px solid #ddd; padding: 8px; }
-    .data-table tr:nth-child(even) { background: #f9f9f9; }
-    .footer { margin-top: 30px; padding-top: 15px; border-top: 2px solid #1565C0; text-align: center; font-size: 10px; color: #666; }
-    .revision-table { width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 11px; }
-    .revision-table th { background: #455a64; color: white; padding: 8px; }
-    .revision-table td { border: 1px solid #ddd; padding: 8px; }
-    .stamp-area { border: 2px dashed #ccc; padding: 20px; text-align: center; margin: 20px 0; color: #999; }
-    .objective-line { font-size: 12px; color: #333; margin: 15px 0; font-weight: 500; }
-    @media print { body { padding: 0; -webkit-print-color-adjust: exact !important; print-color-adjust: exact !important; } .no-print { display: none; } }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <div class="logo-area"><img src="https://www.nabh.online/assets/hope-hospital-logo.png" alt="${hospitalConfig.name} Logo" /></div>
-  </div>
-
-  <div class="objective-line">${objectiveCode} - ${objectiveTitle}</div>
-
-  <div class="doc-title">[DOCUMENT TITLE]</div>
-
-  <table class="info-table">
-    <tr><th>Document No</th><td>${generateDocumentNumber(objectiveCode)}</td><th>Version</th><td>1.0</td></tr>
-    <tr><th>Department</th><td>[Department]</td><th>Category</th><td>[Policy/SOP/Record]</td></tr>
-    <tr><th>Effective Date</th><td>${getFormattedDate()}</td><th>Review Date</th><td>${getReviewDate()}</td></tr>
-  </table>
-
-  <table class="auth-table">
-    <tr><th>PREPARED BY</th><th>REVIEWED BY</th><th>APPROVED BY</th></tr>
-    <tr>
-      <td>Name: Sonali Kakde<br>Designation: Clinical Audit Coordinator<br>Date: ${getFormattedDate()}<br><br>Signature:<br><img src="/Sonali's signature.png" alt="Sonali Kakde Signature" style="height: 50px; max-width: 120px; object-fit: contain;"></td>
-      <td>Name: Gaurav Agrawal<br>Designation: Hospital Administrator<br>Date: ${getFormattedDate()}<br><br>Signature:<br><img src="/Gaurav's signature.png" alt="Gaurav Agrawal Signature" style="height: 50px; max-width: 120px; object-fit: contain;"></td>
-      <td>Name: Dr. Shiraz Khan<br>Designation: NABH Coordinator / Administrator<br>Date: ${getFormattedDate()}<br><br>Signature:<br><img src="/Dr shiraz's signature.png" alt="Dr. Shiraz Khan Signature" style="height: 50px; max-width: 120px; object-fit: contain;"></td>
-    </tr>
-  </table>
-
-  [MAIN CONTENT - Use the data from uploaded documents to create relevant sections]
-
-  <table class="revision-table">
-    <tr><th>Version</th><th>Date</th><th>Description</th><th>Changed By</th></tr>
-    <tr><td>1.0</td><td>${getFormattedDate()}</td><td>Initial Release</td><td>Sonali Kakde</td></tr>
-  </table>
-
-  <div class="stamp-area">[HOSPITAL STAMP AREA]</div>
-
-  <div class="footer">
-    <strong>${hospitalConfig.name}</strong> | ${hospitalConfig.address}<br>
-    Phone: ${hospitalConfig.phone} | Email: ${hospitalConfig.email} | Website: ${hospitalConfig.website}<br>
-    This is a controlled document. Unauthorized copying or distribution is prohibited.
-  </div>
-</body>
-</html>
-
-Generate the complete HTML document using the data from the uploaded documents. Fill in all sections appropriately based on the evidence requirement and the document data provided.`;
-
-    const data = await callGeminiAPI(prompt, 0.7, 16384);
+    const { hospitalConfig, objectiveCode, objectiveTitle, evidenceItemText, documentNumber } = request;
+
+    const resolved = await resolvePrompt('evidence-from-documents', {
+      hospitalName: hospitalConfig.name,
+      hospitalAddress: hospitalConfig.address,
+      hospitalPhone: hospitalConfig.phone,
+      hospitalEmail: hospitalConfig.email,
+      hospitalWebsite: hospitalConfig.website,
+      evidenceItemText,
+      objectiveCode,
+      objectiveTitle,
+      documentContext,
+      dataContext,
+      documentNumber: documentNumber || getDraftDocumentNumber(objectiveCode),
+      effectiveDate: getFormattedDate(),
+      reviewDate: getReviewDate(),
+    });
+
+    const data = await callGeminiAPI(resolved.prompt, resolved.temperature, resolved.maxTokens, resolved.feature);
     let htmlContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     // Extract HTML from markdown code blocks if present
@@ -713,11 +622,6 @@ Generate the complete HTML document using the data from the uploaded documents.
 export const formatDocumentAsEvidence = async (
   request: FormatDocumentRequest
 ): Promise<DocumentEvidenceResult> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return { success: false, error: 'Gemini API key not configured' };
-  }
-
   try {
     const { documentData, objectiveCode, objectiveTitle, fileNames, hospitalConfig, customPrompt } = request;
 
@@ -911,7 +815,7 @@ Generate a complete, print-ready HTML document using this template structure:
 
 CRITICAL: Output ONLY the complete HTML document.${isPromptOnly ? ' Generate comprehensive, realistic content based on the user instructions.' : ' Preserve ALL data from the uploaded documents - format tables as proper HTML tables, key-value pairs as info tables, and text content in sections.'}`;
 
-    const data = await callGeminiAPI(prompt, 0.3, 16384);
+    const data = await callGeminiAPI(prompt, 0.3, 16384, 'evidence-generation');
     let htmlContent = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     // Extract HTML from markdown code blocks if present
@@ -996,7 +900,7 @@ export const uploadFileToStorage = async (
       {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'apikey': SUPABASE_ANON_KEY,
           'x-upsert': 'true',
         },
@@ -1036,7 +940,7 @@ export const deleteFileFromStorage = async (storageUrl: string): Promise<{ succe
       {
         method: 'DELETE',
         headers: {
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'apikey': SUPABASE_ANON_KEY,
         },
       }
@@ -1087,7 +991,7 @@ export const saveGoogleDriveLink = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'return=representation',
         },
         body: JSON.stringify(record),
@@ -1149,7 +1053,7 @@ export const saveSourceDocument = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'return=representation',
         },
         body: JSON.stringify(record),
@@ -1202,7 +1106,7 @@ export const updateSourceDocumentExtraction = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify(updates),
       }
@@ -1236,7 +1140,7 @@ export const loadSourceDocuments = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1279,7 +1183,7 @@ export const deleteSourceDocument = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1388,7 +1292,7 @@ export const saveDocumentEvidence = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1411,7 +1315,7 @@ export const saveDocumentEvidence = async (
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'return=representation',
           },
           body: JSON.stringify({
@@ -1441,7 +1345,7 @@ export const saveDocumentEvidence = async (
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'return=representation',
           },
           body: JSON.stringify({
@@ -1484,7 +1388,7 @@ export const loadDocumentEvidence = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1518,7 +1422,7 @@ export const deleteDocumentEvidence = async (
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
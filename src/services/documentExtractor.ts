@@ -4,7 +4,8 @@
  * Uses Gemini Vision API for intelligent text extraction
  */
 
-import { callGeminiAPI, callGeminiVisionAPI, getGeminiApiKey } from '../lib/supabase';
+import { callGeminiAPI, callGeminiVisionAPI } from './aiGatewayClient';
+import { resolvePrompt } from './promptLibraryService';
 import { fetchRealPatients, fetchRealStaff, fetchVisitingConsultants } from './hopeHospitalDatabase';
 
 export interface ExtractionResult {
@@ -107,7 +108,6 @@ export const repairTruncatedJSON = (str: string): object | null => {
 const reExtractEmptyTables = async (
   file: File,
   parsedData: any,
-  geminiApiKey: string,
 ): Promise<any> => {
   if (!parsedData || !Array.isArray(parsedData.tables) || parsedData.tables.length === 0) {
     return parsedData;
@@ -186,24 +186,7 @@ RULES:
     const base64 = await fileToBase64(file);
     const mimeType = file.type === 'application/pdf' ? 'application/pdf' : file.type;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [
-              { text: reExtractPrompt },
-              { inline_data: { mime_type: mimeType, data: base64.split(',')[1] } }
-            ]
-          }],
-          generationConfig: { temperature: 0.1, maxOutputTokens: 32768 },
-        }),
-      }
-    );
-
-    const respData = await response.json();
+    const respData = await callGeminiVisionAPI(reExtractPrompt, { mime_type: mimeType, data: base64.split(',')[1] }, 0.1, 32768);
     const rawText = respData.candidates?.[0]?.content?.parts?.[0]?.text || '';
     console.log('[reExtractEmptyTables] Re-extraction response length:', rawText.length);
 
@@ -285,11 +268,6 @@ export const extractTextFromImage = async (
   file: File,
   prompt?: string
 ): Promise<ExtractionResult> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return { success: false, text: '', error: 'Gemini API key not configured' };
-  }
-
   try {
     const base64 = await fileToBase64(file);
     const defaultPrompt = `Extract ALL text content from this document image and return it as a JSON object.
@@ -340,24 +318,7 @@ General Rules:
 - Return ONLY the JSON object, no markdown code fences
 - Ensure valid JSON`;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [
-              { text: prompt || defaultPrompt },
-              { inline_data: { mime_type: file.type, data: base64.split(',')[1] } }
-            ]
-          }],
-          generationConfig: { temperature: 0.1, maxOutputTokens: 8192 },
-        }),
-      }
-    );
-
-    const data = await response.json();
+    const data = await callGeminiVisionAPI(prompt || defaultPrompt, { mime_type: file.type, data: base64.split(',')[1] }, 0.1, 8192);
     const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     // Try to extract clean JSON from response
@@ -382,7 +343,7 @@ General Rules:
         // If not valid JSON, skip re-extraction
       }
       if (parsed && Array.isArray(parsed.tables) && parsed.tables.length > 0) {
-        const improved = await reExtractEmptyTables(file, parsed, geminiApiKey);
+        const improved = await reExtractEmptyTables(file, parsed);
         structuredText = JSON.stringify(improved);
       }
     } catch (reExtractError) {
@@ -406,11 +367,6 @@ export const extractTextFromPDF = async (
 ): Promise<ExtractionResult> => {
   console.log('[extractTextFromPDF] Starting PDF extraction, file size:', file.size);
 
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    console.error('[extractTextFromPDF] Gemini API key not configured');
-    return { success: false, text: '', error: 'Gemini API key not configured' };
-  }
   console.log('[extractTextFromPDF] Gemini API key found');
 
   try {
@@ -475,32 +431,9 @@ General Rules:
 - Ensure valid JSON`;
 
     console.log('[extractTextFromPDF] Calling Gemini API...');
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [
-              { text: prompt || defaultPrompt },
-              { inline_data: { mime_type: 'application/pdf', data: base64.split(',')[1] } }
-            ]
-          }],
-          generationConfig: { temperature: 0.1, maxOutputTokens: 32768 },
-        }),
-      }
-    );
-
-    console.log('[extractTextFromPDF] Gemini API response status:', response.status);
-    const data = await response.json();
+    const data = await callGeminiVisionAPI(prompt || defaultPrompt, { mime_type: 'application/pdf', data: base64.split(',')[1] }, 0.1, 32768);
     console.log('[extractTextFromPDF] Gemini API response:', JSON.stringify(data).substring(0, 500));
 
-    if (data.error) {
-      console.error('[extractTextFromPDF] Gemini API error:', data.error);
-      return { success: false, text: '', error: data.error.message || 'Gemini API error' };
-    }
-
     const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
     const finishReason = data.candidates?.[0]?.finishReason || '';
     console.log('[extractTextFromPDF] Raw text length:', rawText.length, 'finishReason:', finishReason);
@@ -542,7 +475,7 @@ General Rules:
         // If not valid JSON, skip re-extraction
       }
       if (parsed && Array.isArray(parsed.tables) && parsed.tables.length > 0) {
-        const improved = await reExtractEmptyTables(file, parsed, geminiApiKey);
+        const improved = await reExtractEmptyTables(file, parsed);
         structuredText = JSON.stringify(improved);
       }
     } catch (reExtractError) {
@@ -563,11 +496,6 @@ export const analyzeDocument = async (
   text: string,
   documentCategory: string
 ): Promise<DocumentAnalysis> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return { documentType: 'unknown', sections: [] };
-  }
-
   const prompts: Record<string, string> = {
     stationery: `Analyze this hospital stationery/form text and extract:
 1. Document type (form, register, certificate, letterhead, etc.)
@@ -624,19 +552,7 @@ Return as JSON with keys: title, slides[{title, content, keyPoints[]}], suggesti
   };
 
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompts[documentCategory] || prompts.stationery }] }],
-          generationConfig: { temperature: 0.3, maxOutputTokens: 4096 },
-        }),
-      }
-    );
-
-    const data = await response.json();
+    const data = await callGeminiAPI(prompts[documentCategory] || prompts.stationery, 0.3, 4096, 'document-extraction');
     const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     // Try to parse JSON from response
@@ -676,11 +592,6 @@ export const generateImprovedDocument = async (
   userSuggestions: string,
   hospitalName: string = 'Hope Hospital'
 ): Promise<string> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return '';
-  }
-
   const prompts: Record<string, string> = {
     stationery: `Create an improved, professionally formatted hospital document based on this extracted content.
 
@@ -761,19 +672,7 @@ Generate complete HTML presentation with multiple slides.`,
   };
 
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompts[documentCategory] || prompts.stationery }] }],
-          generationConfig: { temperature: 0.7, maxOutputTokens: 8192 },
-        }),
-      }
-    );
-
-    const data = await response.json();
+    const data = await callGeminiAPI(prompts[documentCategory] || prompts.stationery, 0.7, 8192, 'evidence-generation');
     let content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     // Extract HTML from response
@@ -800,19 +699,8 @@ export const extractCommitteeData = async (text: string): Promise<{
   meetingFrequency: string;
   responsibilities: string[];
 }> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return { name: '', description: '', objectives: [], members: [], meetingFrequency: '', responsibilities: [] };
-  }
-
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: `Extract committee information from this document:
+    const data = await callGeminiAPI(`Extract committee information from this document:
 
 ${text}
 
@@ -826,13 +714,7 @@ Return JSON with:
   "responsibilities": ["responsibility1", "responsibility2"]
 }
 
-Only return the JSON, no other text.` }] }],
-          generationConfig: { temperature: 0.3, maxOutputTokens: 2048 },
-        }),
-      }
-    );
-
-    const data = await response.json();
+Only return the JSON, no other text.`, 0.3, 2048, 'document-extraction');
     const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     try {
@@ -857,19 +739,8 @@ Only return the JSON, no other text.` }] }],
 export const extractKPIData = async (text: string): Promise<{
   kpis: { name: string; category: string; target: number; unit: string; formula: string }[];
 }> => {
-  const geminiApiKey = getGeminiApiKey();
-  if (!geminiApiKey) {
-    return { kpis: [] };
-  }
-
   try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: `Extract KPI/Quality Indicator information from this document:
+    const data = await callGeminiAPI(`Extract KPI/Quality Indicator information from this document:
 
 ${text}
 
@@ -886,13 +757,7 @@ Return JSON with:
   ]
 }
 
-Only return the JSON, no other text.` }] }],
-          generationConfig: { temperature: 0.3, maxOutputTokens: 4096 },
-        }),
-      }
-    );
-
-    const data = await response.json();
+Only return the JSON, no other text.`, 0.3, 4096, 'document-extraction');
     const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
     try {
@@ -1012,213 +877,30 @@ export const generateSOPFromContent = async (
     : 'No doctor data available';
 
   try {
-    const prompt = `You are an expert in NABH (National Accreditation Board for Hospitals and Healthcare Providers) accreditation documentation for Hope Hospital.
-
-## CRITICAL RULE - REAL DATA ONLY (STRICTLY ENFORCED):
-You MUST use ONLY the real data provided below from the hospital database. This is NON-NEGOTIABLE:
-- Every patient name, Visit ID, diagnosis, and date MUST come from the database list below
-- Every staff member name, designation, and department MUST come from the database list below
-- Every doctor name, qualification, and registration number MUST come from the database list below
-- Do NOT invent, fabricate, or hallucinate ANY names, IDs, dates, diagnoses, or other data
-- If you need data that is not available in the database below, use generic role-based references (e.g., "Duty Nurse", "On-call Doctor") instead of making up names
-- Any example, case study, or reference in the SOP must use ONLY real patient/staff/doctor names from the lists below
-
-## ABSOLUTE NAME RESTRICTION (ZERO TOLERANCE):
-- The ONLY person names you may use in this entire document are from the Staff Members and Doctors lists below. NO EXCEPTIONS.
-- If the SOP requires a role that doesn't exist in the staff list (e.g., "Chief Engineer", "Electrical Technician", "Bio-Medical Engineer"),
-  assign the CLOSEST matching real staff member from the list OR use the role title only (e.g., "The Chief Engineer" without a personal name).
-- NEVER invent names. Examples of FAKE names you must NEVER use: Rajesh Kumar, Amit Patel, Sunita Sharma, Priya Singh, Anil Gupta, Vikram Mehta, Suresh Reddy, Deepak Verma, Meena Joshi, Sanjay Mishra.
-  If ANY name in your output does not appear in the database lists below, that is a CRITICAL ERROR.
-- For the "Responsibility" section specifically: ONLY pick names from the Staff Members and Doctors lists provided below. Map each responsibility to the closest matching real staff member by their designation/department.
-
-## DOCTOR SELECTION - MATCH BY DEPARTMENT/SPECIALTY (IMPORTANT):
-- There are ${realDoctors.length} doctors/visiting consultants available. Pick the ones MOST RELEVANT to this SOP's topic based on their department and specialty.
-- For example: if the SOP is about cardiac care, pick cardiologists. If about orthopedic procedures, pick orthopedic surgeons. If about infection control, pick relevant specialists.
-- Do NOT default to the same few doctors every time. Carefully scan the FULL list below and select doctors whose department/specialty matches this SOP's subject.
-- Use at least 5-8 different doctors where applicable, chosen by relevance to the SOP topic.
-
-## REAL HOSPITAL DATABASE (${realPatients.length} patients, ${realStaff.length} staff, ${realDoctors.length} doctors):
-### Patients:
-${patientList}
-
-### Staff Members:
-${staffList}
-
-### Doctors / Visiting Consultants:
-${doctorList}
-
----
-
-Generate a complete Standard Operating Procedure (SOP) HTML document in ENGLISH ONLY.
-
-## CONTEXT
-- Hospital Chapter: ${chapterCode} - ${chapterName}
-- Objective Code: ${objectiveCode || chapterCode}
-- SHCO 3rd Edition Interpretation & Objective:
-${titlesInterpretation}
-
-## Historical Data / Source Content:
-${pdfContent}
-
-## User Specific Instructions:
-${customPrompt}
-
-IMPORTANT: Generate the output as a complete, valid HTML document with embedded CSS styling. The document must be modern, professional, and print-ready.
-
-Use EXACTLY this HTML template structure (fill in the content sections):
-
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <title>SOP - ${objectiveCode || chapterCode} - Hope Hospital</title>
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; font-size: 14px; line-height: 1.6; color: #333; padding: 0 15px 15px; width: 100%; max-width: 800px; margin-left: auto !important; margin-right: auto !important; }
-    .header { text-align: center; border-bottom: 3px solid #1565C0; padding-bottom: 5px; margin-bottom: 15px; margin-top: 0 !important; padding-top: 0 !important; line-height: 1; }
-    .logo { width: 180px; height: auto; margin: 0 auto !important; padding: 0 !important; display: block; vertical-align: top; }
-    .hospital-address { font-size: 13px; color: #666; margin: 0 !important; padding: 0 !important; line-height: 1.2; }
-    .doc-title { background: linear-gradient(135deg, #1565C0, #0D47A1); color: white; padding: 12px; font-size: 20px; font-weight: bold; text-align: center; margin: 20px 0; border-radius: 5px; }
-    .info-table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
-    .info-table th, .info-table td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-    .info-table th { background: #f5f5f5; font-weight: 600; width: 25%; }
-    .auth-table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-    .auth-table th { background: linear-gradient(135deg, #1565C0, #0D47A1); color: white; padding: 10px; text-align: center; }
-    .auth-table td { border: 1px solid #ddd; padding: 15px; text-align: center; vertical-align: top; }
-    .signature-box { margin-top: 10px; padding: 8px; border: 1px solid #1565C0; border-radius: 5px; background: #f8f9fa; }
-    .signature-name { font-weight: bold; color: #1565C0; font-size: 16px; }
-    .signature-line { font-family: 'Brush Script MT', cursive; font-size: 22px; color: #0D47A1; margin: 5px 0; }
-    .section { margin: 20px 0; page-break-inside: avoid; }
-    .section-title { background: #e3f2fd; padding: 8px 12px; font-weight: bold; color: #1565C0; border-left: 4px solid #1565C0; margin-bottom: 10px; }
-    .section-content { padding: 10px 15px; page-break-inside: avoid; }
-    .section-content ul { margin-left: 20px; }
-    .section-content li { margin: 5px 0; page-break-inside: avoid; }
-    .procedure-step { margin: 10px 0; padding: 10px; background: #fafafa; border-radius: 5px; border-left: 3px solid #1565C0; page-break-inside: avoid; }
-    .step-number { display: inline-block; width: 25px; height: 25px; background: #1565C0; color: white; border-radius: 50%; text-align: center; line-height: 25px; margin-right: 10px; font-weight: bold; }
-    .data-table { width: 100%; border-collapse: collapse; margin: 10px 0; }
-    .data-table th { background: #1565C0; color: white; padding: 10px; text-align: left; }
-    .data-table td { border: 1px solid #ddd; padding: 8px; }
-    .data-table tr:nth-child(even) { background: #f9f9f9; }
-    .footer { margin-top: 30px; padding-top: 15px; border-top: 2px solid #1565C0; text-align: center; font-size: 12px; color: #666; }
-    .revision-table { width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 13px; }
-    .revision-table th { background: #455a64; color: white; padding: 8px; }
-    .revision-table td { border: 1px solid #ddd; padding: 8px; }
-    .stamp-area { border: 2px dashed #1565C0; border-radius: 10px; padding: 15px; text-align: center; margin: 20px 0; background: #f8f9fa; }
-    .stamp-text { font-weight: bold; color: #1565C0; font-size: 16px; }
-    @media print { body { padding: 0; max-width: 100%; margin: 0 auto; } .no-print { display: none; } @page { margin: 20mm; size: A4; } .section, .section-content, .procedure-step, .info-table, .auth-table, .data-table, tr { page-break-inside: avoid; } }
-  </style>
-</head>
-<body>
-  <div style="font-size: 28px; font-weight: bold; color: #1565C0; margin-bottom: 10px;">SOP</div>
-  <div class="header">
-    <img src="${logoUrl}" alt="Dr. Murali's Hope Hospital" class="logo" style="width: 180px; height: auto; display: block; margin: 0 auto !important; padding: 0 !important; vertical-align: top;">
-    <div class="hospital-address">2, Teka Naka, Nagpur, Maharashtra 440022 | Phone: +91 9823555053 | Email: info@hopehospital.com</div>
-  </div>
-
-  <div class="doc-title">SOP-${objectiveCode || chapterCode} - ${objectiveTitle}</div>
-
-  <table class="info-table">
-    <tr><th>Document No</th><td>${docNo}</td><th>Version</th><td>1.0</td></tr>
-    <tr><th>Department</th><td>Quality Department</td><th>Category</th><td>SOP</td></tr>
-    <tr><th>Effective Date</th><td>${formatDate(effectiveDate)}</td><th>Review Date</th><td>${formatDate(reviewDate)}</td></tr>
-    <tr><th>Objective Code</th><td colspan="3">${objectiveCode || chapterCode} - [Objective Title from content]</td></tr>
-  </table>
-
-  <table class="auth-table">
-    <tr><th>PREPARED BY</th><th>REVIEWED BY</th><th>APPROVED BY</th></tr>
-    <tr>
-      <td>
-        <div>Name: Sonali Kakde</div>
-        <div>Designation: Clinical Audit Coordinator</div>
-        <div>Date: ${formatDate(effectiveDate)}</div>
-        <div style="margin-top: 10px;">Signature:</div>
-        <img src="${sonaliSignature}" alt="Sonali Signature" style="height: 50px; max-width: 120px; object-fit: contain;">
-      </td>
-      <td>
-        <div>Name: Gaurav Agrawal</div>
-        <div>Designation: Hospital Administrator</div>
-        <div>Date: ${formatDate(effectiveDate)}</div>
-        <div style="margin-top: 10px;">Signature:</div>
-        <img src="${gauravSignature}" alt="Gaurav Signature" style="height: 50px; max-width: 120px; object-fit: contain;">
-      </td>
-      <td>
-        <div>Name: Dr. Shiraz Khan</div>
-        <div>Designation: Quality Coordinator / Administrator</div>
-        <div>Date: ${formatDate(effectiveDate)}</div>
-        <div style="margin-top: 10px;">Signature:</div>
-        <img src="${shirazSignature}" alt="Dr. Shiraz Signature" style="height: 50px; max-width: 120px; object-fit: contain;">
-      </td>
-    </tr>
-  </table>
-
-  [GENERATE THESE SECTIONS WITH DETAILED CONTENT:]
-
-  <div class="section">
-    <div class="section-title">1. Purpose</div>
-    <div class="section-content">[Generate detailed purpose based on the objective and interpretation]</div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">2. Scope</div>
-    <div class="section-content">[Generate scope and applicability]</div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">3. Responsibility</div>
-    <div class="section-content">[List responsible personnel - ONLY use names from the REAL staff database below. DO NOT invent any names.
-Real Staff Members:
-${staffList}
-Real Doctors:
-${doctorList}
-Map each SOP responsibility to the closest matching real staff member above. If no staff member matches a role, use the role title only WITHOUT a personal name (e.g., "The Maintenance In-charge" not "Rajesh Kumar, Maintenance In-charge").]</div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">4. Definitions</div>
-    <div class="section-content">[Define key terms used in this SOP]</div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">5. Procedure</div>
-    <div class="section-content">
-      [Generate detailed step-by-step procedure using procedure-step divs:
-      <div class="procedure-step"><span class="step-number">1</span> Step description...</div>
-      ]
-    </div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">6. Documentation</div>
-    <div class="section-content">[List required documents, forms, and records]</div>
-  </div>
-
-  <div class="section">
-    <div class="section-title">7. References</div>
-    <div class="section-content">[Reference NABH standards, guidelines, and related documents]</div>
-  </div>
-
-  <table class="revision-table">
-    <tr><th>Version</th><th>Date</th><th>Description</th><th>Author</th></tr>
-    <tr><td>1.0</td><td>${formatDate(effectiveDate)}</td><td>Initial Release</td><td>Sonali Kakde</td></tr>
-  </table>
-
-  <div class="stamp-area">
-    <div class="stamp-text">[HOSPITAL STAMP AREA]</div>
-  </div>
-
-  <div class="footer">
-    <strong>Hope Hospital</strong> | 2, Teka Naka, Nagpur | Phone: +91 9823555053 | Email: info@hopehospital.com<br>
-    This is a controlled document. Unauthorized copying is prohibited.
-  </div>
-</body>
-</html>
-
-REMINDER: Every single name (patient, staff, doctor) in this SOP MUST come from the REAL HOSPITAL DATABASE provided above. Zero fabricated data allowed. Use actual Visit IDs, real diagnoses, and real dates from the database.
-
-Generate the complete HTML document with all sections filled with relevant, professional content based on the provided interpretation and source content. Return ONLY the HTML, no markdown or explanations.`;
-
-    console.log('[generateSOPFromContent] Calling secure backend proxy...');
-    const data = await callGeminiAPI(prompt, 0.7, 8192);
+    const resolved = await resolvePrompt('sop-from-content', {
+      doctorCount: realDoctors.length,
+      patientCount: realPatients.length,
+      staffCount: realStaff.length,
+      patientList,
+      staffList,
+      doctorList,
+      chapterCode,
+      chapterName,
+      objectiveCode: objectiveCode || chapterCode,
+      objectiveTitle,
+      titlesInterpretation,
+      pdfContent,
+      customPrompt,
+      docNo,
+      effectiveDate: formatDate(effectiveDate),
+      reviewDate: formatDate(reviewDate),
+      logoUrl,
+      sonaliSignature,
+      gauravSignature,
+      shirazSignature,
+    });
+
+    const data = await callGeminiAPI(resolved.prompt, resolved.temperature, resolved.maxTokens, resolved.feature);
 
     let sop = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
@@ -1304,7 +986,7 @@ ${oldSOPText}
 Start directly with bullet points. No commentary or analysis.`;
 
     console.log('[filterRelevantContent] Calling secure backend proxy...');
-    const data = await callGeminiAPI(prompt, 0.3, 8192);
+    const data = await callGeminiAPI(prompt, 0.3, 8192, 'document-extraction');
 
     let filteredText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
 
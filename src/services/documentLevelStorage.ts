@@ -11,6 +11,7 @@ export interface DocumentLevelItem {
   images?: string[];
   category?: string;
   effective_date?: string;
+  review_date?: string; // periodic review (see documentReviewStorage)
   version: string;
   status: 'Active' | 'Draft' | 'Archived';
   created_at: string;
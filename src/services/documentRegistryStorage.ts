@@ -0,0 +1,194 @@
+// Document Registry Storage Service for Supabase
+// Allocates gap-free document numbers and keeps the document master list
+
+import { getAuthToken } from '../lib/supabase';
+import type {
+  DocumentRegistryEntry,
+  AllocateDocumentNumberRequest,
+  DocumentOwnerType,
+  DocumentType,
+} from '../types/documentRegistry';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  DOC: 'Document / Evidence',
+  SOP: 'Standard Operating Procedure',
+  POL: 'Policy',
+  MAN: 'Manual',
+  FRM: 'Form / Format',
+  REG: 'Register / Log',
+};
+
+/**
+ * Allocate the next sequential number for a hospital, type and chapter.
+ * Runs in the allocate_document_number database function so that
+ * concurrent allocations never collide or leave gaps.
+ */
+export async function allocateDocumentNumber(
+  request: AllocateDocumentNumberRequest
+): Promise<{ success: boolean; data?: DocumentRegistryEntry; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/allocate_document_number`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({
+          p_hospital_id: request.hospitalId,
+          p_doc_type: request.docType,
+          p_chapter_code: request.chapterCode,
+          p_title: request.title,
+          p_owner_type: request.ownerType || 'other',
+          p_owner_id: request.ownerId || null,
+          p_objective_code: request.objectiveCode || null,
+          p_version: request.version || '1.0',
+          p_review_date: request.reviewDate || null,
+          p_allocated_by: request.allocatedBy || null,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error allocating document number:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as DocumentRegistryEntry };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error allocating document number:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the document master list for a hospital
+ */
+export async function loadDocumentRegistry(
+  hospitalId: string
+): Promise<{ success: boolean; data?: DocumentRegistryEntry[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_document_registry?hospital_id=eq.${encodeURIComponent(hospitalId)}&order=chapter_code.asc,doc_type.asc,sequence.asc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading document registry:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as DocumentRegistryEntry[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading document registry:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update a registry entry (version, review date, status, remarks)
+ */
+export async function updateDocumentRegistryEntry(
+  id: string,
+  updates: Partial<Pick<DocumentRegistryEntry, 'title' | 'version' | 'effective_date' | 'review_date' | 'status' | 'remarks' | 'owner_type' | 'owner_id'>>
+): Promise<{ success: boolean; data?: DocumentRegistryEntry; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_document_registry?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(updates),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating document registry:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as DocumentRegistryEntry };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating document registry:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Record which saved item owns a reserved number and make it active
+ */
+export async function linkDocumentOwner(
+  id: string,
+  ownerType: DocumentOwnerType,
+  ownerId: string
+): Promise<{ success: boolean; data?: DocumentRegistryEntry; error?: string }> {
+  return updateDocumentRegistryEntry(id, {
+    owner_type: ownerType,
+    owner_id: ownerId,
+    status: 'Active',
+    effective_date: new Date().toISOString().split('T')[0],
+  });
+}
+
+/**
+ * Withdraw a number. Entries are never deleted so the sequence stays gap-free.
+ */
+export async function withdrawDocumentNumber(
+  id: string,
+  remarks: string
+): Promise<{ success: boolean; data?: DocumentRegistryEntry; error?: string }> {
+  return updateDocumentRegistryEntry(id, { status: 'Withdrawn', remarks });
+}
+
+/**
+ * Sequence numbers missing from the register, per type and chapter.
+ * With database allocation this should always be empty; the master list
+ * shows it so document control can prove continuity to the assessor.
+ */
+export function findSequenceGaps(
+  entries: Pick<DocumentRegistryEntry, 'doc_type' | 'chapter_code' | 'sequence'>[]
+): { series: string; missing: number[] }[] {
+  const series = new Map<string, number[]>();
+  entries.forEach(entry => {
+    const key = `${entry.doc_type}-${entry.chapter_code}`;
+    series.set(key, [...(series.get(key) || []), entry.sequence]);
+  });
+
+  const gaps: { series: string; missing: number[] }[] = [];
+  series.forEach((sequences, key) => {
+    const present = new Set(sequences);
+    const max = Math.max(...sequences);
+    const missing: number[] = [];
+    for (let i = 1; i <= max; i++) {
+      if (!present.has(i)) missing.push(i);
+    }
+    if (missing.length > 0) gaps.push({ series: key, missing });
+  });
+  return gaps;
+}
@@ -0,0 +1,458 @@
+// Document Review Storage Service for Supabase
+// Scans generated SOPs, uploaded SOPs, hospital manuals and document-level items
+// for due reviews and records reviewer assignments and outcomes
+
+import { getAuthToken } from '../lib/supabase';
+import type {
+  DocumentReviewTask,
+  ReviewableDocument,
+  ReviewDocumentType,
+  ReviewDueStatus,
+} from '../types/documentReview';
+import { getDaysUntil } from './complianceCalendarEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Documents are reviewed yearly unless they carry their own frequency (manuals)
+export const DEFAULT_REVIEW_PERIOD_MONTHS = 12;
+
+// Default "due soon" window on the review scheduler and dashboard
+export const DEFAULT_REVIEW_WINDOW_DAYS = 30;
+
+export const REVIEW_DOCUMENT_TYPE_LABELS: Record<ReviewDocumentType, string> = {
+  generated_sop: 'Generated SOP',
+  sop_document: 'SOP Document',
+  manual: 'Hospital Manual',
+  document_level: 'Document Level Item',
+};
+
+const MANUAL_REVIEW_MONTHS: Record<string, number> = {
+  'Monthly': 1,
+  'Quarterly': 3,
+  'Half-yearly': 6,
+  'Yearly': 12,
+};
+
+// Table and column holding each source's review date
+const REVIEW_DATE_COLUMNS: Record<ReviewDocumentType, { table: string; column: string }> = {
+  generated_sop: { table: 'nabh_generated_sops', column: 'review_date' },
+  sop_document: { table: 'nabh_sop_documents', column: 'review_date' },
+  manual: { table: 'hospital_manuals', column: 'next_review_date' },
+  document_level: { table: 'nabh_document_levels', column: 'review_date' },
+};
+
+const isISODate = (value: string | null | undefined): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Add whole months to an ISO date (2026-01-31 + 1 → 2026-02-28)
+ */
+export function addReviewPeriod(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toISODate(target);
+}
+
+export function getReviewDueStatus(reviewDate: string, windowDays: number, today: Date = new Date()): ReviewDueStatus {
+  const daysUntil = getDaysUntil(reviewDate, today);
+  if (daysUntil < 0) return 'Overdue';
+  if (daysUntil <= windowDays) return 'Due Soon';
+  return 'Upcoming';
+}
+
+/**
+ * Review date of a document: its own date when set, otherwise one review
+ * period after it became effective (or was created)
+ */
+export function resolveReviewDate(
+  reviewDate: string | null | undefined,
+  baseDate: string | null | undefined,
+  periodMonths: number
+): { date: string; derived: boolean } | null {
+  if (isISODate(reviewDate)) return { date: reviewDate.slice(0, 10), derived: false };
+  if (isISODate(baseDate)) return { date: addReviewPeriod(baseDate, periodMonths), derived: true };
+  return null;
+}
+
+async function fetchRows<T>(table: string, query: string): Promise<T[]> {
+  const response = await fetch(
+    `${SUPABASE_URL}/rest/v1/${table}?${query}`,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${await getAuthToken()}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${table} ${response.status}: ${errorText}`);
+  }
+
+  return (await response.json()) as T[];
+}
+
+type DocumentSource = Omit<ReviewableDocument, 'dueStatus' | 'daysUntilDue' | 'openTask'>;
+
+// ============================================
+// Source loaders
+// ============================================
+
+async function loadGeneratedSOPSources(hospitalId: string): Promise<DocumentSource[]> {
+  const rows = await fetchRows<{
+    id: string;
+    objective_code: string;
+    objective_title: string;
+    chapter_code: string;
+    document_number: string | null;
+    version: string | null;
+    review_date: string | null;
+    effective_date: string | null;
+    created_at: string;
+    created_by: string | null;
+  }>('nabh_generated_sops', `select=id,objective_code,objective_title,chapter_code,document_number,version,review_date,effective_date,created_at,created_by&status=neq.Archived&hospital_id=eq.${encodeURIComponent(hospitalId)}`);
+
+  return rows.flatMap(row => {
+    const review = resolveReviewDate(row.review_date, row.effective_date || row.created_at, DEFAULT_REVIEW_PERIOD_MONTHS);
+    if (!review) return [];
+    return [{
+      documentType: 'generated_sop' as const,
+      documentId: row.id,
+      title: `${row.objective_code} ${row.objective_title || ''}`.trim(),
+      reference: row.document_number || row.objective_code,
+      version: row.version,
+      reviewDate: review.date,
+      reviewDateDerived: review.derived,
+      reviewPeriodMonths: DEFAULT_REVIEW_PERIOD_MONTHS,
+      owner: row.created_by,
+      path: `/recent-sops?chapter=${encodeURIComponent(row.chapter_code)}&objective=${encodeURIComponent(row.objective_code)}`,
+    }];
+  });
+}
+
+async function loadSOPDocumentSources(hospitalId: string): Promise<DocumentSource[]> {
+  const rows = await fetchRows<{
+    id: string;
+    chapter_code: string;
+    title: string;
+    version: string | null;
+    review_date: string | null;
+    effective_date: string | null;
+    created_at: string;
+    author: string | null;
+  }>('nabh_sop_documents', `select=id,chapter_code,title,version,review_date,effective_date,created_at,author&status=neq.Archived&hospital_id=eq.${encodeURIComponent(hospitalId)}`);
+
+  return rows.flatMap(row => {
+    const review = resolveReviewDate(row.review_date, row.effective_date || row.created_at, DEFAULT_REVIEW_PERIOD_MONTHS);
+    if (!review) return [];
+    return [{
+      documentType: 'sop_document' as const,
+      documentId: row.id,
+      title: row.title,
+      reference: row.chapter_code,
+      version: row.version,
+      reviewDate: review.date,
+      reviewDateDerived: review.derived,
+      reviewPeriodMonths: DEFAULT_REVIEW_PERIOD_MONTHS,
+      owner: row.author,
+      path: '/sops',
+    }];
+  });
+}
+
+async function loadManualSources(hospitalId: string): Promise<DocumentSource[]> {
+  const rows = await fetchRows<{
+    id: string;
+    title: string;
+    category: string;
+    version: string | null;
+    next_review_date: string | null;
+    last_updated: string | null;
+    created_date: string | null;
+    review_frequency: string | null;
+    author: string | null;
+  }>('hospital_manuals', `select=id,title,category,version,next_review_date,last_updated,created_date,review_frequency,author&is_active=eq.true&status=neq.Archived&hospital_id=eq.${encodeURIComponent(hospitalId)}`);
+
+  return rows.flatMap(row => {
+    // "As needed" manuals have no periodic review
+    const periodMonths = MANUAL_REVIEW_MONTHS[row.review_frequency || 'Yearly'];
+    if (!periodMonths) return [];
+    const review = resolveReviewDate(row.next_review_date, row.last_updated || row.created_date, periodMonths);
+    if (!review) return [];
+    return [{
+      documentType: 'manual' as const,
+      documentId: row.id,
+      title: row.title,
+      reference: row.category,
+      version: row.version,
+      reviewDate: review.date,
+      reviewDateDerived: review.derived,
+      reviewPeriodMonths: periodMonths,
+      owner: row.author,
+      path: '/manuals',
+    }];
+  });
+}
+
+async function loadDocumentLevelSources(hospitalId: string): Promise<DocumentSource[]> {
+  const rows = await fetchRows<{
+    id: string;
+    level: number;
+    title: string;
+    version: string | null;
+    review_date: string | null;
+    effective_date: string | null;
+    created_at: string;
+  }>('nabh_document_levels', `select=id,level,title,version,review_date,effective_date,created_at&status=neq.Archived&hospital_id=eq.${encodeURIComponent(hospitalId)}`);
+
+  return rows.flatMap(row => {
+    const review = resolveReviewDate(row.review_date, row.effective_date || row.created_at, DEFAULT_REVIEW_PERIOD_MONTHS);
+    if (!review) return [];
+    return [{
+      documentType: 'document_level' as const,
+      documentId: row.id,
+      title: row.title,
+      reference: `Level ${row.level}`,
+      version: row.version,
+      reviewDate: review.date,
+      reviewDateDerived: review.derived,
+      reviewPeriodMonths: DEFAULT_REVIEW_PERIOD_MONTHS,
+      owner: null,
+      path: `/document-levels?level=${row.level}`,
+    }];
+  });
+}
+
+/**
+ * Load open review tasks (Assigned or In Revision) for a hospital
+ */
+export async function loadOpenReviewTasks(
+  hospitalId: string
+): Promise<{ success: boolean; data?: DocumentReviewTask[]; error?: string }> {
+  try {
+    const data = await fetchRows<DocumentReviewTask>(
+      'nabh_document_reviews',
+      `hospital_id=eq.${encodeURIComponent(hospitalId)}&status=neq.Completed&order=due_date.asc`
+    );
+    return { success: true, data };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading review tasks:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load completed reviews for a hospital, newest first
+ */
+export async function loadReviewHistory(
+  hospitalId: string
+): Promise<{ success: boolean; data?: DocumentReviewTask[]; error?: string }> {
+  try {
+    const data = await fetchRows<DocumentReviewTask>(
+      'nabh_document_reviews',
+      `hospital_id=eq.${encodeURIComponent(hospitalId)}&status=eq.Completed&order=completed_at.desc&limit=200`
+    );
+    return { success: true, data };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading review history:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Documents whose review date has passed or falls within the window.
+ * Sources load independently so one failing table does not hide the rest.
+ */
+export async function loadDocumentsDueForReview(
+  hospitalId: string,
+  windowDays: number = DEFAULT_REVIEW_WINDOW_DAYS,
+  today: Date = new Date()
+): Promise<{ success: boolean; data: ReviewableDocument[]; errors: Partial<Record<ReviewDocumentType | 'tasks', string>> }> {
+  const loaders: [ReviewDocumentType, () => Promise<DocumentSource[]>][] = [
+    ['generated_sop', () => loadGeneratedSOPSources(hospitalId)],
+    ['sop_document', () => loadSOPDocumentSources(hospitalId)],
+    ['manual', () => loadManualSources(hospitalId)],
+    ['document_level', () => loadDocumentLevelSources(hospitalId)],
+  ];
+
+  const [results, tasks] = await Promise.all([
+    Promise.allSettled(loaders.map(([, load]) => load())),
+    loadOpenReviewTasks(hospitalId),
+  ]);
+
+  const errors: Partial<Record<ReviewDocumentType | 'tasks', string>> = {};
+  const sources: DocumentSource[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      sources.push(...result.value);
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+      console.error('Error loading review source:', loaders[index][0], message);
+      errors[loaders[index][0]] = message;
+    }
+  });
+  if (!tasks.success) errors.tasks = tasks.error;
+
+  const openTasks = tasks.data || [];
+  const data = sources
+    .map(source => ({
+      ...source,
+      dueStatus: getReviewDueStatus(source.reviewDate, windowDays, today),
+      daysUntilDue: getDaysUntil(source.reviewDate, today),
+      openTask: openTasks.find(task => task.document_type === source.documentType && task.document_id === source.documentId) || null,
+    }))
+    // Documents already in revision stay listed until the revision is completed
+    .filter(doc => doc.dueStatus !== 'Upcoming' || doc.openTask)
+    .sort((a, b) => a.reviewDate.localeCompare(b.reviewDate));
+
+  return { success: Object.keys(errors).length === 0, data, errors };
+}
+
+const saveReviewTask = async (
+  taskId: string | null,
+  values: Partial<DocumentReviewTask>
+): Promise<{ success: boolean; data?: DocumentReviewTask; error?: string }> => {
+  const response = await fetch(
+    taskId
+      ? `${SUPABASE_URL}/rest/v1/nabh_document_reviews?id=eq.${taskId}`
+      : `${SUPABASE_URL}/rest/v1/nabh_document_reviews`,
+    {
+      method: taskId ? 'PATCH' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${await getAuthToken()}`,
+        'Prefer': 'return=representation',
+      },
+      body: JSON.stringify(values),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Error saving review task:', response.status, errorText);
+    return { success: false, error: `${response.status}: ${errorText}` };
+  }
+
+  const data = await response.json();
+  return { success: true, data: data[0] as DocumentReviewTask };
+};
+
+const newTaskValues = (hospitalId: string, doc: ReviewableDocument): Partial<DocumentReviewTask> => ({
+  hospital_id: hospitalId,
+  document_type: doc.documentType,
+  document_id: doc.documentId,
+  document_title: doc.title,
+  due_date: doc.reviewDate,
+});
+
+/**
+ * Assign (or reassign) a reviewer to a document due for review
+ */
+export async function assignReviewer(
+  hospitalId: string,
+  doc: ReviewableDocument,
+  reviewer: string,
+  assignedBy?: string
+): Promise<{ success: boolean; data?: DocumentReviewTask; error?: string }> {
+  try {
+    const assignment = {
+      reviewer,
+      assigned_by: assignedBy || null,
+      assigned_at: new Date().toISOString(),
+    };
+    return await saveReviewTask(
+      doc.openTask?.id || null,
+      doc.openTask ? assignment : { ...newTaskValues(hospitalId, doc), ...assignment, status: 'Assigned' }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error assigning reviewer:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Mark that a new revision has been opened; the document stays on the
+ * scheduler until the revision is completed
+ */
+export async function openReviewRevision(
+  hospitalId: string,
+  doc: ReviewableDocument,
+  remarks?: string
+): Promise<{ success: boolean; data?: DocumentReviewTask; error?: string }> {
+  try {
+    const values = { status: 'In Revision' as const, remarks: remarks || doc.openTask?.remarks || null };
+    return await saveReviewTask(
+      doc.openTask?.id || null,
+      doc.openTask ? values : { ...newTaskValues(hospitalId, doc), ...values }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error opening revision:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Complete a review: "No Change" after reading the document, or "Revised"
+ * once the new revision is issued. Either way the document's review date
+ * moves one review period forward from today.
+ */
+export async function completeDocumentReview(
+  hospitalId: string,
+  doc: ReviewableDocument,
+  outcome: 'No Change' | 'Revised',
+  remarks?: string,
+  today: Date = new Date()
+): Promise<{ success: boolean; data?: DocumentReviewTask; error?: string }> {
+  try {
+    const nextReviewDate = addReviewPeriod(toISODate(today), doc.reviewPeriodMonths);
+    const { table, column } = REVIEW_DATE_COLUMNS[doc.documentType];
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/${table}?id=eq.${doc.documentId}&hospital_id=eq.${encodeURIComponent(hospitalId)}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({ [column]: nextReviewDate }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating review date:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const values = {
+      status: 'Completed' as const,
+      outcome,
+      completed_at: new Date().toISOString(),
+      next_review_date: nextReviewDate,
+      remarks: remarks || doc.openTask?.remarks || null,
+    };
+    return await saveReviewTask(
+      doc.openTask?.id || null,
+      doc.openTask ? values : { ...newTaskValues(hospitalId, doc), ...values }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error completing review:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,299 @@
+// Equipment Breakdown Engine
+// Downtime and uptime per equipment, department and category for a month,
+// critical equipment without backup, and the monthly downtime report (FMS)
+
+import type { HospitalInfo } from '../config/hospitalConfig';
+import type { Equipment } from '../data/equipmentMaster';
+import type {
+  EquipmentBreakdown,
+  EquipmentDowntimeReport,
+  EquipmentUptime,
+  EquipmentUptimeGroup,
+} from '../types/equipmentBreakdown';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? round1(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+/**
+ * Start and end of a YYYY-MM month (local time). The end is capped at `now` for the current month.
+ */
+export function getMonthPeriod(month: string, now: Date = new Date()): { start: Date; end: Date } {
+  const [year, m] = month.split('-').map(Number);
+  const start = new Date(year, m - 1, 1);
+  const monthEnd = new Date(year, m, 1);
+  return { start, end: now < monthEnd ? (now > start ? now : start) : monthEnd };
+}
+
+export const isEquipmentDown = (breakdowns: Pick<EquipmentBreakdown, 'equipment_id' | 'restored_at'>[], equipmentId: string): boolean =>
+  breakdowns.some(b => b.equipment_id === equipmentId && !b.restored_at);
+
+/**
+ * Hours of a breakdown that fall inside the period. An open breakdown runs until the period end.
+ */
+export function getDowntimeHours(
+  breakdown: Pick<EquipmentBreakdown, 'reported_at' | 'restored_at'>,
+  start: Date,
+  end: Date
+): number {
+  const from = Math.max(new Date(breakdown.reported_at).getTime(), start.getTime());
+  const to = Math.min(breakdown.restored_at ? new Date(breakdown.restored_at).getTime() : end.getTime(), end.getTime());
+  return to > from ? (to - from) / HOUR_MS : 0;
+}
+
+const groupUptime = (key: string, rows: EquipmentUptime[], periodHours: number): EquipmentUptimeGroup => {
+  const downtimeHours = rows.reduce((sum, r) => sum + r.downtimeHours, 0);
+  const available = rows.length * periodHours;
+  return {
+    key,
+    equipmentCount: rows.length,
+    breakdowns: rows.reduce((sum, r) => sum + r.breakdowns, 0),
+    downtimeHours: round1(downtimeHours),
+    uptimePercent: available > 0 ? round1(((available - downtimeHours) / available) * 100) : 100,
+    repairCost: rows.reduce((sum, r) => sum + r.repairCost, 0),
+  };
+};
+
+const groupBy = (rows: EquipmentUptime[], keyOf: (row: EquipmentUptime) => string, periodHours: number) => {
+  const groups = new Map<string, EquipmentUptime[]>();
+  rows.forEach(row => groups.set(keyOf(row), [...(groups.get(keyOf(row)) || []), row]));
+  return [...groups.entries()]
+    .map(([key, items]) => groupUptime(key, items, periodHours))
+    .sort((a, b) => a.uptimePercent - b.uptimePercent || a.key.localeCompare(b.key));
+};
+
+/**
+ * Downtime report for a month: uptime of every in-service equipment, by department and by category.
+ * Repair cost and response / repair times count breakdowns reported in the month.
+ */
+export function buildDowntimeReport(
+  equipment: Equipment[],
+  breakdowns: EquipmentBreakdown[],
+  month: string,
+  now: Date = new Date()
+): EquipmentDowntimeReport {
+  const { start, end } = getMonthPeriod(month, now);
+  const periodHours = (end.getTime() - start.getTime()) / HOUR_MS;
+  const reportedInMonth = (b: EquipmentBreakdown) => {
+    const reported = new Date(b.reported_at);
+    return reported >= start && reported < end;
+  };
+
+  const rows: EquipmentUptime[] = equipment
+    .filter(eq => eq.status !== 'Decommissioned')
+    .map(eq => {
+      const own = breakdowns.filter(b => b.equipment_id === eq.id);
+      const affecting = own.filter(b => getDowntimeHours(b, start, end) > 0 || reportedInMonth(b));
+      const downtimeHours = Math.min(own.reduce((sum, b) => sum + getDowntimeHours(b, start, end), 0), periodHours);
+      return {
+        equipmentId: eq.id,
+        equipmentTag: eq.equipmentTag,
+        name: eq.name,
+        department: eq.department,
+        category: eq.category,
+        critical: eq.criticalEquipment,
+        breakdowns: affecting.length,
+        downtimeHours: round1(downtimeHours),
+        uptimePercent: periodHours > 0 ? round1(((periodHours - downtimeHours) / periodHours) * 100) : 100,
+        repairCost: own.filter(reportedInMonth).reduce((sum, b) => sum + (b.repair_cost || 0), 0),
+        isDown: isEquipmentDown(own, eq.id),
+      };
+    })
+    .sort((a, b) => a.uptimePercent - b.uptimePercent || a.equipmentTag.localeCompare(b.equipmentTag));
+
+  const monthBreakdowns = breakdowns.filter(reportedInMonth);
+  const hoursBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+
+  return {
+    month,
+    periodHours: round1(periodHours),
+    equipment: rows,
+    departments: groupBy(rows, r => r.department, periodHours),
+    categories: groupBy(rows, r => r.category, periodHours),
+    totals: groupUptime('All equipment', rows, periodHours),
+    meanResponseHours: average(monthBreakdowns.filter(b => b.vendor_called_at).map(b => hoursBetween(b.reported_at, b.vendor_called_at!))),
+    meanRepairHours: average(monthBreakdowns.filter(b => b.restored_at).map(b => hoursBetween(b.reported_at, b.restored_at!))),
+  };
+}
+
+/**
+ * Breakdowns that overlap the month (reported in it, or still running into it), oldest first
+ */
+export function getMonthBreakdowns(breakdowns: EquipmentBreakdown[], month: string, now: Date = new Date()): EquipmentBreakdown[] {
+  const { start, end } = getMonthPeriod(month, now);
+  return breakdowns
+    .filter(b => new Date(b.reported_at) < end && (!b.restored_at || new Date(b.restored_at) > start))
+    .sort((a, b) => a.reported_at.localeCompare(b.reported_at));
+}
+
+/**
+ * Critical equipment with no backup: a breakdown stops the service it supports
+ */
+export function getCriticalWithoutBackup(equipment: Equipment[]): Equipment[] {
+  return equipment
+    .filter(eq => eq.criticalEquipment && !eq.backupAvailable && eq.status !== 'Decommissioned')
+    .sort((a, b) => a.department.localeCompare(b.department) || a.equipmentTag.localeCompare(b.equipmentTag));
+}
+
+export function getBreakdownValidationError(
+  breakdown: Pick<EquipmentBreakdown, 'equipment_id' | 'reported_at' | 'reported_by' | 'fault_description' | 'vendor_called_at' | 'restored_at'>
+): string | null {
+  if (!breakdown.equipment_id) return 'Select the equipment';
+  if (!breakdown.reported_at) return 'Reported time is required';
+  if (!breakdown.reported_by.trim()) return 'Reported by is required';
+  if (!breakdown.fault_description.trim()) return 'Describe the fault';
+  const reported = new Date(breakdown.reported_at).getTime();
+  if (breakdown.vendor_called_at && new Date(breakdown.vendor_called_at).getTime() < reported) {
+    return 'Vendor call time cannot be before the breakdown was reported';
+  }
+  if (breakdown.restored_at && new Date(breakdown.restored_at).getTime() < reported) {
+    return 'Restored time cannot be before the breakdown was reported';
+  }
+  return null;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : '-';
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+const formatCost = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+const groupTable = (title: string, groups: EquipmentUptimeGroup[]) => `
+  <div class="section-title">${escapeHtml(title)}</div>
+  <table>
+    <tr><th>${escapeHtml(title.replace('By ', ''))}</th><th>Equipment</th><th>Breakdowns</th><th>Downtime (hrs)</th><th>Uptime %</th><th>Repair Cost</th></tr>
+    ${groups.map(g => `
+    <tr>
+      <td>${escapeHtml(g.key)}</td>
+      <td class="num">${g.equipmentCount}</td>
+      <td class="num">${g.breakdowns}</td>
+      <td class="num">${g.downtimeHours}</td>
+      <td class="num">${g.uptimePercent}%</td>
+      <td class="num">${formatCost(g.repairCost)}</td>
+    </tr>`).join('')}
+  </table>`;
+
+/**
+ * Monthly equipment downtime report
+ */
+export function buildDowntimeReportHTML(
+  report: EquipmentDowntimeReport,
+  breakdowns: EquipmentBreakdown[],
+  criticalWithoutBackup: Equipment[],
+  hospital: HospitalInfo,
+  now: Date = new Date()
+): string {
+  const monthBreakdowns = getMonthBreakdowns(breakdowns, report.month, now);
+  const affected = report.equipment.filter(e => e.downtimeHours > 0 || e.breakdowns > 0);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Equipment Downtime Report - ${formatMonth(report.month)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', serif; line-height: 1.5; font-size: 12px; color: #222; padding: 20px; }
+    .header { text-align: center; border-bottom: 2px solid #1565C0; padding-bottom: 10px; margin-bottom: 15px; }
+    .hospital-name { font-size: 22px; font-weight: bold; color: #1565C0; }
+    .contact { font-size: 11px; color: #555; }
+    .doc-title { font-size: 16px; font-weight: bold; margin-top: 8px; letter-spacing: 1px; }
+    .summary { display: flex; justify-content: space-between; margin-bottom: 10px; }
+    .summary div { text-align: center; flex: 1; border: 1px solid #ccc; padding: 6px; }
+    .summary strong { display: block; font-size: 16px; }
+    .section-title { font-size: 13px; font-weight: bold; background: #f5f5f5; padding: 5px 8px; margin: 12px 0 6px; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .num { text-align: right; }
+    .down { color: #C62828; font-weight: bold; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 40px; }
+    .signatures div { text-align: center; width: 30%; border-top: 1px solid #333; padding-top: 4px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="${escapeHtml(hospital.logo)}" alt="" style="height: 50px; margin-bottom: 4px;" />
+    <div class="hospital-name">${escapeHtml(hospital.name)}</div>
+    <div class="contact">${escapeHtml(hospital.address)} | ${escapeHtml(hospital.phone)} | ${escapeHtml(hospital.email)}</div>
+    <div class="doc-title">EQUIPMENT DOWNTIME REPORT - ${formatMonth(report.month).toUpperCase()}</div>
+  </div>
+
+  <div class="summary">
+    <div><strong>${report.totals.uptimePercent}%</strong>Uptime</div>
+    <div><strong>${report.totals.breakdowns}</strong>Breakdowns</div>
+    <div><strong>${report.totals.downtimeHours}</strong>Downtime (hrs)</div>
+    <div><strong>${report.meanResponseHours ?? '-'}</strong>Mean response (hrs)</div>
+    <div><strong>${report.meanRepairHours ?? '-'}</strong>Mean repair (hrs)</div>
+    <div><strong>${formatCost(report.totals.repairCost)}</strong>Repair cost</div>
+  </div>
+
+  <div class="section-title">Breakdowns</div>
+  ${monthBreakdowns.length > 0 ? `
+  <table>
+    <tr><th style="width:30px">#</th><th>Equipment</th><th>Fault</th><th>Reported</th><th>Vendor Called</th><th>Restored</th><th>Action Taken</th><th>Cost</th></tr>
+    ${monthBreakdowns.map((b, i) => `
+    <tr>
+      <td class="num">${i + 1}</td>
+      <td>${escapeHtml(b.equipment_name)}<br/><small>${escapeHtml(b.equipment_tag)}</small></td>
+      <td>${escapeHtml(b.fault_description)}</td>
+      <td>${formatDateTime(b.reported_at)}<br/><small>${escapeHtml(b.reported_by)}</small></td>
+      <td>${formatDateTime(b.vendor_called_at)}${b.vendor ? `<br/><small>${escapeHtml(b.vendor)}</small>` : ''}</td>
+      <td class="${b.restored_at ? '' : 'down'}">${b.restored_at ? formatDateTime(b.restored_at) : 'Still down'}</td>
+      <td>${escapeHtml(b.action_taken || '')}</td>
+      <td class="num">${b.repair_cost ? formatCost(b.repair_cost) : '-'}</td>
+    </tr>`).join('')}
+  </table>` : '<p>No breakdowns in this month.</p>'}
+
+  ${affected.length > 0 ? `
+  <div class="section-title">Uptime by Equipment (affected equipment)</div>
+  <table>
+    <tr><th>Equipment</th><th>Department</th><th>Breakdowns</th><th>Downtime (hrs)</th><th>Uptime %</th><th>Repair Cost</th></tr>
+    ${affected.map(e => `
+    <tr>
+      <td>${escapeHtml(e.name)}${e.critical ? ' (Critical)' : ''}<br/><small>${escapeHtml(e.equipmentTag)}</small></td>
+      <td>${escapeHtml(e.department)}</td>
+      <td class="num">${e.breakdowns}</td>
+      <td class="num">${e.downtimeHours}</td>
+      <td class="num">${e.uptimePercent}%</td>
+      <td class="num">${formatCost(e.repairCost)}</td>
+    </tr>`).join('')}
+  </table>` : ''}
+
+  ${groupTable('By Department', report.departments)}
+  ${groupTable('By Category', report.categories)}
+
+  <div class="section-title">Critical Equipment Without Backup</div>
+  ${criticalWithoutBackup.length > 0 ? `
+  <table>
+    <tr><th>Equipment</th><th>Tag</th><th>Department / Location</th><th>Status</th></tr>
+    ${criticalWithoutBackup.map(eq => `
+    <tr>
+      <td>${escapeHtml(eq.name)}</td>
+      <td>${escapeHtml(eq.equipmentTag)}</td>
+      <td>${escapeHtml(`${eq.department} - ${eq.location}`)}</td>
+      <td>${escapeHtml(eq.status)}</td>
+    </tr>`).join('')}
+  </table>` : '<p>All critical equipment has a backup.</p>'}
+
+  <div class="signatures">
+    <div>Biomedical Engineer</div>
+    <div>FMS Committee</div>
+    <div>Medical Superintendent</div>
+  </div>
+</body>
+</html>`;
+}
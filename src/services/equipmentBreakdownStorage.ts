@@ -0,0 +1,156 @@
+// Equipment Breakdown Storage Service for Supabase
+// Breakdown log used for the equipment downtime / uptime report
+
+import { getAuthToken } from '../lib/supabase';
+import type { EquipmentBreakdown, EquipmentBreakdownInput } from '../types/equipmentBreakdown';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Load the breakdown log of a hospital (latest first)
+ */
+export async function loadEquipmentBreakdowns(
+  hospitalId: string
+): Promise<{ success: boolean; data?: EquipmentBreakdown[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_breakdowns?hospital_id=eq.${hospitalId}&order=reported_at.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading equipment breakdowns:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EquipmentBreakdown[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading equipment breakdowns:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the breakdowns of an equipment that are not restored yet
+ */
+export async function loadOpenEquipmentBreakdowns(
+  equipmentId: string
+): Promise<{ success: boolean; data?: EquipmentBreakdown[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_breakdowns?equipment_id=eq.${encodeURIComponent(equipmentId)}&restored_at=is.null&order=reported_at.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading equipment breakdowns:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EquipmentBreakdown[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading equipment breakdowns:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Log a breakdown
+ */
+export async function createEquipmentBreakdown(
+  breakdown: EquipmentBreakdownInput
+): Promise<{ success: boolean; data?: EquipmentBreakdown; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_breakdowns`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify(breakdown),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating equipment breakdown:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const [data] = await response.json();
+    return { success: true, data: data as EquipmentBreakdown };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating equipment breakdown:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update a breakdown (vendor call, restoration, cost)
+ */
+export async function updateEquipmentBreakdown(
+  id: string,
+  updates: Partial<EquipmentBreakdownInput>
+): Promise<{ success: boolean; data?: EquipmentBreakdown; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_breakdowns?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating equipment breakdown:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as EquipmentBreakdown };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating equipment breakdown:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Delete a breakdown logged in error
+ */
+export async function deleteEquipmentBreakdown(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_breakdowns?id=eq.${id}`,
+      { method: 'DELETE', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error deleting equipment breakdown:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error deleting equipment breakdown:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,289 @@
+// Equipment Service Engine
+// Calibration / preventive maintenance due dates, job card generation and closure,
+// compliance from overdue schedules and the FMS service history record
+
+import type { HospitalInfo } from '../config/hospitalConfig';
+import type { Equipment, EquipmentCompliance } from '../data/equipmentMaster';
+import type {
+  EquipmentJobCard,
+  EquipmentJobCardClosure,
+  EquipmentJobCardInput,
+  EquipmentServiceFrequency,
+  EquipmentServiceSchedule,
+  EquipmentServiceType,
+} from '../types/equipmentService';
+
+// Job cards are raised this many days before the due date
+export const JOB_CARD_LEAD_DAYS = 15;
+
+export const SERVICE_FREQUENCY_MONTHS: Record<EquipmentServiceFrequency, number | null> = {
+  'Monthly': 1,
+  'Quarterly': 3,
+  'Half-Yearly': 6,
+  'Yearly': 12,
+  'As Required': null,
+};
+
+const SERVICE_TYPE_CODES: Record<EquipmentServiceType, string> = {
+  'Calibration': 'CAL',
+  'Preventive Maintenance': 'PM',
+};
+
+const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISODate(date);
+};
+
+// Month arithmetic clamped to the end of the month (31 Jan + 1 month = 28/29 Feb)
+const addMonths = (isoDate: string, months: number): string => {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toISODate(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+};
+
+/**
+ * Next due date after a service done on the given date; none for 'As Required'
+ */
+export function getNextDueDate(doneDate: string, frequency: EquipmentServiceFrequency): string | null {
+  const months = SERVICE_FREQUENCY_MONTHS[frequency];
+  return months === null ? null : addMonths(doneDate, months);
+}
+
+export function isScheduleOverdue(
+  schedule: Pick<EquipmentServiceSchedule, 'next_due_date'>,
+  today: Date = new Date()
+): boolean {
+  return !!schedule.next_due_date && schedule.next_due_date < toISODate(today);
+}
+
+export const isJobCardOverdue = (card: Pick<EquipmentJobCard, 'status' | 'due_date'>, today: Date = new Date()): boolean =>
+  card.status === 'Open' && card.due_date < toISODate(today);
+
+/**
+ * Schedules due within the lead time (or overdue) that have no open job card yet
+ */
+export function getSchedulesDueForJobCards(
+  schedules: EquipmentServiceSchedule[],
+  jobCards: Pick<EquipmentJobCard, 'schedule_id' | 'status'>[],
+  today: Date = new Date(),
+  leadDays: number = JOB_CARD_LEAD_DAYS
+): EquipmentServiceSchedule[] {
+  const horizon = addDays(toISODate(today), leadDays);
+  const open = new Set(jobCards.filter(c => c.status === 'Open').map(c => c.schedule_id));
+  return schedules.filter(s => !!s.next_due_date && s.next_due_date <= horizon && !open.has(s.id));
+}
+
+export function buildJobCard(
+  schedule: EquipmentServiceSchedule,
+  equipment: Pick<Equipment, 'name'>
+): EquipmentJobCardInput {
+  const dueDate = schedule.next_due_date!;
+  return {
+    hospital_id: schedule.hospital_id,
+    schedule_id: schedule.id,
+    job_number: `JC-${SERVICE_TYPE_CODES[schedule.service_type]}-${dueDate.replace(/-/g, '')}-${schedule.equipment_tag}`,
+    equipment_id: schedule.equipment_id,
+    equipment_tag: schedule.equipment_tag,
+    equipment_name: equipment.name,
+    service_type: schedule.service_type,
+    due_date: dueDate,
+    status: 'Open',
+    assigned_to: schedule.vendor,
+    completed_date: null,
+    performed_by: null,
+    certificate_number: null,
+    notes: null,
+    next_due_date: null,
+  };
+}
+
+/**
+ * Why a job card cannot be closed yet, or null. Calibration needs the certificate number.
+ */
+export function getJobCardClosureError(
+  card: Pick<EquipmentJobCard, 'service_type' | 'status'>,
+  closure: EquipmentJobCardClosure,
+  today: Date = new Date()
+): string | null {
+  if (card.status !== 'Open') return 'Only open job cards can be closed';
+  if (!closure.completed_date) return 'Completion date is required';
+  if (closure.completed_date > toISODate(today)) return 'Completion date cannot be in the future';
+  if (!closure.performed_by.trim()) return 'Performed by is required';
+  if (card.service_type === 'Calibration' && !closure.certificate_number.trim()) {
+    return 'Calibration certificate number is required';
+  }
+  return null;
+}
+
+/**
+ * Schedule after a completed service: the next due date runs from the completion date
+ */
+export function rollScheduleForward(
+  schedule: Pick<EquipmentServiceSchedule, 'frequency'>,
+  completedDate: string
+): Pick<EquipmentServiceSchedule, 'last_done_date' | 'next_due_date'> {
+  return {
+    last_done_date: completedDate,
+    next_due_date: getNextDueDate(completedDate, schedule.frequency),
+  };
+}
+
+/**
+ * Compliance shown for an equipment: overdue calibration, then overdue maintenance.
+ * A 'Calibration Due' / 'Maintenance Due' that is no longer overdue returns to 'Compliant'.
+ */
+export function deriveEquipmentCompliance(
+  equipment: Pick<Equipment, 'equipmentTag' | 'compliance'>,
+  schedules: Pick<EquipmentServiceSchedule, 'equipment_tag' | 'service_type' | 'next_due_date'>[],
+  today: Date = new Date()
+): EquipmentCompliance {
+  const own = schedules.filter(s => s.equipment_tag === equipment.equipmentTag);
+  const overdue = (type: EquipmentServiceType) => own.some(s => s.service_type === type && isScheduleOverdue(s, today));
+
+  if (overdue('Calibration')) return 'Calibration Due';
+  if (overdue('Preventive Maintenance')) return 'Maintenance Due';
+  if (own.length > 0 && (equipment.compliance === 'Calibration Due' || equipment.compliance === 'Maintenance Due')) {
+    return 'Compliant';
+  }
+  return equipment.compliance;
+}
+
+/**
+ * Starting point for a new schedule from the calibration / maintenance block of the equipment master
+ */
+export function getScheduleDefaults(
+  equipment: Pick<Equipment, 'calibration' | 'maintenance'>,
+  serviceType: EquipmentServiceType
+): Pick<EquipmentServiceSchedule, 'frequency' | 'last_done_date' | 'next_due_date' | 'vendor'> {
+  if (serviceType === 'Calibration' && equipment.calibration) {
+    return {
+      frequency: equipment.calibration.frequency,
+      last_done_date: equipment.calibration.lastCalibrationDate || null,
+      next_due_date: equipment.calibration.nextCalibrationDue || null,
+      vendor: equipment.calibration.calibratedBy || null,
+    };
+  }
+  if (serviceType === 'Preventive Maintenance' && equipment.maintenance) {
+    return {
+      frequency: 'Quarterly',
+      last_done_date: equipment.maintenance.lastMaintenanceDate || null,
+      next_due_date: equipment.maintenance.nextMaintenanceDue || null,
+      vendor: equipment.maintenance.performedBy || null,
+    };
+  }
+  return {
+    frequency: serviceType === 'Calibration' ? 'Yearly' : 'Quarterly',
+    last_done_date: null,
+    next_due_date: null,
+    vendor: null,
+  };
+}
+
+/**
+ * Completed services of one equipment tag, latest first
+ */
+export function getServiceHistory(jobCards: EquipmentJobCard[], equipmentTag: string): EquipmentJobCard[] {
+  return jobCards
+    .filter(c => c.equipment_tag === equipmentTag && c.status === 'Completed')
+    .sort((a, b) => (b.completed_date || '').localeCompare(a.completed_date || ''));
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: string | null | undefined) =>
+  date
+    ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+    : '-';
+
+/**
+ * Equipment service history record (FMS evidence): current schedules and every completed job card
+ */
+export function buildServiceHistoryHTML(
+  equipment: Equipment,
+  schedules: EquipmentServiceSchedule[],
+  history: EquipmentJobCard[],
+  hospital: HospitalInfo
+): string {
+  const own = schedules.filter(s => s.equipment_tag === equipment.equipmentTag);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Service History - ${escapeHtml(equipment.equipmentTag)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', serif; line-height: 1.5; font-size: 12px; color: #222; padding: 20px; }
+    .header { text-align: center; border-bottom: 2px solid #1565C0; padding-bottom: 10px; margin-bottom: 15px; }
+    .hospital-name { font-size: 22px; font-weight: bold; color: #1565C0; }
+    .contact { font-size: 11px; color: #555; }
+    .doc-title { font-size: 16px; font-weight: bold; margin-top: 8px; letter-spacing: 1px; }
+    .section-title { font-size: 13px; font-weight: bold; background: #f5f5f5; padding: 5px 8px; margin: 12px 0 6px; }
+    table { width: 100%; border-collapse: collapse; font-size: 11px; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .meta td { border: none; padding: 2px 6px; }
+    .overdue { color: #C62828; font-weight: bold; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 40px; }
+    .signatures div { text-align: center; width: 45%; border-top: 1px solid #333; padding-top: 4px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="${escapeHtml(hospital.logo)}" alt="" style="height: 50px; margin-bottom: 4px;" />
+    <div class="hospital-name">${escapeHtml(hospital.name)}</div>
+    <div class="contact">${escapeHtml(hospital.address)} | ${escapeHtml(hospital.phone)} | ${escapeHtml(hospital.email)}</div>
+    <div class="doc-title">EQUIPMENT SERVICE HISTORY</div>
+  </div>
+
+  <table class="meta">
+    <tr><td><strong>Equipment:</strong> ${escapeHtml(equipment.name)}</td><td><strong>Tag:</strong> ${escapeHtml(equipment.equipmentTag)}</td></tr>
+    <tr><td><strong>Manufacturer / Model:</strong> ${escapeHtml([equipment.manufacturer, equipment.model].filter(Boolean).join(' / '))}</td><td><strong>Serial No.:</strong> ${escapeHtml(equipment.serialNumber || '-')}</td></tr>
+    <tr><td><strong>Location:</strong> ${escapeHtml(`${equipment.department} - ${equipment.location}`)}</td><td><strong>Critical:</strong> ${equipment.criticalEquipment ? 'Yes' : 'No'}</td></tr>
+  </table>
+
+  <div class="section-title">Schedule</div>
+  ${own.length > 0 ? `
+  <table>
+    <tr><th>Service</th><th>Frequency</th><th>Last Done</th><th>Next Due</th><th>Agency</th></tr>
+    ${own.map(s => `
+    <tr>
+      <td>${escapeHtml(s.service_type)}</td>
+      <td>${escapeHtml(s.frequency)}</td>
+      <td>${formatDate(s.last_done_date)}</td>
+      <td class="${isScheduleOverdue(s) ? 'overdue' : ''}">${formatDate(s.next_due_date)}</td>
+      <td>${escapeHtml(s.vendor || '-')}</td>
+    </tr>`).join('')}
+  </table>` : '<p>No calibration or maintenance schedule set.</p>'}
+
+  <div class="section-title">Service Record</div>
+  ${history.length > 0 ? `
+  <table>
+    <tr><th style="width:30px">#</th><th>Job Card</th><th>Service</th><th>Due</th><th>Done</th><th>Performed By</th><th>Certificate / Report No.</th><th>Notes</th></tr>
+    ${history.map((c, i) => `
+    <tr>
+      <td style="text-align:center">${i + 1}</td>
+      <td>${escapeHtml(c.job_number)}</td>
+      <td>${escapeHtml(c.service_type)}</td>
+      <td>${formatDate(c.due_date)}</td>
+      <td>${formatDate(c.completed_date)}</td>
+      <td>${escapeHtml(c.performed_by || '-')}</td>
+      <td>${escapeHtml(c.certificate_number || '-')}</td>
+      <td>${escapeHtml(c.notes || '')}</td>
+    </tr>`).join('')}
+  </table>` : '<p>No completed services recorded.</p>'}
+
+  <div class="signatures">
+    <div>Biomedical Engineer</div>
+    <div>Head of Department</div>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,244 @@
+// Equipment Service Storage Service for Supabase
+// Calibration / preventive maintenance schedules and the job cards raised from them
+
+import { getAuthToken } from '../lib/supabase';
+import type {
+  EquipmentJobCard,
+  EquipmentJobCardClosure,
+  EquipmentJobCardInput,
+  EquipmentServiceSchedule,
+  EquipmentServiceScheduleInput,
+} from '../types/equipmentService';
+import { getJobCardClosureError, rollScheduleForward } from './equipmentServiceEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Load the service schedules of a hospital
+ */
+export async function loadEquipmentServiceSchedules(
+  hospitalId: string
+): Promise<{ success: boolean; data?: EquipmentServiceSchedule[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_service_schedules?hospital_id=eq.${hospitalId}&order=next_due_date.asc.nullslast`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading equipment service schedules:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EquipmentServiceSchedule[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading equipment service schedules:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the schedules of one equipment tag (public equipment page)
+ */
+export async function loadEquipmentServiceSchedulesForTag(
+  equipmentTag: string
+): Promise<{ success: boolean; data?: EquipmentServiceSchedule[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_service_schedules?equipment_tag=eq.${encodeURIComponent(equipmentTag)}`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading equipment service schedules:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EquipmentServiceSchedule[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading equipment service schedules:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create or replace the schedule of one service type for an equipment
+ */
+export async function saveEquipmentServiceSchedule(
+  schedule: EquipmentServiceScheduleInput
+): Promise<{ success: boolean; data?: EquipmentServiceSchedule; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_service_schedules?on_conflict=hospital_id,equipment_tag,service_type`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation,resolution=merge-duplicates'),
+        body: JSON.stringify({ ...schedule, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving equipment service schedule:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const [data] = await response.json();
+    return { success: true, data: data as EquipmentServiceSchedule };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving equipment service schedule:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the job cards of a hospital (latest due first)
+ */
+export async function loadEquipmentJobCards(
+  hospitalId: string
+): Promise<{ success: boolean; data?: EquipmentJobCard[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_job_cards?hospital_id=eq.${hospitalId}&order=due_date.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading equipment job cards:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EquipmentJobCard[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading equipment job cards:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Raise job cards. A job number that already exists is left as is.
+ */
+export async function createEquipmentJobCards(
+  cards: EquipmentJobCardInput[]
+): Promise<{ success: boolean; data?: EquipmentJobCard[]; error?: string }> {
+  if (cards.length === 0) return { success: true, data: [] };
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_job_cards?on_conflict=job_number`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation,resolution=ignore-duplicates'),
+        body: JSON.stringify(cards),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating equipment job cards:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as EquipmentJobCard[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating equipment job cards:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update a job card (assignment, cancellation)
+ */
+export async function updateEquipmentJobCard(
+  id: string,
+  updates: Partial<EquipmentJobCardInput>
+): Promise<{ success: boolean; data?: EquipmentJobCard; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/equipment_job_cards?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating equipment job card:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as EquipmentJobCard };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating equipment job card:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Close a job card with its certificate / report number and roll the schedule forward
+ * to the next due date counted from the completion date, both in one RPC
+ */
+export async function closeEquipmentJobCard(
+  card: EquipmentJobCard,
+  schedule: EquipmentServiceSchedule,
+  closure: EquipmentJobCardClosure
+): Promise<{ success: boolean; data?: { card: EquipmentJobCard; schedule: EquipmentServiceSchedule }; error?: string }> {
+  const validationError = getJobCardClosureError(card, closure);
+  if (validationError) return { success: false, error: validationError };
+
+  const rolled = rollScheduleForward(schedule, closure.completed_date);
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/close_equipment_job_card`,
+      {
+        method: 'POST',
+        headers: await headers(),
+        body: JSON.stringify({
+          p_card_id: card.id,
+          p_completed_date: closure.completed_date,
+          p_performed_by: closure.performed_by.trim(),
+          p_certificate_number: closure.certificate_number.trim() || null,
+          p_notes: closure.notes.trim() || null,
+          p_next_due_date: rolled.next_due_date,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error closing equipment job card:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as { card: EquipmentJobCard; schedule: EquipmentServiceSchedule } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error closing equipment job card:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
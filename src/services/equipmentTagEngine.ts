@@ -0,0 +1,106 @@
+// Equipment Tag Engine
+// Public link behind each equipment QR label, the calibration / maintenance summary
+// shown when it is scanned, and the printable label sheet
+
+import type { HospitalInfo } from '../config/hospitalConfig';
+import type { Equipment } from '../data/equipmentMaster';
+import type { EquipmentServiceSchedule } from '../types/equipmentService';
+import { isScheduleOverdue } from './equipmentServiceEngine';
+
+export interface EquipmentServiceSummary {
+  lastCalibration: string | null;
+  nextCalibration: string | null;
+  calibratedBy: string | null;
+  lastMaintenance: string | null;
+  nextMaintenance: string | null;
+  calibrationOverdue: boolean;
+  maintenanceOverdue: boolean;
+}
+
+export interface EquipmentQRLabel {
+  equipment: Equipment;
+  qrDataUrl: string;
+  nextCalibration: string | null;
+}
+
+export const getEquipmentPublicPath = (equipmentTag: string): string =>
+  `/equipment-tag/${encodeURIComponent(equipmentTag)}`;
+
+export const getEquipmentPublicUrl = (equipmentTag: string, origin: string): string =>
+  `${origin}${getEquipmentPublicPath(equipmentTag)}`;
+
+/**
+ * Last / next calibration and maintenance of an equipment. A calibration / PM schedule
+ * takes precedence over the dates in the equipment master.
+ */
+export function getEquipmentServiceSummary(
+  equipment: Pick<Equipment, 'equipmentTag' | 'calibration' | 'maintenance'>,
+  schedules: EquipmentServiceSchedule[],
+  today: Date = new Date()
+): EquipmentServiceSummary {
+  const calibration = schedules.find(s => s.equipment_tag === equipment.equipmentTag && s.service_type === 'Calibration');
+  const maintenance = schedules.find(s => s.equipment_tag === equipment.equipmentTag && s.service_type === 'Preventive Maintenance');
+
+  const nextCalibration = calibration ? calibration.next_due_date : equipment.calibration?.nextCalibrationDue || null;
+  const nextMaintenance = maintenance ? maintenance.next_due_date : equipment.maintenance?.nextMaintenanceDue || null;
+
+  return {
+    lastCalibration: calibration ? calibration.last_done_date : equipment.calibration?.lastCalibrationDate || null,
+    nextCalibration,
+    calibratedBy: calibration ? calibration.vendor : equipment.calibration?.calibratedBy || null,
+    lastMaintenance: maintenance ? maintenance.last_done_date : equipment.maintenance?.lastMaintenanceDate || null,
+    nextMaintenance,
+    calibrationOverdue: isScheduleOverdue({ next_due_date: nextCalibration }, today),
+    maintenanceOverdue: isScheduleOverdue({ next_due_date: nextMaintenance }, today),
+  };
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date: string | null) =>
+  date
+    ? new Date(`${date.split('T')[0]}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+    : 'Not scheduled';
+
+/**
+ * A4 sheet of QR labels, three per row, sized to cut and stick on the equipment
+ */
+export function buildQRLabelSheetHTML(labels: EquipmentQRLabel[], hospital: HospitalInfo): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Equipment QR Labels</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    @page { size: A4; margin: 10mm; }
+    body { font-family: Arial, sans-serif; color: #222; }
+    .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4mm; }
+    .label { border: 1px dashed #999; padding: 3mm; text-align: center; page-break-inside: avoid; height: 68mm; }
+    .hospital { font-size: 9px; font-weight: bold; color: #1565C0; text-transform: uppercase; }
+    .label img { width: 34mm; height: 34mm; margin: 1mm auto; display: block; }
+    .tag { font-family: 'Courier New', monospace; font-size: 9px; font-weight: bold; word-break: break-all; }
+    .name { font-size: 11px; font-weight: bold; margin-top: 1mm; }
+    .calibration { font-size: 9px; margin-top: 1mm; }
+    .hint { font-size: 8px; color: #666; margin-top: 1mm; }
+  </style>
+</head>
+<body>
+  <div class="sheet">
+    ${labels.map(({ equipment, qrDataUrl, nextCalibration }) => `
+    <div class="label">
+      <div class="hospital">${escapeHtml(hospital.name)}</div>
+      <img src="${qrDataUrl}" alt="${escapeHtml(equipment.equipmentTag)}" />
+      <div class="tag">${escapeHtml(equipment.equipmentTag)}</div>
+      <div class="name">${escapeHtml(equipment.name)}</div>
+      <div class="calibration">Next calibration: <strong>${formatDate(nextCalibration)}</strong></div>
+      <div class="hint">Scan for status, service history and to report a breakdown</div>
+    </div>`).join('')}
+  </div>
+</body>
+</html>`;
+}
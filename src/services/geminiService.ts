@@ -1,14 +1,14 @@
-import { callGeminiAPI as callGeminiAPIFromSupabase } from '../lib/supabase';
+import { callGeminiAPI as callGeminiAPIFromGateway } from './aiGatewayClient';
 import type { InfographicConfig } from './infographicGenerator';
 
 // Re-export for convenience
-export { callGeminiAPI } from '../lib/supabase';
+export { callGeminiAPI } from './aiGatewayClient';
 
 export const testGeminiConnection = async (): Promise<string> => {
   try {
-    // Test connection using backend proxy
-    await callGeminiAPIFromSupabase('Hello', 0.7, 100);
-    return 'Success! Backend proxy connection working.';
+    // Test connection through the AI gateway
+    await callGeminiAPIFromGateway('Hello', 0.7, 100);
+    return 'Success! AI gateway connection working.';
   } catch (error: any) {
     return `Error: ${error.message}`;
   }
@@ -46,8 +46,7 @@ export const generateGeminiInfographic = async (config: InfographicConfig): Prom
   `;
 
   try {
-    console.log(`Generating infographic via backend proxy`);
-    const data = await callGeminiAPIFromSupabase(prompt, 0.7, 4096);
+    const data = await callGeminiAPIFromGateway(prompt, 0.7, 4096, 'infographic');
     let text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
     
     if (!text) {
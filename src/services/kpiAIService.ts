@@ -1,7 +1,8 @@
 // KPI AI Service for graph editing
-// Uses Gemini API to interpret user prompts and modify KPI data
+// Uses Gemini API to interpret user prompts and modify KPI data; the prompt comes from the prompt library
 
-import { callGeminiAPI } from '../lib/supabase';
+import { callGeminiAPI } from './aiGatewayClient';
+import { resolvePrompt } from './promptLibraryService';
 import type { KPIDefinition } from '../data/kpiData';
 
 interface KPIDataEntry {
@@ -28,11 +29,21 @@ export async function processKPIEditPrompt(
   currentData: KPIDataEntry[],
   kpi: KPIDefinition
 ): Promise<AIModificationResult> {
-  const systemPrompt = buildSystemPrompt(kpi, currentData);
-  const userMessage = prompt;
-
   try {
-    const data = await callGeminiAPI(`${systemPrompt}\n\nUser Request: ${userMessage}`, 0.2, 4096);
+    const resolved = await resolvePrompt('kpi-edit', {
+      kpiName: kpi.name,
+      shortName: kpi.shortName,
+      definition: kpi.definition,
+      formula: kpi.formula,
+      unit: kpi.unit,
+      target: kpi.suggestedTarget,
+      targetDirection: kpi.targetDirection === 'lower' ? 'Lower is better' : 'Higher is better',
+      benchmarkMin: kpi.benchmarkRange.min,
+      benchmarkMax: kpi.benchmarkRange.max,
+      currentData,
+      userRequest: prompt,
+    });
+    const data = await callGeminiAPI(resolved.prompt, resolved.temperature, resolved.maxTokens, resolved.feature);
     const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
 
     if (!content) {
@@ -54,56 +65,6 @@ export async function processKPIEditPrompt(
   }
 }
 
-/**
- * Build system prompt for AI
- */
-function buildSystemPrompt(kpi: KPIDefinition, currentData: KPIDataEntry[]): string {
-  return `You are a healthcare KPI data analyst assistant. You help modify KPI graph data based on user requests.
-
-KPI Information:
-- Name: ${kpi.name}
-- Short Name: ${kpi.shortName}
-- Definition: ${kpi.definition}
-- Formula: ${kpi.formula}
-- Unit: ${kpi.unit}
-- Target: ${kpi.suggestedTarget} ${kpi.unit}
-- Target Direction: ${kpi.targetDirection === 'lower' ? 'Lower is better' : 'Higher is better'}
-- Benchmark Range: ${kpi.benchmarkRange.min} - ${kpi.benchmarkRange.max}
-
-Current Data (JSON format):
-${JSON.stringify(currentData, null, 2)}
-
-IMPORTANT INSTRUCTIONS:
-1. Analyze the user's request and determine what changes to make to the data
-2. Ensure all values stay within realistic ranges (benchmark: ${kpi.benchmarkRange.min} - ${kpi.benchmarkRange.max})
-3. Maintain data consistency and realistic trends
-4. Return your response in the following JSON format:
-
-{
-  "explanation": "Brief explanation of what changes were made and why",
-  "modifiedData": [
-    {
-      "month": "YYYY-MM",
-      "value": number,
-      "target": number,
-      "remarks": "optional remarks"
-    }
-  ]
-}
-
-Examples of requests you might receive:
-- "Show improvement trend over the last 6 months"
-- "Set all values to target"
-- "Add more variation to the data"
-- "Show a declining trend"
-- "Increase values by 10%"
-- "Add data for 3 more months"
-- "Remove outliers"
-- "Show seasonal pattern"
-
-Respond ONLY with valid JSON. Do not include any other text before or after the JSON.`;
-}
-
 /**
  * Parse AI response and extract modified data
  */
@@ -0,0 +1,208 @@
+// KPI Breach Storage Service for Supabase
+// Target breaches raised from captured KPI data, with action plans and closure
+
+import { getAuthToken } from '../lib/supabase';
+import { NABH_KPIS } from '../data/kpiData';
+import { loadKPIMeasurements } from './kpiMeasurementStorage';
+import { measurementsToKPIData } from './kpiMeasurementEngine';
+import { evaluateKPISeries, getBreachClosureError, planKPIBreaches } from './kpiEvaluationEngine';
+import type {
+  KPIBreach,
+  KPIBreachExtension,
+  KPIBreachInput,
+  KPIMonthEvaluation,
+} from '../types/kpiEvaluation';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+/**
+ * Load all breaches for a hospital (latest first)
+ */
+export async function loadKPIBreaches(
+  hospitalId: string
+): Promise<{ success: boolean; data?: KPIBreach[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_kpi_breaches?hospital_id=eq.${encodeURIComponent(hospitalId)}&order=end_month.desc,kpi_number.asc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading KPI breaches:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as KPIBreach[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading KPI breaches:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update a breach (action plan, extension or closure)
+ */
+export async function updateKPIBreach(
+  id: string,
+  updates: Partial<KPIBreachInput>
+): Promise<{ success: boolean; data?: KPIBreach; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_kpi_breaches?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating KPI breach:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as KPIBreach };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating KPI breach:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Record the action plan for a breach
+ */
+export async function saveKPIBreachActionPlan(
+  breach: KPIBreach,
+  plan: Pick<KPIBreach, 'root_cause' | 'action_plan' | 'responsible_person' | 'target_date'>
+): Promise<{ success: boolean; data?: KPIBreach; error?: string }> {
+  if (!plan.root_cause?.trim() || !plan.action_plan?.trim()) {
+    return { success: false, error: 'Root cause and action plan are required' };
+  }
+  return updateKPIBreach(breach.id, { ...plan, status: 'Action Planned' });
+}
+
+/**
+ * Close a breach. Refused until the action plan is documented.
+ */
+export async function closeKPIBreach(
+  breach: KPIBreach,
+  closedBy: string,
+  remarks: string
+): Promise<{ success: boolean; data?: KPIBreach; error?: string }> {
+  const closureError = getBreachClosureError(breach, { closedBy, remarks });
+  if (closureError) {
+    return { success: false, error: closureError };
+  }
+
+  return updateKPIBreach(breach.id, {
+    status: 'Closed',
+    closed_by: closedBy,
+    closure_remarks: remarks.trim(),
+    closed_date: new Date().toISOString().split('T')[0],
+  });
+}
+
+async function createKPIBreaches(
+  breaches: KPIBreachInput[]
+): Promise<{ success: boolean; data?: KPIBreach[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_kpi_breaches`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(breaches),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating KPI breaches:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as KPIBreach[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating KPI breaches:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Evaluate every KPI's captured data and raise or extend breaches for
+ * misses of `threshold` or more consecutive months. Generated (simulated)
+ * data is never evaluated.
+ */
+export async function evaluateKPIBreaches(
+  hospitalId: string,
+  threshold: number
+): Promise<{
+  success: boolean;
+  evaluations?: Record<string, KPIMonthEvaluation[]>;
+  breaches?: KPIBreach[];
+  raised?: number;
+  error?: string;
+}> {
+  const [measurementsResult, breachesResult] = await Promise.all([
+    loadKPIMeasurements(hospitalId),
+    loadKPIBreaches(hospitalId),
+  ]);
+  if (!measurementsResult.success || !breachesResult.success) {
+    return { success: false, error: measurementsResult.error || breachesResult.error };
+  }
+
+  const measurements = measurementsResult.data || [];
+  const existing = breachesResult.data || [];
+  const evaluations: Record<string, KPIMonthEvaluation[]> = {};
+  const create: KPIBreachInput[] = [];
+  const extend: KPIBreachExtension[] = [];
+
+  NABH_KPIS.forEach(kpi => {
+    const data = measurementsToKPIData(measurements.filter(m => m.kpi_id === kpi.id));
+    if (data.length === 0) return;
+    evaluations[kpi.id] = evaluateKPISeries(kpi, data);
+    const plan = planKPIBreaches(hospitalId, kpi, evaluations[kpi.id], existing, threshold);
+    create.push(...plan.create);
+    extend.push(...plan.extend);
+  });
+
+  if (create.length > 0) {
+    const created = await createKPIBreaches(create);
+    if (!created.success) return { success: false, error: created.error };
+  }
+  for (const { id, ...updates } of extend) {
+    const updated = await updateKPIBreach(id, updates);
+    if (!updated.success) return { success: false, error: updated.error };
+  }
+
+  const reloaded = create.length > 0 || extend.length > 0 ? await loadKPIBreaches(hospitalId) : breachesResult;
+  if (!reloaded.success) return { success: false, error: reloaded.error };
+
+  return { success: true, evaluations, breaches: reloaded.data || [], raised: create.length };
+}
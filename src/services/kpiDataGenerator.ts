@@ -1,5 +1,7 @@
 // KPI Data Generator - Creates realistic dummy data for all 16 NABH KPIs
 // Generates 6 months of data with realistic trends and variations
+// Generated data is not evidence: every entry is flagged isSimulated and charts
+// drawn from it carry the SIMULATED watermark. Real values come from kpiMeasurementStorage.
 
 import { NABH_KPIS } from '../data/kpiData';
 import type { KPIDefinition } from '../data/kpiData';
@@ -14,6 +16,22 @@ export interface KPIDataEntry {
   numeratorValue?: number;
   denominatorValue?: number;
   remarks?: string;
+  isSimulated?: boolean; // generated data, not evidence (see kpiMeasurementStorage for captured data)
+}
+
+export const SIMULATED_DATA_LABEL = 'SIMULATED';
+
+// Diagonal watermark for charts drawn from generated data
+export function drawSimulatedWatermark(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(-Math.PI / 8);
+  ctx.fillStyle = 'rgba(211, 47, 47, 0.18)';
+  ctx.font = `bold ${Math.round(Math.min(width, height) / 5)}px Inter, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(SIMULATED_DATA_LABEL, 0, 0);
+  ctx.restore();
 }
 
 // Generate the last 6 months in YYYY-MM format
@@ -161,6 +179,7 @@ export function generateKPIData(kpi: KPIDefinition): KPIDataEntry[] {
       numeratorValue: numerator,
       denominatorValue: denominator,
       remarks: generateRemarks(kpi, value, index),
+      isSimulated: true,
     });
   });
 
@@ -329,6 +348,7 @@ export function generateKPIDataFromScenario(
       numeratorValue: numerator,
       denominatorValue: denominator,
       remarks: generateRemarks(kpi, value, index),
+      isSimulated: true,
     };
   });
 }
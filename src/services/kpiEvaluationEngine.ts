@@ -0,0 +1,210 @@
+// KPI Evaluation Engine
+// Classifies monthly KPI values against target and benchmark, and plans target breaches
+
+import { NABH_KPIS, NABH_KPI_CATEGORIES } from '../data/kpiData';
+import type { KPIDefinition } from '../data/kpiData';
+import type { KPIDataEntry } from './kpiStorage';
+import type {
+  KPIBenchmarkPosition,
+  KPIBreach,
+  KPIBreachExtension,
+  KPIBreachInput,
+  KPIMonthEvaluation,
+  KPIPerformanceStatus,
+  KPIScorecardRow,
+} from '../types/kpiEvaluation';
+
+// Consecutive missed months that raise a breach unless the user picks another threshold
+export const DEFAULT_BREACH_THRESHOLD = 3;
+
+export const KPI_PERFORMANCE_LABELS: Record<KPIPerformanceStatus, string> = {
+  better_than_benchmark: 'Better than Benchmark',
+  on_target: 'On Target',
+  missed_target: 'Missed Target',
+  worse_than_benchmark: 'Worse than Benchmark',
+};
+
+export const KPI_PERFORMANCE_COLORS: Record<KPIPerformanceStatus, 'success' | 'info' | 'warning' | 'error'> = {
+  better_than_benchmark: 'success',
+  on_target: 'info',
+  missed_target: 'warning',
+  worse_than_benchmark: 'error',
+};
+
+/**
+ * Where a value sits against the benchmark range, from the KPI's point of view
+ */
+export function getBenchmarkPosition(kpi: KPIDefinition, value: number): KPIBenchmarkPosition {
+  const { min, max } = kpi.benchmarkRange;
+  if (kpi.targetDirection === 'lower') {
+    if (value < min) return 'better';
+    if (value > max) return 'worse';
+  } else {
+    if (value > max) return 'better';
+    if (value < min) return 'worse';
+  }
+  return 'within';
+}
+
+/**
+ * Classify one month against the hospital target and the benchmark range
+ */
+export function evaluateKPIMonth(kpi: KPIDefinition, entry: Pick<KPIDataEntry, 'month' | 'value' | 'target'>): KPIMonthEvaluation {
+  const { target } = entry;
+  const metTarget = kpi.targetDirection === 'lower' ? entry.value <= target : entry.value >= target;
+  const benchmarkPosition = getBenchmarkPosition(kpi, entry.value);
+
+  let status: KPIPerformanceStatus;
+  if (metTarget) {
+    status = benchmarkPosition === 'better' ? 'better_than_benchmark' : 'on_target';
+  } else {
+    status = benchmarkPosition === 'worse' ? 'worse_than_benchmark' : 'missed_target';
+  }
+
+  return { kpiId: kpi.id, month: entry.month, value: entry.value, target, metTarget, benchmarkPosition, status };
+}
+
+/**
+ * Evaluate a KPI series, oldest month first
+ */
+export function evaluateKPISeries(kpi: KPIDefinition, entries: KPIDataEntry[]): KPIMonthEvaluation[] {
+  return entries
+    .slice()
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(entry => evaluateKPIMonth(kpi, entry));
+}
+
+const nextMonth = (month: string): string => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Streaks of missed months. A month without data ends the streak, so only
+ * calendar-consecutive misses count.
+ */
+export function findMissedStreaks(evaluations: KPIMonthEvaluation[]): string[][] {
+  const streaks: string[][] = [];
+  let current: string[] = [];
+
+  evaluations.forEach(evaluation => {
+    const continues = current.length > 0 && nextMonth(current[current.length - 1]) === evaluation.month;
+    if (!evaluation.metTarget) {
+      if (!continues && current.length > 0) streaks.push(current);
+      current = continues ? [...current, evaluation.month] : [evaluation.month];
+    } else if (current.length > 0) {
+      streaks.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) streaks.push(current);
+
+  return streaks;
+}
+
+/**
+ * Breaches to raise or extend for one KPI. Months up to the end of the latest
+ * closed breach are not counted again, so a closed breach stays closed and
+ * only fresh misses after it can raise a new one.
+ */
+export function planKPIBreaches(
+  hospitalId: string,
+  kpi: KPIDefinition,
+  evaluations: KPIMonthEvaluation[],
+  existing: KPIBreach[],
+  threshold: number = DEFAULT_BREACH_THRESHOLD
+): { create: KPIBreachInput[]; extend: KPIBreachExtension[] } {
+  const breaches = existing.filter(b => b.kpi_id === kpi.id);
+  const closedUpTo = breaches
+    .filter(b => b.status === 'Closed')
+    .reduce((latest, b) => (b.end_month > latest ? b.end_month : latest), '');
+
+  const create: KPIBreachInput[] = [];
+  const extend: KPIBreachExtension[] = [];
+
+  findMissedStreaks(evaluations.filter(e => e.month > closedUpTo))
+    .filter(streak => streak.length >= threshold)
+    .forEach(streak => {
+      const endMonth = streak[streak.length - 1];
+      const open = breaches.find(b => b.status !== 'Closed' && b.start_month === streak[0]);
+
+      if (open) {
+        if (open.end_month !== endMonth) {
+          extend.push({ id: open.id, end_month: endMonth, missed_months: streak, consecutive_months: streak.length });
+        }
+        return;
+      }
+
+      create.push({
+        hospital_id: hospitalId,
+        kpi_id: kpi.id,
+        kpi_number: kpi.number,
+        kpi_name: kpi.name,
+        standard: kpi.standard,
+        category: kpi.category,
+        start_month: streak[0],
+        end_month: endMonth,
+        missed_months: streak,
+        consecutive_months: streak.length,
+        root_cause: null,
+        action_plan: null,
+        responsible_person: null,
+        target_date: null,
+        closure_remarks: null,
+        closed_by: null,
+        closed_date: null,
+        status: 'Open',
+      });
+    });
+
+  return { create, extend };
+}
+
+/**
+ * Reason a breach cannot be closed yet, or null when closure is allowed
+ */
+export function getBreachClosureError(
+  breach: Pick<KPIBreach, 'root_cause' | 'action_plan' | 'responsible_person' | 'target_date' | 'standard'>,
+  closure: { closedBy: string; remarks: string }
+): string | null {
+  if (!breach.standard) return 'The breach is not linked to a NABH standard';
+  if (!breach.root_cause?.trim() || !breach.action_plan?.trim()) {
+    return 'Document the root cause and action plan before closing';
+  }
+  if (!breach.responsible_person || !breach.target_date) {
+    return 'Assign a responsible person and target date to the action plan';
+  }
+  if (!closure.closedBy) return 'Select who is closing the breach';
+  if (!closure.remarks.trim()) return 'Closure remarks are required';
+  return null;
+}
+
+/**
+ * Summarise the latest month and breaches for each NABH KPI category
+ */
+export function buildKPIScorecard(
+  evaluationsByKpi: Record<string, KPIMonthEvaluation[]>,
+  breaches: KPIBreach[],
+  kpis: KPIDefinition[] = NABH_KPIS
+): KPIScorecardRow[] {
+  return NABH_KPI_CATEGORIES.map(category => {
+    const categoryKpis = kpis.filter(k => k.category === category.id);
+    const latest = categoryKpis
+      .map(k => evaluationsByKpi[k.id]?.[evaluationsByKpi[k.id].length - 1])
+      .filter((e): e is KPIMonthEvaluation => e !== undefined);
+    const categoryBreaches = breaches.filter(b => b.category === category.id);
+
+    return {
+      categoryId: category.id as KPIDefinition['category'],
+      label: category.label,
+      icon: category.icon,
+      color: category.color,
+      kpiCount: categoryKpis.length,
+      evaluatedCount: latest.length,
+      onTargetCount: latest.filter(e => e.metTarget).length,
+      worseThanBenchmarkCount: latest.filter(e => e.status === 'worse_than_benchmark').length,
+      openBreaches: categoryBreaches.filter(b => b.status !== 'Closed').length,
+      closedBreaches: categoryBreaches.filter(b => b.status === 'Closed').length,
+    };
+  });
+}
@@ -0,0 +1,185 @@
+// KPI Measurement Engine
+// Computes KPI values from monthly numerators / denominators using the
+// NABH formula and validates manual and Excel entries
+
+import { NABH_KPIS, getKPIById, getKPIByNumber } from '../data/kpiData';
+import type { KPIDefinition } from '../data/kpiData';
+import type { KPIDataEntry } from './kpiStorage';
+import type { KPIImportRow, KPIMeasurement, KPIMeasurementInput } from '../types/kpiMeasurement';
+
+// Column headers of the Excel import template
+export const KPI_IMPORT_COLUMNS = ['KPI No', 'KPI Name', 'Month', 'Numerator', 'Denominator', 'Department', 'Remarks'] as const;
+
+/**
+ * Split a KPI formula such as "(A / B) x 1000" into its terms and multiplier
+ */
+export function getKPIFormulaTerms(kpi: KPIDefinition): { numerator: string; denominator: string; multiplier: number } {
+  const multiplierMatch = kpi.formula.match(/\)\s*[x×*]\s*(\d+)\s*$/i);
+  const ratio = kpi.formula.replace(/\)\s*[x×*]\s*\d+\s*$/i, '').replace(/^\(/, '');
+  const [numerator, denominator] = ratio.split(' / ').map(term => term.trim());
+
+  return {
+    numerator: numerator || kpi.numerator,
+    denominator: denominator || kpi.denominator,
+    multiplier: multiplierMatch ? Number(multiplierMatch[1]) : 1,
+  };
+}
+
+/**
+ * KPI value from the formula, rounded to 2 decimals; null without a denominator
+ */
+export function computeKPIValue(kpi: KPIDefinition, numerator: number, denominator: number): number | null {
+  if (!Number.isFinite(numerator) || !Number.isFinite(denominator) || denominator <= 0) return null;
+  const { multiplier } = getKPIFormulaTerms(kpi);
+  return Math.round((numerator / denominator) * multiplier * 100) / 100;
+}
+
+export function isValidKPIMonth(month: string, today: Date = new Date()): boolean {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) return false;
+  const currentMonth = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
+  return month <= currentMonth;
+}
+
+/**
+ * Returns an error message, or null when the entry can be saved
+ */
+export function validateKPIMeasurement(
+  kpi: KPIDefinition,
+  month: string,
+  numerator: number,
+  denominator: number,
+  today: Date = new Date()
+): string | null {
+  const terms = getKPIFormulaTerms(kpi);
+
+  if (!isValidKPIMonth(month, today)) return 'Month must be YYYY-MM and not in the future';
+  if (!Number.isFinite(numerator)) return `${terms.numerator} is required`;
+  if (!Number.isFinite(denominator)) return `${terms.denominator} is required`;
+  if (numerator < 0 || denominator < 0) return 'Values cannot be negative';
+  if (denominator === 0) return `${terms.denominator} must be greater than zero`;
+  if (kpi.unit === 'Percentage' && numerator > denominator) {
+    return `${terms.numerator} cannot exceed ${terms.denominator.toLowerCase()}`;
+  }
+  return null;
+}
+
+/**
+ * Chart / table entries from stored measurements, oldest month first
+ */
+export function measurementsToKPIData(measurements: KPIMeasurement[]): KPIDataEntry[] {
+  return measurements
+    .slice()
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(m => ({
+      month: m.month,
+      value: Number(m.value),
+      target: Number(m.target),
+      numeratorValue: Number(m.numerator_value),
+      denominatorValue: Number(m.denominator_value),
+      remarks: m.remarks || undefined,
+      isSimulated: false,
+    }));
+}
+
+// Entries without the flag predate data capture and came from the generator
+export const isRealKPIEntry = (entry: { isSimulated?: boolean }): boolean => entry.isSimulated === false;
+
+export const hasSimulatedKPIData = (entries: { isSimulated?: boolean }[]): boolean =>
+  entries.some(entry => !isRealKPIEntry(entry));
+
+const readCell = (row: Record<string, unknown>, ...names: string[]): unknown => {
+  const key = Object.keys(row).find(k => names.includes(k.trim().toLowerCase()));
+  return key === undefined ? undefined : row[key];
+};
+
+const toNumber = (cell: unknown): number => {
+  if (typeof cell === 'number') return cell;
+  if (typeof cell !== 'string' || cell.trim() === '') return NaN;
+  return Number(cell.replace(/,/g, '').trim());
+};
+
+const toMonth = (cell: unknown): string => {
+  if (cell instanceof Date && !isNaN(cell.getTime())) {
+    return `${cell.getFullYear()}-${String(cell.getMonth() + 1).padStart(2, '0')}`;
+  }
+  const text = String(cell ?? '').trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})/);
+  if (isoMatch) return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}`;
+  const parsed = text ? new Date(`1 ${text}`) : null;
+  if (parsed && !isNaN(parsed.getTime())) {
+    return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}`;
+  }
+  return text;
+};
+
+const findKPI = (cell: unknown): KPIDefinition | undefined => {
+  const text = String(cell ?? '').trim();
+  if (/^\d+$/.test(text)) return getKPIByNumber(Number(text));
+  const numbered = text.match(/^kpi[\s-]*(\d+)$/i);
+  if (numbered) return getKPIByNumber(Number(numbered[1]));
+  return getKPIById(text) || NABH_KPIS.find(k => k.shortName.toLowerCase() === text.toLowerCase());
+};
+
+/**
+ * Parse rows from the Excel template (XLSX.utils.sheet_to_json output).
+ * Each row is validated independently so one bad row does not block the rest.
+ */
+export function parseKPIImportRows(rows: Record<string, unknown>[], today: Date = new Date()): KPIImportRow[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2; // row 1 is the header
+    const kpi = findKPI(readCell(row, 'kpi no', 'kpi', 'kpi id'));
+    if (!kpi) return { rowNumber, input: null, value: null, error: 'Unknown KPI' };
+
+    const month = toMonth(readCell(row, 'month'));
+    const numerator = toNumber(readCell(row, 'numerator'));
+    const denominator = toNumber(readCell(row, 'denominator'));
+    const error = validateKPIMeasurement(kpi, month, numerator, denominator, today);
+    if (error) return { rowNumber, input: null, value: null, error: `KPI ${kpi.number}: ${error}` };
+
+    const key = `${kpi.id}|${month}`;
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) {
+      return { rowNumber, input: null, value: null, error: `KPI ${kpi.number} ${month} already given in row ${duplicateOf}` };
+    }
+    seen.set(key, rowNumber);
+
+    const department = String(readCell(row, 'department') ?? '').trim();
+    const remarks = String(readCell(row, 'remarks') ?? '').trim();
+    return {
+      rowNumber,
+      input: {
+        kpiId: kpi.id,
+        month,
+        numerator,
+        denominator,
+        department: department || undefined,
+        remarks: remarks || undefined,
+      } satisfies KPIMeasurementInput,
+      value: computeKPIValue(kpi, numerator, denominator),
+      error: null,
+    };
+  });
+}
+
+/**
+ * Template rows for a month, pre-filled with values already captured
+ */
+export function buildKPIImportTemplateRows(
+  month: string,
+  measurements: KPIMeasurement[] = []
+): Record<(typeof KPI_IMPORT_COLUMNS)[number], string | number>[] {
+  return NABH_KPIS.map(kpi => {
+    const existing = measurements.find(m => m.kpi_id === kpi.id && m.month === month);
+    return {
+      'KPI No': kpi.number,
+      'KPI Name': kpi.shortName,
+      'Month': month,
+      'Numerator': existing ? Number(existing.numerator_value) : '',
+      'Denominator': existing ? Number(existing.denominator_value) : '',
+      'Department': existing?.department || '',
+      'Remarks': existing?.remarks || '',
+    };
+  });
+}
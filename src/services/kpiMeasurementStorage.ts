@@ -0,0 +1,241 @@
+// KPI Measurement Storage Service for Supabase
+// Monthly numerator / denominator capture. The append-only audit trail is written by a
+// database trigger as the signed-in user (record_kpi_measurement_audit).
+
+import { getAuthToken } from '../lib/supabase';
+import { getKPIById } from '../data/kpiData';
+import { computeKPIValue, validateKPIMeasurement } from './kpiMeasurementEngine';
+import type {
+  KPIMeasurement,
+  KPIMeasurementAuditEntry,
+  KPIMeasurementInput,
+  KPIMeasurementSource,
+} from '../types/kpiMeasurement';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+/**
+ * Load captured measurements for a hospital, optionally for one KPI
+ */
+export async function loadKPIMeasurements(
+  hospitalId: string,
+  kpiId?: string
+): Promise<{ success: boolean; data?: KPIMeasurement[]; error?: string }> {
+  try {
+    const kpiFilter = kpiId ? `&kpi_id=eq.${encodeURIComponent(kpiId)}` : '';
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_kpi_measurements?hospital_id=eq.${encodeURIComponent(hospitalId)}${kpiFilter}&order=month.asc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading KPI measurements:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as KPIMeasurement[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading KPI measurements:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the audit trail for a hospital, newest first
+ */
+export async function loadKPIMeasurementAudit(
+  hospitalId: string,
+  kpiId?: string
+): Promise<{ success: boolean; data?: KPIMeasurementAuditEntry[]; error?: string }> {
+  try {
+    const kpiFilter = kpiId ? `&kpi_id=eq.${encodeURIComponent(kpiId)}` : '';
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_kpi_measurement_audit?hospital_id=eq.${encodeURIComponent(hospitalId)}${kpiFilter}&order=created_at.desc&limit=500`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading KPI audit trail:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as KPIMeasurementAuditEntry[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading KPI audit trail:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save one month's numerator and denominator. The value is always computed
+ * from the KPI formula; an existing month is updated and the change audited.
+ * entered_by is set by the database to the signed-in user.
+ */
+export async function saveKPIMeasurement(
+  hospitalId: string,
+  input: KPIMeasurementInput,
+  source: KPIMeasurementSource = 'manual'
+): Promise<{ success: boolean; data?: KPIMeasurement; error?: string }> {
+  try {
+    const kpi = getKPIById(input.kpiId);
+    if (!kpi) return { success: false, error: `Unknown KPI ${input.kpiId}` };
+
+    const validationError = validateKPIMeasurement(kpi, input.month, input.numerator, input.denominator);
+    if (validationError) return { success: false, error: validationError };
+
+    const existingResponse = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_kpi_measurements?hospital_id=eq.${encodeURIComponent(hospitalId)}&kpi_id=eq.${input.kpiId}&month=eq.${input.month}&limit=1`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+    if (!existingResponse.ok) {
+      const errorText = await existingResponse.text();
+      console.error('Error checking KPI measurement:', existingResponse.status, errorText);
+      return { success: false, error: `${existingResponse.status}: ${errorText}` };
+    }
+    const existing = ((await existingResponse.json()) as KPIMeasurement[])[0] || null;
+
+    const values = {
+      numerator_value: input.numerator,
+      denominator_value: input.denominator,
+      value: computeKPIValue(kpi, input.numerator, input.denominator),
+      department: input.department || null,
+      remarks: input.remarks || null,
+    };
+
+    if (existing &&
+      Number(existing.numerator_value) === values.numerator_value &&
+      Number(existing.denominator_value) === values.denominator_value &&
+      (existing.department || null) === values.department &&
+      (existing.remarks || null) === values.remarks) {
+      return { success: true, data: existing };
+    }
+
+    const response = await fetch(
+      existing
+        ? `${SUPABASE_URL}/rest/v1/nabh_kpi_measurements?id=eq.${existing.id}`
+        : `${SUPABASE_URL}/rest/v1/nabh_kpi_measurements`,
+      {
+        method: existing ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(existing
+          ? { ...values, source }
+          : {
+            ...values,
+            hospital_id: hospitalId,
+            kpi_id: input.kpiId,
+            month: input.month,
+            target: kpi.suggestedTarget,
+            source,
+          }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving KPI measurement:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as KPIMeasurement };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving KPI measurement:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save several months / KPIs (a month's capture sheet or an Excel import).
+ * Each entry is saved independently; failures are reported per entry.
+ */
+export async function saveKPIMeasurements(
+  hospitalId: string,
+  inputs: KPIMeasurementInput[],
+  source: KPIMeasurementSource
+): Promise<{ success: boolean; data: KPIMeasurement[]; errors: string[] }> {
+  const data: KPIMeasurement[] = [];
+  const errors: string[] = [];
+
+  for (const input of inputs) {
+    const result = await saveKPIMeasurement(hospitalId, input, source);
+    if (result.success && result.data) {
+      data.push(result.data);
+    } else {
+      const kpi = getKPIById(input.kpiId);
+      errors.push(`KPI ${kpi?.number ?? input.kpiId} (${input.month}): ${result.error}`);
+    }
+  }
+
+  return { success: errors.length === 0, data, errors };
+}
+
+/**
+ * Delete a measurement; the audit trail keeps the deleted values and reason
+ */
+export async function deleteKPIMeasurement(
+  measurement: KPIMeasurement,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!reason.trim()) return { success: false, error: 'A reason is required to delete captured data' };
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/delete_kpi_measurement`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({ p_id: measurement.id, p_reason: reason.trim() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error deleting KPI measurement:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error deleting KPI measurement:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -1,6 +1,9 @@
 // KPI Graph Storage Service for Supabase
 // Handles storing KPI graphs and their history
 
+import type { SPCChartType, SPCSignal } from '../types/spc';
+import { getAuthToken } from '../lib/supabase';
+
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -14,6 +17,8 @@ export interface KPIGraphRecord {
   graph_data: KPIDataEntry[];
   prompt_used?: string;
   ai_modifications?: string;
+  chart_type?: SPCChartType | null;
+  spc_signals?: SPCSignal[];
   created_at: string;
   is_current: boolean;
 }
@@ -25,6 +30,7 @@ export interface KPIDataEntry {
   numeratorValue?: number;
   denominatorValue?: number;
   remarks?: string;
+  isSimulated?: boolean; // generated data, not evidence (see kpiMeasurementStorage for captured data)
 }
 
 /**
@@ -60,7 +66,7 @@ async function uploadGraphToStorage(
       {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'apikey': SUPABASE_ANON_KEY,
           'Content-Type': blob.type,
           'x-upsert': 'true',
@@ -97,7 +103,8 @@ export async function saveKPIGraph(
   canvasDataUrl: string,
   graphData: KPIDataEntry[],
   promptUsed?: string,
-  aiModifications?: string
+  aiModifications?: string,
+  spc?: { chartType: SPCChartType; signals: SPCSignal[] }
 ): Promise<{ success: boolean; id?: string; url?: string; error?: string }> {
   try {
     // First, mark any existing current graph as not current
@@ -108,7 +115,7 @@ export async function saveKPIGraph(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify({ is_current: false }),
       }
@@ -129,6 +136,8 @@ export async function saveKPIGraph(
       graph_data: graphData,
       prompt_used: promptUsed || null,
       ai_modifications: aiModifications || null,
+      chart_type: spc?.chartType || null,
+      spc_signals: spc?.signals || [],
       is_current: true,
     };
 
@@ -139,7 +148,7 @@ export async function saveKPIGraph(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'return=representation',
         },
         body: JSON.stringify(graphRecord),
@@ -177,7 +186,7 @@ export async function loadKPIGraphHistory(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -211,7 +220,7 @@ export async function loadCurrentKPIGraph(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -249,7 +258,7 @@ export async function deleteKPIGraph(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -284,7 +293,7 @@ export async function restoreKPIGraph(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify({ is_current: false }),
       }
@@ -298,7 +307,7 @@ export async function restoreKPIGraph(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify({ is_current: true }),
       }
@@ -334,7 +343,7 @@ export async function loadAllKPIGraphs(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
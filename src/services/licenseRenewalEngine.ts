@@ -0,0 +1,212 @@
+// License Renewal Engine
+// When a renewal task opens, its checklist, escalating reminders and the license
+// details carried over once the renewed certificate is received
+
+import type { License, LicenseDB } from '../types/license';
+import type {
+  LicenseEscalationLevel,
+  LicenseRenewal,
+  LicenseRenewalInput,
+  LicenseRenewalReminder,
+  LicenseRenewalStep,
+} from '../types/licenseRenewal';
+
+export const DEFAULT_REMINDER_INTERVAL_DAYS = 7;
+export const DEFAULT_ESCALATION_DAYS = 15;
+
+// Used when the license has no renewal process written down
+const DEFAULT_RENEWAL_STEPS = [
+  'Collect required documents',
+  'Submit renewal application',
+  'Pay renewal fee',
+  'Inspection / verification by authority',
+  'Receive renewed certificate',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isISODate = (value: string | null | undefined): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISODate(date);
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${from.slice(0, 10)}T00:00:00Z`).getTime()) / DAY_MS);
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Convert a licenses row to License (shared with the server-side reminder run)
+export const dbToLicense = (db: LicenseDB): License => ({
+  id: db.id,
+  name: db.name,
+  category: db.category as License['category'],
+  licenseNumber: db.license_number || '',
+  issuingAuthority: db.issuing_authority || '',
+  issueDate: db.issue_date || '',
+  expiryDate: db.expiry_date || '',
+  validityPeriod: db.validity_period || '',
+  status: db.status as License['status'],
+  description: db.description || '',
+  attachedDocument: db.attached_document || undefined,
+  renewalProcess: db.renewal_process || '',
+  responsiblePerson: db.responsible_person || '',
+  reminderDays: db.reminder_days,
+  lastRenewalDate: db.last_renewal_date || undefined,
+  renewalCost: db.renewal_cost || undefined,
+  documentsLink: db.documents_link || undefined,
+  hospitalId: db.hospital_id || 'hope',
+  createdAt: db.created_at,
+  updatedAt: db.updated_at,
+});
+
+/**
+ * Date the renewal task opens: expiry date less the license's reminder days. None for permanent licenses.
+ */
+export function getRenewalOpenDate(license: Pick<License, 'expiryDate' | 'reminderDays'>): string | null {
+  if (!isISODate(license.expiryDate)) return null;
+  return addDays(license.expiryDate, -(license.reminderDays || 0));
+}
+
+/**
+ * Checklist steps from the free-text renewal process: one step per line (or per ';' / '→'),
+ * without numbering or bullets
+ */
+export function parseRenewalSteps(renewalProcess: string): string[] {
+  const steps = renewalProcess
+    .split(/\r?\n|;|→|->/)
+    .map(line => line.replace(/^\s*(?:step\s*)?(?:\d+[.):]|[-*•])\s*/i, '').trim())
+    .filter(Boolean);
+  return steps.length > 0 ? steps : DEFAULT_RENEWAL_STEPS;
+}
+
+/**
+ * Licenses whose reminder window has started and that have no renewal task for the current expiry
+ */
+export function getLicensesDueForRenewal(
+  licenses: License[],
+  renewals: Pick<LicenseRenewal, 'license_id' | 'expiry_date' | 'status'>[],
+  today: Date = new Date()
+): License[] {
+  const todayISO = toISODate(today);
+  return licenses.filter(license => {
+    const openDate = getRenewalOpenDate(license);
+    if (!openDate || openDate > todayISO) return false;
+    return !renewals.some(r =>
+      r.license_id === license.id && r.status !== 'Cancelled' && r.expiry_date.slice(0, 10) === license.expiryDate.slice(0, 10)
+    );
+  });
+}
+
+export function buildRenewalTask(license: License): LicenseRenewalInput {
+  return {
+    hospital_id: license.hospitalId,
+    license_id: license.id,
+    license_name: license.name,
+    expiry_date: license.expiryDate.slice(0, 10),
+    opened_on: getRenewalOpenDate(license)!,
+    responsible_person: license.responsiblePerson || null,
+    status: 'Open',
+    steps: parseRenewalSteps(license.renewalProcess).map(step => ({ step, done: false, done_date: null, done_by: null })),
+    reminder_interval_days: DEFAULT_REMINDER_INTERVAL_DAYS,
+    escalation_days: DEFAULT_ESCALATION_DAYS,
+    last_reminded_at: null,
+    last_escalation_level: null,
+    certificate_url: null,
+    renewal_cost: null,
+    new_license_number: null,
+    new_issue_date: null,
+    new_expiry_date: null,
+    completed_date: null,
+    notes: null,
+  };
+}
+
+export function getRenewalProgress(steps: LicenseRenewalStep[]): { done: number; total: number; percent: number } {
+  const done = steps.filter(s => s.done).length;
+  return { done, total: steps.length, percent: steps.length > 0 ? Math.round((done / steps.length) * 100) : 0 };
+}
+
+export const getDaysToExpiry = (expiryDate: string, today: Date = new Date()): number =>
+  daysBetween(toISODate(today), expiryDate);
+
+/**
+ * Reminder due today for an open renewal, or null. Reminders go to the responsible person
+ * every `reminder_interval_days`; within `escalation_days` of expiry (or after it) they
+ * escalate to the NABH coordinator. Moving up a level always sends a reminder at once.
+ */
+export function getDueReminder(
+  renewal: LicenseRenewal,
+  coordinator: string,
+  today: Date = new Date()
+): LicenseRenewalReminder | null {
+  if (renewal.status !== 'Open') return null;
+
+  const daysLeft = getDaysToExpiry(renewal.expiry_date, today);
+  const level: LicenseEscalationLevel = daysLeft <= renewal.escalation_days ? 2 : 1;
+
+  if (renewal.last_reminded_at && (renewal.last_escalation_level ?? 0) >= level) {
+    const daysSince = daysBetween(renewal.last_reminded_at, toISODate(today));
+    if (daysSince < renewal.reminder_interval_days) return null;
+  }
+
+  const { done, total } = getRenewalProgress(renewal.steps);
+  const expiry = daysLeft < 0
+    ? `expired on ${formatDate(renewal.expiry_date)} (${-daysLeft} days ago)`
+    : `expires on ${formatDate(renewal.expiry_date)} (${daysLeft} days left)`;
+  const responsible = renewal.responsible_person || 'Not assigned';
+
+  return level === 1
+    ? {
+      level,
+      recipient: renewal.responsible_person || coordinator,
+      title: `Renew ${renewal.license_name}`,
+      message: `${renewal.license_name} ${expiry}. Renewal steps done: ${done}/${total}.`,
+    }
+    : {
+      level,
+      recipient: coordinator,
+      title: `Escalation: ${renewal.license_name} renewal pending`,
+      message: `${renewal.license_name} ${expiry} and the renewal is not complete (${done}/${total} steps). Responsible: ${responsible}.`,
+    };
+}
+
+/**
+ * Why a renewal cannot be completed yet, or null
+ */
+export function getRenewalCompletionError(
+  renewal: Pick<LicenseRenewal, 'status' | 'steps' | 'certificate_url' | 'renewal_cost' | 'new_expiry_date' | 'expiry_date'>
+): string | null {
+  if (renewal.status !== 'Open') return 'Only open renewals can be completed';
+  const pending = renewal.steps.filter(s => !s.done);
+  if (pending.length > 0) return `${pending.length} renewal step${pending.length === 1 ? ' is' : 's are'} not done`;
+  if (!renewal.certificate_url) return 'Attach the renewed certificate';
+  if (!renewal.new_expiry_date) return 'Enter the new expiry date';
+  if (renewal.new_expiry_date <= renewal.expiry_date) return 'New expiry date must be after the current expiry date';
+  if (renewal.renewal_cost !== null && renewal.renewal_cost < 0) return 'Renewal cost cannot be negative';
+  return null;
+}
+
+/**
+ * License columns updated when a renewal is completed
+ */
+export function getLicenseUpdatesOnRenewal(
+  renewal: Pick<LicenseRenewal, 'certificate_url' | 'renewal_cost' | 'new_license_number' | 'new_issue_date' | 'new_expiry_date'>,
+  completedDate: string
+): Partial<LicenseDB> {
+  return {
+    expiry_date: renewal.new_expiry_date,
+    issue_date: renewal.new_issue_date || completedDate,
+    last_renewal_date: completedDate,
+    attached_document: renewal.certificate_url,
+    status: 'Valid',
+    ...(renewal.new_license_number ? { license_number: renewal.new_license_number } : {}),
+    ...(renewal.renewal_cost !== null ? { renewal_cost: `₹${renewal.renewal_cost.toLocaleString('en-IN')}` } : {}),
+  };
+}
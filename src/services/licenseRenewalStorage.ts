@@ -0,0 +1,130 @@
+// License Renewal Storage Service for Supabase
+// Renewal tasks per license expiry. Tasks are also opened and reminded daily by the
+// server-side reminder run (api/license-reminders.ts)
+
+import { getAuthToken } from '../lib/supabase';
+import type { License } from '../types/license';
+import type { LicenseRenewal, LicenseRenewalInput } from '../types/licenseRenewal';
+import { getLicenseUpdatesOnRenewal, getRenewalCompletionError } from './licenseRenewalEngine';
+import { updateLicense } from './licenseStorage';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Load the renewal tasks of a hospital (latest expiry first)
+ */
+export async function loadLicenseRenewals(
+  hospitalId: string
+): Promise<{ success: boolean; data?: LicenseRenewal[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/license_renewals?hospital_id=eq.${encodeURIComponent(hospitalId)}&order=expiry_date.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading license renewals:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as LicenseRenewal[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading license renewals:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Open renewal tasks. A task already open for the same license expiry is left as is.
+ */
+export async function createLicenseRenewals(
+  renewals: LicenseRenewalInput[]
+): Promise<{ success: boolean; data?: LicenseRenewal[]; error?: string }> {
+  if (renewals.length === 0) return { success: true, data: [] };
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/license_renewals?on_conflict=license_id,expiry_date`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation,resolution=ignore-duplicates'),
+        body: JSON.stringify(renewals),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating license renewals:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as LicenseRenewal[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating license renewals:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update a renewal task (steps, certificate, cost, new validity, reminder intervals)
+ */
+export async function updateLicenseRenewal(
+  id: string,
+  updates: Partial<LicenseRenewalInput>
+): Promise<{ success: boolean; data?: LicenseRenewal; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/license_renewals?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating license renewal:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as LicenseRenewal };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating license renewal:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Complete a renewal and carry the renewed certificate, cost and validity over to the license
+ */
+export async function completeLicenseRenewal(
+  renewal: LicenseRenewal
+): Promise<{ success: boolean; data?: { renewal: LicenseRenewal; license: License }; error?: string }> {
+  const validationError = getRenewalCompletionError(renewal);
+  if (validationError) return { success: false, error: validationError };
+
+  const completedDate = new Date().toISOString().split('T')[0];
+  const licenseResult = await updateLicense(renewal.license_id, getLicenseUpdatesOnRenewal(renewal, completedDate));
+  if (!licenseResult.success || !licenseResult.data) return { success: false, error: licenseResult.error };
+
+  const renewalResult = await updateLicenseRenewal(renewal.id, { status: 'Completed', completed_date: completedDate });
+  if (!renewalResult.success || !renewalResult.data) return { success: false, error: renewalResult.error };
+
+  return { success: true, data: { renewal: renewalResult.data, license: licenseResult.data } };
+}
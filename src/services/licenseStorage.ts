@@ -0,0 +1,48 @@
+// License Storage Service for Supabase
+// License updates made outside the licenses page
+
+import { getAuthToken } from '../lib/supabase';
+import type { License, LicenseDB } from '../types/license';
+import { dbToLicense } from './licenseRenewalEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Update license columns
+ */
+export async function updateLicense(
+  id: string,
+  updates: Partial<LicenseDB>
+): Promise<{ success: boolean; data?: License; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/licenses?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating license:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = (await response.json()) as LicenseDB[];
+    return { success: true, data: dbToLicense(data[0]) };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating license:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Mock NABH Assessment Engine
+ * Grades every objective element the way an assessor would (0/5/10)
+ * and rolls the scores up into chapter-wise and overall results.
+ */
+
+import type { Chapter, ObjectiveElement } from '../types/nabh';
+import type { GeneratedEvidence } from './objectiveStorage';
+import type {
+  ElementScore,
+  ElementAssessment,
+  ChapterAssessment,
+  MockAssessmentResult,
+} from '../types/mockAssessment';
+
+// Pass criteria used by NABH for the final accreditation decision
+export const NABH_PASS_RULES = {
+  coreElementScore: 10,      // Every core element must be fully compliant
+  minChapterAverage: 7,      // Each chapter must average at least 7/10
+  minOverallAverage: 7,      // Overall average must be at least 7/10
+};
+
+export type EvidenceSummary = Pick<GeneratedEvidence, 'objective_code' | 'evidence_type' | 'is_auditor_ready'>;
+
+const DOCUMENTATION_TYPES: GeneratedEvidence['evidence_type'][] = ['document', 'package', 'register'];
+const IMPLEMENTATION_TYPES: GeneratedEvidence['evidence_type'][] = ['register', 'visual'];
+
+/**
+ * Score a single objective element from its status, uploads and saved evidence
+ */
+export function scoreObjectiveElement(
+  element: ObjectiveElement,
+  chapterCode: string,
+  evidences: EvidenceSummary[] = []
+): ElementAssessment {
+  const findings: string[] = [];
+
+  const hasDocumentation =
+    element.sopDocuments.length > 0 ||
+    evidences.some(e => DOCUMENTATION_TYPES.includes(e.evidence_type));
+
+  const hasImplementation =
+    element.evidenceFiles.length > 0 ||
+    evidences.some(e => IMPLEMENTATION_TYPES.includes(e.evidence_type));
+
+  // Priority items are what the assessor will ask for first; at least one
+  // evidence must be marked auditor-ready when they have been identified
+  const priorityItems = element.auditorPriorityItems || [];
+  const hasAuditorReadyEvidence =
+    priorityItems.length === 0 || evidences.some(e => e.is_auditor_ready);
+
+  if (!hasDocumentation) findings.push('No SOP or documented policy available');
+  if (!hasImplementation) findings.push('No implementation evidence (records, photos, registers)');
+  if (!hasAuditorReadyEvidence) {
+    findings.push(`${priorityItems.length} auditor priority item(s) without auditor-ready evidence`);
+  }
+  if (element.status !== 'Completed') {
+    findings.push(`Element status is "${element.status || 'Not started'}"`);
+  }
+
+  let score: ElementScore = 0;
+  if (element.status === 'Completed' && hasDocumentation && hasImplementation && hasAuditorReadyEvidence) {
+    score = 10;
+  } else if (hasDocumentation || hasImplementation) {
+    score = 5;
+  }
+
+  return {
+    objectiveCode: element.code,
+    title: element.title,
+    chapterCode,
+    category: element.category,
+    isCore: element.isCore,
+    score,
+    hasDocumentation,
+    hasImplementation,
+    hasAuditorReadyEvidence,
+    findings: score === 10 ? [] : findings,
+  };
+}
+
+/**
+ * Roll up element scores for one chapter and apply the core-element rule
+ */
+export function summariseChapter(chapter: Chapter, elements: ElementAssessment[]): ChapterAssessment {
+  const totalScore = elements.reduce((sum, e) => sum + e.score, 0);
+  const maxScore = elements.length * 10;
+  const averageScore = elements.length > 0 ? totalScore / elements.length : 0;
+  const coreElements = elements.filter(e => e.isCore);
+  const coreFailures = coreElements
+    .filter(e => e.score < NABH_PASS_RULES.coreElementScore)
+    .map(e => e.objectiveCode);
+
+  return {
+    chapterCode: chapter.code,
+    chapterName: chapter.fullName,
+    elementCount: elements.length,
+    totalScore,
+    maxScore,
+    averageScore: Math.round(averageScore * 100) / 100,
+    percentage: maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0,
+    fullyCompliant: elements.filter(e => e.score === 10).length,
+    partiallyCompliant: elements.filter(e => e.score === 5).length,
+    notCompliant: elements.filter(e => e.score === 0).length,
+    coreElements: coreElements.length,
+    coreFailures,
+    passed: coreFailures.length === 0 && averageScore >= NABH_PASS_RULES.minChapterAverage,
+  };
+}
+
+/**
+ * Walk every chapter and produce the full mock assessment result
+ * @param evidenceByObjective map of objective_code -> saved generated evidence
+ */
+export function runMockAssessment(
+  chapters: Chapter[],
+  evidenceByObjective: Record<string, EvidenceSummary[]> = {}
+): MockAssessmentResult {
+  const allElements: ElementAssessment[] = [];
+  const chapterResults: ChapterAssessment[] = [];
+
+  chapters.forEach(chapter => {
+    const elements = chapter.objectives.map(obj =>
+      scoreObjectiveElement(obj, chapter.code, evidenceByObjective[obj.code])
+    );
+    allElements.push(...elements);
+    chapterResults.push(summariseChapter(chapter, elements));
+  });
+
+  const totalScore = allElements.reduce((sum, e) => sum + e.score, 0);
+  const maxScore = allElements.length * 10;
+  const averageScore = allElements.length > 0 ? totalScore / allElements.length : 0;
+  const coreFailures = chapterResults.flatMap(c => c.coreFailures);
+  const failedChapters = chapterResults.filter(c => !c.passed).map(c => c.chapterCode);
+
+  return {
+    summary: {
+      elementCount: allElements.length,
+      totalScore,
+      maxScore,
+      averageScore: Math.round(averageScore * 100) / 100,
+      percentage: maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0,
+      coreElements: allElements.filter(e => e.isCore).length,
+      coreFailures,
+      failedChapters,
+      passed:
+        allElements.length > 0 &&
+        coreFailures.length === 0 &&
+        failedChapters.length === 0 &&
+        averageScore >= NABH_PASS_RULES.minOverallAverage,
+    },
+    chapters: chapterResults,
+    elements: allElements,
+  };
+}
@@ -0,0 +1,127 @@
+// Mock Assessment Storage Service for Supabase
+// Stores dated mock NABH assessment runs so results can be compared over time
+
+import { getAuthToken } from '../lib/supabase';
+import type { MockAssessmentResult, MockAssessmentRun } from '../types/mockAssessment';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+/**
+ * Save a completed mock assessment as a dated run
+ */
+export async function saveMockAssessmentRun(
+  hospitalId: string,
+  result: MockAssessmentResult,
+  assessedBy?: string,
+  notes?: string
+): Promise<{ success: boolean; data?: MockAssessmentRun; error?: string }> {
+  try {
+    const record = {
+      hospital_id: hospitalId,
+      run_date: new Date().toISOString().split('T')[0],
+      assessed_by: assessedBy || null,
+      notes: notes || null,
+      overall_score: result.summary.averageScore,
+      overall_percentage: result.summary.percentage,
+      passed: result.summary.passed,
+      summary: result.summary,
+      chapter_results: result.chapters,
+      element_results: result.elements,
+    };
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_mock_assessments`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(record),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving mock assessment:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as MockAssessmentRun };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving mock assessment:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load all mock assessment runs for a hospital (newest first)
+ */
+export async function loadMockAssessmentRuns(
+  hospitalId: string
+): Promise<{ success: boolean; data?: MockAssessmentRun[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_mock_assessments?hospital_id=eq.${encodeURIComponent(hospitalId)}&order=created_at.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading mock assessments:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as MockAssessmentRun[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading mock assessments:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Delete a mock assessment run
+ */
+export async function deleteMockAssessmentRun(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_mock_assessments?id=eq.${id}`,
+      {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error deleting mock assessment:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error deleting mock assessment:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
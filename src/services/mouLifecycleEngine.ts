@@ -0,0 +1,188 @@
+// MOU Lifecycle Engine
+// Scores partner performance reviews against the MOU's service obligations, works out
+// when the next review is due and where each MOU sits in the expiry / renewal pipeline
+
+import type {
+  MOU,
+  MOUObligation,
+  MOURenewalStage,
+  MOUReview,
+  MOUReviewFrequency,
+  MOUReviewInput,
+  MOUReviewRating,
+  MOUReviewScore,
+} from '../types/mou';
+
+// Same window the MOU page uses for "Expiring Soon"
+export const MOU_RENEWAL_WINDOW_DAYS = 90;
+
+export const REVIEW_FREQUENCY_MONTHS: Record<MOUReviewFrequency, number> = {
+  'Monthly': 1,
+  'Quarterly': 3,
+  'Half-yearly': 6,
+  'Yearly': 12,
+};
+
+export const MOU_RENEWAL_STAGES: MOURenewalStage[] = ['Renewal Due', 'Lapsing', 'Under Renewal', 'Expired', 'Active', 'Terminated'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toISODate = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toISODate(date);
+};
+
+// Month arithmetic clamped to the end of the month (31 Jan + 1 month = 28/29 Feb)
+const addMonths = (isoDate: string, months: number): string => {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toISODate(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+};
+
+export const getDaysToMOUExpiry = (expiryDate: string, today: Date = new Date()): number =>
+  Math.round((new Date(`${expiryDate.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${toISODate(today)}T00:00:00Z`).getTime()) / DAY_MS);
+
+export function isObligationMet(
+  term: Pick<MOUObligation, 'target' | 'direction'>,
+  actual: number
+): boolean {
+  return term.direction === 'max' ? actual <= term.target : actual >= term.target;
+}
+
+export function formatObligationTerm(term: Pick<MOUObligation, 'target' | 'unit' | 'direction'>): string {
+  const value = term.unit === '%' ? `${term.target}%` : `${term.target} ${term.unit}`;
+  return `${term.direction === 'max' ? '≤' : '≥'} ${value}`;
+}
+
+/**
+ * Empty score sheet for a review: one row per active obligation with its terms copied in
+ */
+export function buildReviewScores(obligations: MOUObligation[]): MOUReviewScore[] {
+  return obligations
+    .filter(o => o.is_active)
+    .map(o => ({
+      obligation_id: o.id,
+      description: o.description,
+      target: o.target,
+      unit: o.unit,
+      direction: o.direction,
+      weight: o.weight,
+      actual: null,
+      met: null,
+      comments: null,
+    }));
+}
+
+export function getReviewRating(overallScore: number): MOUReviewRating {
+  if (overallScore >= 90) return 'Meets Terms';
+  if (overallScore >= 70) return 'Partially Meets';
+  return 'Does Not Meet';
+}
+
+/**
+ * Mark each measured obligation met / not met and score the review as the weighted
+ * percentage of measured obligations that were met. Unmeasured rows do not count.
+ */
+export function scoreReview(
+  scores: MOUReviewScore[]
+): { scores: MOUReviewScore[]; overall_score: number; rating: MOUReviewRating } {
+  const scored = scores.map(s => ({ ...s, met: s.actual === null ? null : isObligationMet(s, s.actual) }));
+  const measured = scored.filter(s => s.met !== null);
+  const totalWeight = measured.reduce((sum, s) => sum + s.weight, 0);
+  const metWeight = measured.filter(s => s.met).reduce((sum, s) => sum + s.weight, 0);
+  const overall = totalWeight > 0 ? Math.round((metWeight / totalWeight) * 1000) / 10 : 0;
+  return { scores: scored, overall_score: overall, rating: getReviewRating(overall) };
+}
+
+export function getReviewValidationError(
+  review: Pick<MOUReviewInput, 'period_start' | 'period_end' | 'reviewed_by' | 'scores'>
+): string | null {
+  if (!review.reviewed_by.trim()) return 'Enter who reviewed the partner';
+  if (!review.period_start || !review.period_end) return 'Enter the review period';
+  if (review.period_end < review.period_start) return 'Review period end must be after its start';
+  if (review.scores.length === 0) return 'Add service obligations to the MOU before reviewing it';
+  if (!review.scores.some(s => s.actual !== null)) return 'Enter the actual performance for at least one obligation';
+  return null;
+}
+
+/**
+ * The period the next performance review should cover: from the end of the last review
+ * (or the signing date) for the shortest review frequency among the active obligations.
+ * Overdue once the period has ended without a review.
+ */
+export function getNextReviewPeriod(
+  mou: Pick<MOU, 'id' | 'signedDate'>,
+  obligations: MOUObligation[],
+  reviews: MOUReview[],
+  today: Date = new Date()
+): { period_start: string; period_end: string; overdue: boolean } | null {
+  const active = obligations.filter(o => o.mou_id === mou.id && o.is_active);
+  if (active.length === 0 || !mou.signedDate) return null;
+
+  const months = Math.min(...active.map(o => REVIEW_FREQUENCY_MONTHS[o.review_frequency]));
+  const lastEnd = reviews
+    .filter(r => r.mou_id === mou.id)
+    .reduce<string | null>((latest, r) => (!latest || r.period_end > latest ? r.period_end : latest), null);
+  const periodStart = lastEnd ? addDays(lastEnd, 1) : mou.signedDate.slice(0, 10);
+  const periodEnd = addDays(addMonths(periodStart, months), -1);
+
+  return { period_start: periodStart, period_end: periodEnd, overdue: periodEnd < toISODate(today) };
+}
+
+/**
+ * Where the MOU sits in the expiry / renewal pipeline
+ */
+export function getMOURenewalStage(
+  mou: Pick<MOU, 'status' | 'expiryDate' | 'renewalRequired'>,
+  today: Date = new Date()
+): MOURenewalStage {
+  if (mou.status === 'Terminated') return 'Terminated';
+  if (mou.status === 'Under Renewal') return 'Under Renewal';
+  if (!/^\d{4}-\d{2}-\d{2}/.test(mou.expiryDate)) return 'Active';
+
+  const daysLeft = getDaysToMOUExpiry(mou.expiryDate, today);
+  if (daysLeft < 0 || mou.status === 'Expired') return 'Expired';
+  if (daysLeft <= MOU_RENEWAL_WINDOW_DAYS) return mou.renewalRequired ? 'Renewal Due' : 'Lapsing';
+  return 'Active';
+}
+
+/**
+ * MOUs grouped by pipeline stage, soonest expiry first
+ */
+export function getRenewalPipeline(mous: MOU[], today: Date = new Date()): Record<MOURenewalStage, MOU[]> {
+  const pipeline = Object.fromEntries(MOU_RENEWAL_STAGES.map(stage => [stage, [] as MOU[]])) as Record<MOURenewalStage, MOU[]>;
+  [...mous]
+    .sort((a, b) => (a.expiryDate || '9999').localeCompare(b.expiryDate || '9999'))
+    .forEach(mou => pipeline[getMOURenewalStage(mou, today)].push(mou));
+  return pipeline;
+}
+
+/**
+ * Performance across past reviews: average score and the obligations missed most often
+ */
+export function summarizeReviews(
+  reviews: MOUReview[]
+): { count: number; averageScore: number | null; latestRating: MOUReviewRating | null; misses: { description: string; missed: number; measured: number }[] } {
+  if (reviews.length === 0) return { count: 0, averageScore: null, latestRating: null, misses: [] };
+
+  const sorted = [...reviews].sort((a, b) => b.period_end.localeCompare(a.period_end));
+  const averageScore = Math.round((reviews.reduce((sum, r) => sum + r.overall_score, 0) / reviews.length) * 10) / 10;
+
+  const byObligation = new Map<string, { description: string; missed: number; measured: number }>();
+  reviews.forEach(r => r.scores.forEach(s => {
+    if (s.met === null) return;
+    const entry = byObligation.get(s.obligation_id) || { description: s.description, missed: 0, measured: 0 };
+    entry.measured += 1;
+    if (!s.met) entry.missed += 1;
+    byObligation.set(s.obligation_id, entry);
+  }));
+
+  const misses = [...byObligation.values()]
+    .filter(m => m.missed > 0)
+    .sort((a, b) => b.missed - a.missed || a.description.localeCompare(b.description));
+
+  return { count: reviews.length, averageScore, latestRating: sorted[0].rating, misses };
+}
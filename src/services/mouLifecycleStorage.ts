@@ -0,0 +1,256 @@
+// MOU Lifecycle Storage Service for Supabase
+// Service obligations per MOU, partner performance reviews and renewal drafts
+
+import { getAuthToken } from '../lib/supabase';
+import type {
+  MOU,
+  MOUObligation,
+  MOUObligationInput,
+  MOURenewalDraft,
+  MOURenewalDraftInput,
+  MOUReview,
+  MOUReviewInput,
+} from '../types/mou';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Load the service obligations of every MOU
+ */
+export async function loadMOUObligations(): Promise<{ success: boolean; data?: MOUObligation[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_obligations?order=created_at.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading MOU obligations:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as MOUObligation[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading MOU obligations:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create a service obligation
+ */
+export async function createMOUObligation(
+  obligation: MOUObligationInput
+): Promise<{ success: boolean; data?: MOUObligation; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_obligations`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify(obligation),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating MOU obligation:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as MOUObligation };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating MOU obligation:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update a service obligation. Past reviews keep the terms they were scored against.
+ */
+export async function updateMOUObligation(
+  id: string,
+  updates: Partial<MOUObligationInput>
+): Promise<{ success: boolean; data?: MOUObligation; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_obligations?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating MOU obligation:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as MOUObligation };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating MOU obligation:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the performance reviews of every MOU (latest period first)
+ */
+export async function loadMOUReviews(): Promise<{ success: boolean; data?: MOUReview[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_reviews?order=period_end.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading MOU reviews:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as MOUReview[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading MOU reviews:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Record a performance review
+ */
+export async function createMOUReview(
+  review: MOUReviewInput
+): Promise<{ success: boolean; data?: MOUReview; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_reviews`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify(review),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating MOU review:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as MOUReview };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating MOU review:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the saved renewal drafts of an MOU (latest first)
+ */
+export async function loadMOURenewalDrafts(
+  mouId: string
+): Promise<{ success: boolean; data?: MOURenewalDraft[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_renewal_drafts?mou_id=eq.${mouId}&order=created_at.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading MOU renewal drafts:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as MOURenewalDraft[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading MOU renewal drafts:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save an edited renewal letter and addendum
+ */
+export async function createMOURenewalDraft(
+  draft: MOURenewalDraftInput
+): Promise<{ success: boolean; data?: MOURenewalDraft; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mou_renewal_drafts`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify(draft),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating MOU renewal draft:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as MOURenewalDraft };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating MOU renewal draft:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Move an MOU along the renewal pipeline (e.g. to 'Under Renewal' once the draft is sent)
+ */
+export async function updateMOUStatus(
+  id: string,
+  status: MOU['status']
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/mous?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers(),
+        body: JSON.stringify({ status, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating MOU status:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating MOU status:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
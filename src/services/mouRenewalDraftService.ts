@@ -0,0 +1,186 @@
+// MOU Renewal Draft Service
+// Drafts a renewal letter and an addendum with Gemini from the MOU and its performance reviews
+
+import { callGeminiAPI } from './aiGatewayClient';
+import type { HospitalInfo } from '../config/hospitalConfig';
+import type { MOU, MOUObligation, MOUReview } from '../types/mou';
+import { formatObligationTerm, summarizeReviews } from './mouLifecycleEngine';
+
+export interface MOURenewalDraftContent {
+  letter: string;
+  addendum: string;
+}
+
+const formatDate = (date: string) =>
+  date
+    ? new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'long', year: 'numeric' })
+    : 'Not recorded';
+
+/**
+ * Build the drafting prompt. Review outcomes steer the tone: obligations missed in past
+ * reviews are tightened in the addendum, consistently met ones are carried over.
+ */
+export function buildRenewalDraftPrompt(
+  mou: MOU,
+  obligations: MOUObligation[],
+  reviews: MOUReview[],
+  hospital: Pick<HospitalInfo, 'name' | 'address'>
+): string {
+  const summary = summarizeReviews(reviews);
+  const terms = obligations.filter(o => o.is_active);
+  const latest = [...reviews].sort((a, b) => b.period_end.localeCompare(a.period_end))[0];
+
+  const source = {
+    hospital: hospital.name,
+    hospitalAddress: hospital.address,
+    title: mou.title,
+    partner: mou.partnerOrganization,
+    partnerContact: mou.partnerContact,
+    category: mou.category,
+    signedDate: formatDate(mou.signedDate),
+    expiryDate: formatDate(mou.expiryDate),
+    validityPeriod: mou.validityPeriod,
+    purpose: mou.purpose,
+    keyBenefits: mou.keyBenefits,
+    financialImplications: mou.financialImplications || undefined,
+    complianceRequirements: mou.complianceRequirements,
+    responsiblePerson: mou.responsiblePerson,
+    serviceObligations: terms.map(o => `${o.description}: ${formatObligationTerm(o)} (reviewed ${o.review_frequency.toLowerCase()})`),
+    performance: summary.count === 0 ? 'No performance reviews recorded' : {
+      reviews: summary.count,
+      averageScore: `${summary.averageScore}%`,
+      latestRating: summary.latestRating,
+      latestRemarks: latest?.remarks || undefined,
+      latestActionRequired: latest?.action_required || undefined,
+      obligationsMissed: summary.misses.map(m => `${m.description}: missed in ${m.missed} of ${m.measured} reviews`),
+    },
+  };
+
+  return `You are the NABH quality coordinator of an Indian hospital drafting the renewal of a Memorandum of Understanding with a partner.
+
+Using the MOU details and the partner's performance reviews below, write:
+1. "letter": a formal renewal letter from ${hospital.name} to the partner proposing renewal for the same validity period, referring to the original MOU by title and dates, acknowledging what worked and, where obligations were missed, stating clearly that continued partnership depends on meeting them.
+2. "addendum": a renewal addendum to the MOU with numbered clauses: renewal term, the service obligations with measurable targets (tighten or add monitoring for obligations that were missed; keep those consistently met), performance review frequency, reporting, non-performance remedies, compliance requirements, and signature blocks for both parties.
+
+RULES:
+- Plain text only, no markdown. Use line breaks between paragraphs and clauses.
+- Use only facts given below. Leave [placeholders] for anything unknown such as dates of signing or reference numbers.
+- Do not invent penalties or amounts that are not implied by the data; use [amount] placeholders instead.
+
+MOU (JSON):
+${JSON.stringify(source, null, 2)}
+
+Return ONLY valid JSON in this format:
+{
+  "letter": "full letter text",
+  "addendum": "full addendum text"
+}`;
+}
+
+/**
+ * Parse the model's JSON into the letter and addendum
+ */
+export function parseRenewalDraftResponse(
+  content: string
+): { success: boolean; data?: MOURenewalDraftContent; error?: string } {
+  try {
+    let jsonContent = content;
+    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonContent = jsonMatch[1].trim();
+    } else {
+      const objectMatch = content.match(/\{[\s\S]*\}/);
+      if (objectMatch) {
+        jsonContent = objectMatch[0];
+      }
+    }
+
+    const parsed = JSON.parse(jsonContent);
+    if (typeof parsed.letter !== 'string' || !parsed.letter.trim() || typeof parsed.addendum !== 'string' || !parsed.addendum.trim()) {
+      return { success: false, error: 'Invalid response format: missing letter or addendum' };
+    }
+
+    return { success: true, data: { letter: parsed.letter.trim(), addendum: parsed.addendum.trim() } };
+  } catch (error) {
+    console.error('Error parsing renewal draft response:', error);
+    return {
+      success: false,
+      error: `Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Draft the renewal letter and addendum through the Gemini proxy.
+ * The draft is edited in the lifecycle dialog before it is saved or printed.
+ */
+export async function draftMOURenewal(
+  mou: MOU,
+  obligations: MOUObligation[],
+  reviews: MOUReview[],
+  hospital: Pick<HospitalInfo, 'name' | 'address'>
+): Promise<{ success: boolean; data?: MOURenewalDraftContent; error?: string }> {
+  try {
+    const data = await callGeminiAPI(buildRenewalDraftPrompt(mou, obligations, reviews, hospital), 0.4, 8192, 'mou-renewal-draft');
+    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!content) {
+      return { success: false, error: 'No response from AI model' };
+    }
+
+    return parseRenewalDraftResponse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error drafting MOU renewal:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text.split(/\n{2,}/).map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br />')}</p>`).join('');
+
+/**
+ * Printable renewal letter on the hospital letterhead followed by the addendum
+ */
+export function buildRenewalDraftHTML(
+  draft: MOURenewalDraftContent,
+  mou: Pick<MOU, 'title' | 'partnerOrganization'>,
+  hospital: HospitalInfo
+): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>MOU Renewal - ${escapeHtml(mou.partnerOrganization)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', serif; line-height: 1.6; font-size: 13px; color: #222; padding: 30px; }
+    .header { text-align: center; border-bottom: 2px solid #1565C0; padding-bottom: 10px; margin-bottom: 20px; }
+    .hospital-name { font-size: 22px; font-weight: bold; color: #1565C0; }
+    .contact { font-size: 11px; color: #555; }
+    .doc-title { font-size: 16px; font-weight: bold; text-align: center; margin: 10px 0 16px; letter-spacing: 1px; }
+    p { margin-bottom: 10px; }
+    .page-break { page-break-before: always; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="${escapeHtml(hospital.logo)}" alt="" style="height: 50px; margin-bottom: 4px;" />
+    <div class="hospital-name">${escapeHtml(hospital.name)}</div>
+    <div class="contact">${escapeHtml(hospital.address)} | ${escapeHtml(hospital.phone)} | ${escapeHtml(hospital.email)}</div>
+  </div>
+  ${paragraphs(draft.letter)}
+
+  <div class="page-break"></div>
+  <div class="doc-title">ADDENDUM TO ${escapeHtml(mou.title.toUpperCase())}</div>
+  ${paragraphs(draft.addendum)}
+</body>
+</html>`;
+}
@@ -0,0 +1,245 @@
+// Non-Conformity Register Storage Service for Supabase
+// Handles NC records, CAPA updates and tagging of the linked objective element
+
+import { getAuthToken } from '../lib/supabase';
+import type { Chapter, ObjectiveElement } from '../types/nabh';
+import type {
+  NonConformity,
+  NonConformityInput,
+  NCSource,
+  NCAgeingBucket,
+} from '../types/nonConformity';
+import { saveObjectiveToSupabase } from './objectiveStorage';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+/**
+ * Load all NCs for a hospital (newest first)
+ */
+export async function loadNonConformities(
+  hospitalId: string
+): Promise<{ success: boolean; data?: NonConformity[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_non_conformities?hospital_id=eq.${encodeURIComponent(hospitalId)}&order=raised_date.desc,created_at.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading non-conformities:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as NonConformity[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading non-conformities:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create one or more NCs. NC numbers are assigned by the database (assign_nc_number).
+ */
+export async function createNonConformities(
+  ncs: NonConformityInput[]
+): Promise<{ success: boolean; data?: NonConformity[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_non_conformities`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(ncs),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error creating non-conformity:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as NonConformity[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error creating non-conformity:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update an NC (CAPA details, closure, verification)
+ */
+export async function updateNonConformity(
+  id: string,
+  updates: Partial<NonConformityInput>
+): Promise<{ success: boolean; data?: NonConformity; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_non_conformities?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify({ ...updates, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating non-conformity:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as NonConformity };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error updating non-conformity:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Delete an NC
+ */
+export async function deleteNonConformity(
+  id: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_non_conformities?id=eq.${id}`,
+      {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error deleting non-conformity:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error deleting non-conformity:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// ============================================
+// NC helpers
+// ============================================
+
+/**
+ * Days an NC has been open (or took to close)
+ */
+export function getNCAgeDays(nc: Pick<NonConformity, 'raised_date' | 'closure_date'>, today: Date = new Date()): number {
+  const start = new Date(nc.raised_date);
+  const end = nc.closure_date ? new Date(nc.closure_date) : today;
+  return Math.max(0, Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)));
+}
+
+export function getNCAgeingBucket(ageDays: number): NCAgeingBucket {
+  if (ageDays <= 30) return '0-30 days';
+  if (ageDays <= 60) return '31-60 days';
+  if (ageDays <= 90) return '61-90 days';
+  return '90+ days';
+}
+
+export function isNCOverdue(nc: Pick<NonConformity, 'status' | 'due_date'>, today: Date = new Date()): boolean {
+  if (nc.status === 'Closed' || !nc.due_date) return false;
+  return new Date(nc.due_date) < new Date(today.toISOString().split('T')[0]);
+}
+
+/**
+ * Build NC records from a list of findings (e.g. clinical audit findings)
+ */
+export function buildNCsFromFindings(
+  findings: string[],
+  options: {
+    hospitalId: string;
+    objectiveCode: string;
+    source: NCSource;
+    sourceReference?: string;
+    raisedBy?: string;
+    capaOwner?: string;
+  }
+): NonConformityInput[] {
+  const today = new Date().toISOString().split('T')[0];
+
+  return findings.map(finding => ({
+    hospital_id: options.hospitalId,
+    objective_code: options.objectiveCode,
+    chapter_code: options.objectiveCode.split('.')[0].toUpperCase(),
+    finding,
+    source: options.source,
+    source_reference: options.sourceReference || null,
+    severity: 'Minor',
+    raised_by: options.raisedBy || null,
+    raised_date: today,
+    root_cause: null,
+    correction: null,
+    corrective_action: null,
+    preventive_action: null,
+    capa_owner: options.capaOwner || null,
+    due_date: null,
+    closure_evidence: null,
+    closure_date: null,
+    verified_by: null,
+    verified_date: null,
+    verification_remarks: null,
+    status: 'Open',
+  }));
+}
+
+/**
+ * Tag the linked objective element as 'Prev NC' so it is prioritised in the chapter view.
+ * Core elements keep their CORE priority.
+ */
+export async function tagObjectiveWithNC(
+  chapters: Chapter[],
+  objectiveCode: string,
+  updateObjective: (chapterId: string, objectiveId: string, updates: Partial<ObjectiveElement>) => void
+): Promise<{ success: boolean; error?: string }> {
+  for (const chapter of chapters) {
+    const objective = chapter.objectives.find(o => o.code.toLowerCase() === objectiveCode.toLowerCase());
+    if (!objective) continue;
+
+    if (objective.isCore || objective.priority === 'Prev NC') {
+      return { success: true };
+    }
+
+    updateObjective(chapter.id, objective.id, { priority: 'Prev NC' });
+    return saveObjectiveToSupabase(chapter.id, { ...objective, priority: 'Prev NC' });
+  }
+
+  return { success: false, error: `Objective ${objectiveCode} not found` };
+}
@@ -0,0 +1,79 @@
+// Notification Storage Service for Supabase
+// In-app notifications for the header notification centre. Notifications are created by
+// the server-side reminder run; each user reads and marks read only their own.
+
+import { getAuthToken } from '../lib/supabase';
+import type { AppNotification } from '../types/notification';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+const NOTIFICATION_LIMIT = 50;
+
+/**
+ * Load the latest notifications of a hospital addressed to a recipient (NABH_TEAM member name)
+ */
+export async function loadNotifications(
+  hospitalId: string,
+  recipient: string
+): Promise<{ success: boolean; data?: AppNotification[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/notifications?hospital_id=eq.${encodeURIComponent(hospitalId)}&recipient=eq.${encodeURIComponent(recipient)}&order=created_at.desc&limit=${NOTIFICATION_LIMIT}`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading notifications:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as AppNotification[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading notifications:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Mark a recipient's notifications as read
+ */
+export async function markNotificationsRead(
+  ids: string[],
+  recipient: string
+): Promise<{ success: boolean; error?: string }> {
+  if (ids.length === 0) return { success: true };
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/notifications?id=in.(${ids.join(',')})&recipient=eq.${encodeURIComponent(recipient)}`,
+      {
+        method: 'PATCH',
+        headers: await headers(),
+        body: JSON.stringify({ read_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error marking notifications read:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error marking notifications read:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -1,4 +1,5 @@
 import type { ObjectiveElement, NABHChapter, NABHStandard, NABHObjectiveElement, ElementCategory } from '../types/nabh';
+import { getAuthToken } from '../lib/supabase';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -64,7 +65,7 @@ async function uploadInfographicToStorage(
       {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'apikey': SUPABASE_ANON_KEY,
           'Content-Type': blob.type,
           'x-upsert': 'true',
@@ -148,7 +149,7 @@ export async function saveObjectiveToSupabase(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'resolution=merge-duplicates',
         },
         body: JSON.stringify(editData),
@@ -172,7 +173,7 @@ export async function saveObjectiveToSupabase(
           {
             headers: {
               'apikey': SUPABASE_ANON_KEY,
-              'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+              'Authorization': `Bearer ${await getAuthToken()}`,
             },
           }
         );
@@ -223,7 +224,7 @@ export async function saveObjectiveToSupabase(
                 headers: {
                   'Content-Type': 'application/json',
                   'apikey': SUPABASE_ANON_KEY,
-                  'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+                  'Authorization': `Bearer ${await getAuthToken()}`,
                 },
                 body: JSON.stringify(normalizedUpdate),
               }
@@ -263,7 +264,7 @@ export async function loadObjectiveFromSupabase(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -329,7 +330,7 @@ export async function loadAllObjectiveEditsFromSupabase(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -392,7 +393,7 @@ export async function deleteObjectiveFromSupabase(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -456,7 +457,7 @@ export async function saveGeneratedEvidence(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -479,7 +480,7 @@ export async function saveGeneratedEvidence(
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'return=representation',
           },
           body: JSON.stringify({
@@ -509,7 +510,7 @@ export async function saveGeneratedEvidence(
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'return=representation',
           },
           body: JSON.stringify({
@@ -558,7 +559,7 @@ export async function updateGeneratedEvidence(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify(updates),
       }
@@ -592,7 +593,7 @@ export async function loadGeneratedEvidences(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -626,7 +627,7 @@ export async function loadEvidenceById(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -671,7 +672,7 @@ export async function loadEvidenceCountsForObjectives(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -703,7 +704,55 @@ export async function loadEvidenceCountsForObjectives(
 }
 
 /**
- * Delete a generated evidence document
+ * Load a lightweight summary of every generated evidence (used for mock assessments)
+ * Returns a map of objective_code -> array of evidence summaries (all evidence types)
+ */
+export async function loadAllEvidenceSummaries(): Promise<{
+  success: boolean;
+  data?: Record<string, GeneratedEvidence[]>;
+  error?: string;
+}> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_ai_generated_evidence?select=id,objective_code,evidence_title,evidence_type,is_auditor_ready,created_at&order=created_at.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading evidence summaries:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+
+    const grouped: Record<string, GeneratedEvidence[]> = {};
+    for (const evidence of data) {
+      const code = evidence.objective_code;
+      if (!grouped[code]) {
+        grouped[code] = [];
+      }
+      grouped[code].push(evidence as GeneratedEvidence);
+    }
+
+    return { success: true, data: grouped };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading evidence summaries:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Delete a generated evidence document. Sent with the signed-in user's token: row level
+ * security only lets NABH coordinators delete evidence.
  */
 export async function deleteGeneratedEvidence(
   id: string
@@ -716,7 +765,8 @@ export async function deleteGeneratedEvidence(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
         },
       }
     );
@@ -727,6 +777,12 @@ export async function deleteGeneratedEvidence(
       return { success: false, error: `${response.status}: ${errorText}` };
     }
 
+    // Row level security filters the delete instead of failing it
+    const deleted = await response.json();
+    if (deleted.length === 0) {
+      return { success: false, error: 'Evidence not found or you are not allowed to delete it' };
+    }
+
     return { success: true };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -765,7 +821,7 @@ export async function loadChaptersFromSupabase(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -805,7 +861,7 @@ export async function loadStandardsByChapter(chapterId: string): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -841,7 +897,7 @@ export async function loadObjectiveElementsByStandard(standardId: string): Promi
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -888,7 +944,7 @@ export async function loadAllNormalizedData(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -906,7 +962,7 @@ export async function loadAllNormalizedData(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -954,7 +1010,7 @@ export async function insertChapter(chapter: {
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'return=representation',
         },
         body: JSON.stringify(chapter),
@@ -993,7 +1049,7 @@ export async function insertStandard(standard: {
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'return=representation',
         },
         body: JSON.stringify(standard),
@@ -1038,7 +1094,7 @@ export async function insertObjectiveElement(element: {
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'return=representation',
         },
         body: JSON.stringify({
@@ -1187,7 +1243,7 @@ export async function updateChapter(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify(updates),
       }
@@ -1221,7 +1277,7 @@ export async function deleteChapter(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1255,7 +1311,7 @@ export async function updateStandard(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify(updates),
       }
@@ -1289,7 +1345,7 @@ export async function deleteStandard(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1324,7 +1380,7 @@ export async function loadAllStandards(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1369,7 +1425,7 @@ export async function updateObjectiveElement(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
         body: JSON.stringify(updates),
       }
@@ -1403,7 +1459,7 @@ export async function deleteObjectiveElement(
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1438,7 +1494,7 @@ export async function loadAllObjectiveElements(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -1477,7 +1533,7 @@ export async function loadObjectiveEditsByChapter(chapterCode: string): Promise<
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -0,0 +1,79 @@
+// Patient Sample Storage Service for Supabase
+// Records each drawn sample with its seed and file list so it can be reproduced
+
+import { getAuthToken } from '../lib/supabase';
+import type { PatientSample, PatientSampleInput, PatientSamplePurpose } from '../types/patientSample';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+/**
+ * Save a drawn sample
+ */
+export async function savePatientSample(
+  sample: PatientSampleInput
+): Promise<{ success: boolean; data?: PatientSample; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/patient_samples`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+          'Prefer': 'return=representation',
+        },
+        body: JSON.stringify(sample),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving patient sample:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const [data] = await response.json();
+    return { success: true, data: data as PatientSample };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving patient sample:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the samples drawn for an audit or KPI (latest first)
+ */
+export async function loadPatientSamples(
+  purpose: PatientSamplePurpose,
+  referenceId: string
+): Promise<{ success: boolean; data?: PatientSample[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/patient_samples?purpose=eq.${purpose}&reference_id=eq.${encodeURIComponent(referenceId)}&order=created_at.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading patient samples:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as PatientSample[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading patient samples:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,167 @@
+// Patient Sampling Engine
+// Reproducible simple random and stratified samples of patient files
+
+import type { Patient } from '../types/patient';
+import type {
+  PatientSampleDraw,
+  PatientSampleEntry,
+  PatientSamplingOptions,
+  PatientStratifyBy,
+} from '../types/patientSample';
+
+export const STRATIFY_BY_LABELS: Record<PatientStratifyBy, string> = {
+  month: 'admission month',
+  diagnosis: 'diagnosis',
+  status: 'status',
+};
+
+// z-scores for the confidence levels offered in the sample size calculator
+const Z_SCORES: Record<number, number> = { 90: 1.645, 95: 1.96, 99: 2.576 };
+
+/**
+ * Short random seed to record with a sample
+ */
+export const generateSeed = (): string => Math.random().toString(36).slice(2, 10);
+
+// FNV-1a hash of the seed text, then mulberry32 for a repeatable sequence in [0, 1)
+function createRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Sample size for estimating a proportion (Cochran), with finite population correction.
+ * p = 0.5 gives the most conservative size.
+ */
+export function calculateSampleSize(
+  population: number,
+  confidence: 90 | 95 | 99 = 95,
+  marginOfError = 0.05,
+  proportion = 0.5
+): number {
+  if (population <= 0) return 0;
+  const z = Z_SCORES[confidence];
+  const n0 = (z * z * proportion * (1 - proportion)) / (marginOfError * marginOfError);
+  return Math.min(population, Math.ceil(n0 / (1 + (n0 - 1) / population)));
+}
+
+export function getStratum(patient: Patient, stratifyBy: PatientStratifyBy): string {
+  switch (stratifyBy) {
+    case 'month':
+      return patient.admissionDate ? patient.admissionDate.slice(0, 7) : 'No admission date';
+    case 'diagnosis':
+      return patient.diagnosis?.trim() || 'No diagnosis';
+    case 'status':
+      return patient.status || 'Active';
+  }
+}
+
+/**
+ * Patients matching the admission date range and status filters, in a stable
+ * order (by visit ID) so the same seed always draws the same files
+ */
+export function filterPopulation(patients: Patient[], options: PatientSamplingOptions): Patient[] {
+  return patients
+    .filter(p => {
+      if (options.status && (p.status || 'Active') !== options.status) return false;
+      if (options.fromDate && (!p.admissionDate || p.admissionDate < options.fromDate)) return false;
+      if (options.toDate && (!p.admissionDate || p.admissionDate > options.toDate)) return false;
+      return true;
+    })
+    .sort((a, b) => a.visitId.localeCompare(b.visitId));
+}
+
+export function resolveSampleSize(population: number, options: Pick<PatientSamplingOptions, 'size' | 'percentage'>): number {
+  const size = options.size ?? Math.ceil((population * (options.percentage ?? 0)) / 100);
+  return Math.max(0, Math.min(population, size));
+}
+
+// Partial Fisher-Yates shuffle: the first n of a seeded permutation
+function pick<T>(items: T[], n: number, random: () => number): T[] {
+  const pool = [...items];
+  for (let i = 0; i < n; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, n);
+}
+
+/**
+ * Proportional allocation by largest remainder; ties go to the larger stratum
+ */
+export function allocateProportionally(populations: number[], sampleSize: number): number[] {
+  const total = populations.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return populations.map(() => 0);
+  const exact = populations.map(n => (n * sampleSize) / total);
+  const allocation = exact.map(Math.floor);
+  let remaining = sampleSize - allocation.reduce((sum, n) => sum + n, 0);
+  const order = exact
+    .map((value, i) => ({ i, remainder: value - allocation[i] }))
+    .sort((a, b) => b.remainder - a.remainder || populations[b.i] - populations[a.i]);
+  for (const { i } of order) {
+    if (remaining === 0) break;
+    if (allocation[i] < populations[i]) {
+      allocation[i]++;
+      remaining--;
+    }
+  }
+  return allocation;
+}
+
+export function describeSamplingMethodology(draw: Omit<PatientSampleDraw, 'methodology'>, options: PatientSamplingOptions): string {
+  const percent = draw.populationSize > 0 ? Math.round((draw.sampleSize / draw.populationSize) * 1000) / 10 : 0;
+  const method = options.method === 'stratified' && options.stratifyBy
+    ? `Stratified random sample by ${STRATIFY_BY_LABELS[options.stratifyBy]} (proportional allocation across ${draw.strata.length} strata)`
+    : 'Simple random sample';
+  const filters = [
+    options.fromDate || options.toDate ? `admissions ${options.fromDate || '…'} to ${options.toDate || '…'}` : '',
+    options.status ? `status ${options.status}` : '',
+  ].filter(Boolean).join(', ');
+  return `${method}: ${draw.sampleSize} of ${draw.populationSize} patient files (${percent}%)${filters ? `, ${filters}` : ''}; seed "${options.seed}"`;
+}
+
+/**
+ * Draw a sample of patient files. Stratified samples allocate the sample size
+ * to each stratum in proportion to its share of the population.
+ */
+export function drawPatientSample(patients: Patient[], options: PatientSamplingOptions): PatientSampleDraw {
+  const population = filterPopulation(patients, options);
+  const sampleSize = resolveSampleSize(population.length, options);
+  const random = createRandom(options.seed);
+  const toEntry = (p: Patient, stratum: string | null): PatientSampleEntry => ({
+    visit_id: p.visitId,
+    patient_name: p.patientName,
+    stratum,
+  });
+
+  let entries: PatientSampleEntry[];
+  let strata: PatientSampleDraw['strata'] = [];
+
+  if (options.method === 'stratified' && options.stratifyBy) {
+    const stratifyBy = options.stratifyBy;
+    const groups = new Map<string, Patient[]>();
+    population.forEach(p => {
+      const stratum = getStratum(p, stratifyBy);
+      groups.set(stratum, [...(groups.get(stratum) || []), p]);
+    });
+    const names = [...groups.keys()].sort();
+    const allocation = allocateProportionally(names.map(name => groups.get(name)!.length), sampleSize);
+
+    strata = names.map((stratum, i) => ({ stratum, population: groups.get(stratum)!.length, sample: allocation[i] }));
+    entries = names.flatMap((stratum, i) => pick(groups.get(stratum)!, allocation[i], random).map(p => toEntry(p, stratum)));
+  } else {
+    entries = pick(population, sampleSize, random).map(p => toEntry(p, null));
+  }
+
+  const draw = { populationSize: population.length, sampleSize: entries.length, entries, strata };
+  return { ...draw, methodology: describeSamplingMethodology(draw, options) };
+}
@@ -2,6 +2,7 @@
 // Handles CRUD operations for patient records
 
 import type { Patient, PatientRecord } from '../types/patient';
+import { getAuthToken } from '../lib/supabase';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -77,7 +78,7 @@ export async function loadAllPatients(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -114,7 +115,7 @@ export async function loadPatientById(id: string): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -158,7 +159,7 @@ export async function savePatient(patient: Patient): Promise<{
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'return=representation',
           },
           body: JSON.stringify({ ...record, updated_at: new Date().toISOString() }),
@@ -181,7 +182,7 @@ export async function savePatient(patient: Patient): Promise<{
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'return=representation',
           },
           body: JSON.stringify(record),
@@ -219,7 +220,7 @@ export async function deletePatient(id: string): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -267,7 +268,7 @@ export async function bulkImportPatients(patients: Patient[]): Promise<{
           headers: {
             'Content-Type': 'application/json',
             'apikey': SUPABASE_ANON_KEY,
-            'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${await getAuthToken()}`,
             'Prefer': 'resolution=merge-duplicates',
           },
           body: JSON.stringify(batch),
@@ -315,7 +316,7 @@ export async function searchPatients(query: string): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -352,7 +353,7 @@ export async function getPatientsByStatus(status: string): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
@@ -389,7 +390,7 @@ export async function getPatientCount(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
           'Prefer': 'count=exact',
         },
       }
@@ -411,7 +412,8 @@ export async function getPatientCount(): Promise<{
 }
 
 /**
- * Delete all patients (for reimport)
+ * Delete all patients (for reimport). Sent with the signed-in user's token: row level
+ * security only lets NABH coordinators delete patients.
  */
 export async function deleteAllPatients(): Promise<{
   success: boolean;
@@ -425,7 +427,7 @@ export async function deleteAllPatients(): Promise<{
         headers: {
           'Content-Type': 'application/json',
           'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getAuthToken()}`,
         },
       }
     );
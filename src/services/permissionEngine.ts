@@ -0,0 +1,77 @@
+// Permission Engine
+// Capabilities granted to each application role, which routes need which capability,
+// and the role suggested for a login linked to a NABH team member
+
+import type { TeamMember } from '../config/hospitalConfig';
+import type { AppRole, Capability } from '../types/auth';
+import type { SOPApprovalAction } from '../types/sopApproval';
+
+export const APP_ROLES: AppRole[] = ['nabh_coordinator', 'quality_manager', 'department_head', 'staff', 'assessor'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  nabh_coordinator: 'NABH Coordinator',
+  quality_manager: 'Quality Manager',
+  department_head: 'Department Head',
+  staff: 'Staff',
+  assessor: 'Assessor (read-only)',
+};
+
+export const ROLE_CAPABILITIES: Record<AppRole, Capability[]> = {
+  nabh_coordinator: ['view', 'edit_content', 'review_documents', 'approve_sops', 'delete_evidence', 'delete_records', 'manage_users'],
+  quality_manager: ['view', 'edit_content', 'review_documents'],
+  department_head: ['view', 'edit_content', 'review_documents'],
+  staff: ['view', 'edit_content'],
+  assessor: ['view'],
+};
+
+// Routes that need more than 'view'; matched on the path prefix
+const PATH_CAPABILITIES: { path: string; capability: Capability }[] = [
+  { path: '/users', capability: 'manage_users' },
+  { path: '/migration', capability: 'manage_users' },
+  { path: '/ai-usage', capability: 'manage_users' },
+  { path: '/ai-generator', capability: 'edit_content' },
+  { path: '/evidence-prompt', capability: 'edit_content' },
+  { path: '/sop-prompt', capability: 'edit_content' },
+  { path: '/prompt-library', capability: 'edit_content' },
+  { path: '/signage-generator', capability: 'edit_content' },
+  { path: '/image-generator', capability: 'edit_content' },
+  { path: '/kpi-capture', capability: 'edit_content' },
+];
+
+export function hasCapability(role: AppRole | null | undefined, capability: Capability): boolean {
+  return !!role && ROLE_CAPABILITIES[role].includes(capability);
+}
+
+export function getPathCapability(pathname: string): Capability {
+  const match = PATH_CAPABILITIES.find(p => pathname === p.path || pathname.startsWith(`${p.path}/`));
+  return match ? match.capability : 'view';
+}
+
+export function canAccessPath(role: AppRole | null | undefined, pathname: string): boolean {
+  return hasCapability(role, getPathCapability(pathname));
+}
+
+// Capability needed to sign an SOP at each approval step
+export const APPROVAL_ACTION_CAPABILITIES: Record<SOPApprovalAction, Capability> = {
+  Prepared: 'review_documents',
+  Reviewed: 'review_documents',
+  Approved: 'approve_sops',
+  Issued: 'approve_sops',
+  Rejected: 'review_documents',
+};
+
+export function canSignApprovalAction(role: AppRole | null | undefined, action: SOPApprovalAction): boolean {
+  return hasCapability(role, APPROVAL_ACTION_CAPABILITIES[action]);
+}
+
+/**
+ * Role suggested to the coordinator for a login linked to a NABH team member. Sign-ups
+ * always start as staff; assessors are external, so that role is never suggested.
+ */
+export function getSuggestedRole(member: Pick<TeamMember, 'role'> | undefined): AppRole {
+  if (!member) return 'staff';
+  if (member.role === 'Quality Coordinator') return 'nabh_coordinator';
+  if (member.role.includes('Quality Manager')) return 'quality_manager';
+  if (member.role === 'Department Staff') return 'staff';
+  return 'department_head';
+}
@@ -0,0 +1,202 @@
+// Prompt Library Engine
+// Pure logic for prompt templates: rendering variables, picking the pinned version and scoring A/B test runs
+
+import { BUILTIN_PROMPT_TEMPLATES, BUILTIN_PROMPT_VERSIONS } from '../data/builtinPrompts';
+import type { Chapter, ObjectiveElement } from '../types/nabh';
+import type {
+  PromptABResult,
+  PromptTemplate,
+  PromptTestRun,
+  PromptValue,
+  PromptValues,
+  PromptVariable,
+  PromptVariableType,
+  PromptVersion,
+  PromptVersionScore,
+} from '../types/promptLibrary';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+export const PROMPT_VARIABLE_TYPES: PromptVariableType[] = ['text', 'multiline', 'number', 'boolean', 'list', 'json'];
+
+const isBlank = (value: PromptValue) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Format a value for its variable type: lists one item per line, json pretty-printed
+ */
+export function formatPromptValue(value: PromptValue, type: PromptVariableType = 'text'): string {
+  if (value === undefined || value === null) return '';
+  if (type === 'json') return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  if (type === 'list' && Array.isArray(value)) return value.join('\n');
+  if (type === 'boolean') return value === true || value === 'true' ? 'Yes' : 'No';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Names of the {{variables}} used in a prompt body, in order of first use
+ */
+export function extractTemplateVariables(body: string): string[] {
+  const names: string[] = [];
+  for (const match of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Fill in {{variables}}. Values are inserted once and never re-scanned, so a value containing
+ * braces is left as written; placeholders without a declared variable or value render empty.
+ */
+export function renderPromptTemplate(body: string, variables: PromptVariable[], values: PromptValues): string {
+  const types = new Map(variables.map(variable => [variable.name, variable.type]));
+  return body.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => formatPromptValue(values[name], types.get(name)));
+}
+
+/**
+ * Problems with the values for a template, one message per variable
+ */
+export function validatePromptValues(variables: PromptVariable[], values: PromptValues): string[] {
+  const errors: string[] = [];
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (isBlank(value)) {
+      if (variable.required) errors.push(`${variable.label} is required`);
+      continue;
+    }
+    if (variable.type === 'number' && !Number.isFinite(Number(value))) {
+      errors.push(`${variable.label} must be a number`);
+    }
+    if (variable.type === 'json' && typeof value === 'string') {
+      try {
+        JSON.parse(value);
+      } catch {
+        errors.push(`${variable.label} must be valid JSON`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Placeholders in a body that the template does not declare as variables
+ */
+export function findUndeclaredVariables(body: string, variables: PromptVariable[]): string[] {
+  const declared = new Set(variables.map(variable => variable.name));
+  return extractTemplateVariables(body).filter(name => !declared.has(name));
+}
+
+/**
+ * Built-in templates overlaid with their saved rows (pins, variable edits), followed by custom templates
+ */
+export function mergePromptTemplates(saved: PromptTemplate[]): PromptTemplate[] {
+  const savedById = new Map(saved.map(template => [template.id, template]));
+  const builtins = BUILTIN_PROMPT_TEMPLATES.map(builtin => {
+    const row = savedById.get(builtin.id);
+    return row ? { ...builtin, ...row, is_builtin: true } : builtin;
+  });
+  const builtinIds = new Set(BUILTIN_PROMPT_TEMPLATES.map(template => template.id));
+  const custom = saved.filter(template => !builtinIds.has(template.id)).sort((a, b) => a.name.localeCompare(b.name));
+  return [...builtins, ...custom];
+}
+
+/**
+ * All versions of a template, oldest first, with the built-in version 1 when the database has none
+ */
+export function withBuiltinVersion(templateId: string, saved: PromptVersion[]): PromptVersion[] {
+  const versions = saved.filter(version => version.template_id === templateId);
+  const builtin = BUILTIN_PROMPT_VERSIONS.find(version => version.template_id === templateId);
+  if (builtin && !versions.some(version => version.version === builtin.version)) versions.push(builtin);
+  return versions.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * The version production uses: the pinned one, otherwise version 1 of a built-in (so adding a
+ * draft version never changes production) or the latest version of a custom template
+ */
+export function getPinnedVersion(template: PromptTemplate, versions: PromptVersion[]): PromptVersion | null {
+  if (versions.length === 0) return null;
+  const wanted = template.pinned_version ?? (template.is_builtin ? 1 : versions[versions.length - 1].version);
+  return versions.find(version => version.version === wanted) ?? versions[versions.length - 1];
+}
+
+export function getNextVersionNumber(versions: PromptVersion[]): number {
+  return versions.reduce((max, version) => Math.max(max, version.version), 0) + 1;
+}
+
+/**
+ * Values for one objective element in the test harness: bound variables come from the
+ * objective or its chapter, the rest from the variable's sample
+ */
+export function buildObjectiveTestValues(
+  variables: PromptVariable[],
+  objective: ObjectiveElement,
+  chapter: Pick<Chapter, 'code' | 'name'>
+): PromptValues {
+  const bound: Record<NonNullable<PromptVariable['binding']>, string> = {
+    'objective.code': objective.code,
+    'objective.title': objective.title,
+    'objective.description': objective.description,
+    'objective.interpretation': objective.interpretations2 || objective.interpretation,
+    'objective.evidencesList': objective.evidencesList,
+    'chapter.code': chapter.code,
+    'chapter.name': chapter.name,
+  };
+  const values: PromptValues = {};
+  for (const variable of variables) {
+    values[variable.name] = variable.binding ? bound[variable.binding] : variable.sample ?? '';
+  }
+  return values;
+}
+
+/**
+ * Latest run per objective for one version of a template
+ */
+function latestRunsByObjective(runs: PromptTestRun[], version: number): Map<string, PromptTestRun> {
+  const latest = new Map<string, PromptTestRun>();
+  for (const run of runs) {
+    if (run.version !== version) continue;
+    const current = latest.get(run.objective_code);
+    if (!current || run.created_at > current.created_at) latest.set(run.objective_code, run);
+  }
+  return latest;
+}
+
+function scoreVersion(version: number, latest: Map<string, PromptTestRun>): PromptVersionScore {
+  const runs = [...latest.values()];
+  const ratings = runs.map(run => run.rating).filter((rating): rating is number => rating !== null);
+  const average = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+  return {
+    version,
+    runs: runs.length,
+    rated: ratings.length,
+    averageRating: ratings.length ? Math.round(average(ratings) * 100) / 100 : null,
+    wins: 0,
+    averageCostUsd: average(runs.map(run => Number(run.cost_usd))),
+    averageLatencyMs: Math.round(average(runs.map(run => run.latency_ms))),
+  };
+}
+
+/**
+ * Compare two versions on the objectives both were rated for, using the latest run of each
+ */
+export function scorePromptVersions(runs: PromptTestRun[], versionA: number, versionB: number): PromptABResult {
+  const latestA = latestRunsByObjective(runs, versionA);
+  const latestB = latestRunsByObjective(runs, versionB);
+  const a = scoreVersion(versionA, latestA);
+  const b = scoreVersion(versionB, latestB);
+  let ties = 0;
+  let compared = 0;
+
+  for (const [objectiveCode, runA] of latestA) {
+    const ratingA = runA.rating;
+    const ratingB = latestB.get(objectiveCode)?.rating ?? null;
+    if (ratingA === null || ratingB === null) continue;
+    compared++;
+    if (ratingA > ratingB) a.wins++;
+    else if (ratingB > ratingA) b.wins++;
+    else ties++;
+  }
+
+  return { a, b, ties, compared };
+}
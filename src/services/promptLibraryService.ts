@@ -0,0 +1,189 @@
+// Prompt Library Service
+// Resolves the pinned prompt version for production features and runs prompt versions against test sets
+
+import { BUILTIN_PROMPT_TEMPLATES } from '../data/builtinPrompts';
+import type { Chapter } from '../types/nabh';
+import type {
+  PromptTemplate,
+  PromptTestRun,
+  PromptTestRunInput,
+  PromptTestSet,
+  PromptUsage,
+  PromptValues,
+  PromptVersion,
+  ResolvedPrompt,
+} from '../types/promptLibrary';
+import { generateAI } from './aiGatewayClient';
+import {
+  buildObjectiveTestValues,
+  getPinnedVersion,
+  mergePromptTemplates,
+  renderPromptTemplate,
+  validatePromptValues,
+  withBuiltinVersion,
+} from './promptLibraryEngine';
+import {
+  loadPromptTemplates,
+  loadPromptVersions,
+  savePromptTemplate,
+  savePromptTestRun,
+  savePromptVersion,
+} from './promptLibraryStorage';
+import { loadAllSOPPrompts } from './sopPromptStorage';
+
+/**
+ * Render the version pinned for a production feature. Falls back to the built-in prompt when
+ * the library cannot be read, so generation keeps working without the prompt tables.
+ */
+export async function resolvePrompt(usage: PromptUsage, values: PromptValues): Promise<ResolvedPrompt> {
+  const builtin = BUILTIN_PROMPT_TEMPLATES.find(template => template.usage === usage);
+  if (!builtin) throw new Error(`No prompt template for ${usage}`);
+
+  let template: PromptTemplate = builtin;
+  let versions: PromptVersion[] = withBuiltinVersion(builtin.id, []);
+
+  const templates = await loadPromptTemplates();
+  if (templates.success && templates.data) {
+    template = mergePromptTemplates(templates.data).find(candidate => candidate.id === builtin.id) ?? builtin;
+  }
+  if (template.pinned_version !== null && template.pinned_version !== 1) {
+    const saved = await loadPromptVersions(template.id);
+    if (saved.success && saved.data) versions = withBuiltinVersion(template.id, saved.data);
+  }
+
+  const version = getPinnedVersion(template, versions) ?? versions[0];
+  const problems = validatePromptValues(template.variables, values);
+  if (problems.length > 0) {
+    console.warn(`[resolvePrompt] ${template.id} v${version.version}:`, problems.join('; '));
+  }
+
+  return {
+    prompt: renderPromptTemplate(version.body, template.variables, values),
+    version: version.version,
+    feature: template.ai_feature,
+    temperature: version.temperature,
+    maxTokens: version.max_tokens,
+  };
+}
+
+/**
+ * Run one version against every objective element of a test set, one request at a time,
+ * and store each output. A failed request is stored with its error and the run continues.
+ */
+export async function runPromptVersionTest(
+  template: PromptTemplate,
+  version: PromptVersion,
+  testSet: PromptTestSet,
+  chapters: Chapter[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ success: boolean; data?: PromptTestRun[]; error?: string }> {
+  const runs: PromptTestRun[] = [];
+  const total = testSet.objective_codes.length;
+
+  for (const [index, objectiveCode] of testSet.objective_codes.entries()) {
+    const chapter = chapters.find(candidate => candidate.objectives.some(objective => objective.code === objectiveCode));
+    const objective = chapter?.objectives.find(candidate => candidate.code === objectiveCode);
+    if (!chapter || !objective) {
+      console.warn(`[runPromptVersionTest] Objective ${objectiveCode} not found, skipped`);
+      onProgress?.(index + 1, total);
+      continue;
+    }
+
+    const prompt = renderPromptTemplate(version.body, template.variables, buildObjectiveTestValues(template.variables, objective, chapter));
+    const startedAt = Date.now();
+    let result: PromptTestRunInput;
+    try {
+      const response = await generateAI({
+        feature: template.ai_feature,
+        prompt,
+        temperature: version.temperature,
+        maxTokens: version.max_tokens,
+      });
+      result = {
+        template_id: template.id,
+        version: version.version,
+        test_set_id: testSet.id,
+        objective_code: objectiveCode,
+        rendered_prompt: prompt,
+        output: response.text,
+        error: null,
+        provider: response.provider,
+        model: response.model,
+        input_tokens: response.usage.inputTokens,
+        output_tokens: response.usage.outputTokens,
+        cost_usd: response.costUsd,
+        latency_ms: Date.now() - startedAt,
+      };
+    } catch (error) {
+      result = {
+        template_id: template.id,
+        version: version.version,
+        test_set_id: testSet.id,
+        objective_code: objectiveCode,
+        rendered_prompt: prompt,
+        output: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        provider: null,
+        model: null,
+        input_tokens: 0,
+        output_tokens: 0,
+        cost_usd: 0,
+        latency_ms: Date.now() - startedAt,
+      };
+    }
+
+    const saved = await savePromptTestRun(result);
+    if (!saved.success || !saved.data) {
+      return { success: false, data: runs, error: saved.error || 'Failed to store test output' };
+    }
+    runs.push(saved.data);
+    onProgress?.(index + 1, total);
+  }
+
+  return { success: true, data: runs };
+}
+
+/**
+ * Copy the prompts of the SOP prompt master into the library as custom templates with a
+ * version 1. Prompts imported before are skipped.
+ */
+export async function importSOPPrompts(
+  existingTemplateIds: string[],
+  createdBy: string | null
+): Promise<{ success: boolean; data?: PromptTemplate[]; error?: string }> {
+  const sopPrompts = await loadAllSOPPrompts();
+  if (!sopPrompts.success || !sopPrompts.data) return { success: false, error: sopPrompts.error };
+
+  const imported: PromptTemplate[] = [];
+  for (const sopPrompt of sopPrompts.data) {
+    const id = `sop-prompt-${sopPrompt.id}`;
+    if (existingTemplateIds.includes(id)) continue;
+
+    const template = await savePromptTemplate({
+      id,
+      name: sopPrompt.title,
+      description: sopPrompt.description,
+      category: sopPrompt.category || 'SOP Prompts',
+      usage: null,
+      ai_feature: 'sop-generation',
+      variables: [],
+      pinned_version: null,
+      is_builtin: false,
+    });
+    if (!template.success || !template.data) return { success: false, data: imported, error: template.error };
+
+    const version = await savePromptVersion({
+      template_id: id,
+      version: 1,
+      body: sopPrompt.prompt,
+      notes: 'Imported from the SOP prompt master',
+      temperature: 0.7,
+      max_tokens: 8192,
+      created_by: createdBy,
+    });
+    if (!version.success) return { success: false, data: imported, error: version.error };
+    imported.push(template.data);
+  }
+
+  return { success: true, data: imported };
+}
@@ -0,0 +1,310 @@
+// Prompt Library Storage Service for Supabase
+// Prompt templates, their versions, test sets of objective elements and stored test outputs
+
+import { getAuthToken } from '../lib/supabase';
+import type {
+  PromptTemplate,
+  PromptTestRun,
+  PromptTestRunInput,
+  PromptTestSet,
+  PromptVersion,
+  PromptVersionInput,
+} from '../types/promptLibrary';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Writes are checked against the signed-in user's role
+const headers = async (prefer?: string): Promise<Record<string, string>> => ({
+  'Content-Type': 'application/json',
+  'apikey': SUPABASE_ANON_KEY,
+  'Authorization': `Bearer ${await getAuthToken()}`,
+  ...(prefer ? { 'Prefer': prefer } : {}),
+});
+
+/**
+ * Load saved templates: custom templates and built-ins that were pinned or edited
+ */
+export async function loadPromptTemplates(): Promise<{ success: boolean; data?: PromptTemplate[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_templates?order=name.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading prompt templates:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as PromptTemplate[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading prompt templates:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create or update a template (by id), including its variables and pinned version
+ */
+export async function savePromptTemplate(
+  template: PromptTemplate
+): Promise<{ success: boolean; data?: PromptTemplate; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_templates?on_conflict=id`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation,resolution=merge-duplicates'),
+        body: JSON.stringify({ ...template, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving prompt template:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as PromptTemplate };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving prompt template:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load saved versions, of one template or of all templates, oldest first
+ */
+export async function loadPromptVersions(
+  templateId?: string
+): Promise<{ success: boolean; data?: PromptVersion[]; error?: string }> {
+  try {
+    const filter = templateId ? `template_id=eq.${encodeURIComponent(templateId)}&` : '';
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_versions?${filter}order=version.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading prompt versions:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as PromptVersion[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading prompt versions:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Add a version. Versions are immutable; the (template_id, version) pair is unique.
+ */
+export async function savePromptVersion(
+  version: PromptVersionInput
+): Promise<{ success: boolean; data?: PromptVersion; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_versions`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify(version),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving prompt version:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as PromptVersion };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving prompt version:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the saved sets of objective elements prompts are tested against
+ */
+export async function loadPromptTestSets(): Promise<{ success: boolean; data?: PromptTestSet[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_test_sets?order=name.asc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading prompt test sets:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as PromptTestSet[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading prompt test sets:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Create a test set
+ */
+export async function savePromptTestSet(
+  name: string,
+  objectiveCodes: string[]
+): Promise<{ success: boolean; data?: PromptTestSet; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_test_sets`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ name, objective_codes: objectiveCodes }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving prompt test set:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as PromptTestSet };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving prompt test set:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Delete a test set together with its stored outputs
+ */
+export async function deletePromptTestSet(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_test_sets?id=eq.${id}`,
+      { method: 'DELETE', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error deleting prompt test set:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error deleting prompt test set:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load the stored outputs of a template on a test set, newest first
+ */
+export async function loadPromptTestRuns(
+  templateId: string,
+  testSetId: string
+): Promise<{ success: boolean; data?: PromptTestRun[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_test_runs?template_id=eq.${encodeURIComponent(templateId)}&test_set_id=eq.${testSetId}&order=created_at.desc`,
+      { method: 'GET', headers: await headers() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading prompt test runs:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as PromptTestRun[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading prompt test runs:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Store the output of one version for one objective element
+ */
+export async function savePromptTestRun(
+  run: PromptTestRunInput
+): Promise<{ success: boolean; data?: PromptTestRun; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_test_runs`,
+      {
+        method: 'POST',
+        headers: await headers('return=representation'),
+        body: JSON.stringify(run),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving prompt test run:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as PromptTestRun };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving prompt test run:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Rate a stored output from 1 to 5, or clear the rating with null
+ */
+export async function ratePromptTestRun(
+  id: string,
+  rating: number | null
+): Promise<{ success: boolean; data?: PromptTestRun; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/prompt_test_runs?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: await headers('return=representation'),
+        body: JSON.stringify({ rating }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error rating prompt test run:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as PromptTestRun };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error rating prompt test run:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -3,6 +3,8 @@
  * Uses Gemini 2.0 Flash for generating ISO-compliant hospital signage images
  */
 
+import { callGeminiAPI, generateAI } from './aiGatewayClient';
+
 // Sign categories with ISO 7010 compliance requirements
 export type SignCategory =
   | 'prohibition'   // Red circle with diagonal bar (No Smoking, No Entry)
@@ -568,17 +570,11 @@ DESIGN SPECIFICATIONS:
 - Must be clearly readable from 5+ meters distance`;
 }
 
-// Gemini API call for image generation using Nano Banana 2.0 (gemini-2.5-flash-image)
+// Image generation through the AI gateway (Nano Banana Pro, falling back to Nano Banana 2.0)
 export async function generateSignageImage(
   templateId: string,
   customPrompt?: string
 ): Promise<string> {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('Gemini API key not configured');
-  }
-
   // Get the prompt - either from template or custom
   let prompt: string;
 
@@ -626,127 +622,19 @@ OUTPUT REQUIREMENTS:
 - Ready to print on A4 paper`
     : prompt;
 
-  try {
-    // Use Nano Banana Pro (gemini-3-pro-image-preview) as PRIMARY for better text rendering
-    console.log('Generating image with gemini-3-pro-image-preview (Nano Banana Pro)');
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-image-preview:generateContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: imagePrompt,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            responseModalities: ['IMAGE', 'TEXT'],
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Nano Banana Pro API error:', errorData);
-
-      // If Nano Banana Pro fails, try Nano Banana 2.0 as fallback
-      console.log('Trying fallback: gemini-2.5-flash-image (Nano Banana 2.0)');
-      return await generateSignageImageFallback(imagePrompt, apiKey);
-    }
-
-    const data = await response.json();
-    console.log('Nano Banana Pro response:', data.candidates?.length, 'candidates');
-
-    // Extract image from response
-    const parts = data.candidates?.[0]?.content?.parts || [];
-
-    for (const part of parts) {
-      if (part.inlineData?.mimeType?.startsWith('image/')) {
-        console.log('Image generated successfully with Nano Banana Pro');
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
-
-    throw new Error('No image in response from Nano Banana Pro');
-
-  } catch (error: any) {
-    console.error('Signage image generation error:', error);
-    // Try Nano Banana 2.0 as fallback
-    try {
-      return await generateSignageImageFallback(imagePrompt, apiKey);
-    } catch (altError) {
-      throw error;
-    }
-  }
-}
-
-// Fallback: Nano Banana 2.0 (gemini-2.5-flash-image)
-async function generateSignageImageFallback(
-  prompt: string,
-  apiKey: string
-): Promise<string> {
-  console.log('Using fallback: gemini-2.5-flash-image');
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          responseModalities: ['IMAGE', 'TEXT'],
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error('Nano Banana 2.0 fallback error:', errorData);
-    throw new Error(errorData.error?.message || 'Failed to generate image with Nano Banana 2.0');
-  }
-
-  const data = await response.json();
-  const parts = data.candidates?.[0]?.content?.parts || [];
-
-  for (const part of parts) {
-    if (part.inlineData?.mimeType?.startsWith('image/')) {
-      console.log('Image generated with fallback (Nano Banana 2.0)');
-      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-    }
+  const { images, model } = await generateAI({ feature: 'signage-image', prompt: imagePrompt, outputImages: true });
+  const image = images.find(output => output.mimeType.startsWith('image/'));
+  if (!image) {
+    throw new Error(`No image in response from ${model}`);
   }
 
-  throw new Error('No image generated by Nano Banana 2.0 fallback');
+  return `data:${image.mimeType};base64,${image.data}`;
 }
 
 // Alternative: Generate SVG signage (fallback if image generation fails)
 export async function generateSignageSVG(
   templateId: string
 ): Promise<string> {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('Gemini API key not configured');
-  }
-
   const template = signageTemplates[templateId];
   if (!template) {
     throw new Error('Template not found');
@@ -780,35 +668,7 @@ CRITICAL SVG REQUIREMENTS:
 
 START YOUR RESPONSE WITH <svg AND END WITH </svg>`;
 
-  // Use gemini-1.5-flash for SVG text generation (widely available)
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [{ text: svgPrompt }],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 4096,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    console.error('SVG generation API error:', errorData);
-    throw new Error(errorData.error?.message || 'Failed to generate SVG');
-  }
-
-  const data = await response.json();
+  const data = await callGeminiAPI(svgPrompt, 0.3, 4096, 'signage-svg');
   console.log('SVG API response received:', data.candidates?.length, 'candidates');
 
   let svgText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
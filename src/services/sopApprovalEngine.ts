@@ -0,0 +1,163 @@
+/**
+ * SOP Approval Workflow Engine
+ * Decides which sign-off comes next, who may give it, and renders the
+ * approval block that heads every issued SOP.
+ */
+
+import type { TeamMember } from '../config/hospitalConfig';
+import type {
+  SOPApprovalStage,
+  SOPApprovalAction,
+  SOPApprovalEvent,
+  SOPApprovalSignatures,
+} from '../types/sopApproval';
+
+export const APPROVAL_STAGES: SOPApprovalStage[] = ['Draft', 'Prepared', 'Reviewed', 'Approved', 'Issued'];
+
+export const APPROVAL_ACTION_LABELS: Record<SOPApprovalAction, string> = {
+  Prepared: 'Prepared by',
+  Reviewed: 'Reviewed by',
+  Approved: 'Approved by',
+  Issued: 'Issued by',
+  Rejected: 'Rejected by',
+};
+
+const NEXT_ACTION: Record<SOPApprovalStage, SOPApprovalAction | null> = {
+  Draft: 'Prepared',
+  Prepared: 'Reviewed',
+  Reviewed: 'Approved',
+  Approved: 'Issued',
+  Issued: null,
+};
+
+/**
+ * The sign-off that moves a document out of its current stage
+ */
+export function getNextApprovalAction(stage: SOPApprovalStage): SOPApprovalAction | null {
+  return NEXT_ACTION[stage];
+}
+
+/**
+ * Stage a document is in after an action. Rejection returns it to Draft.
+ */
+export function getStageAfterAction(action: SOPApprovalAction): SOPApprovalStage {
+  return action === 'Rejected' ? 'Draft' : action;
+}
+
+/**
+ * A signed document can be sent back until it is issued; after that
+ * changes go through a new revision.
+ */
+export function canRejectStage(stage: SOPApprovalStage): boolean {
+  return stage === 'Prepared' || stage === 'Reviewed' || stage === 'Approved';
+}
+
+/**
+ * Only approved or issued SOPs may be shared or marked effective
+ */
+export function isApprovedForRelease(stage: SOPApprovalStage | null | undefined): boolean {
+  return stage === 'Approved' || stage === 'Issued';
+}
+
+/**
+ * Current signatures from the event log (oldest first). A new preparation
+ * or a rejection starts a fresh sign-off cycle.
+ */
+export function getApprovalSignatures(
+  events: SOPApprovalEvent[],
+  stage: SOPApprovalStage
+): SOPApprovalSignatures {
+  if (stage === 'Draft') return {};
+
+  let signatures: SOPApprovalSignatures = {};
+  [...events]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(event => {
+      if (event.action === 'Rejected') {
+        signatures = {};
+      } else if (event.action === 'Prepared') {
+        signatures = { Prepared: event };
+      } else {
+        signatures[event.action] = event;
+      }
+    });
+  return signatures;
+}
+
+/**
+ * Returns an error message when the transition is not allowed, otherwise null.
+ * The same person may not prepare, review and approve one document.
+ */
+export function validateApprovalTransition(
+  stage: SOPApprovalStage,
+  action: SOPApprovalAction,
+  member: TeamMember | null | undefined,
+  comments: string,
+  signatures: SOPApprovalSignatures
+): string | null {
+  if (!member) return 'Select the team member signing this step';
+
+  if (action === 'Rejected') {
+    if (!canRejectStage(stage)) return `A ${stage.toLowerCase()} SOP cannot be rejected`;
+    if (!comments.trim()) return 'Rejection comments are required';
+    return null;
+  }
+
+  const expected = getNextApprovalAction(stage);
+  if (action !== expected) {
+    return expected
+      ? `This SOP is ${stage}; the next step is "${expected}"`
+      : 'This SOP is already issued';
+  }
+
+  if (action === 'Reviewed' && signatures.Prepared?.member_name === member.name) {
+    return 'The reviewer must be different from the preparer';
+  }
+  if (action === 'Approved' && (signatures.Prepared?.member_name === member.name || signatures.Reviewed?.member_name === member.name)) {
+    return 'The approver must be different from the preparer and reviewer';
+  }
+  return null;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Prepared / Reviewed / Approved sign-off table for the SOP header
+ */
+export function buildApprovalBlockHTML(signatures: SOPApprovalSignatures): string {
+  const cell = 'border:1px solid #333;padding:4px 6px;font-size:10px;vertical-align:top;width:33%;';
+  const signatureCell = (action: 'Prepared' | 'Reviewed' | 'Approved') => {
+    const event = signatures[action];
+    return `<td style="${cell}">
+        <div style="font-weight:bold;">${APPROVAL_ACTION_LABELS[action]}</div>
+        <div>${event ? escapeHtml(event.member_name) : '&nbsp;'}</div>
+        <div style="color:#555;">${event ? escapeHtml(event.member_designation) : '&nbsp;'}</div>
+        <div style="color:#555;">Date: ${event ? new Date(event.created_at).toLocaleDateString('en-IN') : '&nbsp;'}</div>
+      </td>`;
+  };
+  const issued = signatures.Issued;
+
+  return `<div class="approval-block" style="margin-bottom:12px;font-family:Arial,sans-serif;">
+    <table style="width:100%;border-collapse:collapse;">
+      <tr>${signatureCell('Prepared')}${signatureCell('Reviewed')}${signatureCell('Approved')}</tr>
+      ${issued ? `<tr><td colspan="3" style="${cell}width:auto;">Issued by ${escapeHtml(issued.member_name)} on ${new Date(issued.created_at).toLocaleDateString('en-IN')} (controlled copy)</td></tr>` : ''}
+    </table>
+  </div>`;
+}
+
+/**
+ * Insert the approval block at the top of an SOP document, after <body> when present
+ */
+export function insertApprovalBlock(html: string, signatures: SOPApprovalSignatures): string {
+  if (!signatures.Prepared) return html;
+  const block = buildApprovalBlockHTML(signatures);
+  const bodyOpen = html.match(/<body[^>]*>/i);
+  if (!bodyOpen || bodyOpen.index === undefined) return `${block}${html}`;
+  const insertAt = bodyOpen.index + bodyOpen[0].length;
+  return `${html.slice(0, insertAt)}${block}${html.slice(insertAt)}`;
+}
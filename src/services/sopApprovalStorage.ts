@@ -0,0 +1,116 @@
+// SOP Approval Storage Service for Supabase
+// Records signed workflow transitions for generated and uploaded SOPs
+
+import { getAuthToken } from '../lib/supabase';
+import type { TeamMember } from '../config/hospitalConfig';
+import type {
+  SOPApprovalStage,
+  SOPApprovalAction,
+  SOPApprovalEvent,
+  SOPApprovalDocumentType,
+} from '../types/sopApproval';
+import { getApprovalSignatures, getStageAfterAction, validateApprovalTransition } from './sopApprovalEngine';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+export interface ApprovalActionRequest {
+  documentType: SOPApprovalDocumentType;
+  documentId: string;
+  stage: SOPApprovalStage;              // stage the signer saw; the RPC refuses if it has moved on
+  action: SOPApprovalAction;
+  member: TeamMember;                   // team member linked to the signed-in login
+  comments?: string;
+}
+
+/**
+ * Load the approval history of a document, oldest first
+ */
+export async function loadApprovalEvents(
+  documentType: SOPApprovalDocumentType,
+  documentId: string
+): Promise<{ success: boolean; data?: SOPApprovalEvent[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_sop_approval_events?document_type=eq.${documentType}&document_id=eq.${documentId}&order=created_at.asc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading approval events:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as SOPApprovalEvent[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading approval events:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Sign a workflow step (or reject) and move the document to its new stage in one
+ * RPC. The signer is the team member linked to the login; the stage must still be
+ * the one the signer saw. Issuing also marks the SOP Active with today's effective date.
+ */
+export async function recordApprovalAction(
+  request: ApprovalActionRequest
+): Promise<{ success: boolean; data?: { stage: SOPApprovalStage; event: SOPApprovalEvent }; error?: string }> {
+  try {
+    const history = await loadApprovalEvents(request.documentType, request.documentId);
+    if (!history.success) {
+      return { success: false, error: history.error };
+    }
+
+    const comments = request.comments?.trim() || '';
+    const signatures = getApprovalSignatures(history.data || [], request.stage);
+    const validationError = validateApprovalTransition(request.stage, request.action, request.member, comments, signatures);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/record_sop_approval`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({
+          p_document_type: request.documentType,
+          p_document_id: request.documentId,
+          p_from_stage: request.stage,
+          p_action: request.action,
+          p_member_role: request.member.role,
+          p_member_designation: request.member.designation,
+          p_comments: comments || null,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error recording approval action:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: { stage: getStageAfterAction(request.action), event: data[0] as SOPApprovalEvent } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error recording approval action:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -1,5 +1,6 @@
 // SOP Document Storage Service
 import { supabase } from '../lib/supabase';
+import type { SOPApprovalStage } from '../types/sopApproval';
 
 export interface SOPDocument {
   id: string;
@@ -15,6 +16,7 @@ export interface SOPDocument {
   department?: string;
   author?: string;
   status: 'Draft' | 'Active' | 'Under Review' | 'Archived';
+  approval_stage?: SOPApprovalStage;
   tags?: string[];
   is_public: boolean;
   created_at: string;
@@ -1,6 +1,13 @@
 // SOP Generated Storage Service
 // Handles PDF upload to bucket + data save to nabh_generated_sops table
-import { supabase } from '../lib/supabase';
+import { supabase, getAuthToken } from '../lib/supabase';
+import { saveInitialSOPRevision } from './sopRevisionStorage';
+import { getChapterCode } from '../utils/documentNumbering';
+import { DEFAULT_HOSPITAL_ID } from '../config/hospitalConfig';
+import type { SOPApprovalStage } from '../types/sopApproval';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export interface GeneratedSOP {
   id: string;
@@ -23,6 +30,7 @@ export interface GeneratedSOP {
   effective_date: string;
   review_date: string;
   status: 'Draft' | 'Active' | 'Under Review' | 'Archived';
+  approval_stage?: SOPApprovalStage;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -41,6 +49,7 @@ export interface SaveSOPRequest {
   version?: string;
   department?: string;
   category?: string;
+  hospital_id?: string; // owning hospital and scope of the document registry number
 }
 
 /**
@@ -101,8 +110,9 @@ export const saveGeneratedSOP = async (
     const reviewDate = '2025-09-09';
 
     const record = {
+      hospital_id: sopData.hospital_id || DEFAULT_HOSPITAL_ID,
       chapter_id: sopData.chapter_id,
-      chapter_code: sopData.chapter_code,
+      chapter_code: sopData.chapter_code || getChapterCode(sopData.objective_code),
       chapter_name: sopData.chapter_name,
       objective_code: sopData.objective_code,
       objective_title: sopData.objective_title,
@@ -112,13 +122,12 @@ export const saveGeneratedSOP = async (
       pdf_url: pdfUrl || null,
       pdf_file_path: pdfPath || null,
       pdf_file_size: pdfSize || null,
-      document_number: `SOP-${sopData.chapter_code}-${sopData.objective_code.replace(/[\/\\:*?"<>|]/g, '-').replace(/\./g, '-').substring(0, 40)}-${new Date().getFullYear()}`,
       version: sopData.version || '1.0',
       department: sopData.department || 'Quality Department',
       category: sopData.category || 'Administrative',
       effective_date: effectiveDate,
       review_date: reviewDate,
-      status: 'Active' as const,
+      status: 'Draft' as const, // becomes Active when issued through the approval workflow
       created_by: userData?.user?.email || 'System',
       tags: [sopData.chapter_code, sopData.objective_code, 'AI-Generated', 'NABH-3rd-Edition']
     };
@@ -134,7 +143,15 @@ export const saveGeneratedSOP = async (
       return { success: false, error: error.message };
     }
 
-    return { success: true, data };
+    // document_number is allocated from the registry by the insert trigger
+    const savedSOP = data as GeneratedSOP;
+
+    const revision = await saveInitialSOPRevision(savedSOP);
+    if (!revision.success) {
+      console.warn('Initial SOP revision was not recorded:', revision.error);
+    }
+
+    return { success: true, data: savedSOP };
   } catch (error) {
     console.error('Error in saveGeneratedSOP:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -368,3 +385,72 @@ export const deleteGeneratedSOP = async (
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 };
+
+/**
+ * Set the registry document number on an existing SOP
+ */
+export const updateGeneratedSOPDocumentNumber = async (
+  id: string,
+  documentNumber: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_generated_sops?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({ document_number: documentNumber, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating SOP document number:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateGeneratedSOPDocumentNumber:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
+/**
+ * Replace the PDF of an existing SOP, e.g. after sign-off adds the approval block
+ */
+export const updateGeneratedSOPPdf = async (
+  id: string,
+  pdfUrl: string,
+  pdfPath: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_generated_sops?id=eq.${id}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({ pdf_url: pdfUrl, pdf_file_path: pdfPath, updated_at: new Date().toISOString() }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error updating SOP PDF:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateGeneratedSOPPdf:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
@@ -0,0 +1,279 @@
+// SOP Revision Storage Service for Supabase
+// Append-only revision history for nabh_generated_sops (NABH document control)
+
+import { supabase, getAuthToken } from '../lib/supabase';
+import type { GeneratedSOP } from './sopGeneratedStorage';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+export interface SOPRevision {
+  id: string;
+  sop_id: string | null;               // null once the SOP is deleted
+  sop_title: string;                   // objective code and title, kept with the history
+  revision_number: number;
+  version: string;
+  sop_html_content: string;
+  change_reason: string;
+  author: string | null;
+  pdf_url: string | null;
+  pdf_file_path: string | null;
+  created_at: string;
+}
+
+export interface SaveSOPRevisionRequest {
+  content: string;
+  changeReason: string;
+  author?: string;
+  pdfUrl?: string;
+  pdfFilePath?: string;
+}
+
+export type AmendmentRecordRow = Pick<SOPRevision, 'revision_number' | 'version' | 'change_reason' | 'author' | 'created_at'>;
+
+export const INITIAL_REVISION_REASON = 'Initial release';
+
+/**
+ * Next minor version: 1.0 → 1.1, 1.9 → 1.10, 2 → 2.1
+ */
+export function getNextVersion(version: string | null | undefined): string {
+  const [major, minor] = (version || '1.0').split('.');
+  const majorNum = parseInt(major, 10);
+  const minorNum = parseInt(minor || '0', 10);
+  if (isNaN(majorNum) || isNaN(minorNum)) return '1.1';
+  return `${majorNum}.${minorNum + 1}`;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Amendment record table listing every revision, oldest first
+ */
+export function buildAmendmentRecordHTML(revisions: AmendmentRecordRow[]): string {
+  const cell = 'border:1px solid #333;padding:4px 6px;font-size:10px;vertical-align:top;';
+  const rows = [...revisions]
+    .sort((a, b) => a.revision_number - b.revision_number)
+    .map(rev => `<tr>
+        <td style="${cell}text-align:center;">${rev.revision_number}</td>
+        <td style="${cell}text-align:center;">${escapeHtml(rev.version)}</td>
+        <td style="${cell}white-space:nowrap;">${new Date(rev.created_at).toLocaleDateString('en-IN')}</td>
+        <td style="${cell}">${escapeHtml(rev.change_reason).replace(/\n/g, '<br/>')}</td>
+        <td style="${cell}">${escapeHtml(rev.author || '-')}</td>
+      </tr>`)
+    .join('');
+
+  return `<div class="amendment-record" style="page-break-inside:avoid;margin-top:24px;font-family:Arial,sans-serif;">
+    <h3 style="font-size:13px;margin:0 0 6px 0;">Amendment Record</h3>
+    <table style="width:100%;border-collapse:collapse;">
+      <thead>
+        <tr style="background:#f0f0f0;">
+          <th style="${cell}width:50px;">Rev.</th>
+          <th style="${cell}width:60px;">Version</th>
+          <th style="${cell}width:80px;">Date</th>
+          <th style="${cell}">Nature of Amendment</th>
+          <th style="${cell}width:120px;">Amended By</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </div>`;
+}
+
+/**
+ * Append the amendment record to an SOP document, before </body> when present
+ */
+export function appendAmendmentRecord(html: string, revisions: AmendmentRecordRow[]): string {
+  if (revisions.length === 0) return html;
+  const record = buildAmendmentRecordHTML(revisions);
+  const bodyClose = html.search(/<\/body>/i);
+  return bodyClose === -1 ? `${html}${record}` : `${html.slice(0, bodyClose)}${record}${html.slice(bodyClose)}`;
+}
+
+/**
+ * Amendment record rows for a PDF, including a revision that is about to be
+ * saved so the uploaded PDF already lists it. SOPs without recorded
+ * revisions show their current version as the initial release.
+ */
+export function getAmendmentRecordRows(
+  sop: Pick<GeneratedSOP, 'version' | 'created_by' | 'created_at'> | null,
+  revisions: AmendmentRecordRow[],
+  pending?: { changeReason: string; author: string }
+): AmendmentRecordRow[] {
+  const rows = [...revisions].sort((a, b) => a.revision_number - b.revision_number);
+  if (rows.length === 0 && sop) {
+    rows.push({
+      revision_number: 1,
+      version: sop.version || '1.0',
+      change_reason: INITIAL_REVISION_REASON,
+      author: sop.created_by || null,
+      created_at: sop.created_at,
+    });
+  }
+
+  if (pending) {
+    const latest = rows[rows.length - 1];
+    rows.push({
+      revision_number: latest ? latest.revision_number + 1 : 1,
+      version: latest ? getNextVersion(latest.version) : '1.0',
+      change_reason: latest ? pending.changeReason : INITIAL_REVISION_REASON,
+      author: pending.author,
+      created_at: new Date().toISOString(),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Load all revisions of an SOP, newest first
+ */
+export async function loadSOPRevisions(
+  sopId: string
+): Promise<{ success: boolean; data?: SOPRevision[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/nabh_sop_revisions?sop_id=eq.${sopId}&order=revision_number.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading SOP revisions:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as SOPRevision[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading SOP revisions:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+const insertSOPRevision = async (
+  revision: Omit<SOPRevision, 'id' | 'sop_title' | 'created_at'>
+): Promise<{ success: boolean; data?: SOPRevision; error?: string }> => {
+  const response = await fetch(
+    `${SUPABASE_URL}/rest/v1/nabh_sop_revisions`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${await getAuthToken()}`,
+        'Prefer': 'return=representation',
+      },
+      body: JSON.stringify(revision),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Error saving SOP revision:', response.status, errorText);
+    return { success: false, error: `${response.status}: ${errorText}` };
+  }
+
+  const data = await response.json();
+  return { success: true, data: data[0] as SOPRevision };
+};
+
+/**
+ * Record revision 1 for a newly saved SOP
+ */
+export async function saveInitialSOPRevision(
+  sop: Pick<GeneratedSOP, 'id' | 'version' | 'sop_html_content' | 'created_by' | 'pdf_url' | 'pdf_file_path'>
+): Promise<{ success: boolean; data?: SOPRevision; error?: string }> {
+  try {
+    return await insertSOPRevision({
+      sop_id: sop.id,
+      revision_number: 1,
+      version: sop.version || '1.0',
+      sop_html_content: sop.sop_html_content,
+      change_reason: INITIAL_REVISION_REASON,
+      author: sop.created_by || null,
+      pdf_url: sop.pdf_url || null,
+      pdf_file_path: sop.pdf_file_path || null,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving SOP revision:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save a new revision and make it the current SOP content, in one transaction
+ * (save_sop_revision). SOPs saved before revision history existed get their
+ * current content recorded as revision 1 first, so nothing is lost from the record.
+ * The SOP returns to Draft and must be signed off again.
+ */
+export async function saveSOPRevision(
+  sop: Pick<GeneratedSOP, 'id'>,
+  request: SaveSOPRevisionRequest
+): Promise<{ success: boolean; data?: SOPRevision; error?: string }> {
+  try {
+    let author = request.author;
+    if (!author) {
+      const { data: userData } = await supabase.auth.getUser();
+      author = userData?.user?.email || 'System';
+    }
+
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/rpc/save_sop_revision`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${await getAuthToken()}`,
+        },
+        body: JSON.stringify({
+          p_sop_id: sop.id,
+          p_content: request.content,
+          p_change_reason: request.changeReason,
+          p_author: author,
+          p_pdf_url: request.pdfUrl || null,
+          p_pdf_file_path: request.pdfUrl ? request.pdfFilePath || null : null,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error saving SOP revision:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data[0] as SOPRevision };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving SOP revision:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Restore an older revision by saving its content as a new revision
+ */
+export async function restoreSOPRevision(
+  sop: Pick<GeneratedSOP, 'id'>,
+  revision: SOPRevision
+): Promise<{ success: boolean; data?: SOPRevision; error?: string }> {
+  return saveSOPRevision(sop, {
+    content: revision.sop_html_content,
+    changeReason: `Restored revision ${revision.revision_number} (v${revision.version})`,
+  });
+}
@@ -0,0 +1,203 @@
+// Statistical Process Control Engine
+// Control limits and special-cause signals for KPI series (p, u, XmR and run charts)
+
+import type { KPIDefinition } from '../data/kpiData';
+import type { KPIDataEntry } from './kpiStorage';
+import { getKPIFormulaTerms } from './kpiMeasurementEngine';
+import type { SPCChartType, SPCPoint, SPCResult, SPCSignal } from '../types/spc';
+
+export const SPC_CHART_LABELS: Record<SPCChartType, string> = {
+  run: 'Run Chart',
+  p: 'p-Chart (proportion)',
+  u: 'u-Chart (rate)',
+  xmr: 'XmR Chart (individuals)',
+};
+
+// Special-cause rules
+export const SPC_RUN_LENGTH = 8;
+export const SPC_TREND_LENGTH = 6;
+const XMR_CONSTANT = 2.66;
+const MIN_POINTS_FOR_STABLE_LIMITS = 12;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Chart suited to the KPI's measure: proportions → p, rates per exposure → u,
+ * times and ratios → XmR
+ */
+export function getDefaultSPCChartType(kpi: KPIDefinition): SPCChartType {
+  if (kpi.unit === 'Percentage') return 'p';
+  if (kpi.unit.toLowerCase().startsWith('per ')) return 'u';
+  return 'xmr';
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Runs of SPC_RUN_LENGTH or more points on one side of the centre line.
+ * Points on the centre line neither count towards nor break a run.
+ */
+export function detectRuns(points: Pick<SPCPoint, 'month' | 'value' | 'centerLine'>[]): SPCSignal[] {
+  const signals: SPCSignal[] = [];
+  let run: string[] = [];
+  let side: 'up' | 'down' | null = null;
+
+  const close = () => {
+    if (side && run.length >= SPC_RUN_LENGTH) {
+      signals.push({
+        rule: 'run',
+        months: run,
+        direction: side,
+        description: `${run.length} points in a row ${side === 'up' ? 'above' : 'below'} the centre line (${formatMonth(run[0])} – ${formatMonth(run[run.length - 1])})`,
+      });
+    }
+  };
+
+  points.forEach(point => {
+    if (point.value === point.centerLine) return;
+    const pointSide = point.value > point.centerLine ? 'up' : 'down';
+    if (pointSide !== side) {
+      close();
+      run = [];
+      side = pointSide;
+    }
+    run.push(point.month);
+  });
+  close();
+
+  return signals;
+}
+
+/**
+ * Trends of SPC_TREND_LENGTH or more points each higher (or lower) than the
+ * one before. Equal consecutive values end a trend.
+ */
+export function detectTrends(points: Pick<SPCPoint, 'month' | 'value'>[]): SPCSignal[] {
+  const signals: SPCSignal[] = [];
+  let start = 0;
+  let direction: 'up' | 'down' | null = null;
+
+  const close = (end: number) => {
+    const length = end - start + 1;
+    if (direction && length >= SPC_TREND_LENGTH) {
+      const months = points.slice(start, end + 1).map(p => p.month);
+      signals.push({
+        rule: 'trend',
+        months,
+        direction,
+        description: `${length} points ${direction === 'up' ? 'increasing' : 'decreasing'} in a row (${formatMonth(months[0])} – ${formatMonth(months[months.length - 1])})`,
+      });
+    }
+  };
+
+  for (let i = 1; i < points.length; i++) {
+    const step = points[i].value > points[i - 1].value ? 'up' : points[i].value < points[i - 1].value ? 'down' : null;
+    if (step === null || step !== direction) {
+      close(i - 1);
+      start = step === null ? i : i - 1;
+      direction = step;
+    }
+  }
+  close(points.length - 1);
+
+  return signals;
+}
+
+function detectBeyondLimits(points: SPCPoint[]): SPCSignal[] {
+  return points.flatMap((point): SPCSignal[] => {
+    if (point.ucl !== null && point.value > point.ucl) {
+      return [{ rule: 'beyond_limits', months: [point.month], direction: 'up', description: `${formatMonth(point.month)} above the upper control limit (${point.value} > ${point.ucl})` }];
+    }
+    if (point.lcl !== null && point.value < point.lcl) {
+      return [{ rule: 'beyond_limits', months: [point.month], direction: 'down', description: `${formatMonth(point.month)} below the lower control limit (${point.value} < ${point.lcl})` }];
+    }
+    return [];
+  });
+}
+
+const emptyResult = (chartType: SPCChartType, error: string): SPCResult => ({
+  chartType,
+  points: [],
+  centerLine: 0,
+  signals: [],
+  warning: null,
+  error,
+});
+
+/**
+ * Compute a control (or run) chart for a KPI series. p and u charts need the
+ * numerator and denominator of every month; run and XmR charts use the values.
+ */
+export function computeSPC(kpi: KPIDefinition, data: KPIDataEntry[], chartType: SPCChartType): SPCResult {
+  const series = data.slice().sort((a, b) => a.month.localeCompare(b.month));
+  if (series.length < 2) return emptyResult(chartType, 'At least two months of data are needed');
+
+  const { multiplier } = getKPIFormulaTerms(kpi);
+  let points: SPCPoint[];
+  let centerLine: number;
+
+  if (chartType === 'p' || chartType === 'u') {
+    const counted = series.filter(d => d.numeratorValue !== undefined && d.denominatorValue !== undefined && d.denominatorValue > 0);
+    if (counted.length < series.length) {
+      return emptyResult(chartType, `A ${SPC_CHART_LABELS[chartType]} needs the numerator and denominator for every month`);
+    }
+
+    const totalNumerator = counted.reduce((sum, d) => sum + d.numeratorValue!, 0);
+    const totalDenominator = counted.reduce((sum, d) => sum + d.denominatorValue!, 0);
+    const mean = totalNumerator / totalDenominator;
+    if (chartType === 'p' && mean > 1) {
+      return emptyResult(chartType, 'Numerators exceed denominators; a p-chart needs proportions');
+    }
+    centerLine = round(mean * multiplier);
+
+    points = counted.map(d => {
+      const sigma = chartType === 'p'
+        ? Math.sqrt((mean * (1 - mean)) / d.denominatorValue!)
+        : Math.sqrt(mean / d.denominatorValue!);
+      const ucl = mean + 3 * sigma;
+      return {
+        month: d.month,
+        value: round((d.numeratorValue! / d.denominatorValue!) * multiplier),
+        centerLine,
+        ucl: round((chartType === 'p' ? Math.min(1, ucl) : ucl) * multiplier),
+        lcl: round(Math.max(0, mean - 3 * sigma) * multiplier),
+        isSignal: false,
+      };
+    });
+  } else if (chartType === 'xmr') {
+    const values = series.map(d => d.value);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const movingRanges = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+    const meanRange = movingRanges.reduce((sum, v) => sum + v, 0) / movingRanges.length;
+    centerLine = round(mean);
+    const ucl = round(mean + XMR_CONSTANT * meanRange);
+    // KPI values are never negative
+    const lcl = round(Math.max(0, mean - XMR_CONSTANT * meanRange));
+    points = series.map(d => ({ month: d.month, value: d.value, centerLine, ucl, lcl, isSignal: false }));
+  } else {
+    centerLine = round(median(series.map(d => d.value)));
+    points = series.map(d => ({ month: d.month, value: d.value, centerLine, ucl: null, lcl: null, isSignal: false }));
+  }
+
+  const signals = [...detectBeyondLimits(points), ...detectRuns(points), ...detectTrends(points)];
+  const signalMonths = new Set(signals.flatMap(s => s.months));
+  points = points.map(p => ({ ...p, isSignal: signalMonths.has(p.month) }));
+
+  return {
+    chartType,
+    points,
+    centerLine,
+    signals,
+    warning: chartType !== 'run' && points.length < MIN_POINTS_FOR_STABLE_LIMITS
+      ? `Control limits are provisional: ${points.length} of ${MIN_POINTS_FOR_STABLE_LIMITS} recommended months`
+      : null,
+    error: null,
+  };
+}
@@ -21,6 +21,7 @@ export interface StationeryItem {
   updated_at: string;
   documents_link?: string;
   hospital_id?: string;
+  document_number?: string; // controlled number from the document registry
 }
 
 export const stationeryStorage = {
@@ -0,0 +1,307 @@
+// Survey Analytics Engine
+// Answer validation, per-question distributions, satisfaction index and evidence report
+
+import type {
+  Survey,
+  SurveyAnalytics,
+  SurveyAnswer,
+  SurveyGroupScore,
+  SurveyQuestion,
+  SurveyQuestionStats,
+  SurveyResponse,
+} from '../types/survey';
+
+export const RATING_MAX = 5;
+export const SCALE_MAX = 10;
+
+const NOT_SPECIFIED = 'Not specified';
+
+// NABH elements survey results are filed against, by survey type
+export const SURVEY_EVIDENCE_OBJECTIVES: Record<Survey['type'], string[]> = {
+  patient_satisfaction: ['PRE.6.a', 'PRE.6.b', 'PRE.6.d'],
+  staff_satisfaction: ['PSQ.4.d', 'CQI.4.d'],
+  feedback: ['PRE.6.d'],
+  quality_assessment: ['PSQ.2.e', 'CQI.2.e'],
+  custom: [],
+};
+
+const isAnswered = (answer: SurveyAnswer | undefined): answer is SurveyAnswer =>
+  answer !== undefined && answer !== null && String(answer).trim() !== '';
+
+/**
+ * Validate answers from the public form. Returns an error per question id.
+ */
+export function validateSurveyAnswers(
+  questions: SurveyQuestion[],
+  answers: Record<string, SurveyAnswer>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  questions.forEach(q => {
+    const answer = answers[q.id];
+    if (!isAnswered(answer)) {
+      if (q.required) errors[q.id] = 'This question is required';
+      return;
+    }
+
+    switch (q.type) {
+      case 'rating':
+      case 'scale': {
+        const max = q.type === 'rating' ? RATING_MAX : SCALE_MAX;
+        if (!Number.isInteger(answer) || Number(answer) < 1 || Number(answer) > max) {
+          errors[q.id] = `Choose a value from 1 to ${max}`;
+        }
+        break;
+      }
+      case 'yes_no':
+        if (answer !== 'yes' && answer !== 'no') errors[q.id] = 'Answer yes or no';
+        break;
+      case 'multiple_choice':
+        if (!(q.options || []).includes(String(answer))) errors[q.id] = 'Choose one of the options';
+        break;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Score of a rating or scale answer as a fraction of its maximum, matching the
+ * "total score / maximum possible score" formula of the patient satisfaction KPI
+ */
+export function getAnswerScore(question: SurveyQuestion, answer: SurveyAnswer | undefined): { score: number; max: number } | null {
+  if (!isAnswered(answer) || typeof answer !== 'number') return null;
+  if (question.type === 'rating') return { score: answer, max: RATING_MAX };
+  if (question.type === 'scale') return { score: answer, max: SCALE_MAX };
+  return null;
+}
+
+/**
+ * Satisfaction index (0-100): total score over maximum possible score across
+ * all rating and scale answers. Null when nothing scored was answered.
+ */
+export function computeSatisfactionIndex(questions: SurveyQuestion[], responses: Pick<SurveyResponse, 'responses'>[]): number | null {
+  let total = 0;
+  let max = 0;
+  responses.forEach(r => {
+    questions.forEach(q => {
+      const scored = getAnswerScore(q, r.responses[q.id]);
+      if (scored) {
+        total += scored.score;
+        max += scored.max;
+      }
+    });
+  });
+  return max > 0 ? Math.round((total / max) * 1000) / 10 : null;
+}
+
+function buildQuestionStats(question: SurveyQuestion, responses: SurveyResponse[]): SurveyQuestionStats {
+  const answers = responses.map(r => r.responses[question.id]).filter(isAnswered);
+
+  let labels: string[] = [];
+  if (question.type === 'rating') labels = Array.from({ length: RATING_MAX }, (_, i) => String(i + 1));
+  if (question.type === 'scale') labels = Array.from({ length: SCALE_MAX }, (_, i) => String(i + 1));
+  if (question.type === 'yes_no') labels = ['yes', 'no'];
+  if (question.type === 'multiple_choice') {
+    labels = [...(question.options || [])];
+    answers.forEach(a => {
+      if (!labels.includes(String(a))) labels.push(String(a));
+    });
+  }
+
+  const distribution = labels.map(label => {
+    const count = answers.filter(a => String(a) === label).length;
+    return {
+      label: question.type === 'yes_no' ? (label === 'yes' ? 'Yes' : 'No') : label,
+      count,
+      percentage: answers.length > 0 ? Math.round((count / answers.length) * 1000) / 10 : 0,
+    };
+  });
+
+  const numeric = answers.filter((a): a is number => typeof a === 'number');
+  const scored = question.type === 'rating' || question.type === 'scale';
+
+  return {
+    questionId: question.id,
+    question: question.question,
+    type: question.type,
+    category: question.category || 'General',
+    answered: answers.length,
+    distribution: question.type === 'text' ? [] : distribution,
+    average: scored && numeric.length > 0 ? Math.round((numeric.reduce((s, v) => s + v, 0) / numeric.length) * 100) / 100 : null,
+    score: scored ? computeSatisfactionIndex([question], responses) : null,
+    comments: question.type === 'text' ? answers.map(String) : [],
+  };
+}
+
+function groupScores(
+  questions: SurveyQuestion[],
+  responses: SurveyResponse[],
+  keyOf: (r: SurveyResponse) => string
+): SurveyGroupScore[] {
+  const groups = new Map<string, SurveyResponse[]>();
+  responses.forEach(r => {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  return Array.from(groups.entries()).map(([label, group]) => ({
+    label,
+    responses: group.length,
+    satisfactionIndex: computeSatisfactionIndex(questions, group),
+  }));
+}
+
+/**
+ * Analytics for one survey: per-question distributions, satisfaction index,
+ * department breakdown (most responses first) and month-over-month trend
+ */
+export function buildSurveyAnalytics(questions: SurveyQuestion[], responses: SurveyResponse[]): SurveyAnalytics {
+  return {
+    totalResponses: responses.length,
+    satisfactionIndex: computeSatisfactionIndex(questions, responses),
+    questions: questions.map(q => buildQuestionStats(q, responses)),
+    departments: groupScores(questions, responses, r => r.department || NOT_SPECIFIED)
+      .sort((a, b) => b.responses - a.responses),
+    monthlyTrend: groupScores(questions, responses, r => r.submitted_at.slice(0, 7))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+  };
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+/**
+ * Printable survey results report, saved as evidence against PRE / CQI elements
+ */
+export function buildSurveyEvidenceHTML(
+  survey: Pick<Survey, 'title' | 'description' | 'targetAudience' | 'type'>,
+  analytics: SurveyAnalytics,
+  hospital: { name: string; address: string; qualityCoordinator: string; qualityCoordinatorDesignation: string },
+  generatedOn: Date = new Date()
+): string {
+  const scoredRows = analytics.questions
+    .filter(q => q.score !== null)
+    .map(q => `
+      <tr>
+        <td>${escapeHtml(q.question)}</td>
+        <td>${escapeHtml(q.category)}</td>
+        <td style="text-align:center">${q.answered}</td>
+        <td style="text-align:center">${q.average ?? '-'}</td>
+        <td style="text-align:center">${q.score ?? '-'}%</td>
+      </tr>`)
+    .join('');
+
+  const choiceRows = analytics.questions
+    .filter(q => q.type === 'yes_no' || q.type === 'multiple_choice')
+    .map(q => `
+      <tr>
+        <td>${escapeHtml(q.question)}</td>
+        <td>${q.distribution.map(d => `${escapeHtml(d.label)}: ${d.count} (${d.percentage}%)`).join('<br/>')}</td>
+      </tr>`)
+    .join('');
+
+  const comments = analytics.questions.flatMap(q => q.comments).slice(0, 20);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(survey.title)} - Survey Results</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Times New Roman', serif; padding: 20mm; line-height: 1.6; }
+    .header { text-align: center; border-bottom: 2px solid #1565C0; padding-bottom: 15px; margin-bottom: 20px; }
+    .hospital-name { font-size: 24px; font-weight: bold; color: #1565C0; }
+    .report-title { font-size: 18px; margin-top: 10px; }
+    .section { margin-bottom: 20px; }
+    .section-title { font-size: 14px; font-weight: bold; background: #f5f5f5; padding: 8px; margin-bottom: 10px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 10px; font-size: 12px; }
+    th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .index { font-size: 32px; font-weight: bold; color: #1565C0; text-align: center; }
+    .footer { margin-top: 30px; text-align: center; font-size: 10px; color: #666; border-top: 1px solid #ddd; padding-top: 10px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div class="hospital-name">${escapeHtml(hospital.name)}</div>
+    <div style="font-size: 12px;">${escapeHtml(hospital.address)}</div>
+    <div class="report-title">SURVEY RESULTS REPORT</div>
+    <div style="font-size: 12px;">${escapeHtml(survey.title)}</div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Survey</div>
+    <p>${escapeHtml(survey.description)}</p>
+    <p><strong>Respondents:</strong> ${escapeHtml(survey.targetAudience)} (anonymous)</p>
+    <p><strong>Responses analysed:</strong> ${analytics.totalResponses}</p>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Satisfaction Index</div>
+    <div class="index">${analytics.satisfactionIndex !== null ? `${analytics.satisfactionIndex}%` : 'N/A'}</div>
+    <p style="text-align:center; font-size: 11px;">Total score / maximum possible score across all rating questions x 100</p>
+  </div>
+
+  ${scoredRows ? `
+  <div class="section">
+    <div class="section-title">Rating Questions</div>
+    <table>
+      <tr><th>Question</th><th>Category</th><th>Answered</th><th>Average</th><th>Score</th></tr>
+      ${scoredRows}
+    </table>
+  </div>` : ''}
+
+  ${choiceRows ? `
+  <div class="section">
+    <div class="section-title">Yes / No and Multiple Choice Questions</div>
+    <table>
+      <tr><th>Question</th><th>Responses</th></tr>
+      ${choiceRows}
+    </table>
+  </div>` : ''}
+
+  ${analytics.departments.length > 0 ? `
+  <div class="section">
+    <div class="section-title">Department Breakdown</div>
+    <table>
+      <tr><th>Department</th><th>Responses</th><th>Satisfaction Index</th></tr>
+      ${analytics.departments.map(d => `<tr><td>${escapeHtml(d.label)}</td><td>${d.responses}</td><td>${d.satisfactionIndex ?? '-'}%</td></tr>`).join('')}
+    </table>
+  </div>` : ''}
+
+  ${analytics.monthlyTrend.length > 0 ? `
+  <div class="section">
+    <div class="section-title">Month-over-Month Trend</div>
+    <table>
+      <tr><th>Month</th><th>Responses</th><th>Satisfaction Index</th></tr>
+      ${analytics.monthlyTrend.map(m => `<tr><td>${formatMonth(m.label)}</td><td>${m.responses}</td><td>${m.satisfactionIndex ?? '-'}%</td></tr>`).join('')}
+    </table>
+  </div>` : ''}
+
+  ${comments.length > 0 ? `
+  <div class="section">
+    <div class="section-title">Comments (${comments.length} most recent)</div>
+    <ul style="margin-left: 20px; font-size: 12px;">
+      ${comments.map(c => `<li>${escapeHtml(c)}</li>`).join('')}
+    </ul>
+  </div>` : ''}
+
+  <div class="section">
+    <div class="section-title">Review</div>
+    <p>Reviewed by: ${escapeHtml(hospital.qualityCoordinator)}, ${escapeHtml(hospital.qualityCoordinatorDesignation)}</p>
+    <p>Signature: ____________________ &nbsp;&nbsp; Date: ____________</p>
+  </div>
+
+  <div class="footer">
+    <p>Generated on ${generatedOn.toLocaleDateString('en-IN', { day: '2-digit', month: 'long', year: 'numeric' })}</p>
+  </div>
+</body>
+</html>`;
+}
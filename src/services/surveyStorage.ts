@@ -0,0 +1,259 @@
+// Survey Response Storage Service for Supabase
+// Public survey loading, anonymous response submission and response retrieval
+
+import { getAuthToken } from '../lib/supabase';
+import { validateSurveyAnswers } from './surveyAnalyticsEngine';
+import type {
+  Survey,
+  SurveyQuestion,
+  SurveyResponse,
+  SurveyResponseInput,
+} from '../types/survey';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Rows of the surveys and survey_questions tables
+export interface SurveyRow {
+  id: string;
+  title: string;
+  description: string | null;
+  survey_type: Survey['type'];
+  status: Survey['status'];
+  target_audience: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  response_count: number | null;
+  created_by: string | null;
+  created_at: string;
+  nabh_relevant: boolean | null;
+  frequency: Survey['frequency'];
+  translations: Survey['translations'] | null;
+}
+
+export interface SurveyQuestionRow {
+  id: string;
+  survey_id: string;
+  question: string;
+  question_type: SurveyQuestion['type'];
+  options: string[] | null;
+  required: boolean;
+  category: string | null;
+  translations: SurveyQuestion['translations'] | null;
+}
+
+/**
+ * Map a survey row and its question rows to a Survey
+ */
+export function surveyFromRows(survey: SurveyRow, questions: SurveyQuestionRow[]): Survey {
+  return {
+    id: survey.id,
+    title: survey.title,
+    description: survey.description || '',
+    type: survey.survey_type,
+    status: survey.status,
+    questions: questions.map(q => ({
+      id: q.id,
+      question: q.question,
+      type: q.question_type,
+      options: q.options || [],
+      required: q.required,
+      category: q.category || '',
+      translations: q.translations || {},
+    })),
+    targetAudience: survey.target_audience || '',
+    startDate: survey.start_date || '',
+    endDate: survey.end_date || '',
+    responseCount: survey.response_count || 0,
+    createdBy: survey.created_by || '',
+    createdAt: survey.created_at,
+    nabhRelevant: survey.nabh_relevant || false,
+    frequency: survey.frequency,
+    translations: survey.translations || {},
+  };
+}
+
+/**
+ * Load one survey with its questions (used by the public survey page)
+ */
+export async function loadSurveyWithQuestions(
+  surveyId: string
+): Promise<{ success: boolean; data?: Survey; error?: string }> {
+  try {
+    const headers = {
+      'Content-Type': 'application/json',
+      'apikey': SUPABASE_ANON_KEY,
+      'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+    };
+    const [surveyResponse, questionsResponse] = await Promise.all([
+      fetch(`${SUPABASE_URL}/rest/v1/surveys?id=eq.${encodeURIComponent(surveyId)}&is_active=eq.true`, { method: 'GET', headers }),
+      fetch(`${SUPABASE_URL}/rest/v1/survey_questions?survey_id=eq.${encodeURIComponent(surveyId)}&order=sort_order.asc`, { method: 'GET', headers }),
+    ]);
+
+    if (!surveyResponse.ok || !questionsResponse.ok) {
+      const failed = surveyResponse.ok ? questionsResponse : surveyResponse;
+      const errorText = await failed.text();
+      console.error('Error loading survey:', failed.status, errorText);
+      return { success: false, error: `${failed.status}: ${errorText}` };
+    }
+
+    const [survey] = (await surveyResponse.json()) as SurveyRow[];
+    if (!survey) {
+      return { success: false, error: 'Survey not found' };
+    }
+    const questions = (await questionsResponse.json()) as SurveyQuestionRow[];
+
+    return { success: true, data: surveyFromRows(survey, questions) };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading survey:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Whether a survey is accepting responses today
+ */
+export function getSurveyClosedReason(
+  survey: Pick<Survey, 'status' | 'startDate' | 'endDate'>,
+  today: Date = new Date()
+): string | null {
+  const date = today.toISOString().split('T')[0];
+  if (survey.status !== 'active') return 'This survey is not open for responses.';
+  if (survey.startDate && date < survey.startDate) return 'This survey has not started yet.';
+  if (survey.endDate && date > survey.endDate) return 'This survey has closed.';
+  return null;
+}
+
+/**
+ * Submit an anonymous response. No respondent identifier is stored.
+ */
+export async function submitSurveyResponse(
+  survey: Survey,
+  input: SurveyResponseInput
+): Promise<{ success: boolean; error?: string }> {
+  const closedReason = getSurveyClosedReason(survey);
+  if (closedReason) {
+    return { success: false, error: closedReason };
+  }
+  const errors = validateSurveyAnswers(survey.questions, input.responses);
+  if (Object.keys(errors).length > 0) {
+    return { success: false, error: 'Please answer all required questions' };
+  }
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/survey_responses`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify({
+          survey_id: survey.id,
+          respondent_id: null,
+          respondent_type: input.respondent_type,
+          department: input.department || null,
+          language: input.language,
+          responses: input.responses,
+          completion_time: input.completion_time,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error submitting survey response:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error submitting survey response:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Save the Hindi / Marathi translations of the survey title, description and questions
+ */
+export async function saveSurveyTranslations(
+  survey: Pick<Survey, 'id' | 'translations' | 'questions'>
+): Promise<{ success: boolean; error?: string }> {
+  const headers = {
+    'Content-Type': 'application/json',
+    'apikey': SUPABASE_ANON_KEY,
+    'Authorization': `Bearer ${await getAuthToken()}`,
+    'Prefer': 'return=minimal',
+  };
+
+  try {
+    const updates = [
+      fetch(`${SUPABASE_URL}/rest/v1/surveys?id=eq.${encodeURIComponent(survey.id)}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ translations: survey.translations || {}, updated_at: new Date().toISOString() }),
+      }),
+      ...survey.questions
+        .filter(q => q.translations && Object.keys(q.translations).length > 0)
+        .map(q =>
+          fetch(`${SUPABASE_URL}/rest/v1/survey_questions?id=eq.${encodeURIComponent(q.id)}`, {
+            method: 'PATCH',
+            headers,
+            body: JSON.stringify({ translations: q.translations }),
+          })
+        ),
+    ];
+    const responses = await Promise.all(updates);
+
+    const failed = responses.find(r => !r.ok);
+    if (failed) {
+      const errorText = await failed.text();
+      console.error('Error saving survey translations:', failed.status, errorText);
+      return { success: false, error: `${failed.status}: ${errorText}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error saving survey translations:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Load all responses for a survey, newest first
+ */
+export async function loadSurveyResponses(
+  surveyId: string
+): Promise<{ success: boolean; data?: SurveyResponse[]; error?: string }> {
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/rest/v1/survey_responses?survey_id=eq.${encodeURIComponent(surveyId)}&order=submitted_at.desc`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Error loading survey responses:', response.status, errorText);
+      return { success: false, error: `${response.status}: ${errorText}` };
+    }
+
+    const data = await response.json();
+    return { success: true, data: data as SurveyResponse[] };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error loading survey responses:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
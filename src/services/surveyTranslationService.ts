@@ -0,0 +1,198 @@
+// Survey Translation Service
+// Localizes survey questions for the public form and drafts Hindi / Marathi translations with Gemini
+
+import { callGeminiAPI } from './aiGatewayClient';
+import type {
+  Survey,
+  SurveyLanguage,
+  SurveyQuestion,
+  SurveyQuestionTranslation,
+  SurveyTextTranslation,
+  SurveyTranslationLanguage,
+} from '../types/survey';
+
+export const SURVEY_LANGUAGES: { code: SurveyLanguage; label: string; nativeLabel: string }[] = [
+  { code: 'en', label: 'English', nativeLabel: 'English' },
+  { code: 'hi', label: 'Hindi', nativeLabel: 'हिंदी' },
+  { code: 'mr', label: 'Marathi', nativeLabel: 'मराठी' },
+];
+
+export interface LocalizedSurveyQuestion {
+  question: string;
+  // value is always the English option so responses aggregate across languages
+  options: { value: string; label: string }[];
+}
+
+export interface SurveyTranslationDraft {
+  survey: SurveyTextTranslation;
+  questions: Record<string, SurveyQuestionTranslation>;
+}
+
+/**
+ * Question text and option labels in the chosen language, falling back to
+ * English for anything that has not been translated
+ */
+export function localizeQuestion(question: SurveyQuestion, language: SurveyLanguage): LocalizedSurveyQuestion {
+  const options = question.options || [];
+  const translation = language === 'en' ? undefined : question.translations?.[language];
+  const translatedOptions = translation?.options || [];
+
+  return {
+    question: translation?.question?.trim() || question.question,
+    options: options.map((option, index) => ({
+      value: option,
+      label: translatedOptions[index]?.trim() || option,
+    })),
+  };
+}
+
+/**
+ * Survey title and description in the chosen language, falling back to English
+ */
+export function localizeSurveyText(
+  survey: Pick<Survey, 'title' | 'description' | 'translations'>,
+  language: SurveyLanguage
+): SurveyTextTranslation {
+  const translation = language === 'en' ? undefined : survey.translations?.[language];
+  return {
+    title: translation?.title?.trim() || survey.title,
+    description: translation?.description?.trim() || survey.description,
+  };
+}
+
+/**
+ * Number of questions still missing a translation of the text or of any option
+ */
+export function countUntranslatedQuestions(questions: SurveyQuestion[], language: SurveyTranslationLanguage): number {
+  return questions.filter(q => {
+    const translation = q.translations?.[language];
+    if (!translation?.question?.trim()) return true;
+    return (q.options || []).some((_, index) => !translation.options?.[index]?.trim());
+  }).length;
+}
+
+/**
+ * Build the translation prompt. Question ids and option order are kept so the
+ * response can be matched back without touching stored answers.
+ */
+export function buildTranslationPrompt(
+  survey: Pick<Survey, 'title' | 'description' | 'questions'>,
+  language: SurveyTranslationLanguage
+): string {
+  const languageName = SURVEY_LANGUAGES.find(l => l.code === language)?.label;
+  const source = {
+    title: survey.title,
+    description: survey.description,
+    questions: survey.questions.map(q => ({
+      id: q.id,
+      question: q.question,
+      options: q.options && q.options.length > 0 ? q.options : undefined,
+    })),
+  };
+
+  return `You are translating a hospital feedback survey for patients, families and staff in Nagpur, Maharashtra.
+Translate the survey below from English into ${languageName}, written in Devanagari script.
+
+RULES:
+1. Use simple, polite, everyday ${languageName} that a patient with basic literacy understands.
+2. Keep common hospital words that patients use in English (OPD, ICU, X-ray, billing) in Devanagari transliteration.
+3. Keep every "id" exactly as given and return the options in the same order and the same number as the English options.
+4. Do not add, drop or merge questions.
+
+Survey (JSON):
+${JSON.stringify(source, null, 2)}
+
+Return ONLY valid JSON in this format:
+{
+  "title": "translated title",
+  "description": "translated description",
+  "questions": [
+    { "id": "same id", "question": "translated question", "options": ["translated option", "..."] }
+  ]
+}`;
+}
+
+/**
+ * Parse the model's JSON and keep only translations that line up with the
+ * survey's questions and options
+ */
+export function parseTranslationResponse(
+  content: string,
+  questions: SurveyQuestion[]
+): { success: boolean; data?: SurveyTranslationDraft; error?: string } {
+  try {
+    let jsonContent = content;
+    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonContent = jsonMatch[1].trim();
+    } else {
+      const objectMatch = content.match(/\{[\s\S]*\}/);
+      if (objectMatch) {
+        jsonContent = objectMatch[0];
+      }
+    }
+
+    const parsed = JSON.parse(jsonContent);
+    if (!Array.isArray(parsed.questions)) {
+      return { success: false, error: 'Invalid response format: missing questions array' };
+    }
+
+    const translated: Record<string, SurveyQuestionTranslation> = {};
+    parsed.questions.forEach((item: { id?: unknown; question?: unknown; options?: unknown }) => {
+      const question = questions.find(q => q.id === item.id);
+      if (!question || typeof item.question !== 'string' || !item.question.trim()) return;
+
+      const options = question.options || [];
+      const itemOptions = Array.isArray(item.options) ? item.options : [];
+      translated[question.id] = {
+        question: item.question.trim(),
+        options: options.length > 0 && itemOptions.length === options.length ? itemOptions.map(o => String(o).trim()) : undefined,
+      };
+    });
+
+    if (Object.keys(translated).length === 0) {
+      return { success: false, error: 'No questions were translated' };
+    }
+
+    return {
+      success: true,
+      data: {
+        survey: {
+          title: typeof parsed.title === 'string' ? parsed.title.trim() : '',
+          description: typeof parsed.description === 'string' ? parsed.description.trim() : '',
+        },
+        questions: translated,
+      },
+    };
+  } catch (error) {
+    console.error('Error parsing translation response:', error);
+    return {
+      success: false,
+      error: `Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Draft a translation of the whole survey through the Gemini proxy.
+ * The draft is reviewed in the translations dialog before it is saved.
+ */
+export async function translateSurvey(
+  survey: Pick<Survey, 'title' | 'description' | 'questions'>,
+  language: SurveyTranslationLanguage
+): Promise<{ success: boolean; data?: SurveyTranslationDraft; error?: string }> {
+  try {
+    const data = await callGeminiAPI(buildTranslationPrompt(survey, language), 0.2, 8192, 'survey-translation');
+    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!content) {
+      return { success: false, error: 'No response from AI model' };
+    }
+
+    return parseTranslationResponse(content, survey.questions);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error translating survey:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import type { AppUser, AuthStatus, Capability } from '../types/auth';
+import { loadCurrentAppUser, signIn, signOut, signUp } from '../services/authStorage';
+import { hasCapability } from '../services/permissionEngine';
+
+interface AuthState {
+  user: AppUser | null;
+  status: AuthStatus;
+  error: string | null;
+  initialized: boolean;
+  initialize: () => void;
+  refreshUser: () => Promise<void>;
+  signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  signUp: (name: string, email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  signOut: () => Promise<void>;
+}
+
+export const useAuthStore = create<AuthState>()((set, get) => ({
+  user: null,
+  status: 'loading',
+  error: null,
+  initialized: false,
+
+  // Load the session once and follow sign-in / sign-out / token refresh afterwards
+  initialize: () => {
+    if (get().initialized) return;
+    set({ initialized: true });
+    get().refreshUser();
+    supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        // Defer so the auth client finishes its own callback before we query
+        setTimeout(() => get().refreshUser(), 0);
+      }
+    });
+  },
+
+  refreshUser: async () => {
+    const result = await loadCurrentAppUser();
+    if (!result.success) {
+      set({ user: null, status: 'signed_out', error: result.error || 'Failed to load user' });
+      return;
+    }
+    const user = result.data || null;
+    set({
+      user,
+      status: !user ? 'signed_out' : user.is_active ? 'active' : 'pending',
+      error: null,
+    });
+  },
+
+  signIn: async (email, password) => {
+    const result = await signIn(email, password);
+    if (result.success) await get().refreshUser();
+    return result;
+  },
+
+  signUp: async (name, email, password) => {
+    const result = await signUp(name, email, password);
+    if (result.success) await get().refreshUser();
+    return result;
+  },
+
+  signOut: async () => {
+    await signOut();
+    set({ user: null, status: 'signed_out', error: null });
+  },
+}));
+
+// Whether the signed-in user's role grants a capability
+export const useCapability = (capability: Capability): boolean =>
+  useAuthStore((state) => state.status === 'active' && hasCapability(state.user?.role, capability));
@@ -0,0 +1,127 @@
+/**
+ * AI Gateway Types
+ * Requests to the server-side AI gateway (api/ai.ts), its per-feature model routes,
+ * and the usage log used for token and cost accounting
+ */
+
+export type AIProviderName = 'anthropic' | 'gemini' | 'stub';
+
+// Every caller names its feature so the gateway can pick the model and account usage
+export type AIFeature =
+  | 'general'
+  | 'evidence-generation'
+  | 'evidence-list'
+  | 'objective-assist'
+  | 'hindi-explanation'
+  | 'sop-generation'
+  | 'sop-improvement'
+  | 'training-documents'
+  | 'infographic'
+  | 'slide-deck'
+  | 'kpi-assistant'
+  | 'survey-translation'
+  | 'mou-renewal-draft'
+  | 'document-extraction'
+  | 'document-vision'
+  | 'signage-image'
+  | 'signage-svg';
+
+export interface AIImageInput {
+  mime_type: string;
+  data: string;                        // base64 without the data: prefix
+}
+
+export interface AIImageOutput {
+  mimeType: string;
+  data: string;                        // base64
+}
+
+export interface AIGatewayRequest {
+  feature: AIFeature;
+  prompt: string;
+  system?: string;
+  images?: AIImageInput[];
+  temperature?: number;
+  maxTokens?: number;                  // capped at the feature route's maxTokens
+  outputImages?: boolean;              // image generation (signage)
+  stream?: boolean;
+  hospitalId?: string;                 // checked against the signed-in user's hospital
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIGatewayResponse {
+  text: string;
+  images: AIImageOutput[];
+  provider: AIProviderName;
+  model: string;
+  usage: AIUsage;
+  costUsd: number;
+}
+
+export interface AIModelChoice {
+  provider: AIProviderName;
+  model: string;
+}
+
+// Model used for a feature, with an optional second choice when the first one fails
+export interface AIFeatureRoute extends AIModelChoice {
+  fallback?: AIModelChoice;
+  maxTokens: number;
+}
+
+// generateContent-style body returned to callers written against the Gemini API
+export interface GeminiShapedResponse {
+  candidates: {
+    content: { parts: { text?: string; inlineData?: AIImageOutput }[] };
+    finishReason?: string;
+  }[];
+  usageMetadata: { promptTokenCount: number; candidatesTokenCount: number };
+  modelVersion: string;
+}
+
+// Events of a streamed gateway response (server-sent events, one JSON object per event)
+export type AIStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: AIGatewayResponse }
+  | { type: 'error'; error: string };
+
+// GET /api/ai: which providers have keys on the server
+export interface AIGatewayStatus {
+  providers: Record<AIProviderName, boolean>;
+  routes: Record<AIFeature, AIFeatureRoute>;
+}
+
+// Row of the ai_gateway_requests table
+export interface AIGatewayLogEntry {
+  id: string;
+  hospital_id: string | null;
+  user_id: string | null;
+  feature: AIFeature;
+  provider: AIProviderName;
+  model: string;
+  status: 'success' | 'error' | 'rate_limited';
+  streamed: boolean;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  latency_ms: number;
+  prompt_chars: number;
+  response_chars: number;
+  prompt_excerpt: string | null;
+  response_excerpt: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface AIUsageSummaryRow {
+  key: string;                         // feature or hospital id
+  requests: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
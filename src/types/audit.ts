@@ -0,0 +1,46 @@
+/**
+ * Audit Types
+ * Hash-chained audit log of inserts, updates and deletes, written by database triggers
+ */
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// Row of the audit_log table
+export interface AuditLogEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;             // auth user id; null for anonymous writes
+  actor_name: string;
+  actor_email: string | null;
+  entity_type: string;                 // audited table name
+  entity_id: string | null;
+  action: AuditAction;
+  changed_fields: string[];            // updates only
+  before_values: Record<string, unknown> | null;   // whole row for deletes, changed fields for updates
+  after_values: Record<string, unknown> | null;    // whole row for inserts, changed fields for updates
+  prev_hash: string | null;
+  hash: string;
+}
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string | null;             // null filters anonymous writes
+  from?: string;                       // YYYY-MM-DD, inclusive
+  to?: string;                         // YYYY-MM-DD, inclusive
+  limit?: number;
+}
+
+// Result of verify_audit_chain()
+export interface AuditChainVerification {
+  is_valid: boolean;
+  checked_count: number;
+  first_invalid_id: number | null;
+  head_hash: string | null;            // hash of the last valid entry; record it to detect truncation
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Auth Types
+ * Signed-in users, their application role and the capabilities each role grants
+ */
+
+export type AppRole = 'nabh_coordinator' | 'quality_manager' | 'department_head' | 'staff' | 'assessor';
+
+export type Capability =
+  | 'view'                 // read every page
+  | 'edit_content'         // create / edit evidence, SOPs, registers and master data
+  | 'review_documents'     // sign SOPs as prepared / reviewed
+  | 'approve_sops'         // approve and issue SOPs
+  | 'delete_evidence'      // delete generated evidence and documents
+  | 'delete_records'       // bulk deletes and replace-all imports (patients, masters)
+  | 'manage_users';        // assign roles and activate users
+
+// Row of the app_users table; id is the Supabase auth user id
+export interface AppUser {
+  id: string;
+  email: string;
+  name: string;
+  role: AppRole;
+  team_member_name: string | null;   // NABH_TEAM member this login signs as
+  employee_id: string | null;        // nabh_team_members (employees master) row
+  department: string | null;
+  hospital_id: string | null;        // hospital the login works in; null = every hospital
+  is_active: boolean;                // new sign-ups wait for a coordinator to activate them
+  created_at: string;
+  updated_at: string;
+}
+
+export type AppUserUpdate = Partial<Pick<AppUser, 'name' | 'role' | 'team_member_name' | 'employee_id' | 'department' | 'hospital_id' | 'is_active'>>;
+
+export type AuthStatus = 'loading' | 'signed_out' | 'pending' | 'active';
+
+// Employees master row offered when linking a login to an employee
+export interface EmployeeOption {
+  id: string;
+  name: string;
+  designation: string | null;
+  department: string | null;
+  role: string | null;
+}
@@ -0,0 +1,72 @@
+/**
+ * Clinical Audit Types
+ * Audits with a criteria checklist recorded per sample (patient file), and re-audits
+ * linked to the original audit to close the loop
+ */
+
+export interface ClinicalAudit {
+  id: string;
+  title: string;
+  description: string;
+  category: 'Patient Safety' | 'Quality Indicators' | 'Infection Control' | 'Medication Safety' | 'Documentation' | 'Compliance' | 'Other';
+  auditType: 'Internal' | 'External' | 'Self Assessment' | 'Peer Review';
+  department: string;
+  auditor: string;
+  startDate: string;
+  completionDate?: string;
+  status: 'Planned' | 'In Progress' | 'Completed' | 'Overdue' | 'Cancelled';
+  frequency: 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly' | 'One-time';
+  criteria: string[];
+  findings: string[];
+  recommendations: string[];
+  actionItems: string[];
+  compliance: number; // Percentage, computed from sample checklists when samples are recorded
+  samplesReviewed: number;
+  totalSamples: number;
+  nabhStandard?: string;
+  priority: 'High' | 'Medium' | 'Low';
+  followUpDate?: string;
+  reAuditOf?: string; // ClinicalAudit.id of the original audit
+  createdAt: string;
+  lastUpdated: string;
+  documentsLink?: string; // Google Docs/Sheets link
+}
+
+export type ClinicalAuditAnswer = 'Yes' | 'No' | 'NA';
+
+export interface ClinicalAuditSample {
+  id: string;
+  audit_id: string;
+  visit_id: string;                               // Patient.visitId (or other sample reference)
+  patient_name: string | null;
+  answers: Record<string, ClinicalAuditAnswer>;   // criterion -> answer
+  remarks: string | null;
+  reviewed_by: string | null;
+  reviewed_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ClinicalAuditSampleInput = Omit<ClinicalAuditSample, 'id' | 'created_at' | 'updated_at'>;
+
+export interface ClinicalAuditCriterionResult {
+  criterion: string;
+  yes: number;
+  no: number;
+  na: number;
+  compliance: number | null;    // Yes / (Yes + No); null when not applicable to any sample
+}
+
+export interface ClinicalAuditResult {
+  criteria: ClinicalAuditCriterionResult[];
+  overall: number | null;       // all Yes / all applicable answers
+  samplesReviewed: number;      // samples with every criterion answered
+  samplesRecorded: number;
+}
+
+export interface ClinicalAuditCriterionChange {
+  criterion: string;
+  before: number | null;
+  after: number | null;
+  change: number | null;
+}
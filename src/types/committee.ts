@@ -0,0 +1,111 @@
+/**
+ * Committee Types
+ * Hospital committees, their meetings and action items tracked across meetings
+ */
+
+export type CommitteeMeetingFrequency = 'Weekly' | 'Bi-weekly' | 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
+
+export interface CommitteeMember {
+  id: string;
+  name: string;
+  role: string;
+  designation: string;
+  masterType: 'doctors' | 'employees' | 'consultants' | 'nabh_team';
+  department?: string;
+  phone?: string;
+}
+
+export interface Meeting {
+  id: string;
+  date: string;
+  agenda: string;
+  minutes: string;                // discussion
+  attendees: string[];            // member names
+  decisions: string[];
+  actionItems: string[];          // legacy free-text items; tracked items live in committee_action_items
+  nextMeetingDate?: string;
+}
+
+export interface Committee {
+  id: string;
+  name: string;
+  type: 'mandatory' | 'recommended' | 'custom';
+  description: string;
+  chairperson: CommitteeMember | null;
+  members: CommitteeMember[];
+  meetingFrequency: CommitteeMeetingFrequency;
+  meetings: Meeting[];
+  objectives: string[];
+  createdAt: string;
+  nextMeetingDate?: string;
+  minMeetingsRequired: number;
+  documentsLink?: string; // Google Docs/Sheets link
+  linkMetadata?: {
+    title: string;
+    description: string;
+    keywords: string[];
+    category?: string;
+    type?: string;
+    priority?: 'high' | 'medium' | 'low';
+  };
+}
+
+export type CommitteeActionStatus = 'Open' | 'In Progress' | 'Completed' | 'Dropped';
+
+export interface CommitteeActionItem {
+  id: string;
+  committee_id: string;
+  meeting_id: string;                 // meeting the action was raised in
+  description: string;
+  owner_member_id: string | null;     // CommitteeMember.id
+  owner_name: string | null;
+  owner_designation: string | null;
+  due_date: string | null;
+  status: CommitteeActionStatus;
+  remarks: string | null;             // progress noted when reviewed
+  closed_meeting_id: string | null;   // meeting at which it was completed or dropped
+  closed_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CommitteeActionItemInput = Omit<CommitteeActionItem, 'id' | 'created_at' | 'updated_at'>;
+
+export interface CommitteeQuorum {
+  members: number;
+  present: number;
+  required: number;
+  met: boolean;
+  chairpersonPresent: boolean;
+}
+
+export type CommitteeComplianceStatus = 'Compliant' | 'At Risk' | 'Non-Compliant';
+
+/**
+ * One slot of the committee's meeting frequency within a year
+ * (a week, fortnight, month, quarter, half-year or the whole year)
+ */
+export interface CommitteeMeetingPeriod {
+  label: string;
+  start: string;                  // YYYY-MM-DD
+  end: string;                    // YYYY-MM-DD, inclusive
+  meetings: Meeting[];
+  quorate: boolean;               // at least one meeting in the period met quorum
+  elapsed: boolean;               // period is over
+  missed: boolean;                // elapsed without a quorate meeting
+}
+
+export interface CommitteeCompliance {
+  committee: Committee;
+  year: number;
+  periods: CommitteeMeetingPeriod[];
+  requiredForYear: number;
+  requiredToDate: number;
+  heldThisYear: number;
+  quorateThisYear: number;
+  requiredThisQuarter: number;
+  heldThisQuarter: number;
+  meetingsWithoutQuorum: Meeting[];
+  missedPeriods: CommitteeMeetingPeriod[];
+  status: CommitteeComplianceStatus;
+}
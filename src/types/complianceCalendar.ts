@@ -0,0 +1,28 @@
+/**
+ * Compliance Calendar Types
+ * Dated obligations aggregated from the licenses, MOUs, equipment, committees,
+ * manuals, SOPs and clinical audits masters
+ */
+
+export type ComplianceSource =
+  | 'License'
+  | 'MOU'
+  | 'Calibration'
+  | 'Maintenance'
+  | 'Committee Meeting'
+  | 'Manual Review'
+  | 'SOP Review'
+  | 'Audit Follow-up';
+
+export type ComplianceEventStatus = 'Overdue' | 'Due Soon' | 'Upcoming';
+
+export interface ComplianceEvent {
+  id: string; // stable across loads, used as the iCalendar UID
+  source: ComplianceSource;
+  title: string;
+  description: string;
+  dueDate: string; // YYYY-MM-DD
+  reminderDays: number; // days before dueDate the item becomes "Due Soon"
+  owner?: string;
+  path: string; // in-app page where the item is managed
+}
@@ -243,38 +243,6 @@ export interface Database {
           updated_at?: string;
         };
       };
-      nabh_audit_log: {
-        Row: {
-          id: string;
-          table_name: string;
-          record_id: string;
-          action: 'INSERT' | 'UPDATE' | 'DELETE';
-          old_data: Json | null;
-          new_data: Json | null;
-          user_id: string | null;
-          created_at: string;
-        };
-        Insert: {
-          id?: string;
-          table_name: string;
-          record_id: string;
-          action: 'INSERT' | 'UPDATE' | 'DELETE';
-          old_data?: Json | null;
-          new_data?: Json | null;
-          user_id?: string | null;
-          created_at?: string;
-        };
-        Update: {
-          id?: string;
-          table_name?: string;
-          record_id?: string;
-          action?: 'INSERT' | 'UPDATE' | 'DELETE';
-          old_data?: Json | null;
-          new_data?: Json | null;
-          user_id?: string | null;
-          created_at?: string;
-        };
-      };
       nabh_infographics: {
         Row: {
           id: string;
@@ -72,6 +72,8 @@ export interface DocumentEvidenceRequest {
   objectiveCode: string;
   /** Objective title */
   objectiveTitle: string;
+  /** Document number allocated from the document registry */
+  documentNumber?: string;
   /** Hospital configuration */
   hospitalConfig: {
     name: string;
@@ -0,0 +1,45 @@
+/**
+ * Document Registry Types
+ * Controlled document numbers (DOC-COP-001, FRM-HIC-014) per hospital, type and chapter
+ */
+
+export type DocumentType = 'DOC' | 'SOP' | 'POL' | 'MAN' | 'FRM' | 'REG';
+
+export type DocumentOwnerType = 'generated_sop' | 'sop_document' | 'evidence' | 'stationery' | 'manual' | 'other';
+
+// Reserved: number allocated but the owning record is not saved yet
+export type DocumentRegistryStatus = 'Reserved' | 'Active' | 'Superseded' | 'Withdrawn';
+
+export interface DocumentRegistryEntry {
+  id: string;
+  hospital_id: string;
+  document_number: string;
+  doc_type: DocumentType;
+  chapter_code: string;
+  sequence: number;
+  title: string;
+  objective_code: string | null;
+  owner_type: DocumentOwnerType;
+  owner_id: string | null;
+  version: string;
+  effective_date: string | null;
+  review_date: string | null;
+  status: DocumentRegistryStatus;
+  remarks: string | null;
+  allocated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AllocateDocumentNumberRequest {
+  hospitalId: string;
+  docType: DocumentType;
+  chapterCode: string;
+  title: string;
+  ownerType?: DocumentOwnerType;
+  ownerId?: string;
+  objectiveCode?: string;
+  version?: string;
+  reviewDate?: string;
+  allocatedBy?: string;
+}
@@ -0,0 +1,49 @@
+/**
+ * Periodic Document Review Types
+ * Review scheduling for generated SOPs, uploaded SOPs, hospital manuals and document-level items
+ */
+
+export type ReviewDocumentType = 'generated_sop' | 'sop_document' | 'manual' | 'document_level';
+
+export type ReviewDueStatus = 'Overdue' | 'Due Soon' | 'Upcoming';
+
+// In Revision: reviewer opened a new revision; the task completes when it is issued
+export type ReviewTaskStatus = 'Assigned' | 'In Revision' | 'Completed';
+
+export type ReviewOutcome = 'No Change' | 'Revised';
+
+export interface DocumentReviewTask {
+  id: string;
+  hospital_id: string;
+  document_type: ReviewDocumentType;
+  document_id: string;
+  document_title: string;
+  due_date: string;
+  reviewer: string | null;          // NABH_TEAM member name
+  assigned_by: string | null;
+  assigned_at: string | null;
+  status: ReviewTaskStatus;
+  outcome: ReviewOutcome | null;
+  completed_at: string | null;
+  next_review_date: string | null;  // review date set on the document when completed
+  remarks: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A document from any source with its computed review status
+export interface ReviewableDocument {
+  documentType: ReviewDocumentType;
+  documentId: string;
+  title: string;
+  reference: string;                // document number, chapter or level
+  version: string | null;
+  reviewDate: string;               // ISO date, stored or derived from the effective date
+  reviewDateDerived: boolean;       // true when the document has no review date of its own
+  reviewPeriodMonths: number;
+  owner: string | null;
+  path: string;                     // where the document is edited
+  dueStatus: ReviewDueStatus;
+  daysUntilDue: number;
+  openTask: DocumentReviewTask | null;
+}
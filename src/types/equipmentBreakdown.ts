@@ -0,0 +1,61 @@
+/**
+ * Equipment Breakdown Types
+ * Breakdowns logged against equipment, and the downtime / uptime figures of the
+ * monthly equipment downtime report (FMS)
+ */
+
+import type { EquipmentCategory } from '../data/equipmentMaster';
+
+export interface EquipmentBreakdown {
+  id: string;
+  hospital_id: string;
+  equipment_id: string;
+  equipment_tag: string;
+  equipment_name: string;
+  reported_at: string;
+  reported_by: string;
+  fault_description: string;
+  vendor: string | null;
+  vendor_called_at: string | null;
+  restored_at: string | null;         // null while the equipment is still down
+  action_taken: string | null;
+  repair_cost: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EquipmentBreakdownInput = Omit<EquipmentBreakdown, 'id' | 'created_at' | 'updated_at'>;
+
+export interface EquipmentUptime {
+  equipmentId: string;
+  equipmentTag: string;
+  name: string;
+  department: string;
+  category: EquipmentCategory;
+  critical: boolean;
+  breakdowns: number;
+  downtimeHours: number;
+  uptimePercent: number;
+  repairCost: number;
+  isDown: boolean;
+}
+
+export interface EquipmentUptimeGroup {
+  key: string;
+  equipmentCount: number;
+  breakdowns: number;
+  downtimeHours: number;
+  uptimePercent: number;
+  repairCost: number;
+}
+
+export interface EquipmentDowntimeReport {
+  month: string;                      // YYYY-MM
+  periodHours: number;                // hours of the month elapsed so far
+  equipment: EquipmentUptime[];
+  departments: EquipmentUptimeGroup[];
+  categories: EquipmentUptimeGroup[];
+  totals: EquipmentUptimeGroup;
+  meanResponseHours: number | null;   // reported -> vendor called
+  meanRepairHours: number | null;     // reported -> restored
+}
@@ -0,0 +1,59 @@
+/**
+ * Equipment Service Types
+ * Calibration and preventive maintenance schedules per equipment, and the job cards
+ * raised from them. Completed job cards are the service history of an equipment tag.
+ */
+
+import type { EquipmentCalibration } from '../data/equipmentMaster';
+
+export type EquipmentServiceType = 'Calibration' | 'Preventive Maintenance';
+
+export type EquipmentServiceFrequency = EquipmentCalibration['frequency'];
+
+export interface EquipmentServiceSchedule {
+  id: string;
+  hospital_id: string;
+  equipment_id: string;
+  equipment_tag: string;
+  service_type: EquipmentServiceType;
+  frequency: EquipmentServiceFrequency;
+  last_done_date: string | null;
+  next_due_date: string | null;       // null for 'As Required' once done
+  vendor: string | null;              // calibration agency / service engineer
+  created_at: string;
+  updated_at: string;
+}
+
+export type EquipmentServiceScheduleInput = Omit<EquipmentServiceSchedule, 'id' | 'created_at' | 'updated_at'>;
+
+export type EquipmentJobCardStatus = 'Open' | 'Completed' | 'Cancelled';
+
+export interface EquipmentJobCard {
+  id: string;
+  hospital_id: string;
+  schedule_id: string;
+  job_number: string;
+  equipment_id: string;
+  equipment_tag: string;
+  equipment_name: string;
+  service_type: EquipmentServiceType;
+  due_date: string;
+  status: EquipmentJobCardStatus;
+  assigned_to: string | null;
+  completed_date: string | null;
+  performed_by: string | null;
+  certificate_number: string | null;  // calibration certificate / service report number
+  notes: string | null;
+  next_due_date: string | null;       // due date the schedule was rolled forward to on completion
+  created_at: string;
+  updated_at: string;
+}
+
+export type EquipmentJobCardInput = Omit<EquipmentJobCard, 'id' | 'created_at' | 'updated_at'>;
+
+export interface EquipmentJobCardClosure {
+  completed_date: string;
+  performed_by: string;
+  certificate_number: string;
+  notes: string;
+}
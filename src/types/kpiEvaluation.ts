@@ -0,0 +1,78 @@
+/**
+ * KPI Evaluation Types
+ * Monthly performance against hospital target and benchmark range, and target breaches
+ */
+
+import type { KPIDefinition } from '../data/kpiData';
+
+// better / worse are relative to the KPI's targetDirection
+export type KPIBenchmarkPosition = 'better' | 'within' | 'worse';
+
+export type KPIPerformanceStatus =
+  | 'better_than_benchmark'   // target met and better than the benchmark range
+  | 'on_target'
+  | 'missed_target'           // target missed but still within the benchmark range
+  | 'worse_than_benchmark';   // target missed and outside the benchmark range
+
+export interface KPIMonthEvaluation {
+  kpiId: string;
+  month: string;                    // YYYY-MM
+  value: number;
+  target: number;                   // hospital target recorded with the measurement
+  metTarget: boolean;
+  benchmarkPosition: KPIBenchmarkPosition;
+  status: KPIPerformanceStatus;
+}
+
+export type KPIBreachStatus = 'Open' | 'Action Planned' | 'Closed';
+
+export interface KPIBreach {
+  id: string;
+  hospital_id: string;
+  kpi_id: string;
+  kpi_number: number;
+  kpi_name: string;
+  standard: string;                 // e.g. PSQ2a
+  category: KPIDefinition['category'];
+  start_month: string;              // first missed month of the streak
+  end_month: string;                // latest missed month
+  missed_months: string[];
+  consecutive_months: number;
+
+  // Action plan
+  root_cause: string | null;
+  action_plan: string | null;
+  responsible_person: string | null; // NABH_TEAM member name
+  target_date: string | null;
+
+  // Closure
+  closure_remarks: string | null;
+  closed_by: string | null;
+  closed_date: string | null;
+
+  status: KPIBreachStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export type KPIBreachInput = Omit<KPIBreach, 'id' | 'created_at' | 'updated_at'>;
+
+export interface KPIBreachExtension {
+  id: string;
+  end_month: string;
+  missed_months: string[];
+  consecutive_months: number;
+}
+
+export interface KPIScorecardRow {
+  categoryId: KPIDefinition['category'];
+  label: string;
+  icon: string;
+  color: string;
+  kpiCount: number;
+  evaluatedCount: number;           // KPIs with captured data
+  onTargetCount: number;            // latest month met target
+  worseThanBenchmarkCount: number;  // latest month outside benchmark on the wrong side
+  openBreaches: number;             // Open + Action Planned
+  closedBreaches: number;
+}
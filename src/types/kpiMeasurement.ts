@@ -0,0 +1,63 @@
+/**
+ * KPI Measurement Types
+ * Monthly numerator / denominator capture for the NABH KPIs with an audit trail
+ */
+
+export type KPIMeasurementSource = 'manual' | 'excel';
+
+export type KPIMeasurementAuditAction = 'created' | 'updated' | 'deleted';
+
+export interface KPIMeasurement {
+  id: string;
+  hospital_id: string;
+  kpi_id: string;
+  month: string;                    // YYYY-MM
+  numerator_value: number;
+  denominator_value: number;
+  value: number;                    // computed from the KPI formula
+  target: number;
+  department: string | null;        // responsible department
+  remarks: string | null;
+  source: KPIMeasurementSource;
+  entered_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Append-only record of every change to a measurement
+export interface KPIMeasurementAuditEntry {
+  id: string;
+  measurement_id: string | null;
+  hospital_id: string;
+  kpi_id: string;
+  month: string;
+  action: KPIMeasurementAuditAction;
+  old_numerator: number | null;
+  old_denominator: number | null;
+  old_value: number | null;
+  new_numerator: number | null;
+  new_denominator: number | null;
+  new_value: number | null;
+  source: KPIMeasurementSource;
+  changed_by: string;                  // signed-in app user, set by the database trigger
+  changed_by_id: string | null;        // auth user id
+  reason: string | null;
+  created_at: string;
+}
+
+export interface KPIMeasurementInput {
+  kpiId: string;
+  month: string;
+  numerator: number;
+  denominator: number;
+  department?: string;
+  remarks?: string;
+}
+
+// One parsed row of an Excel import, with its validation error if any
+export interface KPIImportRow {
+  rowNumber: number;
+  input: KPIMeasurementInput | null;
+  value: number | null;
+  error: string | null;
+}
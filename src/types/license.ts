@@ -0,0 +1,52 @@
+/**
+ * License Types
+ * Licenses and statutory certificates held by a hospital
+ */
+
+// Database row of the licenses table
+export interface LicenseDB {
+  id: string;
+  name: string;
+  category: string;
+  license_number: string | null;
+  issuing_authority: string | null;
+  issue_date: string | null;
+  expiry_date: string | null;
+  validity_period: string | null;
+  status: string;
+  description: string | null;
+  attached_document: string | null;
+  renewal_process: string | null;
+  responsible_person: string | null;
+  reminder_days: number;
+  last_renewal_date: string | null;
+  renewal_cost: string | null;
+  documents_link: string | null;
+  hospital_id: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface License {
+  id: string;
+  name: string;
+  category: 'Medical' | 'Fire Safety' | 'Environmental' | 'Building' | 'Business' | 'Equipment' | 'Professional' | 'Other';
+  licenseNumber: string;
+  issuingAuthority: string;
+  issueDate: string;
+  expiryDate: string;
+  validityPeriod: string; // e.g., "5 Years", "Annual", "Permanent"
+  status: 'Valid' | 'Expiring Soon' | 'Expired' | 'Under Renewal';
+  description: string;
+  attachedDocument?: string;
+  renewalProcess: string;
+  responsiblePerson: string;
+  reminderDays: number; // Days before expiry to send reminder
+  lastRenewalDate?: string;
+  renewalCost?: string;
+  documentsLink?: string; // Google Docs/Sheets link
+  hospitalId: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,51 @@
+/**
+ * License Renewal Types
+ * Renewal task opened for a license when its reminder window starts: checklist steps
+ * from the license's renewal process, the renewed certificate and escalating reminders
+ */
+
+export type LicenseRenewalStatus = 'Open' | 'Completed' | 'Cancelled';
+
+// 1 = responsible person, 2 = NABH coordinator
+export type LicenseEscalationLevel = 1 | 2;
+
+export interface LicenseRenewalStep {
+  step: string;
+  done: boolean;
+  done_date: string | null;
+  done_by: string | null;
+}
+
+export interface LicenseRenewal {
+  id: string;
+  hospital_id: string;
+  license_id: string;
+  license_name: string;
+  expiry_date: string;                 // expiry being renewed
+  opened_on: string;                   // expiry_date - reminder days
+  responsible_person: string | null;
+  status: LicenseRenewalStatus;
+  steps: LicenseRenewalStep[];
+  reminder_interval_days: number;      // repeat reminders at this interval
+  escalation_days: number;             // escalate to the NABH coordinator this many days before expiry
+  last_reminded_at: string | null;
+  last_escalation_level: LicenseEscalationLevel | null;
+  certificate_url: string | null;
+  renewal_cost: number | null;
+  new_license_number: string | null;
+  new_issue_date: string | null;
+  new_expiry_date: string | null;
+  completed_date: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LicenseRenewalInput = Omit<LicenseRenewal, 'id' | 'created_at' | 'updated_at'>;
+
+export interface LicenseRenewalReminder {
+  level: LicenseEscalationLevel;
+  recipient: string;
+  title: string;
+  message: string;
+}
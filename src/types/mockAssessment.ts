@@ -0,0 +1,72 @@
+/**
+ * Mock NABH Assessment Types
+ * Element-level scoring on the NABH 0/5/10 scale and dated assessment runs
+ */
+
+import type { ElementCategory } from './nabh';
+
+// NABH scoring scale: 0 = Not compliant, 5 = Partially compliant, 10 = Fully compliant
+export type ElementScore = 0 | 5 | 10;
+
+export interface ElementAssessment {
+  objectiveCode: string;
+  title: string;
+  chapterCode: string;
+  category: ElementCategory;
+  isCore: boolean;
+  score: ElementScore;
+  hasDocumentation: boolean;      // SOP uploaded or generated policy/register
+  hasImplementation: boolean;     // Uploaded evidence files or visual/register evidence
+  hasAuditorReadyEvidence: boolean;
+  findings: string[];             // Assessor-style gaps that held the score back
+}
+
+export interface ChapterAssessment {
+  chapterCode: string;
+  chapterName: string;
+  elementCount: number;
+  totalScore: number;
+  maxScore: number;
+  averageScore: number;           // 0-10
+  percentage: number;             // 0-100
+  fullyCompliant: number;
+  partiallyCompliant: number;
+  notCompliant: number;
+  coreElements: number;
+  coreFailures: string[];         // Core element codes that did not score 10
+  passed: boolean;
+}
+
+export interface MockAssessmentSummary {
+  elementCount: number;
+  totalScore: number;
+  maxScore: number;
+  averageScore: number;
+  percentage: number;
+  coreElements: number;
+  coreFailures: string[];
+  failedChapters: string[];
+  passed: boolean;
+}
+
+export interface MockAssessmentResult {
+  summary: MockAssessmentSummary;
+  chapters: ChapterAssessment[];
+  elements: ElementAssessment[];
+}
+
+// Saved assessment run (nabh_mock_assessments table)
+export interface MockAssessmentRun {
+  id: string;
+  hospital_id: string;
+  run_date: string;
+  assessed_by: string | null;
+  notes: string | null;
+  overall_score: number;
+  overall_percentage: number;
+  passed: boolean;
+  summary: MockAssessmentSummary;
+  chapter_results: ChapterAssessment[];
+  element_results: ElementAssessment[];
+  created_at: string;
+}
@@ -0,0 +1,102 @@
+/**
+ * MOU Types
+ * Memoranda of Understanding with partners, the service obligations each partner
+ * commits to, periodic vendor performance reviews and renewal drafts
+ */
+
+export interface DocumentLink {
+  id: string;
+  url: string;
+  title: string;
+  type: 'Google Docs' | 'Google Sheets' | 'PDF' | 'Other';
+}
+
+export interface MOU {
+  id: string;
+  title: string;
+  partnerOrganization: string;
+  category: 'Academic' | 'Corporate' | 'Government' | 'Healthcare' | 'Insurance' | 'Technology' | 'Research' | 'Other';
+  signedDate: string;
+  expiryDate: string;
+  validityPeriod: string;
+  status: 'Active' | 'Expired' | 'Under Renewal' | 'Terminated' | 'Draft';
+  purpose: string;
+  keyBenefits: string[];
+  responsiblePerson: string;
+  partnerContact: string;
+  documentLinks: DocumentLink[];
+  renewalRequired: boolean;
+  financialImplications?: string;
+  complianceRequirements: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MOUObligationUnit = 'minutes' | 'hours' | 'days' | '%' | 'count';
+
+// 'max' = actual must not exceed the target (turnaround, response time);
+// 'min' = actual must reach the target (pickups done, uptime %)
+export type MOUObligationDirection = 'max' | 'min';
+
+export type MOUReviewFrequency = 'Monthly' | 'Quarterly' | 'Half-yearly' | 'Yearly';
+
+export interface MOUObligation {
+  id: string;
+  mou_id: string;
+  description: string;                 // e.g. "Routine lab report turnaround"
+  target: number;
+  unit: MOUObligationUnit;
+  direction: MOUObligationDirection;
+  review_frequency: MOUReviewFrequency;
+  weight: number;                      // relative weight in the review score
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MOUObligationInput = Omit<MOUObligation, 'id' | 'created_at' | 'updated_at'>;
+
+// Obligation terms are copied into the review so later edits do not rewrite past scores
+export interface MOUReviewScore {
+  obligation_id: string;
+  description: string;
+  target: number;
+  unit: MOUObligationUnit;
+  direction: MOUObligationDirection;
+  weight: number;
+  actual: number | null;               // null = not measured this period
+  met: boolean | null;
+  comments: string | null;
+}
+
+export type MOUReviewRating = 'Meets Terms' | 'Partially Meets' | 'Does Not Meet';
+
+export interface MOUReview {
+  id: string;
+  mou_id: string;
+  period_start: string;
+  period_end: string;
+  review_date: string;
+  reviewed_by: string;
+  scores: MOUReviewScore[];
+  overall_score: number;               // weighted % of measured obligations met
+  rating: MOUReviewRating;
+  remarks: string | null;
+  action_required: string | null;
+  created_at: string;
+}
+
+export type MOUReviewInput = Omit<MOUReview, 'id' | 'created_at'>;
+
+export type MOURenewalStage = 'Active' | 'Renewal Due' | 'Lapsing' | 'Under Renewal' | 'Expired' | 'Terminated';
+
+export interface MOURenewalDraft {
+  id: string;
+  mou_id: string;
+  letter: string;
+  addendum: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type MOURenewalDraftInput = Omit<MOURenewalDraft, 'id' | 'created_at'>;
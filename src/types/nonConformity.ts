@@ -0,0 +1,47 @@
+/**
+ * Non-Conformity (NC) Register Types
+ * NCs raised against NABH objective elements with CAPA tracking
+ */
+
+export type NCSource = 'Mock Survey' | 'Clinical Audit' | 'External Assessor' | 'Internal Audit' | 'Other';
+
+export type NCSeverity = 'Major' | 'Minor' | 'Observation';
+
+export type NCStatus = 'Open' | 'CAPA In Progress' | 'Pending Verification' | 'Closed';
+
+export type NCAgeingBucket = '0-30 days' | '31-60 days' | '61-90 days' | '90+ days';
+
+export interface NonConformity {
+  id: string;
+  hospital_id: string;
+  nc_number: string;              // e.g. NC-2026-004, assigned by the database on insert
+  objective_code: string;         // e.g. COP.4.b
+  chapter_code: string;
+  finding: string;
+  source: NCSource;
+  source_reference: string | null; // Clinical audit id, mock assessment run id, assessor report ref
+  severity: NCSeverity;
+  raised_by: string | null;
+  raised_date: string;
+
+  // CAPA
+  root_cause: string | null;
+  correction: string | null;         // Immediate fix
+  corrective_action: string | null;  // Removes the root cause
+  preventive_action: string | null;  // Stops recurrence elsewhere
+  capa_owner: string | null;         // NABH_TEAM member name
+  due_date: string | null;
+
+  // Closure & verification
+  closure_evidence: string | null;   // Link or description of evidence
+  closure_date: string | null;
+  verified_by: string | null;
+  verified_date: string | null;
+  verification_remarks: string | null;
+
+  status: NCStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NonConformityInput = Omit<NonConformity, 'id' | 'nc_number' | 'created_at' | 'updated_at'>;
@@ -0,0 +1,25 @@
+/**
+ * Notification Types
+ * In-app notifications shown in the header notification centre
+ */
+
+export type NotificationSource = 'license_renewal';
+
+export type NotificationSeverity = 'info' | 'warning' | 'error';
+
+export interface AppNotification {
+  id: string;
+  hospital_id: string;
+  source: NotificationSource;
+  reference_id: string;
+  recipient: string;                   // NABH_TEAM member name (app_users.team_member_name)
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  link: string | null;                 // in-app path opened from the notification
+  read_at: string | null;
+  sent_on: string;                     // day of the reminder run
+  created_at: string;
+}
+
+export type AppNotificationInput = Omit<AppNotification, 'id' | 'read_at' | 'created_at'>;
@@ -0,0 +1,62 @@
+/**
+ * Patient Sample Types
+ * Reproducible random / stratified samples of patient files for audits and KPI data collection
+ */
+
+import type { PatientStatus } from './patient';
+
+export type PatientSamplingMethod = 'random' | 'stratified';
+
+export type PatientStratifyBy = 'month' | 'diagnosis' | 'status';
+
+export type PatientSamplePurpose = 'clinical_audit' | 'kpi';
+
+export interface PatientSamplingOptions {
+  method: PatientSamplingMethod;
+  stratifyBy?: PatientStratifyBy;
+  size?: number;               // number of files; takes precedence over percentage
+  percentage?: number;         // % of the population
+  seed: string;                // same seed + same population = same sample
+  fromDate?: string;           // admission date range (YYYY-MM-DD)
+  toDate?: string;
+  status?: PatientStatus;
+}
+
+export interface PatientSampleEntry {
+  visit_id: string;
+  patient_name: string;
+  stratum: string | null;
+}
+
+export interface PatientSampleStratum {
+  stratum: string;
+  population: number;
+  sample: number;
+}
+
+export interface PatientSampleDraw {
+  populationSize: number;
+  sampleSize: number;
+  entries: PatientSampleEntry[];
+  strata: PatientSampleStratum[];
+  methodology: string;
+}
+
+export interface PatientSample {
+  id: string;
+  purpose: PatientSamplePurpose;
+  reference_id: string;        // ClinicalAudit.id or KPIDefinition.id
+  method: PatientSamplingMethod;
+  stratify_by: PatientStratifyBy | null;
+  seed: string;
+  filters: Pick<PatientSamplingOptions, 'fromDate' | 'toDate' | 'status'>;
+  population_size: number;
+  sample_size: number;
+  entries: PatientSampleEntry[];
+  strata: PatientSampleStratum[];
+  methodology: string;
+  drawn_by: string | null;
+  created_at: string;
+}
+
+export type PatientSampleInput = Omit<PatientSample, 'id' | 'created_at'>;
@@ -0,0 +1,132 @@
+/**
+ * Prompt Library Types
+ * Versioned prompt templates with typed variables, the features they are pinned to,
+ * and test runs of prompt versions against saved sets of objective elements
+ */
+
+import type { AIFeature } from './aiGateway';
+
+export type PromptVariableType = 'text' | 'multiline' | 'number' | 'boolean' | 'list' | 'json';
+
+// Where the test harness takes a variable's value from for each objective element
+export type PromptVariableBinding =
+  | 'objective.code'
+  | 'objective.title'
+  | 'objective.description'
+  | 'objective.interpretation'
+  | 'objective.evidencesList'
+  | 'chapter.code'
+  | 'chapter.name';
+
+export interface PromptVariable {
+  name: string;                        // used in the body as {{name}}
+  label: string;
+  type: PromptVariableType;
+  required: boolean;
+  description?: string;
+  binding?: PromptVariableBinding;
+  sample?: string;                     // value used by the test harness when not bound
+}
+
+// Value passed for a variable; lists render one item per line, json is pretty-printed
+export type PromptValue = string | number | boolean | string[] | object | null | undefined;
+export type PromptValues = Record<string, PromptValue>;
+
+// Production features whose prompt comes from the library
+export type PromptUsage = 'sop-from-content' | 'evidence-from-documents' | 'kpi-edit';
+
+// Row of the prompt_templates table; built-in templates exist in code and get a row once
+// they are pinned or their settings change
+export interface PromptTemplate {
+  id: string;                          // slug, e.g. 'sop-from-content'
+  name: string;
+  description: string;
+  category: string;
+  usage: PromptUsage | null;
+  ai_feature: AIFeature;
+  variables: PromptVariable[];
+  pinned_version: number | null;       // null: built-in version 1, or the latest for custom templates
+  is_builtin: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Row of the prompt_versions table; versions are never edited, a change is a new version
+export interface PromptVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  body: string;
+  notes: string;
+  temperature: number;
+  max_tokens: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface PromptVersionInput {
+  template_id: string;
+  version: number;
+  body: string;
+  notes: string;
+  temperature: number;
+  max_tokens: number;
+  created_by: string | null;
+}
+
+// Row of the prompt_test_sets table: objective elements a prompt is evaluated against
+export interface PromptTestSet {
+  id: string;
+  name: string;
+  objective_codes: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Row of the prompt_test_runs table: one output of one version for one objective element
+export interface PromptTestRun {
+  id: string;
+  template_id: string;
+  version: number;
+  test_set_id: string;
+  objective_code: string;
+  rendered_prompt: string;
+  output: string;
+  error: string | null;
+  provider: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  latency_ms: number;
+  rating: number | null;               // 1-5, set by the reviewer
+  created_at: string;
+}
+
+export type PromptTestRunInput = Omit<PromptTestRun, 'id' | 'created_at' | 'rating'>;
+
+export interface PromptVersionScore {
+  version: number;
+  runs: number;
+  rated: number;
+  averageRating: number | null;
+  wins: number;                        // objectives where this version was rated higher
+  averageCostUsd: number;
+  averageLatencyMs: number;
+}
+
+// Side-by-side comparison of two versions over the same objective elements
+export interface PromptABResult {
+  a: PromptVersionScore;
+  b: PromptVersionScore;
+  ties: number;
+  compared: number;                    // objectives with a rated run of both versions
+}
+
+export interface ResolvedPrompt {
+  prompt: string;
+  version: number;
+  feature: AIFeature;
+  temperature: number;
+  maxTokens: number;
+}
@@ -3,6 +3,8 @@
  * For storing and managing hospital SOPs linked to NABH chapters
  */
 
+import type { SOPApprovalStage } from './sopApproval';
+
 export interface SOPDocument {
   id: string;
   chapter_code: string; // AAC, COP, MOM, etc.
@@ -19,6 +21,7 @@ export interface SOPDocument {
   department?: string;
   author?: string;
   status: 'Draft' | 'Active' | 'Under Review' | 'Archived';
+  approval_stage?: SOPApprovalStage; // only Approved/Issued SOPs may be shared or made Active
   tags?: string[];
   is_public: boolean; // Whether it can be shared via public URL
   created_at: string;
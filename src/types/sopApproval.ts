@@ -0,0 +1,30 @@
+/**
+ * SOP Approval Workflow Types
+ * Draft → Prepared → Reviewed → Approved → Issued, each step signed by a NABH_TEAM member
+ */
+
+// Draft: content changed and not yet signed by the preparer
+export type SOPApprovalStage = 'Draft' | 'Prepared' | 'Reviewed' | 'Approved' | 'Issued';
+
+// Rejected sends the document back to Draft with comments
+export type SOPApprovalAction = 'Prepared' | 'Reviewed' | 'Approved' | 'Issued' | 'Rejected';
+
+// Table that owns the document: nabh_generated_sops or nabh_sop_documents
+export type SOPApprovalDocumentType = 'generated_sop' | 'sop_document';
+
+export interface SOPApprovalEvent {
+  id: string;
+  document_type: SOPApprovalDocumentType;
+  document_id: string;
+  action: SOPApprovalAction;
+  from_stage: SOPApprovalStage;
+  to_stage: SOPApprovalStage;
+  member_name: string;
+  member_role: string;
+  member_designation: string;
+  comments: string | null;
+  created_at: string;
+}
+
+// Current sign-off per stage, shown in the approval block of the SOP header
+export type SOPApprovalSignatures = Partial<Record<Exclude<SOPApprovalAction, 'Rejected'>, SOPApprovalEvent>>;
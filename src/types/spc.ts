@@ -0,0 +1,34 @@
+/**
+ * Statistical Process Control Types
+ * Run, p, u and XmR charts for KPI series
+ */
+
+// run: median line only; p: proportions; u: rates per unit of exposure; xmr: individual values (times, ratios)
+export type SPCChartType = 'run' | 'p' | 'u' | 'xmr';
+
+export type SPCSignalRule = 'beyond_limits' | 'run' | 'trend';
+
+export interface SPCPoint {
+  month: string;
+  value: number;
+  centerLine: number;
+  ucl: number | null;               // varies per point on p and u charts
+  lcl: number | null;
+  isSignal: boolean;
+}
+
+export interface SPCSignal {
+  rule: SPCSignalRule;
+  months: string[];                 // points that make up the signal, oldest first
+  direction: 'up' | 'down';
+  description: string;
+}
+
+export interface SPCResult {
+  chartType: SPCChartType;
+  points: SPCPoint[];
+  centerLine: number;
+  signals: SPCSignal[];
+  warning: string | null;           // e.g. provisional limits from too few points
+  error: string | null;             // chart cannot be computed from this data
+}
@@ -0,0 +1,92 @@
+/**
+ * Survey Types
+ * Surveys, their questions, anonymous responses and response analytics
+ */
+
+// English is the authored language; Hindi and Marathi are stored as translations
+export type SurveyLanguage = 'en' | 'hi' | 'mr';
+export type SurveyTranslationLanguage = Exclude<SurveyLanguage, 'en'>;
+
+export interface SurveyQuestionTranslation {
+  question: string;
+  options?: string[];                // same order as the English options
+}
+
+export interface SurveyTextTranslation {
+  title: string;
+  description: string;
+}
+
+export interface SurveyQuestion {
+  id: string;
+  question: string;
+  type: 'rating' | 'multiple_choice' | 'text' | 'yes_no' | 'scale';
+  options?: string[];
+  required: boolean;
+  category?: string;
+  translations?: Partial<Record<SurveyTranslationLanguage, SurveyQuestionTranslation>>;
+}
+
+export interface Survey {
+  id: string;
+  title: string;
+  description: string;
+  type: 'patient_satisfaction' | 'staff_satisfaction' | 'feedback' | 'quality_assessment' | 'custom';
+  status: 'draft' | 'active' | 'completed';
+  questions: SurveyQuestion[];
+  targetAudience: string;
+  startDate: string;
+  endDate: string;
+  responseCount: number;
+  createdBy: string;
+  createdAt: string;
+  nabhRelevant: boolean;
+  frequency: 'one_time' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
+  translations?: Partial<Record<SurveyTranslationLanguage, SurveyTextTranslation>>;
+}
+
+export type SurveyRespondentType = 'patient' | 'staff' | 'visitor' | 'consultant';
+
+// rating: 1-5, scale: 1-10, yes_no: 'yes' | 'no', multiple_choice: English option, text: free text
+export type SurveyAnswer = number | string;
+
+// Anonymous: respondent_id is never set from the public form
+export interface SurveyResponse {
+  id: string;
+  survey_id: string;
+  respondent_id: string | null;
+  respondent_type: SurveyRespondentType | null;
+  department: string | null;
+  language: SurveyLanguage | null;         // language the form was filled in
+  responses: Record<string, SurveyAnswer>;  // keyed by question id
+  submitted_at: string;
+  completion_time: number | null;           // in minutes
+}
+
+export type SurveyResponseInput = Pick<SurveyResponse, 'respondent_type' | 'department' | 'language' | 'responses' | 'completion_time'>;
+
+export interface SurveyQuestionStats {
+  questionId: string;
+  question: string;
+  type: SurveyQuestion['type'];
+  category: string;
+  answered: number;
+  distribution: { label: string; count: number; percentage: number }[];
+  average: number | null;            // rating / scale questions
+  score: number | null;              // 0-100, null for unscored types
+  comments: string[];                // text questions
+}
+
+export interface SurveyGroupScore {
+  label: string;                     // department or YYYY-MM month
+  responses: number;
+  satisfactionIndex: number | null;
+}
+
+export interface SurveyAnalytics {
+  totalResponses: number;
+  satisfactionIndex: number | null;  // 0-100 across scored questions
+  questions: SurveyQuestionStats[];
+  departments: SurveyGroupScore[];
+  monthlyTrend: SurveyGroupScore[];
+}
@@ -0,0 +1,43 @@
+/**
+ * HTML Diff Tests
+ * Tests for the side-by-side SOP revision comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffHtml, htmlToDiffLines } from '../htmlDiff';
+
+describe('htmlToDiffLines', () => {
+  it('should produce one line per block and ignore styles', () => {
+    const html = '<!DOCTYPE html><html><head><style>p{color:red}</style></head><body>'
+      + '<h1>Hand Hygiene</h1><p>Wash hands &amp; dry</p><table><tr><td>Step</td><td>1</td></tr></table></body></html>';
+
+    expect(htmlToDiffLines(html)).toEqual(['Hand Hygiene', 'Wash hands & dry', 'Step | 1']);
+  });
+});
+
+describe('diffHtml', () => {
+  it('should report identical documents as equal rows', () => {
+    const rows = diffHtml('<p>A</p><p>B</p>', '<p style="color:blue">A</p><p>B</p>');
+    expect(rows.every(row => row.type === 'equal')).toBe(true);
+  });
+
+  it('should pair replaced lines and keep additions and removals apart', () => {
+    const rows = diffHtml(
+      '<p>Purpose</p><p>Old scope</p><p>Responsibility</p><p>Obsolete</p>',
+      '<p>Purpose</p><p>New scope</p><p>Responsibility</p><p>References</p><p>Annexure</p>'
+    );
+
+    expect(rows).toEqual([
+      { type: 'equal', left: 'Purpose', right: 'Purpose' },
+      { type: 'changed', left: 'Old scope', right: 'New scope' },
+      { type: 'equal', left: 'Responsibility', right: 'Responsibility' },
+      { type: 'changed', left: 'Obsolete', right: 'References' },
+      { type: 'added', left: null, right: 'Annexure' },
+    ]);
+  });
+
+  it('should show removed lines against an empty right side', () => {
+    const rows = diffHtml('<p>Keep</p><p>Drop</p>', '<p>Keep</p>');
+    expect(rows[1]).toEqual({ type: 'removed', left: 'Drop', right: null });
+  });
+});
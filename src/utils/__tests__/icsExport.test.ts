@@ -0,0 +1,73 @@
+/**
+ * iCalendar Export Tests
+ * Tests for the compliance calendar .ics feed and due-date status rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildICSCalendar } from '../icsExport';
+import { getComplianceEventStatus, getNextMeetingDate } from '../../services/complianceCalendarEngine';
+import type { ComplianceEvent } from '../../types/complianceCalendar';
+
+const makeEvent = (overrides: Partial<ComplianceEvent> = {}): ComplianceEvent => ({
+  id: 'license-1',
+  source: 'License',
+  title: 'Fire NOC expires',
+  description: 'License No: FIRE/123',
+  dueDate: '2026-12-31',
+  reminderDays: 30,
+  owner: 'Admin',
+  path: '/licenses',
+  ...overrides,
+});
+
+describe('buildICSCalendar', () => {
+  it('should create an all-day event with a reminder alarm', () => {
+    const ics = buildICSCalendar([makeEvent()], 'Hope Hospital', new Date('2026-10-19T10:00:00Z'));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:license-1@nabh-compliance-calendar');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261231');
+    expect(ics).toContain('DTEND;VALUE=DATE:20270101');
+    expect(ics).toContain('TRIGGER:-P30D');
+    expect(ics).toContain('DTSTAMP:20261019T100000Z');
+    expect(ics.trimEnd().endsWith('END:VCALENDAR')).toBe(true);
+  });
+
+  it('should escape special characters and fold long lines', () => {
+    const ics = buildICSCalendar(
+      [makeEvent({ title: 'Review; manual, v2', description: 'x'.repeat(120) })],
+      'Hope Hospital'
+    );
+
+    expect(ics).toContain('SUMMARY:[License] Review\\; manual\\, v2');
+    ics.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(75));
+  });
+});
+
+describe('getComplianceEventStatus', () => {
+  const today = new Date('2026-10-19T08:00:00Z');
+
+  it('should flag past due dates as overdue', () => {
+    expect(getComplianceEventStatus({ dueDate: '2026-10-18', reminderDays: 30 }, today)).toBe('Overdue');
+  });
+
+  it('should mark items inside the reminder window as due soon', () => {
+    expect(getComplianceEventStatus({ dueDate: '2026-10-19', reminderDays: 0 }, today)).toBe('Due Soon');
+    expect(getComplianceEventStatus({ dueDate: '2026-11-18', reminderDays: 30 }, today)).toBe('Due Soon');
+    expect(getComplianceEventStatus({ dueDate: '2026-11-19', reminderDays: 30 }, today)).toBe('Upcoming');
+  });
+});
+
+describe('getNextMeetingDate', () => {
+  it('should prefer the next meeting date from the minutes', () => {
+    expect(getNextMeetingDate({ meeting_date: '2026-09-01', next_meeting_date: '2026-10-05' }, 'Monthly')).toBe('2026-10-05');
+  });
+
+  it('should roll forward from the last meeting by frequency', () => {
+    expect(getNextMeetingDate({ meeting_date: '2026-07-01', next_meeting_date: null }, 'Quarterly')).toBe('2026-09-29');
+  });
+
+  it('should make committees that never met due today', () => {
+    expect(getNextMeetingDate(undefined, 'Monthly', new Date('2026-10-19T08:00:00Z'))).toBe('2026-10-19');
+  });
+});
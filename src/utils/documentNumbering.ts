@@ -4,20 +4,31 @@
  */
 
 /**
- * Generates a document number based on the objective code
- * Format: DOC-{CHAPTER}-{SEQUENTIAL}
- * Example: COP.1 → DOC-COP-001
+ * Extracts the chapter code from an objective code
+ * Example: "COP.1.a" → "COP"
  */
-export function generateDocumentNumber(objectiveCode: string): string {
-  // Extract chapter code from objective (e.g., "COP.1" → "COP")
-  const chapterCode = objectiveCode.split('.')[0].toUpperCase();
+export function getChapterCode(objectiveCode: string): string {
+  return objectiveCode.split('.')[0].trim().toUpperCase() || 'GEN';
+}
 
-  // Generate a sequential number based on timestamp (last 3 digits)
-  // In production, this should be fetched from database for true sequential numbering
-  const timestamp = Date.now();
-  const sequential = String(timestamp % 1000).padStart(3, '0');
+/**
+ * Formats a document number from its registry parts
+ * Format: {TYPE}-{CHAPTER}-{SEQUENTIAL}
+ * Example: ('FRM', 'HIC', 14) → FRM-HIC-014
+ *
+ * Sequence numbers are allocated by the document registry
+ * (see services/documentRegistryStorage.ts), never generated locally.
+ */
+export function formatDocumentNumber(docType: string, chapterCode: string, sequence: number): string {
+  return `${docType}-${chapterCode.toUpperCase()}-${String(sequence).padStart(3, '0')}`;
+}
 
-  return `DOC-${chapterCode}-${sequential}`;
+/**
+ * Placeholder shown on a document when no number could be allocated
+ * Example: COP.1 → DOC-COP-DRAFT
+ */
+export function getDraftDocumentNumber(objectiveCode: string, docType: string = 'DOC'): string {
+  return `${docType}-${getChapterCode(objectiveCode)}-DRAFT`;
 }
 
 /**
@@ -0,0 +1,95 @@
+/**
+ * Side-by-side diff of two HTML documents.
+ * Documents are reduced to one line of text per block element (paragraph,
+ * heading, list item, table row) and compared with a longest common
+ * subsequence, so styling-only changes do not show up as differences.
+ */
+
+export type DiffRowType = 'equal' | 'added' | 'removed' | 'changed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+const BLOCK_TAGS = 'p|div|h[1-6]|li|tr|table|thead|tbody|ul|ol|section|header|footer|blockquote|pre';
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&');
+
+/**
+ * Reduce HTML to the text lines that are compared
+ */
+export function htmlToDiffLines(html: string): string[] {
+  if (!html) return [];
+
+  const text = html
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(new RegExp(`</?(${BLOCK_TAGS})(\\s[^>]*)?>`, 'gi'), '\n')
+    .replace(/<[^>]*>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').replace(/(\s*\|\s*)+$/, '').trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Line diff between two HTML documents, paired for side-by-side display.
+ * A removal directly followed by an addition is shown as one changed row.
+ */
+export function diffHtml(oldHtml: string, newHtml: string): DiffRow[] {
+  const a = htmlToDiffLines(oldHtml);
+  const b = htmlToDiffLines(newHtml);
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.max(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'equal', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
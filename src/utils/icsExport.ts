@@ -0,0 +1,84 @@
+import type { ComplianceEvent } from '../types/complianceCalendar';
+
+// RFC 5545 text escaping
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are folded with a leading space
+const foldLine = (line: string): string => {
+  if (line.length <= 75) return line;
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(' ' + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+const toICSDate = (isoDate: string): string => isoDate.replace(/-/g, '');
+
+const nextDay = (isoDate: string): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split('T')[0];
+};
+
+const toICSTimestamp = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+/**
+ * Build an iCalendar feed with one all-day event per obligation.
+ * Each event carries a display alarm at its reminder window.
+ */
+export function buildICSCalendar(events: ComplianceEvent[], calendarName: string, now: Date = new Date()): string {
+  const stamp = toICSTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NABH Evidence Creator//Compliance Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  events.forEach(event => {
+    const description = [event.description, event.owner ? `Responsible: ${event.owner}` : '']
+      .filter(Boolean)
+      .join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@nabh-compliance-calendar`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICSDate(event.dueDate)}`,
+      `DTEND;VALUE=DATE:${toICSDate(nextDay(event.dueDate))}`,
+      `SUMMARY:${escapeText(`[${event.source}] ${event.title}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${escapeText(event.source)}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-P${Math.max(event.reminderDays, 0)}D`,
+      'END:VALARM',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function downloadICSCalendar(content: string, fileName: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
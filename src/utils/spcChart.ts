@@ -0,0 +1,181 @@
+/**
+ * SPC Chart Drawing
+ * Renders run, p, u and XmR charts with control limits and numbered signal annotations
+ */
+
+import type { KPIDefinition } from '../data/kpiData';
+import { SPC_CHART_LABELS } from '../services/spcEngine';
+import type { SPCResult } from '../types/spc';
+
+const COLORS = {
+  grid: '#E2E8F0',
+  axis: '#64748B',
+  title: '#1E293B',
+  line: '#1565C0',
+  center: '#2E7D32',
+  limit: '#D32F2F',
+  target: '#F57C00',
+  signal: '#D32F2F',
+};
+
+/**
+ * Draw an SPC result on a canvas already sized (and scaled) by the caller.
+ * Points that belong to a signal are drawn red and numbered by their first
+ * signal, matching the order of result.signals.
+ */
+export function drawSPCChart(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  kpi: KPIDefinition,
+  result: SPCResult
+): void {
+  const { points } = result;
+  if (points.length === 0) return;
+
+  const padding = { top: 40, right: 90, bottom: 60, left: 60 };
+  const chartWidth = width - padding.left - padding.right;
+  const chartHeight = height - padding.top - padding.bottom;
+
+  ctx.clearRect(0, 0, width, height);
+
+  const allValues = [
+    ...points.map(p => p.value),
+    ...points.flatMap(p => [p.ucl, p.lcl].filter((v): v is number => v !== null)),
+    result.centerLine,
+    kpi.suggestedTarget,
+  ];
+  const span = Math.max(...allValues) - Math.min(...allValues) || 1;
+  const minValue = Math.max(0, Math.min(...allValues) - span * 0.1);
+  const maxValue = Math.max(...allValues) + span * 0.1;
+
+  const xAt = (i: number) => padding.left + i * (chartWidth / (points.length - 1 || 1));
+  const yAt = (value: number) => padding.top + chartHeight - ((value - minValue) / (maxValue - minValue)) * chartHeight;
+
+  // Grid and Y-axis labels
+  ctx.strokeStyle = COLORS.grid;
+  ctx.lineWidth = 1;
+  const gridLines = 5;
+  for (let i = 0; i <= gridLines; i++) {
+    const y = padding.top + (chartHeight * i / gridLines);
+    ctx.beginPath();
+    ctx.moveTo(padding.left, y);
+    ctx.lineTo(width - padding.right, y);
+    ctx.stroke();
+
+    ctx.fillStyle = COLORS.axis;
+    ctx.font = '12px Inter, sans-serif';
+    ctx.textAlign = 'right';
+    ctx.fillText((maxValue - ((maxValue - minValue) * i / gridLines)).toFixed(1), padding.left - 10, y + 4);
+  }
+
+  const labelLine = (text: string, value: number, color: string) => {
+    ctx.fillStyle = color;
+    ctx.font = 'bold 11px Inter, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText(text, width - padding.right + 5, yAt(value) + 4);
+  };
+
+  // Control limits (stepped where they vary by denominator)
+  const drawLimit = (key: 'ucl' | 'lcl') => {
+    if (points[0][key] === null) return;
+    ctx.strokeStyle = COLORS.limit;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      const half = chartWidth / (points.length - 1 || 1) / 2;
+      const left = i === 0 ? xAt(0) : xAt(i) - half;
+      const right = i === points.length - 1 ? xAt(i) : xAt(i) + half;
+      const y = yAt(p[key]!);
+      if (i === 0) ctx.moveTo(left, y);
+      else ctx.lineTo(left, y);
+      ctx.lineTo(right, y);
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+    const last = points[points.length - 1][key]!;
+    labelLine(`${key.toUpperCase()}: ${last}`, last, COLORS.limit);
+  };
+  drawLimit('ucl');
+  drawLimit('lcl');
+
+  // Centre line
+  ctx.strokeStyle = COLORS.center;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(padding.left, yAt(result.centerLine));
+  ctx.lineTo(width - padding.right, yAt(result.centerLine));
+  ctx.stroke();
+  labelLine(`${result.chartType === 'run' ? 'Median' : 'CL'}: ${result.centerLine}`, result.centerLine, COLORS.center);
+
+  // Target
+  ctx.strokeStyle = COLORS.target;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([2, 3]);
+  ctx.beginPath();
+  ctx.moveTo(padding.left, yAt(kpi.suggestedTarget));
+  ctx.lineTo(width - padding.right, yAt(kpi.suggestedTarget));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Data line
+  ctx.strokeStyle = COLORS.line;
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  points.forEach((p, i) => {
+    if (i === 0) ctx.moveTo(xAt(i), yAt(p.value));
+    else ctx.lineTo(xAt(i), yAt(p.value));
+  });
+  ctx.stroke();
+
+  // Points, annotations and month labels
+  const signalNumber = new Map<string, number>();
+  result.signals.forEach((signal, index) => {
+    signal.months.forEach(month => {
+      if (!signalNumber.has(month)) signalNumber.set(month, index + 1);
+    });
+  });
+
+  points.forEach((p, i) => {
+    const x = xAt(i);
+    const y = yAt(p.value);
+
+    ctx.beginPath();
+    ctx.arc(x, y, p.isSignal ? 6 : 4, 0, Math.PI * 2);
+    ctx.fillStyle = p.isSignal ? COLORS.signal : COLORS.line;
+    ctx.fill();
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    const number = signalNumber.get(p.month);
+    if (number !== undefined) {
+      ctx.fillStyle = COLORS.signal;
+      ctx.font = 'bold 10px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(String(number), x, y - 10);
+    }
+
+    ctx.fillStyle = COLORS.axis;
+    ctx.font = '11px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    const monthLabel = new Date(p.month + '-01').toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+    ctx.fillText(monthLabel, x, height - padding.bottom + 20);
+  });
+
+  // Title and unit
+  ctx.fillStyle = COLORS.title;
+  ctx.font = 'bold 14px Inter, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(`${kpi.shortName} - ${SPC_CHART_LABELS[result.chartType]}`, width / 2, 20);
+
+  ctx.fillStyle = COLORS.axis;
+  ctx.font = '12px Inter, sans-serif';
+  ctx.save();
+  ctx.translate(15, height / 2);
+  ctx.rotate(-Math.PI / 2);
+  ctx.fillText(kpi.unit, 0, 0);
+  ctx.restore();
+}
@@ -0,0 +1,8 @@
+-- SPC chart type and special-cause signals saved with each KPI graph
+-- NABH Evidence Creator - graph history shows when a process went out of control
+
+ALTER TABLE nabh_kpi_graphs ADD COLUMN IF NOT EXISTS chart_type TEXT CHECK (chart_type IN ('run', 'p', 'u', 'xmr'));
+ALTER TABLE nabh_kpi_graphs ADD COLUMN IF NOT EXISTS spc_signals JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN nabh_kpi_graphs.chart_type IS 'SPC chart drawn (run, p, u, xmr); NULL for the plain month vs target chart';
+COMMENT ON COLUMN nabh_kpi_graphs.spc_signals IS 'Special-cause signals detected when the graph was saved (beyond limits, runs of 8, trends of 6)';
@@ -0,0 +1,32 @@
+-- Anonymous survey responses from the public survey link
+-- NABH Evidence Creator - response_count is maintained from real responses
+
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS department TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_survey_responses_submitted_at ON survey_responses(survey_id, submitted_at DESC);
+
+-- Responses are anonymous and are not edited once submitted
+DROP POLICY IF EXISTS "Allow public update on survey_responses" ON survey_responses;
+
+-- Keep surveys.response_count in step with the responses table
+CREATE OR REPLACE FUNCTION update_survey_response_count()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE surveys
+    SET response_count = (SELECT COUNT(*) FROM survey_responses WHERE survey_id = COALESCE(NEW.survey_id, OLD.survey_id))
+    WHERE id = COALESCE(NEW.survey_id, OLD.survey_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_survey_response_count ON survey_responses;
+CREATE TRIGGER trigger_survey_response_count
+    AFTER INSERT OR DELETE ON survey_responses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_survey_response_count();
+
+-- Replace the seeded counts with the real number of responses
+UPDATE surveys s
+SET response_count = (SELECT COUNT(*) FROM survey_responses r WHERE r.survey_id = s.id);
+
+COMMENT ON COLUMN survey_responses.department IS 'Department or ward chosen by the respondent; respondent_id stays NULL for anonymous responses';
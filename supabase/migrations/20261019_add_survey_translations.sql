@@ -0,0 +1,17 @@
+-- Hindi and Marathi translations for surveys
+-- NABH Evidence Creator - surveys are authored in English and translated per language
+
+-- { "hi": { "title": "...", "description": "..." }, "mr": { ... } }
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}';
+
+-- { "hi": { "question": "...", "options": ["...", "..."] }, "mr": { ... } }
+-- options are in the same order as the English options
+ALTER TABLE survey_questions ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}';
+
+-- Answers stay keyed by question id with English option values, so this is informational only
+ALTER TABLE survey_responses ADD COLUMN IF NOT EXISTS language TEXT DEFAULT 'en'
+    CHECK (language IN ('en', 'hi', 'mr'));
+
+COMMENT ON COLUMN surveys.translations IS 'Translated title and description keyed by language code (hi, mr)';
+COMMENT ON COLUMN survey_questions.translations IS 'Translated question text and options keyed by language code (hi, mr)';
+COMMENT ON COLUMN survey_responses.language IS 'Language the respondent filled the public form in';
@@ -0,0 +1,144 @@
+-- Create the app_users table holding each login's role, and restrict destructive deletes
+-- NABH Evidence Creator - role-based sign-in on top of Supabase Auth
+
+CREATE TABLE IF NOT EXISTS app_users (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'staff' CHECK (role IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff', 'assessor')),
+    team_member_name TEXT,
+    employee_id UUID REFERENCES nabh_team_members(id) ON DELETE SET NULL,
+    department TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_app_users_role ON app_users(role, is_active);
+
+-- Role of the signed-in user; SECURITY DEFINER so policies can call it without
+-- recursing into the app_users policies
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS TEXT AS $$
+    SELECT role FROM app_users WHERE id = auth.uid() AND is_active
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- NABH_TEAM member the signed-in user acts as (notification recipient, SOP signatory)
+CREATE OR REPLACE FUNCTION current_app_team_member()
+RETURNS TEXT AS $$
+    SELECT team_member_name FROM app_users WHERE id = auth.uid() AND is_active
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New sign-ups join as inactive staff with no team member or employee link, whatever the
+-- client sent; a coordinator assigns the rest. The very first login bootstraps the application
+-- as its coordinator. The lock stops two simultaneous first sign-ups both becoming coordinator.
+CREATE OR REPLACE FUNCTION prepare_new_app_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('prepare_new_app_user'));
+
+    NEW.team_member_name = NULL;
+    NEW.employee_id = NULL;
+    IF NOT EXISTS (SELECT 1 FROM app_users WHERE role = 'nabh_coordinator' AND is_active) THEN
+        NEW.role = 'nabh_coordinator';
+        NEW.is_active = true;
+    ELSE
+        NEW.role = 'staff';
+        NEW.is_active = false;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_prepare_new_app_user
+    BEFORE INSERT ON app_users
+    FOR EACH ROW
+    EXECUTE FUNCTION prepare_new_app_user();
+
+-- Enable RLS
+ALTER TABLE app_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access to app users"
+    ON app_users FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow users to create their own app user"
+    ON app_users FOR INSERT
+    TO authenticated
+    WITH CHECK (id = auth.uid());
+
+CREATE POLICY "Allow coordinators to update app users"
+    ON app_users FOR UPDATE
+    TO authenticated
+    USING (current_app_role() = 'nabh_coordinator');
+
+-- Patients: anyone may read and write, only coordinators may delete. Both earlier
+-- catch-all policies go, or the OR-ed permissive policy would still allow every delete
+DROP POLICY IF EXISTS "Allow all operations" ON nabh_patients;
+DROP POLICY IF EXISTS "Allow all actions" ON nabh_patients;
+
+CREATE POLICY "Allow public read access to patients"
+    ON nabh_patients FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to patients"
+    ON nabh_patients FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to patients"
+    ON nabh_patients FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow coordinators to delete patients"
+    ON nabh_patients FOR DELETE
+    TO authenticated
+    USING (current_app_role() = 'nabh_coordinator');
+
+-- Generated evidence: same split, deletes are coordinator-only
+DROP POLICY IF EXISTS "Allow all operations for authenticated" ON nabh_ai_generated_evidence;
+
+CREATE POLICY "Allow public read access to generated evidence"
+    ON nabh_ai_generated_evidence FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to generated evidence"
+    ON nabh_ai_generated_evidence FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to generated evidence"
+    ON nabh_ai_generated_evidence FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow coordinators to delete generated evidence"
+    ON nabh_ai_generated_evidence FOR DELETE
+    TO authenticated
+    USING (current_app_role() = 'nabh_coordinator');
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_app_users_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_app_users_updated_at
+    BEFORE UPDATE ON app_users
+    FOR EACH ROW
+    EXECUTE FUNCTION update_app_users_updated_at();
+
+-- Comment on tables
+COMMENT ON TABLE app_users IS 'Application role of each Supabase Auth login; inactive until a NABH coordinator activates it';
+COMMENT ON COLUMN app_users.team_member_name IS 'NABH_TEAM member (hospitalConfig) this login signs SOP approvals as';
+COMMENT ON COLUMN app_users.employee_id IS 'Linked row of the employees master (nabh_team_members)';
+COMMENT ON FUNCTION current_app_role() IS 'Role of the active app user behind auth.uid(), used by row level security policies';
+COMMENT ON FUNCTION current_app_team_member() IS 'Team member name of the active app user behind auth.uid(), used by row level security policies';
@@ -0,0 +1,172 @@
+-- Create the hash-chained audit log and attach it to every audited table
+-- NABH Evidence Creator - who changed which record, when, and what it was before / after
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Replaces nabh_audit_log from 001_nabh_evidence_schema.sql, which nothing ever wrote to
+DROP TABLE IF EXISTS nabh_audit_log;
+
+CREATE SEQUENCE IF NOT EXISTS audit_log_seq;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGINT PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    actor_id UUID,
+    actor_name TEXT NOT NULL DEFAULT 'Anonymous',
+    actor_email TEXT,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',
+    before_values JSONB,
+    after_values JSONB,
+    prev_hash TEXT,
+    hash TEXT NOT NULL
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred ON audit_log(occurred_at DESC);
+
+-- Text that each entry's hash covers; shared by the insert trigger and the verifier
+CREATE OR REPLACE FUNCTION audit_log_payload(entry audit_log)
+RETURNS TEXT AS $$
+    SELECT concat_ws('|',
+        entry.id,
+        to_char(entry.occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        entry.actor_id,
+        entry.actor_name,
+        entry.actor_email,
+        entry.entity_type,
+        entry.entity_id,
+        entry.action,
+        array_to_string(entry.changed_fields, ','),
+        entry.before_values::text,
+        entry.after_values::text,
+        coalesce(entry.prev_hash, '')
+    )
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Chain each new entry to the previous one. The advisory lock is held until commit, so
+-- ids are handed out in chain order even when writes arrive concurrently.
+CREATE OR REPLACE FUNCTION chain_audit_log_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('audit_log'));
+    NEW.id = nextval('audit_log_seq');
+    NEW.occurred_at = NOW();
+    SELECT hash INTO NEW.prev_hash FROM audit_log ORDER BY id DESC LIMIT 1;
+    NEW.hash = encode(digest(audit_log_payload(NEW), 'sha256'), 'hex');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE TRIGGER trigger_chain_audit_log_entry
+    BEFORE INSERT ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION chain_audit_log_entry();
+
+-- Row trigger for audited tables. Updates keep only the fields that changed so large
+-- documents are not copied on every edit; updated_at alone is not an audited change.
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+    old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+    new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+    record_id TEXT := coalesce(new_row ->> 'id', old_row ->> 'id');
+    fields TEXT[] := '{}';
+    actor UUID := auth.uid();
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        SELECT coalesce(array_agg(key ORDER BY key), '{}') INTO fields
+        FROM jsonb_each(new_row)
+        WHERE key <> 'updated_at' AND value IS DISTINCT FROM old_row -> key;
+
+        IF array_length(fields, 1) IS NULL THEN
+            RETURN NULL;
+        END IF;
+
+        SELECT jsonb_object_agg(key, old_row -> key), jsonb_object_agg(key, new_row -> key)
+        INTO old_row, new_row
+        FROM unnest(fields) AS key;
+    END IF;
+
+    INSERT INTO audit_log (actor_id, actor_name, actor_email, entity_type, entity_id, action, changed_fields, before_values, after_values)
+    VALUES (
+        actor,
+        coalesce((SELECT name FROM app_users WHERE id = actor), auth.jwt() ->> 'email', 'Anonymous'),
+        auth.jwt() ->> 'email',
+        TG_TABLE_NAME,
+        record_id,
+        TG_OP,
+        fields,
+        old_row,
+        new_row
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Attach to the tables written by the storage services and master pages; tables that
+-- were created outside the migrations are skipped when absent. Registers created by later
+-- migrations attach the trigger themselves.
+DO $$
+DECLARE
+    audited_table TEXT;
+BEGIN
+    FOREACH audited_table IN ARRAY ARRAY[
+        'nabh_chapters', 'nabh_standards', 'nabh_objective_elements', 'nabh_objective_edits',
+        'nabh_ai_generated_evidence', 'nabh_patients', 'nabh_generated_sops', 'nabh_sop_documents',
+        'nabh_kpi_graphs', 'stationery', 'stationery_items', 'nabh_team_members', 'visiting_consultants',
+        'departments', 'committees', 'committee_members', 'committee_meetings', 'surveys', 'survey_questions',
+        'licenses', 'mous', 'mou_documents', 'hospital_programs', 'clinical_audits',
+        'hospital_manuals', 'app_users'
+    ] LOOP
+        IF to_regclass('public.' || audited_table) IS NOT NULL THEN
+            EXECUTE format('DROP TRIGGER IF EXISTS trigger_audit_log ON %I', audited_table);
+            EXECUTE format(
+                'CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_log()',
+                audited_table
+            );
+        END IF;
+    END LOOP;
+END $$;
+
+-- Recompute the chain; returns the first entry whose hash or link no longer matches
+CREATE OR REPLACE FUNCTION verify_audit_chain()
+RETURNS TABLE (is_valid BOOLEAN, checked_count BIGINT, first_invalid_id BIGINT, head_hash TEXT) AS $$
+DECLARE
+    entry audit_log;
+    expected_prev TEXT := NULL;
+    checked BIGINT := 0;
+BEGIN
+    FOR entry IN SELECT * FROM audit_log ORDER BY id LOOP
+        IF entry.prev_hash IS DISTINCT FROM expected_prev
+            OR entry.hash <> encode(digest(audit_log_payload(entry), 'sha256'), 'hex') THEN
+            RETURN QUERY SELECT false, checked, entry.id, expected_prev;
+            RETURN;
+        END IF;
+        expected_prev := entry.hash;
+        checked := checked + 1;
+    END LOOP;
+    RETURN QUERY SELECT true, checked, NULL::BIGINT, expected_prev;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Enable RLS: signed-in users may read; nobody writes except the triggers above
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access to audit log"
+    ON audit_log FOR SELECT
+    TO authenticated
+    USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+-- Comment on tables
+COMMENT ON TABLE audit_log IS 'Append-only, hash-chained log of inserts, updates and deletes on audited tables';
+COMMENT ON COLUMN audit_log.changed_fields IS 'Columns changed by an update; before_values / after_values hold only these columns for updates';
+COMMENT ON COLUMN audit_log.hash IS 'SHA-256 of audit_log_payload(entry), which includes prev_hash, so editing or removing an entry breaks the chain';
+COMMENT ON FUNCTION verify_audit_chain() IS 'Walks the audit log in id order and reports the first entry whose hash or link does not match';
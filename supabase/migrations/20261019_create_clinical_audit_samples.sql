@@ -0,0 +1,70 @@
+-- Sample-level checklists for clinical audits
+-- NABH Evidence Creator - compliance is computed from Yes/No/NA answers per criterion per sample
+
+-- Re-audits link back to the audit they follow up, to show the loop being closed
+ALTER TABLE clinical_audits ADD COLUMN IF NOT EXISTS re_audit_of UUID REFERENCES clinical_audits(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_clinical_audits_re_audit_of ON clinical_audits(re_audit_of);
+
+CREATE TABLE IF NOT EXISTS clinical_audit_samples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    audit_id UUID NOT NULL REFERENCES clinical_audits(id) ON DELETE CASCADE,
+    visit_id TEXT NOT NULL,
+    patient_name TEXT,
+    -- { "<criterion>": "Yes" | "No" | "NA" }
+    answers JSONB NOT NULL DEFAULT '{}',
+    remarks TEXT,
+    reviewed_by TEXT,
+    reviewed_date DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (audit_id, visit_id)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_clinical_audit_samples_audit ON clinical_audit_samples(audit_id);
+
+-- Enable RLS
+ALTER TABLE clinical_audit_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to clinical audit samples"
+    ON clinical_audit_samples FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to clinical audit samples"
+    ON clinical_audit_samples FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to clinical audit samples"
+    ON clinical_audit_samples FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to clinical audit samples"
+    ON clinical_audit_samples FOR DELETE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_clinical_audit_samples_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_clinical_audit_samples_updated_at
+    BEFORE UPDATE ON clinical_audit_samples
+    FOR EACH ROW
+    EXECUTE FUNCTION update_clinical_audit_samples_updated_at();
+
+-- Record audit sample changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON clinical_audit_samples
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE clinical_audit_samples IS 'Samples (patient files) reviewed in a clinical audit with the checklist answer per criterion';
+COMMENT ON COLUMN clinical_audit_samples.visit_id IS 'Patient visit ID of the file audited, or another sample reference';
+COMMENT ON COLUMN clinical_audits.re_audit_of IS 'Original audit this re-audit follows up';
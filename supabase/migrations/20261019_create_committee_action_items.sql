@@ -0,0 +1,71 @@
+-- Create table for committee action items tracked across meetings
+-- NABH Evidence Creator - open action points are carried forward to the next meeting's agenda
+
+CREATE TABLE IF NOT EXISTS committee_action_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    committee_id UUID NOT NULL REFERENCES committees(id) ON DELETE CASCADE,
+    meeting_id UUID NOT NULL REFERENCES committee_meetings(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    owner_member_id TEXT,
+    owner_name TEXT,
+    owner_designation TEXT,
+    due_date DATE,
+    status TEXT NOT NULL DEFAULT 'Open'
+        CHECK (status IN ('Open', 'In Progress', 'Completed', 'Dropped')),
+    remarks TEXT,
+    closed_meeting_id UUID REFERENCES committee_meetings(id) ON DELETE SET NULL,
+    closed_date DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_committee_action_items_committee ON committee_action_items(committee_id);
+CREATE INDEX IF NOT EXISTS idx_committee_action_items_meeting ON committee_action_items(meeting_id);
+CREATE INDEX IF NOT EXISTS idx_committee_action_items_status ON committee_action_items(status);
+
+-- Enable RLS
+ALTER TABLE committee_action_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to committee action items"
+    ON committee_action_items FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to committee action items"
+    ON committee_action_items FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to committee action items"
+    ON committee_action_items FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to committee action items"
+    ON committee_action_items FOR DELETE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_committee_action_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_committee_action_items_updated_at
+    BEFORE UPDATE ON committee_action_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_committee_action_items_updated_at();
+
+-- Record action point changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON committee_action_items
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE committee_action_items IS 'Action points raised in committee meetings, with owner, due date and status';
+COMMENT ON COLUMN committee_action_items.meeting_id IS 'Meeting the action point was raised in';
+COMMENT ON COLUMN committee_action_items.closed_meeting_id IS 'Meeting at which the action point was reviewed as completed or dropped';
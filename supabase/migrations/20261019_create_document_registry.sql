@@ -0,0 +1,228 @@
+-- Create the controlled document registry with gap-free sequential numbering
+-- NABH Evidence Creator - Document Master List (IMS document control)
+
+-- One counter per hospital + document type + chapter (e.g. hope / FRM / HIC)
+CREATE TABLE IF NOT EXISTS nabh_document_counters (
+    hospital_id TEXT NOT NULL,
+    doc_type TEXT NOT NULL,
+    chapter_code TEXT NOT NULL,
+    last_sequence INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (hospital_id, doc_type, chapter_code)
+);
+
+CREATE TABLE IF NOT EXISTS nabh_document_registry (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL DEFAULT 'hope',
+    document_number TEXT NOT NULL,
+    doc_type TEXT NOT NULL CHECK (doc_type IN ('DOC', 'SOP', 'POL', 'MAN', 'FRM', 'REG')),
+    chapter_code TEXT NOT NULL,
+    sequence INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    objective_code TEXT,
+
+    -- Record that owns this number
+    owner_type TEXT NOT NULL DEFAULT 'other'
+        CHECK (owner_type IN ('generated_sop', 'sop_document', 'evidence', 'stationery', 'manual', 'other')),
+    owner_id TEXT,
+
+    version TEXT NOT NULL DEFAULT '1.0',
+    effective_date DATE,
+    review_date DATE,
+    status TEXT NOT NULL DEFAULT 'Reserved'
+        CHECK (status IN ('Reserved', 'Active', 'Superseded', 'Withdrawn')),
+    remarks TEXT,
+    allocated_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (hospital_id, document_number),
+    UNIQUE (hospital_id, doc_type, chapter_code, sequence)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_document_registry_hospital ON nabh_document_registry(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_document_registry_owner ON nabh_document_registry(owner_type, owner_id);
+CREATE INDEX IF NOT EXISTS idx_document_registry_chapter ON nabh_document_registry(chapter_code);
+
+-- Allocate the next number and register it in one transaction.
+-- The counter row is locked by the upsert, so concurrent callers queue up and
+-- a failed insert rolls the counter back: numbers are never skipped or reused.
+CREATE OR REPLACE FUNCTION allocate_document_number(
+    p_hospital_id TEXT,
+    p_doc_type TEXT,
+    p_chapter_code TEXT,
+    p_title TEXT,
+    p_owner_type TEXT DEFAULT 'other',
+    p_owner_id TEXT DEFAULT NULL,
+    p_objective_code TEXT DEFAULT NULL,
+    p_version TEXT DEFAULT '1.0',
+    p_review_date DATE DEFAULT NULL,
+    p_allocated_by TEXT DEFAULT NULL
+)
+RETURNS SETOF nabh_document_registry AS $$
+DECLARE
+    v_chapter TEXT := UPPER(p_chapter_code);
+    v_sequence INTEGER;
+BEGIN
+    INSERT INTO nabh_document_counters (hospital_id, doc_type, chapter_code, last_sequence)
+    VALUES (p_hospital_id, p_doc_type, v_chapter, 1)
+    ON CONFLICT (hospital_id, doc_type, chapter_code)
+    DO UPDATE SET last_sequence = nabh_document_counters.last_sequence + 1, updated_at = NOW()
+    RETURNING last_sequence INTO v_sequence;
+
+    RETURN QUERY
+    INSERT INTO nabh_document_registry (
+        hospital_id, document_number, doc_type, chapter_code, sequence, title,
+        objective_code, owner_type, owner_id, version, review_date, status, allocated_by
+    )
+    VALUES (
+        p_hospital_id,
+        p_doc_type || '-' || v_chapter || '-' || LPAD(v_sequence::TEXT, 3, '0'),
+        p_doc_type, v_chapter, v_sequence, p_title,
+        p_objective_code, p_owner_type, p_owner_id, p_version, p_review_date,
+        CASE WHEN p_owner_id IS NULL THEN 'Reserved' ELSE 'Active' END,
+        p_allocated_by
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE nabh_document_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nabh_document_registry ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to document counters"
+    ON nabh_document_counters FOR ALL
+    TO public
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public read access to document registry"
+    ON nabh_document_registry FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to document registry"
+    ON nabh_document_registry FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to document registry"
+    ON nabh_document_registry FOR UPDATE
+    TO public
+    USING (true);
+
+-- No delete policy: numbers are withdrawn, never removed, to keep the register gap-free
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_document_registry_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_document_registry_updated_at
+    BEFORE UPDATE ON nabh_document_registry
+    FOR EACH ROW
+    EXECUTE FUNCTION update_document_registry_updated_at();
+
+-- Number generated SOPs in the transaction that saves them: a failed insert rolls the
+-- counter and the registry entry back instead of leaving a Reserved number with no owner
+CREATE OR REPLACE FUNCTION assign_generated_sop_document_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.document_number IS NULL THEN
+        SELECT document_number INTO NEW.document_number
+        FROM allocate_document_number(
+            NEW.hospital_id, 'SOP', NEW.chapter_code, NEW.objective_title,
+            'generated_sop', NEW.id::TEXT, NEW.objective_code,
+            COALESCE(NEW.version, '1.0'), NEW.review_date, NEW.created_by
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_assign_generated_sop_document_number
+    BEFORE INSERT ON nabh_generated_sops
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_generated_sop_document_number();
+
+-- Controlled stationery is numbered the same way: registers as REG, SOPs as SOP, the
+-- rest as FRM, all under GEN. An upsert of an existing item also fires BEFORE INSERT, so
+-- only rows that are really new get a number. Deleting an item withdraws its number.
+CREATE OR REPLACE FUNCTION assign_stationery_document_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.document_number IS NULL AND NOT EXISTS (SELECT 1 FROM stationery_items WHERE id = NEW.id) THEN
+        SELECT document_number INTO NEW.document_number
+        FROM allocate_document_number(
+            COALESCE(NEW.hospital_id, 'hope'),
+            CASE NEW.category WHEN 'registers' THEN 'REG' WHEN 'sops' THEN 'SOP' ELSE 'FRM' END,
+            'GEN', NEW.name, 'stationery', NEW.id::TEXT
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION withdraw_stationery_document_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE nabh_document_registry
+    SET status = 'Withdrawn', remarks = 'Stationery item deleted'
+    WHERE owner_type = 'stationery' AND owner_id = OLD.id::TEXT AND status <> 'Withdrawn';
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Numbers registered from the master list for items that predate the registry are
+-- written onto the stationery item
+CREATE OR REPLACE FUNCTION link_stationery_document_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.owner_type = 'stationery' AND NEW.owner_id IS NOT NULL AND to_regclass('public.stationery_items') IS NOT NULL THEN
+        UPDATE stationery_items
+        SET document_number = NEW.document_number
+        WHERE id::TEXT = NEW.owner_id AND document_number IS NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_link_stationery_document_number
+    AFTER INSERT ON nabh_document_registry
+    FOR EACH ROW
+    EXECUTE FUNCTION link_stationery_document_number();
+
+-- stationery_items is created by supabase/stationery.sql, outside the migrations
+DO $$
+BEGIN
+    IF to_regclass('public.stationery_items') IS NOT NULL THEN
+        ALTER TABLE stationery_items ADD COLUMN IF NOT EXISTS document_number TEXT;
+        DROP TRIGGER IF EXISTS trigger_assign_stationery_document_number ON stationery_items;
+        CREATE TRIGGER trigger_assign_stationery_document_number
+            BEFORE INSERT ON stationery_items
+            FOR EACH ROW
+            EXECUTE FUNCTION assign_stationery_document_number();
+        DROP TRIGGER IF EXISTS trigger_withdraw_stationery_document_number ON stationery_items;
+        CREATE TRIGGER trigger_withdraw_stationery_document_number
+            AFTER DELETE ON stationery_items
+            FOR EACH ROW
+            EXECUTE FUNCTION withdraw_stationery_document_number();
+    END IF;
+END $$;
+
+-- Record document registry changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_document_registry
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_document_registry IS 'Controlled document master list: one row per allocated document number';
+COMMENT ON COLUMN nabh_document_registry.owner_id IS 'Id of the generated SOP, evidence, stationery item or manual that carries this number';
+COMMENT ON FUNCTION allocate_document_number IS 'Allocates the next gap-free DOC-COP-001 style number per hospital, type and chapter';
+COMMENT ON FUNCTION assign_generated_sop_document_number() IS 'Allocates the registry number of a generated SOP inside its insert';
+COMMENT ON FUNCTION assign_stationery_document_number() IS 'Allocates the registry number of a new stationery item inside its insert';
@@ -0,0 +1,88 @@
+-- Periodic document review scheduler
+-- NABH Evidence Creator - review tasks for SOPs, manuals and document-level items
+
+-- Document-level items had no review date; blank means one year after the effective date
+ALTER TABLE nabh_document_levels ADD COLUMN IF NOT EXISTS review_date DATE;
+
+-- Reviewable sources had no hospital; existing documents belong to the default hospital
+ALTER TABLE nabh_generated_sops ADD COLUMN IF NOT EXISTS hospital_id TEXT NOT NULL DEFAULT 'hope';
+ALTER TABLE nabh_sop_documents ADD COLUMN IF NOT EXISTS hospital_id TEXT NOT NULL DEFAULT 'hope';
+ALTER TABLE nabh_document_levels ADD COLUMN IF NOT EXISTS hospital_id TEXT NOT NULL DEFAULT 'hope';
+
+CREATE TABLE IF NOT EXISTS nabh_document_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL DEFAULT 'hope',
+    document_type TEXT NOT NULL
+        CHECK (document_type IN ('generated_sop', 'sop_document', 'manual', 'document_level')),
+    document_id TEXT NOT NULL,
+    document_title TEXT NOT NULL,
+    due_date DATE NOT NULL,
+
+    -- Assignment
+    reviewer TEXT,
+    assigned_by TEXT,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+
+    -- Outcome
+    status TEXT NOT NULL DEFAULT 'Assigned'
+        CHECK (status IN ('Assigned', 'In Revision', 'Completed')),
+    outcome TEXT CHECK (outcome IN ('No Change', 'Revised')),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    next_review_date DATE,
+    remarks TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_document_reviews_hospital ON nabh_document_reviews(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_document_reviews_document ON nabh_document_reviews(document_type, document_id);
+CREATE INDEX IF NOT EXISTS idx_generated_sops_hospital ON nabh_generated_sops(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_sop_documents_hospital ON nabh_sop_documents(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_document_levels_hospital ON nabh_document_levels(hospital_id);
+
+-- At most one open review per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_reviews_open
+    ON nabh_document_reviews(hospital_id, document_type, document_id)
+    WHERE status <> 'Completed';
+
+-- Enable RLS
+ALTER TABLE nabh_document_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to document reviews"
+    ON nabh_document_reviews FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to document reviews"
+    ON nabh_document_reviews FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to document reviews"
+    ON nabh_document_reviews FOR UPDATE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_document_reviews_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_document_reviews_updated_at
+    BEFORE UPDATE ON nabh_document_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_document_reviews_updated_at();
+
+-- Record document review changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_document_reviews
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_document_reviews IS 'Periodic review tasks: reviewer assignment and outcome (no change / revised) per document';
+COMMENT ON COLUMN nabh_document_reviews.next_review_date IS 'Review date written back to the document when the review was completed';
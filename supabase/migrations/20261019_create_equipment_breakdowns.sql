@@ -0,0 +1,70 @@
+-- Create table for the equipment breakdown log
+-- NABH Evidence Creator - downtime / uptime per equipment for the monthly FMS downtime report
+
+CREATE TABLE IF NOT EXISTS equipment_breakdowns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL,
+    equipment_id TEXT NOT NULL,
+    equipment_tag TEXT NOT NULL,
+    equipment_name TEXT NOT NULL,
+    reported_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reported_by TEXT NOT NULL,
+    fault_description TEXT NOT NULL,
+    vendor TEXT,
+    vendor_called_at TIMESTAMP WITH TIME ZONE,
+    restored_at TIMESTAMP WITH TIME ZONE,
+    action_taken TEXT,
+    repair_cost NUMERIC(12, 2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (restored_at IS NULL OR restored_at >= reported_at)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_equipment_breakdowns_hospital ON equipment_breakdowns(hospital_id, reported_at);
+CREATE INDEX IF NOT EXISTS idx_equipment_breakdowns_equipment ON equipment_breakdowns(equipment_id);
+
+-- Enable RLS
+ALTER TABLE equipment_breakdowns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to equipment breakdowns"
+    ON equipment_breakdowns FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to equipment breakdowns"
+    ON equipment_breakdowns FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to equipment breakdowns"
+    ON equipment_breakdowns FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to equipment breakdowns"
+    ON equipment_breakdowns FOR DELETE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_equipment_breakdowns_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_equipment_breakdowns_updated_at
+    BEFORE UPDATE ON equipment_breakdowns
+    FOR EACH ROW
+    EXECUTE FUNCTION update_equipment_breakdowns_updated_at();
+
+-- Record breakdown changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON equipment_breakdowns
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE equipment_breakdowns IS 'Equipment breakdowns from report to restoration, with vendor call time and repair cost';
+COMMENT ON COLUMN equipment_breakdowns.restored_at IS 'When the equipment was back in service; NULL while it is still down';
@@ -0,0 +1,156 @@
+-- Calibration / preventive maintenance schedules and job cards for equipment
+-- NABH Evidence Creator - completed job cards form the service history of each equipment tag (FMS)
+
+CREATE TABLE IF NOT EXISTS equipment_service_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL,
+    equipment_id TEXT NOT NULL,
+    equipment_tag TEXT NOT NULL,
+    service_type TEXT NOT NULL CHECK (service_type IN ('Calibration', 'Preventive Maintenance')),
+    frequency TEXT NOT NULL CHECK (frequency IN ('Monthly', 'Quarterly', 'Half-Yearly', 'Yearly', 'As Required')),
+    last_done_date DATE,
+    next_due_date DATE,
+    vendor TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (hospital_id, equipment_tag, service_type)
+);
+
+CREATE TABLE IF NOT EXISTS equipment_job_cards (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL,
+    schedule_id UUID NOT NULL REFERENCES equipment_service_schedules(id) ON DELETE CASCADE,
+    job_number TEXT NOT NULL,
+    equipment_id TEXT NOT NULL,
+    equipment_tag TEXT NOT NULL,
+    equipment_name TEXT NOT NULL,
+    service_type TEXT NOT NULL CHECK (service_type IN ('Calibration', 'Preventive Maintenance')),
+    due_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Completed', 'Cancelled')),
+    assigned_to TEXT,
+    completed_date DATE,
+    performed_by TEXT,
+    certificate_number TEXT,
+    notes TEXT,
+    next_due_date DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (hospital_id, job_number)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_equipment_service_schedules_hospital ON equipment_service_schedules(hospital_id, next_due_date);
+CREATE INDEX IF NOT EXISTS idx_equipment_job_cards_hospital ON equipment_job_cards(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_equipment_job_cards_tag ON equipment_job_cards(equipment_tag);
+
+-- Enable RLS
+ALTER TABLE equipment_service_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE equipment_job_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to equipment service schedules"
+    ON equipment_service_schedules FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to equipment service schedules"
+    ON equipment_service_schedules FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to equipment service schedules"
+    ON equipment_service_schedules FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public read access to equipment job cards"
+    ON equipment_job_cards FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to equipment job cards"
+    ON equipment_job_cards FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to equipment job cards"
+    ON equipment_job_cards FOR UPDATE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_equipment_service_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_equipment_service_schedules_updated_at
+    BEFORE UPDATE ON equipment_service_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_equipment_service_updated_at();
+
+CREATE TRIGGER trigger_update_equipment_job_cards_updated_at
+    BEFORE UPDATE ON equipment_job_cards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_equipment_service_updated_at();
+
+-- Close a job card and roll its schedule forward in one transaction, so a card is never
+-- Completed while its schedule still shows the old due date. The next due date comes from
+-- rollScheduleForward() in equipmentServiceEngine.ts; the card row is locked so a second
+-- closure of the same card fails instead of rolling the schedule twice.
+CREATE OR REPLACE FUNCTION close_equipment_job_card(
+    p_card_id UUID,
+    p_completed_date DATE,
+    p_performed_by TEXT,
+    p_certificate_number TEXT,
+    p_notes TEXT,
+    p_next_due_date DATE
+)
+RETURNS JSON AS $$
+DECLARE
+    v_card equipment_job_cards;
+    v_schedule equipment_service_schedules;
+BEGIN
+    SELECT * INTO v_card FROM equipment_job_cards WHERE id = p_card_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Job card % not found', p_card_id;
+    END IF;
+    IF v_card.status <> 'Open' THEN
+        RAISE EXCEPTION 'Only open job cards can be closed';
+    END IF;
+
+    UPDATE equipment_job_cards
+    SET status = 'Completed',
+        completed_date = p_completed_date,
+        performed_by = p_performed_by,
+        certificate_number = p_certificate_number,
+        notes = p_notes,
+        next_due_date = p_next_due_date
+    WHERE id = p_card_id
+    RETURNING * INTO v_card;
+
+    UPDATE equipment_service_schedules
+    SET last_done_date = p_completed_date,
+        next_due_date = p_next_due_date
+    WHERE id = v_card.schedule_id
+    RETURNING * INTO v_schedule;
+
+    RETURN json_build_object('card', row_to_json(v_card), 'schedule', row_to_json(v_schedule));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record schedule and job card changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON equipment_service_schedules
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON equipment_job_cards
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE equipment_service_schedules IS 'Calibration and preventive maintenance frequency and next due date per equipment tag';
+COMMENT ON TABLE equipment_job_cards IS 'Job cards raised for due calibration / PM; completed cards are the equipment service history';
+COMMENT ON COLUMN equipment_job_cards.certificate_number IS 'Calibration certificate or service report number recorded on closure';
+COMMENT ON COLUMN equipment_job_cards.next_due_date IS 'Next due date the schedule was rolled forward to when the card was closed';
+COMMENT ON FUNCTION close_equipment_job_card IS 'Completes a job card and rolls its schedule forward atomically';
@@ -0,0 +1,82 @@
+-- Create table for KPI target breaches raised from captured KPI data
+-- NABH Evidence Creator - KPI Scorecard
+
+CREATE TABLE IF NOT EXISTS nabh_kpi_breaches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL DEFAULT 'hope',
+    kpi_id VARCHAR(50) NOT NULL,
+    kpi_number INTEGER NOT NULL,
+    kpi_name TEXT NOT NULL,
+    standard TEXT NOT NULL,
+    category TEXT NOT NULL,
+    start_month CHAR(7) NOT NULL,
+    end_month CHAR(7) NOT NULL,
+    missed_months TEXT[] NOT NULL DEFAULT '{}',
+    consecutive_months INTEGER NOT NULL CHECK (consecutive_months > 0),
+
+    -- Action plan
+    root_cause TEXT,
+    action_plan TEXT,
+    responsible_person TEXT,
+    target_date DATE,
+
+    -- Closure
+    closure_remarks TEXT,
+    closed_by TEXT,
+    closed_date DATE,
+
+    status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Action Planned', 'Closed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (hospital_id, kpi_id, start_month),
+    -- A breach cannot be closed without a documented action plan
+    CHECK (status <> 'Closed' OR (
+        root_cause IS NOT NULL AND action_plan IS NOT NULL AND responsible_person IS NOT NULL
+        AND target_date IS NOT NULL AND closed_by IS NOT NULL AND closure_remarks IS NOT NULL
+    ))
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_kpi_breaches_hospital ON nabh_kpi_breaches(hospital_id, kpi_id);
+CREATE INDEX IF NOT EXISTS idx_kpi_breaches_status ON nabh_kpi_breaches(status);
+
+-- Enable RLS
+ALTER TABLE nabh_kpi_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to KPI breaches"
+    ON nabh_kpi_breaches FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to KPI breaches"
+    ON nabh_kpi_breaches FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to KPI breaches"
+    ON nabh_kpi_breaches FOR UPDATE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_kpi_breaches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_kpi_breaches_updated_at
+    BEFORE UPDATE ON nabh_kpi_breaches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_kpi_breaches_updated_at();
+
+-- Record KPI breach changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_kpi_breaches
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_kpi_breaches IS 'KPIs that missed the hospital target for consecutive months, with action plan and closure';
+COMMENT ON COLUMN nabh_kpi_breaches.standard IS 'NABH standard the KPI is reported under, e.g. PSQ2a';
@@ -0,0 +1,193 @@
+-- KPI data capture: monthly numerators and denominators
+-- NABH Evidence Creator - replaces generated KPI values with captured data
+
+CREATE TABLE IF NOT EXISTS nabh_kpi_measurements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL DEFAULT 'hope',
+    kpi_id VARCHAR(50) NOT NULL,
+    month CHAR(7) NOT NULL CHECK (month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+    numerator_value NUMERIC NOT NULL CHECK (numerator_value >= 0),
+    denominator_value NUMERIC NOT NULL CHECK (denominator_value > 0),
+    value NUMERIC NOT NULL,
+    target NUMERIC NOT NULL,
+    department TEXT,
+    remarks TEXT,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'excel')),
+    entered_by TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (hospital_id, kpi_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_measurements_hospital ON nabh_kpi_measurements(hospital_id, kpi_id, month);
+
+CREATE TABLE IF NOT EXISTS nabh_kpi_measurement_audit (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    measurement_id UUID REFERENCES nabh_kpi_measurements(id) ON DELETE SET NULL,
+    hospital_id TEXT NOT NULL,
+    kpi_id VARCHAR(50) NOT NULL,
+    month CHAR(7) NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+    old_numerator NUMERIC,
+    old_denominator NUMERIC,
+    old_value NUMERIC,
+    new_numerator NUMERIC,
+    new_denominator NUMERIC,
+    new_value NUMERIC,
+    source TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    changed_by_id UUID,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_measurement_audit_hospital ON nabh_kpi_measurement_audit(hospital_id, kpi_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE nabh_kpi_measurements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nabh_kpi_measurement_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to KPI measurements"
+    ON nabh_kpi_measurements FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to KPI measurements"
+    ON nabh_kpi_measurements FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to KPI measurements"
+    ON nabh_kpi_measurements FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to KPI measurements"
+    ON nabh_kpi_measurements FOR DELETE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public read access to KPI measurement audit"
+    ON nabh_kpi_measurement_audit FOR SELECT
+    TO public
+    USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON nabh_kpi_measurement_audit FROM anon, authenticated;
+
+-- The audit trail is append-only. measurement_id is the one column that may
+-- change, cleared by ON DELETE SET NULL when a measurement is deleted.
+CREATE OR REPLACE FUNCTION prevent_kpi_audit_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.measurement_id IS NULL AND ROW(NEW.*) IS NOT DISTINCT FROM ROW(OLD.id, NULL, OLD.hospital_id, OLD.kpi_id, OLD.month, OLD.action,
+        OLD.old_numerator, OLD.old_denominator, OLD.old_value, OLD.new_numerator, OLD.new_denominator, OLD.new_value,
+        OLD.source, OLD.changed_by, OLD.changed_by_id, OLD.reason, OLD.created_at) THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'KPI audit entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_prevent_kpi_audit_update
+    BEFORE UPDATE ON nabh_kpi_measurement_audit
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_kpi_audit_update();
+
+-- entered_by is always the signed-in user, the same name the audit trail records
+CREATE OR REPLACE FUNCTION set_kpi_measurement_entered_by()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.entered_by = coalesce((SELECT name FROM app_users WHERE id = auth.uid()), auth.jwt() ->> 'email', 'Anonymous');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_set_kpi_measurement_entered_by
+    BEFORE INSERT OR UPDATE ON nabh_kpi_measurements
+    FOR EACH ROW
+    EXECUTE FUNCTION set_kpi_measurement_entered_by();
+
+-- Write the trail in the same transaction as the change, as the signed-in user. A delete
+-- must go through delete_kpi_measurement() so that it carries a reason.
+CREATE OR REPLACE FUNCTION record_kpi_measurement_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor UUID := auth.uid();
+    measurement nabh_kpi_measurements := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+    delete_reason TEXT := NULLIF(TRIM(current_setting('app.kpi_delete_reason', true)), '');
+BEGIN
+    IF TG_OP = 'UPDATE' AND (NEW.numerator_value, NEW.denominator_value, NEW.value, NEW.department, NEW.remarks)
+        IS NOT DISTINCT FROM (OLD.numerator_value, OLD.denominator_value, OLD.value, OLD.department, OLD.remarks) THEN
+        RETURN NULL;
+    END IF;
+    IF TG_OP = 'DELETE' AND delete_reason IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to delete captured data';
+    END IF;
+
+    INSERT INTO nabh_kpi_measurement_audit (
+        measurement_id, hospital_id, kpi_id, month, action,
+        old_numerator, old_denominator, old_value, new_numerator, new_denominator, new_value,
+        source, changed_by, changed_by_id, reason
+    )
+    VALUES (
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE measurement.id END,
+        measurement.hospital_id,
+        measurement.kpi_id,
+        measurement.month,
+        CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.numerator_value END,
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.denominator_value END,
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.value END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.numerator_value END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.denominator_value END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.value END,
+        measurement.source,
+        coalesce((SELECT name FROM app_users WHERE id = actor), auth.jwt() ->> 'email', 'Anonymous'),
+        actor,
+        CASE WHEN TG_OP = 'DELETE' THEN delete_reason END
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_kpi_measurement_audit
+    AFTER INSERT OR UPDATE OR DELETE ON nabh_kpi_measurements
+    FOR EACH ROW
+    EXECUTE FUNCTION record_kpi_measurement_audit();
+
+-- Delete a measurement with the reason kept in its audit entry
+CREATE OR REPLACE FUNCTION delete_kpi_measurement(p_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM set_config('app.kpi_delete_reason', p_reason, true);
+    DELETE FROM nabh_kpi_measurements WHERE id = p_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'KPI measurement % not found', p_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_kpi_measurements_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_kpi_measurements_updated_at
+    BEFORE UPDATE ON nabh_kpi_measurements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_kpi_measurements_updated_at();
+
+-- Record KPI measurement changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_kpi_measurements
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_kpi_measurements IS 'Captured monthly KPI numerators and denominators; value is computed from the NABH formula';
+COMMENT ON TABLE nabh_kpi_measurement_audit IS 'Append-only trail of who entered, changed or deleted KPI data';
+COMMENT ON COLUMN nabh_kpi_measurement_audit.changed_by IS 'App user name (or login email) behind auth.uid(), written by record_kpi_measurement_audit()';
+COMMENT ON FUNCTION delete_kpi_measurement(UUID, TEXT) IS 'Deletes a KPI measurement; the audit trigger rejects deletes without a reason';
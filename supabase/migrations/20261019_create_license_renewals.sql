@@ -0,0 +1,114 @@
+-- Create tables for license renewal tasks and in-app notifications
+-- NABH Evidence Creator - renewal checklist per license expiry with escalating reminders
+
+CREATE TABLE IF NOT EXISTS license_renewals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL,
+    license_id UUID NOT NULL REFERENCES licenses(id) ON DELETE CASCADE,
+    license_name TEXT NOT NULL,
+    expiry_date DATE NOT NULL,
+    opened_on DATE NOT NULL,
+    responsible_person TEXT,
+    status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Completed', 'Cancelled')),
+    steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reminder_interval_days INTEGER NOT NULL DEFAULT 7 CHECK (reminder_interval_days > 0),
+    escalation_days INTEGER NOT NULL DEFAULT 15 CHECK (escalation_days >= 0),
+    last_reminded_at TIMESTAMP WITH TIME ZONE,
+    last_escalation_level INTEGER CHECK (last_escalation_level IN (1, 2)),
+    certificate_url TEXT,
+    renewal_cost NUMERIC(12, 2),
+    new_license_number TEXT,
+    new_issue_date DATE,
+    new_expiry_date DATE,
+    completed_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (license_id, expiry_date)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    reference_id TEXT,
+    recipient TEXT NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('info', 'warning', 'error')),
+    link TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    sent_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (source, reference_id, recipient, sent_on)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_license_renewals_hospital ON license_renewals(hospital_id, status);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON notifications(hospital_id, recipient, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE license_renewals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to license renewals"
+    ON license_renewals FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to license renewals"
+    ON license_renewals FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to license renewals"
+    ON license_renewals FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to license renewals"
+    ON license_renewals FOR DELETE
+    TO public
+    USING (true);
+
+-- Notifications: each user sees and marks read only their own. They are created by the
+-- reminder run with the service role, so there are no insert or delete policies.
+CREATE POLICY "Allow recipients to read their notifications"
+    ON notifications FOR SELECT
+    TO authenticated
+    USING (recipient = current_app_team_member());
+
+CREATE POLICY "Allow recipients to mark their notifications read"
+    ON notifications FOR UPDATE
+    TO authenticated
+    USING (recipient = current_app_team_member())
+    WITH CHECK (recipient = current_app_team_member());
+
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_license_renewals_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_license_renewals_updated_at
+    BEFORE UPDATE ON license_renewals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_license_renewals_updated_at();
+
+-- Record renewal changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON license_renewals
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on tables
+COMMENT ON TABLE license_renewals IS 'Renewal task per license expiry: checklist, renewed certificate, cost, new validity and reminder state';
+COMMENT ON COLUMN license_renewals.steps IS 'Checklist from the license renewal process: [{step, done, done_date, done_by}]';
+COMMENT ON COLUMN license_renewals.last_escalation_level IS '1 = reminded the responsible person, 2 = escalated to the NABH coordinator';
+COMMENT ON TABLE notifications IS 'In-app notifications shown in the header notification centre';
+COMMENT ON COLUMN notifications.recipient IS 'NABH_TEAM member the notification is addressed to (app_users.team_member_name)';
+COMMENT ON COLUMN notifications.sent_on IS 'Day of the reminder run; a rerun the same day does not notify twice';
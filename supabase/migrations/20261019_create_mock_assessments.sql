@@ -0,0 +1,52 @@
+-- Create table for storing mock NABH assessment runs
+-- NABH Evidence Creator - Mock Survey / Self Assessment
+
+CREATE TABLE IF NOT EXISTS nabh_mock_assessments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL DEFAULT 'hope',
+    run_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    assessed_by TEXT,
+    notes TEXT,
+    overall_score NUMERIC(4, 2) NOT NULL DEFAULT 0,
+    overall_percentage INTEGER NOT NULL DEFAULT 0,
+    passed BOOLEAN NOT NULL DEFAULT false,
+    summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+    chapter_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+    element_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_mock_assessments_hospital ON nabh_mock_assessments(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_mock_assessments_created_at ON nabh_mock_assessments(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE nabh_mock_assessments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow public read access
+CREATE POLICY "Allow public read access to mock assessments"
+    ON nabh_mock_assessments FOR SELECT
+    TO public
+    USING (true);
+
+-- Policy: Allow public insert access
+CREATE POLICY "Allow public insert access to mock assessments"
+    ON nabh_mock_assessments FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+-- Policy: Allow public delete access
+CREATE POLICY "Allow public delete access to mock assessments"
+    ON nabh_mock_assessments FOR DELETE
+    TO public
+    USING (true);
+
+-- Record mock assessment run changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_mock_assessments
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_mock_assessments IS 'Dated mock NABH assessment runs with chapter-wise and element-wise 0/5/10 scores';
+COMMENT ON COLUMN nabh_mock_assessments.overall_score IS 'Average element score on the NABH 0-10 scale';
+COMMENT ON COLUMN nabh_mock_assessments.passed IS 'True when all core elements score 10 and chapter/overall averages meet the pass mark';
+COMMENT ON COLUMN nabh_mock_assessments.element_results IS 'JSON array of per-element scores and assessor findings';
@@ -0,0 +1,121 @@
+-- Create tables for MOU service obligations, partner performance reviews and renewal drafts
+-- NABH Evidence Creator - measurable terms per MOU, periodic vendor reviews scored against them
+
+CREATE TABLE IF NOT EXISTS mou_obligations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mou_id UUID NOT NULL REFERENCES mous(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    target NUMERIC(12, 2) NOT NULL,
+    unit TEXT NOT NULL CHECK (unit IN ('minutes', 'hours', 'days', '%', 'count')),
+    direction TEXT NOT NULL CHECK (direction IN ('max', 'min')),
+    review_frequency TEXT NOT NULL DEFAULT 'Quarterly' CHECK (review_frequency IN ('Monthly', 'Quarterly', 'Half-yearly', 'Yearly')),
+    weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS mou_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mou_id UUID NOT NULL REFERENCES mous(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    review_date DATE NOT NULL,
+    reviewed_by TEXT NOT NULL,
+    scores JSONB NOT NULL DEFAULT '[]'::jsonb,
+    overall_score NUMERIC(5, 1) NOT NULL,
+    rating TEXT NOT NULL CHECK (rating IN ('Meets Terms', 'Partially Meets', 'Does Not Meet')),
+    remarks TEXT,
+    action_required TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (period_end >= period_start)
+);
+
+CREATE TABLE IF NOT EXISTS mou_renewal_drafts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mou_id UUID NOT NULL REFERENCES mous(id) ON DELETE CASCADE,
+    letter TEXT NOT NULL,
+    addendum TEXT NOT NULL,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_mou_obligations_mou ON mou_obligations(mou_id);
+CREATE INDEX IF NOT EXISTS idx_mou_reviews_mou ON mou_reviews(mou_id, period_end);
+CREATE INDEX IF NOT EXISTS idx_mou_renewal_drafts_mou ON mou_renewal_drafts(mou_id, created_at);
+
+-- Enable RLS
+ALTER TABLE mou_obligations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mou_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mou_renewal_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to mou obligations"
+    ON mou_obligations FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to mou obligations"
+    ON mou_obligations FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to mou obligations"
+    ON mou_obligations FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to mou obligations"
+    ON mou_obligations FOR DELETE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public read access to mou reviews"
+    ON mou_reviews FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to mou reviews"
+    ON mou_reviews FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public read access to mou renewal drafts"
+    ON mou_renewal_drafts FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to mou renewal drafts"
+    ON mou_renewal_drafts FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_mou_obligations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_mou_obligations_updated_at
+    BEFORE UPDATE ON mou_obligations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_mou_obligations_updated_at();
+
+-- Record obligation, review and renewal draft changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON mou_obligations
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON mou_reviews
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON mou_renewal_drafts
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on tables
+COMMENT ON TABLE mou_obligations IS 'Measurable service terms a partner commits to under an MOU (turnaround, response time, pickups)';
+COMMENT ON COLUMN mou_obligations.direction IS 'max = actual must not exceed target, min = actual must reach target';
+COMMENT ON TABLE mou_reviews IS 'Periodic partner performance reviews; scores copy the obligation terms they were measured against';
+COMMENT ON TABLE mou_renewal_drafts IS 'Renewal letters and addenda drafted from the MOU and its performance reviews';
@@ -0,0 +1,143 @@
+-- Create table for the Non-Conformity (NC) register with CAPA tracking
+-- NABH Evidence Creator - NC Register
+
+CREATE TABLE IF NOT EXISTS nabh_non_conformities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    hospital_id TEXT NOT NULL DEFAULT 'hope',
+    nc_number TEXT NOT NULL,
+    objective_code TEXT NOT NULL CHECK (LENGTH(TRIM(objective_code)) > 0),
+    chapter_code TEXT NOT NULL CHECK (LENGTH(TRIM(chapter_code)) > 0),
+    finding TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'Internal Audit'
+        CHECK (source IN ('Mock Survey', 'Clinical Audit', 'External Assessor', 'Internal Audit', 'Other')),
+    source_reference TEXT,
+    severity TEXT NOT NULL DEFAULT 'Minor' CHECK (severity IN ('Major', 'Minor', 'Observation')),
+    raised_by TEXT,
+    raised_date DATE NOT NULL DEFAULT CURRENT_DATE,
+
+    -- CAPA
+    root_cause TEXT,
+    correction TEXT,
+    corrective_action TEXT,
+    preventive_action TEXT,
+    capa_owner TEXT,
+    due_date DATE,
+
+    -- Closure & verification
+    closure_evidence TEXT,
+    closure_date DATE,
+    verified_by TEXT,
+    verified_date DATE,
+    verification_remarks TEXT,
+
+    status TEXT NOT NULL DEFAULT 'Open'
+        CHECK (status IN ('Open', 'CAPA In Progress', 'Pending Verification', 'Closed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (hospital_id, nc_number)
+);
+
+-- Last NC sequence used per hospital and year
+CREATE TABLE IF NOT EXISTS nabh_nc_counters (
+    hospital_id TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    last_sequence INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (hospital_id, year)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_non_conformities_hospital ON nabh_non_conformities(hospital_id);
+CREATE INDEX IF NOT EXISTS idx_non_conformities_objective ON nabh_non_conformities(objective_code);
+CREATE INDEX IF NOT EXISTS idx_non_conformities_status ON nabh_non_conformities(status);
+CREATE INDEX IF NOT EXISTS idx_non_conformities_source_ref ON nabh_non_conformities(source_reference);
+
+-- Number every new NC as NC-{year}-{sequence} in the inserting transaction.
+-- The counter row is locked by the upsert, so concurrent inserts queue up and never
+-- get the same number; the first NC of a year continues from any numbers already used.
+-- SECURITY DEFINER because clients have no access to the counters themselves.
+CREATE OR REPLACE FUNCTION assign_nc_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_year INTEGER := EXTRACT(YEAR FROM NEW.raised_date)::INTEGER;
+    v_prefix TEXT := 'NC-' || v_year || '-';
+    v_sequence INTEGER;
+BEGIN
+    INSERT INTO nabh_nc_counters (hospital_id, year, last_sequence)
+    VALUES (
+        NEW.hospital_id,
+        v_year,
+        1 + COALESCE((
+            SELECT MAX(SUBSTRING(nc_number FROM LENGTH(v_prefix) + 1)::INTEGER)
+            FROM nabh_non_conformities
+            WHERE hospital_id = NEW.hospital_id
+              AND nc_number ~ ('^' || v_prefix || '[0-9]+$')
+        ), 0)
+    )
+    ON CONFLICT (hospital_id, year)
+    DO UPDATE SET last_sequence = nabh_nc_counters.last_sequence + 1, updated_at = NOW()
+    RETURNING last_sequence INTO v_sequence;
+
+    NEW.nc_number = v_prefix || LPAD(v_sequence::TEXT, 3, '0');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_assign_nc_number
+    BEFORE INSERT ON nabh_non_conformities
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_nc_number();
+
+-- Enable RLS
+ALTER TABLE nabh_non_conformities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nabh_nc_counters ENABLE ROW LEVEL SECURITY;
+
+-- No policies on the counters: assign_nc_number() is their only writer, so a client
+-- cannot rewind a sequence and make the next NC reuse a number
+REVOKE ALL ON nabh_nc_counters FROM anon, authenticated;
+
+CREATE POLICY "Allow public read access to non-conformities"
+    ON nabh_non_conformities FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to non-conformities"
+    ON nabh_non_conformities FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Allow public update access to non-conformities"
+    ON nabh_non_conformities FOR UPDATE
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public delete access to non-conformities"
+    ON nabh_non_conformities FOR DELETE
+    TO public
+    USING (true);
+
+-- Trigger to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_non_conformities_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_non_conformities_updated_at
+    BEFORE UPDATE ON nabh_non_conformities
+    FOR EACH ROW
+    EXECUTE FUNCTION update_non_conformities_updated_at();
+
+-- Record non-conformity changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_non_conformities
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_non_conformities IS 'Non-conformities raised against NABH objective elements with CAPA and verification';
+COMMENT ON COLUMN nabh_non_conformities.nc_number IS 'NC-2026-007 style number assigned by assign_nc_number() on insert';
+COMMENT ON TABLE nabh_nc_counters IS 'Last NC sequence used per hospital and year, advanced by assign_nc_number()';
+COMMENT ON COLUMN nabh_non_conformities.source_reference IS 'Id of the clinical audit / mock assessment run, or external assessor report reference';
+COMMENT ON COLUMN nabh_non_conformities.capa_owner IS 'NABH team member responsible for the corrective and preventive action';
@@ -0,0 +1,46 @@
+-- Create table for patient file samples drawn for audits and KPI data collection
+-- NABH Evidence Creator - the seed and file list are kept so a sample can be reproduced
+
+CREATE TABLE IF NOT EXISTS patient_samples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    purpose TEXT NOT NULL CHECK (purpose IN ('clinical_audit', 'kpi')),
+    reference_id TEXT NOT NULL,
+    method TEXT NOT NULL CHECK (method IN ('random', 'stratified')),
+    stratify_by TEXT CHECK (stratify_by IN ('month', 'diagnosis', 'status')),
+    seed TEXT NOT NULL,
+    -- { "fromDate": "YYYY-MM-DD", "toDate": "YYYY-MM-DD", "status": "Discharged" }
+    filters JSONB NOT NULL DEFAULT '{}',
+    population_size INTEGER NOT NULL,
+    sample_size INTEGER NOT NULL,
+    -- [{ "visit_id": "...", "patient_name": "...", "stratum": "2026-09" }]
+    entries JSONB NOT NULL DEFAULT '[]',
+    -- [{ "stratum": "2026-09", "population": 120, "sample": 12 }]
+    strata JSONB NOT NULL DEFAULT '[]',
+    methodology TEXT NOT NULL,
+    drawn_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_patient_samples_reference ON patient_samples(purpose, reference_id);
+
+-- Enable RLS
+ALTER TABLE patient_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to patient samples"
+    ON patient_samples FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to patient samples"
+    ON patient_samples FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+-- Record patient sample changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON patient_samples
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE patient_samples IS 'Random or stratified samples of patient files, with seed and file list for reproducibility';
+COMMENT ON COLUMN patient_samples.reference_id IS 'Clinical audit id or KPI id the sample was drawn for';
@@ -0,0 +1,140 @@
+-- Create the prompt library: versioned prompt templates, test sets and stored test outputs
+-- NABH Evidence Creator - built-in prompts live in src/data/builtinPrompts.ts and get a
+-- template row once they are pinned or their variables are edited
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    category TEXT NOT NULL DEFAULT '',
+    usage TEXT UNIQUE CHECK (usage IN ('sop-from-content', 'evidence-from-documents', 'kpi-edit')),
+    ai_feature TEXT NOT NULL DEFAULT 'general',
+    variables JSONB NOT NULL DEFAULT '[]',
+    pinned_version INTEGER,
+    is_builtin BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template_id TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    body TEXT NOT NULL,
+    notes TEXT NOT NULL DEFAULT '',
+    temperature NUMERIC(3, 2) NOT NULL DEFAULT 0.7 CHECK (temperature BETWEEN 0 AND 2),
+    max_tokens INTEGER NOT NULL DEFAULT 8192 CHECK (max_tokens > 0),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (template_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS prompt_test_sets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    objective_codes TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS prompt_test_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    test_set_id UUID NOT NULL REFERENCES prompt_test_sets(id) ON DELETE CASCADE,
+    objective_code TEXT NOT NULL,
+    rendered_prompt TEXT NOT NULL,
+    output TEXT NOT NULL DEFAULT '',
+    error TEXT,
+    provider TEXT,
+    model TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_prompt_versions_template ON prompt_versions(template_id, version);
+CREATE INDEX IF NOT EXISTS idx_prompt_test_runs_set ON prompt_test_runs(template_id, test_set_id, created_at DESC);
+
+-- Enable RLS: signed-in users read; content editors add templates, versions and test runs;
+-- only coordinators change a template (pinning the version production uses)
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_test_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_test_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access to prompt templates"
+    ON prompt_templates FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow editors to create prompt templates"
+    ON prompt_templates FOR INSERT
+    TO authenticated
+    WITH CHECK (current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff'));
+
+CREATE POLICY "Allow coordinators to update prompt templates"
+    ON prompt_templates FOR UPDATE
+    TO authenticated
+    USING (current_app_role() = 'nabh_coordinator');
+
+CREATE POLICY "Allow authenticated read access to prompt versions"
+    ON prompt_versions FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow editors to create prompt versions"
+    ON prompt_versions FOR INSERT
+    TO authenticated
+    WITH CHECK (current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff'));
+
+CREATE POLICY "Allow authenticated read access to prompt test sets"
+    ON prompt_test_sets FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow editors to create prompt test sets"
+    ON prompt_test_sets FOR INSERT
+    TO authenticated
+    WITH CHECK (current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff'));
+
+CREATE POLICY "Allow editors to delete prompt test sets"
+    ON prompt_test_sets FOR DELETE
+    TO authenticated
+    USING (current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff'));
+
+CREATE POLICY "Allow authenticated read access to prompt test runs"
+    ON prompt_test_runs FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow editors to create prompt test runs"
+    ON prompt_test_runs FOR INSERT
+    TO authenticated
+    WITH CHECK (current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff'));
+
+CREATE POLICY "Allow editors to rate prompt test runs"
+    ON prompt_test_runs FOR UPDATE
+    TO authenticated
+    USING (current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head', 'staff'));
+
+-- Versions are immutable, a change is a new version
+REVOKE UPDATE, DELETE, TRUNCATE ON prompt_versions FROM anon, authenticated;
+
+-- Record template and version changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON prompt_templates
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON prompt_versions
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on tables
+COMMENT ON TABLE prompt_templates IS 'Prompt library templates with typed variables; usage names the production feature the template serves';
+COMMENT ON COLUMN prompt_templates.pinned_version IS 'Version used in production; NULL means built-in version 1, or the latest version of a custom template';
+COMMENT ON TABLE prompt_versions IS 'Immutable prompt bodies using {{variable}} placeholders; version 1 of built-in templates lives in code';
+COMMENT ON TABLE prompt_test_sets IS 'Saved sets of objective elements that prompt versions are evaluated against';
+COMMENT ON TABLE prompt_test_runs IS 'Output of one prompt version for one objective element, rated 1-5 for A/B comparison';
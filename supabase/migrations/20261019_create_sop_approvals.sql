@@ -0,0 +1,200 @@
+-- SOP approval workflow: Draft → Prepared → Reviewed → Approved → Issued
+-- NABH Evidence Creator - document control sign-off for generated and uploaded SOPs
+
+ALTER TABLE nabh_generated_sops
+    ADD COLUMN IF NOT EXISTS approval_stage TEXT NOT NULL DEFAULT 'Draft'
+        CHECK (approval_stage IN ('Draft', 'Prepared', 'Reviewed', 'Approved', 'Issued'));
+
+ALTER TABLE nabh_sop_documents
+    ADD COLUMN IF NOT EXISTS approval_stage TEXT NOT NULL DEFAULT 'Draft'
+        CHECK (approval_stage IN ('Draft', 'Prepared', 'Reviewed', 'Approved', 'Issued'));
+
+-- SOPs already in force predate the workflow; treat them as issued
+UPDATE nabh_generated_sops SET approval_stage = 'Issued' WHERE status = 'Active' AND approval_stage = 'Draft';
+UPDATE nabh_sop_documents SET approval_stage = 'Issued' WHERE status = 'Active' AND approval_stage = 'Draft';
+
+-- One row per signature or rejection
+CREATE TABLE IF NOT EXISTS nabh_sop_approval_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_type TEXT NOT NULL CHECK (document_type IN ('generated_sop', 'sop_document')),
+    document_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('Prepared', 'Reviewed', 'Approved', 'Issued', 'Rejected')),
+    from_stage TEXT NOT NULL,
+    to_stage TEXT NOT NULL,
+
+    -- Signing NABH_TEAM member (hospitalConfig.ts), the team member linked to the signer's login
+    member_name TEXT NOT NULL,
+    member_role TEXT NOT NULL,
+    member_designation TEXT NOT NULL,
+    comments TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Rejections must say why
+    CHECK (action <> 'Rejected' OR (comments IS NOT NULL AND LENGTH(TRIM(comments)) > 0))
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_sop_approval_events_document ON nabh_sop_approval_events(document_type, document_id, created_at);
+
+-- Enable RLS
+ALTER TABLE nabh_sop_approval_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to SOP approval events"
+    ON nabh_sop_approval_events FOR SELECT
+    TO public
+    USING (true);
+
+-- Roles allowed to sign each step; mirrors APPROVAL_ACTION_CAPABILITIES in permissionEngine.ts
+CREATE OR REPLACE FUNCTION can_sign_sop_action(p_action TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(CASE
+        WHEN p_action IN ('Approved', 'Issued') THEN current_app_role() = 'nabh_coordinator'
+        ELSE current_app_role() IN ('nabh_coordinator', 'quality_manager', 'department_head')
+    END, false)
+$$ LANGUAGE sql STABLE;
+
+-- Signed-in users sign only as the team member linked to their login, and only through
+-- record_sop_approval() so the stage moves with the signature
+CREATE POLICY "Signatories can insert their own SOP approval events"
+    ON nabh_sop_approval_events FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        member_name = current_app_team_member()
+        AND can_sign_sop_action(action)
+        AND current_setting('app.sop_approval', true) = 'on'
+    );
+
+-- No update or delete policy: signatures are an append-only record
+
+-- Any edit may send an SOP back to Draft; moving it to a signed stage goes through
+-- record_sop_approval() and needs the role that signs that stage. Migrations and the
+-- service role are not checked.
+CREATE OR REPLACE FUNCTION check_sop_approval_stage()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+        AND NEW.approval_stage <> 'Draft'
+        AND (TG_OP = 'INSERT' OR NEW.approval_stage IS DISTINCT FROM OLD.approval_stage)
+        AND (current_setting('app.sop_approval', true) IS DISTINCT FROM 'on' OR NOT can_sign_sop_action(NEW.approval_stage)) THEN
+        RAISE EXCEPTION 'Not authorised to move an SOP to %', NEW.approval_stage;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_check_generated_sop_approval_stage
+    BEFORE INSERT OR UPDATE OF approval_stage ON nabh_generated_sops
+    FOR EACH ROW
+    EXECUTE FUNCTION check_sop_approval_stage();
+
+CREATE TRIGGER trigger_check_sop_document_approval_stage
+    BEFORE INSERT OR UPDATE OF approval_stage ON nabh_sop_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION check_sop_approval_stage();
+
+-- Sign a workflow step (or reject) and move the SOP to its new stage in one transaction.
+-- The SOP row is locked and its stage compared with the one the signer saw, so two signers
+-- cannot both act on the same stage. Runs with the caller's rights: the insert policy and the
+-- stage trigger above still decide who may sign. The step order and the rule that one person
+-- may not prepare, review and approve the same SOP match validateApprovalTransition().
+CREATE OR REPLACE FUNCTION record_sop_approval(
+    p_document_type TEXT,
+    p_document_id UUID,
+    p_from_stage TEXT,
+    p_action TEXT,
+    p_member_role TEXT,
+    p_member_designation TEXT,
+    p_comments TEXT DEFAULT NULL
+)
+RETURNS SETOF nabh_sop_approval_events AS $$
+DECLARE
+    v_stage TEXT;
+    v_to_stage TEXT;
+    v_member TEXT := current_app_team_member();
+    v_event nabh_sop_approval_events;
+BEGIN
+    IF v_member IS NULL THEN
+        RAISE EXCEPTION 'Your login is not linked to a team member; ask the NABH coordinator to link it before signing';
+    END IF;
+
+    IF p_document_type = 'generated_sop' THEN
+        SELECT approval_stage INTO v_stage FROM nabh_generated_sops WHERE id = p_document_id FOR UPDATE;
+    ELSIF p_document_type = 'sop_document' THEN
+        SELECT approval_stage INTO v_stage FROM nabh_sop_documents WHERE id = p_document_id FOR UPDATE;
+    END IF;
+    IF v_stage IS NULL THEN
+        RAISE EXCEPTION 'SOP % not found', p_document_id;
+    END IF;
+    IF v_stage <> p_from_stage THEN
+        RAISE EXCEPTION 'This SOP is now %; reload it before signing', v_stage;
+    END IF;
+
+    IF p_action = 'Rejected' THEN
+        IF v_stage NOT IN ('Prepared', 'Reviewed', 'Approved') THEN
+            RAISE EXCEPTION 'A % SOP cannot be rejected', LOWER(v_stage);
+        END IF;
+        v_to_stage := 'Draft';
+    ELSE
+        IF p_action IS DISTINCT FROM CASE v_stage
+            WHEN 'Draft' THEN 'Prepared'
+            WHEN 'Prepared' THEN 'Reviewed'
+            WHEN 'Reviewed' THEN 'Approved'
+            WHEN 'Approved' THEN 'Issued'
+        END THEN
+            RAISE EXCEPTION 'This SOP is %; % is not the next step', v_stage, p_action;
+        END IF;
+        v_to_stage := p_action;
+    END IF;
+
+    -- Signatures of the current cycle start at its latest preparation
+    IF p_action IN ('Reviewed', 'Approved') AND EXISTS (
+        SELECT 1 FROM nabh_sop_approval_events e
+        WHERE e.document_type = p_document_type
+          AND e.document_id = p_document_id
+          AND e.action IN ('Prepared', 'Reviewed')
+          AND e.member_name = v_member
+          AND e.created_at >= (
+              SELECT MAX(created_at) FROM nabh_sop_approval_events
+              WHERE document_type = p_document_type AND document_id = p_document_id AND action = 'Prepared'
+          )
+    ) THEN
+        RAISE EXCEPTION 'The reviewer and approver must be different from the preparer and reviewer';
+    END IF;
+
+    PERFORM set_config('app.sop_approval', 'on', true);
+    INSERT INTO nabh_sop_approval_events (document_type, document_id, action, from_stage, to_stage,
+        member_name, member_role, member_designation, comments)
+    VALUES (p_document_type, p_document_id, p_action, v_stage, v_to_stage,
+        v_member, p_member_role, p_member_designation, NULLIF(TRIM(p_comments), ''))
+    RETURNING * INTO v_event;
+
+    -- Issuing also makes the SOP Active from today
+    IF p_document_type = 'generated_sop' THEN
+        UPDATE nabh_generated_sops
+        SET approval_stage = v_to_stage,
+            status = CASE WHEN v_to_stage = 'Issued' THEN 'Active' ELSE status END,
+            effective_date = CASE WHEN v_to_stage = 'Issued' THEN CURRENT_DATE ELSE effective_date END,
+            updated_at = NOW()
+        WHERE id = p_document_id;
+    ELSE
+        UPDATE nabh_sop_documents
+        SET approval_stage = v_to_stage,
+            status = CASE WHEN v_to_stage = 'Issued' THEN 'Active' ELSE status END,
+            effective_date = CASE WHEN v_to_stage = 'Issued' THEN CURRENT_DATE ELSE effective_date END,
+            updated_at = NOW()
+        WHERE id = p_document_id;
+    END IF;
+
+    RETURN NEXT v_event;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record SOP sign-off changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_sop_approval_events
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_sop_approval_events IS 'Signed SOP workflow transitions; the latest cycle forms the approval block in the SOP header';
+COMMENT ON COLUMN nabh_generated_sops.approval_stage IS 'Only Approved or Issued SOPs may be shared or marked effective';
+COMMENT ON COLUMN nabh_sop_documents.approval_stage IS 'Only Approved or Issued SOPs may be shared or marked effective';
+COMMENT ON FUNCTION record_sop_approval IS 'Records a signature or rejection and moves the SOP stage atomically; the signer is the team member linked to the login';
@@ -0,0 +1,138 @@
+-- Create immutable revision history for generated SOPs
+-- NABH Evidence Creator - SOP document control (amendment record)
+
+CREATE TABLE IF NOT EXISTS nabh_sop_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Cleared when the SOP is deleted; the history stays, identified by sop_title
+    sop_id UUID REFERENCES nabh_generated_sops(id) ON DELETE SET NULL,
+    sop_title TEXT NOT NULL,
+    revision_number INTEGER NOT NULL,
+    version TEXT NOT NULL,
+    sop_html_content TEXT NOT NULL,
+    change_reason TEXT NOT NULL,
+    author TEXT,
+    pdf_url TEXT,
+    pdf_file_path TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (sop_id, revision_number)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_sop_revisions_sop ON nabh_sop_revisions(sop_id, revision_number DESC);
+
+-- Enable RLS
+ALTER TABLE nabh_sop_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to SOP revisions"
+    ON nabh_sop_revisions FOR SELECT
+    TO public
+    USING (true);
+
+CREATE POLICY "Allow public insert access to SOP revisions"
+    ON nabh_sop_revisions FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+-- No update or delete policy: revisions are an append-only record.
+-- The trigger also blocks edits made with elevated keys. sop_id is the one column that
+-- may change, cleared by ON DELETE SET NULL when the SOP is deleted.
+CREATE OR REPLACE FUNCTION prevent_sop_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.sop_id IS NULL AND ROW(NEW.*) IS NOT DISTINCT FROM ROW(OLD.id, NULL, OLD.sop_title, OLD.revision_number,
+        OLD.version, OLD.sop_html_content, OLD.change_reason, OLD.author, OLD.pdf_url, OLD.pdf_file_path, OLD.created_at) THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'SOP revisions are immutable; save a new revision instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_prevent_sop_revision_update
+    BEFORE UPDATE ON nabh_sop_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_sop_revision_update();
+
+-- Keep the SOP title on every revision so the history still reads after the SOP is deleted
+CREATE OR REPLACE FUNCTION set_sop_revision_title()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT objective_code || ' ' || objective_title INTO NEW.sop_title
+    FROM nabh_generated_sops
+    WHERE id = NEW.sop_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_sop_revision_title
+    BEFORE INSERT ON nabh_sop_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION set_sop_revision_title();
+
+-- Record a new revision and make it the SOP's current content in one transaction.
+-- The SOP row is locked so concurrent saves get consecutive revision numbers. SOPs saved
+-- before revision history existed get their current content recorded as revision 1 first.
+-- The version bump matches getNextVersion() in sopRevisionStorage.ts: 1.0 → 1.1, 1.9 → 1.10.
+CREATE OR REPLACE FUNCTION save_sop_revision(
+    p_sop_id UUID,
+    p_content TEXT,
+    p_change_reason TEXT,
+    p_author TEXT,
+    p_pdf_url TEXT DEFAULT NULL,
+    p_pdf_file_path TEXT DEFAULT NULL
+)
+RETURNS SETOF nabh_sop_revisions AS $$
+DECLARE
+    v_sop nabh_generated_sops;
+    v_latest nabh_sop_revisions;
+    v_version TEXT;
+    v_revision nabh_sop_revisions;
+BEGIN
+    SELECT * INTO v_sop FROM nabh_generated_sops WHERE id = p_sop_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'SOP % not found', p_sop_id;
+    END IF;
+
+    SELECT * INTO v_latest FROM nabh_sop_revisions WHERE sop_id = p_sop_id ORDER BY revision_number DESC LIMIT 1;
+    IF NOT FOUND THEN
+        INSERT INTO nabh_sop_revisions (sop_id, revision_number, version, sop_html_content, change_reason, author, pdf_url, pdf_file_path)
+        VALUES (p_sop_id, 1, COALESCE(v_sop.version, '1.0'), v_sop.sop_html_content, 'Initial release',
+            v_sop.created_by, v_sop.pdf_url, v_sop.pdf_file_path)
+        RETURNING * INTO v_latest;
+    END IF;
+
+    v_version := CASE
+        WHEN v_latest.version ~ '^\d+(\.\d+)?$'
+            THEN split_part(v_latest.version, '.', 1)::INTEGER || '.' || (COALESCE(NULLIF(split_part(v_latest.version, '.', 2), ''), '0')::INTEGER + 1)
+        ELSE '1.1'
+    END;
+
+    INSERT INTO nabh_sop_revisions (sop_id, revision_number, version, sop_html_content, change_reason, author, pdf_url, pdf_file_path)
+    VALUES (p_sop_id, v_latest.revision_number + 1, v_version, p_content,
+        COALESCE(NULLIF(TRIM(p_change_reason), ''), 'Content updated'), p_author, p_pdf_url, p_pdf_file_path)
+    RETURNING * INTO v_revision;
+
+    -- An amended SOP needs a fresh sign-off and is not effective until issued again
+    UPDATE nabh_generated_sops
+    SET sop_html_content = p_content,
+        version = v_version,
+        approval_stage = 'Draft',
+        status = 'Under Review',
+        pdf_url = COALESCE(p_pdf_url, pdf_url),
+        pdf_file_path = CASE WHEN p_pdf_url IS NULL THEN pdf_file_path ELSE p_pdf_file_path END,
+        updated_at = NOW()
+    WHERE id = p_sop_id;
+
+    RETURN NEXT v_revision;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record SOP revision changes in the audit log
+CREATE TRIGGER trigger_audit_log AFTER INSERT OR UPDATE OR DELETE ON nabh_sop_revisions
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Comment on table
+COMMENT ON TABLE nabh_sop_revisions IS 'Append-only revision history of generated SOPs; source of the PDF amendment record';
+COMMENT ON COLUMN nabh_sop_revisions.sop_title IS 'Objective code and title of the SOP, copied on insert so the history outlives the SOP';
+COMMENT ON FUNCTION save_sop_revision IS 'Appends a revision and updates the SOP to it atomically; the SOP returns to Draft';
+COMMENT ON COLUMN nabh_sop_revisions.change_reason IS 'Why the SOP was changed, e.g. the improvement chat feedback or "Restored revision 2"';
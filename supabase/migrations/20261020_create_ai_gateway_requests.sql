@@ -0,0 +1,89 @@
+-- Create the AI gateway request log
+-- NABH Evidence Creator - tokens, cost and latency of every AI call, per hospital and feature
+
+CREATE TABLE IF NOT EXISTS ai_gateway_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    hospital_id TEXT,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    feature TEXT NOT NULL,
+    provider TEXT NOT NULL CHECK (provider IN ('anthropic', 'gemini', 'stub')),
+    model TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('success', 'error', 'rate_limited')),
+    streamed BOOLEAN NOT NULL DEFAULT false,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    prompt_chars INTEGER NOT NULL DEFAULT 0,
+    response_chars INTEGER NOT NULL DEFAULT 0,
+    prompt_excerpt TEXT,
+    response_excerpt TEXT,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_ai_gateway_requests_created ON ai_gateway_requests(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_gateway_requests_hospital ON ai_gateway_requests(hospital_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_gateway_requests_feature ON ai_gateway_requests(feature, created_at DESC);
+
+-- Enable RLS: only the gateway writes (service role); coordinators read usage
+ALTER TABLE ai_gateway_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow coordinators to read AI gateway requests"
+    ON ai_gateway_requests FOR SELECT
+    TO authenticated
+    USING (current_app_role() = 'nabh_coordinator');
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON ai_gateway_requests FROM anon, authenticated;
+
+-- Hospital each login works in; the gateway accounts AI usage to it (NULL = every hospital)
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS hospital_id TEXT;
+
+-- Rate limit hits shared by every gateway instance
+CREATE TABLE IF NOT EXISTS ai_gateway_rate_hits (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_gateway_rate_hits_user ON ai_gateway_rate_hits(user_id, hit_at);
+
+ALTER TABLE ai_gateway_rate_hits ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON ai_gateway_rate_hits FROM anon, authenticated;
+
+-- Sliding-window rate limit per user (same rule as checkRateLimit in aiGatewayEngine).
+-- Records the hit and returns 0 when allowed, otherwise the milliseconds until a slot frees up.
+-- The per-user lock serialises concurrent calls from different gateway instances.
+CREATE OR REPLACE FUNCTION take_ai_rate_limit(p_user_id UUID, p_limit INTEGER, p_window_ms INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    window_start TIMESTAMP WITH TIME ZONE := clock_timestamp() - make_interval(secs => p_window_ms / 1000.0);
+    recent_count INTEGER;
+    oldest_hit TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('ai_rate_limit:' || p_user_id::text));
+
+    DELETE FROM ai_gateway_rate_hits WHERE user_id = p_user_id AND hit_at <= window_start;
+
+    SELECT count(*), min(hit_at) INTO recent_count, oldest_hit
+    FROM ai_gateway_rate_hits WHERE user_id = p_user_id;
+
+    IF recent_count >= p_limit THEN
+        RETURN GREATEST(1, ceil(extract(epoch FROM (oldest_hit - window_start)) * 1000))::INTEGER;
+    END IF;
+
+    INSERT INTO ai_gateway_rate_hits (user_id) VALUES (p_user_id);
+    RETURN 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION take_ai_rate_limit(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Comment on tables
+COMMENT ON TABLE ai_gateway_requests IS 'One row per AI gateway call (api/ai.ts): provider, model, tokens, cost and excerpts of the prompt and response';
+COMMENT ON COLUMN ai_gateway_requests.cost_usd IS 'Estimated from MODEL_PRICING in aiGatewayEngine at the time of the call';
+COMMENT ON COLUMN ai_gateway_requests.prompt_excerpt IS 'First 2000 characters of the prompt';
+COMMENT ON COLUMN ai_gateway_requests.hospital_id IS 'Hospital of the signed-in user, or the requested hospital when the user works across hospitals';
+COMMENT ON COLUMN app_users.hospital_id IS 'Hospital this login works in; NULL lets the user work in every hospital';
+COMMENT ON FUNCTION take_ai_rate_limit(UUID, INTEGER, INTEGER) IS 'Called by the AI gateway with the service role; 0 = allowed, otherwise retry-after in milliseconds';
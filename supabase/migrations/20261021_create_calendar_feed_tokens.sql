@@ -0,0 +1,63 @@
+-- Create table for compliance calendar subscription tokens
+-- NABH Evidence Creator - calendar apps fetch the feed without a login, so each user gets a
+-- secret token per hospital that the feed endpoint (service role) resolves back to the user
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    hospital_id TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, hospital_id)
+);
+
+-- Enable RLS
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own calendar feed tokens"
+    ON calendar_feed_tokens FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Tokens are only issued and reset through calendar_feed_token()
+REVOKE INSERT, UPDATE, DELETE ON calendar_feed_tokens FROM anon, authenticated;
+
+-- Token of the signed-in user for a hospital, issued on first use. p_reset replaces it,
+-- which cuts off every calendar subscribed with the old URL
+CREATE OR REPLACE FUNCTION calendar_feed_token(p_hospital_id TEXT, p_reset BOOLEAN DEFAULT false)
+RETURNS TEXT AS $$
+DECLARE
+    v_user_hospital TEXT;
+    v_token TEXT;
+BEGIN
+    IF current_app_role() IS NULL THEN
+        RAISE EXCEPTION 'Only active app users can subscribe to the compliance calendar';
+    END IF;
+
+    SELECT hospital_id INTO v_user_hospital FROM app_users WHERE id = auth.uid();
+    IF v_user_hospital IS NOT NULL AND v_user_hospital <> p_hospital_id THEN
+        RAISE EXCEPTION 'You cannot subscribe to the compliance calendar of hospital %', p_hospital_id;
+    END IF;
+
+    IF p_reset THEN
+        DELETE FROM calendar_feed_tokens WHERE user_id = auth.uid() AND hospital_id = p_hospital_id;
+    END IF;
+
+    INSERT INTO calendar_feed_tokens (user_id, hospital_id)
+    VALUES (auth.uid(), p_hospital_id)
+    ON CONFLICT (user_id, hospital_id) DO NOTHING;
+
+    SELECT token INTO v_token
+    FROM calendar_feed_tokens
+    WHERE user_id = auth.uid() AND hospital_id = p_hospital_id;
+
+    RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION calendar_feed_token(TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION calendar_feed_token(TEXT, BOOLEAN) TO authenticated;
+
+-- Comment on table
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret per-user, per-hospital tokens authenticating compliance calendar subscriptions';
+COMMENT ON COLUMN calendar_feed_tokens.token IS 'Query token of /api/compliance-calendar; only valid while the user is active';
+COMMENT ON FUNCTION calendar_feed_token(TEXT, BOOLEAN) IS 'Issues (or with p_reset replaces) the signed-in user''s calendar feed token for a hospital';